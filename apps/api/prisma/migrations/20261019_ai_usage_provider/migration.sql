@@ -0,0 +1,8 @@
+-- Which provider answered each AI call, and its estimated cost
+ALTER TABLE "AIUsage" ADD COLUMN "provider" TEXT NOT NULL DEFAULT 'anthropic';
+ALTER TABLE "AIUsage" ADD COLUMN "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Talk It Out calls were the only ones made with Gemini
+UPDATE "AIUsage" SET "provider" = 'gemini' WHERE "model" LIKE 'gemini%';
+
+CREATE INDEX "AIUsage_provider_idx" ON "AIUsage"("provider");
@@ -0,0 +1,45 @@
+-- Double-entry bucket ledger
+CREATE TYPE "LedgerTransactionKind" AS ENUM ('RECEIPT', 'EXPENSE', 'TRANSFER');
+CREATE TYPE "LedgerSourceType" AS ENUM ('DONATION', 'MANUAL_PAYMENT', 'STRIPE_DUES', 'REIMBURSEMENT');
+CREATE TYPE "LedgerAccount" AS ENUM ('BUCKET', 'GENERAL_FUND', 'DONATION_INCOME', 'DUES_INCOME', 'REIMBURSED_EXPENSES');
+
+CREATE TABLE "LedgerTransaction" (
+    "id" TEXT NOT NULL,
+    "bandId" TEXT NOT NULL,
+    "kind" "LedgerTransactionKind" NOT NULL,
+    "description" VARCHAR(255) NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "sourceType" "LedgerSourceType",
+    "sourceId" TEXT,
+    "createdById" TEXT,
+    "proposalId" TEXT,
+    "reconciledAt" TIMESTAMP(3),
+    "reconciledById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LedgerTransaction_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "bandId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "bucketId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "LedgerTransaction_sourceType_sourceId_key" ON "LedgerTransaction"("sourceType", "sourceId");
+CREATE INDEX "LedgerTransaction_bandId_occurredAt_idx" ON "LedgerTransaction"("bandId", "occurredAt");
+CREATE INDEX "LedgerTransaction_bandId_reconciledAt_idx" ON "LedgerTransaction"("bandId", "reconciledAt");
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "LedgerEntry"("transactionId");
+CREATE INDEX "LedgerEntry_bandId_account_idx" ON "LedgerEntry"("bandId", "account");
+CREATE INDEX "LedgerEntry_bucketId_idx" ON "LedgerEntry"("bucketId");
+
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_bandId_fkey" FOREIGN KEY ("bandId") REFERENCES "Band"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "LedgerTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_bucketId_fkey" FOREIGN KEY ("bucketId") REFERENCES "Bucket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
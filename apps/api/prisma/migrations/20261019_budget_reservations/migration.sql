@@ -0,0 +1,28 @@
+-- Budget-backed proposals reserve funds from a bucket on approval
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "budgetBucketId" TEXT;
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "budgetAmendsProposalId" TEXT;
+ALTER TABLE "LedgerTransaction" ADD COLUMN IF NOT EXISTS "budgetReservationId" TEXT;
+
+CREATE TABLE "BudgetReservation" (
+    "id" TEXT NOT NULL,
+    "bandId" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "bucketId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "BudgetReservation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "BudgetReservation_proposalId_key" ON "BudgetReservation"("proposalId");
+CREATE INDEX "BudgetReservation_bandId_idx" ON "BudgetReservation"("bandId");
+CREATE INDEX "BudgetReservation_bucketId_releasedAt_idx" ON "BudgetReservation"("bucketId", "releasedAt");
+CREATE INDEX "LedgerTransaction_budgetReservationId_idx" ON "LedgerTransaction"("budgetReservationId");
+
+ALTER TABLE "Proposal" ADD CONSTRAINT "Proposal_budgetBucketId_fkey" FOREIGN KEY ("budgetBucketId") REFERENCES "Bucket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Proposal" ADD CONSTRAINT "Proposal_budgetAmendsProposalId_fkey" FOREIGN KEY ("budgetAmendsProposalId") REFERENCES "Proposal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "BudgetReservation" ADD CONSTRAINT "BudgetReservation_bandId_fkey" FOREIGN KEY ("bandId") REFERENCES "Band"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "BudgetReservation" ADD CONSTRAINT "BudgetReservation_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "BudgetReservation" ADD CONSTRAINT "BudgetReservation_bucketId_fkey" FOREIGN KEY ("bucketId") REFERENCES "Bucket"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_budgetReservationId_fkey" FOREIGN KEY ("budgetReservationId") REFERENCES "BudgetReservation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Tokenized iCalendar feed URLs per user and per band
+CREATE TYPE "CalendarFeedScope" AS ENUM ('USER', 'BAND_MEMBERS', 'BAND_PUBLIC');
+
+CREATE TABLE "CalendarFeedToken" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bandId" TEXT,
+    "scope" "CalendarFeedScope" NOT NULL,
+    "lastAccessedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CalendarFeedToken_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "CalendarFeedToken_token_key" ON "CalendarFeedToken"("token");
+CREATE INDEX "CalendarFeedToken_userId_idx" ON "CalendarFeedToken"("userId");
+CREATE INDEX "CalendarFeedToken_bandId_idx" ON "CalendarFeedToken"("bandId");
+
+ALTER TABLE "CalendarFeedToken" ADD CONSTRAINT "CalendarFeedToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CalendarFeedToken" ADD CONSTRAINT "CalendarFeedToken_bandId_fkey" FOREIGN KEY ("bandId") REFERENCES "Band"("id") ON DELETE CASCADE ON UPDATE CASCADE;
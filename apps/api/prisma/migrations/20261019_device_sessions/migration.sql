@@ -0,0 +1,20 @@
+-- Short-lived access tokens with rotating refresh tokens and device sessions
+
+-- Old sessions stored raw refresh tokens and can't be rotated; everyone signs in again
+DELETE FROM "Session";
+
+DROP INDEX IF EXISTS "Session_refreshToken_key";
+DROP INDEX IF EXISTS "Session_userId_idx";
+ALTER TABLE "Session" DROP COLUMN "refreshToken";
+
+CREATE TYPE "SessionRevokedReason" AS ENUM ('SIGNED_OUT', 'REVOKED_BY_USER', 'PASSWORD_CHANGED', 'TOKEN_REUSE', 'BANNED', 'SUSPENDED');
+
+ALTER TABLE "Session" ADD COLUMN "generation" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Session" ADD COLUMN "userAgent" VARCHAR(500);
+ALTER TABLE "Session" ADD COLUMN "deviceName" VARCHAR(100);
+ALTER TABLE "Session" ADD COLUMN "ipAddress" VARCHAR(64);
+ALTER TABLE "Session" ADD COLUMN "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "Session" ADD COLUMN "revokedAt" TIMESTAMP(3);
+ALTER TABLE "Session" ADD COLUMN "revokedReason" "SessionRevokedReason";
+
+CREATE INDEX "Session_userId_revokedAt_idx" ON "Session"("userId", "revokedAt");
@@ -0,0 +1,23 @@
+-- Direct and group conversations between band members
+CREATE TYPE "ChannelKind" AS ENUM ('BAND', 'DIRECT');
+
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'DIRECT_MESSAGE_RECEIVED';
+
+ALTER TABLE "Channel" ADD COLUMN "kind" "ChannelKind" NOT NULL DEFAULT 'BAND';
+
+CREATE TABLE "ChannelParticipant" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "isMuted" BOOLEAN NOT NULL DEFAULT false,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+    CONSTRAINT "ChannelParticipant_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "Channel_bandId_kind_idx" ON "Channel"("bandId", "kind");
+CREATE UNIQUE INDEX "ChannelParticipant_channelId_userId_key" ON "ChannelParticipant"("channelId", "userId");
+CREATE INDEX "ChannelParticipant_userId_idx" ON "ChannelParticipant"("userId");
+
+ALTER TABLE "ChannelParticipant" ADD CONSTRAINT "ChannelParticipant_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "Channel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ChannelParticipant" ADD CONSTRAINT "ChannelParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- Document version history and extracted text for search and AI context
+CREATE TYPE "DocumentTextStatus" AS ENUM ('PENDING', 'EXTRACTED', 'UNSUPPORTED', 'FAILED');
+
+ALTER TABLE "Document" ADD COLUMN "currentVersion" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Document" ADD COLUMN "extractedText" TEXT;
+
+CREATE TABLE "DocumentVersion" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "note" VARCHAR(500),
+    "extractedText" TEXT,
+    "textStatus" "DocumentTextStatus" NOT NULL DEFAULT 'PENDING',
+    "textAttempts" INTEGER NOT NULL DEFAULT 0,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DocumentVersion_fileId_key" ON "DocumentVersion"("fileId");
+CREATE UNIQUE INDEX "DocumentVersion_documentId_versionNumber_key" ON "DocumentVersion"("documentId", "versionNumber");
+CREATE INDEX "DocumentVersion_textStatus_idx" ON "DocumentVersion"("textStatus");
+CREATE INDEX "DocumentVersion_uploadedById_idx" ON "DocumentVersion"("uploadedById");
+
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "File"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing documents become version 1; the cron extracts their text
+INSERT INTO "DocumentVersion" ("id", "documentId", "versionNumber", "fileId", "uploadedById", "downloadCount", "createdAt")
+SELECT d."id" || '_v1', d."id", 1, d."fileId", d."uploadedById", d."downloadCount", d."createdAt"
+FROM "Document" d;
+
+-- Search the current version's text too (generated columns can't be altered in place)
+-- (db push deploys get this from services/database-setup.service.ts, Document v2)
+DROP INDEX IF EXISTS "Document_searchVector_idx";
+ALTER TABLE "Document" DROP COLUMN IF EXISTS "searchVector";
+ALTER TABLE "Document"
+ADD COLUMN "searchVector" tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("extractedText", '')), 'C')
+) STORED;
+CREATE INDEX "Document_searchVector_idx" ON "Document" USING GIN ("searchVector");
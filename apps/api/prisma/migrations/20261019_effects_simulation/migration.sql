@@ -0,0 +1,3 @@
+-- Stored dry-run of a proposal's effects, for the "if this passes" diff
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "effectsSimulation" JSONB;
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "effectsSimulatedAt" TIMESTAMP(3);
@@ -0,0 +1,4 @@
+-- Remember the source UID of events imported from .ics files
+ALTER TABLE "Event" ADD COLUMN "importedUid" TEXT;
+
+CREATE INDEX "Event_bandId_importedUid_idx" ON "Event"("bandId", "importedUid");
@@ -0,0 +1,5 @@
+-- Nested document folders with per-folder role permissions
+ALTER TABLE "DocumentFolder" ADD COLUMN "inheritPermissions" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "DocumentFolder" ADD COLUMN "viewRoles" "MemberRole"[] DEFAULT ARRAY[]::"MemberRole"[];
+ALTER TABLE "DocumentFolder" ADD COLUMN "uploadRoles" "MemberRole"[] DEFAULT ARRAY[]::"MemberRole"[];
+ALTER TABLE "DocumentFolder" ADD COLUMN "manageRoles" "MemberRole"[] DEFAULT ARRAY[]::"MemberRole"[];
@@ -0,0 +1,9 @@
+-- Reversing postings for refunded, charged-back and disputed money
+ALTER TYPE "LedgerTransactionKind" ADD VALUE 'REVERSAL';
+ALTER TYPE "DonationStatus" ADD VALUE 'REFUNDED';
+
+ALTER TABLE "LedgerTransaction" ADD COLUMN "reversesId" TEXT;
+
+CREATE UNIQUE INDEX "LedgerTransaction_reversesId_key" ON "LedgerTransaction"("reversesId");
+
+ALTER TABLE "LedgerTransaction" ADD CONSTRAINT "LedgerTransaction_reversesId_fkey" FOREIGN KEY ("reversesId") REFERENCES "LedgerTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- Structured meeting agendas with minutes, decisions and action items
+CREATE TYPE "AgendaItemKind" AS ENUM ('TOPIC', 'PROPOSAL', 'TASK');
+CREATE TYPE "AgendaItemStatus" AS ENUM ('PENDING', 'DISCUSSED', 'DEFERRED');
+
+CREATE TABLE "AgendaItem" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "occurrenceDate" TIMESTAMP(3),
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "kind" "AgendaItemKind" NOT NULL DEFAULT 'TOPIC',
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "durationMinutes" INTEGER,
+    "proposalId" TEXT,
+    "taskId" TEXT,
+    "presenterId" TEXT,
+    "status" "AgendaItemStatus" NOT NULL DEFAULT 'PENDING',
+    "minutes" TEXT,
+    "decision" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "AgendaItem_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Task" ADD COLUMN "agendaItemId" TEXT;
+ALTER TABLE "ChecklistItem" ADD COLUMN "agendaItemId" TEXT;
+
+CREATE INDEX "AgendaItem_eventId_occurrenceDate_idx" ON "AgendaItem"("eventId", "occurrenceDate");
+CREATE INDEX "AgendaItem_proposalId_idx" ON "AgendaItem"("proposalId");
+CREATE INDEX "AgendaItem_taskId_idx" ON "AgendaItem"("taskId");
+CREATE INDEX "Task_agendaItemId_idx" ON "Task"("agendaItemId");
+CREATE INDEX "ChecklistItem_agendaItemId_idx" ON "ChecklistItem"("agendaItemId");
+
+ALTER TABLE "AgendaItem" ADD CONSTRAINT "AgendaItem_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "AgendaItem" ADD CONSTRAINT "AgendaItem_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "AgendaItem" ADD CONSTRAINT "AgendaItem_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "AgendaItem" ADD CONSTRAINT "AgendaItem_presenterId_fkey" FOREIGN KEY ("presenterId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "AgendaItem" ADD CONSTRAINT "AgendaItem_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Task" ADD CONSTRAINT "Task_agendaItemId_fkey" FOREIGN KEY ("agendaItemId") REFERENCES "AgendaItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ChecklistItem" ADD CONSTRAINT "ChecklistItem_agendaItemId_fkey" FOREIGN KEY ("agendaItemId") REFERENCES "AgendaItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Multi-option proposals: ranked-choice, approval and score voting
+ALTER TYPE "VotingMethod" ADD VALUE IF NOT EXISTS 'RANKED_CHOICE';
+ALTER TYPE "VotingMethod" ADD VALUE IF NOT EXISTS 'APPROVAL';
+ALTER TYPE "VotingMethod" ADD VALUE IF NOT EXISTS 'SCORE';
+
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "votingMethod" "VotingMethod";
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "options" JSONB;
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "tallyResult" JSONB;
+
+ALTER TABLE "Vote" ADD COLUMN IF NOT EXISTS "ballot" JSONB;
@@ -0,0 +1,54 @@
+-- Per-channel notification delivery: push, SMS, per-band levels and quiet hours
+
+-- Channel preferences become nullable: null follows the type's default.
+-- Per-notification email was never sent before, so stored "true" values were
+-- just the old column default.
+ALTER TABLE "NotificationPreference" ALTER COLUMN "inApp" DROP NOT NULL;
+ALTER TABLE "NotificationPreference" ALTER COLUMN "inApp" DROP DEFAULT;
+ALTER TABLE "NotificationPreference" ALTER COLUMN "email" DROP NOT NULL;
+ALTER TABLE "NotificationPreference" ALTER COLUMN "email" DROP DEFAULT;
+-- (Instant email moved to its own column in 20261019_notification_instant_email)
+ALTER TABLE "NotificationPreference" ADD COLUMN "push" BOOLEAN;
+ALTER TABLE "NotificationPreference" ADD COLUMN "sms" BOOLEAN;
+
+ALTER TABLE "User" ADD COLUMN "timezone" TEXT;
+ALTER TABLE "User" ADD COLUMN "quietHoursStart" INTEGER;
+ALTER TABLE "User" ADD COLUMN "quietHoursEnd" INTEGER;
+ALTER TABLE "User" ADD COLUMN "smsPhoneNumber" VARCHAR(20);
+
+CREATE TYPE "BandNotificationLevel" AS ENUM ('ALL', 'IN_APP_ONLY', 'MUTED');
+
+CREATE TABLE "BandNotificationSetting" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bandId" TEXT NOT NULL,
+    "level" "BandNotificationLevel" NOT NULL DEFAULT 'ALL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BandNotificationSetting_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "BandNotificationSetting_userId_bandId_key" ON "BandNotificationSetting"("userId", "bandId");
+CREATE INDEX "BandNotificationSetting_bandId_idx" ON "BandNotificationSetting"("bandId");
+
+ALTER TABLE "BandNotificationSetting" ADD CONSTRAINT "BandNotificationSetting_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "BandNotificationSetting" ADD CONSTRAINT "BandNotificationSetting_bandId_fkey" FOREIGN KEY ("bandId") REFERENCES "Band"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "PushSubscription" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "p256dh" TEXT NOT NULL,
+    "auth" TEXT NOT NULL,
+    "userAgent" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PushSubscription_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PushSubscription_endpoint_key" ON "PushSubscription"("endpoint");
+CREATE INDEX "PushSubscription_userId_idx" ON "PushSubscription"("userId");
+
+ALTER TABLE "PushSubscription" ADD CONSTRAINT "PushSubscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Instant email gets its own column. Existing "email" values were the old
+-- column default, not a choice, so they stay behind in the legacy column and
+-- every type starts on its catalog default.
+ALTER TABLE "NotificationPreference" ADD COLUMN "instantEmail" BOOLEAN;
@@ -0,0 +1,28 @@
+-- Editable notification templates: per-locale variants and version history
+
+DROP INDEX "NotificationTemplate_type_key";
+ALTER TABLE "NotificationTemplate" ADD COLUMN "locale" VARCHAR(10) NOT NULL DEFAULT 'en';
+ALTER TABLE "NotificationTemplate" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "NotificationTemplate" ADD COLUMN "customizedAt" TIMESTAMP(3);
+CREATE UNIQUE INDEX "NotificationTemplate_type_locale_key" ON "NotificationTemplate"("type", "locale");
+
+ALTER TABLE "User" ADD COLUMN "locale" VARCHAR(10);
+
+CREATE TABLE "NotificationTemplateVersion" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "emailSubject" TEXT NOT NULL,
+    "emailBody" TEXT NOT NULL,
+    "editedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "NotificationTemplateVersion_templateId_version_key" ON "NotificationTemplateVersion"("templateId", "version");
+
+ALTER TABLE "NotificationTemplateVersion" ADD CONSTRAINT "NotificationTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "NotificationTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "NotificationTemplateVersion" ADD CONSTRAINT "NotificationTemplateVersion_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
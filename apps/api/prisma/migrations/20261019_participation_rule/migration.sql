@@ -0,0 +1,12 @@
+-- Participation standing: optional band rule that flags or demotes inactive members
+CREATE TYPE "ParticipationRuleAction" AS ENUM ('FLAG', 'DEMOTE');
+
+ALTER TABLE "Band" ADD COLUMN "participationRuleEnabled" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Band" ADD COLUMN "participationWindowDays" INTEGER NOT NULL DEFAULT 90;
+ALTER TABLE "Band" ADD COLUMN "participationMinScore" INTEGER NOT NULL DEFAULT 25;
+ALTER TABLE "Band" ADD COLUMN "participationRuleAction" "ParticipationRuleAction" NOT NULL DEFAULT 'FLAG';
+
+ALTER TABLE "Member" ADD COLUMN "participationFlaggedAt" TIMESTAMP(3);
+
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'PARTICIPATION_FLAGGED';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'PARTICIPATION_DEMOTED';
@@ -0,0 +1,45 @@
+-- Amendments to open proposals and linked counter-proposals
+CREATE TYPE "ProposalAmendmentStatus" AS ENUM ('OPEN', 'ACCEPTED', 'REJECTED', 'WITHDRAWN', 'SUPERSEDED', 'EXPIRED');
+
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "counterToProposalId" TEXT;
+
+CREATE TABLE "ProposalAmendment" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "rationale" TEXT,
+    "changes" JSONB NOT NULL,
+    "status" "ProposalAmendmentStatus" NOT NULL DEFAULT 'OPEN',
+    "votingEndsAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "resolution" TEXT,
+    "editHistoryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "ProposalAmendment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ProposalAmendmentVote" (
+    "id" TEXT NOT NULL,
+    "amendmentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "vote" "VoteType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "ProposalAmendmentVote_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "Proposal_counterToProposalId_idx" ON "Proposal"("counterToProposalId");
+CREATE UNIQUE INDEX "ProposalAmendment_editHistoryId_key" ON "ProposalAmendment"("editHistoryId");
+CREATE INDEX "ProposalAmendment_proposalId_status_idx" ON "ProposalAmendment"("proposalId", "status");
+CREATE INDEX "ProposalAmendment_authorId_idx" ON "ProposalAmendment"("authorId");
+CREATE UNIQUE INDEX "ProposalAmendmentVote_amendmentId_userId_key" ON "ProposalAmendmentVote"("amendmentId", "userId");
+CREATE INDEX "ProposalAmendmentVote_amendmentId_idx" ON "ProposalAmendmentVote"("amendmentId");
+
+ALTER TABLE "Proposal" ADD CONSTRAINT "Proposal_counterToProposalId_fkey" FOREIGN KEY ("counterToProposalId") REFERENCES "Proposal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ProposalAmendment" ADD CONSTRAINT "ProposalAmendment_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ProposalAmendment" ADD CONSTRAINT "ProposalAmendment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ProposalAmendment" ADD CONSTRAINT "ProposalAmendment_editHistoryId_fkey" FOREIGN KEY ("editHistoryId") REFERENCES "ProposalEditHistory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ProposalAmendmentVote" ADD CONSTRAINT "ProposalAmendmentVote_amendmentId_fkey" FOREIGN KEY ("amendmentId") REFERENCES "ProposalAmendment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ProposalAmendmentVote" ADD CONSTRAINT "ProposalAmendmentVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Per-occurrence RSVP overrides for recurring events
+DROP INDEX "EventRSVP_eventId_userId_key";
+
+ALTER TABLE "EventRSVP" ADD COLUMN "occurrenceDate" TIMESTAMP(3);
+
+CREATE UNIQUE INDEX "EventRSVP_eventId_userId_occurrenceDate_key" ON "EventRSVP"("eventId", "userId", "occurrenceDate");
+CREATE INDEX "EventRSVP_occurrenceDate_idx" ON "EventRSVP"("occurrenceDate");
+
+-- NULLs are distinct in the index above, so the series answer needs its own
+-- (also applied on startup by services/database-setup.service.ts)
+CREATE UNIQUE INDEX "EventRSVP_series_key" ON "EventRSVP"("eventId", "userId") WHERE "occurrenceDate" IS NULL;
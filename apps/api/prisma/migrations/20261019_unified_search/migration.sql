@@ -0,0 +1,63 @@
+-- Unified band search: a weighted, generated tsvector per searchable entity.
+-- Titles rank above bodies (A > B > C). The columns are maintained by
+-- Postgres, like Message."searchVector" from fulltext_search.sql, which is
+-- included here for databases that never ran it. Deploys run `prisma db push`,
+-- which doesn't apply this file: services/database-setup.service.ts builds the
+-- same columns on startup.
+
+ALTER TABLE "Message"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+CREATE INDEX IF NOT EXISTS "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
+
+ALTER TABLE "Proposal"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("problemStatement", '') || ' ' || coalesce("expectedOutcome", '')), 'C')
+) STORED;
+CREATE INDEX IF NOT EXISTS "Proposal_searchVector_idx" ON "Proposal" USING GIN ("searchVector");
+
+ALTER TABLE "Post"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(content, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS "Post_searchVector_idx" ON "Post" USING GIN ("searchVector");
+
+ALTER TABLE "PostResponse"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+CREATE INDEX IF NOT EXISTS "PostResponse_searchVector_idx" ON "PostResponse" USING GIN ("searchVector");
+
+ALTER TABLE "Project"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(deliverables, '') || ' ' || coalesce("successCriteria", '')), 'C')
+) STORED;
+CREATE INDEX IF NOT EXISTS "Project_searchVector_idx" ON "Project" USING GIN ("searchVector");
+
+ALTER TABLE "Task"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS "Task_searchVector_idx" ON "Task" USING GIN ("searchVector");
+
+ALTER TABLE "Comment"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+CREATE INDEX IF NOT EXISTS "Comment_searchVector_idx" ON "Comment" USING GIN ("searchVector");
+
+ALTER TABLE "Document"
+ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS "Document_searchVector_idx" ON "Document" USING GIN ("searchVector");
@@ -0,0 +1,23 @@
+-- Liquid (delegated) voting with per-topic proxies
+ALTER TABLE "Proposal" ADD COLUMN IF NOT EXISTS "delegationResult" JSONB;
+
+CREATE TABLE "VoteDelegation" (
+    "id" TEXT NOT NULL,
+    "bandId" TEXT NOT NULL,
+    "delegatorId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "proposalType" "ProposalType",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "VoteDelegation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "VoteDelegation_bandId_delegatorId_proposalType_key" ON "VoteDelegation"("bandId", "delegatorId", "proposalType");
+-- NULLs are distinct in unique indexes, so band-wide delegations need their own
+CREATE UNIQUE INDEX "VoteDelegation_bandId_delegatorId_bandwide_key" ON "VoteDelegation"("bandId", "delegatorId") WHERE "proposalType" IS NULL;
+CREATE INDEX "VoteDelegation_bandId_idx" ON "VoteDelegation"("bandId");
+CREATE INDEX "VoteDelegation_delegateId_idx" ON "VoteDelegation"("delegateId");
+
+ALTER TABLE "VoteDelegation" ADD CONSTRAINT "VoteDelegation_bandId_fkey" FOREIGN KEY ("bandId") REFERENCES "Band"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "VoteDelegation" ADD CONSTRAINT "VoteDelegation_delegatorId_fkey" FOREIGN KEY ("delegatorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "VoteDelegation" ADD CONSTRAINT "VoteDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Extra webhook endpoints per band, each subscribed to chosen event types
+CREATE TABLE "WebhookEndpoint" (
+    "id" TEXT NOT NULL,
+    "bandId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "description" TEXT,
+    "eventTypes" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "WebhookEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "WebhookDelivery" ADD COLUMN "endpointId" TEXT;
+
+CREATE INDEX "WebhookEndpoint_bandId_idx" ON "WebhookEndpoint"("bandId");
+
+ALTER TABLE "WebhookEndpoint" ADD CONSTRAINT "WebhookEndpoint_bandId_fkey" FOREIGN KEY ("bandId") REFERENCES "Band"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "WebhookEndpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
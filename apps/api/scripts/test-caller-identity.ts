@@ -0,0 +1,155 @@
+/**
+ * Test script for session-derived caller identity
+ *
+ * Verifies that procedures act as the authenticated caller only: anonymous
+ * callers are rejected, non-members can't reach band-scoped procedures,
+ * one member can't act as another, and non-admins can't reach admin
+ * procedures. Missing seed data fails the run rather than skipping checks.
+ *
+ * Run with: npx tsx scripts/test-caller-identity.ts
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { appRouter } from '../src/server/routers/_app'
+
+const prisma = new PrismaClient()
+
+let failures = 0
+
+async function expectRejected(label: string, code: TRPCError['code'], call: () => Promise<unknown>) {
+  try {
+    await call()
+    console.log(`   ❌ ${label}: call succeeded`)
+    failures++
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === code) {
+      console.log(`   ✅ ${label}: ${code}`)
+    } else {
+      console.log(`   ❌ ${label}: expected ${code}, got ${(error as Error).message}`)
+      failures++
+    }
+  }
+}
+
+// Roles with no power over other members' attendance or messages
+const PLAIN_ROLES = ['CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']
+
+function missingFixture(message: string): never {
+  throw new Error(`Missing seed data: ${message}`)
+}
+
+async function main() {
+  console.log('🧪 Testing caller identity...\n')
+
+  // A band with a plain member (A) and another member (B) whose data A targets
+  const bands = await prisma.band.findMany({
+    where: { status: 'ACTIVE' },
+    include: { members: { where: { status: 'ACTIVE' }, select: { userId: true, role: true } } },
+  })
+
+  let fixture: { band: typeof bands[number]; memberAId: string; memberBId: string } | null = null
+  for (const candidate of bands) {
+    const memberA = candidate.members.find(m => PLAIN_ROLES.includes(m.role))
+    const memberB = candidate.members.find(m => m.userId !== memberA?.userId)
+    if (memberA && memberB) {
+      fixture = { band: candidate, memberAId: memberA.userId, memberBId: memberB.userId }
+      break
+    }
+  }
+
+  if (!fixture) {
+    missingFixture('an active band with a plain member and at least one other member')
+  }
+  const { band, memberAId, memberBId } = fixture
+
+  const outsider = await prisma.user.findFirst({
+    where: {
+      isAdmin: false,
+      id: { notIn: band.members.map(m => m.userId) },
+    },
+  })
+  if (!outsider) {
+    missingFixture('a non-admin user who is not a member of the band')
+  }
+
+  const event = await prisma.event.findFirst({ where: { bandId: band.id } })
+  if (!event) {
+    missingFixture(`an event in ${band.name}`)
+  }
+
+  const messageOfB = await prisma.message.findFirst({
+    where: { authorId: memberBId, deletedAt: null, channel: { bandId: band.id } },
+  })
+  if (!messageOfB) {
+    missingFixture(`a channel message by member B in ${band.name}`)
+  }
+
+  console.log(`📋 Using band: ${band.name} (${band.slug})`)
+  console.log(`👤 Using outsider: ${outsider.name}\n`)
+
+  const anonymous = appRouter.createCaller({})
+  const asOutsider = appRouter.createCaller({ userId: outsider.id })
+  const asMemberA = appRouter.createCaller({ userId: memberAId })
+
+  console.log('--- Anonymous callers ---')
+  await expectRejected('notification.getUnreadCount', 'UNAUTHORIZED', () =>
+    anonymous.notification.getUnreadCount()
+  )
+  await expectRejected('band.getMyBands', 'UNAUTHORIZED', () => anonymous.band.getMyBands())
+  await expectRejected('event.getById', 'UNAUTHORIZED', () =>
+    anonymous.event.getById({ eventId: event.id })
+  )
+
+  console.log('\n--- Non-members ---')
+  await expectRejected('channel.list', 'FORBIDDEN', () =>
+    asOutsider.channel.list({ bandId: band.id })
+  )
+  await expectRejected('band.getGovernanceSettings', 'FORBIDDEN', () =>
+    asOutsider.band.getGovernanceSettings({ bandId: band.id })
+  )
+  await expectRejected('audit.list', 'FORBIDDEN', () => asOutsider.audit.list({ bandId: band.id }))
+  await expectRejected('event.getByBand', 'FORBIDDEN', () =>
+    asOutsider.event.getByBand({ bandId: band.id })
+  )
+  await expectRejected('event.getById', 'FORBIDDEN', () =>
+    asOutsider.event.getById({ eventId: event.id })
+  )
+  await expectRejected('event.attendance.get', 'FORBIDDEN', () =>
+    asOutsider.event.attendance.get({ eventId: event.id })
+  )
+  await expectRejected('event.rsvp.getAll', 'FORBIDDEN', () =>
+    asOutsider.event.rsvp.getAll({ eventId: event.id })
+  )
+
+  console.log('\n--- Member A acting as member B ---')
+  await expectRejected('event.attendance.mark for B', 'FORBIDDEN', () =>
+    asMemberA.event.attendance.mark({ eventId: event.id, userId: memberBId, attended: true })
+  )
+  await expectRejected("message.edit on B's message", 'FORBIDDEN', () =>
+    asMemberA.message.edit({ messageId: messageOfB.id, content: messageOfB.content })
+  )
+  await expectRejected("message.delete on B's message", 'FORBIDDEN', () =>
+    asMemberA.message.delete({ messageId: messageOfB.id })
+  )
+
+  console.log('\n--- Non-admins ---')
+  await expectRejected('admin.getStats', 'FORBIDDEN', () => asOutsider.admin.getStats())
+  await expectRejected('admin.triggerDigestJob', 'FORBIDDEN', () => asOutsider.admin.triggerDigestJob())
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`)
+    process.exit(1)
+  }
+
+  console.log('\n✅ Test complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('Test failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
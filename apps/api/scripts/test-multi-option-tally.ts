@@ -0,0 +1,139 @@
+/**
+ * Test script for multi-option proposal tallies (lib/multi-option-tally.ts)
+ *
+ * Checks instant-runoff rounds (tied-lowest elimination, rounds without a
+ * majority, exhausted ballots), ties that produce no winner, approval and
+ * score totals, and ballot validation. Needs no database.
+ *
+ * Run with: npx tsx scripts/test-multi-option-tally.ts
+ */
+
+import { MULTI_OPTION_SCORE_MAX } from '@band-it/shared'
+import {
+  MultiOptionBallot,
+  MultiOptionMethod,
+  ProposalOption,
+  tallyMultiOption,
+  validateBallot,
+} from '../src/lib/multi-option-tally'
+
+const OPTIONS: ProposalOption[] = ['A', 'B', 'C', 'D'].map(id => ({ id, label: `Option ${id}` }))
+
+let failures = 0
+
+function check(label: string, passed: boolean, detail = '') {
+  if (passed) {
+    console.log(`   ✅ ${label}`)
+  } else {
+    console.log(`   ❌ ${label}${detail ? `: ${detail}` : ''}`)
+    failures++
+  }
+}
+
+const same = (actual: unknown, expected: unknown) => JSON.stringify(actual) === JSON.stringify(expected)
+
+function repeat(ballot: MultiOptionBallot, times: number): MultiOptionBallot[] {
+  return Array.from({ length: times }, () => ballot)
+}
+
+function ranked(...groups: Array<[string[], number]>): MultiOptionBallot[] {
+  return groups.flatMap(([rankings, times]) => repeat({ rankings }, times))
+}
+
+function expectInvalid(label: string, method: MultiOptionMethod, ballot: MultiOptionBallot, message: RegExp) {
+  try {
+    validateBallot(method, OPTIONS, ballot)
+    check(label, false, 'accepted')
+  } catch (error) {
+    const text = error instanceof Error ? error.message : String(error)
+    check(label, message.test(text), text)
+  }
+}
+
+function expectValid(label: string, method: MultiOptionMethod, ballot: MultiOptionBallot) {
+  try {
+    validateBallot(method, OPTIONS, ballot)
+    check(label, true)
+  } catch (error) {
+    check(label, false, error instanceof Error ? error.message : String(error))
+  }
+}
+
+function main() {
+  console.log('🧪 Testing multi-option tallies...\n')
+
+  console.log('--- Ranked choice: tied-lowest elimination ---')
+  // Round 1: A4 B3 C1 D1, no majority of 9; C and D tie for last and both go
+  const tiedLowest = tallyMultiOption(
+    'RANKED_CHOICE',
+    OPTIONS,
+    ranked([['A', 'B'], 4], [['B'], 3], [['C', 'B'], 1], [['D', 'A'], 1])
+  )
+  check('round 1 counts first choices', same(tiedLowest.rounds[0].counts, { A: 4, B: 3, C: 1, D: 1 }))
+  check('both tied-lowest options are eliminated together', same(tiedLowest.rounds[0].eliminated, ['C', 'D']))
+  check('their ballots transfer in round 2', same(tiedLowest.rounds[1]?.counts, { A: 5, B: 4 }))
+  check('A wins with a majority in round 2', tiedLowest.winnerOptionId === 'A', String(tiedLowest.winnerOptionId))
+  check('two rounds were needed', tiedLowest.rounds.length === 2)
+
+  console.log('\n--- Ranked choice: no majority in round 1 ---')
+  // Round 1: A4 B3 C2 - A leads but 4 of 9 isn't a majority; C's ballots go to B
+  const comeback = tallyMultiOption('RANKED_CHOICE', OPTIONS.slice(0, 3), ranked([['A'], 4], [['B'], 3], [['C', 'B'], 2]))
+  check('round 1 has no winner and eliminates C', same(comeback.rounds[0].eliminated, ['C']))
+  check('round 2 counts B ahead', same(comeback.rounds[1]?.counts, { A: 4, B: 5 }))
+  check('the round 1 leader does not win', comeback.winnerOptionId === 'B', String(comeback.winnerOptionId))
+  check('no tie is reported', comeback.tiedOptionIds.length === 0)
+
+  // Same first choices, but C's ballots rank nothing else
+  const exhausted = tallyMultiOption('RANKED_CHOICE', OPTIONS.slice(0, 3), ranked([['A'], 4], [['B'], 3], [['C'], 2]))
+  check('ballots with no continuing option are exhausted', exhausted.rounds[1]?.exhausted === 2)
+  check('the majority is of continuing ballots', exhausted.winnerOptionId === 'A', String(exhausted.winnerOptionId))
+  check('exhausted ballots are still counted as cast', exhausted.ballotsCounted === 9)
+
+  console.log('\n--- Ties with no winner ---')
+  const rankedTie = tallyMultiOption('RANKED_CHOICE', OPTIONS.slice(0, 2), ranked([['A', 'B'], 2], [['B', 'A'], 2]))
+  check('an even ranked split has no winner', rankedTie.winnerOptionId === null)
+  check('the tied options are reported', same(rankedTie.tiedOptionIds, ['A', 'B']))
+  check('nothing is eliminated in the final round', rankedTie.rounds[rankedTie.rounds.length - 1].eliminated.length === 0)
+
+  const approvalTie = tallyMultiOption('APPROVAL', OPTIONS, [{ approvals: ['A', 'B'] }, { approvals: ['A', 'B', 'C'] }])
+  check('an approval tie has no winner', approvalTie.winnerOptionId === null)
+  check('the tied approval leaders are reported', same(approvalTie.tiedOptionIds, ['A', 'B']))
+
+  const noVotes = tallyMultiOption('SCORE', OPTIONS, [{ scores: { A: 0, B: 0 } }, {}])
+  check('all-zero score ballots count as abstentions', noVotes.ballotsCounted === 0)
+  check('with no preferences there is no winner and no tie', noVotes.winnerOptionId === null && noVotes.tiedOptionIds.length === 0)
+
+  const noRankings = tallyMultiOption('RANKED_CHOICE', OPTIONS, [{ rankings: [] }])
+  check('empty ranked ballots produce no winner', noRankings.winnerOptionId === null && noRankings.tiedOptionIds.length === 0)
+
+  console.log('\n--- Approval and score totals ---')
+  const approval = tallyMultiOption('APPROVAL', OPTIONS, [{ approvals: ['A', 'B'] }, { approvals: ['A'] }, { approvals: ['C'] }])
+  check('approvals are counted per option', same(approval.rounds[0].counts, { A: 2, B: 1, C: 1, D: 0 }))
+  check('the most-approved option wins', approval.winnerOptionId === 'A', String(approval.winnerOptionId))
+  check('approval is a single round', approval.rounds.length === 1)
+
+  const score = tallyMultiOption('SCORE', OPTIONS, [{ scores: { A: 5, B: 3 } }, { scores: { A: 1, B: 4 } }])
+  check('scores are summed per option', same(score.rounds[0].counts, { A: 6, B: 7, C: 0, D: 0 }))
+  check('the highest total wins', score.winnerOptionId === 'B', String(score.winnerOptionId))
+
+  console.log('\n--- Ballot validation ---')
+  expectValid('an empty ballot is an abstention', 'RANKED_CHOICE', {})
+  expectValid('a partial ranking is accepted', 'RANKED_CHOICE', { rankings: ['C', 'A'] })
+  expectValid(`a score of ${MULTI_OPTION_SCORE_MAX} is accepted`, 'SCORE', { scores: { A: MULTI_OPTION_SCORE_MAX } })
+  expectInvalid('an unknown option is refused', 'RANKED_CHOICE', { rankings: ['A', 'Z'] }, /not on this proposal/)
+  expectInvalid('a repeated ranking is refused', 'RANKED_CHOICE', { rankings: ['A', 'B', 'A'] }, /only appear once/)
+  expectInvalid('a repeated approval is refused', 'APPROVAL', { approvals: ['B', 'B'] }, /only appear once/)
+  expectInvalid('an unknown scored option is refused', 'SCORE', { scores: { Z: 1 } }, /not on this proposal/)
+  expectInvalid('a score above the maximum is refused', 'SCORE', { scores: { A: MULTI_OPTION_SCORE_MAX + 1 } }, /whole numbers/)
+  expectInvalid('a negative score is refused', 'SCORE', { scores: { A: -1 } }, /whole numbers/)
+  expectInvalid('a fractional score is refused', 'SCORE', { scores: { A: 2.5 } }, /whole numbers/)
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`)
+    process.exit(1)
+  }
+
+  console.log('\n✅ Test complete!')
+}
+
+main()
@@ -0,0 +1,154 @@
+/**
+ * Test script for reimbursement ledger postings
+ *
+ * Walks one checklist expense through reimburse → dispute → reimburse and
+ * checks that the first payout is reversed, the second payout posts its own
+ * transaction, and reconciliation sees the item as posted exactly once. Uses
+ * a throwaway checklist item on an existing task; everything it creates is
+ * deleted afterwards.
+ *
+ * Run with: npx tsx scripts/test-reimbursement-ledger.ts
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { ledgerService } from '../src/services/ledger.service'
+
+const prisma = new PrismaClient()
+
+const EXPENSE = 1234 // cents
+
+let failures = 0
+
+function check(label: string, passed: boolean, detail = '') {
+  if (passed) {
+    console.log(`   ✅ ${label}`)
+  } else {
+    console.log(`   ❌ ${label}${detail ? `: ${detail}` : ''}`)
+    failures++
+  }
+}
+
+function missingFixture(message: string): never {
+  throw new Error(`Missing seed data: ${message}`)
+}
+
+// Sum of the item's postings on the money side (negative = paid out)
+async function netPaidOut(itemId: string): Promise<number> {
+  const entries = await prisma.ledgerEntry.findMany({
+    where: {
+      account: { in: ['BUCKET', 'GENERAL_FUND'] },
+      transaction: {
+        OR: [
+          { sourceType: 'REIMBURSEMENT', sourceId: { startsWith: itemId } },
+          { reverses: { sourceType: 'REIMBURSEMENT', sourceId: { startsWith: itemId } } },
+        ],
+      },
+    },
+    select: { amount: true },
+  })
+  return -entries.reduce((sum, e) => sum + e.amount, 0)
+}
+
+async function isUnposted(bandId: string, itemId: string): Promise<boolean> {
+  const { unposted } = await ledgerService.getReconciliation(bandId)
+  return unposted.reimbursements.some(r => r.id === itemId)
+}
+
+async function reimburse(itemId: string, treasurerId: string) {
+  // Mirrors checklist.reimburse: mark paid, then post
+  await prisma.checklistItem.update({
+    where: { id: itemId },
+    data: { reimbursementStatus: 'REIMBURSED', reimbursedAt: new Date(), reimbursedById: treasurerId },
+  })
+  return ledgerService.postReimbursement(itemId)
+}
+
+async function main() {
+  console.log('🧪 Testing reimbursement ledger postings...\n')
+
+  const task = await prisma.task.findFirst({
+    where: { band: { status: 'ACTIVE' } },
+    include: { band: { include: { members: { where: { status: 'ACTIVE' }, take: 1 } } } },
+  })
+  if (!task) {
+    missingFixture('a task in an active band')
+  }
+  const treasurer = task.band.members[0] ?? missingFixture(`an active member of ${task.band.name}`)
+
+  console.log(`📋 Using band: ${task.band.name} (${task.band.slug})\n`)
+
+  const item = await prisma.checklistItem.create({
+    data: {
+      taskId: task.id,
+      description: `Reimbursement ledger test ${Date.now()}`,
+      assigneeId: treasurer.userId,
+      expenseAmount: EXPENSE,
+      reimbursementStatus: 'PENDING',
+    },
+  })
+
+  try {
+    console.log('--- First payout ---')
+    const first = await reimburse(item.id, treasurer.userId)
+    check('the payout posts a transaction', first !== null)
+    check('the item is paid out once', (await netPaidOut(item.id)) === EXPENSE)
+    check('reconciliation sees it as posted', !(await isUnposted(task.bandId, item.id)))
+
+    console.log('\n--- Dispute ---')
+    const paid = await prisma.checklistItem.update({
+      where: { id: item.id },
+      data: { reimbursementStatus: 'DISPUTED' },
+    })
+    const reversal = await ledgerService.reverseSourcePosting({
+      sourceType: 'REIMBURSEMENT',
+      sourceId: ledgerService.reimbursementSourceId(paid),
+      reason: 'disputed by recipient',
+    })
+    check('the payout is reversed', reversal?.reversesId === first?.id)
+    check('nothing is paid out after the reversal', (await netPaidOut(item.id)) === 0)
+
+    console.log('\n--- Resubmitted and paid again ---')
+    await prisma.checklistItem.update({
+      where: { id: item.id },
+      data: { reimbursementStatus: 'PENDING' },
+    })
+    // reimbursedAt is stored to the millisecond; make sure the second payout differs
+    await new Promise(resolve => setTimeout(resolve, 5))
+    const second = await reimburse(item.id, treasurer.userId)
+    check('the second payout posts a new transaction', !!second && second.id !== first?.id)
+    check('the second payout is not reversed', !!second && second.reversesId === null)
+    check('the item is paid out once in total', (await netPaidOut(item.id)) === EXPENSE)
+    check('reconciliation sees it as posted', !(await isUnposted(task.bandId, item.id)))
+
+    const again = await ledgerService.postReimbursement(item.id)
+    check('posting the same payout again is idempotent', again?.id === second?.id)
+  } finally {
+    const transactions = await prisma.ledgerTransaction.findMany({
+      where: {
+        OR: [
+          { sourceType: 'REIMBURSEMENT', sourceId: { startsWith: item.id } },
+          { reverses: { sourceType: 'REIMBURSEMENT', sourceId: { startsWith: item.id } } },
+        ],
+      },
+      select: { id: true },
+    })
+    await prisma.ledgerTransaction.deleteMany({ where: { id: { in: transactions.map(t => t.id) } } })
+    await prisma.checklistItem.delete({ where: { id: item.id } })
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`)
+    process.exit(1)
+  }
+
+  console.log('\n✅ Test complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('Test failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
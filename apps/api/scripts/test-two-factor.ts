@@ -0,0 +1,157 @@
+/**
+ * Test script for TOTP two-factor codes (lib/two-factor.ts)
+ *
+ * Checks base32 secrets, codes against the RFC 6238 test vectors, the
+ * one-step clock drift window, and that twoFactorService.verifyCode accepts
+ * each time step only once. The replay checks use a throwaway user that is
+ * deleted afterwards.
+ *
+ * Run with: npx tsx scripts/test-two-factor.ts
+ */
+
+import crypto from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import { encryptSecret, generateTotpSecret, verifyTotp } from '../src/lib/two-factor'
+import { twoFactorService } from '../src/server/services/two-factor.service'
+
+const prisma = new PrismaClient()
+
+// RFC 6238 appendix B seed ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+// RFC 6238 SHA1 vectors, cut to the 6 digits authenticator apps show
+const RFC_VECTORS: Array<{ seconds: number; code: string }> = [
+  { seconds: 59, code: '287082' },
+  { seconds: 1111111109, code: '081804' },
+  { seconds: 1111111111, code: '050471' },
+  { seconds: 1234567890, code: '005924' },
+  { seconds: 2000000000, code: '279037' },
+]
+
+let failures = 0
+
+function check(label: string, passed: boolean, detail = '') {
+  if (passed) {
+    console.log(`   ✅ ${label}`)
+  } else {
+    console.log(`   ❌ ${label}${detail ? `: ${detail}` : ''}`)
+    failures++
+  }
+}
+
+async function expectRejected(label: string, call: () => Promise<unknown>) {
+  try {
+    const result = await call()
+    check(label, false, `accepted (${String(result)})`)
+  } catch (error) {
+    check(label, error instanceof TRPCError && error.code === 'BAD_REQUEST', (error as Error).message)
+  }
+}
+
+// Reference implementation, independent of the library under test
+function referenceCode(secret: string, step: number): string {
+  const bits = secret
+    .split('')
+    .map(char => 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'.indexOf(char).toString(2).padStart(5, '0'))
+    .join('')
+  const key = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)))
+
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, '0')
+}
+
+const currentStep = () => Math.floor(Date.now() / 30000)
+
+async function main() {
+  console.log('🧪 Testing two-factor codes...\n')
+
+  console.log('--- Base32 secrets ---')
+  const secret = generateTotpSecret()
+  check('generated secret is 32 base32 characters', /^[A-Z2-7]{32}$/.test(secret), secret)
+  check('generated secret differs each time', generateTotpSecret() !== secret)
+  const now = Date.now()
+  check(
+    'generated secret decodes to the same key as the reference',
+    verifyTotp(secret, referenceCode(secret, Math.floor(now / 30000)), now) !== null
+  )
+  const spaced = RFC_SECRET.toLowerCase().replace(/(.{4})/g, '$1 ') + '===='
+  check('lowercase, spaced and padded secrets are accepted', verifyTotp(spaced, '287082', 59 * 1000) === 1)
+  let invalidThrew = false
+  try {
+    verifyTotp('GEZDGNB1', '123456')
+  } catch {
+    invalidThrew = true
+  }
+  check('a secret with a non-base32 character is refused', invalidThrew)
+
+  console.log('\n--- RFC 6238 vectors ---')
+  for (const vector of RFC_VECTORS) {
+    const step = verifyTotp(RFC_SECRET, vector.code, vector.seconds * 1000)
+    check(
+      `T=${vector.seconds} → ${vector.code}`,
+      step === Math.floor(vector.seconds / 30),
+      `matched step ${step}`
+    )
+  }
+  check('a wrong code is refused', verifyTotp(RFC_SECRET, '287083', 59 * 1000) === null)
+  check('a 5-digit code is refused', verifyTotp(RFC_SECRET, '87082', 59 * 1000) === null)
+  check('a non-numeric code is refused', verifyTotp(RFC_SECRET, '28708a', 59 * 1000) === null)
+
+  console.log('\n--- Clock drift ---')
+  const at = 1111111109 * 1000
+  check('one step behind is accepted', verifyTotp(RFC_SECRET, '081804', at + 30000) !== null)
+  check('one step ahead is accepted', verifyTotp(RFC_SECRET, '081804', at - 30000) !== null)
+  check('two steps behind is refused', verifyTotp(RFC_SECRET, '081804', at + 60000) === null)
+  check('two steps ahead is refused', verifyTotp(RFC_SECRET, '081804', at - 60000) === null)
+
+  console.log('\n--- Replay ---')
+  const user = await prisma.user.create({
+    data: {
+      email: `two-factor-test-${Date.now()}@example.com`,
+      password: 'not-a-real-password',
+      name: 'Two-factor test',
+      twoFactorSecret: encryptSecret(secret),
+      twoFactorEnabledAt: new Date(),
+    },
+  })
+
+  try {
+    const step = currentStep()
+    const code = referenceCode(secret, step)
+
+    check('a fresh code is accepted', (await twoFactorService.verifyCode(user.id, code)) === 'totp')
+    await expectRejected('the same code again is refused', () => twoFactorService.verifyCode(user.id, code))
+    await expectRejected('the previous step is refused after a newer one', () =>
+      twoFactorService.verifyCode(user.id, referenceCode(secret, step - 1))
+    )
+    check(
+      'the next step is still accepted',
+      (await twoFactorService.verifyCode(user.id, referenceCode(secret, step + 1))) === 'totp'
+    )
+    await expectRejected('the first code is refused once a later step is used', () =>
+      twoFactorService.verifyCode(user.id, code)
+    )
+  } finally {
+    await prisma.user.delete({ where: { id: user.id } })
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} check(s) failed`)
+    process.exit(1)
+  }
+
+  console.log('\n✅ Test complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('Test failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,91 @@
+/**
+ * Local webhook receiver for testing outbound band webhooks
+ *
+ * Listens for POSTs, verifies the X-BandIT-Signature HMAC against the band's
+ * webhook secret (or an endpoint's secret) and prints each delivery. Can fail on purpose to exercise
+ * the retry and dead-letter path.
+ *
+ * Run with: npx tsx scripts/webhook-receiver.ts --secret whsec_... [--port 4100] [--fail 3] [--status 503]
+ *
+ * Then set the band's webhook URL, or add an endpoint, pointing at
+ * http://localhost:4100/ (Band settings -> Website Integration). With --fail N the first N requests get --status
+ * (default 503); the API's webhook cron retries them.
+ */
+
+import http from 'http'
+import crypto from 'crypto'
+
+function arg(name: string, fallback?: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 ? process.argv[index + 1] : fallback
+}
+
+const port = Number(arg('port', '4100'))
+const secret = arg('secret', process.env.WEBHOOK_SECRET)
+let failuresLeft = Number(arg('fail', '0'))
+const failStatus = Number(arg('status', '503'))
+
+if (!secret) {
+  console.error('❌ Pass the band webhook secret with --secret (or WEBHOOK_SECRET)')
+  process.exit(1)
+}
+
+const seenDeliveries = new Set<string>()
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end()
+    return
+  }
+
+  const chunks: Buffer[] = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const deliveryId = req.headers['x-bandit-delivery'] as string | undefined
+    const attempt = req.headers['x-bandit-attempt']
+    const signature = req.headers['x-bandit-signature'] as string | undefined
+    const expected = crypto.createHmac('sha256', secret).update(body).digest('hex')
+
+    const validSignature = !!signature &&
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+
+    let type = '(unparseable)'
+    try {
+      type = JSON.parse(body).type
+    } catch {
+      // Reported below with the raw body
+    }
+
+    console.log(`\n📨 ${new Date().toISOString()} ${type}`)
+    console.log(`   delivery ${deliveryId ?? '(none)'}, attempt ${attempt ?? '?'}`)
+    console.log(`   signature ${validSignature ? '✅ valid' : '❌ INVALID'}`)
+    if (deliveryId && seenDeliveries.has(deliveryId)) {
+      console.log('   ↩️  retry of a delivery already received')
+    }
+
+    if (!validSignature) {
+      res.writeHead(401).end('Invalid signature')
+      return
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--
+      console.log(`   💥 failing on purpose with ${failStatus} (${failuresLeft} more to fail)`)
+      res.writeHead(failStatus).end('Simulated failure')
+      return
+    }
+
+    if (deliveryId) seenDeliveries.add(deliveryId)
+    console.log(`   ${body}`)
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}')
+  })
+})
+
+server.listen(port, () => {
+  console.log(`🧪 Webhook receiver listening on http://localhost:${port}/`)
+  if (failuresLeft > 0) {
+    console.log(`   Will fail the first ${failuresLeft} requests with HTTP ${failStatus}`)
+  }
+})
@@ -1,6 +1,7 @@
 import cron from 'node-cron'
 import { bandBillingService } from '../server/services/band-billing.service'
 import { notificationService } from '../services/notification.service'
+import { ledgerService } from '../services/ledger.service'
 import { prisma } from '../lib/prisma'
 import { emailService } from '../server/services/email.service'
 import { MIN_MEMBERS_TO_ACTIVATE, REQUIRE_PAYMENT_TO_ACTIVATE } from '@band-it/shared'
@@ -267,6 +268,10 @@ async function processAutoConfirms() {
           },
         })
 
+        await ledgerService.postManualPayment(payment.id).catch(err =>
+          console.error(`[CRON] Error posting payment ${payment.id} to ledger:`, err)
+        )
+
         // Update BandMemberBilling
         await prisma.bandMemberBilling.upsert({
           where: {
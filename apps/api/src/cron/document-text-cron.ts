@@ -0,0 +1,30 @@
+import cron from 'node-cron'
+import { documentTextService } from '../services/document-text.service'
+import { withCronRetry } from '../lib/retry'
+
+/**
+ * Initialize the document text extraction cron job
+ * Runs every 10 minutes; picks up versions whose background extraction
+ * never ran or failed
+ */
+export function initDocumentTextCron() {
+  cron.schedule('*/10 * * * *', async () => {
+    await withCronRetry('DOCUMENT_TEXT', runDocumentTextJob)
+  })
+
+  console.log('Document text extraction cron job initialized (every 10 minutes)')
+}
+
+/**
+ * Extract text for pending document versions
+ * Can be called manually or by cron
+ */
+export async function runDocumentTextJob(): Promise<{ attempted: number }> {
+  const result = await documentTextService.extractPending()
+
+  if (result.attempted > 0) {
+    console.log(`[DOCUMENT_TEXT] Processed ${result.attempted} document versions`)
+  }
+
+  return result
+}
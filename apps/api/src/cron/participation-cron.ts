@@ -0,0 +1,46 @@
+import cron from 'node-cron'
+import { prisma } from '../lib/prisma'
+import { participationService } from '../services/participation.service'
+import { withCronRetry } from '../lib/retry'
+
+/**
+ * Initialize the participation rule cron job
+ * Runs daily at 6 AM for bands that have turned the rule on
+ */
+export function initParticipationCron() {
+  cron.schedule('0 6 * * *', async () => {
+    console.log('[CRON] Running participation rule check...')
+    await withCronRetry('PARTICIPATION_RULE', runParticipationRuleJob)
+  })
+
+  console.log('Participation rule cron job initialized (daily at 6 AM)')
+}
+
+/**
+ * Apply each band's participation rule
+ * Can be called manually or by cron
+ */
+export async function runParticipationRuleJob(): Promise<{ bands: number; flagged: number; demoted: number }> {
+  const bands = await prisma.band.findMany({
+    where: { participationRuleEnabled: true, dissolvedAt: null },
+    select: { id: true },
+  })
+
+  let flagged = 0
+  let demoted = 0
+  for (const band of bands) {
+    try {
+      const result = await participationService.enforceRule(band.id)
+      flagged += result.flagged
+      demoted += result.demoted
+    } catch (error) {
+      console.error(`[PARTICIPATION_RULE] Error applying rule for band ${band.id}:`, error)
+    }
+  }
+
+  console.log(
+    `[PARTICIPATION_RULE] Checked ${bands.length} bands, ${flagged} members flagged, ${demoted} demoted`
+  )
+
+  return { bands: bands.length, flagged, demoted }
+}
@@ -0,0 +1,31 @@
+import cron from 'node-cron'
+import { webhookService } from '../services/webhook.service'
+import { withCronRetry } from '../lib/retry'
+
+/**
+ * Initialize the webhook retry cron job
+ * Runs every minute; each delivery's backoff decides whether it is due
+ */
+export function initWebhookCron() {
+  cron.schedule('* * * * *', async () => {
+    await withCronRetry('WEBHOOK_RETRY', runWebhookRetryJob)
+  })
+
+  console.log('Webhook retry cron job initialized (every minute)')
+}
+
+/**
+ * Retry failed webhook deliveries that are due
+ * Can be called manually or by cron
+ */
+export async function runWebhookRetryJob(): Promise<{ attempted: number; delivered: number }> {
+  const result = await webhookService.retryDue()
+
+  if (result.attempted > 0) {
+    console.log(
+      `[WEBHOOK_RETRY] Retried ${result.attempted} deliveries, ${result.delivered} delivered`
+    )
+  }
+
+  return result
+}
@@ -1,11 +1,11 @@
 import express from 'express'
 import cors from 'cors'
 import path from 'path'
-import jwt from 'jsonwebtoken'
 import { createExpressMiddleware } from '@trpc/server/adapters/express'
 import { appRouter } from './server/routers/_app'
 import { createContext } from './server/trpc'
 import { auditStorage, AuditContext } from './lib/auditContext'
+import { verifyAccessToken } from './lib/auth-tokens'
 import { handleStripeWebhook } from './webhooks/stripe'
 import { handleStripeConnectWebhook } from './webhooks/stripe-connect'
 import { initBillingCron } from './cron/billing-cron'
@@ -15,13 +15,16 @@ import { initChecklistCron } from './cron/checklist-cron'
 import { initStatusUpdateCron } from './cron/status-update-cron'
 import { initDonationCron } from './cron/donation-cron'
 import { initApplicationVotingCron } from './cron/application-voting-cron'
+import { initWebhookCron } from './cron/webhook-cron'
+import { initParticipationCron } from './cron/participation-cron'
+import { initDocumentTextCron } from './cron/document-text-cron'
 import { initializeEffectHandlers } from './services/effects'
 import { grandfatherExistingUsers } from './services/grandfather-access.service'
+import { ensureDatabaseSetup } from './services/database-setup.service'
 import stripeConnectRoutes from './routes/stripe-connect'
 import bandDuesRoutes from './routes/band-dues'
 import publicWebsiteRoutes from './routes/public-website'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+import calendarFeedRoutes from './routes/calendar-feed'
 
 const app = express()
 const PORT = process.env.PORT || 3001
@@ -53,6 +56,9 @@ app.use('/api', bandDuesRoutes)
 // Public Website Integration routes (applications, contact forms from external sites)
 app.use('/api/public', publicWebsiteRoutes)
 
+// Subscribable .ics calendar feeds (token in the URL, no login)
+app.use('/api', calendarFeedRoutes)
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', message: 'Backend API is running' })
@@ -65,14 +71,7 @@ function getAuditContextFromRequest(req: express.Request): AuditContext {
   // Extract userId from Authorization header
   const authHeader = req.headers.authorization
   if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.slice(7)
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-      userId = decoded.userId
-    } catch (error: any) {
-      // Log token verification failures for debugging
-      console.warn('JWT verification failed:', error.message)
-    }
+    userId = verifyAccessToken(authHeader.slice(7))?.userId
   }
 
   // Extract IP address (handle proxies)
@@ -109,6 +108,9 @@ console.log(`📋 Proposal effect handlers initialized`)
 // Grandfather pre-launch users past the waiting-room gate (idempotent).
 void grandfatherExistingUsers()
 
+// Postgres features db push can't create, such as generated search columns (idempotent).
+void ensureDatabaseSetup()
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Backend API running on http://localhost:${PORT}`)
@@ -146,4 +148,16 @@ app.listen(PORT, () => {
   // Initialize application voting cron job (deadline checking)
   initApplicationVotingCron()
   console.log(`🗳️ Application voting cron job scheduled`)
+
+  // Initialize webhook retry cron job (failed outbound deliveries)
+  initWebhookCron()
+  console.log(`🔁 Webhook retry cron job scheduled`)
+
+  // Initialize participation rule cron job (inactivity flags and demotions)
+  initParticipationCron()
+  console.log(`📈 Participation rule cron job scheduled`)
+
+  // Initialize document text extraction cron job (search and AI context)
+  initDocumentTextCron()
+  console.log(`📄 Document text cron job scheduled`)
 })
\ No newline at end of file
@@ -0,0 +1,68 @@
+import Anthropic from '@anthropic-ai/sdk'
+import type { AIProvider } from './types'
+import { parseModelList } from './model-chain'
+
+// Created on first use so a missing key only matters once Anthropic is called
+let client: Anthropic | null = null
+
+function getClient() {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new Error('ANTHROPIC_API_KEY is not configured')
+  }
+  if (!client) {
+    client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+  }
+  return client
+}
+
+const DEFAULT_FALLBACK_MODELS = ['claude-haiku-4-5']
+
+export const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+
+  isConfigured() {
+    return !!process.env.ANTHROPIC_API_KEY
+  },
+
+  getFallbackModels() {
+    return parseModelList(process.env.ANTHROPIC_MODEL_FALLBACKS, DEFAULT_FALLBACK_MODELS)
+  },
+
+  getPricing(model) {
+    if (model.includes('haiku')) {
+      return { inputCostPerMTokens: 1.00, outputCostPerMTokens: 5.00 }
+    }
+    if (model.includes('opus')) {
+      return { inputCostPerMTokens: 5.00, outputCostPerMTokens: 25.00 }
+    }
+    return { inputCostPerMTokens: 3.00, outputCostPerMTokens: 15.00 }
+  },
+
+  // Anthropic has no web search here; those requests get a plain answer
+  async complete(request) {
+    const messageOptions: Anthropic.MessageCreateParams = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: [{ role: 'user', content: request.prompt }],
+    }
+
+    if (request.system) {
+      messageOptions.system = request.system
+    }
+
+    if (request.temperature !== undefined) {
+      messageOptions.temperature = request.temperature
+    }
+
+    const response = await getClient().messages.create(messageOptions)
+
+    const textBlock = response.content.find(block => block.type === 'text')
+    const content = textBlock && textBlock.type === 'text' ? textBlock.text : ''
+
+    return {
+      content,
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    }
+  },
+}
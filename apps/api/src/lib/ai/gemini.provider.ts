@@ -0,0 +1,133 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { AICompletionRequest, AICompletionResult, AIProvider, AIWebSource } from './types'
+import { parseModelList } from './model-chain'
+
+/** Lighter / alternate models when the primary is overloaded or unavailable. */
+const DEFAULT_FALLBACK_MODELS = [
+  'gemini-2.5-flash-lite',
+  'gemini-2.0-flash-lite',
+  'gemini-1.5-flash',
+]
+
+function getApiKey() {
+  const apiKey = process.env.GEMINI_API_KEY
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not configured')
+  return apiKey
+}
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+async function generate(request: AICompletionRequest): Promise<AICompletionResult> {
+  const genAI = new GoogleGenerativeAI(getApiKey())
+  const model = genAI.getGenerativeModel({
+    model: request.model,
+    systemInstruction: request.system,
+    generationConfig: {
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+    },
+  })
+
+  const result = await model.generateContent(request.prompt)
+  const response = result.response
+  const content = response.text() || ''
+
+  const usageMeta = response.usageMetadata
+  return {
+    content,
+    inputTokens: usageMeta?.promptTokenCount ?? estimateTokens(request.prompt),
+    outputTokens: usageMeta?.candidatesTokenCount ?? estimateTokens(content),
+  }
+}
+
+/** generateContent with Google Search grounding (general/public topics). */
+async function generateWithGoogleSearch(request: AICompletionRequest): Promise<AICompletionResult> {
+  const body: Record<string, unknown> = {
+    contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+    tools: [{ google_search: {} }],
+    generationConfig: { maxOutputTokens: request.maxTokens, temperature: request.temperature },
+  }
+  if (request.system) {
+    body.systemInstruction = { parts: [{ text: request.system }] }
+  }
+
+  const res = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${getApiKey()}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }
+  )
+
+  if (!res.ok) {
+    const errText = await res.text()
+    throw new Error(
+      `[${res.status}] GoogleGenerativeAI Error: ${errText.slice(0, 500)}`
+    )
+  }
+
+  const data = (await res.json()) as {
+    candidates?: Array<{
+      content?: { parts?: Array<{ text?: string }> }
+      groundingMetadata?: {
+        groundingChunks?: Array<{ web?: { uri?: string; title?: string } }>
+      }
+    }>
+    usageMetadata?: {
+      promptTokenCount?: number
+      candidatesTokenCount?: number
+    }
+  }
+
+  const candidate = data.candidates?.[0]
+  const content =
+    candidate?.content?.parts?.map((p) => p.text || '').join('') || ''
+
+  const webSources: AIWebSource[] = []
+  const seen = new Set<string>()
+  for (const chunk of candidate?.groundingMetadata?.groundingChunks || []) {
+    const web = chunk.web
+    if (!web?.uri || seen.has(web.uri)) continue
+    seen.add(web.uri)
+    webSources.push({
+      title: web.title || web.uri,
+      uri: web.uri,
+    })
+  }
+
+  return {
+    content,
+    inputTokens: data.usageMetadata?.promptTokenCount ?? estimateTokens(request.prompt),
+    outputTokens: data.usageMetadata?.candidatesTokenCount ?? estimateTokens(content),
+    webSources,
+  }
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+
+  isConfigured() {
+    return !!process.env.GEMINI_API_KEY
+  },
+
+  getFallbackModels() {
+    return parseModelList(process.env.GEMINI_MODEL_FALLBACKS, DEFAULT_FALLBACK_MODELS)
+  },
+
+  getPricing(model) {
+    if (model.includes('flash-lite')) {
+      return { inputCostPerMTokens: 0.10, outputCostPerMTokens: 0.40 }
+    }
+    if (model.includes('flash')) {
+      return { inputCostPerMTokens: 0.30, outputCostPerMTokens: 2.50 }
+    }
+    return { inputCostPerMTokens: 1.25, outputCostPerMTokens: 10.00 }
+  },
+
+  async complete(request) {
+    return request.webSearch ? generateWithGoogleSearch(request) : generate(request)
+  },
+}
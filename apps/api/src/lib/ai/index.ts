@@ -0,0 +1,195 @@
+/**
+ * AI Providers
+ *
+ * Every model call goes through callAI: the operation's route picks the
+ * provider and model, the model chain falls back on overload, and each call
+ * is recorded in AIUsage the same way whichever provider answered.
+ */
+
+import type {
+  AICallContext,
+  AICallOptions,
+  AICallResponse,
+  AIProvider,
+  AIProviderId,
+} from './types'
+import { anthropicProvider } from './anthropic.provider'
+import { geminiProvider } from './gemini.provider'
+import { localProvider } from './local.provider'
+import { getRoute, LOCAL_MODEL } from './routing'
+import { buildModelChain, getErrorMessage, shouldTryNextModel } from './model-chain'
+import { calculateCost, calculateEnvironmentalImpact, saveUsageRecord } from './usage'
+import {
+  getInstructionsForOperation,
+  formatInstructionsForPrompt,
+  isInstructableOperation,
+} from '../../server/services/ai-instruction.service'
+
+export type {
+  AIProviderId,
+  AIOperationType,
+  AIInstructableOperation,
+  AIEntityType,
+  AICallContext,
+  AICallOptions,
+  AICallResponse,
+  AIWebSource,
+  AIProvider,
+} from './types'
+export { ENVIRONMENTAL_FACTORS } from './usage'
+
+export const aiProviders: Record<AIProviderId, AIProvider> = {
+  anthropic: anthropicProvider,
+  gemini: geminiProvider,
+  local: localProvider,
+}
+
+const warnedUnconfigured = new Set<AIProviderId>()
+
+/**
+ * Outside production an operation whose provider has no API key runs on the
+ * local provider instead, so the app works offline
+ */
+function resolveProvider(providerId: AIProviderId, model: string): { provider: AIProvider; model: string } {
+  const provider = aiProviders[providerId]
+  if (provider.isConfigured() || process.env.NODE_ENV === 'production') {
+    return { provider, model }
+  }
+
+  if (!warnedUnconfigured.has(providerId)) {
+    warnedUnconfigured.add(providerId)
+    console.warn(`[AI] ${providerId} has no API key; using the local provider`)
+  }
+  return { provider: localProvider, model: LOCAL_MODEL }
+}
+
+/**
+ * Centralized AI call that routes, falls back and tracks usage
+ *
+ * @param prompt - The user prompt to send
+ * @param context - Context for tracking and routing (operation, entity, band, user)
+ * @param options - Optional model settings; unset ones come from the route
+ * @returns Response with content, usage stats, cost and environmental impact
+ */
+export async function callAI(
+  prompt: string,
+  context: AICallContext,
+  options: AICallOptions = {}
+): Promise<AICallResponse> {
+  const route = getRoute(context.operation)
+  const { provider, model: preferredModel } = resolveProvider(route.provider, options.model ?? route.model)
+  const modelChain = buildModelChain(preferredModel, provider.getFallbackModels())
+
+  const maxTokens = options.maxTokens ?? route.maxTokens ?? 1500
+  const temperature = options.temperature ?? route.temperature
+
+  // Fetch band-specific AI instructions if bandId is provided
+  let system = options.system || ''
+  if (context.bandId && isInstructableOperation(context.operation)) {
+    try {
+      const instructions = await getInstructionsForOperation(context.bandId, context.operation)
+      if (instructions.length > 0) {
+        const instructionText = formatInstructionsForPrompt(instructions)
+        system = system ? `${system}${instructionText}` : instructionText.trim()
+      }
+    } catch (instructionErr) {
+      // Don't fail the AI call if instruction fetching fails
+      console.error('Failed to fetch AI instructions:', instructionErr)
+    }
+  }
+
+  const startTime = Date.now()
+  let lastError: unknown
+
+  for (let i = 0; i < modelChain.length; i++) {
+    const model = modelChain[i]
+    const hasNext = i < modelChain.length - 1
+
+    try {
+      const result = await provider.complete({
+        operation: context.operation,
+        prompt,
+        model,
+        system: system || undefined,
+        maxTokens,
+        temperature,
+        webSearch: options.webSearch,
+      })
+
+      const durationMs = Date.now() - startTime
+      const totalTokens = result.inputTokens + result.outputTokens
+      const costUsd = calculateCost(provider.getPricing(model), result.inputTokens, result.outputTokens)
+
+      if (model !== preferredModel) {
+        console.warn(`[AI] ${context.operation} used fallback model ${model} (preferred: ${preferredModel})`)
+      }
+
+      // Save to database (fire and forget - don't block on this)
+      saveUsageRecord({
+        context,
+        provider: provider.id,
+        model,
+        inputTokens: result.inputTokens,
+        outputTokens: result.outputTokens,
+        costUsd,
+        durationMs,
+        success: true,
+      }).catch(err => {
+        console.error('Failed to save AI usage record:', err)
+      })
+
+      return {
+        content: result.content,
+        webSources: result.webSources ?? [],
+        usage: {
+          inputTokens: result.inputTokens,
+          outputTokens: result.outputTokens,
+          totalTokens,
+        },
+        environmental: calculateEnvironmentalImpact(totalTokens),
+        costUsd,
+        durationMs,
+        provider: provider.id,
+        model,
+      }
+    } catch (err) {
+      lastError = err
+      if (hasNext && shouldTryNextModel(err)) {
+        console.warn(`[AI] ${model} failed (${getErrorMessage(err)}); trying ${modelChain[i + 1]}`)
+        continue
+      }
+      break
+    }
+  }
+
+  // Save error record (fire and forget)
+  saveUsageRecord({
+    context,
+    provider: provider.id,
+    model: modelChain[modelChain.length - 1],
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    durationMs: Date.now() - startTime,
+    success: false,
+    error: getErrorMessage(lastError),
+  }).catch(saveErr => {
+    console.error('Failed to save AI usage error record:', saveErr)
+  })
+
+  throw lastError
+}
+
+/**
+ * Helper to parse JSON from AI response safely
+ */
+export function parseAIJson<T>(content: string): T | null {
+  try {
+    // Try to extract JSON from markdown code blocks
+    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/)
+    const jsonStr = jsonMatch ? jsonMatch[1].trim() : content.trim()
+    return JSON.parse(jsonStr) as T
+  } catch {
+    return null
+  }
+}
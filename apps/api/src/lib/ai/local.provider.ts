@@ -0,0 +1,209 @@
+/**
+ * Local AI provider
+ *
+ * Deterministic, offline stand-in for development and tests. It never calls
+ * a model: each operation gets a canned answer in the shape its caller
+ * parses, built from what it can read out of the prompt. The same prompt
+ * always gives the same answer.
+ */
+
+import type { AICompletionRequest, AIOperationType, AIProvider } from './types'
+
+type LocalResponder = (request: AICompletionRequest) => string | object
+
+/** Value of a "LABEL: value" line in the prompt */
+function readField(text: string, label: string): string | null {
+  const match = text.match(new RegExp(`^\\s*${label}:\\s*(.+)$`, 'mi'))
+  return match ? match[1].trim() : null
+}
+
+function subjectOf(request: AICompletionRequest, labels: string[], fallback: string): string {
+  for (const label of labels) {
+    const value = readField(request.prompt, label)
+    if (value) return value
+  }
+  return fallback
+}
+
+// Mirrors the cues the legality prompt tells the model to be strict about
+const UNLAWFUL_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(steal|stealing|stole|rob|robbery|shoplift\w*|take without permission)\b/i, 'Describes theft or taking property without permission'],
+  [/\b(fraud|scam|ponzi)\b/i, 'Describes fraud or a scam'],
+  [/\b(kill|assault|threaten)\b/i, 'Describes violence or threats'],
+]
+
+function checkLegality(request: AICompletionRequest) {
+  // Only the submitted content, not the checklist of things to look for
+  const content = request.prompt.split(/\nCheck for:/i)[0]
+  const concerns = UNLAWFUL_PATTERNS
+    .filter(([pattern]) => pattern.test(content))
+    .map(([, concern]) => concern)
+  return { isLawful: concerns.length === 0, concerns }
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z]{4,}/g) ?? [])
+}
+
+/**
+ * Answer a help question with the knowledge paragraph that shares the most
+ * words with it, or the prompt's own "don't know" reply
+ */
+function answerHelpQuestion(request: AICompletionRequest) {
+  const notCovered = "I don't have information about that. Please send us a note using the feedback button and we will add your question/answer to the Help function."
+  const questionWords = words(request.prompt)
+  const paragraphs = (request.system ?? '')
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p && !/^(CRITICAL RULE|GUIDELINES|CURRENT PAGE CONTEXT)/.test(p))
+
+  let best: { paragraph: string; score: number } = { paragraph: notCovered, score: 1 }
+  for (const paragraph of paragraphs) {
+    const paragraphWords = words(paragraph)
+    let score = 0
+    questionWords.forEach(word => {
+      if (paragraphWords.has(word)) score++
+    })
+    if (score > best.score) best = { paragraph, score }
+  }
+  return best.paragraph
+}
+
+const RESPONDERS: Record<AIOperationType, LocalResponder> = {
+  proposal_draft: (request) => {
+    const title = request.prompt.match(/The proposal is titled: "(.+)"/)?.[1] ?? 'this proposal'
+    const isBudget = /Type: a budget request/.test(request.prompt)
+    const isProject = /Type: a new project/.test(request.prompt)
+    return {
+      description: `This proposal is about ${title}. It sets out what the band would do, who would be involved and why it matters now.\n\nIf approved, the band commits to the plan below and reviews progress at each milestone.`,
+      problemStatement: `The band has not yet acted on ${title}. Leaving it open means the need it addresses keeps going unmet and the decision keeps coming back.`,
+      expectedOutcome: `${title} is completed as described, on the agreed timeline, and members can see the result. Success is measured against the milestones below.`,
+      risksAndConcerns: '• Members may not have time to take this on - assign an owner for each step.\n• Costs may run over - review spending at each milestone.\n• Scope may grow - keep changes to a follow-up proposal.',
+      budgetBreakdown: isBudget
+        ? '• Materials: $[amount]\n• Services: $[amount]\n• Contingency (10%): $[amount]\n• Total: $[amount]'
+        : 'No budget is required for this proposal.',
+      milestones: isProject
+        ? '• Phase 1: Plan and assign owners - [timeframe]\n• Phase 2: Carry out the work - [timeframe]\n• Phase 3: Review and report back - [timeframe]'
+        : '• Agree the details after approval\n• Carry out the change\n• Report back to the band',
+    }
+  },
+
+  proposal_validation: () => ({ status: 'PASS', issues: [] }),
+  project_validation: () => ({ status: 'PASS', issues: [] }),
+  task_validation: () => ({ status: 'PASS', issues: [] }),
+
+  content_legality_check: checkLegality,
+  content_values_check: () => ({ isAligned: true, concerns: [] }),
+  content_scope_check: () => ({ isAligned: true, concerns: [] }),
+
+  project_suggestions: (request) => {
+    const subject = subjectOf(request, ['PROPOSAL TITLE'], 'the proposal')
+    return [
+      { name: `Plan ${subject}`, description: `Agree scope, owners and schedule for ${subject}. The deliverable is a written plan the band signs off on.`, estimatedWeeks: 1, order: 1 },
+      { name: `Deliver ${subject}`, description: `Carry out the work in the plan. The deliverable is the finished result, ready for review.`, estimatedWeeks: 3, order: 2 },
+      { name: `Review ${subject}`, description: `Check the result against the proposal's expected outcome and report back to the band.`, estimatedWeeks: 1, order: 3 },
+    ]
+  },
+
+  task_suggestions: (request) => {
+    const subject = subjectOf(request, ['PROJECT NAME'], 'the project')
+    return [
+      { name: `Write the plan for ${subject}`, description: 'List the steps, owners and dates in one shared document.', estimatedHours: 2, priority: 'HIGH', order: 1, requiresVerification: false },
+      { name: `Do the main work for ${subject}`, description: 'Complete the steps in the plan and note anything that changes.', estimatedHours: 8, priority: 'MEDIUM', order: 2, requiresVerification: true },
+      { name: `Report results of ${subject}`, description: 'Share what was done and what is left with the band.', estimatedHours: 1, priority: 'MEDIUM', order: 3, requiresVerification: true },
+    ]
+  },
+
+  checklist_suggestions: (request) => {
+    const subject = subjectOf(request, ['TASK NAME'], 'this task')
+    return [
+      `Read the description of "${subject}"`,
+      'List the steps needed to finish it',
+      'Do the first step and note the result',
+      'Post an update for the project team',
+    ]
+  },
+
+  help_question: answerHelpQuestion,
+
+  resume_parse: () => ({
+    workExperience: [],
+    education: [],
+    certifications: [],
+    suggestedSkills: [],
+    suggestedSkillSlugs: [],
+    suggestedCategorySlugs: [],
+  }),
+
+  talk_it_out_gate: () => 'NO',
+
+  talk_it_out_opening: (request) => {
+    const topic = readField(request.prompt, 'Topic') ?? 'today\'s topic'
+    return `Welcome, everyone. We're here to talk through ${topic}. Please take turns, keep to the issue rather than the person, and I'll step in to keep us moving toward the goal. Who would like to share their view first?`
+  },
+
+  talk_it_out_intervention: () =>
+    "Let's pause for a moment. Could someone summarize where we agree so far, and what's still open?",
+
+  talk_it_out_closing: (request) => {
+    const topic = readField(request.prompt, 'Topic') ?? 'the topic'
+    return `## What was discussed\n${topic}\n\n## Where consensus emerged (if any)\nNone recorded.\n\n## Where disagreement remains (if any)\nNone recorded.\n\n## Decisions made (if any)\nNone.\n\n## Open questions (if any)\nNone recorded.\n\n## Next steps (if any)\nNone recorded.`
+  },
+
+  talk_it_out_topic_brief_web: (request) => {
+    const topic = readField(request.prompt, 'Topic') ?? 'this topic'
+    return `No web research was run for ${topic} (offline AI provider).`
+  },
+
+  talk_it_out_topic_brief_synthesis: (request) => {
+    const topic = readField(request.prompt, 'Topic') ?? 'the topic'
+    return {
+      summary: `This session is about ${topic}. Share your view, listen to the others and work toward the session goal.`,
+      researchMode: readField(request.prompt, 'Research mode') ?? '',
+      keyTerms: [],
+      whatSuccessLooksLike: readField(request.prompt, 'Goal') ?? '',
+      likelyPerspectives: [],
+      commonTensions: [],
+      questionsToSurface: [
+        `What matters most to you about ${topic}?`,
+        'What would we need to know to decide?',
+        'What is one step we could agree on today?',
+      ],
+      factsToVerifyInRoom: [],
+      publicContext: '',
+      internalContext: '',
+    }
+  },
+}
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+export const localProvider: AIProvider = {
+  id: 'local',
+
+  isConfigured() {
+    return true
+  },
+
+  getFallbackModels() {
+    return []
+  },
+
+  getPricing() {
+    return { inputCostPerMTokens: 0, outputCostPerMTokens: 0 }
+  },
+
+  async complete(request) {
+    const answer = RESPONDERS[request.operation](request)
+    const content = typeof answer === 'string' ? answer : JSON.stringify(answer, null, 2)
+
+    return {
+      content,
+      inputTokens: estimateTokens(`${request.system ?? ''}${request.prompt}`),
+      outputTokens: estimateTokens(content),
+      webSources: [],
+    }
+  },
+}
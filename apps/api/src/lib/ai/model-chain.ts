@@ -0,0 +1,52 @@
+/**
+ * Model fallback shared by every provider: try the preferred model, then
+ * lighter or alternate ones when it is overloaded or unavailable.
+ */
+
+export function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message
+  return String(err)
+}
+
+/** Comma-separated model list from an env var, or the defaults */
+export function parseModelList(raw: string | undefined, defaults: string[]): string[] {
+  if (!raw?.trim()) return defaults
+  return raw
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+export function buildModelChain(preferredModel: string, fallbackModels: string[]): string[] {
+  const chain: string[] = []
+  const seen = new Set<string>()
+  for (const model of [preferredModel, ...fallbackModels]) {
+    if (!seen.has(model)) {
+      seen.add(model)
+      chain.push(model)
+    }
+  }
+  return chain
+}
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([404, 408, 429, 500, 502, 503, 504, 529])
+
+/** True when trying another model in the chain may succeed. */
+export function shouldTryNextModel(err: unknown): boolean {
+  const status = (err as { status?: unknown } | null)?.status
+  if (typeof status === 'number') return RETRYABLE_STATUSES.has(status)
+
+  const message = getErrorMessage(err)
+  const lower = message.toLowerCase()
+
+  if (/\[404\b|not found|no longer available/i.test(message)) return true
+  if (/\[503\b|service unavailable|high demand|overloaded|try again later/i.test(message)) {
+    return true
+  }
+  if (/\[429\b|resource exhausted|rate limit|quota/i.test(message)) return true
+  if (/\[502\b|\[504\b|\b502\b|\b504\b/.test(message)) return true
+  if (lower.includes('unavailable') && !lower.includes('api key')) return true
+
+  return false
+}
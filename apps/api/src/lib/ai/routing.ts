@@ -0,0 +1,102 @@
+/**
+ * Which provider and model handles each AI operation.
+ *
+ * AI_PROVIDER=local sends everything to the offline stub. AI_ROUTES overrides
+ * single operations, e.g. "help_question=gemini:gemini-2.5-flash,resume_parse=local".
+ */
+
+import type { AIOperationType, AIProviderId } from './types'
+
+export interface AIRoute {
+  provider: AIProviderId
+  model: string
+  // Used when the caller doesn't set one
+  temperature?: number
+  maxTokens?: number
+}
+
+const AI_PROVIDER_IDS: AIProviderId[] = ['anthropic', 'gemini', 'local']
+
+// Use version without date suffix for "latest" within that version
+const ANTHROPIC_MODEL = process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5'
+const ANTHROPIC_HELP_MODEL = process.env.ANTHROPIC_HELP_MODEL || ANTHROPIC_MODEL
+const GEMINI_GATE_MODEL = process.env.GEMINI_MODEL_GATE || 'gemini-2.5-flash'
+const GEMINI_FACILITATOR_MODEL = process.env.GEMINI_MODEL_FACILITATOR || 'gemini-2.5-flash'
+const GEMINI_BRIEF_MODEL = process.env.GEMINI_MODEL_BRIEF || 'gemini-2.5-flash'
+
+export const LOCAL_MODEL = 'local-stub'
+
+const anthropic = (model = ANTHROPIC_MODEL): AIRoute => ({ provider: 'anthropic', model })
+
+const DEFAULT_ROUTES: Record<AIOperationType, AIRoute> = {
+  proposal_draft: anthropic(),
+  proposal_validation: anthropic(),
+  project_validation: anthropic(),
+  task_validation: anthropic(),
+  content_legality_check: anthropic(),
+  content_values_check: anthropic(),
+  content_scope_check: anthropic(),
+  project_suggestions: anthropic(),
+  task_suggestions: anthropic(),
+  checklist_suggestions: anthropic(),
+  help_question: anthropic(ANTHROPIC_HELP_MODEL),
+  resume_parse: anthropic(),
+  talk_it_out_gate: { provider: 'gemini', model: GEMINI_GATE_MODEL, temperature: 0.2, maxTokens: 64 },
+  talk_it_out_opening: { provider: 'gemini', model: GEMINI_FACILITATOR_MODEL, temperature: 0.7 },
+  talk_it_out_intervention: { provider: 'gemini', model: GEMINI_FACILITATOR_MODEL, temperature: 0.7 },
+  talk_it_out_closing: { provider: 'gemini', model: GEMINI_FACILITATOR_MODEL, temperature: 0.7 },
+  talk_it_out_topic_brief_web: { provider: 'gemini', model: GEMINI_BRIEF_MODEL, temperature: 0.4, maxTokens: 2048 },
+  talk_it_out_topic_brief_synthesis: { provider: 'gemini', model: GEMINI_BRIEF_MODEL, temperature: 0.7 },
+}
+
+function isProviderId(value: string): value is AIProviderId {
+  return (AI_PROVIDER_IDS as string[]).includes(value)
+}
+
+/**
+ * Parse AI_ROUTES: comma-separated operation=provider[:model] pairs
+ */
+function parseRouteOverrides(raw: string | undefined): Partial<Record<AIOperationType, AIRoute>> {
+  const overrides: Partial<Record<AIOperationType, AIRoute>> = {}
+  if (!raw?.trim()) return overrides
+
+  for (const entry of raw.split(',')) {
+    const [operation, target] = entry.split('=').map(s => s.trim())
+    if (!operation || !target) continue
+
+    const [provider, ...modelParts] = target.split(':')
+    const model = modelParts.join(':')
+    if (!(operation in DEFAULT_ROUTES) || !isProviderId(provider)) {
+      console.warn(`[AI] Ignoring AI_ROUTES entry "${entry.trim()}"`)
+      continue
+    }
+
+    const base = DEFAULT_ROUTES[operation as AIOperationType]
+    overrides[operation as AIOperationType] = {
+      ...base,
+      provider,
+      // A provider switch without a model can't keep the other provider's model
+      model: model || (provider === base.provider ? base.model : defaultModelFor(provider)),
+    }
+  }
+  return overrides
+}
+
+function defaultModelFor(provider: AIProviderId): string {
+  if (provider === 'gemini') return GEMINI_FACILITATOR_MODEL
+  if (provider === 'local') return LOCAL_MODEL
+  return ANTHROPIC_MODEL
+}
+
+const ROUTE_OVERRIDES = parseRouteOverrides(process.env.AI_ROUTES)
+
+/**
+ * The provider and model for an operation
+ */
+export function getRoute(operation: AIOperationType): AIRoute {
+  const route = ROUTE_OVERRIDES[operation] ?? DEFAULT_ROUTES[operation]
+  if (process.env.AI_PROVIDER === 'local' || route.provider === 'local') {
+    return { ...route, provider: 'local', model: LOCAL_MODEL }
+  }
+  return route
+}
@@ -0,0 +1,117 @@
+export type AIProviderId = 'anthropic' | 'gemini' | 'local'
+
+// Operations bands can steer with their own AI instructions
+export type AIInstructableOperation =
+  | 'proposal_draft'
+  | 'proposal_validation'
+  | 'project_validation'
+  | 'task_validation'
+  | 'content_legality_check'
+  | 'content_values_check'
+  | 'content_scope_check'
+  | 'project_suggestions'
+  | 'task_suggestions'
+  | 'checklist_suggestions'
+  | 'help_question'
+  | 'resume_parse'
+
+export type TalkItOutAIOperation =
+  | 'talk_it_out_gate'
+  | 'talk_it_out_opening'
+  | 'talk_it_out_intervention'
+  | 'talk_it_out_closing'
+  | 'talk_it_out_topic_brief_web'
+  | 'talk_it_out_topic_brief_synthesis'
+
+// Operation types for tracking and model routing
+export type AIOperationType = AIInstructableOperation | TalkItOutAIOperation
+
+// Entity types for context
+export type AIEntityType =
+  | 'proposal'
+  | 'project'
+  | 'task'
+  | 'checklist'
+  | 'band'
+  | 'help'
+  | 'profile'
+  | 'talk_it_out'
+
+// Context for AI calls
+export interface AICallContext {
+  operation: AIOperationType
+  entityType: AIEntityType
+  entityId?: string
+  bandId?: string | null
+  userId?: string
+}
+
+// Options for AI calls; anything left out comes from the operation's route
+export interface AICallOptions {
+  model?: string
+  maxTokens?: number
+  system?: string
+  temperature?: number
+  // Ground the answer in a web search, where the provider supports it
+  webSearch?: boolean
+}
+
+export interface AIWebSource {
+  title: string
+  uri: string
+}
+
+// Response from AI calls
+export interface AICallResponse {
+  content: string
+  webSources: AIWebSource[]
+  usage: {
+    inputTokens: number
+    outputTokens: number
+    totalTokens: number
+  }
+  environmental: {
+    co2Grams: number
+    waterMl: number
+    electricityWh: number
+    ledMinutes: number
+  }
+  costUsd: number
+  durationMs: number
+  provider: AIProviderId
+  model: string
+}
+
+// One request to one model, after routing
+export interface AICompletionRequest {
+  operation: AIOperationType
+  prompt: string
+  model: string
+  system?: string
+  maxTokens: number
+  temperature?: number
+  webSearch?: boolean
+}
+
+export interface AICompletionResult {
+  content: string
+  inputTokens: number
+  outputTokens: number
+  webSources?: AIWebSource[]
+}
+
+// Dollars per 1M tokens
+export interface AIModelPricing {
+  inputCostPerMTokens: number
+  outputCostPerMTokens: number
+}
+
+export interface AIProvider {
+  id: AIProviderId
+  // False when the provider's API key is missing
+  isConfigured(): boolean
+  // Models to try, in order, when the preferred one is unavailable
+  getFallbackModels(): string[]
+  getPricing(model: string): AIModelPricing
+  complete(request: AICompletionRequest): Promise<AICompletionResult>
+}
@@ -0,0 +1,69 @@
+import { prisma } from '../prisma'
+import type { AICallContext, AIModelPricing, AIProviderId } from './types'
+
+// Environmental conversion factors per 1000 tokens
+export const ENVIRONMENTAL_FACTORS = {
+  co2GramsPerKTokens: 0.3,      // grams CO2
+  waterMlPerKTokens: 0.5,       // milliliters water
+  electricityWhPerKTokens: 1,   // watt-hours (0.001 kWh)
+  ledMinutesPerKTokens: 0.1,    // minutes of 10W LED bulb equivalent
+}
+
+// Calculate environmental impact from token count
+export function calculateEnvironmentalImpact(totalTokens: number) {
+  const kTokens = totalTokens / 1000
+  return {
+    co2Grams: kTokens * ENVIRONMENTAL_FACTORS.co2GramsPerKTokens,
+    waterMl: kTokens * ENVIRONMENTAL_FACTORS.waterMlPerKTokens,
+    electricityWh: kTokens * ENVIRONMENTAL_FACTORS.electricityWhPerKTokens,
+    ledMinutes: kTokens * ENVIRONMENTAL_FACTORS.ledMinutesPerKTokens,
+  }
+}
+
+export function calculateCost(pricing: AIModelPricing, inputTokens: number, outputTokens: number) {
+  return (
+    (inputTokens / 1_000_000) * pricing.inputCostPerMTokens +
+    (outputTokens / 1_000_000) * pricing.outputCostPerMTokens
+  )
+}
+
+/**
+ * One AIUsage row per call, whichever provider answered it
+ */
+export async function saveUsageRecord(data: {
+  context: AICallContext
+  provider: AIProviderId
+  model: string
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+  durationMs: number
+  success: boolean
+  error?: string
+}) {
+  const totalTokens = data.inputTokens + data.outputTokens
+  const environmental = calculateEnvironmentalImpact(totalTokens)
+
+  await prisma.aIUsage.create({
+    data: {
+      bandId: data.context.bandId || null,
+      userId: data.context.userId || null,
+      entityType: data.context.entityType,
+      entityId: data.context.entityId || null,
+      operation: data.context.operation,
+      inputTokens: data.inputTokens,
+      outputTokens: data.outputTokens,
+      totalTokens,
+      co2Grams: environmental.co2Grams,
+      waterMl: environmental.waterMl,
+      electricityWh: environmental.electricityWh,
+      ledMinutes: environmental.ledMinutes,
+      provider: data.provider,
+      model: data.model,
+      costUsd: data.costUsd,
+      durationMs: data.durationMs,
+      success: data.success,
+      error: data.error || null,
+    },
+  })
+}
@@ -34,6 +34,7 @@ export function getAuditCategory(entityType: string, action: string, changes: Re
     case 'Member':
       return 'membership'
     case 'Vote':
+    case 'VoteDelegation':
       return 'voting'
     case 'Proposal':
       return 'proposals'
@@ -52,7 +53,8 @@ export function getAuditCategory(entityType: string, action: string, changes: Re
         'votingMethod' in changes ||
         'votingPeriodDays' in changes ||
         'quorumPercentage' in changes ||
-        'requireProposalReview' in changes
+        'requireProposalReview' in changes ||
+        'requireOfficerTwoFactor' in changes
       )) {
         return 'settings'
       }
@@ -155,6 +157,14 @@ export function formatAuditDescription(entry: AuditEntry): FormattedAudit {
       }
     }
 
+    // Participation rule flag
+    if (changes?.participationFlaggedAt) {
+      if (changes.participationFlaggedAt.to) {
+        return { description: `${actor} flagged ${name} for low participation`, category }
+      }
+      return { description: `${actor} cleared ${name}'s low participation flag`, category }
+    }
+
     // Created member (invitation sent)
     if (action === 'created') {
       if (actor === name) {
@@ -191,6 +201,21 @@ export function formatAuditDescription(entry: AuditEntry): FormattedAudit {
     }
   }
 
+  // Vote delegation actions (entityName is the delegate's name)
+  if (entityType === 'VoteDelegation') {
+    const proposalType = changes?.proposalType?.to ?? changes?.proposalType?.from
+    const scope = proposalType ? `${proposalType.toLowerCase()} proposal` : 'proposal'
+    if (action === 'vote_delegation_set') {
+      if (changes?.delegate?.from) {
+        return { description: `${actor} moved their ${scope} votes from ${changes.delegate.from} to ${name}`, category }
+      }
+      return { description: `${actor} delegated their ${scope} votes to ${name}`, category }
+    }
+    if (action === 'vote_delegation_revoked') {
+      return { description: `${actor} stopped delegating their ${scope} votes to ${name}`, category }
+    }
+  }
+
   // Proposal actions
   if (entityType === 'Proposal') {
     if (action === 'created') {
@@ -227,6 +252,13 @@ export function formatAuditDescription(entry: AuditEntry): FormattedAudit {
       return { description: `${actor} updated proposal "${name}"`, category }
     }
 
+    if (action === 'amendment_accepted') {
+      return { description: `${actor} merged amendment "${changes?.amendment?.to}" into proposal "${name}"`, category }
+    }
+    if (action === 'amendment_rejected') {
+      return { description: `Amendment "${changes?.amendment?.to}" to proposal "${name}" was rejected`, category }
+    }
+
     if (action === 'deleted') {
       return { description: `${actor} deleted proposal "${name}"`, category }
     }
@@ -329,6 +361,18 @@ export function formatAuditDescription(entry: AuditEntry): FormattedAudit {
     if (action === 'deleted') {
       return { description: `${actor} deleted event "${name}"`, category }
     }
+    if (action === 'agenda_decision_recorded') {
+      const item = shortName(changes?.agendaItem?.to ?? null, 30)
+      if (!changes?.decision?.to) {
+        return { description: `${actor} cleared the decision on "${item}" in "${name}"`, category }
+      }
+      return { description: `${actor} recorded a decision on "${item}" in "${name}"`, category }
+    }
+    if (action === 'events_imported') {
+      const count = changes?.eventCount?.to ?? 0
+      const source = entityName ? ` from "${name}"` : ''
+      return { description: `${actor} imported ${count} event${count === 1 ? '' : 's'}${source}`, category }
+    }
   }
 
   // Event RSVP
@@ -390,6 +434,10 @@ export function formatAuditDescription(entry: AuditEntry): FormattedAudit {
         const enabled = changes.requireProposalReview.to ? 'enabled' : 'disabled'
         return { description: `${actor} ${enabled} proposal review requirement`, category }
       }
+      if (changes?.requireOfficerTwoFactor !== undefined) {
+        const enabled = changes.requireOfficerTwoFactor.to ? 'enabled' : 'disabled'
+        return { description: `${actor} ${enabled} the two-factor requirement for officers`, category }
+      }
       return { description: `${actor} updated band settings`, category }
     }
   }
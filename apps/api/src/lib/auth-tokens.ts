@@ -0,0 +1,130 @@
+import jwt from 'jsonwebtoken'
+import { prisma } from './prisma'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+
+// Requests check the token's session (verifySessionAccessToken), so revoking
+// a session takes effect immediately; expiry only bounds a leaked token
+export const ACCESS_TOKEN_EXPIRES_IN = '15m'
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+// Time allowed between the password step and the 2FA code at sign-in
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m'
+
+interface AccessTokenPayload {
+  type: 'access'
+  userId: string
+  sid: string
+}
+
+interface RefreshTokenPayload {
+  type: 'refresh'
+  userId: string
+  sid: string
+  gen: number
+}
+
+interface TwoFactorChallengePayload {
+  type: 'two-factor-challenge'
+  userId: string
+}
+
+export function signAccessToken(userId: string, sessionId: string): string {
+  const payload: AccessTokenPayload = { type: 'access', userId, sid: sessionId }
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN })
+}
+
+export function signRefreshToken(userId: string, sessionId: string, generation: number, expiresAt: Date): string {
+  const payload: RefreshTokenPayload = { type: 'refresh', userId, sid: sessionId, gen: generation }
+  return jwt.sign(
+    { ...payload, exp: Math.floor(expiresAt.getTime() / 1000) },
+    JWT_SECRET
+  )
+}
+
+/**
+ * Verify an access token. Returns null for invalid or expired tokens, refresh
+ * tokens, and tokens issued before sessions existed.
+ */
+export function verifyAccessToken(token: string): { userId: string; sessionId: string } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<AccessTokenPayload>
+    if (decoded.type !== 'access' || !decoded.userId || !decoded.sid) {
+      return null
+    }
+    return { userId: decoded.userId, sessionId: decoded.sid }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify an access token and that its session still stands: not revoked or
+ * expired, and its user not banned or suspended. Sign-out, "sign out
+ * everywhere" and admin bans all revoke sessions, so they cut off the token
+ * at once instead of when it expires.
+ */
+export async function verifySessionAccessToken(token: string): Promise<{ userId: string; sessionId: string } | null> {
+  const decoded = verifyAccessToken(token)
+  if (!decoded) return null
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sessionId },
+    select: {
+      userId: true,
+      revokedAt: true,
+      expiresAt: true,
+      user: { select: { bannedAt: true, suspendedUntil: true } },
+    },
+  })
+
+  const now = new Date()
+  if (
+    !session ||
+    session.userId !== decoded.userId ||
+    session.revokedAt ||
+    session.expiresAt <= now ||
+    session.user.bannedAt ||
+    (session.user.suspendedUntil && session.user.suspendedUntil > now)
+  ) {
+    return null
+  }
+
+  return decoded
+}
+
+/**
+ * Verify a refresh token's signature and expiry. Whether it is still the
+ * session's current token is up to the caller.
+ */
+export function verifyRefreshToken(token: string): { userId: string; sessionId: string; generation: number } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<RefreshTokenPayload>
+    if (decoded.type !== 'refresh' || !decoded.userId || !decoded.sid || typeof decoded.gen !== 'number') {
+      return null
+    }
+    return { userId: decoded.userId, sessionId: decoded.sid, generation: decoded.gen }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Proof that the password was right, exchanged for real tokens once the
+ * 2FA code is entered
+ */
+export function signTwoFactorChallenge(userId: string): string {
+  const payload: TwoFactorChallengePayload = { type: 'two-factor-challenge', userId }
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN })
+}
+
+export function verifyTwoFactorChallenge(token: string): { userId: string } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<TwoFactorChallengePayload>
+    if (decoded.type !== 'two-factor-challenge' || !decoded.userId) {
+      return null
+    }
+    return { userId: decoded.userId }
+  } catch {
+    return null
+  }
+}
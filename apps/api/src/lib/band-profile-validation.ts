@@ -35,7 +35,6 @@ const productIdSchema = z.enum([
 
 export const businessBandCreateInputSchema = z
   .object({
-    userId: z.string(),
     name: z.string().min(2, 'Business name must be at least 2 characters'),
     businessType: businessTypeSchema,
     description: z.string().min(10, 'Description must be at least 10 characters'),
@@ -56,7 +55,6 @@ export const businessBandCreateInputSchema = z
 
 export const businessBandUpdateInputSchema = z.object({
   bandId: z.string(),
-  userId: z.string(),
   name: z.string().min(2).optional(),
   businessType: businessTypeSchema.optional(),
   description: z.string().min(10).optional(),
@@ -82,7 +80,6 @@ export const businessBandUpdateInputSchema = z.object({
 
 export const agencyBigBandCreateInputSchema = z
   .object({
-    adminUserId: z.string(),
     founderId: z.string(),
     name: z.string().min(2, 'Agency name must be at least 2 characters'),
     mission: z.string().min(10, 'Mission must be at least 10 characters'),
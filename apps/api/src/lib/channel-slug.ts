@@ -0,0 +1,51 @@
+import { TRPCError } from '@trpc/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+/**
+ * Generate a URL-safe slug from a channel name
+ */
+export function generateChannelSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '') // Remove non-alphanumeric except spaces and hyphens
+    .replace(/\s+/g, '-')          // Replace spaces with hyphens
+    .replace(/-+/g, '-')           // Replace multiple hyphens with single
+    .replace(/^-|-$/g, '')         // Remove leading/trailing hyphens
+    .substring(0, 100)             // Limit length
+}
+
+/**
+ * Check if a slug is unique within a band, and generate alternatives if not
+ */
+export async function getUniqueChannelSlug(
+  bandId: string,
+  baseSlug: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<string> {
+  let slug = baseSlug
+  let counter = 1
+
+  while (true) {
+    const existing = await db.channel.findUnique({
+      where: {
+        bandId_slug: { bandId, slug },
+      },
+    })
+
+    if (!existing) {
+      return slug
+    }
+
+    slug = `${baseSlug}-${counter}`
+    counter++
+
+    if (counter > 100) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Unable to generate unique slug',
+      })
+    }
+  }
+}
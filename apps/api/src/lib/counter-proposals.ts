@@ -0,0 +1,110 @@
+import { TRPCError } from '@trpc/server'
+import { prisma } from './prisma'
+import { evaluateYesNoVotes } from './proposal-outcome'
+
+/** Founder nominations and dissolution can't be amended or countered */
+export const NON_AMENDABLE_PROPOSAL_TYPES = ['DISSOLUTION', 'ADD_FOUNDER']
+
+/**
+ * Check that a proposal can be countered and return the ID to link to.
+ * Countering a counter-proposal links to the original, so every group has
+ * one original and its counters.
+ */
+export async function getCounterTargetId(proposalId: string, bandId: string): Promise<string> {
+  const target = await prisma.proposal.findUnique({
+    where: { id: proposalId },
+    select: { id: true, bandId: true, status: true, type: true, votingMethod: true, counterToProposalId: true },
+  })
+
+  if (!target || target.bandId !== bandId) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'The proposal being countered was not found' })
+  }
+  if (target.status !== 'OPEN') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only proposals open for voting can be countered' })
+  }
+  if (NON_AMENDABLE_PROPOSAL_TYPES.includes(target.type) || target.votingMethod) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'This kind of proposal cannot be countered' })
+  }
+
+  return target.counterToProposalId ?? target.id
+}
+
+/**
+ * Counter-proposals share the original's voting deadline so the group is
+ * decided together. Throws if the original has stopped taking votes.
+ */
+export async function getCounterProposalDeadline(counterToProposalId: string): Promise<Date> {
+  const original = await prisma.proposal.findUnique({
+    where: { id: counterToProposalId },
+    select: { status: true, votingEndsAt: true },
+  })
+
+  if (!original || original.status !== 'OPEN' || !original.votingEndsAt || original.votingEndsAt <= new Date()) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'The proposal this counters is no longer open for voting',
+    })
+  }
+
+  return original.votingEndsAt
+}
+
+/**
+ * The other proposals in a proposal's group (its original and/or counters)
+ */
+export async function getCompetingProposals(proposal: { id: string; counterToProposalId: string | null }) {
+  const rootId = proposal.counterToProposalId ?? proposal.id
+  return prisma.proposal.findMany({
+    where: {
+      OR: [{ id: rootId }, { counterToProposalId: rootId }],
+      id: { not: proposal.id },
+    },
+    select: { id: true, title: true, status: true, createdAt: true, createdById: true },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * Among open competing proposals, the one that would also pass with more
+ * support than `support` (higher YES share, then more YES votes, then the
+ * earlier proposal). Null if this proposal is the strongest.
+ */
+export async function findStrongerCompetitor(
+  proposal: { createdAt: Date },
+  support: { yesShare: number; yes: number },
+  band: { id: string; votingMethod: string; quorumPercentage: number },
+  competitorIds: string[]
+): Promise<{ id: string; title: string } | null> {
+  const competitors = await prisma.proposal.findMany({
+    where: { id: { in: competitorIds }, status: 'OPEN' },
+    select: {
+      id: true,
+      title: true,
+      type: true,
+      createdAt: true,
+      votes: { select: { userId: true, vote: true } },
+    },
+  })
+
+  for (const competitor of competitors) {
+    const outcome = await evaluateYesNoVotes(
+      {
+        bandId: band.id,
+        type: competitor.type,
+        votingMethod: band.votingMethod,
+        quorumPercentage: band.quorumPercentage,
+      },
+      competitor.votes
+    )
+    if (!outcome.passes) continue
+
+    const stronger =
+      outcome.yesShare > support.yesShare ||
+      (outcome.yesShare === support.yesShare && outcome.yes > support.yes) ||
+      (outcome.yesShare === support.yesShare && outcome.yes === support.yes && competitor.createdAt < proposal.createdAt)
+
+    if (stronger) return { id: competitor.id, title: competitor.title }
+  }
+
+  return null
+}
@@ -0,0 +1,212 @@
+/**
+ * Document folder permissions
+ *
+ * Folders form a tree. Each folder either inherits its permissions or sets
+ * its own role lists for view, upload and manage:
+ * - view: the visibility tier when inheriting, otherwise viewRoles - and
+ *   never wider than the parent's view
+ * - upload / manage: the parent's roles when inheriting (the band's
+ *   whoCanManageDocuments at the root), otherwise uploadRoles / manageRoles
+ *
+ * You can only upload to or manage a folder you can see. Founders can always
+ * see and manage every folder, so nobody can lock the band out.
+ */
+
+import { MemberRole, DocumentFolderVisibility } from '@prisma/client'
+import { prisma } from './prisma'
+
+export const ALL_MEMBER_ROLES: MemberRole[] = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']
+
+// Role hierarchy for folder visibility tiers
+export const VISIBILITY_ROLES: Record<DocumentFolderVisibility, MemberRole[]> = {
+  PUBLIC: ALL_MEMBER_ROLES,
+  MODERATOR: ['FOUNDER', 'GOVERNOR', 'MODERATOR'],
+  GOVERNANCE: ['FOUNDER', 'GOVERNOR'],
+}
+
+export const MAX_FOLDER_DEPTH = 5
+
+export interface FolderNode {
+  id: string
+  parentFolderId: string | null
+  name: string
+  slug: string
+  visibility: DocumentFolderVisibility
+  isArchived: boolean
+  inheritPermissions: boolean
+  viewRoles: MemberRole[]
+  uploadRoles: MemberRole[]
+  manageRoles: MemberRole[]
+}
+
+export interface FolderRoles {
+  view: MemberRole[]
+  upload: MemberRole[]
+  manage: MemberRole[]
+}
+
+export interface FolderPermissions {
+  canView: boolean
+  canUpload: boolean
+  canManage: boolean
+}
+
+const FOLDER_NODE_SELECT = {
+  id: true,
+  parentFolderId: true,
+  name: true,
+  slug: true,
+  visibility: true,
+  isArchived: true,
+  inheritPermissions: true,
+  viewRoles: true,
+  uploadRoles: true,
+  manageRoles: true,
+} as const
+
+function withFounder(roles: MemberRole[]): MemberRole[] {
+  return roles.includes('FOUNDER') ? roles : ['FOUNDER', ...roles]
+}
+
+function intersect(roles: MemberRole[], allowed: MemberRole[]): MemberRole[] {
+  return roles.filter(role => allowed.includes(role))
+}
+
+/**
+ * Effective roles for every folder in a band
+ */
+export function resolveFolderRoles(
+  folders: FolderNode[],
+  bandManagers: MemberRole[]
+): Map<string, FolderRoles> {
+  const byId = new Map(folders.map(f => [f.id, f]))
+  const resolved = new Map<string, FolderRoles>()
+  const rootRoles: FolderRoles = {
+    view: ALL_MEMBER_ROLES,
+    upload: withFounder(bandManagers),
+    manage: withFounder(bandManagers),
+  }
+
+  const resolve = (folder: FolderNode, visiting: Set<string>): FolderRoles => {
+    const cached = resolved.get(folder.id)
+    if (cached) return cached
+
+    // A broken parent link (or a cycle) is treated as the root
+    const parent = folder.parentFolderId ? byId.get(folder.parentFolderId) : undefined
+    const parentRoles = parent && !visiting.has(parent.id)
+      ? resolve(parent, new Set(visiting).add(folder.id))
+      : rootRoles
+
+    const ownView = folder.inheritPermissions ? VISIBILITY_ROLES[folder.visibility] : folder.viewRoles
+    const view = withFounder(intersect(ownView, parentRoles.view))
+    const upload = folder.inheritPermissions ? parentRoles.upload : folder.uploadRoles
+    const manage = folder.inheritPermissions ? parentRoles.manage : folder.manageRoles
+
+    const roles = {
+      view,
+      upload: withFounder(intersect(upload, view)),
+      manage: withFounder(intersect(manage, view)),
+    }
+    resolved.set(folder.id, roles)
+    return roles
+  }
+
+  for (const folder of folders) {
+    resolve(folder, new Set())
+  }
+
+  return resolved
+}
+
+export function permissionsForRole(roles: FolderRoles | undefined, role: MemberRole): FolderPermissions {
+  return {
+    canView: !!roles?.view.includes(role),
+    canUpload: !!roles?.upload.includes(role),
+    canManage: !!roles?.manage.includes(role),
+  }
+}
+
+/**
+ * Load a band's folder tree with everyone's effective roles
+ */
+export async function loadBandFolders(bandId: string) {
+  const [folders, band] = await Promise.all([
+    prisma.documentFolder.findMany({
+      where: { bandId },
+      select: FOLDER_NODE_SELECT,
+    }),
+    prisma.band.findUnique({
+      where: { id: bandId },
+      select: { whoCanManageDocuments: true },
+    }),
+  ])
+
+  const bandManagers = band?.whoCanManageDocuments ?? []
+  const byId = new Map(folders.map(f => [f.id, f]))
+  const roles = resolveFolderRoles(folders, bandManagers)
+
+  return { folders, byId, roles, bandManagers: withFounder(bandManagers) }
+}
+
+/**
+ * A folder and its ancestors, root first
+ */
+export function getFolderPath(byId: Map<string, FolderNode>, folderId: string): FolderNode[] {
+  const path: FolderNode[] = []
+  const seen = new Set<string>()
+  let current = byId.get(folderId)
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift(current)
+    current = current.parentFolderId ? byId.get(current.parentFolderId) : undefined
+  }
+  return path
+}
+
+/**
+ * Every folder below this one (not including it)
+ */
+export function getDescendantIds(folders: FolderNode[], folderId: string): string[] {
+  const children = new Map<string, string[]>()
+  for (const folder of folders) {
+    if (!folder.parentFolderId) continue
+    children.set(folder.parentFolderId, [...(children.get(folder.parentFolderId) ?? []), folder.id])
+  }
+
+  const result: string[] = []
+  const queue = [...(children.get(folderId) ?? [])]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (id === folderId || result.includes(id)) continue
+    result.push(id)
+    queue.push(...(children.get(id) ?? []))
+  }
+  return result
+}
+
+/**
+ * Height of the subtree rooted at this folder (1 = no subfolders)
+ */
+export function getSubtreeHeight(folders: FolderNode[], folderId: string): number {
+  const byParent = new Map<string, string[]>()
+  for (const folder of folders) {
+    if (!folder.parentFolderId) continue
+    byParent.set(folder.parentFolderId, [...(byParent.get(folder.parentFolderId) ?? []), folder.id])
+  }
+
+  const height = (id: string, seen: Set<string>): number => {
+    if (seen.has(id)) return 0
+    seen.add(id)
+    const childIds = byParent.get(id) ?? []
+    return 1 + Math.max(0, ...childIds.map(childId => height(childId, seen)))
+  }
+  return height(folderId, new Set())
+}
+
+/**
+ * Folders every member of the band can see, e.g. for content that may be
+ * shown to anyone in the band or sent outside it
+ */
+export function isVisibleToAllMembers(roles: FolderRoles | undefined): boolean {
+  return !!roles && ALL_MEMBER_ROLES.every(role => roles.view.includes(role))
+}
@@ -0,0 +1,111 @@
+import { RRule } from 'rrule'
+
+/**
+ * Occurrences of recurring events, and RSVPs resolved per occurrence.
+ *
+ * An RSVP with occurrenceDate null is the member's answer for the whole
+ * series (or for a one-off event); one with occurrenceDate set overrides it
+ * for that single occurrence.
+ */
+
+interface RecurringEventLike {
+  startTime: Date
+  recurrenceRule: string | null
+  recurrenceEndDate: Date | null
+}
+
+interface RSVPLike {
+  userId: string
+  status: string
+  occurrenceDate: Date | null
+}
+
+/**
+ * Occurrence start times of an event within a range (inclusive). A one-off
+ * event has a single occurrence at its start time.
+ */
+export function getOccurrences(
+  event: RecurringEventLike,
+  rangeStart: Date,
+  rangeEnd: Date
+): Date[] {
+  if (!event.recurrenceRule) {
+    return event.startTime >= rangeStart && event.startTime <= rangeEnd ? [event.startTime] : []
+  }
+
+  try {
+    const rule = RRule.fromString(event.recurrenceRule)
+    const rrule = new RRule({ ...rule.options, dtstart: event.startTime })
+    const until = event.recurrenceEndDate && event.recurrenceEndDate < rangeEnd
+      ? event.recurrenceEndDate
+      : rangeEnd
+    return rrule.between(rangeStart, until, true)
+  } catch (e) {
+    console.error('Failed to parse recurrence rule:', e)
+    return event.startTime >= rangeStart && event.startTime <= rangeEnd ? [event.startTime] : []
+  }
+}
+
+/**
+ * The next occurrences after a time, skipping cancelled dates
+ */
+export function getUpcomingOccurrences(
+  event: RecurringEventLike,
+  after: Date,
+  options: { count: number; withinDays?: number; cancelledDates?: Date[] }
+): Date[] {
+  const cancelled = new Set((options.cancelledDates ?? []).map(d => d.getTime()))
+  // Weekly rules need a few months to yield a handful of dates; cap the scan at a year
+  const days = options.withinDays ?? 366
+  const rangeEnd = new Date(after.getTime() + days * 24 * 60 * 60 * 1000)
+
+  return getOccurrences(event, after, rangeEnd)
+    .filter(date => date > after && !cancelled.has(date.getTime()))
+    .slice(0, options.count)
+}
+
+/**
+ * Whether a date is an actual occurrence of a recurring event
+ */
+export function isOccurrence(event: RecurringEventLike, date: Date): boolean {
+  return getOccurrences(event, date, date).some(d => d.getTime() === date.getTime())
+}
+
+/**
+ * A member's effective RSVP for an occurrence: the override for that date,
+ * else their series default
+ */
+export function resolveRSVP<T extends RSVPLike>(
+  rsvps: T[],
+  userId: string,
+  occurrenceDate: Date | null
+): T | null {
+  const own = rsvps.filter(r => r.userId === userId)
+  if (occurrenceDate) {
+    const override = own.find(r => r.occurrenceDate?.getTime() === occurrenceDate.getTime())
+    if (override) return override
+  }
+  return own.find(r => r.occurrenceDate === null) ?? null
+}
+
+/**
+ * Every member's effective RSVP for an occurrence (series defaults when
+ * occurrenceDate is null)
+ */
+export function effectiveRSVPs<T extends RSVPLike>(rsvps: T[], occurrenceDate: Date | null): T[] {
+  const userIds = [...new Set(rsvps.map(r => r.userId))]
+  return userIds
+    .map(userId => resolveRSVP(rsvps, userId, occurrenceDate))
+    .filter((r): r is T => r !== null)
+}
+
+/**
+ * Headcount by status
+ */
+export function countRSVPs(rsvps: RSVPLike[]): { going: number; notGoing: number; maybe: number } {
+  return {
+    going: rsvps.filter(r => r.status === 'GOING').length,
+    notGoing: rsvps.filter(r => r.status === 'NOT_GOING').length,
+    maybe: rsvps.filter(r => r.status === 'MAYBE').length,
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Lenient iCalendar (RFC 5545) reader for importing events exported by
+ * Google Calendar, Apple Calendar and Outlook. Only VEVENTs are read; times
+ * are resolved to UTC using the IANA zone named by TZID (embedded VTIMEZONE
+ * definitions are not interpreted).
+ */
+
+export interface ParsedICalEvent {
+  uid: string
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  start: Date
+  end: Date
+  allDay: boolean
+  // IANA zone the event was scheduled in, when known
+  timezone?: string
+  rrule?: string
+  exdates: Date[]
+  // Set on an override of one occurrence of a recurring event
+  recurrenceId?: Date
+  cancelled: boolean
+}
+
+export interface ParsedICalendar {
+  name?: string
+  events: ParsedICalEvent[]
+  warnings: string[]
+}
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+// Outlook writes Windows zone names; map the common ones to IANA
+const WINDOWS_ZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Used when an event has neither DTEND nor DURATION
+const DEFAULT_DURATION_MS = 60 * 60 * 1000
+
+/**
+ * Resolve a TZID to an IANA zone the runtime understands, or null
+ */
+export function resolveTimezone(tzid: string | undefined): string | null {
+  if (!tzid) return null
+  // Some exporters prefix zones with a vendor path, e.g. "/mozilla.org/.../Europe/Paris"
+  const candidates = [
+    WINDOWS_ZONES[tzid],
+    tzid,
+    tzid.split('/').slice(-2).join('/'),
+  ].filter(Boolean) as string[]
+
+  for (const candidate of candidates) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: candidate })
+      return candidate
+    } catch {
+      // Not a zone this runtime knows
+    }
+  }
+  return null
+}
+
+/**
+ * Offset of a zone from UTC at the given instant, in milliseconds
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * Convert a wall-clock time in a zone to a UTC Date
+ */
+function zonedTimeToUtc(wallClock: number, timeZone: string): Date {
+  let instant = wallClock - zoneOffset(wallClock, timeZone)
+  // Re-check once in case the guess crossed a DST transition
+  instant = wallClock - zoneOffset(instant, timeZone)
+  return new Date(instant)
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char)
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') inQuotes = !inQuotes
+    else if (char === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const eq = param.indexOf('=')
+    if (eq === -1) continue
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. Floating times use the fallback zone.
+ */
+function parseDateValue(
+  line: ContentLine,
+  value: string,
+  fallbackZone: string | null
+): { date: Date; allDay: boolean; timezone?: string } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const wallClock = Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0)
+  )
+
+  if (hour === undefined || line.params.VALUE === 'DATE') {
+    return { date: new Date(wallClock), allDay: true }
+  }
+  if (utc) {
+    return { date: new Date(wallClock), allDay: false }
+  }
+
+  const timezone = resolveTimezone(line.params.TZID) ?? fallbackZone
+  if (!timezone) {
+    return { date: new Date(wallClock), allDay: false }
+  }
+  return { date: zonedTimeToUtc(wallClock, timezone), allDay: false, timezone }
+}
+
+/**
+ * Parse an ISO 8601 duration such as PT1H30M or P1D, in milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const ms = (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * DAY_MS
+    + Number(hours ?? 0) * 60 * 60 * 1000
+    + Number(minutes ?? 0) * 60 * 1000
+    + Number(seconds ?? 0) * 1000
+  return sign === '-' ? -ms : ms
+}
+
+function readEvent(
+  lines: ContentLine[],
+  fallbackZone: string | null,
+  warnings: string[]
+): ParsedICalEvent | null {
+  const props = new Map<string, ContentLine>()
+  const exdates: Date[] = []
+
+  for (const line of lines) {
+    if (line.name === 'EXDATE') {
+      for (const value of line.value.split(',')) {
+        const parsed = parseDateValue(line, value, fallbackZone)
+        if (parsed) exdates.push(parsed.date)
+      }
+    } else if (!props.has(line.name)) {
+      props.set(line.name, line)
+    }
+  }
+
+  const text = (name: string) => {
+    const line = props.get(name)
+    const value = line ? unescapeText(line.value).trim() : ''
+    return value || undefined
+  }
+
+  const summary = text('SUMMARY') ?? 'Untitled event'
+  const dtstart = props.get('DTSTART')
+  const start = dtstart && parseDateValue(dtstart, dtstart.value, fallbackZone)
+  if (!start) {
+    warnings.push(`Skipped "${summary}": missing or unreadable start time`)
+    return null
+  }
+
+  let end: Date | undefined
+  const dtend = props.get('DTEND')
+  const parsedEnd = dtend && parseDateValue(dtend, dtend.value, fallbackZone)
+  if (parsedEnd) {
+    end = parsedEnd.date
+  } else if (props.has('DURATION')) {
+    const duration = parseDuration(props.get('DURATION')!.value)
+    if (duration !== null) end = new Date(start.date.getTime() + duration)
+  }
+  if (!end || end <= start.date) {
+    end = new Date(start.date.getTime() + (start.allDay ? DAY_MS : DEFAULT_DURATION_MS))
+  }
+
+  const recurrenceIdLine = props.get('RECURRENCE-ID')
+  const recurrenceId = recurrenceIdLine
+    && parseDateValue(recurrenceIdLine, recurrenceIdLine.value, fallbackZone)
+
+  return {
+    // Events without a UID can't be matched on re-import; derive a stable one
+    uid: text('UID') ?? `${start.date.toISOString()}-${summary}`,
+    summary,
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    url: props.get('URL')?.value.trim() || undefined,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    timezone: start.timezone,
+    rrule: props.get('RRULE')?.value.trim() || undefined,
+    exdates,
+    recurrenceId: recurrenceId ? recurrenceId.date : undefined,
+    cancelled: props.get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+  }
+}
+
+/**
+ * Parse the VEVENTs of an .ics document
+ */
+export function parseICalendar(content: string): ParsedICalendar {
+  // Unfold continuation lines (RFC 5545 section 3.1)
+  const rawLines = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+
+  if (!rawLines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file (no BEGIN:VCALENDAR)')
+  }
+
+  const warnings: string[] = []
+  const calendarProps = new Map<string, string>()
+  const eventBlocks: ContentLine[][] = []
+
+  // Component nesting, e.g. ['VCALENDAR', 'VEVENT', 'VALARM']
+  const stack: string[] = []
+  let current: ContentLine[] | null = null
+
+  for (const raw of rawLines) {
+    if (!raw.trim()) continue
+    const line = parseContentLine(raw)
+    if (!line) continue
+
+    if (line.name === 'BEGIN') {
+      const component = line.value.trim().toUpperCase()
+      stack.push(component)
+      if (component === 'VEVENT' && stack.length === 2) current = []
+      continue
+    }
+    if (line.name === 'END') {
+      const component = stack.pop()
+      if (component === 'VEVENT' && current) {
+        eventBlocks.push(current)
+        current = null
+      }
+      continue
+    }
+
+    // Only the event's own properties, not those of nested alarms
+    if (current && stack.length === 2) {
+      current.push(line)
+    } else if (stack.length === 1 && !calendarProps.has(line.name)) {
+      calendarProps.set(line.name, line.value)
+    }
+  }
+
+  const fallbackZone = resolveTimezone(calendarProps.get('X-WR-TIMEZONE'))
+  const events = eventBlocks
+    .map(block => readEvent(block, fallbackZone, warnings))
+    .filter((event): event is ParsedICalEvent => event !== null)
+
+  const name = calendarProps.get('X-WR-CALNAME')
+  return {
+    name: name ? unescapeText(name).trim() : undefined,
+    events,
+    warnings,
+  }
+}
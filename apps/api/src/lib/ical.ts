@@ -0,0 +1,203 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for the subscribable calendar feeds.
+ * All times are written in UTC, matching how event recurrences are
+ * expanded elsewhere in the app.
+ */
+
+const PRODID = '-//Band IT//Calendar Feed//EN'
+
+// Lines longer than this many octets are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75
+
+export interface ICalEvent {
+  uid: string
+  start: Date
+  end?: Date
+  allDay?: boolean
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string
+  status?: 'CONFIRMED' | 'CANCELLED'
+  rrule?: string
+  exdates?: Date[]
+  // Set on an override of one occurrence of a recurring event
+  recurrenceId?: Date
+  lastModified?: Date
+  categories?: string[]
+}
+
+export interface ICalTodo {
+  uid: string
+  due: Date
+  summary: string
+  description?: string | null
+  url?: string
+  priority?: string
+  categories?: string[]
+}
+
+/**
+ * UTC date-time, e.g. 20261019T183000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Calendar date for all-day entries, e.g. 20261019
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into 75-octet chunks, never splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line
+
+  const chunks: string[] = []
+  let current = ''
+  let currentOctets = 0
+  // Continuation lines start with a space, which counts toward their length
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf8')
+    if (currentOctets + octets > limit) {
+      chunks.push(current)
+      current = ''
+      currentOctets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    currentOctets += octets
+  }
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+/**
+ * Normalize a stored RRULE ("RRULE:FREQ=..." or "FREQ=...", possibly with a
+ * DTSTART line) to its rule part, adding UNTIL from the series end date when
+ * the rule has no end of its own
+ */
+export function normalizeRRule(rule: string, until?: Date | null): string {
+  const ruleLine = rule
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .find(line => line && !line.startsWith('DTSTART')) ?? ''
+  let value = ruleLine.replace(/^RRULE:/, '')
+
+  if (until && !/(^|;)(UNTIL|COUNT)=/.test(value)) {
+    value += `;UNTIL=${formatDateTime(until)}`
+  }
+  return value
+}
+
+function eventLines(event: ICalEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+  ]
+
+  if (event.allDay) {
+    const end = new Date(event.start.getTime() + 24 * 60 * 60 * 1000)
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`)
+    lines.push(`DTEND;VALUE=DATE:${formatDate(event.end ?? end)}`)
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start)}`)
+    lines.push(`DTEND:${formatDateTime(event.end ?? event.start)}`)
+  }
+
+  if (event.recurrenceId) lines.push(`RECURRENCE-ID:${formatDateTime(event.recurrenceId)}`)
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`)
+  if (event.exdates && event.exdates.length > 0) {
+    lines.push(`EXDATE:${event.exdates.map(formatDateTime).join(',')}`)
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+  if (event.status) lines.push(`STATUS:${event.status}`)
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`)
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+// iCalendar priority: 1 is highest, 9 lowest
+const TODO_PRIORITY: Record<string, number> = {
+  URGENT: 1,
+  HIGH: 3,
+  MEDIUM: 5,
+  LOW: 9,
+}
+
+function todoLines(todo: ICalTodo, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${todo.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DUE;VALUE=DATE:${formatDate(todo.due)}`,
+    `SUMMARY:${escapeText(todo.summary)}`,
+  ]
+
+  if (todo.description) lines.push(`DESCRIPTION:${escapeText(todo.description)}`)
+  if (todo.url) lines.push(`URL:${todo.url}`)
+  if (todo.priority && TODO_PRIORITY[todo.priority]) lines.push(`PRIORITY:${TODO_PRIORITY[todo.priority]}`)
+  if (todo.categories?.length) lines.push(`CATEGORIES:${todo.categories.map(escapeText).join(',')}`)
+  lines.push('STATUS:NEEDS-ACTION')
+
+  lines.push('END:VTODO')
+  return lines
+}
+
+/**
+ * Serialize a complete VCALENDAR
+ */
+export function buildCalendar(options: {
+  name: string
+  description?: string
+  events: ICalEvent[]
+  todos?: ICalTodo[]
+  // How often subscribers should re-fetch, in hours
+  refreshHours?: number
+}): string {
+  const stamp = formatDateTime(new Date())
+  const refresh = options.refreshHours ?? 1
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}H`,
+    `X-PUBLISHED-TTL:PT${refresh}H`,
+  ]
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`)
+
+  for (const event of options.events) lines.push(...eventLines(event, stamp))
+  for (const todo of options.todos ?? []) lines.push(...todoLines(todo, stamp))
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,199 @@
+import { VotingMethod } from '@prisma/client'
+import { MULTI_OPTION_SCORE_MAX } from '@band-it/shared'
+
+export const MULTI_OPTION_METHODS = ['RANKED_CHOICE', 'APPROVAL', 'SCORE'] as const
+
+export type MultiOptionMethod = typeof MULTI_OPTION_METHODS[number]
+
+export interface ProposalOption {
+  id: string
+  label: string
+  description?: string | null
+}
+
+/** Stored on Vote.ballot - only the field matching the proposal's method is set */
+export interface MultiOptionBallot {
+  rankings?: string[]
+  approvals?: string[]
+  scores?: Record<string, number>
+}
+
+export interface TallyRound {
+  round: number
+  counts: Record<string, number>
+  eliminated: string[]
+  exhausted: number // Ranked ballots with no continuing option left
+}
+
+/** Stored on Proposal.tallyResult when the proposal closes */
+export interface MultiOptionTally {
+  method: MultiOptionMethod
+  rounds: TallyRound[]
+  winnerOptionId: string | null
+  tiedOptionIds: string[]
+  ballotsCounted: number
+}
+
+export function isMultiOptionMethod(method: VotingMethod | null | undefined): method is MultiOptionMethod {
+  return !!method && (MULTI_OPTION_METHODS as readonly string[]).includes(method)
+}
+
+export function parseProposalOptions(options: unknown): ProposalOption[] {
+  return Array.isArray(options) ? (options as ProposalOption[]) : []
+}
+
+/**
+ * Validate a ballot against the proposal's options.
+ * Throws with a user-facing message if the ballot is malformed.
+ * An empty ballot is allowed and is recorded as an abstention.
+ */
+export function validateBallot(
+  method: MultiOptionMethod,
+  options: ProposalOption[],
+  ballot: MultiOptionBallot
+): void {
+  const optionIds = new Set(options.map(o => o.id))
+
+  const checkIds = (ids: string[]) => {
+    if (ids.some(id => !optionIds.has(id))) {
+      throw new Error('Ballot references an option that is not on this proposal')
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new Error('Each option can only appear once on a ballot')
+    }
+  }
+
+  switch (method) {
+    case 'RANKED_CHOICE':
+      checkIds(ballot.rankings ?? [])
+      break
+    case 'APPROVAL':
+      checkIds(ballot.approvals ?? [])
+      break
+    case 'SCORE': {
+      const scores = ballot.scores ?? {}
+      checkIds(Object.keys(scores))
+      for (const score of Object.values(scores)) {
+        if (!Number.isInteger(score) || score < 0 || score > MULTI_OPTION_SCORE_MAX) {
+          throw new Error(`Scores must be whole numbers from 0 to ${MULTI_OPTION_SCORE_MAX}`)
+        }
+      }
+      break
+    }
+  }
+}
+
+/**
+ * Whether a ballot expresses any preference (used to record YES vs ABSTAIN on the vote row)
+ */
+export function isEmptyBallot(method: MultiOptionMethod, ballot: MultiOptionBallot): boolean {
+  switch (method) {
+    case 'RANKED_CHOICE':
+      return !ballot.rankings?.length
+    case 'APPROVAL':
+      return !ballot.approvals?.length
+    case 'SCORE':
+      return !Object.values(ballot.scores ?? {}).some(score => score > 0)
+  }
+}
+
+/**
+ * Tally multi-option ballots.
+ * RANKED_CHOICE runs instant-runoff rounds; APPROVAL and SCORE are a single round.
+ * A tie for first place produces no winner.
+ */
+export function tallyMultiOption(
+  method: MultiOptionMethod,
+  options: ProposalOption[],
+  ballots: MultiOptionBallot[]
+): MultiOptionTally {
+  const nonEmpty = ballots.filter(b => !isEmptyBallot(method, b))
+
+  if (method === 'RANKED_CHOICE') {
+    return tallyInstantRunoff(options, nonEmpty)
+  }
+
+  const counts = emptyCounts(options.map(o => o.id))
+  for (const ballot of nonEmpty) {
+    if (method === 'APPROVAL') {
+      for (const id of ballot.approvals ?? []) {
+        if (id in counts) counts[id]++
+      }
+    } else {
+      for (const [id, score] of Object.entries(ballot.scores ?? {})) {
+        if (id in counts) counts[id] += score
+      }
+    }
+  }
+
+  const leaders = topOptions(counts)
+  const hasWinner = leaders.length === 1 && counts[leaders[0]] > 0
+
+  return {
+    method,
+    rounds: [{ round: 1, counts, eliminated: [], exhausted: 0 }],
+    winnerOptionId: hasWinner ? leaders[0] : null,
+    tiedOptionIds: leaders.length > 1 && counts[leaders[0]] > 0 ? leaders : [],
+    ballotsCounted: nonEmpty.length,
+  }
+}
+
+function tallyInstantRunoff(options: ProposalOption[], ballots: MultiOptionBallot[]): MultiOptionTally {
+  const rounds: TallyRound[] = []
+  let continuing = options.map(o => o.id)
+
+  while (continuing.length > 0) {
+    const counts = emptyCounts(continuing)
+    let exhausted = 0
+
+    for (const ballot of ballots) {
+      const choice = (ballot.rankings ?? []).find(id => continuing.includes(id))
+      if (choice) {
+        counts[choice]++
+      } else {
+        exhausted++
+      }
+    }
+
+    const active = ballots.length - exhausted
+    const leaders = topOptions(counts)
+    const round: TallyRound = { round: rounds.length + 1, counts, eliminated: [], exhausted }
+    rounds.push(round)
+
+    // Majority of continuing ballots, or last option standing
+    if (active > 0 && (counts[leaders[0]] * 2 > active || continuing.length === 1)) {
+      return result(leaders[0], [])
+    }
+
+    // Everyone left is tied - no further elimination possible
+    const lowest = Math.min(...continuing.map(id => counts[id]))
+    const trailing = continuing.filter(id => counts[id] === lowest)
+    if (active === 0 || trailing.length === continuing.length) {
+      return result(null, active > 0 ? continuing : [])
+    }
+
+    round.eliminated = trailing
+    continuing = continuing.filter(id => !trailing.includes(id))
+  }
+
+  return result(null, [])
+
+  function result(winnerOptionId: string | null, tiedOptionIds: string[]): MultiOptionTally {
+    return {
+      method: 'RANKED_CHOICE',
+      rounds,
+      winnerOptionId,
+      tiedOptionIds,
+      ballotsCounted: ballots.length,
+    }
+  }
+}
+
+function emptyCounts(ids: string[]): Record<string, number> {
+  return Object.fromEntries(ids.map(id => [id, 0]))
+}
+
+function topOptions(counts: Record<string, number>): string[] {
+  const max = Math.max(...Object.values(counts))
+  return Object.keys(counts).filter(id => counts[id] === max)
+}
@@ -0,0 +1,270 @@
+import { NotificationType } from '@prisma/client'
+
+/**
+ * Notification Catalog
+ *
+ * Groups every NotificationType for the preferences screen and sets which
+ * delivery channels each type uses until the user says otherwise. The
+ * Record types make the compiler flag any NotificationType left out.
+ */
+
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'push', 'sms'] as const
+export type NotificationChannelId = typeof NOTIFICATION_CHANNELS[number]
+
+export const CHANNEL_LABELS: Record<NotificationChannelId, string> = {
+  inApp: 'In-app',
+  email: 'Email',
+  push: 'Push',
+  sms: 'SMS',
+}
+
+export type ChannelDefaults = Record<NotificationChannelId, boolean>
+
+export type NotificationGroupId =
+  | 'invitations'
+  | 'membership'
+  | 'proposals'
+  | 'tasks'
+  | 'checklists'
+  | 'reimbursements'
+  | 'payments'
+  | 'donations'
+  | 'billing'
+  | 'events'
+  | 'discussions'
+  | 'messages'
+  | 'talkItOut'
+  | 'account'
+
+interface NotificationGroup {
+  label: string
+  description: string
+  defaults: ChannelDefaults
+}
+
+// SMS is opt-in everywhere; per-notification email mostly is too, since the
+// daily digest already covers what's waiting
+export const NOTIFICATION_GROUPS: Record<NotificationGroupId, NotificationGroup> = {
+  invitations: {
+    label: 'Invitations & Applications',
+    description: 'Band invites and membership applications',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  membership: {
+    label: 'Membership & Band Updates',
+    description: 'Members joining or leaving, band status and onboarding',
+    defaults: { inApp: true, email: false, push: false, sms: false },
+  },
+  proposals: {
+    label: 'Proposals & Voting',
+    description: 'New proposals, votes needed and results',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  tasks: {
+    label: 'Projects & Tasks',
+    description: 'Assignments, status changes and verification',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  checklists: {
+    label: 'Checklists',
+    description: 'Checklist items you claimed or need to verify',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  reimbursements: {
+    label: 'Reimbursements',
+    description: 'Expense reimbursements and confirmations',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  payments: {
+    label: 'Dues & Manual Payments',
+    description: 'Payments recorded, confirmed or disputed',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  donations: {
+    label: 'Donations',
+    description: 'Donations received, due and confirmed',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  billing: {
+    label: 'Band Billing',
+    description: 'Subscription payments for bands you manage billing for',
+    defaults: { inApp: true, email: true, push: true, sms: false },
+  },
+  events: {
+    label: 'Events',
+    description: 'New, changed and upcoming events',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  discussions: {
+    label: 'Posts & Comments',
+    description: 'Replies, mentions and new posts',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  messages: {
+    label: 'Direct Messages',
+    description: 'Messages in your conversations',
+    defaults: { inApp: true, email: true, push: true, sms: false },
+  },
+  talkItOut: {
+    label: 'Talk It Out',
+    description: 'Facilitated conversations you are part of',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+  account: {
+    label: 'Account & Moderation',
+    description: 'Warnings and account status',
+    defaults: { inApp: true, email: false, push: true, sms: false },
+  },
+}
+
+interface NotificationTypeInfo {
+  group: NotificationGroupId
+  label: string
+  // Overrides the group's defaults for this type
+  defaults?: Partial<ChannelDefaults>
+}
+
+export const NOTIFICATION_TYPES: Record<NotificationType, NotificationTypeInfo> = {
+  // Invitations & applications
+  BAND_INVITE_RECEIVED: { group: 'invitations', label: 'You are invited to a band' },
+  BAND_INVITE_ACCEPTED: { group: 'invitations', label: 'Your invite was accepted' },
+  BAND_INVITE_DECLINED: { group: 'invitations', label: 'Your invite was declined' },
+  BAND_APPLICATION_RECEIVED: { group: 'invitations', label: 'New membership application' },
+  BAND_APPLICATION_APPROVED: { group: 'invitations', label: 'Your application was approved' },
+  BAND_APPLICATION_REJECTED: { group: 'invitations', label: 'Your application was declined' },
+  APPLICATION_VOTE_CAST: { group: 'invitations', label: 'Vote cast on an application', defaults: { push: false } },
+  APPLICATION_QUORUM_NOT_MET: { group: 'invitations', label: 'Application vote missed quorum' },
+  MEMBER_APPLIED: { group: 'invitations', label: 'Application from the public website' },
+
+  // Membership & band updates
+  BAND_MEMBER_JOINED: { group: 'membership', label: 'Member joined' },
+  BAND_MEMBER_LEFT: { group: 'membership', label: 'Member left' },
+  BAND_STATUS_CHANGED: { group: 'membership', label: 'Band or role status changed', defaults: { push: true } },
+  BAND_DISSOLVED: { group: 'membership', label: 'Band dissolved', defaults: { push: true } },
+  BAND_DETAILS_UPDATED: { group: 'membership', label: 'Band details updated' },
+  PARTICIPATION_FLAGGED: { group: 'membership', label: 'Participation below minimum', defaults: { push: true } },
+  PARTICIPATION_DEMOTED: { group: 'membership', label: 'Moved to observer for inactivity', defaults: { push: true } },
+  ONBOARDING_MILESTONE_COMPLETED: { group: 'membership', label: 'Onboarding milestone completed' },
+  ONBOARDING_COMPLETED: { group: 'membership', label: 'Onboarding completed' },
+  CONTACT_FORM_SUBMITTED: { group: 'membership', label: 'Contact form submission' },
+
+  // Proposals
+  PROPOSAL_CREATED: { group: 'proposals', label: 'New proposal', defaults: { push: false } },
+  PROPOSAL_VOTE_NEEDED: { group: 'proposals', label: 'Your vote is needed' },
+  PROPOSAL_APPROVED: { group: 'proposals', label: 'Proposal approved' },
+  PROPOSAL_REJECTED: { group: 'proposals', label: 'Proposal rejected' },
+  PROPOSAL_CLOSED: { group: 'proposals', label: 'Proposal closed' },
+  PROPOSAL_EDITED: { group: 'proposals', label: 'Proposal edited' },
+  PROPOSAL_VOTES_RESET: { group: 'proposals', label: 'Votes reset after an edit' },
+
+  // Projects & tasks
+  PROJECT_CREATED: { group: 'tasks', label: 'New project', defaults: { push: false } },
+  PROJECT_STATUS_CHANGED: { group: 'tasks', label: 'Project status changed', defaults: { push: false } },
+  TASK_CREATED: { group: 'tasks', label: 'New task', defaults: { push: false } },
+  TASK_ASSIGNED: { group: 'tasks', label: 'Task assigned to you' },
+  TASK_CLAIMED: { group: 'tasks', label: 'Task claimed' },
+  TASK_UNCLAIMED: { group: 'tasks', label: 'Task unclaimed' },
+  TASK_STATUS_CHANGED: { group: 'tasks', label: 'Task status changed', defaults: { push: false } },
+  TASK_COMPLETED: { group: 'tasks', label: 'Task completed' },
+  TASK_VERIFICATION_NEEDED: { group: 'tasks', label: 'Task needs your verification' },
+  TASK_VERIFIED: { group: 'tasks', label: 'Your task was approved' },
+  TASK_REJECTED: { group: 'tasks', label: 'Your task needs revision' },
+  TASK_REMINDER: { group: 'tasks', label: 'Task verification reminder' },
+  TASK_ESCALATED: { group: 'tasks', label: 'Task escalated' },
+
+  // Checklists
+  CHECKLIST_CLAIMED: { group: 'checklists', label: 'Checklist item claimed' },
+  CHECKLIST_UNCLAIMED: { group: 'checklists', label: 'Checklist item unclaimed' },
+  CHECKLIST_COMPLETED: { group: 'checklists', label: 'Checklist item completed' },
+  CHECKLIST_VERIFICATION_NEEDED: { group: 'checklists', label: 'Checklist item needs verification' },
+  CHECKLIST_VERIFIED: { group: 'checklists', label: 'Your checklist item was approved' },
+  CHECKLIST_REJECTED: { group: 'checklists', label: 'Your checklist item needs revision' },
+  CHECKLIST_REMINDER: { group: 'checklists', label: 'Checklist verification reminder' },
+  CHECKLIST_ESCALATED: { group: 'checklists', label: 'Checklist item escalated' },
+  CHECKLIST_ALL_DISMISSED: { group: 'checklists', label: 'Everyone dismissed a checklist item' },
+
+  // Reimbursements
+  REIMBURSEMENT_NEEDED: { group: 'reimbursements', label: 'Reimbursement to pay' },
+  REIMBURSEMENT_SENT: { group: 'reimbursements', label: 'Reimbursement sent to you' },
+  REIMBURSEMENT_CONFIRMED: { group: 'reimbursements', label: 'Reimbursement confirmed' },
+  REIMBURSEMENT_DISPUTED: { group: 'reimbursements', label: 'Reimbursement disputed' },
+  REIMBURSEMENT_AUTO_CONFIRM_WARNING: { group: 'reimbursements', label: 'Reimbursement about to auto-confirm' },
+  REIMBURSEMENT_AUTO_CONFIRMED: { group: 'reimbursements', label: 'Reimbursement auto-confirmed' },
+
+  // Dues & manual payments
+  MANUAL_PAYMENT_RECORDED: { group: 'payments', label: 'Payment recorded' },
+  MANUAL_PAYMENT_CONFIRMED: { group: 'payments', label: 'Payment confirmed' },
+  MANUAL_PAYMENT_DISPUTED: { group: 'payments', label: 'Payment disputed' },
+  MANUAL_PAYMENT_RESOLVED: { group: 'payments', label: 'Payment dispute resolved' },
+  MANUAL_PAYMENT_AUTO_CONFIRM_WARNING: { group: 'payments', label: 'Payment about to auto-confirm' },
+
+  // Donations
+  DONATION_RECEIVED: { group: 'donations', label: 'Donation received' },
+  DONATION_CONFIRMED: { group: 'donations', label: 'Your donation was confirmed' },
+  DONATION_REJECTED: { group: 'donations', label: 'Your donation was rejected' },
+  DONATION_DUE: { group: 'donations', label: 'Recurring donation due soon' },
+  DONATION_OVERDUE: { group: 'donations', label: 'Recurring donation overdue' },
+  DONATION_MISSED: { group: 'donations', label: 'Recurring donation missed' },
+  RECURRING_DONATION_CANCELLED: { group: 'donations', label: 'Recurring donation cancelled' },
+  RECURRING_DONATION_AUTO_CANCELLED: { group: 'donations', label: 'Recurring donation auto-cancelled' },
+
+  // Band billing
+  BILLING_PAYMENT_REQUIRED: { group: 'billing', label: 'Payment required' },
+  BILLING_PAYMENT_SUCCEEDED: { group: 'billing', label: 'Payment succeeded', defaults: { email: false, push: false } },
+  BILLING_PAYMENT_FAILED: { group: 'billing', label: 'Payment failed' },
+  BILLING_GRACE_PERIOD_WARNING: { group: 'billing', label: 'Grace period ending' },
+  BILLING_BAND_DEACTIVATED: { group: 'billing', label: 'Band deactivated for non-payment' },
+  BILLING_OWNER_LEFT: { group: 'billing', label: 'Billing owner left' },
+  BILLING_OWNER_CLAIMED: { group: 'billing', label: 'Billing ownership claimed', defaults: { email: false } },
+  BILLING_SUBSCRIPTION_UPGRADED: { group: 'billing', label: 'Subscription upgraded', defaults: { email: false, push: false } },
+  BILLING_SUBSCRIPTION_DOWNGRADED: { group: 'billing', label: 'Subscription downgraded', defaults: { email: false, push: false } },
+
+  // Events
+  EVENT_CREATED: { group: 'events', label: 'New event', defaults: { push: false } },
+  EVENT_UPDATED: { group: 'events', label: 'Event changed' },
+  EVENT_CANCELLED: { group: 'events', label: 'Event cancelled' },
+  EVENT_REMINDER: { group: 'events', label: 'Event reminder' },
+  EVENT_RSVP_RECEIVED: { group: 'events', label: 'RSVP to your event', defaults: { push: false } },
+  EVENT_ATTENDANCE_MARKED: { group: 'events', label: 'Attendance recorded', defaults: { push: false } },
+
+  // Posts & comments
+  POST_CREATED: { group: 'discussions', label: 'New post', defaults: { push: false } },
+  POST_RESPONSE_RECEIVED: { group: 'discussions', label: 'Response to your post' },
+  POST_MENTIONED: { group: 'discussions', label: 'You were mentioned' },
+  MESSAGE_REPLY_RECEIVED: { group: 'discussions', label: 'Reply to your discussion message' },
+  COMMENT_REPLY_RECEIVED: { group: 'discussions', label: 'Reply to your comment' },
+
+  // Direct messages
+  DIRECT_MESSAGE_RECEIVED: { group: 'messages', label: 'New direct message' },
+
+  // Talk It Out
+  TALK_IT_OUT_INVITED: { group: 'talkItOut', label: 'Invited to Talk It Out' },
+  TALK_IT_OUT_STARTED: { group: 'talkItOut', label: 'Talk It Out started' },
+  TALK_IT_OUT_FACILITATOR_PROMPT: { group: 'talkItOut', label: 'Facilitator prompt' },
+  TALK_IT_OUT_CLOSED: { group: 'talkItOut', label: 'Talk It Out closed' },
+
+  // Account & moderation
+  MODERATION_WARNING: { group: 'account', label: 'Warning received' },
+  MODERATION_SUSPENSION: { group: 'account', label: 'Account suspended' },
+  MODERATION_BAN: { group: 'account', label: 'Account banned' },
+}
+
+/**
+ * The channels a type uses when the user hasn't chosen
+ */
+export function getChannelDefaults(type: NotificationType): ChannelDefaults {
+  const info = NOTIFICATION_TYPES[type]
+  return { ...NOTIFICATION_GROUPS[info.group].defaults, ...info.defaults }
+}
+
+/**
+ * Groups in display order, each with its types
+ */
+export function getNotificationGroups() {
+  return (Object.keys(NOTIFICATION_GROUPS) as NotificationGroupId[]).map(id => ({
+    id,
+    ...NOTIFICATION_GROUPS[id],
+    types: (Object.keys(NOTIFICATION_TYPES) as NotificationType[])
+      .filter(type => NOTIFICATION_TYPES[type].group === id),
+  }))
+}
@@ -39,6 +39,7 @@ export async function getBandMilestoneData(bandId: string): Promise<BandMileston
         take: 1,
       },
       channels: {
+        where: { kind: 'BAND' },
         select: {
           _count: {
             select: { messages: true },
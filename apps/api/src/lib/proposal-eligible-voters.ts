@@ -3,25 +3,39 @@ import { prisma } from './prisma'
 /** Roles that may vote on ordinary proposals */
 const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER'] as const
 
+/** ADD_FOUNDER: only founders may vote */
+function eligibleVoterWhere(bandId: string, proposalType: string) {
+  if (proposalType === 'ADD_FOUNDER') {
+    return { bandId, status: 'ACTIVE' as const, role: 'FOUNDER' as const }
+  }
+  return { bandId, status: 'ACTIVE' as const, role: { in: [...CAN_VOTE] as any } }
+}
+
 /**
  * Eligible voter count for quorum / early-close "all voted" checks.
  * ADD_FOUNDER: only founders may vote, so denominator is active founders only.
+ * Members whose vote is cast by a delegate stay in the denominator and count
+ * as participating (see vote-delegation.ts).
  */
 export async function getEligibleVoterCountForProposal(
   bandId: string,
   proposalType: string
 ): Promise<number> {
-  if (proposalType === 'ADD_FOUNDER') {
-    return prisma.member.count({
-      where: { bandId, status: 'ACTIVE', role: 'FOUNDER' },
-    })
-  }
-
   return prisma.member.count({
-    where: {
-      bandId,
-      status: 'ACTIVE',
-      role: { in: [...CAN_VOTE] as any },
-    },
+    where: eligibleVoterWhere(bandId, proposalType),
+  })
+}
+
+/**
+ * User IDs of the members counted by getEligibleVoterCountForProposal
+ */
+export async function getEligibleVoterIdsForProposal(
+  bandId: string,
+  proposalType: string
+): Promise<string[]> {
+  const members = await prisma.member.findMany({
+    where: eligibleVoterWhere(bandId, proposalType),
+    select: { userId: true },
   })
+  return members.map(m => m.userId)
 }
@@ -0,0 +1,80 @@
+import { ProposalType, VoteType } from '@prisma/client'
+import { getEligibleVoterCountForProposal } from './proposal-eligible-voters'
+import { resolveDelegatedVotes, withDelegatedVotes } from './vote-delegation'
+
+/**
+ * Whether YES/NO counts pass under the band's voting method.
+ * Abstentions are left out of both counts.
+ */
+export function meetsVotingThreshold(votingMethod: string, yesVotes: number, noVotes: number): boolean {
+  const totalVotes = yesVotes + noVotes
+  if (totalVotes === 0) return false
+
+  const yesPercentage = (yesVotes / totalVotes) * 100
+
+  switch (votingMethod) {
+    case 'SIMPLE_MAJORITY':
+      return yesPercentage > 50
+    case 'SUPERMAJORITY_66':
+      return yesPercentage >= 66
+    case 'SUPERMAJORITY_75':
+      return yesPercentage >= 75
+    case 'UNANIMOUS':
+      return noVotes === 0 && yesVotes > 0
+    default:
+      return false
+  }
+}
+
+export interface VoteOutcome {
+  yes: number
+  no: number
+  abstain: number
+  total: number // Participants, direct or by delegation
+  delegated: number
+  eligibleVoters: number
+  participationPercentage: number
+  quorumMet: boolean
+  passes: boolean
+  yesShare: number // YES / (YES + NO), 0 when nobody took a side
+}
+
+/**
+ * Live YES/NO outcome of a set of votes under the band's method and quorum,
+ * counting delegated votes. Used for amendments and for comparing competing
+ * counter-proposals; closeProposal keeps its own type-specific rules.
+ */
+export async function evaluateYesNoVotes(
+  context: {
+    bandId: string
+    type: ProposalType
+    votingMethod: string
+    quorumPercentage: number
+  },
+  votes: { userId: string; vote: VoteType }[]
+): Promise<VoteOutcome> {
+  const delegated = await resolveDelegatedVotes(context, votes.map(v => v.userId))
+  const counted = withDelegatedVotes(votes, delegated)
+
+  const yes = counted.filter(v => v.vote === 'YES').length
+  const no = counted.filter(v => v.vote === 'NO').length
+  const abstain = counted.filter(v => v.vote === 'ABSTAIN').length
+  const total = counted.length
+
+  const eligibleVoters = await getEligibleVoterCountForProposal(context.bandId, context.type)
+  const participationPercentage = eligibleVoters > 0 ? (total / eligibleVoters) * 100 : 0
+  const quorumMet = participationPercentage >= context.quorumPercentage
+
+  return {
+    yes,
+    no,
+    abstain,
+    total,
+    delegated: delegated.length,
+    eligibleVoters,
+    participationPercentage,
+    quorumMet,
+    passes: quorumMet && meetsVotingThreshold(context.votingMethod, yes, no),
+    yesShare: yes + no > 0 ? yes / (yes + no) : 0,
+  }
+}
@@ -1,6 +1,7 @@
 import { prisma } from './prisma'
 import { addDays } from 'date-fns'
 import { MemberRole } from '@prisma/client'
+import { getUpcomingOccurrences, resolveRSVP } from './event-occurrences'
 
 // Roles that can vote
 export const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
@@ -140,14 +141,26 @@ export async function getQuickActionsForUser(
       take: limit,
     }),
 
-    // 3. Events needing RSVP - upcoming events (within 7 days) user hasn't RSVPed to
+    // 3. Events needing RSVP - upcoming events (within 7 days) user hasn't RSVPed to.
+    // Recurring series are narrowed to their next occurrence below
     prisma.event.findMany({
       where: {
-        startTime: {
-          gt: now,
-          lte: addDays(now, 7),
-        },
+        parentEventId: null,
         cancelledAt: null, // Exclude cancelled events
+        OR: [
+          {
+            recurrenceRule: null,
+            startTime: {
+              gt: now,
+              lte: addDays(now, 7),
+            },
+          },
+          {
+            recurrenceRule: { not: null },
+            startTime: { lte: addDays(now, 7) },
+            OR: [{ recurrenceEndDate: null }, { recurrenceEndDate: { gt: now } }],
+          },
+        ],
         band: {
           members: {
             some: {
@@ -156,15 +169,23 @@ export async function getQuickActionsForUser(
             },
           },
         },
+        // A series answer covers every occurrence
         rsvps: {
-          none: { userId },
+          none: { userId, occurrenceDate: null },
         },
       },
       include: {
         band: { select: { id: true, name: true, slug: true } },
+        rsvps: {
+          where: { userId },
+          select: { userId: true, status: true, occurrenceDate: true },
+        },
+        exceptions: {
+          where: { exceptionDate: { not: null } },
+          select: { exceptionDate: true, startTime: true, isCancelled: true },
+        },
       },
       orderBy: { startTime: 'asc' },
-      take: limit,
     }),
 
     // 4. Pending band invitations (Member records with INVITED status)
@@ -402,10 +423,31 @@ export async function getQuickActionsForUser(
     })
   }
 
-  // Process pending event RSVPs
-  for (const event of pendingEventRsvps) {
-    const eventDate = new Date(event.startTime)
+  // Process pending event RSVPs, each scoped to the event's next occurrence
+  const eventRsvpActions = pendingEventRsvps
+    .map(event => {
+      if (!event.recurrenceRule) {
+        return { event, eventDate: event.startTime, occurrenceDate: null as Date | null }
+      }
+
+      const [occurrenceDate] = getUpcomingOccurrences(event, now, {
+        count: 1,
+        withinDays: 7,
+        cancelledDates: event.exceptions.filter(e => e.isCancelled).map(e => e.exceptionDate!),
+      })
+      // Nothing this week, or already answered for this date
+      if (!occurrenceDate || resolveRSVP(event.rsvps, userId, occurrenceDate)) return null
+
+      const moved = event.exceptions.find(e => e.exceptionDate?.getTime() === occurrenceDate.getTime())
+      return { event, eventDate: moved?.startTime ?? occurrenceDate, occurrenceDate }
+    })
+    .filter((a): a is NonNullable<typeof a> => a !== null)
+    .sort((a, b) => a.eventDate.getTime() - b.eventDate.getTime())
+    .slice(0, limit)
+
+  for (const { event, eventDate, occurrenceDate } of eventRsvpActions) {
     const hoursUntil = (eventDate.getTime() - now.getTime()) / (1000 * 60 * 60)
+    const occurrenceQuery = occurrenceDate ? `?occurrence=${occurrenceDate.toISOString()}` : ''
 
     actions.push({
       type: 'EVENT_RSVP',
@@ -413,10 +455,12 @@ export async function getQuickActionsForUser(
       title: event.title,
       bandName: event.band.name,
       bandId: event.band.id,
-      url: `/bands/${event.band.slug}/calendar/${event.id}`,
+      url: `/bands/${event.band.slug}/calendar/${event.id}${occurrenceQuery}`,
       urgency: hoursUntil < 24 ? 'high' : hoursUntil < 48 ? 'medium' : 'low',
       meta: {
-        startTime: event.startTime,
+        startTime: eventDate,
+        occurrenceDate,
+        isRecurring: !!event.recurrenceRule,
         location: event.location,
         timeRemaining: formatTimeRemaining(eventDate),
       },
@@ -0,0 +1,48 @@
+// Used for users who haven't set a timezone, matching event defaults
+export const DEFAULT_TIMEZONE = 'America/New_York'
+
+/**
+ * Whether the runtime knows an IANA zone name
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Minutes since local midnight in the given zone
+ */
+export function minutesIntoDay(timeZone: string, now = new Date()): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(now)
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value)
+  return get('hour') * 60 + get('minute')
+}
+
+/**
+ * Whether `now` falls in the user's quiet hours. Start and end are minutes
+ * after local midnight; a window like 22:00-07:00 wraps past midnight.
+ */
+export function isInQuietHours(
+  settings: { timezone: string | null; quietHoursStart: number | null; quietHoursEnd: number | null },
+  now = new Date()
+): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings
+  if (start === null || end === null || start === end) return false
+
+  const timeZone = settings.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE
+  const minutes = minutesIntoDay(timeZone, now)
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+}
@@ -0,0 +1,97 @@
+/**
+ * In-process pub/sub behind the tRPC subscriptions (served over SSE on /trpc).
+ *
+ * Mutations publish after their writes succeed; subscription procedures turn a
+ * topic into an async iterable and apply their own authorization per event.
+ * Everything is single-instance - running several API processes would need a
+ * shared broker (e.g. Postgres LISTEN/NOTIFY) in front of this.
+ */
+
+import { EventEmitter, on } from 'events'
+import { ChannelKind, ChannelVisibility } from '@prisma/client'
+
+export interface RealtimeMessage {
+  id: string
+  channelId: string
+  content: string
+  author: { id: string; name: string }
+  threadId: string | null
+  isPinned: boolean
+  isEdited: boolean
+  editedAt: Date | null
+  replyCount: number
+  createdAt: Date
+}
+
+/** Identifies the channel an event belongs to, so subscribers can apply access rules */
+interface ChannelRef {
+  channelId: string
+  kind: ChannelKind
+  visibility: ChannelVisibility
+}
+
+/** Published to every subscriber in the band; filtered by channel access on the way out */
+export type BandRealtimeEvent =
+  | (ChannelRef & { type: 'message.created'; message: RealtimeMessage })
+  | (ChannelRef & { type: 'message.updated'; message: RealtimeMessage })
+  | (ChannelRef & { type: 'message.deleted'; messageId: string; threadId: string | null })
+  | (ChannelRef & { type: 'reaction.changed'; messageId: string; threadId: string | null })
+  | (ChannelRef & { type: 'typing'; threadId: string | null; user: { id: string; name: string } })
+
+/** Published to a single user */
+export type UserRealtimeEvent =
+  | { type: 'notification.created' }
+  | { type: 'notifications.read' }
+
+/** Published to the participants of a Talk It Out session */
+export type TalkItOutRealtimeEvent =
+  | { type: 'message.created'; messageId: string }
+  | { type: 'facilitator.thinking' }
+  | { type: 'session.updated' }
+
+const emitter = new EventEmitter()
+// One listener per open subscription
+emitter.setMaxListeners(0)
+
+const bandTopic = (bandId: string) => `band:${bandId}`
+const userTopic = (userId: string) => `user:${userId}`
+const talkItOutTopic = (sessionId: string) => `talk-it-out:${sessionId}`
+
+export function publishBandEvent(bandId: string, event: BandRealtimeEvent) {
+  emitter.emit(bandTopic(bandId), event)
+}
+
+export function publishUserEvent(userId: string, event: UserRealtimeEvent) {
+  emitter.emit(userTopic(userId), event)
+}
+
+export function publishTalkItOutEvent(sessionId: string, event: TalkItOutRealtimeEvent) {
+  emitter.emit(talkItOutTopic(sessionId), event)
+}
+
+/**
+ * Yield events for a topic until the subscriber disconnects.
+ */
+async function* subscribe<T>(topic: string, signal?: AbortSignal): AsyncGenerator<T> {
+  try {
+    for await (const [event] of on(emitter, topic, { signal })) {
+      yield event as T
+    }
+  } catch (error) {
+    // Aborting the iterator is how a closed connection ends the loop
+    if (signal?.aborted) return
+    throw error
+  }
+}
+
+export function subscribeToBand(bandId: string, signal?: AbortSignal) {
+  return subscribe<BandRealtimeEvent>(bandTopic(bandId), signal)
+}
+
+export function subscribeToUser(userId: string, signal?: AbortSignal) {
+  return subscribe<UserRealtimeEvent>(userTopic(userId), signal)
+}
+
+export function subscribeToTalkItOut(sessionId: string, signal?: AbortSignal) {
+  return subscribe<TalkItOutRealtimeEvent>(talkItOutTopic(sessionId), signal)
+}
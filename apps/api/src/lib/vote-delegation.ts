@@ -0,0 +1,105 @@
+import { ProposalType } from '@prisma/client'
+import { prisma } from './prisma'
+import { isInGoodStanding } from './dues-enforcement'
+import { getEligibleVoterIdsForProposal } from './proposal-eligible-voters'
+
+/** Founder nominations and dissolution always need direct votes */
+export const NON_DELEGABLE_PROPOSAL_TYPES: ProposalType[] = ['DISSOLUTION', 'ADD_FOUNDER']
+
+/**
+ * A non-voting member whose vote is carried by a delegate's direct vote.
+ * Stored on Proposal.delegationResult when the proposal closes.
+ */
+export interface DelegatedVote {
+  delegatorId: string
+  voterId: string // Member whose direct vote is counted for the delegator
+  via: string[]   // Delegates in between who didn't vote, in chain order
+}
+
+/**
+ * Follow each eligible non-voter's delegation chain to the first delegate
+ * who voted directly. A type-specific proxy beats a band-wide one, direct
+ * votes always override delegation, and chains that loop, leave the
+ * eligible voter set or end without a vote carry nothing.
+ */
+export async function resolveDelegatedVotes(
+  proposal: { bandId: string; type: ProposalType },
+  voterIds: string[]
+): Promise<DelegatedVote[]> {
+  if (NON_DELEGABLE_PROPOSAL_TYPES.includes(proposal.type)) return []
+
+  const eligible = new Set(await getEligibleVoterIdsForProposal(proposal.bandId, proposal.type))
+  const voted = new Set(voterIds)
+
+  const delegations = await prisma.voteDelegation.findMany({
+    where: {
+      bandId: proposal.bandId,
+      OR: [{ proposalType: proposal.type }, { proposalType: null }],
+    },
+    select: { delegatorId: true, delegateId: true, proposalType: true },
+  })
+
+  const proxyOf = new Map<string, string>()
+  for (const d of delegations) {
+    if (d.proposalType || !proxyOf.has(d.delegatorId)) {
+      proxyOf.set(d.delegatorId, d.delegateId)
+    }
+  }
+
+  const resolved: DelegatedVote[] = []
+  for (const delegatorId of eligible) {
+    if (voted.has(delegatorId) || !proxyOf.has(delegatorId)) continue
+
+    const seen = new Set([delegatorId])
+    const via: string[] = []
+    let current = proxyOf.get(delegatorId)
+
+    while (current && !seen.has(current) && eligible.has(current)) {
+      if (voted.has(current)) {
+        resolved.push({ delegatorId, voterId: current, via })
+        break
+      }
+      seen.add(current)
+      via.push(current)
+      current = proxyOf.get(current)
+    }
+  }
+
+  // Members who couldn't vote directly (dues) can't vote through a proxy either
+  const standing = await Promise.all(
+    resolved.map(d => isInGoodStanding(proposal.bandId, d.delegatorId))
+  )
+  return resolved.filter((_, i) => standing[i])
+}
+
+/**
+ * Delegated votes for a proposal: the snapshot taken at close, or the live
+ * resolution while voting is open
+ */
+export async function getDelegatedVotesForProposal(proposal: {
+  bandId: string
+  type: ProposalType
+  status: string
+  delegationResult: unknown
+  votes: { userId: string }[]
+}): Promise<DelegatedVote[]> {
+  if (proposal.status !== 'OPEN') {
+    return (proposal.delegationResult as DelegatedVote[] | null) ?? []
+  }
+  return resolveDelegatedVotes(proposal, proposal.votes.map(v => v.userId))
+}
+
+/**
+ * Direct votes plus one copy of the delegate's vote per delegated member,
+ * so existing counting and tallying code weights votes without changes
+ */
+export function withDelegatedVotes<T extends { userId: string }>(
+  votes: T[],
+  delegated: DelegatedVote[]
+): T[] {
+  const byUser = new Map(votes.map(v => [v.userId, v]))
+  const carried = delegated
+    .map(d => byUser.get(d.voterId))
+    .filter((v): v is T => !!v)
+  return [...votes, ...carried]
+}
@@ -0,0 +1,147 @@
+/**
+ * Web Push delivery without a third-party library: VAPID authentication
+ * (RFC 8292) and aes128gcm payload encryption (RFC 8291), sent with fetch.
+ *
+ * Generate a key pair once per deployment:
+ *   node -e "const e=require('crypto').createECDH('prime256v1');e.generateKeys();console.log(e.getPublicKey('base64url'),e.getPrivateKey('base64url'))"
+ */
+
+import crypto from 'crypto'
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:support@band-it.com'
+
+// Push services keep undelivered messages this long while the device is offline
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60
+const RECORD_SIZE = 4096
+
+export interface PushSubscriptionKeys {
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+export type PushResult =
+  | { ok: true }
+  | { ok: false; status: number; expired: boolean }
+
+export function isWebPushConfigured(): boolean {
+  return !!VAPID_PUBLIC_KEY && !!VAPID_PRIVATE_KEY
+}
+
+/**
+ * The application server key browsers need to subscribe
+ */
+export function getVapidPublicKey(): string | null {
+  return isWebPushConfigured() ? VAPID_PUBLIC_KEY! : null
+}
+
+function getVapidPrivateKey(): crypto.KeyObject {
+  const publicKey = Buffer.from(VAPID_PUBLIC_KEY!, 'base64url')
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+      d: VAPID_PRIVATE_KEY!,
+    },
+    format: 'jwk',
+  })
+}
+
+function buildVapidAuthorization(endpoint: string): string {
+  const header = { typ: 'JWT', alg: 'ES256' }
+  const claims = {
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: VAPID_SUBJECT,
+  }
+
+  const unsigned = [header, claims]
+    .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.')
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+    key: getVapidPrivateKey(),
+    dsaEncoding: 'ieee-p1363',
+  })
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${VAPID_PUBLIC_KEY}`
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length))
+}
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record
+ */
+export function encryptPushPayload(payload: string, keys: { p256dh: string; auth: string }): Buffer {
+  const userAgentPublicKey = Buffer.from(keys.p256dh, 'base64url')
+  const authSecret = Buffer.from(keys.auth, 'base64url')
+
+  const ecdh = crypto.createECDH('prime256v1')
+  ecdh.generateKeys()
+  const serverPublicKey = ecdh.getPublicKey()
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey)
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey])
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32)
+
+  const salt = crypto.randomBytes(16)
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([2])])
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload too large')
+  }
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+
+  const header = Buffer.alloc(21)
+  salt.copy(header, 0)
+  header.writeUInt32BE(RECORD_SIZE, 16)
+  header.writeUInt8(serverPublicKey.length, 20)
+
+  return Buffer.concat([header, serverPublicKey, ciphertext])
+}
+
+/**
+ * Send one push message. `expired` means the browser dropped the
+ * subscription and it should be deleted.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: object,
+  options: { urgent?: boolean; ttlSeconds?: number } = {}
+): Promise<PushResult> {
+  if (!isWebPushConfigured()) {
+    throw new Error('Web Push is not configured')
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: buildVapidAuthorization(subscription.endpoint),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+      Urgency: options.urgent ? 'high' : 'normal',
+    },
+    body: new Uint8Array(encryptPushPayload(JSON.stringify(payload), subscription)),
+  })
+
+  if (response.ok) {
+    return { ok: true }
+  }
+
+  return {
+    ok: false,
+    status: response.status,
+    expired: response.status === 404 || response.status === 410,
+  }
+}
@@ -7,9 +7,10 @@
 
 import { Router, Request, Response } from 'express'
 import Stripe from 'stripe'
-import jwt from 'jsonwebtoken'
 import { prisma } from '../lib/prisma'
+import { verifySessionAccessToken } from '../lib/auth-tokens'
 import { auditStorage, logAuditEvent, AuditContext } from '../lib/auditContext'
+import { ledgerService } from '../services/ledger.service'
 
 const router = Router()
 
@@ -18,7 +19,6 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!)
 
 // Environment variables
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 
 // Roles that can manage dues plans
 const CAN_MANAGE_DUES = ['FOUNDER', 'GOVERNOR']
@@ -37,19 +37,14 @@ interface AuthenticatedUser {
 /**
  * Extract user from JWT token in Authorization header
  */
-function getUserFromRequest(req: Request): AuthenticatedUser | null {
+async function getUserFromRequest(req: Request): Promise<AuthenticatedUser | null> {
   const authHeader = req.headers.authorization
   if (!authHeader?.startsWith('Bearer ')) {
     return null
   }
 
-  const token = authHeader.slice(7)
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-    return { userId: decoded.userId }
-  } catch {
-    return null
-  }
+  const decoded = await verifySessionAccessToken(authHeader.slice(7))
+  return decoded ? { userId: decoded.userId } : null
 }
 
 /**
@@ -150,7 +145,7 @@ function validateDuesPlanInput(body: any): { valid: boolean; errors: string[] }
 router.put('/bands/:bandId/dues-plan', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -300,7 +295,7 @@ router.put('/bands/:bandId/dues-plan', async (req: Request, res: Response) => {
 router.get('/bands/:bandId/dues-plan', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -343,7 +338,7 @@ router.get('/bands/:bandId/dues-plan', async (req: Request, res: Response) => {
 router.post('/bands/:bandId/dues-checkout', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -464,7 +459,7 @@ router.post('/bands/:bandId/dues-checkout', async (req: Request, res: Response)
 router.get('/bands/:bandId/members/:memberId/billing', async (req: Request, res: Response) => {
   try {
     const { bandId, memberId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -527,7 +522,7 @@ router.get('/bands/:bandId/billing', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
     const { status: filterStatus } = req.query
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -609,7 +604,7 @@ router.post('/bands/:bandId/card-donation', async (req: Request, res: Response)
   try {
     const { bandId } = req.params
     const { amount, paymentMethodId } = req.body
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -712,6 +707,10 @@ router.post('/bands/:bandId/card-donation', async (req: Request, res: Response)
       },
     })
 
+    await ledgerService.postDonation(donation.id).catch(err =>
+      console.error('Error posting card donation to ledger:', err)
+    )
+
     console.log('Card Donation: Payment succeeded', {
       bandId,
       donorId: user.userId,
@@ -0,0 +1,35 @@
+/**
+ * Calendar Feed Routes
+ *
+ * Serves subscribable iCalendar feeds. The token in the URL is the only
+ * credential, so calendar apps can poll without logging in; owners revoke
+ * tokens from their settings.
+ */
+
+import { Router, Request, Response } from 'express'
+import { calendarFeedService } from '../services/calendar-feed.service'
+
+const router = Router()
+
+/**
+ * GET /api/calendar/:token.ics
+ */
+router.get('/calendar/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const ics = await calendarFeedService.render(req.params.token)
+
+    if (!ics) {
+      return res.status(404).json({ error: 'Calendar feed not found' })
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"')
+    res.setHeader('Cache-Control', 'private, max-age=300')
+    return res.send(ics)
+  } catch (error) {
+    console.error('Error rendering calendar feed:', error)
+    return res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+export default router
@@ -7,14 +7,16 @@
 
 import { Router, Request, Response } from 'express'
 import Stripe from 'stripe'
-import jwt from 'jsonwebtoken'
 import { prisma } from '../lib/prisma'
+import { verifySessionAccessToken } from '../lib/auth-tokens'
 import {
   generateStateToken,
   storeOAuthState,
   validateAndConsumeOAuthState,
 } from '../lib/oauth-state-store'
 import { auditStorage, logAuditEvent, AuditContext } from '../lib/auditContext'
+import { TwoFactorRequiredError } from '../lib/two-factor'
+import { twoFactorService } from '../server/services/two-factor.service'
 
 const router = Router()
 
@@ -26,7 +28,6 @@ const STRIPE_CLIENT_ID = process.env.STRIPE_CLIENT_ID
 const STRIPE_REDIRECT_URI = process.env.STRIPE_CONNECT_REDIRECT_URI ||
   `${process.env.API_URL || 'http://localhost:3001'}/api/stripe/connect/callback`
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 
 // Roles that can connect/disconnect Stripe
 const CAN_MANAGE_STRIPE = ['FOUNDER', 'GOVERNOR']
@@ -37,24 +38,20 @@ const CAN_MANAGE_STRIPE = ['FOUNDER', 'GOVERNOR']
 
 interface AuthenticatedUser {
   userId: string
+  sessionId: string
 }
 
 /**
  * Extract user from JWT token in Authorization header
  */
-function getUserFromRequest(req: Request): AuthenticatedUser | null {
+async function getUserFromRequest(req: Request): Promise<AuthenticatedUser | null> {
   const authHeader = req.headers.authorization
   if (!authHeader?.startsWith('Bearer ')) {
     return null
   }
 
-  const token = authHeader.slice(7)
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-    return { userId: decoded.userId }
-  } catch {
-    return null
-  }
+  const decoded = await verifySessionAccessToken(authHeader.slice(7))
+  return decoded ? { userId: decoded.userId, sessionId: decoded.sessionId } : null
 }
 
 /**
@@ -130,7 +127,7 @@ async function getActiveBandStripeAccount(bandId: string) {
 router.post('/bands/:bandId/stripe/connect', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -325,7 +322,7 @@ router.get('/stripe/connect/callback', async (req: Request, res: Response) => {
 router.get('/bands/:bandId/stripe/status', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -370,7 +367,7 @@ router.get('/bands/:bandId/stripe/status', async (req: Request, res: Response) =
 router.post('/bands/:bandId/stripe/refresh', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -439,7 +436,7 @@ router.post('/bands/:bandId/stripe/refresh', async (req: Request, res: Response)
 router.post('/bands/:bandId/stripe/disconnect', async (req: Request, res: Response) => {
   try {
     const { bandId } = req.params
-    const user = getUserFromRequest(req)
+    const user = await getUserFromRequest(req)
 
     // Auth check
     if (!user) {
@@ -455,6 +452,16 @@ router.post('/bands/:bandId/stripe/disconnect', async (req: Request, res: Respon
       })
     }
 
+    // Same 2FA step-up as the tRPC money mutations; the client reads `twoFactor`
+    const twoFactor = await twoFactorService.getStepUpRequirement(user.userId, user.sessionId, bandId)
+    if (twoFactor) {
+      return res.status(403).json({
+        error: 'two_factor_required',
+        twoFactor,
+        message: new TwoFactorRequiredError(twoFactor).message,
+      })
+    }
+
     // Get active Stripe account
     const account = await getActiveBandStripeAccount(bandId)
 
@@ -4,6 +4,7 @@ import { authRouter } from './auth'
 import { paymentRouter } from './payment'
 import { bandRouter } from './band'
 import { notificationRouter } from './notification'
+import { notificationTemplateRouter } from './notificationTemplate'
 import { proposalRouter } from './proposal'
 import { projectRouter } from './project'
 import { taskRouter } from './task'
@@ -19,6 +20,8 @@ import { adminRouter } from './admin'
 import { adminTaskRouter } from './adminTask'
 import { channelRouter } from './channel'
 import { messageRouter } from './message'
+import { conversationRouter } from './conversation'
+import { searchRouter } from './search'
 import { manualPaymentRouter } from './manualPayment'
 import { helpRouter } from './help'
 import { postsRouter } from './posts'
@@ -32,6 +35,7 @@ import { onboardingRouter } from './onboarding'
 import { calendarRouter } from './calendar'
 import { reorderRouter } from './reorder'
 import { donationRouter } from './donation'
+import { ledgerRouter } from './ledger'
 import { newspaperRouter } from './newspaper'
 import { talkItOutRouter } from './talkItOut'
 import { profileRouter } from './profile'
@@ -43,6 +47,7 @@ export const appRouter = router({
   payment: paymentRouter,
   band: bandRouter,
   notification: notificationRouter,
+  notificationTemplate: notificationTemplateRouter,
   proposal: proposalRouter,
   project: projectRouter,
   task: taskRouter,
@@ -58,6 +63,8 @@ export const appRouter = router({
   adminTask: adminTaskRouter,
   channel: channelRouter,
   message: messageRouter,
+  conversation: conversationRouter,
+  search: searchRouter,
   manualPayment: manualPaymentRouter,
   help: helpRouter,
   posts: postsRouter,
@@ -71,6 +78,7 @@ export const appRouter = router({
   calendar: calendarRouter,
   reorder: reorderRouter,
   donation: donationRouter,
+  ledger: ledgerRouter,
   newspaper: newspaperRouter,
   talkItOut: talkItOutRouter,
   profile: profileRouter,
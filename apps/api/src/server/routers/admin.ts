@@ -1,9 +1,10 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure, adminProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../services/notification.service'
 import { emailService } from '../services/email.service'
+import { authService } from '../services/auth.service'
 import { clearModerationCache } from '../../services/content-moderation.service'
 import { createDefaultChannel } from './channel'
 import { runDigestJob } from '../../cron/digest-cron'
@@ -15,28 +16,11 @@ import {
   mapSocialLinks,
 } from '../../lib/band-profile-validation'
 
-// Helper to check if user is admin
-async function requireAdmin(userId: string) {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { isAdmin: true },
-  })
-
-  if (!user?.isAdmin) {
-    throw new TRPCError({
-      code: 'FORBIDDEN',
-      message: 'Admin access required',
-    })
-  }
-
-  return user
-}
-
 export const adminRouter = router({
   /**
    * Get platform statistics for admin dashboard
    */
-  getStats: publicProcedure.query(async () => {
+  getStats: adminProcedure.query(async () => {
     const [
       totalUsers,
       totalBands,
@@ -83,18 +67,15 @@ export const adminRouter = router({
   /**
    * Get all users with pagination and search
    */
-  getUsers: publicProcedure
+  getUsers: adminProcedure
     .input(
       z.object({
-        userId: z.string(), // Admin user ID for auth check
         search: z.string().optional(),
         page: z.number().default(1),
         limit: z.number().default(20),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.userId)
-
       const where = input.search
         ? {
             OR: [
@@ -143,18 +124,15 @@ export const adminRouter = router({
   /**
    * Users in the waiting room (registered but not yet approved to enter).
    */
-  getUsersPendingAccess: publicProcedure
+  getUsersPendingAccess: adminProcedure
     .input(
       z.object({
-        userId: z.string(),
         search: z.string().optional(),
         page: z.number().default(1),
         limit: z.number().default(50),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.userId)
-
       const now = new Date()
       const baseWhere = {
         accessApproved: false,
@@ -207,16 +185,13 @@ export const adminRouter = router({
   /**
    * Approve selected users past the waiting room and email each an invite to enter.
    */
-  approveUsersAccess: publicProcedure
+  approveUsersAccess: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserIds: z.array(z.string()).min(1).max(100),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const targets = await prisma.user.findMany({
         where: {
           id: { in: input.targetUserIds },
@@ -264,18 +239,15 @@ export const adminRouter = router({
   /**
    * Get all bands with pagination and search
    */
-  getBands: publicProcedure
+  getBands: adminProcedure
     .input(
       z.object({
-        userId: z.string(),
         search: z.string().optional(),
         page: z.number().default(1),
         limit: z.number().default(20),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.userId)
-
       const where = input.search
         ? {
             OR: [
@@ -327,19 +299,16 @@ export const adminRouter = router({
   /**
    * Toggle admin status for a user
    */
-  setUserAdmin: publicProcedure
+  setUserAdmin: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(), // The admin performing the action
         targetUserId: z.string(), // The user to modify
         isAdmin: z.boolean(),
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       // Prevent removing own admin status
-      if (input.adminUserId === input.targetUserId && !input.isAdmin) {
+      if (ctx.userId === input.targetUserId && !input.isAdmin) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
           message: 'You cannot remove your own admin status',
@@ -363,17 +332,14 @@ export const adminRouter = router({
   /**
    * Warn a user - creates warning record and increments count
    */
-  warnUser: publicProcedure
+  warnUser: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
         reason: z.string().min(1, 'Reason is required').max(1000),
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       // Cannot warn admins
       const target = await prisma.user.findUnique({
         where: { id: input.targetUserId },
@@ -399,7 +365,7 @@ export const adminRouter = router({
         prisma.warning.create({
           data: {
             userId: input.targetUserId,
-            issuedById: input.adminUserId,
+            issuedById: ctx.userId,
             reason: input.reason,
           },
         }),
@@ -443,18 +409,15 @@ export const adminRouter = router({
   /**
    * Suspend a user for a specific duration
    */
-  suspendUser: publicProcedure
+  suspendUser: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
         days: z.number().min(1).max(365),
         reason: z.string().min(1, 'Reason is required').max(1000),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       // Cannot suspend admins
       const target = await prisma.user.findUnique({
         where: { id: input.targetUserId },
@@ -493,6 +456,8 @@ export const adminRouter = router({
         },
       })
 
+      await authService.revokeAllSessions(input.targetUserId, 'SUSPENDED')
+
       // Send in-app notification
       await notificationService.create({
         userId: input.targetUserId,
@@ -517,16 +482,13 @@ export const adminRouter = router({
   /**
    * Remove suspension from a user
    */
-  unsuspendUser: publicProcedure
+  unsuspendUser: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const user = await prisma.user.update({
         where: { id: input.targetUserId },
         data: {
@@ -547,17 +509,14 @@ export const adminRouter = router({
   /**
    * Ban a user permanently
    */
-  banUser: publicProcedure
+  banUser: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
         reason: z.string().min(1, 'Reason is required').max(500),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       // Cannot ban admins
       const target = await prisma.user.findUnique({
         where: { id: input.targetUserId },
@@ -593,6 +552,8 @@ export const adminRouter = router({
         },
       })
 
+      await authService.revokeAllSessions(input.targetUserId, 'BANNED')
+
       // Send in-app notification (they won't see it, but it's logged)
       await notificationService.create({
         userId: input.targetUserId,
@@ -615,16 +576,13 @@ export const adminRouter = router({
   /**
    * Unban a user
    */
-  unbanUser: publicProcedure
+  unbanUser: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const user = await prisma.user.update({
         where: { id: input.targetUserId },
         data: {
@@ -646,16 +604,13 @@ export const adminRouter = router({
   /**
    * Reset warning count for a user (also deletes warning records)
    */
-  resetWarnings: publicProcedure
+  resetWarnings: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       // Delete all warning records and reset count
       const [, user] = await prisma.$transaction([
         prisma.warning.deleteMany({
@@ -679,16 +634,13 @@ export const adminRouter = router({
   /**
    * Get warnings for a specific user
    */
-  getUserWarnings: publicProcedure
+  getUserWarnings: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         targetUserId: z.string(),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const warnings = await prisma.warning.findMany({
         where: { userId: input.targetUserId },
         include: {
@@ -709,10 +661,9 @@ export const adminRouter = router({
   /**
    * Get all blocked terms
    */
-  getBlockedTerms: publicProcedure
+  getBlockedTerms: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         search: z.string().optional(),
         category: z.string().optional(),
         severity: z.enum(['WARN', 'BLOCK']).optional(),
@@ -720,8 +671,6 @@ export const adminRouter = router({
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const where: any = {}
 
       if (input.activeOnly) {
@@ -766,10 +715,9 @@ export const adminRouter = router({
   /**
    * Add a new blocked term
    */
-  addBlockedTerm: publicProcedure
+  addBlockedTerm: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         term: z.string().min(1).max(200),
         isRegex: z.boolean().default(false),
         severity: z.enum(['WARN', 'BLOCK']).default('WARN'),
@@ -779,9 +727,7 @@ export const adminRouter = router({
         userAppealAllowed: z.boolean().default(true),
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       // Validate regex if isRegex is true
       if (input.isRegex) {
         try {
@@ -815,7 +761,7 @@ export const adminRouter = router({
           reason: input.reason || null,
           confidence: input.confidence,
           userAppealAllowed: input.userAppealAllowed,
-          createdById: input.adminUserId,
+          createdById: ctx.userId,
         },
         include: {
           createdBy: {
@@ -833,10 +779,9 @@ export const adminRouter = router({
   /**
    * Update a blocked term
    */
-  updateBlockedTerm: publicProcedure
+  updateBlockedTerm: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         termId: z.string(),
         term: z.string().min(1).max(200).optional(),
         isRegex: z.boolean().optional(),
@@ -849,9 +794,7 @@ export const adminRouter = router({
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
-      const { adminUserId, termId, ...updateData } = input
+      const { termId, ...updateData } = input
 
       // Validate regex if updating to regex
       if (updateData.isRegex && updateData.term) {
@@ -903,16 +846,13 @@ export const adminRouter = router({
   /**
    * Delete a blocked term
    */
-  deleteBlockedTerm: publicProcedure
+  deleteBlockedTerm: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         termId: z.string(),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       await prisma.blockedTerm.delete({
         where: { id: input.termId },
       })
@@ -926,18 +866,15 @@ export const adminRouter = router({
   /**
    * Bulk add blocked terms
    */
-  bulkAddBlockedTerms: publicProcedure
+  bulkAddBlockedTerms: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         terms: z.array(z.string().min(1).max(200)),
         severity: z.enum(['WARN', 'BLOCK']).default('WARN'),
         category: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       const uniqueTerms = [...new Set(input.terms.map(t => t.toLowerCase()))]
 
       // Get existing terms to avoid duplicates
@@ -958,7 +895,7 @@ export const adminRouter = router({
           term,
           severity: input.severity,
           category: input.category || null,
-          createdById: input.adminUserId,
+          createdById: ctx.userId,
         })),
       })
 
@@ -978,17 +915,14 @@ export const adminRouter = router({
   /**
    * Get all FAQ entries for admin management
    */
-  getFaqEntries: publicProcedure
+  getFaqEntries: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         search: z.string().optional(),
         category: z.string().optional(),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const where: any = {}
 
       if (input.search) {
@@ -1026,10 +960,9 @@ export const adminRouter = router({
   /**
    * Create a new FAQ entry
    */
-  createFaqEntry: publicProcedure
+  createFaqEntry: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         category: z.string().min(1),
         question: z.string().min(1).max(500),
         answer: z.string().min(1).max(5000),
@@ -1040,12 +973,8 @@ export const adminRouter = router({
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
-      const { adminUserId, ...data } = input
-
       const entry = await prisma.faqEntry.create({
-        data,
+        data: input,
       })
 
       return { entry }
@@ -1054,10 +983,9 @@ export const adminRouter = router({
   /**
    * Update an existing FAQ entry
    */
-  updateFaqEntry: publicProcedure
+  updateFaqEntry: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         entryId: z.string(),
         category: z.string().min(1).optional(),
         question: z.string().min(1).max(500).optional(),
@@ -1069,9 +997,7 @@ export const adminRouter = router({
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
-      const { adminUserId, entryId, ...updateData } = input
+      const { entryId, ...updateData } = input
 
       const entry = await prisma.faqEntry.update({
         where: { id: entryId },
@@ -1084,16 +1010,13 @@ export const adminRouter = router({
   /**
    * Delete a FAQ entry
    */
-  deleteFaqEntry: publicProcedure
+  deleteFaqEntry: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         entryId: z.string(),
       })
     )
     .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       await prisma.faqEntry.delete({
         where: { id: input.entryId },
       })
@@ -1108,10 +1031,9 @@ export const adminRouter = router({
   /**
    * Get flagged content for moderation queue
    */
-  getFlaggedContent: publicProcedure
+  getFlaggedContent: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         status: z.enum(['PENDING', 'APPROVED', 'REMOVED', 'WARNED']).optional(),
         contentType: z.enum(['PROPOSAL', 'COMMENT', 'TASK']).optional(),
         page: z.number().default(1),
@@ -1119,8 +1041,6 @@ export const adminRouter = router({
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const where: any = {}
 
       if (input.status) {
@@ -1159,15 +1079,8 @@ export const adminRouter = router({
   /**
    * Get statistics for moderation queue
    */
-  getFlaggedContentStats: publicProcedure
-    .input(
-      z.object({
-        adminUserId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+  getFlaggedContentStats: adminProcedure
+    .query(async () => {
       const [pending, approved, removed, warned, byType] = await Promise.all([
         prisma.flaggedContent.count({ where: { status: 'PENDING' } }),
         prisma.flaggedContent.count({ where: { status: 'APPROVED' } }),
@@ -1196,19 +1109,16 @@ export const adminRouter = router({
   /**
    * Review flagged content and take action
    */
-  reviewFlaggedContent: publicProcedure
+  reviewFlaggedContent: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         flaggedContentId: z.string(),
         action: z.enum(['DISMISS', 'REMOVE', 'WARN_USER', 'SUSPEND_USER', 'BAN_USER']),
         reviewNotes: z.string().optional(),
         suspensionDays: z.number().optional(), // Required if action is SUSPEND_USER
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       const flaggedContent = await prisma.flaggedContent.findUnique({
         where: { id: input.flaggedContentId },
         include: {
@@ -1246,7 +1156,7 @@ export const adminRouter = router({
         data: {
           status,
           actionTaken: input.action,
-          reviewedById: input.adminUserId,
+          reviewedById: ctx.userId,
           reviewedAt: new Date(),
           reviewNotes: input.reviewNotes,
         },
@@ -1281,7 +1191,7 @@ export const adminRouter = router({
         const warning = await prisma.warning.create({
           data: {
             userId: flaggedContent.authorId,
-            issuedById: input.adminUserId,
+            issuedById: ctx.userId,
             reason: input.reviewNotes || `Content flagged for: ${flaggedContent.matchedTerms.join(', ')}`,
           },
         })
@@ -1323,6 +1233,8 @@ export const adminRouter = router({
           },
         })
 
+        await authService.revokeAllSessions(flaggedContent.authorId, 'SUSPENDED')
+
         await notificationService.create({
           userId: flaggedContent.authorId,
           type: 'MODERATION_SUSPENSION',
@@ -1349,6 +1261,8 @@ export const adminRouter = router({
           },
         })
 
+        await authService.revokeAllSessions(flaggedContent.authorId, 'BANNED')
+
         await notificationService.create({
           userId: flaggedContent.authorId,
           type: 'MODERATION_BAN',
@@ -1370,17 +1284,14 @@ export const adminRouter = router({
   /**
    * Bulk review flagged content (dismiss multiple)
    */
-  bulkDismissFlaggedContent: publicProcedure
+  bulkDismissFlaggedContent: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         flaggedContentIds: z.array(z.string()),
         reviewNotes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       const updated = await prisma.flaggedContent.updateMany({
         where: {
           id: { in: input.flaggedContentIds },
@@ -1389,7 +1300,7 @@ export const adminRouter = router({
         data: {
           status: 'APPROVED',
           actionTaken: 'DISMISS',
-          reviewedById: input.adminUserId,
+          reviewedById: ctx.userId,
           reviewedAt: new Date(),
           reviewNotes: input.reviewNotes || 'Bulk dismissed',
         },
@@ -1405,15 +1316,14 @@ export const adminRouter = router({
   /**
    * Submit an appeal for flagged content (user endpoint)
    */
-  submitAppeal: publicProcedure
+  submitAppeal: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         flaggedContentId: z.string(),
         appealReason: z.string().min(10, 'Please provide a detailed reason for your appeal').max(1000),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const flaggedContent = await prisma.flaggedContent.findUnique({
         where: { id: input.flaggedContentId },
       })
@@ -1426,7 +1336,7 @@ export const adminRouter = router({
       }
 
       // Verify the user is the author
-      if (flaggedContent.authorId !== input.userId) {
+      if (flaggedContent.authorId !== ctx.userId) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'You can only appeal your own content',
@@ -1464,17 +1374,14 @@ export const adminRouter = router({
   /**
    * Get appeals pending review (admin endpoint)
    */
-  getPendingAppeals: publicProcedure
+  getPendingAppeals: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         page: z.number().default(1),
         limit: z.number().default(20),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const [items, total] = await Promise.all([
         prisma.flaggedContent.findMany({
           where: { appealStatus: 'PENDING' },
@@ -1503,18 +1410,15 @@ export const adminRouter = router({
   /**
    * Review an appeal (admin endpoint)
    */
-  reviewAppeal: publicProcedure
+  reviewAppeal: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         flaggedContentId: z.string(),
         decision: z.enum(['APPROVED', 'DENIED']),
         reviewNotes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       const flaggedContent = await prisma.flaggedContent.findUnique({
         where: { id: input.flaggedContentId },
         include: {
@@ -1543,7 +1447,7 @@ export const adminRouter = router({
         where: { id: input.flaggedContentId },
         data: {
           appealStatus: input.decision,
-          appealReviewedById: input.adminUserId,
+          appealReviewedById: ctx.userId,
           appealReviewedAt: new Date(),
           appealReviewNotes: input.reviewNotes,
           // If appeal is approved, update the main status to APPROVED
@@ -1576,15 +1480,10 @@ export const adminRouter = router({
   /**
    * Get user's flagged content with appeal status
    */
-  getUserFlaggedContent: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getUserFlaggedContent: protectedProcedure
+    .query(async ({ ctx }) => {
       const items = await prisma.flaggedContent.findMany({
-        where: { authorId: input.userId },
+        where: { authorId: ctx.userId },
         orderBy: { createdAt: 'desc' },
         take: 50,
       })
@@ -1599,16 +1498,13 @@ export const adminRouter = router({
   /**
    * Search users for founder selection when creating a Big Band
    */
-  searchUsersForFounder: publicProcedure
+  searchUsersForFounder: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         search: z.string().min(2, 'Search term must be at least 2 characters'),
       })
     )
     .query(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
       const users = await prisma.user.findMany({
         where: {
           OR: [
@@ -1635,11 +1531,9 @@ export const adminRouter = router({
   /**
    * Create a Big Band with an assigned founder
    */
-  createBigBand: publicProcedure
+  createBigBand: adminProcedure
     .input(agencyBigBandCreateInputSchema)
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.adminUserId)
-
+    .mutation(async ({ ctx, input }) => {
       const founder = await prisma.user.findUnique({
         where: { id: input.founderId },
         select: { id: true, name: true, bannedAt: true, deletedAt: true },
@@ -1715,7 +1609,7 @@ export const adminRouter = router({
           entityType: 'Band',
           entityId: band.id,
           entityName: band.name,
-          actorId: input.adminUserId,
+          actorId: ctx.userId,
           actorType: 'user',
           changes: {
             type: 'big_band',
@@ -1735,11 +1629,9 @@ export const adminRouter = router({
   /**
    * Trigger digest email job manually
    */
-  triggerDigestJob: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Digest job triggered by user ${input.userId}`)
+  triggerDigestJob: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Digest job triggered by user ${ctx.userId}`)
       const result = await runDigestJob()
       return { success: true, result }
     }),
@@ -1747,11 +1639,9 @@ export const adminRouter = router({
   /**
    * Trigger task escalation job manually
    */
-  triggerTaskEscalation: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Task escalation job triggered by user ${input.userId}`)
+  triggerTaskEscalation: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Task escalation job triggered by user ${ctx.userId}`)
       const result = await runTaskEscalationJob()
       return { success: true, result }
     }),
@@ -1759,11 +1649,9 @@ export const adminRouter = router({
   /**
    * Trigger checklist escalation job manually
    */
-  triggerChecklistEscalation: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Checklist escalation job triggered by user ${input.userId}`)
+  triggerChecklistEscalation: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Checklist escalation job triggered by user ${ctx.userId}`)
       const result = await runChecklistEscalationJob()
       return { success: true, result }
     }),
@@ -1771,11 +1659,9 @@ export const adminRouter = router({
   /**
    * Trigger billing grace period check manually
    */
-  triggerGracePeriodCheck: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Grace period check triggered by user ${input.userId}`)
+  triggerGracePeriodCheck: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Grace period check triggered by user ${ctx.userId}`)
       await runGracePeriodCheck()
       return { success: true }
     }),
@@ -1783,11 +1669,9 @@ export const adminRouter = router({
   /**
    * Trigger billing owner check manually
    */
-  triggerBillingOwnerCheck: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Billing owner check triggered by user ${input.userId}`)
+  triggerBillingOwnerCheck: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Billing owner check triggered by user ${ctx.userId}`)
       await runBillingOwnerCheck()
       return { success: true }
     }),
@@ -1795,11 +1679,9 @@ export const adminRouter = router({
   /**
    * Trigger low member count check manually
    */
-  triggerLowMemberCheck: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Low member count check triggered by user ${input.userId}`)
+  triggerLowMemberCheck: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Low member count check triggered by user ${ctx.userId}`)
       await runLowMemberCountCheck()
       return { success: true }
     }),
@@ -1807,11 +1689,9 @@ export const adminRouter = router({
   /**
    * Trigger manual payment auto-confirm job
    */
-  triggerAutoConfirms: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Auto-confirm job triggered by user ${input.userId}`)
+  triggerAutoConfirms: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Auto-confirm job triggered by user ${ctx.userId}`)
       await runAutoConfirms()
       return { success: true }
     }),
@@ -1819,11 +1699,9 @@ export const adminRouter = router({
   /**
    * Trigger auto-confirm warning emails
    */
-  triggerAutoConfirmWarnings: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
-      await requireAdmin(input.userId)
-      console.log(`[ADMIN] Auto-confirm warnings triggered by user ${input.userId}`)
+  triggerAutoConfirmWarnings: adminProcedure
+    .mutation(async ({ ctx }) => {
+      console.log(`[ADMIN] Auto-confirm warnings triggered by user ${ctx.userId}`)
       await runAutoConfirmWarnings()
       return { success: true }
     }),
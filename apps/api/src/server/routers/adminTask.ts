@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure, bandMemberProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import {
@@ -20,27 +20,11 @@ export const adminTaskRouter = router({
    * List all available admin tasks for this band
    * Returns tasks the current user's role can execute
    */
-  list: publicProcedure
-    .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
-    }))
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
-
-      // Get user's membership
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You are not an active member of this band',
-        })
-      }
+  list: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_ACCESS_ADMIN_TASKS.includes(membership.role)) {
         throw new TRPCError({
@@ -82,14 +66,14 @@ export const adminTaskRouter = router({
   /**
    * Get details of a specific task
    */
-  getDetails: publicProcedure
+  getDetails: protectedProcedure
     .input(z.object({
       bandId: z.string(),
-      userId: z.string(),
       taskType: z.string(),
     }))
-    .query(async ({ input }) => {
-      const { bandId, userId, taskType } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId, taskType } = input
+      const { userId } = ctx
 
       // Check permission
       const permissionCheck = await canExecuteTask(bandId, userId, taskType)
@@ -122,15 +106,15 @@ export const adminTaskRouter = router({
   /**
    * Preview what a task will do before executing
    */
-  preview: publicProcedure
+  preview: protectedProcedure
     .input(z.object({
       bandId: z.string(),
-      userId: z.string(),
       taskType: z.string(),
       parameters: z.record(z.unknown()).optional(),
     }))
-    .query(async ({ input }) => {
-      const { bandId, userId, taskType, parameters = {} } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId, taskType, parameters = {} } = input
+      const { userId } = ctx
 
       try {
         const preview = await adminTaskService.preview(bandId, userId, taskType, parameters)
@@ -146,15 +130,15 @@ export const adminTaskRouter = router({
   /**
    * Execute an admin task
    */
-  execute: publicProcedure
+  execute: protectedProcedure
     .input(z.object({
       bandId: z.string(),
-      userId: z.string(),
       taskType: z.string(),
       parameters: z.record(z.unknown()).optional(),
     }))
-    .mutation(async ({ input }) => {
-      const { bandId, userId, taskType, parameters = {} } = input
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, taskType, parameters = {} } = input
+      const { userId } = ctx
 
       try {
         const result = await adminTaskService.execute(bandId, userId, taskType, parameters)
@@ -170,30 +154,16 @@ export const adminTaskRouter = router({
   /**
    * Get execution history for this band
    */
-  history: publicProcedure
+  history: bandMemberProcedure
     .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
       taskType: z.string().optional(),
       page: z.number().default(1),
       pageSize: z.number().default(20),
     }))
-    .query(async ({ input }) => {
-      const { bandId, userId, taskType, page, pageSize } = input
-
-      // Check user has access to admin tasks
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You are not an active member of this band',
-        })
-      }
+    .query(async ({ ctx, input }) => {
+      const { bandId, taskType, page, pageSize } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_ACCESS_ADMIN_TASKS.includes(membership.role)) {
         throw new TRPCError({
@@ -267,28 +237,14 @@ export const adminTaskRouter = router({
   /**
    * Get a specific execution details
    */
-  getExecution: publicProcedure
+  getExecution: bandMemberProcedure
     .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
       executionId: z.string(),
     }))
-    .query(async ({ input }) => {
-      const { bandId, userId, executionId } = input
-
-      // Check user has access to admin tasks
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You are not an active member of this band',
-        })
-      }
+    .query(async ({ ctx, input }) => {
+      const { bandId, executionId } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_ACCESS_ADMIN_TASKS.includes(membership.role)) {
         throw new TRPCError({
@@ -1,17 +1,17 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { aiValidationService } from '../../../services/ai-validation.service'
 
 export const aiRouter = router({
-  validateProposal: publicProcedure
+  validateProposal: protectedProcedure
     .input(z.object({
       proposalId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { proposalId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { proposalId } = input
+      const { userId } = ctx
 
       const proposal = await prisma.proposal.findUnique({
         where: { id: proposalId },
@@ -57,13 +57,13 @@ export const aiRouter = router({
       return { validation }
     }),
 
-  validateProject: publicProcedure
+  validateProject: protectedProcedure
     .input(z.object({
       projectId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { projectId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { projectId } = input
+      const { userId } = ctx
 
       const project = await prisma.project.findUnique({
         where: { id: projectId },
@@ -114,13 +114,13 @@ export const aiRouter = router({
       return { validation }
     }),
 
-  validateTask: publicProcedure
+  validateTask: protectedProcedure
     .input(z.object({
       taskId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { taskId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { taskId } = input
+      const { userId } = ctx
 
       const task = await prisma.task.findUnique({
         where: { id: taskId },
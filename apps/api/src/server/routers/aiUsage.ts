@@ -1,7 +1,7 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, adminProcedure, bandMemberProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
-import { ENVIRONMENTAL_FACTORS } from '../../lib/ai-client'
+import { ENVIRONMENTAL_FACTORS } from '../../lib/ai'
 
 export const aiUsageRouter = router({
   /**
@@ -33,6 +33,7 @@ export const aiUsageRouter = router({
           waterMl: acc.waterMl + record.waterMl,
           electricityWh: acc.electricityWh + record.electricityWh,
           ledMinutes: acc.ledMinutes + record.ledMinutes,
+          costUsd: acc.costUsd + record.costUsd,
           count: acc.count + 1,
         }),
         {
@@ -43,6 +44,7 @@ export const aiUsageRouter = router({
           waterMl: 0,
           electricityWh: 0,
           ledMinutes: 0,
+          costUsd: 0,
           count: 0,
         }
       )
@@ -56,9 +58,8 @@ export const aiUsageRouter = router({
   /**
    * Get AI usage for a band (for band admins)
    */
-  getBandUsage: publicProcedure
+  getBandUsage: bandMemberProcedure
     .input(z.object({
-      bandId: z.string(),
       startDate: z.coerce.date().optional(),
       endDate: z.coerce.date().optional(),
     }))
@@ -87,6 +88,7 @@ export const aiUsageRouter = router({
             waterMl: 0,
             electricityWh: 0,
             ledMinutes: 0,
+            costUsd: 0,
           }
         }
         acc[record.operation].count++
@@ -95,6 +97,7 @@ export const aiUsageRouter = router({
         acc[record.operation].waterMl += record.waterMl
         acc[record.operation].electricityWh += record.electricityWh
         acc[record.operation].ledMinutes += record.ledMinutes
+        acc[record.operation].costUsd += record.costUsd
         return acc
       }, {} as Record<string, any>)
 
@@ -108,6 +111,7 @@ export const aiUsageRouter = router({
           waterMl: acc.waterMl + record.waterMl,
           electricityWh: acc.electricityWh + record.electricityWh,
           ledMinutes: acc.ledMinutes + record.ledMinutes,
+          costUsd: acc.costUsd + record.costUsd,
           count: acc.count + 1,
         }),
         {
@@ -118,6 +122,7 @@ export const aiUsageRouter = router({
           waterMl: 0,
           electricityWh: 0,
           ledMinutes: 0,
+          costUsd: 0,
           count: 0,
         }
       )
@@ -132,7 +137,7 @@ export const aiUsageRouter = router({
   /**
    * Get platform-wide AI usage (admin only)
    */
-  getPlatformUsage: publicProcedure
+  getPlatformUsage: adminProcedure
     .input(z.object({
       startDate: z.coerce.date().optional(),
       endDate: z.coerce.date().optional(),
@@ -158,6 +163,7 @@ export const aiUsageRouter = router({
           waterMl: true,
           electricityWh: true,
           ledMinutes: true,
+          costUsd: true,
           durationMs: true,
         },
         _count: true,
@@ -177,6 +183,18 @@ export const aiUsageRouter = router({
           waterMl: true,
           electricityWh: true,
           ledMinutes: true,
+          costUsd: true,
+        },
+        _count: true,
+      })
+
+      // Get breakdown by provider and model
+      const byModel = await prisma.aIUsage.groupBy({
+        by: ['provider', 'model'],
+        where,
+        _sum: {
+          totalTokens: true,
+          costUsd: true,
         },
         _count: true,
       })
@@ -214,6 +232,7 @@ export const aiUsageRouter = router({
           waterMl: aggregation._sum.waterMl || 0,
           electricityWh: aggregation._sum.electricityWh || 0,
           ledMinutes: aggregation._sum.ledMinutes || 0,
+          costUsd: aggregation._sum.costUsd || 0,
           totalDurationMs: aggregation._sum.durationMs || 0,
           avgTokens: aggregation._avg.totalTokens || 0,
           avgDurationMs: aggregation._avg.durationMs || 0,
@@ -226,6 +245,14 @@ export const aiUsageRouter = router({
           waterMl: op._sum.waterMl || 0,
           electricityWh: op._sum.electricityWh || 0,
           ledMinutes: op._sum.ledMinutes || 0,
+          costUsd: op._sum.costUsd || 0,
+        })),
+        byModel: byModel.map((row) => ({
+          provider: row.provider,
+          model: row.model,
+          count: row._count,
+          totalTokens: row._sum.totalTokens || 0,
+          costUsd: row._sum.costUsd || 0,
         })),
         byBand: byBand.map((band) => ({
           bandId: band.bandId,
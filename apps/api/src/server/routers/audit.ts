@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, bandMemberProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { formatAuditDescription, getAuditCategory, AUDIT_CATEGORIES, AuditCategory } from '../../lib/audit-formatter'
@@ -17,9 +17,8 @@ const CATEGORY_TO_ENTITY_TYPES: Record<AuditCategory, string[]> = {
 }
 
 export const auditRouter = router({
-  list: publicProcedure
+  list: bandMemberProcedure
     .input(z.object({
-      bandId: z.string(),
       category: z.enum(['membership', 'voting', 'proposals', 'projects', 'tasks', 'events', 'settings', 'other']).optional(),
       entityType: z.string().optional(),
       actorId: z.string().optional(),
@@ -139,10 +138,7 @@ export const auditRouter = router({
     }),
 
   // Get members for filter dropdown
-  getBandMembers: publicProcedure
-    .input(z.object({
-      bandId: z.string(),
-    }))
+  getBandMembers: bandMemberProcedure
     .query(async ({ input }) => {
       const members = await prisma.member.findMany({
         where: {
@@ -2,8 +2,10 @@ import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 import { router, publicProcedure, protectedProcedure } from '../trpc'
 import { authService } from '../services/auth.service'
+import { twoFactorService } from '../services/two-factor.service'
 import { emailService } from '../services/email.service'
 import { prisma } from '../../lib/prisma'
+import { verifyRefreshToken } from '../../lib/auth-tokens'
 import bcrypt from 'bcryptjs'
 
 export const authRouter = router({
@@ -27,14 +29,15 @@ export const authRouter = router({
         tosVersion: z.number().int().positive(), // Required: version of ToS/Privacy Policy accepted
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const result = await authService.register(
         input.email,
         input.password,
         input.name,
         input.inviteToken,
         input.guidelinesVersion,
-        input.tosVersion
+        input.tosVersion,
+        { ipAddress: ctx.ipAddress, userAgent: ctx.userAgent }
       )
 
       return {
@@ -73,15 +76,10 @@ export const authRouter = router({
   /**
    * Resend verification email
    */
-  resendVerification: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
+  resendVerification: protectedProcedure
+    .mutation(async ({ ctx }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           email: true,
           name: true,
@@ -97,7 +95,7 @@ export const authRouter = router({
         throw new Error('Email already verified')
       }
 
-      await emailService.sendVerificationEmail(input.userId, user.email, user.name)
+      await emailService.sendVerificationEmail(ctx.userId, user.email, user.name)
 
       return {
         success: true,
@@ -115,8 +113,20 @@ export const authRouter = router({
         password: z.string().min(1, 'Password is required'),
       })
     )
-    .mutation(async ({ input }) => {
-      const result = await authService.login(input.email, input.password)
+    .mutation(async ({ ctx, input }) => {
+      const result = await authService.login(input.email, input.password, {
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+      })
+
+      if (result.twoFactorRequired) {
+        return {
+          success: true,
+          message: 'Enter the code from your authenticator app',
+          twoFactorRequired: true as const,
+          challengeToken: result.challengeToken,
+        }
+      }
 
       return {
         success: true,
@@ -124,26 +134,227 @@ export const authRouter = router({
         user: result.user,
         accessToken: result.accessToken,
         refreshToken: result.refreshToken,
+        twoFactorRequired: false as const,
         bandsInvited: result.bandsInvited,
       }
     }),
 
   /**
-   * Get waitlist access status - drives the waiting-room gate.
-   * Admins always have access; everyone else needs accessApproved = true.
+   * Finish signing in with a 2FA code (or recovery code) after `login`
+   * returned a challenge
    */
-  getAccessStatus: protectedProcedure
+  loginWithTwoFactor: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().min(1, 'Code is required').max(20),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await authService.loginWithTwoFactor(input.challengeToken, input.code, {
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+      })
+
+      return {
+        success: true,
+        message: 'Logged in successfully',
+        user: result.user,
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        bandsInvited: result.bandsInvited,
+      }
+    }),
+
+  /**
+   * Swap a refresh token for a fresh access token and a rotated refresh token
+   */
+  refresh: publicProcedure
+    .input(
+      z.object({
+        refreshToken: z.string().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const tokens = await authService.refreshTokens(input.refreshToken, {
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+      })
+
+      return {
+        success: true,
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      }
+    }),
+
+  /**
+   * Sign out this device. Takes the refresh token so it works after the
+   * access token has expired.
+   */
+  logout: publicProcedure
+    .input(
+      z.object({
+        refreshToken: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const decoded = verifyRefreshToken(input.refreshToken)
+
+      if (decoded) {
+        await authService.revokeSession(decoded.sessionId, 'SIGNED_OUT')
+      }
+
+      return { success: true }
+    }),
+
+  /**
+   * List the devices the user is signed in on
+   */
+  listSessions: protectedProcedure
+    .query(async ({ ctx }) => {
+      const sessions = await authService.listSessions(ctx.userId, ctx.sessionId)
+
+      return { sessions }
+    }),
+
+  /**
+   * Sign out one of the user's devices
+   */
+  revokeSession: protectedProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const session = await prisma.session.findUnique({
+        where: { id: input.sessionId },
+        select: { userId: true },
+      })
+
+      if (!session || session.userId !== ctx.userId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Session not found',
+        })
+      }
+
+      await authService.revokeSession(input.sessionId, 'REVOKED_BY_USER')
+
+      return { success: true }
+    }),
+
+  /**
+   * Sign out every device except this one
+   */
+  revokeOtherSessions: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const count = await authService.revokeAllSessions(ctx.userId, 'REVOKED_BY_USER', ctx.sessionId)
+
+      return { success: true, count }
+    }),
+
+  /**
+   * Two-factor status for the security settings
+   */
+  getTwoFactorStatus: protectedProcedure
+    .query(async ({ ctx }) => {
+      return twoFactorService.getStatus(ctx.userId)
+    }),
+
+  /**
+   * Start 2FA setup: returns the secret to add to an authenticator app
+   */
+  beginTwoFactorSetup: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const setup = await twoFactorService.beginSetup(ctx.userId)
+
+      return { success: true, ...setup }
+    }),
+
+  /**
+   * Confirm a code from the app to turn 2FA on. The recovery codes in the
+   * response are not shown again.
+   */
+  enableTwoFactor: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().min(1, 'Code is required').max(20),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { recoveryCodes } = await twoFactorService.enable(ctx.userId, input.code, ctx.sessionId)
+
+      return {
+        success: true,
+        message: 'Two-factor authentication enabled',
+        recoveryCodes,
+      }
+    }),
+
+  /**
+   * Turn 2FA off
+   */
+  disableTwoFactor: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().min(1, 'Code is required').max(20),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await twoFactorService.disable(ctx.userId, input.code)
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled',
+      }
+    }),
+
+  /**
+   * Replace the recovery codes
+   */
+  regenerateRecoveryCodes: protectedProcedure
+    .input(
+      z.object({
+        code: z.string().min(1, 'Code is required').max(20),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { recoveryCodes } = await twoFactorService.regenerateRecoveryCodes(ctx.userId, input.code)
+
+      return { success: true, recoveryCodes }
+    }),
+
+  /**
+   * Enter a 2FA code on this device before a sensitive action
+   */
+  verifyStepUp: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
+        code: z.string().min(1, 'Code is required').max(20),
       })
     )
-    .query(async ({ ctx, input }) => {
-      // Only ever report on the authenticated caller — never an arbitrary id.
-      if (input.userId !== ctx.userId) {
-        throw new TRPCError({ code: 'FORBIDDEN', message: 'Not allowed.' })
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.sessionId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'You must be signed in.',
+        })
       }
 
+      await twoFactorService.verifyCode(ctx.userId, input.code)
+      await twoFactorService.markSessionVerified(ctx.sessionId)
+
+      return { success: true }
+    }),
+
+  /**
+   * Get waitlist access status - drives the waiting-room gate.
+   * Admins always have access; everyone else needs accessApproved = true.
+   */
+  getAccessStatus: protectedProcedure
+    .query(async ({ ctx }) => {
       const user = await prisma.user.findUnique({
         where: { id: ctx.userId },
         select: {
@@ -166,15 +377,10 @@ export const authRouter = router({
   /**
    * Get user profile
    */
-  getProfile: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getProfile: protectedProcedure
+    .query(async ({ ctx }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           id: true,
           email: true,
@@ -204,10 +410,9 @@ export const authRouter = router({
   /**
    * Update user profile
    */
-  updateProfile: publicProcedure
+  updateProfile: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         zipcode: z.string().min(3, 'Postal code must be at least 3 characters').max(10, 'Postal code must be at most 10 characters'),
         strengths: z.string().min(1, 'Please enter at least one strength'),
         weaknesses: z.string().min(1, 'Please enter at least one area for improvement'),
@@ -215,7 +420,7 @@ export const authRouter = router({
         developmentPath: z.string().min(1, 'Please enter at least one learning goal'),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Convert comma-separated strings to arrays
       const strengthsArray = input.strengths.split(',').map(s => s.trim()).filter(Boolean)
       const weaknessesArray = input.weaknesses.split(',').map(s => s.trim()).filter(Boolean)
@@ -224,7 +429,7 @@ export const authRouter = router({
 
       // Update user in database
       const user = await prisma.user.update({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         data: {
           zipcode: input.zipcode,
           strengths: strengthsArray,
@@ -336,6 +541,9 @@ export const authRouter = router({
         },
       })
 
+      // Whoever had the old password may still be signed in
+      await authService.revokeAllSessions(user.id, 'PASSWORD_CHANGED')
+
       return {
         success: true,
         message: 'Password reset successfully. You can now sign in with your new password.',
@@ -345,10 +553,9 @@ export const authRouter = router({
   /**
    * Change password
    */
-  changePassword: publicProcedure
+  changePassword: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         currentPassword: z.string().min(1, 'Current password is required'),
         newPassword: z
           .string()
@@ -356,9 +563,9 @@ export const authRouter = router({
           .max(100, 'Password must be less than 100 characters'),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
       })
 
       if (!user) {
@@ -377,29 +584,37 @@ export const authRouter = router({
 
       // Update password
       await prisma.user.update({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         data: { password: hashedPassword },
       })
 
+      // Sign out every device, then start a new session for this one
+      await authService.revokeAllSessions(ctx.userId, 'PASSWORD_CHANGED')
+      const { accessToken, refreshToken } = await authService.generateTokens(ctx.userId, {
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+      })
+
       return {
         success: true,
-        message: 'Password changed successfully',
+        message: 'Password changed successfully. Other devices have been signed out.',
+        accessToken,
+        refreshToken,
       }
     }),
 
   /**
    * Delete account
    */
-  deleteAccount: publicProcedure
+  deleteAccount: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         password: z.string().min(1, 'Password is required'),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
       })
 
       if (!user) {
@@ -416,7 +631,7 @@ export const authRouter = router({
       // Check if user created any active (non-dissolved) bands
       const activeBandsCreated = await prisma.band.findMany({
         where: {
-          createdById: input.userId,
+          createdById: ctx.userId,
           dissolvedAt: null,
         },
         select: { id: true, name: true, slug: true },
@@ -432,7 +647,7 @@ export const authRouter = router({
 
       // Get all bands where user is a member (to reassign content to founders)
       const userMemberships = await prisma.member.findMany({
-        where: { userId: input.userId, status: 'ACTIVE' },
+        where: { userId: ctx.userId, status: 'ACTIVE' },
         include: {
           band: {
             include: {
@@ -449,14 +664,14 @@ export const authRouter = router({
       const bandFounderMap = new Map<string, string>()
       for (const membership of userMemberships) {
         const founder = membership.band.members[0]
-        if (founder && founder.userId !== input.userId) {
+        if (founder && founder.userId !== ctx.userId) {
           bandFounderMap.set(membership.bandId, founder.userId)
         }
       }
 
       // Soft delete user and clean up related records
       await prisma.$transaction(async (tx) => {
-        const userId = input.userId
+        const userId = ctx.userId
 
         // Delete help interactions
         await tx.helpInteraction.deleteMany({ where: { userId } })
@@ -684,15 +899,18 @@ export const authRouter = router({
         // KEEP files - they may be attached to financial records or other important data
         // Files uploaded by this user remain in the system
 
-        // Delete notifications and preferences
+        // Delete notifications, preferences and push subscriptions
         await tx.notification.deleteMany({ where: { userId } })
         await tx.notificationPreference.deleteMany({ where: { userId } })
+        await tx.bandNotificationSetting.deleteMany({ where: { userId } })
+        await tx.pushSubscription.deleteMany({ where: { userId } })
 
         // Delete memberships
         await tx.member.deleteMany({ where: { userId } })
 
-        // Delete sessions
+        // Delete sessions and 2FA recovery codes
         await tx.session.deleteMany({ where: { userId } })
+        await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } })
 
         // Soft delete the user: clear PII but keep id and name for audit trail
         // Email is set to a unique placeholder to allow re-registration
@@ -712,6 +930,10 @@ export const authRouter = router({
             verificationToken: null,
             passwordResetToken: null,
             passwordResetExpires: null,
+            twoFactorSecret: null,
+            twoFactorEnabledAt: null,
+            twoFactorLastUsedStep: null,
+            smsPhoneNumber: null,
             stripeCustomerId: null,
             stripeSubscriptionId: null,
             subscriptionStatus: 'INCOMPLETE',
@@ -744,25 +966,26 @@ export const authRouter = router({
   /**
    * Get current user (requires authentication)
    */
-  me: publicProcedure.query(async () => {
-    // TODO: Add authentication middleware
-    return {
-      message: 'This will return current user after adding auth middleware',
+  me: protectedProcedure.query(async ({ ctx }) => {
+    const user = await prisma.user.findUnique({
+      where: { id: ctx.userId },
+      select: { id: true, name: true, email: true },
+    })
+
+    if (!user) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
     }
+
+    return { user }
   }),
 
   /**
    * Get user's own warnings
    */
-  getMyWarnings: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getMyWarnings: protectedProcedure
+    .query(async ({ ctx }) => {
       const warnings = await prisma.warning.findMany({
-        where: { userId: input.userId },
+        where: { userId: ctx.userId },
         orderBy: { createdAt: 'desc' },
         select: {
           id: true,
@@ -779,19 +1002,18 @@ export const authRouter = router({
   /**
    * Acknowledge a warning
    */
-  acknowledgeWarning: publicProcedure
+  acknowledgeWarning: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         warningId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Verify warning belongs to user
       const warning = await prisma.warning.findFirst({
         where: {
           id: input.warningId,
-          userId: input.userId,
+          userId: ctx.userId,
         },
       })
 
@@ -813,16 +1035,11 @@ export const authRouter = router({
   /**
    * Acknowledge all warnings
    */
-  acknowledgeAllWarnings: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
+  acknowledgeAllWarnings: protectedProcedure
+    .mutation(async ({ ctx }) => {
       await prisma.warning.updateMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           acknowledged: false,
         },
         data: {
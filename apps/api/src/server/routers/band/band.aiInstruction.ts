@@ -1,8 +1,8 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import type { AIOperationType } from '../../../lib/ai-client'
+import type { AIOperationType } from '../../../lib/ai'
 
 // Roles that can manage AI instructions
 const CAN_MANAGE_AI = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
@@ -30,31 +30,14 @@ export const bandAIInstructionRouter = router({
   /**
    * List all AI instructions for a band
    */
-  list: publicProcedure
+  list: bandMemberProcedure
     .input(
       z.object({
-        bandId: z.string(),
-        userId: z.string(),
         includeInactive: z.boolean().optional().default(false),
       })
     )
-    .query(async ({ input }) => {
-      // Check membership and role
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member to view AI instructions',
-        })
-      }
+    .query(async ({ ctx, input }) => {
+      const membership = ctx.member
 
       if (!CAN_MANAGE_AI.includes(membership.role)) {
         throw new TRPCError({
@@ -85,33 +68,16 @@ export const bandAIInstructionRouter = router({
   /**
    * Create a new AI instruction
    */
-  create: publicProcedure
+  create: bandMemberProcedure
     .input(
       z.object({
-        bandId: z.string(),
-        userId: z.string(),
         instruction: z.string().min(10).max(500),
         operation: z.enum(OPERATION_TYPES).optional(),
         category: z.enum(CATEGORY_TYPES).optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      // Check membership and role
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member to create AI instructions',
-        })
-      }
+    .mutation(async ({ ctx, input }) => {
+      const membership = ctx.member
 
       if (!CAN_MANAGE_AI.includes(membership.role)) {
         throw new TRPCError({
@@ -125,7 +91,7 @@ export const bandAIInstructionRouter = router({
       const instruction = await prisma.aIInstruction.create({
         data: {
           bandId: input.bandId,
-          createdById: input.userId,
+          createdById: ctx.userId,
           instruction: input.instruction,
           operation: input.operation || null,
           category: input.operation ? null : (input.category || null),
@@ -145,7 +111,7 @@ export const bandAIInstructionRouter = router({
           entityType: 'AIInstruction',
           entityId: instruction.id,
           entityName: instruction.instruction.substring(0, 50),
-          actorId: input.userId,
+          actorId: ctx.userId,
           actorType: 'user',
         },
       })
@@ -156,32 +122,15 @@ export const bandAIInstructionRouter = router({
   /**
    * Toggle an instruction's active status
    */
-  toggle: publicProcedure
+  toggle: bandMemberProcedure
     .input(
       z.object({
-        bandId: z.string(),
-        userId: z.string(),
         instructionId: z.string(),
         isActive: z.boolean(),
       })
     )
-    .mutation(async ({ input }) => {
-      // Check membership and role
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+    .mutation(async ({ ctx, input }) => {
+      const membership = ctx.member
 
       if (!CAN_MANAGE_AI.includes(membership.role)) {
         throw new TRPCError({
@@ -220,7 +169,7 @@ export const bandAIInstructionRouter = router({
           entityType: 'AIInstruction',
           entityId: instruction.id,
           entityName: instruction.instruction.substring(0, 50),
-          actorId: input.userId,
+          actorId: ctx.userId,
           actorType: 'user',
           changes: { isActive: { from: existing.isActive, to: input.isActive } },
         },
@@ -232,31 +181,14 @@ export const bandAIInstructionRouter = router({
   /**
    * Delete an instruction
    */
-  delete: publicProcedure
+  delete: bandMemberProcedure
     .input(
       z.object({
-        bandId: z.string(),
-        userId: z.string(),
         instructionId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      // Check membership and role
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+    .mutation(async ({ ctx, input }) => {
+      const membership = ctx.member
 
       if (!CAN_MANAGE_AI.includes(membership.role)) {
         throw new TRPCError({
@@ -289,7 +221,7 @@ export const bandAIInstructionRouter = router({
           entityType: 'AIInstruction',
           entityId: input.instructionId,
           entityName: existing.instruction.substring(0, 50),
-          actorId: input.userId,
+          actorId: ctx.userId,
           actorType: 'user',
         },
       })
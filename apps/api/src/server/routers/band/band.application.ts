@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { notificationService } from '../../../services/notification.service'
 import { webhookService } from '../../../services/webhook.service'
@@ -19,21 +19,20 @@ export const bandApplicationRouter = router({
   /**
    * Apply to join a band
    */
-  applyToJoin: publicProcedure
+  applyToJoin: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         bandId: z.string(),
         notes: z.string().min(10, 'Please write at least 10 characters about why you want to join'),
         requestedRole: z.enum(['GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check if user is already a member
       const existingMembership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -65,7 +64,7 @@ export const bandApplicationRouter = router({
       })
 
       const applicant = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: { name: true },
       })
 
@@ -93,7 +92,7 @@ export const bandApplicationRouter = router({
       // Create membership application
       const membership = await prisma.member.create({
         data: {
-          userId: input.userId,
+          userId: ctx.userId,
           bandId: input.bandId,
           role: 'VOTING_MEMBER', // Default role for applicants
           requestedRole: input.requestedRole,
@@ -213,15 +212,14 @@ export const bandApplicationRouter = router({
   /**
    * Approve application
    */
-  approveApplication: publicProcedure
+  approveApplication: protectedProcedure
     .input(
       z.object({
         membershipId: z.string(),
-        approverId: z.string(),
         role: z.enum(['GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Get the membership
       const membership = await prisma.member.findUnique({
         where: { id: input.membershipId },
@@ -239,7 +237,7 @@ export const bandApplicationRouter = router({
       const approverMembership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.approverId,
+            userId: ctx.userId,
             bandId: membership.bandId,
           },
         },
@@ -335,14 +333,13 @@ export const bandApplicationRouter = router({
   /**
    * Reject application
    */
-  rejectApplication: publicProcedure
+  rejectApplication: protectedProcedure
     .input(
       z.object({
         membershipId: z.string(),
-        approverId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Get the membership
       const membership = await prisma.member.findUnique({
         where: { id: input.membershipId },
@@ -360,7 +357,7 @@ export const bandApplicationRouter = router({
       const approverMembership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.approverId,
+            userId: ctx.userId,
             bandId: membership.bandId,
           },
         },
@@ -400,15 +397,14 @@ export const bandApplicationRouter = router({
   /**
    * Vote on a membership application
    */
-  voteOnApplication: publicProcedure
+  voteOnApplication: protectedProcedure
     .input(
       z.object({
         membershipId: z.string(),
-        voterId: z.string(),
         vote: z.enum(['APPROVE', 'REJECT']),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Get the membership application
       const membership = await prisma.member.findUnique({
         where: { id: input.membershipId },
@@ -456,7 +452,7 @@ export const bandApplicationRouter = router({
       const voterMembership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.voterId,
+            userId: ctx.userId,
             bandId: membership.bandId,
           },
         },
@@ -473,7 +469,7 @@ export const bandApplicationRouter = router({
 
       // Get voter info for notification
       const voter = await prisma.user.findUnique({
-        where: { id: input.voterId },
+        where: { id: ctx.userId },
         select: { name: true },
       })
 
@@ -482,12 +478,12 @@ export const bandApplicationRouter = router({
         where: {
           memberId_voterId: {
             memberId: input.membershipId,
-            voterId: input.voterId,
+            voterId: ctx.userId,
           },
         },
         create: {
           memberId: input.membershipId,
-          voterId: input.voterId,
+          voterId: ctx.userId,
           vote: input.vote,
         },
         update: {
@@ -517,14 +513,13 @@ export const bandApplicationRouter = router({
   /**
    * Get votes for a specific application
    */
-  getApplicationVotes: publicProcedure
+  getApplicationVotes: protectedProcedure
     .input(
       z.object({
         membershipId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Verify user is a member of the band
       const membership = await prisma.member.findUnique({
         where: { id: input.membershipId },
@@ -545,7 +540,7 @@ export const bandApplicationRouter = router({
       const userMembership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: membership.bandId,
           },
         },
@@ -582,7 +577,7 @@ export const bandApplicationRouter = router({
       const rejectVotes = votes.filter(v => v.vote === 'REJECT').length
 
       // Find current user's vote
-      const userVote = votes.find(v => v.voterId === input.userId)
+      const userVote = votes.find(v => v.voterId === ctx.userId)
 
       return {
         success: true,
@@ -602,17 +597,12 @@ export const bandApplicationRouter = router({
     /**
    * Get all pending applications for bands where user can approve
    */
-  getMyApplicationsToReview: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getMyApplicationsToReview: protectedProcedure
+    .query(async ({ ctx }) => {
       // Get all bands where user is a member
       const memberships = await prisma.member.findMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           status: 'ACTIVE',
         },
         include: {
@@ -1,7 +1,8 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { bandBillingService } from '../../services/band-billing.service'
+import { twoFactorService } from '../../services/two-factor.service'
 import { TRPCError } from '@trpc/server'
 import { checkGoodStanding } from '../../../lib/dues-enforcement'
 import { MIN_MEMBERS_TO_ACTIVATE, REQUIRE_PAYMENT_TO_ACTIVATE } from '@band-it/shared'
@@ -10,31 +11,9 @@ export const bandBillingRouter = router({
   /**
    * Get billing info for a band
    */
-  getBillingInfo: publicProcedure
-    .input(
-      z.object({
-        bandId: z.string(),
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      // Verify user is a member
-      const member = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-        select: { status: true },
-      })
-
-      if (!member || member.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member to view billing info',
-        })
-      }
+  getBillingInfo: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const member = ctx.member
 
       const billingInfo = await bandBillingService.getBillingInfo(input.bandId)
 
@@ -48,18 +27,17 @@ export const bandBillingRouter = router({
    * Create checkout session for initial payment
    * Only billing owner can do this
    */
-  createCheckoutSession: publicProcedure
+  createCheckoutSession: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const result = await bandBillingService.createCheckoutSession(
           input.bandId,
-          input.userId
+          ctx.userId
         )
 
         return {
@@ -79,18 +57,17 @@ export const bandBillingRouter = router({
    * Create portal session for managing payment methods
    * Only billing owner can do this
    */
-  createPortalSession: publicProcedure
+  createPortalSession: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const result = await bandBillingService.createPortalSession(
           input.bandId,
-          input.userId
+          ctx.userId
         )
 
         return {
@@ -109,16 +86,15 @@ export const bandBillingRouter = router({
    * Claim billing ownership (self-service)
    * Any active member can claim if there's no current owner
    */
-  claimBillingOwnership: publicProcedure
+  claimBillingOwnership: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        await bandBillingService.claimBillingOwnership(input.bandId, input.userId)
+        await bandBillingService.claimBillingOwnership(input.bandId, ctx.userId)
 
         return {
           success: true,
@@ -136,19 +112,20 @@ export const bandBillingRouter = router({
    * Transfer billing ownership to another member
    * Only current billing owner can do this
    */
-  transferBillingOwnership: publicProcedure
+  transferBillingOwnership: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(), // Current owner
         newOwnerId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await twoFactorService.requireStepUp(ctx.userId, ctx.sessionId, input.bandId)
+
       try {
         await bandBillingService.transferBillingOwnership(
           input.bandId,
-          input.userId,
+          ctx.userId,
           input.newOwnerId
         )
 
@@ -174,14 +151,13 @@ export const bandBillingRouter = router({
    * Check if band needs payment
    * Returns status and whether current user is billing owner
    */
-  getPaymentStatus: publicProcedure
+  getPaymentStatus: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const band = await prisma.band.findUnique({
         where: { id: input.bandId },
         select: {
@@ -206,7 +182,7 @@ export const bandBillingRouter = router({
         })
       }
 
-      const isBillingOwner = band.billingOwnerId === input.userId
+      const isBillingOwner = band.billingOwnerId === ctx.userId
       const memberCount = band.members.length
       // In test mode (REQUIRE_PAYMENT_TO_ACTIVATE=false), payment is never required
       const needsPayment = REQUIRE_PAYMENT_TO_ACTIVATE && band.billingStatus === 'PENDING'
@@ -242,31 +218,9 @@ export const bandBillingRouter = router({
    * Get list of eligible billing owner candidates
    * (active members who can claim ownership)
    */
-  getBillingOwnerCandidates: publicProcedure
-    .input(
-      z.object({
-        bandId: z.string(),
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      // Verify user is a member
-      const member = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-        select: { status: true },
-      })
-
-      if (!member || member.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+  getBillingOwnerCandidates: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const member = ctx.member
 
       // Get all active members
       const activeMembers = await prisma.member.findMany({
@@ -304,14 +258,13 @@ export const bandBillingRouter = router({
   /**
    * Get the current user's dues standing for a band
    */
-  getMyStanding: publicProcedure
+  getMyStanding: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      return checkGoodStanding(input.bandId, input.userId)
+    .query(async ({ ctx, input }) => {
+      return checkGoodStanding(input.bandId, ctx.userId)
     }),
 })
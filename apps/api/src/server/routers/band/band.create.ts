@@ -1,6 +1,6 @@
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { createDefaultChannel } from '../channel'
 import { checkAndSetBandActivation } from './band.dissolve'
@@ -17,16 +17,16 @@ export const bandCreateRouter = router({
   /**
    * Create a new client business band
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(businessBandCreateInputSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       if (input.parentBandId) {
         const parentBand = await prisma.band.findUnique({
           where: { id: input.parentBandId },
           include: {
             members: {
               where: {
-                userId: input.userId,
+                userId: ctx.userId,
                 status: 'ACTIVE',
               },
             },
@@ -96,7 +96,7 @@ export const bandCreateRouter = router({
           ...mapAddress(input),
           ...mapSocialLinks(input),
           imageUrl: input.logoUrl ?? null,
-          createdById: input.userId,
+          createdById: ctx.userId,
           parentBandId: input.parentBandId || null,
           status: 'PENDING',
         },
@@ -104,7 +104,7 @@ export const bandCreateRouter = router({
 
       await prisma.member.create({
         data: {
-          userId: input.userId,
+          userId: ctx.userId,
           bandId: band.id,
           role: 'FOUNDER',
           status: 'ACTIVE',
@@ -112,10 +112,10 @@ export const bandCreateRouter = router({
       })
 
       await checkAndSetBandActivation(band.id)
-      await createDefaultChannel(band.id, input.userId)
+      await createDefaultChannel(band.id, ctx.userId)
 
       await analyticsService.trackEvent('band_created', {
-        userId: input.userId,
+        userId: ctx.userId,
         metadata: {
           bandId: band.id,
           bandName: band.name,
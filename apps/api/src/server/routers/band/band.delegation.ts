@@ -0,0 +1,161 @@
+import { z } from 'zod'
+import { router, bandMemberProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { logAuditEvent } from '../../../lib/auditContext'
+
+// Roles that can vote, and so delegate or receive delegated votes
+const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
+
+// DISSOLUTION and ADD_FOUNDER always need direct votes
+const DELEGABLE_TYPES = ['GENERAL', 'BUDGET', 'PROJECT', 'POLICY', 'MEMBERSHIP'] as const
+
+const proposalTypeInput = z.enum(DELEGABLE_TYPES).nullable() // null = all proposal types
+
+export const bandDelegationRouter = router({
+  /**
+   * Delegations the caller has given and received in a band
+   */
+  getMyDelegations: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const [given, received] = await Promise.all([
+        prisma.voteDelegation.findMany({
+          where: { bandId: input.bandId, delegatorId: ctx.userId },
+          include: { delegate: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.voteDelegation.findMany({
+          where: { bandId: input.bandId, delegateId: ctx.userId },
+          include: { delegator: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        }),
+      ])
+
+      return {
+        given,
+        received,
+        canDelegate: CAN_VOTE.includes(ctx.member.role),
+      }
+    }),
+
+  /**
+   * Name a proxy for every proposal type (proposalType null) or one type.
+   * Replaces any existing delegation with the same scope.
+   */
+  setDelegation: bandMemberProcedure
+    .input(z.object({
+      delegateUserId: z.string(),
+      proposalType: proposalTypeInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!CAN_VOTE.includes(ctx.member.role)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Your role does not have permission to vote' })
+      }
+
+      if (input.delegateUserId === ctx.userId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot delegate your vote to yourself' })
+      }
+
+      const delegateMember = await prisma.member.findUnique({
+        where: { userId_bandId: { userId: input.delegateUserId, bandId: input.bandId } },
+        include: { user: { select: { name: true } } },
+      })
+
+      if (!delegateMember || delegateMember.status !== 'ACTIVE' || !CAN_VOTE.includes(delegateMember.role)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Your proxy must be an active voting member of this band' })
+      }
+
+      // Refuse delegations that would loop back to the caller
+      const delegations = await prisma.voteDelegation.findMany({
+        where: {
+          bandId: input.bandId,
+          OR: [{ proposalType: input.proposalType }, { proposalType: null }],
+        },
+        select: { delegatorId: true, delegateId: true, proposalType: true },
+      })
+      const proxyOf = new Map<string, string>()
+      for (const d of delegations) {
+        if (d.proposalType || !proxyOf.has(d.delegatorId)) {
+          proxyOf.set(d.delegatorId, d.delegateId)
+        }
+      }
+      const seen = new Set<string>()
+      let current: string | undefined = input.delegateUserId
+      while (current && !seen.has(current)) {
+        if (current === ctx.userId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `${delegateMember.user.name} already delegates to you, directly or through others`,
+          })
+        }
+        seen.add(current)
+        current = proxyOf.get(current)
+      }
+
+      const existing = await prisma.voteDelegation.findFirst({
+        where: { bandId: input.bandId, delegatorId: ctx.userId, proposalType: input.proposalType },
+        include: { delegate: { select: { name: true } } },
+      })
+
+      const delegation = existing
+        ? await prisma.voteDelegation.update({
+            where: { id: existing.id },
+            data: { delegateId: input.delegateUserId },
+          })
+        : await prisma.voteDelegation.create({
+            data: {
+              bandId: input.bandId,
+              delegatorId: ctx.userId,
+              delegateId: input.delegateUserId,
+              proposalType: input.proposalType,
+            },
+          })
+
+      await logAuditEvent({
+        bandId: input.bandId,
+        action: 'vote_delegation_set',
+        entityType: 'VoteDelegation',
+        entityId: delegation.id,
+        entityName: delegateMember.user.name,
+        changes: {
+          // `from` is the replaced proxy, if any
+          delegate: { from: existing?.delegate.name ?? null, to: delegateMember.user.name },
+          proposalType: { from: null, to: input.proposalType },
+        },
+      })
+
+      return { success: true, delegation }
+    }),
+
+  /**
+   * Stop delegating for a scope (null = the all-types delegation)
+   */
+  revokeDelegation: bandMemberProcedure
+    .input(z.object({ proposalType: proposalTypeInput }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await prisma.voteDelegation.findFirst({
+        where: { bandId: input.bandId, delegatorId: ctx.userId, proposalType: input.proposalType },
+        include: { delegate: { select: { name: true } } },
+      })
+
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Delegation not found' })
+      }
+
+      await prisma.voteDelegation.delete({ where: { id: existing.id } })
+
+      await logAuditEvent({
+        bandId: input.bandId,
+        action: 'vote_delegation_revoked',
+        entityType: 'VoteDelegation',
+        entityId: existing.id,
+        entityName: existing.delegate.name,
+        changes: {
+          delegate: { from: existing.delegate.name, to: null },
+          proposalType: { from: input.proposalType, to: null },
+        },
+      })
+
+      return { success: true }
+    }),
+})
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import {
@@ -7,6 +7,7 @@ import {
   hasActiveDissolutionProposal,
   executeDissolution,
 } from '../../../lib/band-dissolution'
+import { twoFactorService } from '../../services/two-factor.service'
 import { MIN_MEMBERS_TO_ACTIVATE } from '@band-it/shared'
 
 /**
@@ -51,15 +52,14 @@ export const bandDissolveRouter = router({
   /**
    * Check if band can be dissolved and by what method
    */
-  canDissolve: publicProcedure
+  canDissolve: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const eligibility = await checkDissolutionEligibility(input.bandId, input.userId)
+    .query(async ({ ctx, input }) => {
+      const eligibility = await checkDissolutionEligibility(input.bandId, ctx.userId)
 
       // Also check for active dissolution proposal
       let hasActiveProposal = false
@@ -76,17 +76,16 @@ export const bandDissolveRouter = router({
   /**
    * Direct dissolution by founder when band has fewer than minimum members
    */
-  dissolve: publicProcedure
+  dissolve: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         reason: z.string().min(10, 'Reason must be at least 10 characters').max(1000),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check eligibility
-      const eligibility = await checkDissolutionEligibility(input.bandId, input.userId)
+      const eligibility = await checkDissolutionEligibility(input.bandId, ctx.userId)
 
       if (!eligibility.canDissolve) {
         throw new TRPCError({
@@ -102,10 +101,12 @@ export const bandDissolveRouter = router({
         })
       }
 
+      await twoFactorService.requireStepUp(ctx.userId, ctx.sessionId, input.bandId)
+
       // Execute dissolution
       const result = await executeDissolution(
         input.bandId,
-        input.userId,
+        ctx.userId,
         input.reason,
         'DIRECT'
       )
@@ -121,17 +122,16 @@ export const bandDissolveRouter = router({
   /**
    * Create a dissolution proposal (for bands with minimum or more members)
    */
-  createDissolutionProposal: publicProcedure
+  createDissolutionProposal: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         reason: z.string().min(10, 'Reason must be at least 10 characters').max(2000),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check eligibility
-      const eligibility = await checkDissolutionEligibility(input.bandId, input.userId)
+      const eligibility = await checkDissolutionEligibility(input.bandId, ctx.userId)
 
       if (!eligibility.canDissolve) {
         throw new TRPCError({
@@ -180,7 +180,7 @@ export const bandDissolveRouter = router({
       const proposal = await prisma.proposal.create({
         data: {
           bandId: input.bandId,
-          createdById: input.userId,
+          createdById: ctx.userId,
           type: 'DISSOLUTION',
           title: 'Proposal to Dissolve Band',
           description: input.reason,
@@ -208,18 +208,17 @@ export const bandDissolveRouter = router({
   /**
    * Get archived/dissolved bands (admin only)
    */
-  getArchivedBands: publicProcedure
+  getArchivedBands: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         limit: z.number().min(1).max(100).default(20),
         cursor: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Check if user is admin
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: { isAdmin: true },
       })
 
@@ -271,17 +270,16 @@ export const bandDissolveRouter = router({
   /**
    * Get archived band details (admin only)
    */
-  getArchivedBandDetails: publicProcedure
+  getArchivedBandDetails: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         bandId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Check if user is admin
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: { isAdmin: true },
       })
 
@@ -1,8 +1,9 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
+import { twoFactorService } from '../../services/two-factor.service'
 
 // Roles that can update governance settings
 const CAN_UPDATE_GOVERNANCE = ['FOUNDER', 'GOVERNOR']
@@ -11,30 +12,9 @@ export const bandGovernanceRouter = router({
   /**
    * Get governance settings for a band
    */
-  getGovernanceSettings: publicProcedure
-    .input(
-      z.object({
-        bandId: z.string(),
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      // Check membership
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member to view governance settings',
-        })
-      }
+  getGovernanceSettings: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const membership = ctx.member
 
       const band = await prisma.band.findUnique({
         where: { id: input.bandId },
@@ -46,6 +26,7 @@ export const bandGovernanceRouter = router({
           quorumPercentage: true,
           requireProposalReview: true,
           whoCanManageDocuments: true,
+          requireOfficerTwoFactor: true,
           // Member approval voting settings
           memberApprovalThreshold: true,
           memberApprovalQuorum: true,
@@ -70,17 +51,16 @@ export const bandGovernanceRouter = router({
   /**
    * Update governance settings for a band
    */
-  updateGovernanceSettings: publicProcedure
+  updateGovernanceSettings: bandMemberProcedure
     .input(
       z.object({
-        bandId: z.string(),
-        userId: z.string(),
         votingMethod: z.enum(['SIMPLE_MAJORITY', 'SUPERMAJORITY_66', 'SUPERMAJORITY_75', 'UNANIMOUS']).optional(),
         votingPeriodDays: z.number().int().min(1).max(30).optional(),
         votingPeriodHours: z.number().int().min(1).max(720).nullable().optional(),  // 1 hour to 30 days in hours
         quorumPercentage: z.number().int().min(0).max(100).optional(),
         requireProposalReview: z.boolean().optional(),
         whoCanManageDocuments: z.array(z.enum(['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER'])).optional(),
+        requireOfficerTwoFactor: z.boolean().optional(),  // Founders, governors and treasurers must use 2FA
         // Member approval voting settings
         memberApprovalThreshold: z.number().int().min(1).max(100).optional(),  // % of votes needed to approve
         memberApprovalQuorum: z.number().int().min(0).max(100).optional(),     // Minimum % of voting members that must vote
@@ -88,23 +68,8 @@ export const bandGovernanceRouter = router({
         memberApprovalWindowHours: z.number().int().min(0).max(720).optional(), // Additional hours
       })
     )
-    .mutation(async ({ input }) => {
-      // Check membership and role
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: {
-            userId: input.userId,
-            bandId: input.bandId,
-          },
-        },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member to update governance settings',
-        })
-      }
+    .mutation(async ({ ctx, input }) => {
+      const membership = ctx.member
 
       if (!CAN_UPDATE_GOVERNANCE.includes(membership.role)) {
         throw new TRPCError({
@@ -124,6 +89,7 @@ export const bandGovernanceRouter = router({
           quorumPercentage: true,
           requireProposalReview: true,
           whoCanManageDocuments: true,
+          requireOfficerTwoFactor: true,
           memberApprovalThreshold: true,
           memberApprovalQuorum: true,
           memberApprovalWindowDays: true,
@@ -166,6 +132,26 @@ export const bandGovernanceRouter = router({
         updateData.whoCanManageDocuments = input.whoCanManageDocuments
         changes.whoCanManageDocuments = { from: currentBand.whoCanManageDocuments, to: input.whoCanManageDocuments }
       }
+      if (input.requireOfficerTwoFactor !== undefined && input.requireOfficerTwoFactor !== currentBand.requireOfficerTwoFactor) {
+        // Whoever turns it on is an officer too, and would be locked out of sensitive actions
+        if (input.requireOfficerTwoFactor) {
+          const user = await prisma.user.findUnique({
+            where: { id: ctx.userId },
+            select: { twoFactorEnabledAt: true },
+          })
+          if (!user?.twoFactorEnabledAt) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'Turn on two-factor authentication for your own account before requiring it',
+            })
+          }
+        } else {
+          // Turning it off lowers the bar for every officer, so it needs a fresh code
+          await twoFactorService.requireStepUp(ctx.userId, ctx.sessionId, input.bandId)
+        }
+        updateData.requireOfficerTwoFactor = input.requireOfficerTwoFactor
+        changes.requireOfficerTwoFactor = { from: currentBand.requireOfficerTwoFactor, to: input.requireOfficerTwoFactor }
+      }
 
       // Member approval voting settings
       if (input.memberApprovalThreshold !== undefined && input.memberApprovalThreshold !== currentBand.memberApprovalThreshold) {
@@ -206,6 +192,7 @@ export const bandGovernanceRouter = router({
           quorumPercentage: true,
           requireProposalReview: true,
           whoCanManageDocuments: true,
+          requireOfficerTwoFactor: true,
           memberApprovalThreshold: true,
           memberApprovalQuorum: true,
           memberApprovalWindowDays: true,
@@ -221,7 +208,7 @@ export const bandGovernanceRouter = router({
           entityType: 'Band',
           entityId: input.bandId,
           entityName: currentBand.name,
-          actorId: input.userId,
+          actorId: ctx.userId,
           actorType: 'user',
           changes,
         },
@@ -1,6 +1,6 @@
 import { z } from 'zod'
 import crypto from 'crypto'
-import { router, publicProcedure } from '../../trpc'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { notificationService } from '../../../services/notification.service'
 import { webhookService } from '../../../services/webhook.service'
@@ -66,24 +66,23 @@ export const bandInviteRouter = router({
   /**
    * Invite user to band
    */
-  inviteUser: publicProcedure
+  inviteUser: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        inviterId: z.string(),
         userId: z.string(),
         notes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check dues standing
-      await requireGoodStanding(input.bandId, input.inviterId)
+      await requireGoodStanding(input.bandId, ctx.userId)
 
       // Check if inviter is a member
       const inviterMembership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.inviterId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -143,7 +142,7 @@ export const bandInviteRouter = router({
           bandId: input.bandId,
           role: 'VOTING_MEMBER',
           status: 'INVITED',
-          invitedBy: input.inviterId,
+          invitedBy: ctx.userId,
           notes: input.notes,
         },
         include: {
@@ -182,16 +181,11 @@ export const bandInviteRouter = router({
   /**
    * Get invitations for a user (excludes dissolved bands)
    */
-  getMyInvitations: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getMyInvitations: protectedProcedure
+    .query(async ({ ctx }) => {
       const invitations = await prisma.member.findMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           status: 'INVITED',
           band: {
             dissolvedAt: null, // Exclude dissolved bands
@@ -221,14 +215,13 @@ export const bandInviteRouter = router({
   /**
    * Accept invitation
    */
-  acceptInvitation: publicProcedure
+  acceptInvitation: protectedProcedure
     .input(
       z.object({
         membershipId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const membership = await prisma.member.findUnique({
         where: { id: input.membershipId },
         include: {
@@ -237,7 +230,7 @@ export const bandInviteRouter = router({
         },
       })
 
-      if (!membership || membership.userId !== input.userId) {
+      if (!membership || membership.userId !== ctx.userId) {
         throw new Error('Invitation not found')
       }
 
@@ -291,7 +284,7 @@ export const bandInviteRouter = router({
         where: {
           bandId: membership.bandId,
           status: 'ACTIVE',
-          userId: { not: input.userId }, // Don't notify the new member
+          userId: { not: ctx.userId }, // Don't notify the new member
         },
         select: { userId: true },
       })
@@ -344,14 +337,13 @@ export const bandInviteRouter = router({
   /**
    * Decline invitation
    */
-  declineInvitation: publicProcedure
+  declineInvitation: protectedProcedure
     .input(
       z.object({
         membershipId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const membership = await prisma.member.findUnique({
         where: { id: input.membershipId },
         include: {
@@ -360,7 +352,7 @@ export const bandInviteRouter = router({
         },
       })
 
-      if (!membership || membership.userId !== input.userId) {
+      if (!membership || membership.userId !== ctx.userId) {
         throw new Error('Invitation not found')
       }
 
@@ -405,19 +397,18 @@ export const bandInviteRouter = router({
   /**
    * Leave a band
    */
-  leaveBand: publicProcedure
+  leaveBand: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Get membership
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -473,7 +464,7 @@ export const bandInviteRouter = router({
       }
 
       // Trigger billing checks (member count changes, billing owner left, etc.)
-      await memberBillingTriggers.onMemberRemoved(input.bandId, input.userId)
+      await memberBillingTriggers.onMemberRemoved(input.bandId, ctx.userId)
 
       // Send webhook to external website (non-blocking)
       webhookService.memberLeft(input.bandId, {
@@ -493,20 +484,20 @@ export const bandInviteRouter = router({
   /**
    * Invite someone by email - works for both existing and non-existing users
    */
-  inviteByEmail: publicProcedure
+  inviteByEmail: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        inviterId: z.string(),
         email: z.string().email('Invalid email address'),
         notes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check dues standing
-      await requireGoodStanding(input.bandId, input.inviterId)
+      await requireGoodStanding(input.bandId, ctx.userId)
 
-      const { bandId, inviterId, email, notes } = input
+      const { bandId, email, notes } = input
+      const inviterId = ctx.userId
       const normalizedEmail = email.toLowerCase().trim()
 
       // Get inviter's membership and band info
@@ -678,15 +669,15 @@ export const bandInviteRouter = router({
   /**
    * Get pending invites for a band (admin view)
    */
-  getPendingInvites: publicProcedure
+  getPendingInvites: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Check user is a member with permission
       const membership = await prisma.member.findUnique({
@@ -721,15 +712,15 @@ export const bandInviteRouter = router({
   /**
    * Cancel/revoke a pending invite
    */
-  cancelPendingInvite: publicProcedure
+  cancelPendingInvite: protectedProcedure
     .input(
       z.object({
         inviteId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { inviteId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { inviteId } = input
+      const { userId } = ctx
 
       const pendingInvite = await prisma.pendingInvite.findUnique({
         where: { id: inviteId },
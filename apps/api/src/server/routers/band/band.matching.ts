@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 
 // Types for matching
@@ -228,17 +228,16 @@ export const bandMatchingRouter = router({
   /**
    * Get recommended bands for a user based on profile matching
    */
-  getRecommendedBands: publicProcedure
+  getRecommendedBands: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         limit: z.number().min(1).max(20).default(6),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Get user profile
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           zipcode: true,
           strengths: true,
@@ -259,7 +258,7 @@ export const bandMatchingRouter = router({
 
       // Get user's current band memberships
       const userMemberships = await prisma.member.findMany({
-        where: { userId: input.userId },
+        where: { userId: ctx.userId },
         select: { bandId: true },
       })
       const userBandIds = userMemberships.map(m => m.bandId)
@@ -267,7 +266,7 @@ export const bandMatchingRouter = router({
       // Get user's pending applications
       const pendingApplications = await prisma.member.findMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           status: 'PENDING',
         },
         select: { bandId: true },
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -239,15 +239,15 @@ export const getMemberProfile = publicProcedure
 /**
  * Change a member's role
  */
-export const changeRole = publicProcedure
+export const changeRole = protectedProcedure
   .input(z.object({
     bandId: z.string(),
     memberId: z.string(),
     newRole: MemberRoleEnum,
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, memberId, newRole, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, memberId, newRole } = input
+    const { userId } = ctx
 
     const band = await prisma.band.findUnique({
       where: { id: bandId },
@@ -330,15 +330,15 @@ export const changeRole = publicProcedure
 /**
  * Create a proposal to remove a member
  */
-export const proposeRemoval = publicProcedure
+export const proposeRemoval = protectedProcedure
   .input(z.object({
     bandId: z.string(),
     memberId: z.string(),
     reason: z.string().min(10, 'Please provide a reason for removal'),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, memberId, reason, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, memberId, reason } = input
+    const { userId } = ctx
 
     const band = await prisma.band.findUnique({
       where: { id: bandId },
@@ -436,14 +436,14 @@ export const proposeRemoval = publicProcedure
  * - Current founder becomes GOVERNOR after transfer
  * - Band's createdById is updated to new founder
  */
-export const transferOwnership = publicProcedure
+export const transferOwnership = protectedProcedure
   .input(z.object({
     bandId: z.string(),
     newFounderUserId: z.string(),
-    userId: z.string(), // Current user (must be founder)
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, newFounderUserId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, newFounderUserId } = input
+    const { userId } = ctx
 
     // Get the band with members
     const band = await prisma.band.findUnique({
@@ -545,15 +545,15 @@ export const transferOwnership = publicProcedure
  * - Target must be an active member, not self, not already a founder
  * - Creates an ADD_FOUNDER proposal requiring unanimous approval from all founders
  */
-export const nominateAsFounder = publicProcedure
+export const nominateAsFounder = protectedProcedure
   .input(z.object({
     bandId: z.string(),
     targetMemberId: z.string(),
-    userId: z.string(),
     reason: z.string().min(10, 'Please provide a reason for the nomination'),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, targetMemberId, userId, reason } = input
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, targetMemberId, reason } = input
+    const { userId } = ctx
 
     // Get the band with members
     const band = await prisma.band.findUnique({
@@ -0,0 +1,74 @@
+import { z } from 'zod'
+import { router, bandMemberProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import {
+  participationService,
+  DEMOTION_GRACE_DAYS,
+  DEMOTION_EXEMPT_ROLES,
+  PARTICIPATION_WINDOW_MIN_DAYS,
+  PARTICIPATION_WINDOW_MAX_DAYS,
+} from '../../../services/participation.service'
+
+// Roles that can see every member's participation; others see only their own
+const CAN_VIEW_MEMBER_PARTICIPATION = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
+
+export const bandParticipationRouter = router({
+  /**
+   * Participation dashboard: member scores, meeting attendance and proposal
+   * turnout over a rolling window, plus the band's participation rule
+   */
+  getParticipation: bandMemberProcedure
+    .input(z.object({
+      windowDays: z.number().int()
+        .min(PARTICIPATION_WINDOW_MIN_DAYS)
+        .max(PARTICIPATION_WINDOW_MAX_DAYS)
+        .optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const band = await prisma.band.findUnique({
+        where: { id: input.bandId },
+        select: {
+          quorumPercentage: true,
+          participationRuleEnabled: true,
+          participationWindowDays: true,
+          participationMinScore: true,
+          participationRuleAction: true,
+        },
+      })
+
+      if (!band) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Band not found' })
+      }
+
+      const report = await participationService.getBandParticipation(input.bandId, input.windowDays)
+      const canViewMembers = CAN_VIEW_MEMBER_PARTICIPATION.includes(ctx.member.role)
+      const scores = report.members
+        .map(m => m.score)
+        .filter((score): score is number => score !== null)
+
+      return {
+        ...report,
+        members: canViewMembers ? report.members : [],
+        me: report.members.find(m => m.userId === ctx.userId) ?? null,
+        summary: {
+          activeMembers: report.members.length,
+          averageScore: scores.length > 0
+            ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+            : null,
+          flaggedMembers: report.members.filter(m => m.flaggedAt).length,
+          proposalsMeetingQuorum: report.proposals.filter(p => p.quorumMet).length,
+        },
+        rule: {
+          enabled: band.participationRuleEnabled,
+          windowDays: band.participationWindowDays,
+          minScore: band.participationMinScore,
+          action: band.participationRuleAction,
+          graceDays: DEMOTION_GRACE_DAYS,
+          exemptRoles: DEMOTION_EXEMPT_ROLES,
+        },
+        quorumPercentage: band.quorumPercentage,
+        canViewMembers,
+      }
+    }),
+})
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 
 export const bandQueryRouter = router({
@@ -66,16 +66,11 @@ export const bandQueryRouter = router({
   /**
    * Get bands for a specific user (excludes dissolved bands)
    */
-  getMyBands: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getMyBands: protectedProcedure
+    .query(async ({ ctx }) => {
       const memberships = await prisma.member.findMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           status: 'ACTIVE',
           band: {
             dissolvedAt: null, // Exclude dissolved bands
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
@@ -11,7 +11,6 @@ import {
 
 export const agencyBigBandUpdateInputSchema = z.object({
   bandId: z.string(),
-  userId: z.string(),
   name: z.string().min(2).optional(),
   mission: z.string().min(10).optional(),
   productsOffered: z.array(z.string()).min(1).optional(),
@@ -36,19 +35,10 @@ export const bandUpdateRouter = router({
   /**
    * Update client business band details (founder/governor only)
    */
-  updateDetails: publicProcedure
+  updateDetails: bandMemberProcedure
     .input(businessBandUpdateInputSchema)
-    .mutation(async ({ input }) => {
-      const member = await prisma.member.findFirst({
-        where: {
-          bandId: input.bandId,
-          userId: input.userId,
-          status: 'ACTIVE',
-          role: { in: ['FOUNDER', 'GOVERNOR'] },
-        },
-      })
-
-      if (!member) {
+    .mutation(async ({ ctx, input }) => {
+      if (!['FOUNDER', 'GOVERNOR'].includes(ctx.member.role)) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Only founders and governors can edit band details',
@@ -117,19 +107,10 @@ export const bandUpdateRouter = router({
   /**
    * Update agency (Big Band) profile (founder/governor only)
    */
-  updateAgencyProfile: publicProcedure
+  updateAgencyProfile: bandMemberProcedure
     .input(agencyBigBandUpdateInputSchema)
-    .mutation(async ({ input }) => {
-      const member = await prisma.member.findFirst({
-        where: {
-          bandId: input.bandId,
-          userId: input.userId,
-          status: 'ACTIVE',
-          role: { in: ['FOUNDER', 'GOVERNOR'] },
-        },
-      })
-
-      if (!member) {
+    .mutation(async ({ ctx, input }) => {
+      if (!['FOUNDER', 'GOVERNOR'].includes(ctx.member.role)) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Only founders and governors can edit agency details',
@@ -1,10 +1,11 @@
 import { z } from 'zod'
 import crypto from 'crypto'
-import { router, publicProcedure } from '../../trpc'
+import { router, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { statusUpdateService } from '../../../services/status-update.service'
 import { webhookService } from '../../../services/webhook.service'
+import { WEBHOOK_EVENT_TYPES } from '@band-it/shared'
 
 // Only founders and governors can manage website integration settings
 const CAN_MANAGE_WEBSITE = ['FOUNDER', 'GOVERNOR']
@@ -12,32 +13,31 @@ const CAN_MANAGE_WEBSITE = ['FOUNDER', 'GOVERNOR']
 // Conductor and above can send status updates
 const CAN_SEND_STATUS_UPDATE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
+// Extra webhook endpoints per band, on top of the primary webhook URL
+const MAX_WEBHOOK_ENDPOINTS = 10
+
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`
+
+// Endpoint fields safe to list; the secret is only shown on create and rotate
+const ENDPOINT_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  eventTypes: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
 export const bandWebsiteRouter = router({
   /**
    * Get website integration settings
    */
-  getWebsiteSettings: publicProcedure
-    .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
-    }))
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
-
-      // Check user membership and permissions
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-        select: { role: true, status: true },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member to view these settings',
-        })
-      }
+  getWebsiteSettings: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
         throw new TRPCError({
@@ -76,30 +76,15 @@ export const bandWebsiteRouter = router({
   /**
    * Update website integration settings
    */
-  updateWebsiteSettings: publicProcedure
+  updateWebsiteSettings: bandMemberProcedure
     .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
       publicWebsiteUrl: z.string().url().optional().or(z.literal('')),
       webhookUrl: z.string().url().optional().or(z.literal('')),
     }))
-    .mutation(async ({ input }) => {
-      const { bandId, userId, publicWebsiteUrl, webhookUrl } = input
-
-      // Check user membership and permissions
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-        select: { role: true, status: true },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, publicWebsiteUrl, webhookUrl } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
         throw new TRPCError({
@@ -143,28 +128,11 @@ export const bandWebsiteRouter = router({
   /**
    * Generate a new API key for the band
    */
-  generateApiKey: publicProcedure
-    .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
-    }))
-    .mutation(async ({ input }) => {
-      const { bandId, userId } = input
-
-      // Check user membership and permissions
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-        select: { role: true, status: true },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+  generateApiKey: bandMemberProcedure
+    .mutation(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
         throw new TRPCError({
@@ -190,28 +158,11 @@ export const bandWebsiteRouter = router({
   /**
    * Generate a new webhook secret for the band
    */
-  generateWebhookSecret: publicProcedure
-    .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
-    }))
-    .mutation(async ({ input }) => {
-      const { bandId, userId } = input
-
-      // Check user membership and permissions
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-        select: { role: true, status: true },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+  generateWebhookSecret: bandMemberProcedure
+    .mutation(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
         throw new TRPCError({
@@ -221,7 +172,7 @@ export const bandWebsiteRouter = router({
       }
 
       // Generate a secure webhook secret
-      const webhookSecret = `whsec_${crypto.randomBytes(24).toString('hex')}`
+      const webhookSecret = generateSecret()
 
       await prisma.band.update({
         where: { id: bandId },
@@ -238,31 +189,16 @@ export const bandWebsiteRouter = router({
    * Send a status update webhook on demand
    * Accessible by CONDUCTOR and above roles
    */
-  sendStatusUpdate: publicProcedure
+  sendStatusUpdate: bandMemberProcedure
     .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
       // Optional: custom date range (defaults to last 7 days)
       startDate: z.string().datetime().optional(),
       endDate: z.string().datetime().optional(),
     }))
-    .mutation(async ({ input }) => {
-      const { bandId, userId, startDate, endDate } = input
-
-      // Check user membership and permissions
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-        select: { role: true, status: true },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, startDate, endDate } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_SEND_STATUS_UPDATE.includes(membership.role)) {
         throw new TRPCError({
@@ -271,16 +207,11 @@ export const bandWebsiteRouter = router({
         })
       }
 
-      // Check if webhook is configured
-      const band = await prisma.band.findUnique({
-        where: { id: bandId },
-        select: { webhookUrl: true, webhookSecret: true },
-      })
-
-      if (!band?.webhookUrl || !band?.webhookSecret) {
+      // Check if a webhook or endpoint is configured
+      if (!(await webhookService.hasReceivers(bandId))) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: 'Webhook URL and secret must be configured before sending status updates',
+          message: 'A webhook URL or endpoint must be configured before sending status updates',
         })
       }
 
@@ -308,28 +239,11 @@ export const bandWebsiteRouter = router({
    * Manually sync member list to external website
    * Sends the full member list (including sub-band members) to the webhook
    */
-  syncMembers: publicProcedure
-    .input(z.object({
-      bandId: z.string(),
-      userId: z.string(),
-    }))
-    .mutation(async ({ input }) => {
-      const { bandId, userId } = input
-
-      // Check user membership and permissions
-      const membership = await prisma.member.findUnique({
-        where: {
-          userId_bandId: { userId, bandId },
-        },
-        select: { role: true, status: true },
-      })
-
-      if (!membership || membership.status !== 'ACTIVE') {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You must be an active member',
-        })
-      }
+  syncMembers: bandMemberProcedure
+    .mutation(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
+      const membership = ctx.member
 
       if (!CAN_SEND_STATUS_UPDATE.includes(membership.role)) {
         throw new TRPCError({
@@ -338,16 +252,11 @@ export const bandWebsiteRouter = router({
         })
       }
 
-      // Check if webhook is configured
-      const band = await prisma.band.findUnique({
-        where: { id: bandId },
-        select: { webhookUrl: true, webhookSecret: true },
-      })
-
-      if (!band?.webhookUrl || !band?.webhookSecret) {
+      // Check if a webhook or endpoint is configured
+      if (!(await webhookService.hasReceivers(bandId))) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: 'Webhook URL and secret must be configured before syncing members',
+          message: 'A webhook URL or endpoint must be configured before syncing members',
         })
       }
 
@@ -367,4 +276,297 @@ export const bandWebsiteRouter = router({
         memberCount: result.memberCount,
       }
     }),
+
+  /**
+   * Outbound webhook delivery history, newest first
+   */
+  getWebhookDeliveries: bandMemberProcedure
+    .input(z.object({
+      status: z.enum(['PENDING', 'DELIVERED', 'DEAD']).optional(),
+      endpointId: z.string().optional(),
+      cursor: z.string().optional(),
+      limit: z.number().int().min(1).max(100).optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { bandId, status, endpointId, cursor, limit } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view webhook deliveries',
+        })
+      }
+
+      return webhookService.listDeliveries(bandId, { status, endpointId, cursor, limit })
+    }),
+
+  /**
+   * A single webhook delivery with its payload and every attempt
+   */
+  getWebhookDelivery: bandMemberProcedure
+    .input(z.object({
+      deliveryId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { bandId, deliveryId } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view webhook deliveries',
+        })
+      }
+
+      const delivery = await webhookService.getDelivery(bandId, deliveryId)
+      if (!delivery) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook delivery not found',
+        })
+      }
+
+      return { delivery }
+    }),
+
+  /**
+   * Send a past webhook delivery again (e.g. after the website was down)
+   */
+  replayWebhookDelivery: bandMemberProcedure
+    .input(z.object({
+      deliveryId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, deliveryId } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to replay webhook deliveries',
+        })
+      }
+
+      const original = await webhookService.getDelivery(bandId, deliveryId)
+      if (!original) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook delivery not found',
+        })
+      }
+
+      // Replays go to the same receiver as the original
+      if (original.endpoint) {
+        if (!original.endpoint.isActive) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Enable this webhook endpoint before replaying its deliveries',
+          })
+        }
+      } else {
+        const band = await prisma.band.findUnique({
+          where: { id: bandId },
+          select: { webhookUrl: true, webhookSecret: true },
+        })
+
+        if (!band?.webhookUrl || !band?.webhookSecret) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Webhook URL and secret must be configured before replaying deliveries',
+          })
+        }
+      }
+
+      const result = await webhookService.replay(bandId, deliveryId)
+
+      return {
+        success: result.sent,
+        deliveryId: result.deliveryId,
+        message: result.sent
+          ? 'Delivery replayed successfully'
+          : `Replay failed (${result.error}); it will be retried automatically`,
+      }
+    }),
+
+  /**
+   * Extra webhook endpoints and the events each one receives
+   */
+  getWebhookEndpoints: bandMemberProcedure
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to view webhook endpoints',
+        })
+      }
+
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { bandId },
+        select: ENDPOINT_SELECT,
+        orderBy: { createdAt: 'asc' },
+      })
+
+      return { endpoints }
+    }),
+
+  /**
+   * Add a webhook endpoint. An empty event list subscribes it to every event.
+   */
+  createWebhookEndpoint: bandMemberProcedure
+    .input(z.object({
+      url: z.string().url(),
+      description: z.string().max(200).optional(),
+      eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).default([]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, url, description, eventTypes } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage webhook endpoints',
+        })
+      }
+
+      const count = await prisma.webhookEndpoint.count({ where: { bandId } })
+      if (count >= MAX_WEBHOOK_ENDPOINTS) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `A band can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`,
+        })
+      }
+
+      const secret = generateSecret()
+      const endpoint = await prisma.webhookEndpoint.create({
+        data: {
+          bandId,
+          url,
+          secret,
+          description: description || null,
+          eventTypes: [...new Set(eventTypes)],
+        },
+        select: ENDPOINT_SELECT,
+      })
+
+      return { endpoint, secret }
+    }),
+
+  /**
+   * Change a webhook endpoint's URL, description, events or active state
+   */
+  updateWebhookEndpoint: bandMemberProcedure
+    .input(z.object({
+      endpointId: z.string(),
+      url: z.string().url().optional(),
+      description: z.string().max(200).optional(),
+      eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).optional(),
+      isActive: z.boolean().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, endpointId, url, description, eventTypes, isActive } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage webhook endpoints',
+        })
+      }
+
+      const existing = await prisma.webhookEndpoint.findFirst({
+        where: { id: endpointId, bandId },
+        select: { id: true },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found',
+        })
+      }
+
+      const endpoint = await prisma.webhookEndpoint.update({
+        where: { id: endpointId },
+        data: {
+          url,
+          description: description === undefined ? undefined : description || null,
+          eventTypes: eventTypes ? [...new Set(eventTypes)] : undefined,
+          isActive,
+        },
+        select: ENDPOINT_SELECT,
+      })
+
+      return { endpoint }
+    }),
+
+  /**
+   * Remove a webhook endpoint along with its delivery history
+   */
+  deleteWebhookEndpoint: bandMemberProcedure
+    .input(z.object({
+      endpointId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, endpointId } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage webhook endpoints',
+        })
+      }
+
+      const deleted = await prisma.webhookEndpoint.deleteMany({
+        where: { id: endpointId, bandId },
+      })
+
+      if (deleted.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  /**
+   * Generate a new signing secret for a webhook endpoint
+   */
+  rotateWebhookEndpointSecret: bandMemberProcedure
+    .input(z.object({
+      endpointId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, endpointId } = input
+      const membership = ctx.member
+
+      if (!CAN_MANAGE_WEBSITE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage webhook endpoints',
+        })
+      }
+
+      const secret = generateSecret()
+      const updated = await prisma.webhookEndpoint.updateMany({
+        where: { id: endpointId, bandId },
+        data: { secret },
+      })
+
+      if (updated.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Webhook endpoint not found',
+        })
+      }
+
+      return { success: true, secret }
+    }),
 })
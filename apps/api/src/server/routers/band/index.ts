@@ -7,9 +7,11 @@ import { bandMatchingRouter } from './band.matching'
 import { bandBillingRouter } from './band.billing'
 import { bandDissolveRouter } from './band.dissolve'
 import { bandGovernanceRouter } from './band.governance'
+import { bandDelegationRouter } from './band.delegation'
 import { bandUpdateRouter } from './band.update'
 import { bandAIInstructionRouter } from './band.aiInstruction'
 import { bandWebsiteRouter } from './band.website'
+import { bandParticipationRouter } from './band.participation'
 import { getMembers, getMemberProfile, changeRole, proposeRemoval, transferOwnership, nominateAsFounder } from './band.members'
 
 export const bandRouter = router({
@@ -74,6 +76,14 @@ export const bandRouter = router({
   getGovernanceSettings: bandGovernanceRouter.getGovernanceSettings,
   updateGovernanceSettings: bandGovernanceRouter.updateGovernanceSettings,
 
+  // Vote delegation
+  getMyDelegations: bandDelegationRouter.getMyDelegations,
+  setDelegation: bandDelegationRouter.setDelegation,
+  revokeDelegation: bandDelegationRouter.revokeDelegation,
+
+  // Participation
+  getParticipation: bandParticipationRouter.getParticipation,
+
   // Update
   updateDetails: bandUpdateRouter.updateDetails,
   updateAgencyProfile: bandUpdateRouter.updateAgencyProfile,
@@ -91,4 +101,12 @@ export const bandRouter = router({
   generateWebhookSecret: bandWebsiteRouter.generateWebhookSecret,
   sendStatusUpdate: bandWebsiteRouter.sendStatusUpdate,
   syncMembers: bandWebsiteRouter.syncMembers,
+  getWebhookDeliveries: bandWebsiteRouter.getWebhookDeliveries,
+  getWebhookDelivery: bandWebsiteRouter.getWebhookDelivery,
+  replayWebhookDelivery: bandWebsiteRouter.replayWebhookDelivery,
+  getWebhookEndpoints: bandWebsiteRouter.getWebhookEndpoints,
+  createWebhookEndpoint: bandWebsiteRouter.createWebhookEndpoint,
+  updateWebhookEndpoint: bandWebsiteRouter.updateWebhookEndpoint,
+  deleteWebhookEndpoint: bandWebsiteRouter.deleteWebhookEndpoint,
+  rotateWebhookEndpointSecret: bandWebsiteRouter.rotateWebhookEndpointSecret,
 })
\ No newline at end of file
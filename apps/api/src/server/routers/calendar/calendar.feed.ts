@@ -0,0 +1,128 @@
+import { z } from 'zod'
+import { protectedProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { generateFeedToken, getFeedUrl } from '../../../services/calendar-feed.service'
+
+// Only founders and governors can publish a band's public feed
+const CAN_PUBLISH_PUBLIC_FEED = ['FOUNDER', 'GOVERNOR']
+
+const MAX_FEEDS_PER_USER = 20
+
+/**
+ * Get the current user's active calendar feeds with their subscribe URLs
+ */
+export const getMyFeeds = protectedProcedure
+  .query(async ({ ctx }) => {
+    const feeds = await prisma.calendarFeedToken.findMany({
+      where: { userId: ctx.userId, revokedAt: null },
+      include: { band: { select: { id: true, name: true, slug: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return {
+      feeds: feeds.map(feed => ({
+        id: feed.id,
+        scope: feed.scope,
+        band: feed.band,
+        url: getFeedUrl(feed.token),
+        lastAccessedAt: feed.lastAccessedAt,
+        createdAt: feed.createdAt,
+      })),
+    }
+  })
+
+/**
+ * Create a calendar feed, or return the existing one for the same scope and band
+ */
+export const createFeed = protectedProcedure
+  .input(z.object({
+    scope: z.enum(['USER', 'BAND_MEMBERS', 'BAND_PUBLIC']),
+    bandId: z.string().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { scope } = input
+    const { userId } = ctx
+    const bandId = scope === 'USER' ? null : input.bandId
+
+    if (scope !== 'USER') {
+      if (!bandId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A band is required for band calendar feeds',
+        })
+      }
+
+      const membership = await prisma.member.findUnique({
+        where: { userId_bandId: { userId, bandId } },
+        select: { status: true, role: true },
+      })
+
+      if (!membership || membership.status !== 'ACTIVE') {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You must be an active band member',
+        })
+      }
+
+      if (scope === 'BAND_PUBLIC' && !CAN_PUBLISH_PUBLIC_FEED.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only founders and governors can publish a public calendar feed',
+        })
+      }
+    }
+
+    const existing = await prisma.calendarFeedToken.findFirst({
+      where: { userId, scope, bandId, revokedAt: null },
+    })
+
+    if (existing) {
+      return { feedId: existing.id, url: getFeedUrl(existing.token) }
+    }
+
+    const activeCount = await prisma.calendarFeedToken.count({
+      where: { userId, revokedAt: null },
+    })
+
+    if (activeCount >= MAX_FEEDS_PER_USER) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `You can have at most ${MAX_FEEDS_PER_USER} calendar feeds. Revoke one first.`,
+      })
+    }
+
+    const feed = await prisma.calendarFeedToken.create({
+      data: {
+        token: generateFeedToken(),
+        userId,
+        bandId,
+        scope,
+      },
+    })
+
+    return { feedId: feed.id, url: getFeedUrl(feed.token) }
+  })
+
+/**
+ * Revoke a calendar feed. Calendar apps subscribed to it stop updating.
+ */
+export const revokeFeed = protectedProcedure
+  .input(z.object({
+    feedId: z.string(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const revoked = await prisma.calendarFeedToken.updateMany({
+      where: { id: input.feedId, userId: ctx.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    if (revoked.count === 0) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Calendar feed not found',
+      })
+    }
+
+    return { success: true }
+  })
@@ -1,50 +1,16 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { RRule } from 'rrule'
+import {
+  CALENDAR_COLORS,
+  getDeadlineItems,
+  type CalendarItem,
+} from '../../../lib/calendar-items'
 
-// Calendar item types
-export type CalendarItemType =
-  | 'EVENT'
-  | 'PROPOSAL_DEADLINE'
-  | 'PROJECT_TARGET'
-  | 'TASK_DUE'
-  | 'CHECKLIST_DUE'
-
-// Color scheme for each type
-export const CALENDAR_COLORS: Record<CalendarItemType, string> = {
-  EVENT: '#3B82F6',           // Blue
-  PROPOSAL_DEADLINE: '#8B5CF6', // Purple
-  PROJECT_TARGET: '#10B981',   // Green
-  TASK_DUE: '#F59E0B',        // Orange/Amber
-  CHECKLIST_DUE: '#6B7280',   // Gray
-}
-
-export interface CalendarItem {
-  id: string
-  type: CalendarItemType
-  title: string
-  subtitle?: string
-  date: Date
-  endDate?: Date
-  allDay: boolean
-  bandId: string
-  bandName: string
-  bandSlug: string
-  sourceUrl: string
-  color: string
-  metadata: {
-    eventType?: string
-    status?: string
-    priority?: string
-    isOverdue?: boolean
-    isRecurring?: boolean
-    recurrenceDescription?: string
-    hasNotes?: boolean
-    hasRecordings?: boolean
-  }
-}
+export { CALENDAR_COLORS }
+export type { CalendarItem, CalendarItemType } from '../../../lib/calendar-items'
 
 /**
  * Expand recurring events into individual occurrences
@@ -186,9 +152,8 @@ function expandRecurringEvent(
 /**
  * Get all calendar items for a user within a date range
  */
-export const getCalendarItems = publicProcedure
+export const getCalendarItems = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     startDate: z.string().datetime(),
     endDate: z.string().datetime(),
     // Filters
@@ -200,9 +165,8 @@ export const getCalendarItems = publicProcedure
     // Optional band filter
     bandId: z.string().optional(),
   }))
-  .query(async ({ input }) => {
+  .query(async ({ ctx, input }) => {
     const {
-      userId,
       startDate,
       endDate,
       includeEvents,
@@ -212,10 +176,10 @@ export const getCalendarItems = publicProcedure
       includeChecklists,
       bandId,
     } = input
+    const { userId } = ctx
 
     const rangeStart = new Date(startDate)
     const rangeEnd = new Date(endDate)
-    const now = new Date()
 
     // Get user's active band memberships
     const memberships = await prisma.member.findMany({
@@ -236,7 +200,7 @@ export const getCalendarItems = publicProcedure
     const items: CalendarItem[] = []
 
     // Fetch all data sources in parallel
-    const [events, proposals, projects, tasks, checklistItems] = await Promise.all([
+    const [events, deadlineItems] = await Promise.all([
       // Events
       includeEvents
         ? prisma.event.findMany({
@@ -279,124 +243,16 @@ export const getCalendarItems = publicProcedure
           })
         : [],
 
-      // Proposals with voting deadlines
-      includeProposals
-        ? prisma.proposal.findMany({
-            where: {
-              bandId: { in: bandIds },
-              status: 'OPEN',
-              votingEndsAt: {
-                gte: rangeStart,
-                lte: rangeEnd,
-              },
-            },
-            select: {
-              id: true,
-              title: true,
-              votingEndsAt: true,
-              status: true,
-              bandId: true,
-              band: {
-                select: { name: true, slug: true },
-              },
-            },
-          })
-        : [],
-
-      // Projects with target dates
-      includeProjects
-        ? prisma.project.findMany({
-            where: {
-              bandId: { in: bandIds },
-              status: { notIn: ['COMPLETED', 'CANCELLED'] },
-              targetDate: {
-                gte: rangeStart,
-                lte: rangeEnd,
-              },
-            },
-            select: {
-              id: true,
-              name: true,
-              targetDate: true,
-              status: true,
-              priority: true,
-              bandId: true,
-              band: {
-                select: { name: true, slug: true },
-              },
-            },
-          })
-        : [],
-
-      // Tasks with due dates (assigned to user or unassigned in their bands)
-      includeTasks
-        ? prisma.task.findMany({
-            where: {
-              bandId: { in: bandIds },
-              status: { notIn: ['COMPLETED', 'BLOCKED'] },
-              dueDate: {
-                gte: rangeStart,
-                lte: rangeEnd,
-              },
-              OR: [
-                { assigneeId: userId },
-                { assigneeId: null }, // Unassigned tasks visible to all
-              ],
-            },
-            select: {
-              id: true,
-              name: true,
-              dueDate: true,
-              status: true,
-              priority: true,
-              projectId: true,
-              bandId: true,
-              band: {
-                select: { name: true, slug: true },
-              },
-              project: {
-                select: { name: true },
-              },
-            },
-          })
-        : [],
-
-      // Checklist items with due dates (assigned to user or unassigned)
-      includeChecklists
-        ? prisma.checklistItem.findMany({
-            where: {
-              task: {
-                bandId: { in: bandIds },
-              },
-              isCompleted: false,
-              dueDate: {
-                gte: rangeStart,
-                lte: rangeEnd,
-              },
-              OR: [
-                { assigneeId: userId },
-                { assigneeId: null },
-              ],
-            },
-            select: {
-              id: true,
-              description: true,
-              dueDate: true,
-              priority: true,
-              taskId: true,
-              task: {
-                select: {
-                  name: true,
-                  projectId: true,
-                  bandId: true,
-                  band: {
-                    select: { name: true, slug: true },
-                  },
-                },
-              },
-            },
-          })
-        : [],
+      getDeadlineItems({
+        userId,
+        bandIds,
+        rangeStart,
+        rangeEnd,
+        includeProposals,
+        includeProjects,
+        includeTasks,
+        includeChecklists,
+      }),
     ])
 
     // Transform events (with recurrence expansion)
@@ -405,99 +261,7 @@ export const getCalendarItems = publicProcedure
       items.push(...expandedEvents)
     }
 
-    // Transform proposals
-    for (const proposal of proposals) {
-      if (proposal.votingEndsAt) {
-        items.push({
-          id: proposal.id,
-          type: 'PROPOSAL_DEADLINE',
-          title: `Vote: ${proposal.title}`,
-          subtitle: proposal.band.name,
-          date: proposal.votingEndsAt,
-          allDay: true,
-          bandId: proposal.bandId,
-          bandName: proposal.band.name,
-          bandSlug: proposal.band.slug,
-          sourceUrl: `/bands/${proposal.band.slug}/proposals/${proposal.id}`,
-          color: CALENDAR_COLORS.PROPOSAL_DEADLINE,
-          metadata: {
-            status: proposal.status,
-            isOverdue: proposal.votingEndsAt < now,
-          },
-        })
-      }
-    }
-
-    // Transform projects
-    for (const project of projects) {
-      if (project.targetDate) {
-        items.push({
-          id: project.id,
-          type: 'PROJECT_TARGET',
-          title: project.name,
-          subtitle: project.band.name,
-          date: project.targetDate,
-          allDay: true,
-          bandId: project.bandId,
-          bandName: project.band.name,
-          bandSlug: project.band.slug,
-          sourceUrl: `/bands/${project.band.slug}/projects/${project.id}`,
-          color: CALENDAR_COLORS.PROJECT_TARGET,
-          metadata: {
-            status: project.status,
-            priority: project.priority,
-            isOverdue: project.targetDate < now,
-          },
-        })
-      }
-    }
-
-    // Transform tasks
-    for (const task of tasks) {
-      if (task.dueDate) {
-        items.push({
-          id: task.id,
-          type: 'TASK_DUE',
-          title: task.name,
-          subtitle: `${task.band.name} - ${task.project.name}`,
-          date: task.dueDate,
-          allDay: true,
-          bandId: task.bandId,
-          bandName: task.band.name,
-          bandSlug: task.band.slug,
-          sourceUrl: `/bands/${task.band.slug}/projects/${task.projectId}?task=${task.id}`,
-          color: CALENDAR_COLORS.TASK_DUE,
-          metadata: {
-            status: task.status,
-            priority: task.priority,
-            isOverdue: task.dueDate < now,
-          },
-        })
-      }
-    }
-
-    // Transform checklist items
-    for (const item of checklistItems) {
-      if (item.dueDate) {
-        items.push({
-          id: item.id,
-          type: 'CHECKLIST_DUE',
-          title: item.description,
-          subtitle: `${item.task.band.name} - ${item.task.name}`,
-          date: item.dueDate,
-          allDay: true,
-          bandId: item.task.bandId,
-          bandName: item.task.band.name,
-          bandSlug: item.task.band.slug,
-          sourceUrl: `/bands/${item.task.band.slug}/projects/${item.task.projectId}?task=${item.taskId}`,
-          color: CALENDAR_COLORS.CHECKLIST_DUE,
-          metadata: {
-            priority: item.priority,
-            isOverdue: item.dueDate < now,
-          },
-        })
-      }
-    }
+    items.push(...deadlineItems)
 
     // Sort by date
     items.sort((a, b) => a.date.getTime() - b.date.getTime())
@@ -508,14 +272,14 @@ export const getCalendarItems = publicProcedure
 /**
  * Get upcoming deadlines for dashboard widget
  */
-export const getUpcomingDeadlines = publicProcedure
+export const getUpcomingDeadlines = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     limit: z.number().min(1).max(20).default(5),
     bandId: z.string().optional(),
   }))
-  .query(async ({ input }) => {
-    const { userId, limit, bandId } = input
+  .query(async ({ ctx, input }) => {
+    const { limit, bandId } = input
+    const { userId } = ctx
     const now = new Date()
 
     // Get 30 days ahead for deadlines
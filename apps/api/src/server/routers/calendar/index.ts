@@ -1,9 +1,15 @@
 import { router } from '../../trpc'
 import { getCalendarItems, getUpcomingDeadlines } from './calendar.query'
+import { getMyFeeds, createFeed, revokeFeed } from './calendar.feed'
 
 export const calendarRouter = router({
   getCalendarItems,
   getUpcomingDeadlines,
+
+  // Subscribable .ics feeds
+  getMyFeeds,
+  createFeed,
+  revokeFeed,
 })
 
 export type { CalendarItem, CalendarItemType } from './calendar.query'
@@ -1,9 +1,10 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole, ChannelVisibility } from '@prisma/client'
 import { logAuditEvent } from '../../../lib/auditContext'
+import { generateChannelSlug, getUniqueChannelSlug } from '../../../lib/channel-slug'
 
 // Roles that can create each visibility tier
 const CAN_CREATE_VISIBILITY: Record<ChannelVisibility, MemberRole[]> = {
@@ -12,78 +13,19 @@ const CAN_CREATE_VISIBILITY: Record<ChannelVisibility, MemberRole[]> = {
   GOVERNANCE: ['FOUNDER', 'GOVERNOR'],
 }
 
-/**
- * Generate a URL-safe slug from a channel name
- */
-function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9\s-]/g, '') // Remove non-alphanumeric except spaces and hyphens
-    .replace(/\s+/g, '-')          // Replace spaces with hyphens
-    .replace(/-+/g, '-')           // Replace multiple hyphens with single
-    .replace(/^-|-$/g, '')         // Remove leading/trailing hyphens
-    .substring(0, 100)             // Limit length
-}
-
-/**
- * Check if a slug is unique within a band, and generate alternatives if not
- */
-async function getUniqueSlug(bandId: string, baseSlug: string): Promise<string> {
-  let slug = baseSlug
-  let counter = 1
-
-  while (true) {
-    const existing = await prisma.channel.findUnique({
-      where: {
-        bandId_slug: { bandId, slug },
-      },
-    })
-
-    if (!existing) {
-      return slug
-    }
-
-    slug = `${baseSlug}-${counter}`
-    counter++
-
-    if (counter > 100) {
-      throw new TRPCError({
-        code: 'INTERNAL_SERVER_ERROR',
-        message: 'Unable to generate unique slug',
-      })
-    }
-  }
-}
-
 /**
  * Create a new channel
  */
-export const createChannel = publicProcedure
+export const createChannel = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
-    userId: z.string(),
     name: z.string().min(1).max(80),
     description: z.string().max(500).optional(),
     visibility: z.enum(['PUBLIC', 'MODERATOR', 'GOVERNANCE']).default('PUBLIC'),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, userId, name, description, visibility } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to create channels',
-      })
-    }
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, name, description, visibility } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     // Check if user can create channels with this visibility
     const allowedRoles = CAN_CREATE_VISIBILITY[visibility as ChannelVisibility]
@@ -95,14 +37,14 @@ export const createChannel = publicProcedure
     }
 
     // Generate unique slug
-    const baseSlug = generateSlug(name)
+    const baseSlug = generateChannelSlug(name)
     if (!baseSlug) {
       throw new TRPCError({
         code: 'BAD_REQUEST',
         message: 'Channel name must contain at least one alphanumeric character',
       })
     }
-    const slug = await getUniqueSlug(bandId, baseSlug)
+    const slug = await getUniqueChannelSlug(bandId, baseSlug)
 
     // Create channel
     const channel = await prisma.channel.create({
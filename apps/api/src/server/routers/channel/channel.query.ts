@@ -1,8 +1,8 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { MemberRole, ChannelVisibility } from '@prisma/client'
+import { MemberRole, ChannelVisibility, ChannelKind } from '@prisma/client'
 
 // Role hierarchy for channel visibility
 const VISIBILITY_ROLES: Record<ChannelVisibility, MemberRole[]> = {
@@ -16,6 +16,37 @@ export function canAccessChannel(role: MemberRole, visibility: ChannelVisibility
   return VISIBILITY_ROLES[visibility].includes(role)
 }
 
+/**
+ * Whether a member can read and post in a channel. Band channels go by the
+ * visibility tier; direct conversations only admit their current participants.
+ */
+export async function hasChannelAccess(
+  userId: string,
+  role: MemberRole,
+  channel: { id: string; kind: ChannelKind; visibility: ChannelVisibility }
+): Promise<boolean> {
+  if (channel.kind === 'DIRECT') {
+    const participant = await prisma.channelParticipant.findUnique({
+      where: { channelId_userId: { channelId: channel.id, userId } },
+      select: { leftAt: true },
+    })
+    return !!participant && !participant.leftAt
+  }
+
+  return canAccessChannel(role, channel.visibility)
+}
+
+/**
+ * User IDs currently in a direct conversation
+ */
+export async function getActiveParticipantIds(channelId: string): Promise<string[]> {
+  const participants = await prisma.channelParticipant.findMany({
+    where: { channelId, leftAt: null },
+    select: { userId: true },
+  })
+  return participants.map(p => p.userId)
+}
+
 // Helper to get the required role description for a visibility tier
 export function getRequiredRoleForVisibility(visibility: ChannelVisibility): string {
   switch (visibility) {
@@ -28,33 +59,37 @@ export function getRequiredRoleForVisibility(visibility: ChannelVisibility): str
   }
 }
 
+/**
+ * Count approved messages in a channel the user hasn't read yet
+ */
+export async function countUnreadMessages(channelId: string, userId: string): Promise<number> {
+  const readStatus = await prisma.channelReadStatus.findUnique({
+    where: { channelId_userId: { channelId, userId } },
+    select: { lastReadAt: true },
+  })
+
+  return prisma.message.count({
+    where: {
+      channelId,
+      createdAt: { gt: readStatus?.lastReadAt || new Date(0) },
+      deletedAt: null,
+      moderationStatus: 'APPROVED',
+    },
+  })
+}
+
 /**
  * List all channels for a band
  * Returns all channels (for transparency), but marks which ones the user can access
  */
-export const listChannels = publicProcedure
+export const listChannels = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
-    userId: z.string(),
     includeArchived: z.boolean().optional().default(false),
   }))
-  .query(async ({ input }) => {
-    const { bandId, userId, includeArchived } = input
-
-    // Get user's membership to determine role
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view channels',
-      })
-    }
+  .query(async ({ ctx, input }) => {
+    const { bandId, includeArchived } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     const userRole = membership.role
 
@@ -62,6 +97,7 @@ export const listChannels = publicProcedure
     const channels = await prisma.channel.findMany({
       where: {
         bandId,
+        kind: 'BAND',
         ...(includeArchived ? {} : { isArchived: false }),
       },
       include: {
@@ -153,15 +189,14 @@ export const listChannels = publicProcedure
  * Get a single channel by ID or slug
  * Returns metadata for all (transparency), but content only for accessible channels
  */
-export const getChannel = publicProcedure
+export const getChannel = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     channelId: z.string().optional(),
     channelSlug: z.string().optional(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { bandId, channelId, channelSlug, userId } = input
+  .query(async ({ ctx, input }) => {
+    const { bandId, channelId, channelSlug } = input
+    const { userId } = ctx
 
     if (!channelId && !channelSlug) {
       throw new TRPCError({
@@ -169,21 +204,7 @@ export const getChannel = publicProcedure
         message: 'Either channelId or channelSlug is required',
       })
     }
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view channels',
-      })
-    }
+    const membership = ctx.member
 
     const userRole = membership.role
 
@@ -191,6 +212,7 @@ export const getChannel = publicProcedure
     const channel = await prisma.channel.findFirst({
       where: {
         bandId,
+        kind: 'BAND',
         ...(channelId ? { id: channelId } : { slug: channelSlug }),
       },
       include: {
@@ -277,34 +299,17 @@ export const getChannel = publicProcedure
 /**
  * Get unread counts for all accessible channels in a band
  */
-export const getUnreadCounts = publicProcedure
-  .input(z.object({
-    bandId: z.string(),
-    userId: z.string(),
-  }))
-  .query(async ({ input }) => {
-    const { bandId, userId } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
+export const getUnreadCounts = bandMemberProcedure
+  .query(async ({ ctx, input }) => {
+    const { bandId } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     const userRole = membership.role
 
     // Get all channels
     const channels = await prisma.channel.findMany({
-      where: { bandId, isArchived: false },
+      where: { bandId, kind: 'BAND', isArchived: false },
       select: { id: true, visibility: true },
     })
 
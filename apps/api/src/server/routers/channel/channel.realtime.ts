@@ -0,0 +1,50 @@
+import { bandMemberProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { subscribeToBand, BandRealtimeEvent } from '../../../lib/realtime'
+import { hasChannelAccess, countUnreadMessages } from './channel.query'
+
+export type ChannelStreamEvent =
+  | BandRealtimeEvent
+  | { type: 'unread'; channelId: string; unreadCount: number }
+
+/**
+ * Stream message activity for every channel and conversation in a band the
+ * caller can see.
+ * The role is re-read per event so a demotion or removal takes effect
+ * without waiting for the client to reconnect.
+ */
+export const onChannelEvents = bandMemberProcedure
+  .subscription(async function* ({ ctx, input, signal }): AsyncGenerator<ChannelStreamEvent> {
+    const { bandId } = input
+    const { userId } = ctx
+
+    for await (const event of subscribeToBand(bandId, signal)) {
+      const membership = await prisma.member.findUnique({
+        where: { userId_bandId: { userId, bandId } },
+        select: { role: true, status: true },
+      })
+      if (!membership || membership.status !== 'ACTIVE') {
+        return
+      }
+
+      const channel = { id: event.channelId, kind: event.kind, visibility: event.visibility }
+      if (!(await hasChannelAccess(userId, membership.role, channel))) {
+        continue
+      }
+
+      // Don't echo the caller's own typing back to them
+      if (event.type === 'typing' && event.user.id === userId) {
+        continue
+      }
+
+      yield event
+
+      if (event.type === 'message.created' && event.message.author.id !== userId) {
+        yield {
+          type: 'unread',
+          channelId: event.channelId,
+          unreadCount: await countUnreadMessages(event.channelId, userId),
+        }
+      }
+    }
+  })
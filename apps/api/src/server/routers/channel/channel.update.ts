@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole } from '@prisma/client'
@@ -17,15 +17,15 @@ const CAN_DELETE_CHANNEL: MemberRole[] = ['FOUNDER']
  * - Cannot change visibility after creation
  * - Cannot change isDefault
  */
-export const updateChannel = publicProcedure
+export const updateChannel = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
     name: z.string().min(1).max(80).optional(),
     description: z.string().max(500).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { channelId, userId, name, description } = input
+  .mutation(async ({ ctx, input }) => {
+    const { channelId, name, description } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -42,7 +42,8 @@ export const updateChannel = publicProcedure
       },
     })
 
-    if (!channel) {
+    // Conversations are managed through the conversation router
+    if (!channel || channel.kind !== 'BAND') {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Channel not found',
@@ -105,13 +106,13 @@ export const updateChannel = publicProcedure
  * - Governor or Founder can archive
  * - Cannot archive the default "General" channel
  */
-export const archiveChannel = publicProcedure
+export const archiveChannel = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { channelId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { channelId } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -128,7 +129,8 @@ export const archiveChannel = publicProcedure
       },
     })
 
-    if (!channel) {
+    // Conversations are managed through the conversation router
+    if (!channel || channel.kind !== 'BAND') {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Channel not found',
@@ -185,13 +187,13 @@ export const archiveChannel = publicProcedure
  * Unarchive a channel
  * - Governor or Founder can unarchive
  */
-export const unarchiveChannel = publicProcedure
+export const unarchiveChannel = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { channelId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { channelId } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -208,7 +210,8 @@ export const unarchiveChannel = publicProcedure
       },
     })
 
-    if (!channel) {
+    // Conversations are managed through the conversation router
+    if (!channel || channel.kind !== 'BAND') {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Channel not found',
@@ -260,13 +263,13 @@ export const unarchiveChannel = publicProcedure
  * - Cannot delete the default "General" channel
  * - Cannot delete the last public channel
  */
-export const deleteChannel = publicProcedure
+export const deleteChannel = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { channelId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { channelId } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -279,7 +282,7 @@ export const deleteChannel = publicProcedure
               select: { role: true },
             },
             channels: {
-              where: { visibility: 'PUBLIC', isArchived: false },
+              where: { kind: 'BAND', visibility: 'PUBLIC', isArchived: false },
               select: { id: true },
             },
           },
@@ -287,7 +290,8 @@ export const deleteChannel = publicProcedure
       },
     })
 
-    if (!channel) {
+    // Conversations are managed through the conversation router
+    if (!channel || channel.kind !== 'BAND') {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Channel not found',
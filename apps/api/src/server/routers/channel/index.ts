@@ -2,6 +2,7 @@ import { router } from '../../trpc'
 import { listChannels, getChannel, getUnreadCounts } from './channel.query'
 import { createChannel } from './channel.create'
 import { updateChannel, archiveChannel, unarchiveChannel, deleteChannel } from './channel.update'
+import { onChannelEvents } from './channel.realtime'
 
 export const channelRouter = router({
   // Read
@@ -17,8 +18,11 @@ export const channelRouter = router({
   archive: archiveChannel,
   unarchive: unarchiveChannel,
   delete: deleteChannel,
+
+  // Realtime
+  onEvents: onChannelEvents,
 })
 
 // Re-export helper for creating default channel
 export { createDefaultChannel } from './channel.create'
-export { canAccessChannel } from './channel.query'
+export { canAccessChannel, hasChannelAccess, getActiveParticipantIds, countUnreadMessages } from './channel.query'
@@ -1,20 +1,20 @@
 import { z } from 'zod'
-import { publicProcedure } from '../trpc'
+import { protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { callAI, parseAIJson } from '../../lib/ai-client'
+import { callAI, parseAIJson } from '../../lib/ai'
 import { validateContent } from '../../services/validation.service'
 
 // Roles that can use AI suggestions
 const CAN_USE_AI = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const suggestChecklistItems = publicProcedure
+export const suggestChecklistItems = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId } = input
+    const { userId } = ctx
 
     // Get task with full context
     const task = await prisma.task.findUnique({
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../trpc'
+import { protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { requireGoodStanding } from '../../lib/dues-enforcement'
@@ -30,9 +30,8 @@ function canClaimWithRole(userRole: MemberRole, minClaimRole: MemberRole | null)
  * - Respects minClaimRole visibility
  * - Not completed/verified
  */
-export const getClaimableChecklistItems = publicProcedure
+export const getClaimableChecklistItems = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     bandId: z.string().optional(), // Filter to specific band
     contextPhone: z.boolean().optional(),
     contextComputer: z.boolean().optional(),
@@ -40,8 +39,9 @@ export const getClaimableChecklistItems = publicProcedure
     maxTimeMinutes: z.number().optional(),
     limit: z.number().min(1).max(50).optional(),
   }))
-  .query(async ({ input }) => {
-    const { userId, bandId, contextPhone, contextComputer, contextTravel, maxTimeMinutes, limit = 20 } = input
+  .query(async ({ ctx, input }) => {
+    const { bandId, contextPhone, contextComputer, contextTravel, maxTimeMinutes, limit = 20 } = input
+    const { userId } = ctx
 
     // Get user's active memberships with roles
     const memberships = await prisma.member.findMany({
@@ -125,13 +125,13 @@ export const getClaimableChecklistItems = publicProcedure
 /**
  * Claim an unassigned checklist item
  */
-export const claimChecklistItem = publicProcedure
+export const claimChecklistItem = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId } = input
+    const { userId } = ctx
 
     // Get checklist item with task and band info
     const item = await prisma.checklistItem.findUnique({
@@ -248,14 +248,14 @@ export const claimChecklistItem = publicProcedure
 /**
  * Unclaim a checklist item you've claimed
  */
-export const unclaimChecklistItem = publicProcedure
+export const unclaimChecklistItem = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     reason: z.string().max(500).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, reason } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, reason } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -331,17 +331,17 @@ export const unclaimChecklistItem = publicProcedure
 /**
  * Submit checklist item for verification (or mark complete if no verification required)
  */
-export const submitChecklistForVerification = publicProcedure
+export const submitChecklistForVerification = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     completionNote: z.string().optional(),
     // Expense tracking
     expenseAmount: z.number().min(0).optional(),  // Amount in cents (0 = got it for free)
     expenseNote: z.string().max(500).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, completionNote, expenseAmount, expenseNote } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, completionNote, expenseAmount, expenseNote } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -535,15 +535,15 @@ export const submitChecklistForVerification = publicProcedure
 /**
  * Verify (approve or reject) a checklist item
  */
-export const verifyChecklistItem = publicProcedure
+export const verifyChecklistItem = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     approved: z.boolean(),
     verificationNotes: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, approved, verificationNotes } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, approved, verificationNotes } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -652,14 +652,14 @@ export const verifyChecklistItem = publicProcedure
 /**
  * Retry a rejected checklist item (resubmit for verification)
  */
-export const retryChecklistItem = publicProcedure
+export const retryChecklistItem = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     note: z.string().max(1000).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, note } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, note } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -753,10 +753,9 @@ export const retryChecklistItem = publicProcedure
 /**
  * Update checklist item context (Conductor+)
  */
-export const updateChecklistContext = publicProcedure
+export const updateChecklistContext = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
     contextPhone: z.boolean().optional(),
     contextComputer: z.boolean().optional(),
@@ -765,8 +764,9 @@ export const updateChecklistContext = publicProcedure
     requiresVerification: z.boolean().optional(),
     minClaimRole: z.enum(['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']).nullish(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, ...updates } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, ...updates } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -809,14 +809,14 @@ export const updateChecklistContext = publicProcedure
 /**
  * Dismiss a checklist item from quick actions (user doesn't want to claim it)
  */
-export const dismissChecklistItem = publicProcedure
+export const dismissChecklistItem = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     reason: z.string().min(1).max(500),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, reason } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, reason } = input
+    const { userId } = ctx
 
     // Get checklist item with task and band info
     const item = await prisma.checklistItem.findUnique({
@@ -965,13 +965,13 @@ export const dismissChecklistItem = publicProcedure
 /**
  * Get dismissal stats for a checklist item (project leads can see this)
  */
-export const getChecklistDismissals = publicProcedure
+export const getChecklistDismissals = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { itemId, userId } = input
+  .query(async ({ ctx, input }) => {
+    const { itemId } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../trpc'
+import { publicProcedure, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { requireGoodStanding, getBandIdFromChecklistItem } from '../../lib/dues-enforcement'
@@ -10,18 +10,18 @@ const linkSchema = z.object({
   title: z.string().min(1).max(100),
 })
 
-export const updateChecklistDeliverable = publicProcedure
+export const updateChecklistDeliverable = protectedProcedure
   .input(z.object({
     checklistItemId: z.string(),
-    userId: z.string(),
     // Summary is optional for intermediate saves (adding links, etc.)
     // but required when submitting for verification
     summary: z.string().max(5000).optional().nullable(),
     links: z.array(linkSchema).optional(),
     nextSteps: z.string().max(2000).optional().nullable(),
   }))
-  .mutation(async ({ input }) => {
-    const { checklistItemId, userId, summary, links, nextSteps } = input
+  .mutation(async ({ ctx, input }) => {
+    const { checklistItemId, summary, links, nextSteps } = input
+    const { userId } = ctx
 
     // Check dues standing
     const enforcementBandId = await getBandIdFromChecklistItem(checklistItemId)
@@ -171,14 +171,14 @@ export const getChecklistDeliverable = publicProcedure
     }
   })
 
-export const attachFileToChecklistDeliverable = publicProcedure
+export const attachFileToChecklistDeliverable = protectedProcedure
   .input(z.object({
     deliverableId: z.string(),
     fileId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { deliverableId, fileId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { deliverableId, fileId } = input
+    const { userId } = ctx
 
     // Get deliverable with checklist item and task
     const deliverable = await prisma.checklistItemDeliverable.findUnique({
@@ -246,13 +246,13 @@ export const attachFileToChecklistDeliverable = publicProcedure
     return { file: updatedFile }
   })
 
-export const removeFileFromChecklistDeliverable = publicProcedure
+export const removeFileFromChecklistDeliverable = protectedProcedure
   .input(z.object({
     fileId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { fileId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { fileId } = input
+    const { userId } = ctx
 
     // Get file with deliverable and checklist item
     const file = await prisma.file.findUnique({
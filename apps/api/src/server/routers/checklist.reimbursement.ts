@@ -1,8 +1,11 @@
 import { z } from 'zod'
-import { publicProcedure } from '../trpc'
+import { protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../services/notification.service'
+import { ledgerService } from '../../services/ledger.service'
+import { budgetService } from '../../services/budget.service'
+import { twoFactorService } from '../services/two-factor.service'
 
 // Roles that can mark items as reimbursed
 const CAN_REIMBURSE = ['FOUNDER', 'GOVERNOR', 'TREASURER']
@@ -10,14 +13,14 @@ const CAN_REIMBURSE = ['FOUNDER', 'GOVERNOR', 'TREASURER']
 /**
  * Mark a checklist item expense as reimbursed (Treasurer action)
  */
-export const reimburseChecklistItem = publicProcedure
+export const reimburseChecklistItem = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     note: z.string().max(500).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, note } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, note } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -63,6 +66,18 @@ export const reimburseChecklistItem = publicProcedure
       })
     }
 
+    // Budget-backed projects can't be reimbursed past their reserved budget
+    try {
+      await budgetService.assertReimbursementWithinBudget(itemId)
+    } catch (error) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: error instanceof Error ? error.message : 'Project budget exceeded',
+      })
+    }
+
+    await twoFactorService.requireStepUp(userId, ctx.sessionId, item.task.band.id)
+
     // Update item
     const updatedItem = await prisma.checklistItem.update({
       where: { id: itemId },
@@ -79,6 +94,11 @@ export const reimburseChecklistItem = publicProcedure
       }
     })
 
+    // Record the payout against the bucket ledger
+    await ledgerService.postReimbursement(itemId).catch(err =>
+      console.error('Error posting reimbursement to ledger:', err)
+    )
+
     // Notify the member who is owed
     if (item.assigneeId) {
       await notificationService.create({
@@ -118,13 +138,13 @@ export const reimburseChecklistItem = publicProcedure
 /**
  * Confirm reimbursement received (Member action)
  */
-export const confirmReimbursement = publicProcedure
+export const confirmReimbursement = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -209,14 +229,14 @@ export const confirmReimbursement = publicProcedure
 /**
  * Dispute reimbursement (Member action)
  */
-export const disputeReimbursement = publicProcedure
+export const disputeReimbursement = protectedProcedure
   .input(z.object({
     itemId: z.string(),
-    userId: z.string(),
     reason: z.string().min(10).max(1000),
   }))
-  .mutation(async ({ input }) => {
-    const { itemId, userId, reason } = input
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, reason } = input
+    const { userId } = ctx
 
     const item = await prisma.checklistItem.findUnique({
       where: { id: itemId },
@@ -268,6 +288,16 @@ export const disputeReimbursement = publicProcedure
       }
     })
 
+    // The payout didn't arrive, so its money goes back to the bucket
+    await ledgerService.reverseSourcePosting({
+      sourceType: 'REIMBURSEMENT',
+      sourceId: ledgerService.reimbursementSourceId(item),
+      reason: 'disputed by recipient',
+      createdById: userId,
+    }).catch(err =>
+      console.error('Error reversing disputed reimbursement in ledger:', err)
+    )
+
     // Notify treasurer + governors
     const notifyMembers = item.task.band.members.filter(m =>
       ['FOUNDER', 'GOVERNOR', 'TREASURER'].includes(m.role) && m.userId !== userId
@@ -310,14 +340,14 @@ export const disputeReimbursement = publicProcedure
 /**
  * Get pending reimbursements for a band (Treasurer view)
  */
-export const getPendingReimbursements = publicProcedure
+export const getPendingReimbursements = protectedProcedure
   .input(z.object({
     bandId: z.string(),
-    userId: z.string(),
     status: z.enum(['PENDING', 'REIMBURSED', 'DISPUTED']).optional(),
   }))
-  .query(async ({ input }) => {
-    const { bandId, userId, status = 'PENDING' } = input
+  .query(async ({ ctx, input }) => {
+    const { bandId, status = 'PENDING' } = input
+    const { userId } = ctx
 
     // Check user is a member with treasurer permissions
     const membership = await prisma.member.findFirst({
@@ -383,12 +413,9 @@ export const getPendingReimbursements = publicProcedure
 /**
  * Get my pending reimbursements (Member view)
  */
-export const getMyPendingReimbursements = publicProcedure
-  .input(z.object({
-    userId: z.string(),
-  }))
-  .query(async ({ input }) => {
-    const { userId } = input
+export const getMyPendingReimbursements = protectedProcedure
+  .query(async ({ ctx }) => {
+    const { userId } = ctx
 
     // Get items where user is assignee and reimbursement is pending or awaiting confirmation
     const items = await prisma.checklistItem.findMany({
@@ -1,9 +1,9 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { setAuditFlags, clearAuditFlags } from '../../lib/auditContext'
-import { callAI, parseAIJson } from '../../lib/ai-client'
+import { callAI, parseAIJson } from '../../lib/ai'
 import { validateContent } from '../../services/validation.service'
 import {
   claimChecklistItem,
@@ -158,7 +158,7 @@ export const checklistRouter = router({
     }),
 
   // Create a checklist item
-  create: publicProcedure
+  create: protectedProcedure
     .input(z.object({
       taskId: z.string(),
       description: z.string().min(1, 'Description is required'),
@@ -166,14 +166,14 @@ export const checklistRouter = router({
       assigneeId: z.string().optional(),
       dueDate: z.coerce.date().optional(),
       requiresDeliverable: z.boolean().optional(),
-      userId: z.string(),
       // Integrity Guard flags
       proceedWithFlags: z.boolean().optional(),
       flagReasons: z.array(z.string()).optional(),
       flagDetails: z.any().optional(),
     }))
-    .mutation(async ({ input }) => {
-      const { taskId, description, notes, assigneeId, dueDate, requiresDeliverable, userId, proceedWithFlags, flagReasons, flagDetails } = input
+    .mutation(async ({ ctx, input }) => {
+      const { taskId, description, notes, assigneeId, dueDate, requiresDeliverable, proceedWithFlags, flagReasons, flagDetails } = input
+      const { userId } = ctx
 
       // Set integrity flags in audit context if user proceeded with warnings
       if (proceedWithFlags && flagReasons && flagReasons.length > 0) {
@@ -235,16 +235,16 @@ export const checklistRouter = router({
     }),
 
   // Bulk create checklist items (for AI suggestions)
-  createMany: publicProcedure
+  createMany: protectedProcedure
     .input(z.object({
       taskId: z.string(),
       descriptions: z.array(z.string().min(1)),
-      userId: z.string(),
       skipValidation: z.boolean().optional(), // Allow skipping if already validated
       requiresDeliverable: z.boolean().optional(), // Apply to all created items
     }))
-    .mutation(async ({ input }) => {
-      const { taskId, descriptions, userId, skipValidation, requiresDeliverable } = input
+    .mutation(async ({ ctx, input }) => {
+      const { taskId, descriptions, skipValidation, requiresDeliverable } = input
+      const { userId } = ctx
 
       // Verify task exists and get band status
       const task = await prisma.task.findUnique({
@@ -348,7 +348,7 @@ export const checklistRouter = router({
     }),
 
   // Update a checklist item
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       itemId: z.string(),
       description: z.string().min(1).optional(),
@@ -356,14 +356,14 @@ export const checklistRouter = router({
       assigneeId: z.string().nullable().optional(),
       dueDate: z.coerce.date().nullable().optional(),
       requiresDeliverable: z.boolean().optional(),
-      userId: z.string(),
       // Integrity Guard flags
       proceedWithFlags: z.boolean().optional(),
       flagReasons: z.array(z.string()).optional(),
       flagDetails: z.any().optional(),
     }))
-    .mutation(async ({ input }) => {
-      const { itemId, description, notes, assigneeId, dueDate, requiresDeliverable, userId, proceedWithFlags, flagReasons, flagDetails } = input
+    .mutation(async ({ ctx, input }) => {
+      const { itemId, description, notes, assigneeId, dueDate, requiresDeliverable, proceedWithFlags, flagReasons, flagDetails } = input
+      const { userId } = ctx
 
       // Set integrity flags in audit context if user proceeded with warnings
       if (proceedWithFlags && flagReasons && flagReasons.length > 0) {
@@ -413,10 +413,9 @@ export const checklistRouter = router({
     }),
 
   // Toggle completion
-  toggle: publicProcedure
+  toggle: protectedProcedure
     .input(z.object({
       itemId: z.string(),
-      userId: z.string(),
       // Optional deliverable data to save when marking complete
       deliverable: z.object({
         summary: z.string().min(1),
@@ -427,8 +426,9 @@ export const checklistRouter = router({
         nextSteps: z.string().optional(),
       }).optional(),
     }))
-    .mutation(async ({ input }) => {
-      const { itemId, userId, deliverable } = input
+    .mutation(async ({ ctx, input }) => {
+      const { itemId, deliverable } = input
+      const { userId } = ctx
 
       const item = await prisma.checklistItem.findUnique({
         where: { id: itemId },
@@ -493,10 +493,9 @@ export const checklistRouter = router({
     }),
 
   // Delete a checklist item
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       itemId: z.string(),
-      userId: z.string(),
     }))
     .mutation(async ({ input }) => {
       const { itemId } = input
@@ -512,11 +511,10 @@ export const checklistRouter = router({
     }),
 
   // Reorder checklist items
-  reorder: publicProcedure
+  reorder: protectedProcedure
     .input(z.object({
       taskId: z.string(),
       itemIds: z.array(z.string()),
-      userId: z.string(),
     }))
     .mutation(async ({ input }) => {
       const { taskId, itemIds } = input
@@ -548,13 +546,13 @@ export const checklistRouter = router({
     }),
 
   // AI: Suggest checklist items for a task
-  suggestItems: publicProcedure
+  suggestItems: protectedProcedure
     .input(z.object({
       taskId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { taskId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { taskId } = input
+      const { userId } = ctx
 
       // Get task with full context including band mission and proposal
       const task = await prisma.task.findUnique({
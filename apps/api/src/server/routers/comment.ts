@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../services/notification.service'
@@ -71,10 +71,9 @@ export const commentRouter = router({
     }),
 
   // Create a comment
-  create: publicProcedure
+  create: protectedProcedure
     .input(z.object({
       content: z.string().min(1, 'Comment cannot be empty'),
-      authorId: z.string(),
       parentId: z.string().optional(),
       bandId: z.string().optional(),
       proposalId: z.string().optional(),
@@ -82,12 +81,13 @@ export const commentRouter = router({
       taskId: z.string().optional(),
       mentionedUserIds: z.array(z.string()).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const {
-        content, authorId, parentId,
+        content, parentId,
         bandId, proposalId, projectId, taskId,
         mentionedUserIds
       } = input
+      const authorId = ctx.userId
 
       // Check content against blocked terms
       const moderationResult = await checkContent(content)
@@ -298,14 +298,14 @@ export const commentRouter = router({
     }),
 
   // Update a comment
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       commentId: z.string(),
       content: z.string().min(1, 'Comment cannot be empty'),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { commentId, content, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { commentId, content } = input
+      const { userId } = ctx
 
       // Check content against blocked terms
       const moderationResult = await checkContent(content)
@@ -384,13 +384,13 @@ export const commentRouter = router({
     }),
 
   // Delete a comment (soft delete)
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       commentId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { commentId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { commentId } = input
+      const { userId } = ctx
 
       const comment = await prisma.comment.findUnique({ where: { id: commentId } })
       
@@ -436,14 +436,14 @@ export const commentRouter = router({
     }),
 
   // Add reaction (one reaction per user per comment)
-  addReaction: publicProcedure
+  addReaction: protectedProcedure
     .input(z.object({
       commentId: z.string(),
-      userId: z.string(),
       type: z.enum(['THUMBS_UP', 'THUMBS_DOWN', 'HEART', 'CELEBRATE', 'THINKING']),
     }))
-    .mutation(async ({ input }) => {
-      const { commentId, userId, type } = input
+    .mutation(async ({ ctx, input }) => {
+      const { commentId, type } = input
+      const { userId } = ctx
 
       const comment = await prisma.comment.findUnique({ where: { id: commentId } })
       if (!comment || comment.deletedAt) {
@@ -0,0 +1,85 @@
+import { z } from 'zod'
+import { randomBytes } from 'crypto'
+import { bandMemberProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { getUniqueChannelSlug } from '../../../lib/channel-slug'
+import { MAX_CONVERSATION_PARTICIPANTS } from './conversation.query'
+
+/**
+ * Start a 1:1 or group conversation with other members of the band.
+ * An unnamed conversation with exactly the same people is reused rather
+ * than duplicated.
+ */
+export const startConversation = bandMemberProcedure
+  .input(z.object({
+    userIds: z.array(z.string()).min(1).max(MAX_CONVERSATION_PARTICIPANTS - 1),
+    name: z.string().max(80).optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { bandId } = input
+    const { userId } = ctx
+
+    const otherIds = [...new Set(input.userIds)].filter(id => id !== userId)
+    if (otherIds.length === 0) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Choose at least one other member',
+      })
+    }
+
+    const activeMembers = await prisma.member.count({
+      where: { bandId, userId: { in: otherIds }, status: 'ACTIVE' },
+    })
+    if (activeMembers !== otherIds.length) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'You can only message active members of this band',
+      })
+    }
+
+    const participantIds = [userId, ...otherIds]
+    // Only groups carry a name; a 1:1 is always titled by the other person
+    const name = otherIds.length > 1 ? input.name?.trim() || '' : ''
+
+    if (!name) {
+      const candidates = await prisma.channel.findMany({
+        where: {
+          bandId,
+          kind: 'DIRECT',
+          name: '',
+          participants: { some: { userId, leftAt: null } },
+        },
+        select: {
+          id: true,
+          participants: { select: { userId: true, leftAt: true } },
+        },
+      })
+
+      const existing = candidates.find(c =>
+        c.participants.length === participantIds.length &&
+        c.participants.every(p => !p.leftAt && participantIds.includes(p.userId))
+      )
+      if (existing) {
+        return { conversation: { id: existing.id }, created: false }
+      }
+    }
+
+    const slug = await getUniqueChannelSlug(bandId, `dm-${randomBytes(6).toString('hex')}`)
+
+    const conversation = await prisma.channel.create({
+      data: {
+        bandId,
+        name,
+        slug,
+        kind: 'DIRECT',
+        visibility: 'PUBLIC',
+        createdById: userId,
+        participants: {
+          create: participantIds.map(id => ({ userId: id })),
+        },
+      },
+    })
+
+    return { conversation: { id: conversation.id }, created: true }
+  })
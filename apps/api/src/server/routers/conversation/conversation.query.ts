@@ -0,0 +1,163 @@
+import { z } from 'zod'
+import { bandMemberProcedure, protectedProcedure, requireBandMember } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { countUnreadMessages } from '../channel'
+
+// Including the creator; small groups only - bigger audiences belong in a channel
+export const MAX_CONVERSATION_PARTICIPANTS = 10
+
+const participantInclude = {
+  participants: {
+    include: {
+      user: { select: { id: true, name: true } },
+    },
+    orderBy: { joinedAt: 'asc' as const },
+  },
+}
+
+/**
+ * Load a conversation the caller is currently in, or throw.
+ * A conversation is a DIRECT channel; anyone who has ever been added keeps a
+ * participant row, so more than two rows means it was started as a group.
+ */
+export async function requireConversationParticipant(conversationId: string, userId: string) {
+  const conversation = await prisma.channel.findUnique({
+    where: { id: conversationId },
+    include: participantInclude,
+  })
+
+  if (!conversation || conversation.kind !== 'DIRECT') {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Conversation not found',
+    })
+  }
+
+  const member = await requireBandMember(userId, conversation.bandId)
+
+  const participant = conversation.participants.find(p => p.userId === userId)
+  if (!participant || participant.leftAt) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You are not part of this conversation',
+    })
+  }
+
+  return {
+    conversation,
+    participant,
+    member,
+    isGroup: conversation.participants.length > 2,
+  }
+}
+
+/**
+ * Display title: the group's name if it has one, otherwise the other participants
+ */
+export function getConversationTitle(
+  conversation: { name: string; participants: { userId: string; leftAt: Date | null; user: { name: string } }[] },
+  userId: string
+): string {
+  if (conversation.name) return conversation.name
+
+  const others = conversation.participants
+    .filter(p => p.userId !== userId && !p.leftAt)
+    .map(p => p.user.name)
+
+  return others.length > 0 ? others.join(', ') : 'Just you'
+}
+
+/**
+ * List the caller's conversations in a band, most recently active first
+ */
+export const listConversations = bandMemberProcedure
+  .query(async ({ ctx, input }) => {
+    const { bandId } = input
+    const { userId } = ctx
+
+    const conversations = await prisma.channel.findMany({
+      where: {
+        bandId,
+        kind: 'DIRECT',
+        participants: { some: { userId, leftAt: null } },
+      },
+      include: participantInclude,
+      orderBy: [
+        { lastMessageAt: { sort: 'desc', nulls: 'last' } },
+        { createdAt: 'desc' },
+      ],
+    })
+
+    const processed = await Promise.all(conversations.map(async (conversation) => {
+      const lastMessage = await prisma.message.findFirst({
+        where: {
+          channelId: conversation.id,
+          deletedAt: null,
+          moderationStatus: 'APPROVED',
+          threadId: null,
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { content: true, author: { select: { id: true, name: true } } },
+      })
+
+      const me = conversation.participants.find(p => p.userId === userId)
+
+      return {
+        id: conversation.id,
+        title: getConversationTitle(conversation, userId),
+        name: conversation.name || null,
+        isGroup: conversation.participants.length > 2,
+        isMuted: me?.isMuted ?? false,
+        participants: conversation.participants
+          .filter(p => !p.leftAt)
+          .map(p => p.user),
+        unreadCount: await countUnreadMessages(conversation.id, userId),
+        lastMessageAt: conversation.lastMessageAt,
+        lastMessagePreview: lastMessage
+          ? {
+              authorName: lastMessage.author.id === userId ? 'You' : lastMessage.author.name,
+              content: lastMessage.content.length > 100
+                ? lastMessage.content.substring(0, 100) + '...'
+                : lastMessage.content,
+            }
+          : null,
+        createdAt: conversation.createdAt,
+      }
+    }))
+
+    return {
+      conversations: processed,
+      totalUnread: processed
+        .filter(c => !c.isMuted)
+        .reduce((sum, c) => sum + c.unreadCount, 0),
+    }
+  })
+
+/**
+ * Get a single conversation the caller is in
+ */
+export const getConversation = protectedProcedure
+  .input(z.object({
+    conversationId: z.string(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const { userId } = ctx
+    const { conversation, participant, isGroup } = await requireConversationParticipant(input.conversationId, userId)
+
+    return {
+      conversation: {
+        id: conversation.id,
+        bandId: conversation.bandId,
+        title: getConversationTitle(conversation, userId),
+        name: conversation.name || null,
+        isGroup,
+        isMuted: participant.isMuted,
+        participants: conversation.participants
+          .filter(p => !p.leftAt)
+          .map(p => ({ ...p.user, joinedAt: p.joinedAt })),
+        createdById: conversation.createdById,
+        createdAt: conversation.createdAt,
+      },
+    }
+  })
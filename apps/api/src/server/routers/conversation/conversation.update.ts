@@ -0,0 +1,170 @@
+import { z } from 'zod'
+import { protectedProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { getChannelDefaults } from '../../../lib/notification-catalog'
+import { TRPCError } from '@trpc/server'
+import { MAX_CONVERSATION_PARTICIPANTS, requireConversationParticipant } from './conversation.query'
+
+/**
+ * Rename a group conversation (an empty name goes back to listing participants)
+ */
+export const renameConversation = protectedProcedure
+  .input(z.object({
+    conversationId: z.string(),
+    name: z.string().max(80),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { conversationId } = input
+    const { isGroup } = await requireConversationParticipant(conversationId, ctx.userId)
+
+    if (!isGroup) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Only group conversations can be named',
+      })
+    }
+
+    await prisma.channel.update({
+      where: { id: conversationId },
+      data: { name: input.name.trim() },
+    })
+
+    return { success: true }
+  })
+
+/**
+ * Add band members to a group conversation. They can read its history.
+ * A 1:1 conversation stays between its two people - start a group instead.
+ */
+export const addParticipants = protectedProcedure
+  .input(z.object({
+    conversationId: z.string(),
+    userIds: z.array(z.string()).min(1),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { conversationId } = input
+    const { conversation, isGroup } = await requireConversationParticipant(conversationId, ctx.userId)
+
+    if (!isGroup) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'People can only be added to group conversations',
+      })
+    }
+
+    const current = new Set(conversation.participants.filter(p => !p.leftAt).map(p => p.userId))
+    const newIds = [...new Set(input.userIds)].filter(id => !current.has(id))
+    if (newIds.length === 0) {
+      return { added: 0 }
+    }
+
+    if (current.size + newIds.length > MAX_CONVERSATION_PARTICIPANTS) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Conversations are limited to ${MAX_CONVERSATION_PARTICIPANTS} people`,
+      })
+    }
+
+    const activeMembers = await prisma.member.count({
+      where: { bandId: conversation.bandId, userId: { in: newIds }, status: 'ACTIVE' },
+    })
+    if (activeMembers !== newIds.length) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'You can only add active members of this band',
+      })
+    }
+
+    await prisma.$transaction(newIds.map(userId =>
+      prisma.channelParticipant.upsert({
+        where: { channelId_userId: { channelId: conversationId, userId } },
+        create: { channelId: conversationId, userId },
+        update: { leftAt: null, joinedAt: new Date() },
+      })
+    ))
+
+    return { added: newIds.length }
+  })
+
+/**
+ * Leave a group conversation. Your past messages stay.
+ */
+export const leaveConversation = protectedProcedure
+  .input(z.object({
+    conversationId: z.string(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { participant, isGroup } = await requireConversationParticipant(input.conversationId, ctx.userId)
+
+    if (!isGroup) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'You can mute a 1:1 conversation but not leave it',
+      })
+    }
+
+    await prisma.channelParticipant.update({
+      where: { id: participant.id },
+      data: { leftAt: new Date() },
+    })
+
+    return { success: true }
+  })
+
+/**
+ * Mute or unmute notifications for one conversation
+ */
+export const setMuted = protectedProcedure
+  .input(z.object({
+    conversationId: z.string(),
+    muted: z.boolean(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { participant } = await requireConversationParticipant(input.conversationId, ctx.userId)
+
+    await prisma.channelParticipant.update({
+      where: { id: participant.id },
+      data: { isMuted: input.muted },
+    })
+
+    return { success: true, isMuted: input.muted }
+  })
+
+/**
+ * Get the caller's notification preference for direct messages
+ */
+export const getNotificationSettings = protectedProcedure
+  .query(async ({ ctx }) => {
+    const preference = await prisma.notificationPreference.findUnique({
+      where: { userId_type: { userId: ctx.userId, type: 'DIRECT_MESSAGE_RECEIVED' } },
+    })
+
+    const defaults = getChannelDefaults('DIRECT_MESSAGE_RECEIVED')
+    return {
+      inApp: preference?.inApp ?? defaults.inApp,
+      email: preference?.email ?? defaults.email,
+    }
+  })
+
+/**
+ * Update the caller's notification preference for direct messages
+ */
+export const updateNotificationSettings = protectedProcedure
+  .input(z.object({
+    inApp: z.boolean(),
+    email: z.boolean(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const preference = await prisma.notificationPreference.upsert({
+      where: { userId_type: { userId: ctx.userId, type: 'DIRECT_MESSAGE_RECEIVED' } },
+      create: { userId: ctx.userId, type: 'DIRECT_MESSAGE_RECEIVED', inApp: input.inApp, email: input.email },
+      update: { inApp: input.inApp, email: input.email },
+      select: { inApp: true, email: true },
+    })
+
+    const defaults = getChannelDefaults('DIRECT_MESSAGE_RECEIVED')
+    return {
+      inApp: preference.inApp ?? defaults.inApp,
+      email: preference.email ?? defaults.email,
+    }
+  })
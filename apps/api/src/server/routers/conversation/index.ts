@@ -0,0 +1,35 @@
+import { router } from '../../trpc'
+import { listConversations, getConversation } from './conversation.query'
+import { startConversation } from './conversation.create'
+import {
+  renameConversation,
+  addParticipants,
+  leaveConversation,
+  setMuted,
+  getNotificationSettings,
+  updateNotificationSettings,
+} from './conversation.update'
+
+/**
+ * Direct and small-group conversations between band members.
+ * Conversations are DIRECT channels, so messages, threads, reactions,
+ * mentions and edits go through the message router as usual.
+ */
+export const conversationRouter = router({
+  // Read
+  list: listConversations,
+  get: getConversation,
+
+  // Create
+  start: startConversation,
+
+  // Update
+  rename: renameConversation,
+  addParticipants: addParticipants,
+  leave: leaveConversation,
+  setMuted: setMuted,
+
+  // Notification preferences
+  getNotificationSettings: getNotificationSettings,
+  updateNotificationSettings: updateNotificationSettings,
+})
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure, adminProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { verifyUnsubscribeToken } from '../../lib/digest-token'
@@ -9,15 +9,10 @@ export const digestRouter = router({
   /**
    * Get digest preferences for current user
    */
-  getPreferences: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getPreferences: protectedProcedure
+    .query(async ({ ctx }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           digestFrequency: true,
           digestWeeklyDay: true,
@@ -40,16 +35,16 @@ export const digestRouter = router({
   /**
    * Update digest preferences
    */
-  updatePreferences: publicProcedure
+  updatePreferences: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         frequency: z.enum(['DAILY', 'EVERY_OTHER_DAY', 'WEEKLY', 'NEVER']),
         weeklyDay: z.number().min(0).max(6).optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { userId, frequency, weeklyDay } = input
+    .mutation(async ({ ctx, input }) => {
+      const { frequency, weeklyDay } = input
+      const { userId } = ctx
 
       // Validate weeklyDay is provided for WEEKLY frequency
       if (frequency === 'WEEKLY' && weeklyDay === undefined) {
@@ -114,7 +109,7 @@ export const digestRouter = router({
   /**
    * Manually trigger digest job (for testing)
    */
-  trigger: publicProcedure.mutation(async () => {
+  trigger: adminProcedure.mutation(async () => {
     const result = await runDigestJob()
     return result
   }),
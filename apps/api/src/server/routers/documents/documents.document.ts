@@ -1,10 +1,12 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { MemberRole, DocumentFolderVisibility } from '@prisma/client'
-import { canAccessDocumentFolder, canManageDocuments } from './documents.folder'
+import { getFolderAccess, assertFolderPermission } from './documents.folder'
+import { isVisibleToAllMembers, permissionsForRole } from '../../../lib/document-folder-access'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
+import { webhookService } from '../../../services/webhook.service'
+import { documentTextService } from '../../../services/document-text.service'
 
 function generateSlug(title: string): string {
   return title
@@ -15,56 +17,64 @@ function generateSlug(title: string): string {
     .slice(0, 250)
 }
 
+/**
+ * Load a live document and check the caller's permission on its folder
+ */
+export async function requireDocumentPermission(
+  documentId: string,
+  userId: string,
+  permission: 'view' | 'upload' | 'manage'
+) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      id: true,
+      bandId: true,
+      folderId: true,
+      fileId: true,
+      currentVersion: true,
+      isPinned: true,
+      deletedAt: true,
+    },
+  })
+
+  if (!document || document.deletedAt) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Document not found',
+    })
+  }
+
+  const access = await getFolderAccess(document.folderId, userId)
+  assertFolderPermission(access, permission)
+
+  return { document, access }
+}
+
 /**
  * List documents in a folder
  */
-export const listDocuments = publicProcedure
+export const listDocuments = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     folderId: z.string(),
-    userId: z.string(),
     limit: z.number().min(1).max(100).optional().default(50),
     cursor: z.string().optional(),
   }))
-  .query(async ({ input }) => {
-    const { bandId, folderId, userId, limit, cursor } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view documents',
-      })
-    }
-
-    const userRole = membership.role
+  .query(async ({ ctx, input }) => {
+    const { bandId, folderId, limit, cursor } = input
+    const { userId } = ctx
 
     // Get folder and check access
-    const folder = await prisma.documentFolder.findUnique({
-      where: { id: folderId },
-      select: { bandId: true, visibility: true },
-    })
+    const access = await getFolderAccess(folderId, userId)
 
-    if (!folder || folder.bandId !== bandId) {
+    if (access.bandId !== bandId) {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Folder not found',
       })
     }
 
-    if (!canAccessDocumentFolder(userRole, folder.visibility)) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have access to this folder',
-      })
-    }
+    assertFolderPermission(access, 'view')
 
     // Get documents
     const documents = await prisma.document.findMany({
@@ -101,9 +111,6 @@ export const listDocuments = publicProcedure
       nextCursor = nextItem?.id
     }
 
-    // Check if user can manage documents
-    const { canManage } = await canManageDocuments(bandId, userId)
-
     return {
       documents: documents.map((doc) => ({
         id: doc.id,
@@ -112,44 +119,28 @@ export const listDocuments = publicProcedure
         description: doc.description,
         isPinned: doc.isPinned,
         downloadCount: doc.downloadCount,
+        currentVersion: doc.currentVersion,
         createdAt: doc.createdAt,
         updatedAt: doc.updatedAt,
         uploadedBy: doc.uploadedBy,
         file: doc.file,
       })),
       nextCursor,
-      canManageDocuments: canManage,
+      canManageDocuments: access.canManage,
+      canUpload: access.canUpload,
     }
   })
 
 /**
  * Get a single document
  */
-export const getDocument = publicProcedure
+export const getDocument = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     documentSlug: z.string(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { bandId, documentSlug, userId } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view documents',
-      })
-    }
-
-    const userRole = membership.role
+  .query(async ({ ctx, input }) => {
+    const { bandId, documentSlug } = input
+    const { userId } = ctx
 
     const document = await prisma.document.findFirst({
       where: {
@@ -159,7 +150,7 @@ export const getDocument = publicProcedure
       },
       include: {
         folder: {
-          select: { id: true, name: true, slug: true, visibility: true },
+          select: { id: true, name: true, slug: true, visibility: true, parentFolderId: true },
         },
         uploadedBy: {
           select: { id: true, name: true },
@@ -184,16 +175,15 @@ export const getDocument = publicProcedure
       })
     }
 
-    if (!canAccessDocumentFolder(userRole, document.folder.visibility)) {
+    const access = await getFolderAccess(document.folder.id, userId)
+
+    if (!access.canView) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this document',
       })
     }
 
-    // Check if user can manage documents
-    const { canManage } = await canManageDocuments(bandId, userId)
-
     return {
       document: {
         id: document.id,
@@ -202,61 +192,45 @@ export const getDocument = publicProcedure
         description: document.description,
         isPinned: document.isPinned,
         downloadCount: document.downloadCount,
+        currentVersion: document.currentVersion,
         createdAt: document.createdAt,
         updatedAt: document.updatedAt,
         uploadedBy: document.uploadedBy,
         file: document.file,
         folder: document.folder,
       },
-      canManageDocuments: canManage,
+      canManageDocuments: access.canManage,
     }
   })
 
 /**
  * Upload a new document (create document record linked to an existing file)
  */
-export const uploadDocument = publicProcedure
+export const uploadDocument = protectedProcedure
   .input(z.object({
     bandId: z.string(),
     folderId: z.string(),
-    userId: z.string(),
     fileId: z.string(),
     title: z.string().min(1).max(200),
     description: z.string().max(1000).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, folderId, userId, fileId, title, description } = input
-
-    // Check permission
-    const { canManage, role } = await canManageDocuments(bandId, userId)
-
-    if (!role) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, folderId, fileId, title, description } = input
+    const { userId } = ctx
 
-    if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
-      })
-    }
+    // Verify folder exists, belongs to band and accepts uploads from this member
+    const access = await getFolderAccess(folderId, userId)
+    const folder = access.folder
 
-    // Verify folder exists and belongs to band
-    const folder = await prisma.documentFolder.findUnique({
-      where: { id: folderId },
-      select: { bandId: true, isArchived: true },
-    })
-
-    if (!folder || folder.bandId !== bandId) {
+    if (access.bandId !== bandId) {
       throw new TRPCError({
         code: 'NOT_FOUND',
         message: 'Folder not found',
       })
     }
 
+    assertFolderPermission(access, 'upload')
+
     if (folder.isArchived) {
       throw new TRPCError({
         code: 'BAD_REQUEST',
@@ -267,7 +241,7 @@ export const uploadDocument = publicProcedure
     // Verify file exists and is not already linked to a document
     const file = await prisma.file.findUnique({
       where: { id: fileId },
-      include: { document: true },
+      include: { document: true, documentVersion: true },
     })
 
     if (!file) {
@@ -277,7 +251,7 @@ export const uploadDocument = publicProcedure
       })
     }
 
-    if (file.document) {
+    if (file.document || file.documentVersion) {
       throw new TRPCError({
         code: 'BAD_REQUEST',
         message: 'File is already linked to a document',
@@ -307,8 +281,14 @@ export const uploadDocument = publicProcedure
           title,
           slug,
           description,
+          versions: {
+            create: { versionNumber: 1, fileId, uploadedById: userId },
+          },
         },
         include: {
+          versions: {
+            select: { id: true },
+          },
           uploadedBy: {
             select: { id: true, name: true },
           },
@@ -337,55 +317,46 @@ export const uploadDocument = publicProcedure
       return doc
     })
 
+    documentTextService.extractVersion(document.versions[0].id).catch(err =>
+      console.error('Error extracting document text:', err)
+    )
+
     // Check onboarding progress (document upload = milestone 10)
     checkAndAdvanceOnboarding(bandId).catch(err =>
       console.error('Error checking onboarding:', err)
     )
 
+    // Restricted folders stay internal
+    if (isVisibleToAllMembers(access.tree.roles.get(folderId))) {
+      webhookService.documentUploaded(bandId, {
+        id: document.id,
+        title: document.title,
+        description: document.description,
+        folder: folder.name,
+        mimeType: document.file.mimeType,
+        size: document.file.size,
+        uploadedBy: document.uploadedBy.name,
+        uploadedAt: document.createdAt,
+      }).catch(err => console.error('Webhook error:', err))
+    }
+
     return { document }
   })
 
 /**
  * Update a document
  */
-export const updateDocument = publicProcedure
+export const updateDocument = protectedProcedure
   .input(z.object({
     documentId: z.string(),
-    userId: z.string(),
     title: z.string().min(1).max(200).optional(),
     description: z.string().max(1000).optional().nullable(),
   }))
-  .mutation(async ({ input }) => {
-    const { documentId, userId, ...updates } = input
+  .mutation(async ({ ctx, input }) => {
+    const { documentId, ...updates } = input
+    const { userId } = ctx
 
-    const document = await prisma.document.findUnique({
-      where: { id: documentId },
-      select: { bandId: true, deletedAt: true },
-    })
-
-    if (!document || document.deletedAt) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document not found',
-      })
-    }
-
-    // Check permission
-    const { canManage, role } = await canManageDocuments(document.bandId, userId)
-
-    if (!role) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
-
-    if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
-      })
-    }
+    const { document } = await requireDocumentPermission(documentId, userId, 'manage')
 
     // Update slug if title changed
     const updateData: any = { ...updates }
@@ -432,42 +403,15 @@ export const updateDocument = publicProcedure
 /**
  * Delete a document (soft delete)
  */
-export const deleteDocument = publicProcedure
+export const deleteDocument = protectedProcedure
   .input(z.object({
     documentId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { documentId, userId } = input
-
-    const document = await prisma.document.findUnique({
-      where: { id: documentId },
-      select: { bandId: true, folderId: true, deletedAt: true },
-    })
-
-    if (!document || document.deletedAt) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document not found',
-      })
-    }
+  .mutation(async ({ ctx, input }) => {
+    const { documentId } = input
+    const { userId } = ctx
 
-    // Check permission
-    const { canManage, role } = await canManageDocuments(document.bandId, userId)
-
-    if (!role) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
-
-    if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
-      })
-    }
+    const { document } = await requireDocumentPermission(documentId, userId, 'manage')
 
     // Soft delete and update folder counts in a transaction
     await prisma.$transaction(async (tx) => {
@@ -488,44 +432,79 @@ export const deleteDocument = publicProcedure
   })
 
 /**
- * Toggle pin status of a document
+ * Move a document to another folder
  */
-export const togglePin = publicProcedure
+export const moveDocument = protectedProcedure
   .input(z.object({
     documentId: z.string(),
-    userId: z.string(),
+    folderId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { documentId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { documentId, folderId } = input
+    const { userId } = ctx
 
-    const document = await prisma.document.findUnique({
-      where: { id: documentId },
-      select: { bandId: true, isPinned: true, deletedAt: true },
-    })
+    const { document, access } = await requireDocumentPermission(documentId, userId, 'manage')
 
-    if (!document || document.deletedAt) {
+    if (document.folderId === folderId) {
+      return { success: true }
+    }
+
+    const destination = access.tree.byId.get(folderId)
+
+    if (!destination) {
       throw new TRPCError({
         code: 'NOT_FOUND',
-        message: 'Document not found',
+        message: 'Destination folder not found',
       })
     }
 
-    // Check permission
-    const { canManage, role } = await canManageDocuments(document.bandId, userId)
+    // Moving a document into a folder counts as uploading to it
+    assertFolderPermission(permissionsForRole(access.tree.roles.get(folderId), access.role), 'upload')
 
-    if (!role) {
+    if (destination.isArchived) {
       throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
+        code: 'BAD_REQUEST',
+        message: 'Cannot move a document into an archived folder',
       })
     }
 
-    if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
+    await prisma.$transaction(async (tx) => {
+      await tx.document.update({
+        where: { id: documentId },
+        data: { folderId },
       })
-    }
+
+      await tx.documentFolder.update({
+        where: { id: document.folderId },
+        data: {
+          documentCount: { decrement: 1 },
+        },
+      })
+
+      await tx.documentFolder.update({
+        where: { id: folderId },
+        data: {
+          documentCount: { increment: 1 },
+          lastDocumentAt: new Date(),
+        },
+      })
+    })
+
+    return { success: true }
+  })
+
+/**
+ * Toggle pin status of a document
+ */
+export const togglePin = protectedProcedure
+  .input(z.object({
+    documentId: z.string(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { documentId } = input
+    const { userId } = ctx
+
+    const { document } = await requireDocumentPermission(documentId, userId, 'manage')
 
     const updated = await prisma.document.update({
       where: { id: documentId },
@@ -539,57 +518,28 @@ export const togglePin = publicProcedure
 /**
  * Increment download count
  */
-export const incrementDownload = publicProcedure
+export const incrementDownload = protectedProcedure
   .input(z.object({
     documentId: z.string(),
-    userId: z.string(),
+    versionId: z.string().optional(), // Defaults to the current version
   }))
-  .mutation(async ({ input }) => {
-    const { documentId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { documentId, versionId } = input
+    const { userId } = ctx
 
     // Verify user has access
-    const document = await prisma.document.findUnique({
-      where: { id: documentId },
-      include: {
-        folder: {
-          select: { visibility: true },
-        },
-      },
-    })
+    const { document } = await requireDocumentPermission(documentId, userId, 'view')
 
-    if (!document || document.deletedAt) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Document not found',
-      })
-    }
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId: document.bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
-
-    if (!canAccessDocumentFolder(membership.role, document.folder.visibility)) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have access to this document',
-      })
-    }
-
-    await prisma.document.update({
-      where: { id: documentId },
-      data: { downloadCount: { increment: 1 } },
-    })
+    await prisma.$transaction([
+      prisma.document.update({
+        where: { id: documentId },
+        data: { downloadCount: { increment: 1 } },
+      }),
+      prisma.documentVersion.updateMany({
+        where: versionId ? { id: versionId, documentId } : { documentId, fileId: document.fileId },
+        data: { downloadCount: { increment: 1 } },
+      }),
+    ])
 
     return { success: true }
   })
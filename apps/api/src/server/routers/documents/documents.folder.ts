@@ -1,20 +1,25 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { MemberRole, DocumentFolderVisibility } from '@prisma/client'
-
-// Role hierarchy for folder visibility
-const VISIBILITY_ROLES: Record<DocumentFolderVisibility, MemberRole[]> = {
-  PUBLIC: ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER'],
-  MODERATOR: ['FOUNDER', 'GOVERNOR', 'MODERATOR'],
-  GOVERNANCE: ['FOUNDER', 'GOVERNOR'],
-}
-
-export function canAccessDocumentFolder(role: MemberRole, visibility: DocumentFolderVisibility): boolean {
-  return VISIBILITY_ROLES[visibility].includes(role)
-}
+import { MemberRole } from '@prisma/client'
+import {
+  FolderPermissions,
+  MAX_FOLDER_DEPTH,
+  loadBandFolders,
+  permissionsForRole,
+  resolveFolderRoles,
+  getFolderPath,
+  getDescendantIds,
+  getSubtreeHeight,
+} from '../../../lib/document-folder-access'
+
+const memberRoleSchema = z.enum(['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER'])
 
+/**
+ * Band-wide document management: creating and ordering root folders.
+ * Inside a folder, use the folder's own permissions (getFolderAccess).
+ */
 export async function canManageDocuments(bandId: string, userId: string): Promise<{ canManage: boolean; role: MemberRole | null }> {
   const membership = await prisma.member.findUnique({
     where: {
@@ -37,8 +42,76 @@ export async function canManageDocuments(bandId: string, userId: string): Promis
   }
 
   return {
-    canManage: band.whoCanManageDocuments.includes(membership.role),
+    canManage: membership.role === 'FOUNDER' || band.whoCanManageDocuments.includes(membership.role),
+    role: membership.role,
+  }
+}
+
+/**
+ * Resolve the caller's view/upload/manage permissions on a folder
+ */
+export async function getFolderAccess(folderId: string, userId: string) {
+  const folder = await prisma.documentFolder.findUnique({
+    where: { id: folderId },
+    select: { bandId: true },
+  })
+
+  if (!folder) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Folder not found',
+    })
+  }
+
+  const membership = await prisma.member.findUnique({
+    where: {
+      userId_bandId: { userId, bandId: folder.bandId },
+    },
+    select: { role: true, status: true },
+  })
+
+  if (!membership || membership.status !== 'ACTIVE') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You must be an active band member',
+    })
+  }
+
+  const tree = await loadBandFolders(folder.bandId)
+
+  return {
+    bandId: folder.bandId,
     role: membership.role,
+    folder: tree.byId.get(folderId)!,
+    tree,
+    ...permissionsForRole(tree.roles.get(folderId), membership.role),
+  }
+}
+
+/**
+ * Throw unless the caller has the given permission on the folder
+ */
+export function assertFolderPermission(
+  permissions: FolderPermissions,
+  permission: 'view' | 'upload' | 'manage'
+) {
+  if (!permissions.canView) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have access to this folder',
+    })
+  }
+  if (permission === 'upload' && !permissions.canUpload) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have permission to upload to this folder',
+    })
+  }
+  if (permission === 'manage' && !permissions.canManage) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have permission to manage this folder',
+    })
   }
 }
 
@@ -52,48 +125,51 @@ function generateSlug(name: string): string {
 }
 
 /**
- * List all folders for a band
+ * List the folders at one level of the tree (the root by default)
  */
-export const listFolders = publicProcedure
+export const listFolders = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
-    userId: z.string(),
+    parentFolderId: z.string().nullable().optional(),
     includeArchived: z.boolean().optional().default(false),
   }))
-  .query(async ({ input }) => {
-    const { bandId, userId, includeArchived } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view documents',
-      })
+  .query(async ({ ctx, input }) => {
+    const { bandId, includeArchived } = input
+    const parentFolderId = input.parentFolderId ?? null
+    const { userId } = ctx
+    const userRole = ctx.member.role
+
+    const tree = await loadBandFolders(bandId)
+
+    // Creating folders here needs band-wide rights at the root, folder rights below it
+    let canManage: boolean
+    if (parentFolderId) {
+      const parent = tree.byId.get(parentFolderId)
+      if (!parent) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Folder not found',
+        })
+      }
+      const parentPermissions = permissionsForRole(tree.roles.get(parentFolderId), userRole)
+      assertFolderPermission(parentPermissions, 'view')
+      canManage = parentPermissions.canManage
+    } else {
+      canManage = (await canManageDocuments(bandId, userId)).canManage
     }
 
-    const userRole = membership.role
-
-    // Check if user can manage documents
-    const { canManage } = await canManageDocuments(bandId, userId)
-
-    // Get all folders
     const folders = await prisma.documentFolder.findMany({
       where: {
         bandId,
-        parentFolderId: null, // Only root level folders for now
+        parentFolderId,
         ...(includeArchived ? {} : { isArchived: false }),
       },
       include: {
         createdBy: {
           select: { id: true, name: true },
         },
+        _count: {
+          select: { subFolders: true },
+        },
       },
       orderBy: [
         { sortOrder: 'asc' },
@@ -103,7 +179,8 @@ export const listFolders = publicProcedure
 
     // Process with access info
     const processedFolders = folders.map((folder) => {
-      const hasAccess = canAccessDocumentFolder(userRole, folder.visibility)
+      const permissions = permissionsForRole(tree.roles.get(folder.id), userRole)
+      const hasAccess = permissions.canView
 
       return {
         id: folder.id,
@@ -111,10 +188,14 @@ export const listFolders = publicProcedure
         slug: folder.slug,
         description: folder.description,
         visibility: folder.visibility,
+        inheritPermissions: folder.inheritPermissions,
         sortOrder: folder.sortOrder,
         isArchived: folder.isArchived,
         hasAccess,
+        canUpload: permissions.canUpload,
+        canManage: permissions.canManage,
         documentCount: hasAccess ? folder.documentCount : null,
+        subfolderCount: hasAccess ? folder._count.subFolders : null,
         lastDocumentAt: hasAccess ? folder.lastDocumentAt : null,
         createdBy: folder.createdBy,
         createdAt: folder.createdAt,
@@ -128,33 +209,46 @@ export const listFolders = publicProcedure
   })
 
 /**
- * Get a single folder by slug
+ * Every folder the caller can see, as a flat list with parent links
+ * (for move pickers and tree views)
  */
-export const getFolder = publicProcedure
-  .input(z.object({
-    bandId: z.string(),
-    folderSlug: z.string(),
-    userId: z.string(),
-  }))
-  .query(async ({ input }) => {
-    const { bandId, folderSlug, userId } = input
+export const getFolderTree = bandMemberProcedure
+  .query(async ({ ctx, input }) => {
+    const { bandId } = input
+    const userRole = ctx.member.role
 
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
+    const tree = await loadBandFolders(bandId)
+    const { canManage } = await canManageDocuments(bandId, ctx.userId)
 
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view documents',
-      })
+    const folders = tree.folders
+      .map((folder) => ({
+        id: folder.id,
+        name: folder.name,
+        slug: folder.slug,
+        parentFolderId: folder.parentFolderId,
+        isArchived: folder.isArchived,
+        depth: getFolderPath(tree.byId, folder.id).length,
+        ...permissionsForRole(tree.roles.get(folder.id), userRole),
+      }))
+      .filter((folder) => folder.canView)
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return {
+      folders,
+      canManageRoot: canManage,
     }
+  })
 
-    const userRole = membership.role
+/**
+ * Get a single folder by slug, with its breadcrumbs and subfolders
+ */
+export const getFolder = bandMemberProcedure
+  .input(z.object({
+    folderSlug: z.string(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const { bandId, folderSlug } = input
+    const userRole = ctx.member.role
 
     const folder = await prisma.documentFolder.findFirst({
       where: {
@@ -175,17 +269,19 @@ export const getFolder = publicProcedure
       })
     }
 
-    const hasAccess = canAccessDocumentFolder(userRole, folder.visibility)
+    const tree = await loadBandFolders(bandId)
+    const roles = tree.roles.get(folder.id)
+    const permissions = permissionsForRole(roles, userRole)
 
-    if (!hasAccess) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have access to this folder',
-      })
-    }
+    assertFolderPermission(permissions, 'view')
 
-    // Check if user can manage documents
-    const { canManage } = await canManageDocuments(bandId, userId)
+    // Ancestors, root first; restricted ones show without a link
+    const breadcrumbs = getFolderPath(tree.byId, folder.id).slice(0, -1).map((ancestor) => ({
+      id: ancestor.id,
+      name: ancestor.name,
+      slug: ancestor.slug,
+      hasAccess: permissionsForRole(tree.roles.get(ancestor.id), userRole).canView,
+    }))
 
     return {
       folder: {
@@ -194,46 +290,89 @@ export const getFolder = publicProcedure
         slug: folder.slug,
         description: folder.description,
         visibility: folder.visibility,
+        parentFolderId: folder.parentFolderId,
         sortOrder: folder.sortOrder,
         isArchived: folder.isArchived,
         documentCount: folder.documentCount,
         lastDocumentAt: folder.lastDocumentAt,
         createdBy: folder.createdBy,
         createdAt: folder.createdAt,
+        depth: breadcrumbs.length + 1,
       },
-      canManageDocuments: canManage,
+      breadcrumbs,
+      permissions,
+      // Permission settings are only shown to people who can change them
+      permissionSettings: permissions.canManage && roles
+        ? {
+            inheritPermissions: folder.inheritPermissions,
+            viewRoles: folder.viewRoles,
+            uploadRoles: folder.uploadRoles,
+            manageRoles: folder.manageRoles,
+            effective: roles,
+          }
+        : null,
+      canManageDocuments: permissions.canManage,
+      maxDepth: MAX_FOLDER_DEPTH,
     }
   })
 
 /**
- * Create a new folder
+ * Create a new folder, at the root or inside another folder
  */
-export const createFolder = publicProcedure
+export const createFolder = protectedProcedure
   .input(z.object({
     bandId: z.string(),
-    userId: z.string(),
+    parentFolderId: z.string().optional(),
     name: z.string().min(1).max(100),
     description: z.string().max(500).optional(),
     visibility: z.enum(['PUBLIC', 'MODERATOR', 'GOVERNANCE']).default('PUBLIC'),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, userId, name, description, visibility } = input
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, parentFolderId, name, description, visibility } = input
+    const { userId } = ctx
 
-    // Check permission
-    const { canManage, role } = await canManageDocuments(bandId, userId)
+    if (parentFolderId) {
+      const access = await getFolderAccess(parentFolderId, userId)
 
-    if (!role) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
+      if (access.bandId !== bandId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Folder not found',
+        })
+      }
 
-    if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
-      })
+      assertFolderPermission(access, 'manage')
+
+      if (access.folder.isArchived) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cannot create a folder inside an archived folder',
+        })
+      }
+
+      if (getFolderPath(access.tree.byId, parentFolderId).length >= MAX_FOLDER_DEPTH) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Folders can only be nested ${MAX_FOLDER_DEPTH} levels deep`,
+        })
+      }
+    } else {
+      // Check permission
+      const { canManage, role } = await canManageDocuments(bandId, userId)
+
+      if (!role) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You must be an active band member',
+        })
+      }
+
+      if (!canManage) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage documents',
+        })
+      }
     }
 
     // Generate slug
@@ -248,9 +387,9 @@ export const createFolder = publicProcedure
       slug = `${slug}-${Date.now().toString(36)}`
     }
 
-    // Get next sort order
+    // Get next sort order among siblings
     const maxSort = await prisma.documentFolder.aggregate({
-      where: { bandId, parentFolderId: null },
+      where: { bandId, parentFolderId: parentFolderId ?? null },
       _max: { sortOrder: true },
     })
     const sortOrder = (maxSort._max.sortOrder || 0) + 1
@@ -258,6 +397,7 @@ export const createFolder = publicProcedure
     const folder = await prisma.documentFolder.create({
       data: {
         bandId,
+        parentFolderId: parentFolderId ?? null,
         name,
         slug,
         description,
@@ -278,46 +418,20 @@ export const createFolder = publicProcedure
 /**
  * Update a folder
  */
-export const updateFolder = publicProcedure
+export const updateFolder = protectedProcedure
   .input(z.object({
     folderId: z.string(),
-    userId: z.string(),
     name: z.string().min(1).max(100).optional(),
     description: z.string().max(500).optional().nullable(),
     visibility: z.enum(['PUBLIC', 'MODERATOR', 'GOVERNANCE']).optional(),
     sortOrder: z.number().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { folderId, userId, ...updates } = input
-
-    const folder = await prisma.documentFolder.findUnique({
-      where: { id: folderId },
-      select: { bandId: true },
-    })
-
-    if (!folder) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Folder not found',
-      })
-    }
-
-    // Check permission
-    const { canManage, role } = await canManageDocuments(folder.bandId, userId)
-
-    if (!role) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
+  .mutation(async ({ ctx, input }) => {
+    const { folderId, ...updates } = input
+    const { userId } = ctx
 
-    if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
-      })
-    }
+    const access = await getFolderAccess(folderId, userId)
+    assertFolderPermission(access, 'manage')
 
     // Update slug if name changed
     const updateData: any = { ...updates }
@@ -327,7 +441,7 @@ export const updateFolder = publicProcedure
       // Check for conflicts
       const existing = await prisma.documentFolder.findFirst({
         where: {
-          bandId: folder.bandId,
+          bandId: access.bandId,
           slug: updateData.slug,
           id: { not: folderId },
         },
@@ -352,42 +466,187 @@ export const updateFolder = publicProcedure
   })
 
 /**
- * Delete a folder (only if empty)
+ * Set who can view, upload to and manage a folder, or go back to
+ * inheriting from the parent. Subfolders that inherit follow along.
  */
-export const deleteFolder = publicProcedure
+export const updateFolderPermissions = protectedProcedure
   .input(z.object({
     folderId: z.string(),
-    userId: z.string(),
+    inheritPermissions: z.boolean(),
+    viewRoles: z.array(memberRoleSchema).default([]),
+    uploadRoles: z.array(memberRoleSchema).default([]),
+    manageRoles: z.array(memberRoleSchema).default([]),
   }))
-  .mutation(async ({ input }) => {
-    const { folderId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { folderId, inheritPermissions } = input
+    const { userId } = ctx
+
+    const access = await getFolderAccess(folderId, userId)
+    assertFolderPermission(access, 'manage')
+
+    const viewRoles = inheritPermissions ? [] : [...new Set(input.viewRoles)]
+    const uploadRoles = inheritPermissions ? [] : [...new Set(input.uploadRoles)]
+    const manageRoles = inheritPermissions ? [] : [...new Set(input.manageRoles)]
+
+    // Don't let people lock themselves out (founders always keep access)
+    const nextFolders = access.tree.folders.map((folder) =>
+      folder.id === folderId
+        ? { ...folder, inheritPermissions, viewRoles, uploadRoles, manageRoles }
+        : folder
+    )
+    const nextRoles = resolveFolderRoles(nextFolders, access.tree.bandManagers).get(folderId)
+    if (!permissionsForRole(nextRoles, access.role).canManage) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'These settings would remove your own access to manage this folder',
+      })
+    }
 
-    const folder = await prisma.documentFolder.findUnique({
+    await prisma.documentFolder.update({
       where: { id: folderId },
-      select: { bandId: true, documentCount: true, name: true },
+      data: { inheritPermissions, viewRoles, uploadRoles, manageRoles },
     })
 
-    if (!folder) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Folder not found',
-      })
+    return { success: true, effective: nextRoles }
+  })
+
+/**
+ * Move a folder (and everything in it) under another folder or to the root
+ */
+export const moveFolder = protectedProcedure
+  .input(z.object({
+    folderId: z.string(),
+    parentFolderId: z.string().nullable(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { folderId, parentFolderId } = input
+    const { userId } = ctx
+
+    const access = await getFolderAccess(folderId, userId)
+    assertFolderPermission(access, 'manage')
+
+    if (access.folder.parentFolderId === parentFolderId) {
+      return { success: true }
     }
 
-    // Check permission
-    const { canManage, role } = await canManageDocuments(folder.bandId, userId)
+    const { tree } = access
+    const subtreeHeight = getSubtreeHeight(tree.folders, folderId)
 
-    if (!role) {
+    if (parentFolderId) {
+      const destination = tree.byId.get(parentFolderId)
+      if (!destination) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Destination folder not found',
+        })
+      }
+
+      if (parentFolderId === folderId || getDescendantIds(tree.folders, folderId).includes(parentFolderId)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A folder cannot be moved into itself',
+        })
+      }
+
+      assertFolderPermission(permissionsForRole(tree.roles.get(parentFolderId), access.role), 'manage')
+
+      if (destination.isArchived) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cannot move a folder into an archived folder',
+        })
+      }
+
+      if (getFolderPath(tree.byId, parentFolderId).length + subtreeHeight > MAX_FOLDER_DEPTH) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Folders can only be nested ${MAX_FOLDER_DEPTH} levels deep`,
+        })
+      }
+    } else {
+      const { canManage } = await canManageDocuments(access.bandId, userId)
+      if (!canManage) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage documents',
+        })
+      }
+    }
+
+    const maxSort = await prisma.documentFolder.aggregate({
+      where: { bandId: access.bandId, parentFolderId },
+      _max: { sortOrder: true },
+    })
+
+    await prisma.documentFolder.update({
+      where: { id: folderId },
+      data: {
+        parentFolderId,
+        sortOrder: (maxSort._max.sortOrder || 0) + 1,
+      },
+    })
+
+    return { success: true }
+  })
+
+/**
+ * Archive or unarchive a folder together with all of its subfolders
+ */
+export const setFolderArchived = protectedProcedure
+  .input(z.object({
+    folderId: z.string(),
+    isArchived: z.boolean(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { folderId, isArchived } = input
+    const { userId } = ctx
+
+    const access = await getFolderAccess(folderId, userId)
+    assertFolderPermission(access, 'manage')
+
+    const parent = access.folder.parentFolderId
+      ? access.tree.byId.get(access.folder.parentFolderId)
+      : undefined
+    if (!isArchived && parent?.isArchived) {
       throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
+        code: 'BAD_REQUEST',
+        message: `Unarchive "${parent.name}" first`,
       })
     }
 
-    if (!canManage) {
+    const folderIds = [folderId, ...getDescendantIds(access.tree.folders, folderId)]
+
+    const result = await prisma.documentFolder.updateMany({
+      where: { id: { in: folderIds } },
+      data: { isArchived },
+    })
+
+    return { success: true, count: result.count }
+  })
+
+/**
+ * Delete a folder (only if it has no documents or subfolders)
+ */
+export const deleteFolder = protectedProcedure
+  .input(z.object({
+    folderId: z.string(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { folderId } = input
+    const { userId } = ctx
+
+    const access = await getFolderAccess(folderId, userId)
+    assertFolderPermission(access, 'manage')
+
+    const folder = await prisma.documentFolder.findUnique({
+      where: { id: folderId },
+      select: { documentCount: true, name: true, _count: { select: { subFolders: true } } },
+    })
+
+    if (!folder) {
       throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
+        code: 'NOT_FOUND',
+        message: 'Folder not found',
       })
     }
 
@@ -399,6 +658,13 @@ export const deleteFolder = publicProcedure
       })
     }
 
+    if (folder._count.subFolders > 0) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Cannot delete folder "${folder.name}" because it contains ${folder._count.subFolders} folder(s). Please move or delete them first.`,
+      })
+    }
+
     await prisma.documentFolder.delete({
       where: { id: folderId },
     })
@@ -409,17 +675,17 @@ export const deleteFolder = publicProcedure
 /**
  * Reorder folders
  */
-export const reorderFolders = publicProcedure
+export const reorderFolders = protectedProcedure
   .input(z.object({
     bandId: z.string(),
-    userId: z.string(),
     folderOrders: z.array(z.object({
       folderId: z.string(),
       sortOrder: z.number(),
     })),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, userId, folderOrders } = input
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, folderOrders } = input
+    const { userId } = ctx
 
     // Check permission
     const { canManage, role } = await canManageDocuments(bandId, userId)
@@ -431,18 +697,25 @@ export const reorderFolders = publicProcedure
       })
     }
 
+    // Band-wide managers can reorder anything; others only folders they manage
     if (!canManage) {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You do not have permission to manage documents',
-      })
+      const tree = await loadBandFolders(bandId)
+      const allowed = folderOrders.every(({ folderId }) =>
+        permissionsForRole(tree.roles.get(folderId), role).canManage
+      )
+      if (!allowed) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You do not have permission to manage documents',
+        })
+      }
     }
 
     // Update all folders in a transaction
     await prisma.$transaction(
       folderOrders.map(({ folderId, sortOrder }) =>
-        prisma.documentFolder.update({
-          where: { id: folderId },
+        prisma.documentFolder.updateMany({
+          where: { id: folderId, bandId },
           data: { sortOrder },
         })
       )
@@ -0,0 +1,247 @@
+import { z } from 'zod'
+import { protectedProcedure, bandMemberProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { getFolderAccess } from './documents.folder'
+import { requireDocumentPermission } from './documents.document'
+import { documentTextService } from '../../../services/document-text.service'
+
+const FILE_SELECT = {
+  id: true,
+  filename: true,
+  originalName: true,
+  mimeType: true,
+  size: true,
+  url: true,
+} as const
+
+/**
+ * List every version of a document, newest first
+ */
+export const listVersions = bandMemberProcedure
+  .input(z.object({
+    documentId: z.string(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const { bandId, documentId } = input
+
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      include: {
+        versions: {
+          include: {
+            uploadedBy: {
+              select: { id: true, name: true },
+            },
+            file: {
+              select: FILE_SELECT,
+            },
+          },
+          orderBy: { versionNumber: 'desc' },
+        },
+      },
+    })
+
+    if (!document || document.bandId !== bandId || document.deletedAt) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Document not found',
+      })
+    }
+
+    const access = await getFolderAccess(document.folderId, ctx.userId)
+
+    if (!access.canView) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'You do not have access to this document',
+      })
+    }
+
+    return {
+      versions: document.versions.map((version) => ({
+        id: version.id,
+        versionNumber: version.versionNumber,
+        note: version.note,
+        isCurrent: version.fileId === document.fileId,
+        textStatus: version.textStatus,
+        downloadCount: version.downloadCount,
+        createdAt: version.createdAt,
+        uploadedBy: version.uploadedBy,
+        file: version.file,
+      })),
+      canManageDocuments: access.canManage,
+    }
+  })
+
+/**
+ * Get the extracted text of a version (the current one by default)
+ */
+export const getVersionText = bandMemberProcedure
+  .input(z.object({
+    documentId: z.string(),
+    versionId: z.string().optional(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const { bandId, documentId, versionId } = input
+
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: {
+        bandId: true,
+        folderId: true,
+        fileId: true,
+        deletedAt: true,
+      },
+    })
+
+    if (!document || document.bandId !== bandId || document.deletedAt) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Document not found',
+      })
+    }
+
+    if (!(await getFolderAccess(document.folderId, ctx.userId)).canView) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'You do not have access to this document',
+      })
+    }
+
+    const version = await prisma.documentVersion.findFirst({
+      where: versionId ? { id: versionId, documentId } : { documentId, fileId: document.fileId },
+      select: { versionNumber: true, textStatus: true, extractedText: true },
+    })
+
+    if (!version) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Version not found',
+      })
+    }
+
+    return {
+      versionNumber: version.versionNumber,
+      textStatus: version.textStatus,
+      text: version.extractedText,
+    }
+  })
+
+/**
+ * Upload a new version of a document. The previous file stays available in
+ * the version history.
+ */
+export const uploadVersion = protectedProcedure
+  .input(z.object({
+    documentId: z.string(),
+    fileId: z.string(),
+    note: z.string().max(500).optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { documentId, fileId, note } = input
+    const { userId } = ctx
+
+    await requireDocumentPermission(documentId, userId, 'manage')
+
+    // Verify file exists and is not already linked to a document
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      include: { document: true, documentVersion: true },
+    })
+
+    if (!file) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'File not found',
+      })
+    }
+
+    if (file.document || file.documentVersion) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'File is already linked to a document',
+      })
+    }
+
+    const version = await prisma.$transaction(async (tx) => {
+      const latest = await tx.documentVersion.aggregate({
+        where: { documentId },
+        _max: { versionNumber: true },
+      })
+      const versionNumber = (latest._max.versionNumber ?? 0) + 1
+
+      const created = await tx.documentVersion.create({
+        data: {
+          documentId,
+          versionNumber,
+          fileId,
+          uploadedById: userId,
+          note: note?.trim() || null,
+        },
+      })
+
+      // Text is re-extracted for the new file
+      await tx.document.update({
+        where: { id: documentId },
+        data: { fileId, currentVersion: versionNumber, extractedText: null },
+      })
+
+      return created
+    })
+
+    documentTextService.extractVersion(version.id).catch(err =>
+      console.error('Error extracting document text:', err)
+    )
+
+    return { version: { id: version.id, versionNumber: version.versionNumber } }
+  })
+
+/**
+ * Make an earlier version current again. Later versions are kept.
+ */
+export const restoreVersion = protectedProcedure
+  .input(z.object({
+    documentId: z.string(),
+    versionId: z.string(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { documentId, versionId } = input
+
+    const { document } = await requireDocumentPermission(documentId, ctx.userId, 'manage')
+
+    const version = await prisma.documentVersion.findUnique({
+      where: { id: versionId },
+      select: { documentId: true, fileId: true, versionNumber: true, extractedText: true },
+    })
+
+    if (!version || version.documentId !== documentId) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Version not found',
+      })
+    }
+
+    if (version.fileId === document.fileId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'This version is already current',
+      })
+    }
+
+    const updated = await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        fileId: version.fileId,
+        currentVersion: version.versionNumber,
+        extractedText: version.extractedText,
+      },
+      include: {
+        file: {
+          select: FILE_SELECT,
+        },
+      },
+    })
+
+    return { document: { id: updated.id, currentVersion: updated.currentVersion, file: updated.file } }
+  })
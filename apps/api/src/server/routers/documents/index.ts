@@ -1,9 +1,13 @@
 import { router } from '../../trpc'
 import {
   listFolders,
+  getFolderTree,
   getFolder,
   createFolder,
   updateFolder,
+  updateFolderPermissions,
+  moveFolder,
+  setFolderArchived,
   deleteFolder,
   reorderFolders,
 } from './documents.folder'
@@ -13,16 +17,27 @@ import {
   uploadDocument,
   updateDocument,
   deleteDocument,
+  moveDocument,
   togglePin,
   incrementDownload,
 } from './documents.document'
+import {
+  listVersions,
+  getVersionText,
+  uploadVersion,
+  restoreVersion,
+} from './documents.version'
 
 export const documentsRouter = router({
   // Folders
   listFolders,
+  getFolderTree,
   getFolder,
   createFolder,
   updateFolder,
+  updateFolderPermissions,
+  moveFolder,
+  setFolderArchived,
   deleteFolder,
   reorderFolders,
 
@@ -32,9 +47,16 @@ export const documentsRouter = router({
   uploadDocument,
   updateDocument,
   deleteDocument,
+  moveDocument,
   togglePin,
   incrementDownload,
+
+  // Versions
+  listVersions,
+  getVersionText,
+  uploadVersion,
+  restoreVersion,
 })
 
 // Re-export helpers
-export { canAccessDocumentFolder, canManageDocuments } from './documents.folder'
+export { canManageDocuments, getFolderAccess, assertFolderPermission } from './documents.folder'
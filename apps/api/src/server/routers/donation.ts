@@ -1,9 +1,11 @@
 import { z } from 'zod'
 import { Prisma } from '@prisma/client'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../services/notification.service'
+import { ledgerService } from '../../services/ledger.service'
+import { webhookService } from '../../services/webhook.service'
 
 /**
  * Get band treasurers - users marked as isTreasurer, or founder if no treasurer
@@ -132,15 +134,15 @@ export const donationRouter = router({
   /**
    * Get donation settings for a band
    */
-  getSettings: publicProcedure
+  getSettings: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Verify user is member
       const member = await getMemberForUser(userId, bandId)
@@ -172,19 +174,19 @@ export const donationRouter = router({
   /**
    * Update donation settings (treasurer only)
    */
-  updateSettings: publicProcedure
+  updateSettings: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         donationsEnabled: z.boolean().optional(),
         donationPaymentInfo: z.record(z.string()).optional(),
         donationDefaultBucketId: z.string().nullable().optional(),
         donationDueWindowDays: z.number().min(1).max(30).optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { bandId, userId, ...updates } = input
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, ...updates } = input
+      const { userId } = ctx
 
       // Verify user is treasurer
       const isTreasurer = await isUserTreasurer(userId, bandId)
@@ -221,11 +223,10 @@ export const donationRouter = router({
   /**
    * Create a one-time donation (donor submits payment)
    */
-  createOneTime: publicProcedure
+  createOneTime: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(), // Donor's user ID
         amount: z.number().positive(),
         paymentMethod: z.enum(['ZELLE', 'VENMO', 'CASHAPP', 'CASH', 'CHECK', 'OTHER']),
         paymentMethodOther: z.string().optional(),
@@ -233,8 +234,9 @@ export const donationRouter = router({
         note: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { bandId, userId, amount, paymentMethod, paymentMethodOther, referenceNumber, note } = input
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, amount, paymentMethod, paymentMethodOther, referenceNumber, note } = input
+      const { userId } = ctx
 
       // Get band
       const band = await prisma.band.findUnique({
@@ -306,11 +308,10 @@ export const donationRouter = router({
   /**
    * Create a recurring donation commitment
    */
-  createRecurring: publicProcedure
+  createRecurring: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         amount: z.number().positive(),
         frequency: z.enum(['WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']),
         paymentMethod: z.enum(['ZELLE', 'VENMO', 'CASHAPP', 'CASH', 'CHECK', 'OTHER']),
@@ -321,8 +322,9 @@ export const donationRouter = router({
         note: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { bandId, userId, amount, frequency, paymentMethod, paymentMethodOther, startDate, dayOfWeek, dayOfMonth, note } = input
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, amount, frequency, paymentMethod, paymentMethodOther, startDate, dayOfWeek, dayOfMonth, note } = input
+      const { userId } = ctx
 
       // Get band
       const band = await prisma.band.findUnique({
@@ -410,17 +412,17 @@ export const donationRouter = router({
   /**
    * Submit payment for an expected donation
    */
-  submitPayment: publicProcedure
+  submitPayment: protectedProcedure
     .input(
       z.object({
         donationId: z.string(),
-        userId: z.string(),
         referenceNumber: z.string().optional(),
         note: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { donationId, userId, referenceNumber, note } = input
+    .mutation(async ({ ctx, input }) => {
+      const { donationId, referenceNumber, note } = input
+      const { userId } = ctx
 
       const donation = await prisma.donation.findUnique({
         where: { id: donationId },
@@ -492,16 +494,16 @@ export const donationRouter = router({
   /**
    * Confirm a pending donation (treasurer only)
    */
-  confirm: publicProcedure
+  confirm: protectedProcedure
     .input(
       z.object({
         donationId: z.string(),
-        userId: z.string(),
         note: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { donationId, userId, note } = input
+    .mutation(async ({ ctx, input }) => {
+      const { donationId, note } = input
+      const { userId } = ctx
 
       const donation = await prisma.donation.findUnique({
         where: { id: donationId },
@@ -537,6 +539,11 @@ export const donationRouter = router({
         },
       })
 
+      // Post to the bucket ledger (failures show up as unposted on reconciliation)
+      await ledgerService.postDonation(donationId).catch(err =>
+        console.error('Error posting donation to ledger:', err)
+      )
+
       // If this is a recurring donation, update nextDueDate and reset missedCount
       if (donation.recurringDonation) {
         const nextDueDate = calculateNextDueDate(
@@ -593,22 +600,29 @@ export const donationRouter = router({
         relatedType: 'Donation',
       })
 
+      webhookService.donationConfirmed(donation.bandId, {
+        id: updatedDonation.id,
+        amount: updatedDonation.amount,
+        currency: updatedDonation.currency,
+        confirmedAt: updatedDonation.confirmedAt ?? new Date(),
+      }).catch(err => console.error('Webhook error:', err))
+
       return { success: true, donation: updatedDonation }
     }),
 
   /**
    * Reject a pending donation (treasurer only)
    */
-  reject: publicProcedure
+  reject: protectedProcedure
     .input(
       z.object({
         donationId: z.string(),
-        userId: z.string(),
         reason: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
-      const { donationId, userId, reason } = input
+    .mutation(async ({ ctx, input }) => {
+      const { donationId, reason } = input
+      const { userId } = ctx
 
       const donation = await prisma.donation.findUnique({
         where: { id: donationId },
@@ -672,15 +686,15 @@ export const donationRouter = router({
   /**
    * Cancel a recurring donation (donor only)
    */
-  cancelRecurring: publicProcedure
+  cancelRecurring: protectedProcedure
     .input(
       z.object({
         recurringDonationId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { recurringDonationId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { recurringDonationId } = input
+      const { userId } = ctx
 
       const recurringDonation = await prisma.recurringDonation.findUnique({
         where: { id: recurringDonationId },
@@ -759,15 +773,15 @@ export const donationRouter = router({
   /**
    * Pause a recurring donation (donor only)
    */
-  pauseRecurring: publicProcedure
+  pauseRecurring: protectedProcedure
     .input(
       z.object({
         recurringDonationId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { recurringDonationId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { recurringDonationId } = input
+      const { userId } = ctx
 
       const recurringDonation = await prisma.recurringDonation.findUnique({
         where: { id: recurringDonationId },
@@ -799,15 +813,15 @@ export const donationRouter = router({
   /**
    * Resume a paused recurring donation (donor only)
    */
-  resumeRecurring: publicProcedure
+  resumeRecurring: protectedProcedure
     .input(
       z.object({
         recurringDonationId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { recurringDonationId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { recurringDonationId } = input
+      const { userId } = ctx
 
       const recurringDonation = await prisma.recurringDonation.findUnique({
         where: { id: recurringDonationId },
@@ -872,19 +886,19 @@ export const donationRouter = router({
   /**
    * List donations for a band (treasurer sees all, members see own)
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         status: z.enum(['EXPECTED', 'PENDING', 'CONFIRMED', 'MISSED', 'REJECTED', 'CANCELLED']).optional(),
         donorId: z.string().optional(),
         limit: z.number().min(1).max(100).default(50),
         cursor: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId, status, donorId, limit, cursor } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId, status, donorId, limit, cursor } = input
+      const { userId } = ctx
 
       // Verify user is member
       const member = await getMemberForUser(userId, bandId)
@@ -950,16 +964,16 @@ export const donationRouter = router({
   /**
    * List recurring donations
    */
-  listRecurring: publicProcedure
+  listRecurring: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         status: z.enum(['ACTIVE', 'PAUSED', 'CANCELLED', 'AUTO_CANCELLED']).optional(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId, status } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId, status } = input
+      const { userId } = ctx
 
       // Verify user is member
       const member = await getMemberForUser(userId, bandId)
@@ -1010,15 +1024,15 @@ export const donationRouter = router({
   /**
    * Get donation summary for treasurer dashboard
    */
-  getSummary: publicProcedure
+  getSummary: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Only treasurer can see summary
       const isTreasurer = await isUserTreasurer(userId, bandId)
@@ -1072,15 +1086,15 @@ export const donationRouter = router({
   /**
    * Get my donations (for donor view)
    */
-  getMyDonations: publicProcedure
+  getMyDonations: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Verify user is member
       const member = await getMemberForUser(userId, bandId)
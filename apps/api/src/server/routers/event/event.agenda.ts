@@ -0,0 +1,540 @@
+import { z } from 'zod'
+import { protectedProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { notificationService } from '../../../services/notification.service'
+import { checkMultipleFields } from '../../../services/content-moderation.service'
+import { requireGoodStanding } from '../../../lib/dues-enforcement'
+import { logAuditEvent } from '../../../lib/auditContext'
+import { isOccurrence } from '../../../lib/event-occurrences'
+import { MIN_MEMBERS_TO_ACTIVATE } from '@band-it/shared'
+
+// Roles that can plan agendas (besides the event creator) and create tasks from them
+const CAN_ORGANIZE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
+
+// Proposals worth putting on an agenda
+const AGENDA_PROPOSAL_STATUSES = ['PENDING_REVIEW', 'OPEN'] as const
+
+const MAX_DURATION_MINUTES = 8 * 60
+
+const itemSelect = {
+  proposal: { select: { id: true, title: true, status: true, votingEndsAt: true } },
+  task: {
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      dueDate: true,
+      projectId: true,
+      assignee: { select: { id: true, name: true } },
+    },
+  },
+  presenter: { select: { id: true, name: true } },
+  actionTasks: {
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      dueDate: true,
+      projectId: true,
+      assignee: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+  actionChecklistItems: {
+    select: {
+      id: true,
+      description: true,
+      isCompleted: true,
+      dueDate: true,
+      taskId: true,
+      assignee: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+}
+
+/**
+ * Load an event and the caller's membership in its band
+ */
+async function getEventForMember(eventId: string, userId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      title: true,
+      bandId: true,
+      createdById: true,
+      startTime: true,
+      recurrenceRule: true,
+      recurrenceEndDate: true,
+      band: { select: { slug: true, status: true } },
+    },
+  })
+
+  if (!event) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Event not found' })
+  }
+
+  const member = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId: event.bandId } },
+    select: { role: true, status: true },
+  })
+
+  if (!member || member.status !== 'ACTIVE') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You must be a band member to view this agenda' })
+  }
+
+  const canOrganize = event.createdById === userId || CAN_ORGANIZE.includes(member.role)
+  return { event, member, canOrganize }
+}
+
+function requireOrganizer(canOrganize: boolean) {
+  if (!canOrganize) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only the event creator or a conductor, moderator, governor or founder can change the agenda'
+    })
+  }
+}
+
+/**
+ * Recurring meetings keep a separate agenda per occurrence; one-off meetings
+ * have a single agenda
+ */
+function resolveAgendaOccurrence(
+  event: { startTime: Date; recurrenceRule: string | null; recurrenceEndDate: Date | null },
+  occurrenceDate: string | undefined
+): Date | null {
+  if (!event.recurrenceRule) {
+    if (occurrenceDate) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only recurring events have individual occurrences' })
+    }
+    return null
+  }
+
+  if (!occurrenceDate) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose which date of this recurring meeting the agenda is for' })
+  }
+  const date = new Date(occurrenceDate)
+  if (!isOccurrence(event, date)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'That date is not an occurrence of this event' })
+  }
+  return date
+}
+
+async function requireActiveMember(bandId: string, userId: string, label: string) {
+  const member = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+    select: { status: true },
+  })
+  if (!member || member.status !== 'ACTIVE') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `${label} must be a band member` })
+  }
+}
+
+async function getAgendaItemForMember(itemId: string, userId: string) {
+  const item = await prisma.agendaItem.findUnique({
+    where: { id: itemId },
+  })
+
+  if (!item) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Agenda item not found' })
+  }
+
+  const access = await getEventForMember(item.eventId, userId)
+  return { item, ...access }
+}
+
+/**
+ * Agenda for a meeting (one occurrence of a recurring meeting), in order.
+ * Organizers also get open proposals and overdue tasks to pick from.
+ */
+export const getAgenda = protectedProcedure
+  .input(z.object({
+    eventId: z.string(),
+    occurrenceDate: z.string().datetime().optional(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const { event, canOrganize } = await getEventForMember(input.eventId, ctx.userId)
+    const occurrenceDate = resolveAgendaOccurrence(event, input.occurrenceDate)
+
+    const items = await prisma.agendaItem.findMany({
+      where: { eventId: event.id, occurrenceDate },
+      include: itemSelect,
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    const totalMinutes = items.reduce((sum, item) => sum + (item.durationMinutes ?? 0), 0)
+
+    let suggestions = null
+    if (canOrganize) {
+      const [proposals, overdueTasks, projects] = await Promise.all([
+        prisma.proposal.findMany({
+          where: { bandId: event.bandId, status: { in: [...AGENDA_PROPOSAL_STATUSES] } },
+          select: { id: true, title: true, status: true, votingEndsAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+        }),
+        prisma.task.findMany({
+          where: {
+            bandId: event.bandId,
+            status: { not: 'COMPLETED' },
+            dueDate: { lt: new Date() },
+          },
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            dueDate: true,
+            assignee: { select: { id: true, name: true } },
+          },
+          orderBy: { dueDate: 'asc' },
+          take: 50,
+        }),
+        prisma.project.findMany({
+          where: { bandId: event.bandId, status: { notIn: ['COMPLETED', 'CANCELLED'] } },
+          select: {
+            id: true,
+            name: true,
+            tasks: {
+              where: { status: { not: 'COMPLETED' } },
+              select: { id: true, name: true },
+              orderBy: { orderIndex: 'asc' },
+            },
+          },
+          orderBy: { name: 'asc' },
+        }),
+      ])
+      suggestions = { proposals, overdueTasks, projects }
+    }
+
+    return {
+      items,
+      occurrenceDate,
+      totalMinutes,
+      canOrganize,
+      suggestions,
+    }
+  })
+
+/**
+ * Add an item to the end of a meeting's agenda
+ */
+export const addAgendaItem = protectedProcedure
+  .input(z.object({
+    eventId: z.string(),
+    occurrenceDate: z.string().datetime().optional(),
+    kind: z.enum(['TOPIC', 'PROPOSAL', 'TASK']),
+    title: z.string().min(1).max(200).optional(),
+    description: z.string().max(5000).optional(),
+    durationMinutes: z.number().int().min(1).max(MAX_DURATION_MINUTES).optional(),
+    proposalId: z.string().optional(),
+    taskId: z.string().optional(),
+    presenterId: z.string().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { event, canOrganize } = await getEventForMember(input.eventId, ctx.userId)
+    requireOrganizer(canOrganize)
+    const occurrenceDate = resolveAgendaOccurrence(event, input.occurrenceDate)
+
+    let title = input.title
+    let proposalId: string | null = null
+    let taskId: string | null = null
+
+    if (input.kind === 'PROPOSAL') {
+      const proposal = input.proposalId && await prisma.proposal.findFirst({
+        where: { id: input.proposalId, bandId: event.bandId },
+        select: { id: true, title: true },
+      })
+      if (!proposal) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose a proposal from this band' })
+      }
+      proposalId = proposal.id
+      title = title ?? proposal.title
+    } else if (input.kind === 'TASK') {
+      const task = input.taskId && await prisma.task.findFirst({
+        where: { id: input.taskId, bandId: event.bandId },
+        select: { id: true, name: true },
+      })
+      if (!task) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose a task from this band' })
+      }
+      taskId = task.id
+      title = title ?? task.name
+    }
+
+    if (!title) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'A discussion topic needs a title' })
+    }
+
+    if (input.presenterId) {
+      await requireActiveMember(event.bandId, input.presenterId, 'The presenter')
+    }
+
+    const last = await prisma.agendaItem.findFirst({
+      where: { eventId: event.id, occurrenceDate },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    })
+
+    const item = await prisma.agendaItem.create({
+      data: {
+        eventId: event.id,
+        occurrenceDate,
+        position: (last?.position ?? -1) + 1,
+        kind: input.kind,
+        title,
+        description: input.description,
+        durationMinutes: input.durationMinutes,
+        proposalId,
+        taskId,
+        presenterId: input.presenterId,
+        createdById: ctx.userId,
+      },
+      include: itemSelect,
+    })
+
+    return { item }
+  })
+
+/**
+ * Edit an agenda item. Any member can take minutes; planning fields, status
+ * and the decision are for organizers.
+ */
+export const updateAgendaItem = protectedProcedure
+  .input(z.object({
+    itemId: z.string(),
+    title: z.string().min(1).max(200).optional(),
+    description: z.string().max(5000).nullable().optional(),
+    durationMinutes: z.number().int().min(1).max(MAX_DURATION_MINUTES).nullable().optional(),
+    presenterId: z.string().nullable().optional(),
+    status: z.enum(['PENDING', 'DISCUSSED', 'DEFERRED']).optional(),
+    minutes: z.string().max(20000).nullable().optional(),
+    decision: z.string().max(5000).nullable().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { itemId, minutes, ...organizerFields } = input
+    const { item, event, canOrganize } = await getAgendaItemForMember(itemId, ctx.userId)
+
+    const changesPlan = Object.values(organizerFields).some(value => value !== undefined)
+    if (changesPlan) {
+      requireOrganizer(canOrganize)
+    }
+
+    if (organizerFields.presenterId) {
+      await requireActiveMember(event.bandId, organizerFields.presenterId, 'The presenter')
+    }
+
+    const decision = organizerFields.decision === undefined
+      ? undefined
+      : organizerFields.decision?.trim() || null
+
+    const updated = await prisma.agendaItem.update({
+      where: { id: item.id },
+      data: {
+        ...organizerFields,
+        decision,
+        minutes,
+      },
+      include: itemSelect,
+    })
+
+    // Decisions are part of the band's record
+    if (decision !== undefined && decision !== item.decision) {
+      await logAuditEvent({
+        bandId: event.bandId,
+        action: 'agenda_decision_recorded',
+        entityType: 'Event',
+        entityId: event.id,
+        entityName: event.title,
+        changes: {
+          agendaItem: { from: null, to: item.title },
+          decision: { from: item.decision, to: decision },
+        },
+      })
+    }
+
+    return { item: updated }
+  })
+
+/**
+ * Set the order of a meeting's agenda
+ */
+export const reorderAgenda = protectedProcedure
+  .input(z.object({
+    eventId: z.string(),
+    occurrenceDate: z.string().datetime().optional(),
+    itemIds: z.array(z.string()).min(1),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { event, canOrganize } = await getEventForMember(input.eventId, ctx.userId)
+    requireOrganizer(canOrganize)
+    const occurrenceDate = resolveAgendaOccurrence(event, input.occurrenceDate)
+
+    const existing = await prisma.agendaItem.findMany({
+      where: { eventId: event.id, occurrenceDate },
+      select: { id: true },
+    })
+
+    const existingIds = new Set(existing.map(i => i.id))
+    if (
+      input.itemIds.length !== existingIds.size
+      || !input.itemIds.every(id => existingIds.has(id))
+    ) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'The agenda has changed; reload and try again' })
+    }
+
+    await prisma.$transaction(
+      input.itemIds.map((id, position) =>
+        prisma.agendaItem.update({ where: { id }, data: { position } })
+      )
+    )
+
+    return { success: true }
+  })
+
+/**
+ * Remove an item from the agenda. Tasks and checklist items already created
+ * from it are kept.
+ */
+export const deleteAgendaItem = protectedProcedure
+  .input(z.object({ itemId: z.string() }))
+  .mutation(async ({ ctx, input }) => {
+    const { item, canOrganize } = await getAgendaItemForMember(input.itemId, ctx.userId)
+    requireOrganizer(canOrganize)
+
+    await prisma.agendaItem.delete({ where: { id: item.id } })
+
+    return { success: true }
+  })
+
+/**
+ * Turn an action item from the meeting into a task in a project, or a
+ * checklist item on an existing task, linked back to the agenda item
+ */
+export const createAgendaActionItem = protectedProcedure
+  .input(z.object({
+    itemId: z.string(),
+    description: z.string().min(1, 'Describe the action item').max(200),
+    assigneeId: z.string().optional(),
+    dueDate: z.coerce.date().optional(),
+    projectId: z.string().optional(),
+    taskId: z.string().optional(),
+  }).refine(data => !!data.projectId !== !!data.taskId, {
+    message: 'Choose either a project for a new task or a task for a new checklist item',
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { userId } = ctx
+    const { item, event, canOrganize } = await getAgendaItemForMember(input.itemId, userId)
+    requireOrganizer(canOrganize)
+    await requireGoodStanding(event.bandId, userId)
+
+    if (event.band.status !== 'ACTIVE') {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `Band must be active (${MIN_MEMBERS_TO_ACTIVATE}+ members) before creating tasks`
+      })
+    }
+
+    const moderationResult = await checkMultipleFields({ name: input.description })
+    if (!moderationResult.allowed) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Your content contains prohibited terms and cannot be posted. Please review and revise.',
+      })
+    }
+
+    if (input.assigneeId) {
+      await requireActiveMember(event.bandId, input.assigneeId, 'Assignee')
+    }
+
+    const meetingDate = (item.occurrenceDate ?? event.startTime).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })
+    const origin = `Action item from "${event.title}" (${meetingDate}), agenda item "${item.title}"`
+
+    if (input.projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: input.projectId, bandId: event.bandId },
+        select: { id: true, name: true },
+      })
+      if (!project) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose a project from this band' })
+      }
+
+      const maxOrder = await prisma.task.aggregate({
+        where: { projectId: project.id },
+        _max: { orderIndex: true }
+      })
+
+      const task = await prisma.task.create({
+        data: {
+          projectId: project.id,
+          bandId: event.bandId,
+          name: input.description,
+          description: origin,
+          assigneeId: input.assigneeId,
+          assignmentMethod: input.assigneeId ? 'ASSIGNED' : undefined,
+          assignedAt: input.assigneeId ? new Date() : undefined,
+          dueDate: input.dueDate,
+          orderIndex: (maxOrder._max.orderIndex ?? -1) + 1,
+          agendaItemId: item.id,
+          createdById: userId,
+        },
+        select: { id: true, name: true },
+      })
+
+      await prisma.project.update({
+        where: { id: project.id },
+        data: { totalTasks: { increment: 1 } },
+      })
+
+      if (input.assigneeId && input.assigneeId !== userId) {
+        await notificationService.create({
+          userId: input.assigneeId,
+          type: 'TASK_ASSIGNED',
+          title: 'Task Assigned to You',
+          message: `You've been assigned "${task.name}" from the meeting "${event.title}"`,
+          relatedId: task.id,
+          relatedType: 'task',
+          actionUrl: `/bands/${event.band.slug}/projects/${project.id}?task=${task.id}`,
+        })
+      }
+
+      return { kind: 'TASK' as const, id: task.id }
+    }
+
+    const parentTask = await prisma.task.findFirst({
+      where: { id: input.taskId!, bandId: event.bandId },
+      select: { id: true, name: true, projectId: true },
+    })
+    if (!parentTask) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose a task from this band' })
+    }
+
+    const maxOrder = await prisma.checklistItem.findFirst({
+      where: { taskId: parentTask.id },
+      orderBy: { orderIndex: 'desc' },
+      select: { orderIndex: true }
+    })
+
+    const checklistItem = await prisma.checklistItem.create({
+      data: {
+        taskId: parentTask.id,
+        description: input.description,
+        notes: origin,
+        assigneeId: input.assigneeId,
+        assignmentMethod: input.assigneeId ? 'ASSIGNED' : undefined,
+        assignedAt: input.assigneeId ? new Date() : undefined,
+        dueDate: input.dueDate,
+        orderIndex: (maxOrder?.orderIndex ?? -1) + 1,
+        agendaItemId: item.id,
+      },
+      select: { id: true },
+    })
+
+    return { kind: 'CHECKLIST_ITEM' as const, id: checklistItem.id }
+  })
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, requireBandMember } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -7,19 +7,19 @@ import { notificationService } from '../../../services/notification.service'
 // Roles that can mark attendance for others
 const CAN_MARK_ATTENDANCE = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
 
-export const markAttendance = publicProcedure
+export const markAttendance = protectedProcedure
   .input(z.object({
     eventId: z.string(),
     userId: z.string(), // User whose attendance is being marked
-    markedById: z.string(), // User marking the attendance
     occurrenceDate: z.string().datetime().optional(), // For recurring events
     attended: z.boolean(),
     arrivedAt: z.string().datetime().optional(),
     leftAt: z.string().datetime().optional(),
     notes: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId, markedById, occurrenceDate, attended, arrivedAt, leftAt, notes } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, userId, occurrenceDate, attended, arrivedAt, leftAt, notes } = input
+    const markedById = ctx.userId
 
     // Get event with band info
     const event = await prisma.event.findUnique({
@@ -139,14 +139,28 @@ export const markAttendance = publicProcedure
     return { attendance }
   })
 
-export const getAttendance = publicProcedure
+export const getAttendance = protectedProcedure
   .input(z.object({
     eventId: z.string(),
     occurrenceDate: z.string().datetime().optional(),
   }))
-  .query(async ({ input }) => {
+  .query(async ({ ctx, input }) => {
     const { eventId, occurrenceDate } = input
 
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { bandId: true },
+    })
+
+    if (!event) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Event not found'
+      })
+    }
+
+    await requireBandMember(ctx.userId, event.bandId)
+
     const occDate = occurrenceDate ? new Date(occurrenceDate) : null
 
     const attendance = await prisma.eventAttendance.findMany({
@@ -171,10 +185,9 @@ export const getAttendance = publicProcedure
     return { attendance, summary }
   })
 
-export const bulkMarkAttendance = publicProcedure
+export const bulkMarkAttendance = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    markedById: z.string(),
     occurrenceDate: z.string().datetime().optional(),
     attendees: z.array(z.object({
       userId: z.string(),
@@ -182,8 +195,9 @@ export const bulkMarkAttendance = publicProcedure
       notes: z.string().optional(),
     })),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, markedById, occurrenceDate, attendees } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, occurrenceDate, attendees } = input
+    const markedById = ctx.userId
 
     // Get event with band info
     const event = await prisma.event.findUnique({
@@ -252,14 +266,14 @@ export const bulkMarkAttendance = publicProcedure
     return { count: validResults.length }
   })
 
-export const getMemberAttendanceHistory = publicProcedure
+export const getMemberAttendanceHistory = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     bandId: z.string().optional(),
     limit: z.number().int().min(1).max(100).optional().default(50),
   }))
-  .query(async ({ input }) => {
-    const { userId, bandId, limit } = input
+  .query(async ({ ctx, input }) => {
+    const { bandId, limit } = input
+    const { userId } = ctx
 
     const attendance = await prisma.eventAttendance.findMany({
       where: {
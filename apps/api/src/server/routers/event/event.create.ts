@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -10,10 +10,9 @@ import { emailService } from '../../services/email.service'
 // Roles that can create events
 const CAN_CREATE_EVENTS = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const createEvent = publicProcedure
+export const createEvent = protectedProcedure
   .input(z.object({
     bandId: z.string(),
-    userId: z.string(),
     title: z.string().min(1, 'Title is required').max(200),
     description: z.string().optional(),
     eventType: z.enum(['ONLINE_MEETING', 'IN_PERSON_MEETING', 'SOCIAL', 'HYBRID']),
@@ -39,16 +38,17 @@ export const createEvent = publicProcedure
     // Reminders (hours before event)
     reminderHours: z.array(z.number().int().positive()).optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     // Check dues standing
-    await requireGoodStanding(input.bandId, input.userId)
+    await requireGoodStanding(input.bandId, ctx.userId)
 
     const {
-      bandId, userId, title, description, eventType,
+      bandId, title, description, eventType,
       startTime, endTime, timezone,
       location, address, meetingUrl, meetingId, meetingPassword,
       recurrenceRule, recurrenceEndDate, reminderHours
     } = input
+    const { userId } = ctx
 
     // Validate times
     const start = new Date(startTime)
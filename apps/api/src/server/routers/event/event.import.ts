@@ -0,0 +1,132 @@
+import { z } from 'zod'
+import { protectedProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { requireGoodStanding } from '../../../lib/dues-enforcement'
+import { logAuditEvent } from '../../../lib/auditContext'
+import {
+  calendarImportService,
+  MAX_IMPORT_EVENTS,
+} from '../../../services/calendar-import.service'
+
+// Roles that can create events
+const CAN_CREATE_EVENTS = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
+
+// .ics content is sent as text; a few years of meetings fits well under this
+const MAX_ICS_LENGTH = 5 * 1024 * 1024
+
+async function requireEventCreator(bandId: string, userId: string) {
+  const member = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+    select: { role: true, status: true },
+  })
+
+  if (!member || member.status !== 'ACTIVE') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You must be a band member to import events'
+    })
+  }
+
+  if (!CAN_CREATE_EVENTS.includes(member.role)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'You do not have permission to create events'
+    })
+  }
+}
+
+function parseOrThrow(content: string) {
+  let result
+  try {
+    result = calendarImportService.parse(content)
+  } catch (error) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error instanceof Error ? error.message : 'Could not read the calendar file'
+    })
+  }
+
+  if (result.drafts.length === 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'No events found in the calendar file'
+    })
+  }
+
+  if (result.drafts.length > MAX_IMPORT_EVENTS) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Calendar files can contain at most ${MAX_IMPORT_EVENTS} events; split the export and import it in parts`
+    })
+  }
+
+  return result
+}
+
+/**
+ * Parse an .ics file and show what would be imported, with duplicates and
+ * upcoming conflicts flagged. Nothing is saved.
+ */
+export const previewEventImport = protectedProcedure
+  .input(z.object({
+    bandId: z.string(),
+    content: z.string().min(1).max(MAX_ICS_LENGTH),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    await requireEventCreator(input.bandId, ctx.userId)
+
+    const { calendarName, drafts, warnings } = parseOrThrow(input.content)
+    const items = await calendarImportService.preview(input.bandId, drafts)
+
+    return { calendarName, items, warnings }
+  })
+
+/**
+ * Import the chosen events from an .ics file. The file is parsed again so
+ * the client only picks which UIDs to keep.
+ */
+export const importEvents = protectedProcedure
+  .input(z.object({
+    bandId: z.string(),
+    content: z.string().min(1).max(MAX_ICS_LENGTH),
+    uids: z.array(z.string()).min(1, 'Select at least one event to import'),
+    fileName: z.string().max(255).optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, content, fileName } = input
+    const { userId } = ctx
+
+    await requireGoodStanding(bandId, userId)
+    await requireEventCreator(bandId, userId)
+
+    const { calendarName, drafts } = parseOrThrow(content)
+    const selected = new Set(input.uids)
+    const toImport = drafts.filter(d => selected.has(d.uid))
+
+    if (toImport.length === 0) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'None of the selected events were found in the calendar file'
+      })
+    }
+
+    // Notifications and webhooks are skipped on purpose: an import is a bulk
+    // backfill, not a series of newly scheduled events
+    const { eventIds, exceptionCount } = await calendarImportService.create(bandId, userId, toImport)
+
+    await logAuditEvent({
+      bandId,
+      action: 'events_imported',
+      entityType: 'Event',
+      entityId: eventIds[0],
+      entityName: calendarName ?? fileName ?? null,
+      changes: {
+        eventCount: { from: null, to: eventIds.length },
+        exceptionCount: { from: null, to: exceptionCount },
+        source: { from: null, to: fileName ?? null },
+      },
+    })
+
+    return { imported: eventIds.length, exceptions: exceptionCount }
+  })
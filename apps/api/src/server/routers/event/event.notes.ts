@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -15,15 +15,15 @@ const recordingLinkSchema = z.object({
  * Any band member can add/edit notes
  * Notifications are sent before/after the meeting, but not during
  */
-export const updateEventNotes = publicProcedure
+export const updateEventNotes = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string(),
     meetingNotes: z.string().optional().nullable(),
     recordingLinks: z.array(recordingLinkSchema).optional().nullable(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId, meetingNotes, recordingLinks } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, meetingNotes, recordingLinks } = input
+    const { userId } = ctx
 
     // Get event with band members
     const event = await prisma.event.findUnique({
@@ -1,6 +1,6 @@
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 
 const CAN_MANAGE_EVENTS = ['FOUNDER', 'GOVERNOR']
@@ -30,16 +30,16 @@ function parseActionItemsFromNotes(notes: string | null | undefined): string[] {
   return Array.from(new Set(items)).filter((item) => item.length > 0)
 }
 
-export const createProposalFromMeetingActionItems = publicProcedure
+export const createProposalFromMeetingActionItems = protectedProcedure
   .input(
     z.object({
       eventId: z.string(),
-      userId: z.string(),
       allowEarlyClose: z.boolean().optional().default(false),
     })
   )
-  .mutation(async ({ input }) => {
-    const { eventId, userId, allowEarlyClose } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, allowEarlyClose } = input
+    const { userId } = ctx
 
     const event = await prisma.event.findUnique({
       where: { id: eventId },
@@ -1,7 +1,16 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, bandMemberProcedure, requireBandMember } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
+import {
+  getUpcomingOccurrences,
+  effectiveRSVPs,
+  resolveRSVP,
+  countRSVPs,
+} from '../../../lib/event-occurrences'
+
+// Occurrences offered when answering for a single date
+const UPCOMING_OCCURRENCES = 8
 
 function parseActionItemsFromNotes(notes: string | null | undefined): string[] {
   if (!notes) return []
@@ -18,9 +27,8 @@ function parseActionItemsFromNotes(notes: string | null | undefined): string[] {
     })
 }
 
-export const getEventsByBand = publicProcedure
+export const getEventsByBand = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     // Filter options
     eventType: z.enum(['ONLINE_MEETING', 'IN_PERSON_MEETING', 'SOCIAL', 'HYBRID']).optional(),
     startAfter: z.string().datetime().optional(),
@@ -48,7 +56,8 @@ export const getEventsByBand = publicProcedure
         },
         _count: {
           select: {
-            rsvps: true,
+            // Series answers only; overrides are per occurrence
+            rsvps: { where: { occurrenceDate: null } },
             attendance: true,
             files: true,
           }
@@ -68,9 +77,8 @@ export const getEventsByBand = publicProcedure
     return { events, nextCursor }
   })
 
-export const getUpcomingEvents = publicProcedure
+export const getUpcomingEvents = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     limit: z.number().int().min(1).max(20).optional().default(10),
   }))
   .query(async ({ input }) => {
@@ -88,7 +96,7 @@ export const getUpcomingEvents = publicProcedure
           select: { id: true, name: true }
         },
         _count: {
-          select: { rsvps: true }
+          select: { rsvps: { where: { occurrenceDate: null } } }
         }
       },
       orderBy: { startTime: 'asc' },
@@ -98,13 +106,15 @@ export const getUpcomingEvents = publicProcedure
     return { events }
   })
 
-export const getEventById = publicProcedure
+export const getEventById = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string().optional(), // To get user's RSVP status
+    // For recurring events: which occurrence RSVPs are shown for (default: the next one)
+    occurrenceDate: z.string().datetime().optional(),
   }))
-  .query(async ({ input }) => {
-    const { eventId, userId } = input
+  .query(async ({ ctx, input }) => {
+    const { eventId } = input
+    const { userId } = ctx
 
     const event = await prisma.event.findUnique({
       where: { id: eventId },
@@ -154,18 +164,29 @@ export const getEventById = publicProcedure
       })
     }
 
-    // Get user's RSVP if userId provided
-    let userRSVP = null
-    if (userId) {
-      userRSVP = event.rsvps.find(r => r.userId === userId) || null
-    }
+    await requireBandMember(userId, event.bandId)
+
+    // Recurring events show answers for one occurrence, overrides applied
+    const upcomingOccurrences = event.recurrenceRule
+      ? getUpcomingOccurrences(event, new Date(), {
+          count: UPCOMING_OCCURRENCES,
+          cancelledDates: event.exceptions
+            .filter(e => e.isCancelled && e.exceptionDate)
+            .map(e => e.exceptionDate!),
+        })
+      : []
+    const occurrenceDate = event.recurrenceRule
+      ? (input.occurrenceDate ? new Date(input.occurrenceDate) : upcomingOccurrences[0] ?? null)
+      : null
+
+    const rsvps = effectiveRSVPs(event.rsvps, occurrenceDate)
+
+    // The caller's own answer
+    const userRSVP = resolveRSVP(event.rsvps, userId, occurrenceDate)
+    const seriesRSVP = event.rsvps.find(r => r.userId === userId && r.occurrenceDate === null) || null
 
     // Count RSVPs by status
-    const rsvpCounts = {
-      going: event.rsvps.filter(r => r.status === 'GOING').length,
-      notGoing: event.rsvps.filter(r => r.status === 'NOT_GOING').length,
-      maybe: event.rsvps.filter(r => r.status === 'MAYBE').length,
-    }
+    const rsvpCounts = countRSVPs(rsvps)
 
     const meetingOutputProposal = await prisma.proposal.findFirst({
       where: {
@@ -181,12 +202,21 @@ export const getEventById = publicProcedure
 
     const actionItemsCount = parseActionItemsFromNotes(event.meetingNotes).length
 
-    return { event, userRSVP, rsvpCounts, meetingOutputProposal, actionItemsCount }
+    return {
+      event,
+      rsvps,
+      userRSVP,
+      seriesRSVP,
+      rsvpCounts,
+      occurrenceDate,
+      upcomingOccurrences,
+      meetingOutputProposal,
+      actionItemsCount,
+    }
   })
 
-export const getMyEvents = publicProcedure
+export const getMyEvents = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     // Get events where user is GOING
     onlyGoing: z.boolean().optional().default(false),
     // Filter by time
@@ -194,8 +224,9 @@ export const getMyEvents = publicProcedure
     startBefore: z.string().datetime().optional(),
     limit: z.number().int().min(1).max(100).optional().default(50),
   }))
-  .query(async ({ input }) => {
-    const { userId, onlyGoing, startAfter, startBefore, limit } = input
+  .query(async ({ ctx, input }) => {
+    const { onlyGoing, startAfter, startBefore, limit } = input
+    const { userId } = ctx
 
     // Get user's band memberships
     const memberships = await prisma.member.findMany({
@@ -226,7 +257,8 @@ export const getMyEvents = publicProcedure
           rsvps: {
             some: {
               userId,
-              status: 'GOING'
+              status: 'GOING',
+              occurrenceDate: null,
             }
           }
         },
@@ -235,7 +267,7 @@ export const getMyEvents = publicProcedure
             select: { id: true, name: true, slug: true }
           },
           rsvps: {
-            where: { userId },
+            where: { userId, occurrenceDate: null },
             take: 1
           }
         },
@@ -254,7 +286,7 @@ export const getMyEvents = publicProcedure
           select: { id: true, name: true, slug: true }
         },
         rsvps: {
-          where: { userId },
+          where: { userId, occurrenceDate: null },
           take: 1
         }
       },
@@ -1,19 +1,105 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, requireBandMember } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
+import { Prisma, RSVPStatus } from '@prisma/client'
 import { notificationService } from '../../../services/notification.service'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
+import {
+  isOccurrence,
+  effectiveRSVPs,
+  countRSVPs,
+  getUpcomingOccurrences,
+} from '../../../lib/event-occurrences'
 
-export const setRSVP = publicProcedure
+// How many upcoming occurrences getRSVPs reports headcounts for
+const HEADCOUNT_OCCURRENCES = 8
+
+/**
+ * Validate an occurrence date for a recurring event, rejecting dates that
+ * aren't in the series or whose occurrence was cancelled
+ */
+async function requireOccurrence(
+  event: { id: string; startTime: Date; recurrenceRule: string | null; recurrenceEndDate: Date | null },
+  occurrenceDate: Date
+) {
+  if (!event.recurrenceRule) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Only recurring events have individual occurrences'
+    })
+  }
+
+  if (!isOccurrence(event, occurrenceDate)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'That date is not an occurrence of this event'
+    })
+  }
+
+  const cancelled = await prisma.event.findFirst({
+    where: { parentEventId: event.id, exceptionDate: occurrenceDate, isCancelled: true },
+    select: { id: true },
+  })
+  if (cancelled) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Cannot RSVP to a cancelled occurrence'
+    })
+  }
+}
+
+/**
+ * Create or update one answer. The unique indexes (series answers have their
+ * own partial one) make a concurrent double submit fail to insert rather than
+ * leave two rows; the loser updates the winner's row instead.
+ */
+async function saveRSVP(data: {
+  eventId: string
+  userId: string
+  occurrenceDate: Date | null
+  status: RSVPStatus
+  note?: string
+}) {
+  const { eventId, userId, occurrenceDate, status, note } = data
+  const where = { eventId, userId, occurrenceDate }
+  const include = {
+    user: { select: { id: true, name: true, email: true } },
+    event: { select: { id: true, title: true } },
+  }
+
+  const updated = await prisma.eventRSVP.updateMany({ where, data: { status, note } })
+  if (updated.count === 0) {
+    try {
+      const rsvp = await prisma.eventRSVP.create({
+        data: { eventId, userId, status, note, occurrenceDate },
+        include,
+      })
+      return { rsvp, created: true }
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error
+      }
+      await prisma.eventRSVP.updateMany({ where, data: { status, note } })
+    }
+  }
+
+  const rsvp = await prisma.eventRSVP.findFirstOrThrow({ where, include })
+  return { rsvp, created: false }
+}
+
+export const setRSVP = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string(),
     status: z.enum(['GOING', 'NOT_GOING', 'MAYBE']),
     note: z.string().optional(),
+    // Answer for one occurrence of a recurring event instead of the series
+    occurrenceDate: z.string().datetime().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId, status, note } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, status, note } = input
+    const { userId } = ctx
+    const occurrenceDate = input.occurrenceDate ? new Date(input.occurrenceDate) : null
 
     // Get event with band info
     const event = await prisma.event.findUnique({
@@ -55,46 +141,21 @@ export const setRSVP = publicProcedure
       })
     }
 
-    // Check if RSVP already exists
-    const existingRSVP = await prisma.eventRSVP.findUnique({
-      where: {
-        eventId_userId: { eventId, userId }
-      }
-    })
+    if (occurrenceDate) {
+      await requireOccurrence(event, occurrenceDate)
+    }
 
-    let rsvp
-    if (existingRSVP) {
-      // Update existing RSVP
-      rsvp = await prisma.eventRSVP.update({
-        where: { id: existingRSVP.id },
-        data: { status, note },
-        include: {
-          user: { select: { id: true, name: true, email: true } },
-          event: { select: { id: true, title: true } }
-        }
-      })
-    } else {
-      // Create new RSVP
-      rsvp = await prisma.eventRSVP.create({
-        data: {
-          eventId,
-          userId,
-          status,
-          note,
-        },
-        include: {
-          user: { select: { id: true, name: true, email: true } },
-          event: { select: { id: true, title: true } }
-        }
-      })
+    const { rsvp, created } = await saveRSVP({ eventId, userId, occurrenceDate, status, note })
 
+    if (created) {
       // Notify event creator about new RSVP
       if (event.createdById !== userId && status === 'GOING') {
+        const when = occurrenceDate ? ` on ${occurrenceDate.toLocaleDateString()}` : ''
         await notificationService.create({
           userId: event.createdById,
           type: 'EVENT_RSVP_RECEIVED',
           title: 'New RSVP',
-          message: `${rsvp.user.name} is going to "${event.title}"`,
+          message: `${rsvp.user.name} is going to "${event.title}"${when}`,
           relatedId: event.id,
           relatedType: 'event',
           actionUrl: `/bands/${event.band.slug}/calendar/${event.id}`,
@@ -105,13 +166,15 @@ export const setRSVP = publicProcedure
     return { rsvp }
   })
 
-export const removeRSVP = publicProcedure
+export const removeRSVP = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string(),
+    // Remove only this occurrence's override, falling back to the series answer
+    occurrenceDate: z.string().datetime().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, occurrenceDate } = input
+    const { userId } = ctx
 
     // Get event to verify it exists
     const event = await prisma.event.findUnique({
@@ -141,27 +204,56 @@ export const removeRSVP = publicProcedure
       })
     }
 
-    // Delete RSVP if exists
+    // Delete RSVP if exists; without a date this clears the series answer
+    // and every override
     await prisma.eventRSVP.deleteMany({
-      where: { eventId, userId }
+      where: {
+        eventId,
+        userId,
+        ...(occurrenceDate && { occurrenceDate: new Date(occurrenceDate) }),
+      }
     })
 
     return { success: true }
   })
 
-export const getRSVPs = publicProcedure
+export const getRSVPs = protectedProcedure
   .input(z.object({
     eventId: z.string(),
     status: z.enum(['GOING', 'NOT_GOING', 'MAYBE']).optional(),
+    // For recurring events: resolve answers for this occurrence
+    occurrenceDate: z.string().datetime().optional(),
   }))
-  .query(async ({ input }) => {
+  .query(async ({ ctx, input }) => {
     const { eventId, status } = input
+    const occurrenceDate = input.occurrenceDate ? new Date(input.occurrenceDate) : null
 
-    const rsvps = await prisma.eventRSVP.findMany({
-      where: {
-        eventId,
-        ...(status && { status }),
-      },
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        bandId: true,
+        startTime: true,
+        recurrenceRule: true,
+        recurrenceEndDate: true,
+        exceptions: {
+          where: { isCancelled: true, exceptionDate: { not: null } },
+          select: { exceptionDate: true }
+        }
+      }
+    })
+
+    if (!event) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Event not found'
+      })
+    }
+
+    // Attendee names and emails are for the band's members only
+    await requireBandMember(ctx.userId, event.bandId)
+
+    const allRsvps = await prisma.eventRSVP.findMany({
+      where: { eventId },
       include: {
         user: {
           select: { id: true, name: true, email: true }
@@ -170,6 +262,10 @@ export const getRSVPs = publicProcedure
       orderBy: { createdAt: 'asc' }
     })
 
+    // Series answers, or each member's effective answer for the occurrence
+    const rsvps = effectiveRSVPs(allRsvps, occurrenceDate)
+      .filter(r => !status || r.status === status)
+
     // Group by status
     const grouped = {
       going: rsvps.filter(r => r.status === 'GOING'),
@@ -177,5 +273,16 @@ export const getRSVPs = publicProcedure
       maybe: rsvps.filter(r => r.status === 'MAYBE'),
     }
 
-    return { rsvps, grouped }
+    // Headcount for each upcoming occurrence, overrides applied
+    const occurrences = event.recurrenceRule
+      ? getUpcomingOccurrences(event, new Date(), {
+          count: HEADCOUNT_OCCURRENCES,
+          cancelledDates: event.exceptions.map(e => e.exceptionDate!),
+        }).map(date => ({
+          occurrenceDate: date,
+          ...countRSVPs(effectiveRSVPs(allRsvps, date)),
+        }))
+      : []
+
+    return { rsvps, grouped, occurrences }
   })
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -8,10 +8,9 @@ import { webhookService } from '../../../services/webhook.service'
 // Roles that can edit/delete any event
 const CAN_MANAGE_EVENTS = ['FOUNDER', 'GOVERNOR']
 
-export const updateEvent = publicProcedure
+export const updateEvent = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string(),
 
     // Updateable fields
     title: z.string().min(1).max(200).optional(),
@@ -42,8 +41,9 @@ export const updateEvent = publicProcedure
     // Reminders
     reminderHours: z.array(z.number().int().positive()).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId, ...updates } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, ...updates } = input
+    const { userId } = ctx
 
     // Get event with band info
     const event = await prisma.event.findUnique({
@@ -140,7 +140,9 @@ export const updateEvent = publicProcedure
           eventId,
           status: { in: ['GOING', 'MAYBE'] }
         },
-        select: { userId: true }
+        select: { userId: true },
+        // Members may have several per-occurrence answers
+        distinct: ['userId'],
       })
 
       const notificationPromises = rsvps
@@ -171,14 +173,14 @@ export const updateEvent = publicProcedure
     return { event: updatedEvent }
   })
 
-export const cancelEvent = publicProcedure
+export const cancelEvent = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string(),
     cancellationNote: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId, cancellationNote } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId, cancellationNote } = input
+    const { userId } = ctx
 
     // Get event with band info
     const event = await prisma.event.findUnique({
@@ -193,7 +195,8 @@ export const cancelEvent = publicProcedure
         },
         rsvps: {
           where: { status: { in: ['GOING', 'MAYBE'] } },
-          select: { userId: true }
+          select: { userId: true },
+          distinct: ['userId'],
         }
       }
     })
@@ -264,13 +267,13 @@ export const cancelEvent = publicProcedure
     return { event: cancelledEvent }
   })
 
-export const deleteEvent = publicProcedure
+export const deleteEvent = protectedProcedure
   .input(z.object({
     eventId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { eventId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { eventId } = input
+    const { userId } = ctx
 
     // Get event with band info
     const event = await prisma.event.findUnique({
@@ -328,11 +331,10 @@ export const deleteEvent = publicProcedure
     return { success: true }
   })
 
-export const createEventException = publicProcedure
+export const createEventException = protectedProcedure
   .input(z.object({
     parentEventId: z.string(),
     exceptionDate: z.string().datetime(),
-    userId: z.string(),
 
     // All overrideable fields
     title: z.string().min(1).max(200).optional(),
@@ -347,8 +349,9 @@ export const createEventException = publicProcedure
     isCancelled: z.boolean().optional().default(false),
     cancellationNote: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { parentEventId, exceptionDate, userId, isCancelled, cancellationNote, ...overrides } = input
+  .mutation(async ({ ctx, input }) => {
+    const { parentEventId, exceptionDate, isCancelled, cancellationNote, ...overrides } = input
+    const { userId } = ctx
 
     // Get parent event
     const parentEvent = await prisma.event.findUnique({
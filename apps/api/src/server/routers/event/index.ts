@@ -1,9 +1,18 @@
 import { router } from '../../trpc'
 import { createEvent } from './event.create'
+import { previewEventImport, importEvents } from './event.import'
 import { getEventsByBand, getUpcomingEvents, getEventById, getMyEvents } from './event.query'
 import { updateEvent, cancelEvent, deleteEvent, createEventException } from './event.update'
 import { updateEventNotes } from './event.notes'
 import { createProposalFromMeetingActionItems } from './event.proposal'
+import {
+  getAgenda,
+  addAgendaItem,
+  updateAgendaItem,
+  reorderAgenda,
+  deleteAgendaItem,
+  createAgendaActionItem,
+} from './event.agenda'
 import { setRSVP, removeRSVP, getRSVPs } from './event.rsvp'
 import { markAttendance, getAttendance, bulkMarkAttendance, getMemberAttendanceHistory } from './event.attendance'
 import { processEventReminders, getPendingReminders } from './event.cron'
@@ -22,10 +31,23 @@ const attendanceRouter = router({
   getMemberHistory: getMemberAttendanceHistory,
 })
 
+const agendaRouter = router({
+  get: getAgenda,
+  add: addAgendaItem,
+  update: updateAgendaItem,
+  reorder: reorderAgenda,
+  delete: deleteAgendaItem,
+  createActionItem: createAgendaActionItem,
+})
+
 export const eventRouter = router({
   // Create
   create: createEvent,
 
+  // Import (.ics)
+  previewImport: previewEventImport,
+  import: importEvents,
+
   // Read
   getByBand: getEventsByBand,
   getUpcoming: getUpcomingEvents,
@@ -46,6 +68,9 @@ export const eventRouter = router({
   // Attendance (nested router)
   attendance: attendanceRouter,
 
+  // Agenda (nested router)
+  agenda: agendaRouter,
+
   // Cron (for automated reminders)
   processReminders: processEventReminders,
   getPendingReminders: getPendingReminders,
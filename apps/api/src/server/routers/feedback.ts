@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { ADMIN_CONFIG } from '@band-it/shared'
@@ -26,20 +26,34 @@ function checkRateLimit(userId: string): boolean {
   return true
 }
 
+/**
+ * Feedback admins are configured by email in `ADMIN_CONFIG`. Resolve the
+ * caller's email from the session rather than trusting one sent by the client.
+ */
+async function requireFeedbackAdmin(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  })
+
+  if (!user || !ADMIN_CONFIG.isAdmin(user.email)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' })
+  }
+}
+
 export const feedbackRouter = router({
   // List all feedback with filtering, pagination, and sorting
-  list: publicProcedure
+  list: protectedProcedure
     .input(z.object({
       category: z.enum(['BUG', 'FEATURE', 'COMMENT']).optional(),
       status: z.enum(['OPEN', 'IN_PROGRESS', 'FIXED', 'WONT_FIX', 'DUPLICATE']).optional(),
       search: z.string().optional(),
       sortBy: z.enum(['newest', 'oldest', 'most_votes']).default('newest'),
       mySubmissions: z.boolean().optional(),
-      userId: z.string(),
       limit: z.number().min(1).max(50).default(20),
       cursor: z.string().optional(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const where: any = {}
 
       if (input.category) {
@@ -51,7 +65,7 @@ export const feedbackRouter = router({
       }
 
       if (input.mySubmissions) {
-        where.submittedById = input.userId
+        where.submittedById = ctx.userId
       }
 
       if (input.search) {
@@ -88,7 +102,7 @@ export const feedbackRouter = router({
           },
           duplicateOf: { select: { id: true, title: true } },
           votes: {
-            where: { userId: input.userId },
+            where: { userId: ctx.userId },
             select: { id: true },
           },
         },
@@ -109,12 +123,11 @@ export const feedbackRouter = router({
     }),
 
   // Get single feedback item
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
-      userId: z.string(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const item = await prisma.feedback.findUnique({
         where: { id: input.feedbackId },
         include: {
@@ -134,7 +147,7 @@ export const feedbackRouter = router({
           duplicateOf: { select: { id: true, title: true } },
           duplicates: { select: { id: true, title: true } },
           votes: {
-            where: { userId: input.userId },
+            where: { userId: ctx.userId },
             select: { id: true },
           },
         },
@@ -152,17 +165,16 @@ export const feedbackRouter = router({
     }),
 
   // Submit new feedback
-  submit: publicProcedure
+  submit: protectedProcedure
     .input(z.object({
       category: z.enum(['BUG', 'FEATURE', 'COMMENT']),
       title: z.string().min(5, 'Title must be at least 5 characters').max(200),
       description: z.string().min(10, 'Description must be at least 10 characters').max(5000),
-      userId: z.string(),
       attachmentIds: z.array(z.string()).max(5).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check rate limit
-      if (!checkRateLimit(input.userId)) {
+      if (!checkRateLimit(ctx.userId)) {
         throw new TRPCError({
           code: 'TOO_MANY_REQUESTS',
           message: 'You can only submit 5 feedback items per hour. Please try again later.',
@@ -171,7 +183,7 @@ export const feedbackRouter = router({
 
       // Get user info
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: { id: true, name: true, email: true },
       })
 
@@ -185,7 +197,7 @@ export const feedbackRouter = router({
           category: input.category,
           title: input.title,
           description: input.description,
-          submittedById: input.userId,
+          submittedById: ctx.userId,
           status: 'OPEN',
         },
       })
@@ -195,7 +207,7 @@ export const feedbackRouter = router({
         await prisma.file.updateMany({
           where: {
             id: { in: input.attachmentIds },
-            uploadedById: input.userId,
+            uploadedById: ctx.userId,
             feedbackId: null, // Only link files not already linked
           },
           data: {
@@ -245,14 +257,13 @@ export const feedbackRouter = router({
     }),
 
   // Update own feedback (while OPEN status)
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
       title: z.string().min(5).max(200).optional(),
       description: z.string().min(10).max(5000).optional(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const feedback = await prisma.feedback.findUnique({
         where: { id: input.feedbackId },
       })
@@ -261,7 +272,7 @@ export const feedbackRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Feedback not found' })
       }
 
-      if (feedback.submittedById !== input.userId) {
+      if (feedback.submittedById !== ctx.userId) {
         throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only edit your own feedback' })
       }
 
@@ -281,12 +292,11 @@ export const feedbackRouter = router({
     }),
 
   // Delete own feedback (while OPEN status)
-  deleteOwn: publicProcedure
+  deleteOwn: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const feedback = await prisma.feedback.findUnique({
         where: { id: input.feedbackId },
       })
@@ -295,7 +305,7 @@ export const feedbackRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Feedback not found' })
       }
 
-      if (feedback.submittedById !== input.userId) {
+      if (feedback.submittedById !== ctx.userId) {
         throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only delete your own feedback' })
       }
 
@@ -311,12 +321,11 @@ export const feedbackRouter = router({
     }),
 
   // Vote/unvote toggle
-  vote: publicProcedure
+  vote: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const feedback = await prisma.feedback.findUnique({
         where: { id: input.feedbackId },
       })
@@ -331,7 +340,7 @@ export const feedbackRouter = router({
           where: {
             feedbackId_userId: {
               feedbackId: input.feedbackId,
-              userId: input.userId,
+              userId: ctx.userId,
             },
           },
         })
@@ -353,7 +362,7 @@ export const feedbackRouter = router({
           await tx.feedbackVote.create({
             data: {
               feedbackId: input.feedbackId,
-              userId: input.userId,
+              userId: ctx.userId,
             },
           })
 
@@ -372,17 +381,14 @@ export const feedbackRouter = router({
   // ========== ADMIN ONLY PROCEDURES ==========
 
   // Update status (admin only)
-  updateStatus: publicProcedure
+  updateStatus: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
       status: z.enum(['OPEN', 'IN_PROGRESS', 'FIXED', 'WONT_FIX', 'DUPLICATE']),
       duplicateOfId: z.string().optional(),
-      userEmail: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      if (!ADMIN_CONFIG.isAdmin(input.userEmail)) {
-        throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' })
-      }
+    .mutation(async ({ ctx, input }) => {
+      await requireFeedbackAdmin(ctx.userId)
 
       if (input.status === 'DUPLICATE' && !input.duplicateOfId) {
         throw new TRPCError({ code: 'BAD_REQUEST', message: 'Duplicate status requires the original feedback ID' })
@@ -400,23 +406,19 @@ export const feedbackRouter = router({
     }),
 
   // Add/update admin response (admin only)
-  respond: publicProcedure
+  respond: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
       response: z.string().min(1).max(2000),
-      userId: z.string(),
-      userEmail: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      if (!ADMIN_CONFIG.isAdmin(input.userEmail)) {
-        throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' })
-      }
+    .mutation(async ({ ctx, input }) => {
+      await requireFeedbackAdmin(ctx.userId)
 
       await prisma.feedback.update({
         where: { id: input.feedbackId },
         data: {
           adminResponse: input.response,
-          respondedById: input.userId,
+          respondedById: ctx.userId,
           respondedAt: new Date(),
         },
       })
@@ -425,15 +427,12 @@ export const feedbackRouter = router({
     }),
 
   // Delete feedback (admin only)
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       feedbackId: z.string(),
-      userEmail: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      if (!ADMIN_CONFIG.isAdmin(input.userEmail)) {
-        throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' })
-      }
+    .mutation(async ({ ctx, input }) => {
+      await requireFeedbackAdmin(ctx.userId)
 
       await prisma.feedback.delete({
         where: { id: input.feedbackId },
@@ -443,16 +442,13 @@ export const feedbackRouter = router({
     }),
 
   // Search for duplicate candidates (admin only)
-  searchDuplicates: publicProcedure
+  searchDuplicates: protectedProcedure
     .input(z.object({
       search: z.string(),
       excludeId: z.string(),
-      userEmail: z.string(),
     }))
-    .query(async ({ input }) => {
-      if (!ADMIN_CONFIG.isAdmin(input.userEmail)) {
-        throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' })
-      }
+    .query(async ({ ctx, input }) => {
+      await requireFeedbackAdmin(ctx.userId)
 
       const items = await prisma.feedback.findMany({
         where: {
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import {
@@ -11,12 +11,11 @@ import {
 import { requireGoodStanding } from '../../lib/dues-enforcement'
 
 export const fileRouter = router({
-  upload: publicProcedure
+  upload: protectedProcedure
     .input(z.object({
       fileName: z.string(),
       mimeType: z.string(),
       base64Data: z.string(),
-      userId: z.string(),
       bandId: z.string().optional(),
       proposalId: z.string().optional(),
       projectId: z.string().optional(),
@@ -28,12 +27,13 @@ export const fileRouter = router({
       description: z.string().optional(),
       category: z.enum(['IMAGE', 'DOCUMENT', 'RECEIPT', 'OTHER']).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const {
-        fileName, mimeType, base64Data, userId,
+        fileName, mimeType, base64Data,
         bandId, proposalId, projectId, taskId, checklistItemId, eventId, manualPaymentId, feedbackId,
         description, category
       } = input
+      const { userId } = ctx
 
       if (!isAllowedType(mimeType)) {
         throw new TRPCError({
@@ -212,13 +212,13 @@ export const fileRouter = router({
       return { file }
     }),
 
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       fileId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { fileId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { fileId } = input
+      const { userId } = ctx
 
       const file = await prisma.file.findUnique({
         where: { id: fileId }
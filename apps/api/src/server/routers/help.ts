@@ -1,7 +1,7 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
-import { callAI } from '../../lib/ai-client'
+import { callAI } from '../../lib/ai'
 import crypto from 'crypto'
 import { PLATFORM_CONTEXT } from '../../lib/help/generated-context'
 
@@ -208,7 +208,6 @@ async function getAiHelpResponse(question: string, currentPage?: string, userId?
       entityType: 'help',
       userId,
     }, {
-      model: process.env.ANTHROPIC_HELP_MODEL || process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
       maxTokens: 500,
       system: systemPrompt,
     })
@@ -255,14 +254,14 @@ export const helpRouter = router({
   /**
    * Main help endpoint - FAQ first, cache second, AI third
    */
-  ask: publicProcedure
+  ask: protectedProcedure
     .input(z.object({
-      userId: z.string(),
       question: z.string().min(3).max(500),
       currentPage: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      const { userId, question, currentPage } = input
+    .mutation(async ({ ctx, input }) => {
+      const { question, currentPage } = input
+      const { userId } = ctx
 
       try {
         // 1. Try FAQ first
@@ -417,11 +416,8 @@ export const helpRouter = router({
   /**
    * Get user's remaining AI questions for today
    */
-  getRateLimit: publicProcedure
-    .input(z.object({
-      userId: z.string(),
-    }))
-    .query(async ({ input }) => {
-      return checkRateLimit(input.userId)
+  getRateLimit: protectedProcedure
+    .query(async ({ ctx }) => {
+      return checkRateLimit(ctx.userId)
     }),
 })
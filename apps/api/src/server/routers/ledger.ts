@@ -0,0 +1,212 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../trpc'
+import { prisma } from '../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { ledgerService, GOVERNED_BUCKET_TYPES } from '../../services/ledger.service'
+import { budgetService } from '../../services/budget.service'
+import { twoFactorService } from '../services/two-factor.service'
+
+// Roles that can manage buckets when the band's policy is OFFICER_TIER
+const OFFICER_ROLES = ['CONDUCTOR', 'MODERATOR', 'GOVERNOR', 'FOUNDER']
+
+async function getActiveMember(userId: string, bandId: string) {
+  const member = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+  })
+  if (!member || member.status !== 'ACTIVE') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You must be an active member' })
+  }
+  return member
+}
+
+/**
+ * Check if user can move money between buckets and reconcile the ledger.
+ * TREASURER_ONLY: treasurers (or the founder when the band has none).
+ * OFFICER_TIER: treasurers plus officer roles.
+ */
+async function canManageBuckets(userId: string, bandId: string): Promise<boolean> {
+  const member = await getActiveMember(userId, bandId)
+  if (member.isTreasurer) return true
+
+  const settings = await prisma.bandFinanceSettings.findUnique({
+    where: { bandId },
+    select: { bucketManagementPolicy: true },
+  })
+
+  if (settings?.bucketManagementPolicy === 'OFFICER_TIER') {
+    return OFFICER_ROLES.includes(member.role)
+  }
+
+  if (member.role !== 'FOUNDER') return false
+
+  const treasurerCount = await prisma.member.count({
+    where: { bandId, isTreasurer: true, status: 'ACTIVE' },
+  })
+  return treasurerCount === 0
+}
+
+async function requireBucketManager(userId: string, bandId: string) {
+  if (!(await canManageBuckets(userId, bandId))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Only treasurers can manage bucket funds' })
+  }
+}
+
+export const ledgerRouter = router({
+  /**
+   * Current balance of every bucket and the general fund
+   */
+  getBalances: protectedProcedure
+    .input(z.object({ bandId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const member = await getActiveMember(ctx.userId, input.bandId)
+      const canSeeOfficerBuckets = member.isTreasurer || OFFICER_ROLES.includes(member.role)
+
+      const balances = await ledgerService.getBalances(input.bandId)
+
+      if (!canSeeOfficerBuckets) {
+        const hidden = await prisma.bucket.findMany({
+          where: { bandId: input.bandId, visibility: 'OFFICERS_ONLY' },
+          select: { id: true },
+        })
+        for (const bucket of hidden) {
+          delete balances.buckets[bucket.id]
+          delete balances.committed[bucket.id]
+        }
+      }
+
+      return {
+        ...balances,
+        canManage: await canManageBuckets(ctx.userId, input.bandId),
+      }
+    }),
+
+  /**
+   * Entries for one bucket (or the general fund) with running balances
+   */
+  getBucketLedger: protectedProcedure
+    .input(z.object({
+      bandId: z.string(),
+      bucketId: z.string().nullable(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      const member = await getActiveMember(ctx.userId, input.bandId)
+
+      if (input.bucketId) {
+        const bucket = await prisma.bucket.findUnique({ where: { id: input.bucketId } })
+        if (!bucket || bucket.bandId !== input.bandId) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Bucket not found' })
+        }
+        if (
+          bucket.visibility === 'OFFICERS_ONLY' &&
+          !member.isTreasurer && !OFFICER_ROLES.includes(member.role)
+        ) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'This bucket is visible to officers only' })
+        }
+      }
+
+      return ledgerService.getAccountLedger(input.bandId, input.bucketId, input.limit)
+    }),
+
+  /**
+   * Move money between buckets (null = general fund).
+   * Money leaving a RESTRICTED or COMMITMENT bucket needs a
+   * FINANCE_BUCKET_GOVERNANCE_V1 proposal with a TRANSFER_BUCKET_FUNDS effect.
+   */
+  transfer: protectedProcedure
+    .input(z.object({
+      bandId: z.string(),
+      fromBucketId: z.string().nullable(),
+      toBucketId: z.string().nullable(),
+      amount: z.number().int().positive(), // Cents
+      description: z.string().min(1).max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireBucketManager(ctx.userId, input.bandId)
+
+      if (input.fromBucketId) {
+        const from = await prisma.bucket.findUnique({ where: { id: input.fromBucketId } })
+        if (from && (GOVERNED_BUCKET_TYPES as readonly string[]).includes(from.type)) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: `Transfers out of ${from.type} buckets require a governance proposal`,
+          })
+        }
+      }
+
+      await twoFactorService.requireStepUp(ctx.userId, ctx.sessionId, input.bandId)
+
+      try {
+        const transaction = await ledgerService.transfer({
+          ...input,
+          createdById: ctx.userId,
+        })
+        return { success: true, transaction }
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Transfer failed',
+        })
+      }
+    }),
+
+  /**
+   * Source totals vs ledger totals, unposted records and unreconciled transactions
+   */
+  getReconciliation: protectedProcedure
+    .input(z.object({ bandId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireBucketManager(ctx.userId, input.bandId)
+      return ledgerService.getReconciliation(input.bandId)
+    }),
+
+  /**
+   * Post confirmed records that are missing from the ledger
+   */
+  postMissing: protectedProcedure
+    .input(z.object({ bandId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireBucketManager(ctx.userId, input.bandId)
+      const posted = await ledgerService.postMissing(input.bandId)
+      return { success: true, posted }
+    }),
+
+  /**
+   * Mark transactions as matched against a bank or processor statement
+   */
+  markReconciled: protectedProcedure
+    .input(z.object({
+      bandId: z.string(),
+      transactionIds: z.array(z.string()).min(1).max(100),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireBucketManager(ctx.userId, input.bandId)
+      const count = await ledgerService.markReconciled(input.bandId, input.transactionIds, ctx.userId)
+      return { success: true, count }
+    }),
+
+  /**
+   * Release the unspent remainder of a proposal's reserved budget back to its bucket
+   */
+  releaseBudget: protectedProcedure
+    .input(z.object({ bandId: z.string(), proposalId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireBucketManager(ctx.userId, input.bandId)
+
+      const proposal = await prisma.proposal.findUnique({ where: { id: input.proposalId } })
+      if (!proposal || proposal.bandId !== input.bandId) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' })
+      }
+
+      const status = await budgetService.getBudgetStatus(input.proposalId)
+      if (!status) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'This proposal has no reserved budget' })
+      }
+      if (status.releasedAt) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'This budget has already been released' })
+      }
+
+      await budgetService.releaseReservation(input.proposalId)
+      return { success: true, released: Math.max(0, status.reserved - status.reimbursed) }
+    }),
+})
@@ -1,9 +1,11 @@
 import { z } from 'zod'
 import { randomBytes } from 'crypto'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../services/notification.service'
+import { ledgerService } from '../../services/ledger.service'
+import { twoFactorService } from '../services/two-factor.service'
 
 /**
  * Generate a secure random token for payment confirmation links
@@ -121,11 +123,10 @@ export const manualPaymentRouter = router({
   /**
    * Record a manual payment
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(), // Current user creating the record
         memberId: z.string(), // Member who paid (Member.id)
         amount: z.number().positive(), // Amount in cents
         paymentMethod: z.enum(['ZELLE', 'VENMO', 'CASHAPP', 'CASH', 'CHECK', 'OTHER']),
@@ -134,8 +135,9 @@ export const manualPaymentRouter = router({
         note: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { bandId, userId, memberId, amount, paymentMethod, paymentMethodOther, paymentDate, note } = input
+    .mutation(async ({ ctx, input }) => {
+      const { bandId, memberId, amount, paymentMethod, paymentMethodOther, paymentDate, note } = input
+      const { userId } = ctx
 
       // Verify band exists
       const band = await prisma.band.findUnique({
@@ -261,15 +263,15 @@ export const manualPaymentRouter = router({
   /**
    * Confirm a pending payment
    */
-  confirm: publicProcedure
+  confirm: protectedProcedure
     .input(
       z.object({
         paymentId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { paymentId, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { paymentId } = input
+      const { userId } = ctx
 
       const payment = await prisma.manualPayment.findUnique({
         where: { id: paymentId },
@@ -306,6 +308,8 @@ export const manualPaymentRouter = router({
         })
       }
 
+      await twoFactorService.requireStepUp(userId, ctx.sessionId, payment.bandId)
+
       // Update payment status
       const updatedPayment = await prisma.manualPayment.update({
         where: { id: paymentId },
@@ -316,6 +320,10 @@ export const manualPaymentRouter = router({
         },
       })
 
+      await ledgerService.postManualPayment(paymentId).catch(err =>
+        console.error('Error posting manual payment to ledger:', err)
+      )
+
       // Update BandMemberBilling
       await prisma.bandMemberBilling.upsert({
         where: {
@@ -360,16 +368,16 @@ export const manualPaymentRouter = router({
   /**
    * Dispute a pending payment
    */
-  dispute: publicProcedure
+  dispute: protectedProcedure
     .input(
       z.object({
         paymentId: z.string(),
-        userId: z.string(),
         reason: z.string().min(1),
       })
     )
-    .mutation(async ({ input }) => {
-      const { paymentId, userId, reason } = input
+    .mutation(async ({ ctx, input }) => {
+      const { paymentId, reason } = input
+      const { userId } = ctx
 
       const payment = await prisma.manualPayment.findUnique({
         where: { id: paymentId },
@@ -474,17 +482,17 @@ export const manualPaymentRouter = router({
   /**
    * Resolve a disputed payment (Governor/Founder only)
    */
-  resolve: publicProcedure
+  resolve: protectedProcedure
     .input(
       z.object({
         paymentId: z.string(),
-        userId: z.string(),
         outcome: z.enum(['CONFIRMED', 'REJECTED']),
         note: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { paymentId, userId, outcome, note } = input
+    .mutation(async ({ ctx, input }) => {
+      const { paymentId, outcome, note } = input
+      const { userId } = ctx
 
       const payment = await prisma.manualPayment.findUnique({
         where: { id: paymentId },
@@ -533,8 +541,12 @@ export const manualPaymentRouter = router({
         },
       })
 
-      // If confirmed, update BandMemberBilling
+      // If confirmed, post to the ledger and update BandMemberBilling
       if (outcome === 'CONFIRMED') {
+        await ledgerService.postManualPayment(paymentId).catch(err =>
+          console.error('Error posting manual payment to ledger:', err)
+        )
+
         await prisma.bandMemberBilling.upsert({
           where: {
             bandId_memberUserId: {
@@ -583,19 +595,19 @@ export const manualPaymentRouter = router({
   /**
    * List manual payments for a band
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         status: z.enum(['PENDING', 'CONFIRMED', 'DISPUTED', 'REJECTED', 'AUTO_CONFIRMED']).optional(),
         memberId: z.string().optional(),
         limit: z.number().min(1).max(100).default(50),
         cursor: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId, status, memberId, limit, cursor } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId, status, memberId, limit, cursor } = input
+      const { userId } = ctx
 
       // Verify user is member
       const currentMember = await getMemberForUser(userId, bandId)
@@ -654,15 +666,15 @@ export const manualPaymentRouter = router({
   /**
    * Get payments requiring user's action (counterparty pending)
    */
-  myPending: publicProcedure
+  myPending: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Verify user is member
       const currentMember = await getMemberForUser(userId, bandId)
@@ -712,15 +724,15 @@ export const manualPaymentRouter = router({
   /**
    * Get single payment details
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(
       z.object({
         paymentId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { paymentId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { paymentId } = input
+      const { userId } = ctx
 
       const payment = await prisma.manualPayment.findUnique({
         where: { id: paymentId },
@@ -761,15 +773,15 @@ export const manualPaymentRouter = router({
   /**
    * Get disputed payments for governors to resolve
    */
-  getDisputedPayments: publicProcedure
+  getDisputedPayments: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Only governors can see disputed payments
       const isGovernor = await isUserGovernor(userId, bandId)
@@ -802,15 +814,15 @@ export const manualPaymentRouter = router({
   /**
    * Get band members for payment creation dropdown
    */
-  getBandMembers: publicProcedure
+  getBandMembers: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandId } = input
+      const { userId } = ctx
 
       // Verify user is member
       const currentMember = await getMemberForUser(userId, bandId)
@@ -5,6 +5,7 @@ import { editMessage, deleteMessage, pinMessage, unpinMessage, getEditHistory }
 import { toggleReaction, getReactions, getReactionsBatch } from './message.reaction'
 import { advancedSearch } from './message.search'
 import { getMentionableUsers } from './message.mention'
+import { sendTyping } from './message.typing'
 
 export const messageRouter = router({
   // Read
@@ -16,6 +17,7 @@ export const messageRouter = router({
   // Create
   create: createMessage,
   markAsRead: markAsRead,
+  sendTyping: sendTyping,
 
   // Update
   edit: editMessage,
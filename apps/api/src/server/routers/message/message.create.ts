@@ -1,25 +1,57 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { canAccessChannel } from '../channel'
+import { hasChannelAccess, getActiveParticipantIds } from '../channel'
 import { processMentions } from './message.mention'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
 import { notificationService } from '../../../services/notification.service'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
+import { publishBandEvent } from '../../../lib/realtime'
+
+/**
+ * Notify the other participants of a direct conversation, skipping anyone
+ * who muted it. Per-type preferences are applied by the notification service.
+ */
+async function notifyConversationParticipants(
+  channelId: string,
+  bandId: string,
+  bandSlug: string,
+  authorId: string,
+  authorName: string,
+  content: string
+) {
+  const recipients = await prisma.channelParticipant.findMany({
+    where: { channelId, leftAt: null, isMuted: false, userId: { not: authorId } },
+    select: { userId: true },
+  })
+
+  for (const recipient of recipients) {
+    await notificationService.create({
+      userId: recipient.userId,
+      type: 'DIRECT_MESSAGE_RECEIVED',
+      title: `New message from ${authorName}`,
+      message: content.length > 100 ? content.substring(0, 100) + '...' : content,
+      actionUrl: `/bands/${bandSlug}/messages?conversation=${channelId}`,
+      relatedId: channelId,
+      relatedType: 'CONVERSATION',
+      bandId,
+    })
+  }
+}
 
 /**
  * Create a new message in a channel
  */
-export const createMessage = publicProcedure
+export const createMessage = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
     content: z.string().min(1).max(10000),
     threadId: z.string().optional(), // If replying to a message
   }))
-  .mutation(async ({ input }) => {
-    const { channelId, userId, content, threadId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { channelId, content, threadId } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -60,7 +92,7 @@ export const createMessage = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -132,6 +164,9 @@ export const createMessage = publicProcedure
       },
     })
 
+    const isConversation = channel.kind === 'DIRECT'
+    const participantIds = isConversation ? await getActiveParticipantIds(channelId) : null
+
     // Process mentions asynchronously (don't block message creation)
     processMentions(
       message.id,
@@ -143,11 +178,24 @@ export const createMessage = publicProcedure
       membership.role,
       channel.visibility,
       channel.name,
-      channel.band.slug
+      channel.band.slug,
+      participantIds
     ).catch(err => console.error('Error processing mentions:', err))
 
+    // Everyone else in a conversation hears about every message, replies included
+    if (isConversation) {
+      notifyConversationParticipants(
+        channelId,
+        channel.band.id,
+        channel.band.slug,
+        userId,
+        message.author.name,
+        content
+      ).catch(err => console.error('Error creating direct message notifications:', err))
+    }
+
     // Notify parent message author if this is a reply
-    if (threadId) {
+    if (threadId && !isConversation) {
       const parentMessage = await prisma.message.findUnique({
         where: { id: threadId },
         select: { authorId: true },
@@ -176,33 +224,41 @@ export const createMessage = publicProcedure
       console.error('Error checking onboarding:', err)
     )
 
-    return {
-      message: {
-        id: message.id,
-        channelId: message.channelId,
-        content: message.content,
-        author: message.author,
-        threadId: message.threadId,
-        isPinned: message.isPinned,
-        isEdited: message.isEdited,
-        editedAt: message.editedAt,
-        replyCount: 0,
-        createdAt: message.createdAt,
-      },
+    const created = {
+      id: message.id,
+      channelId: message.channelId,
+      content: message.content,
+      author: message.author,
+      threadId: message.threadId,
+      isPinned: message.isPinned,
+      isEdited: message.isEdited,
+      editedAt: message.editedAt,
+      replyCount: 0,
+      createdAt: message.createdAt,
     }
+
+    publishBandEvent(channel.band.id, {
+      type: 'message.created',
+      channelId,
+      visibility: channel.visibility,
+      kind: channel.kind,
+      message: created,
+    })
+
+    return { message: created }
   })
 
 /**
  * Mark channel as read (update read status)
  */
-export const markAsRead = publicProcedure
+export const markAsRead = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
     messageId: z.string().optional(), // Optionally mark up to a specific message
   }))
-  .mutation(async ({ input }) => {
-    const { channelId, userId, messageId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { channelId, messageId } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -234,7 +290,7 @@ export const markAsRead = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
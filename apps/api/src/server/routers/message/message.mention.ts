@@ -1,9 +1,10 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { canAccessChannel } from '../channel'
+import { canAccessChannel, hasChannelAccess, getActiveParticipantIds } from '../channel'
 import type { MemberRole, ChannelVisibility } from '@prisma/client'
+import { publishUserEvent } from '../../../lib/realtime'
 
 // Role mentions that can be used
 const ROLE_MENTIONS = ['governors', 'moderators', 'conductors', 'everyone', 'channel'] as const
@@ -30,14 +31,14 @@ const ROLE_MENTION_TARGETS: Record<RoleMention, MemberRole[]> = {
 /**
  * Get users that can be mentioned in a channel
  */
-export const getMentionableUsers = publicProcedure
+export const getMentionableUsers = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
     search: z.string().optional(),
   }))
-  .query(async ({ input }) => {
-    const { channelId, userId, search } = input
+  .query(async ({ ctx, input }) => {
+    const { channelId, search } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -73,7 +74,7 @@ export const getMentionableUsers = publicProcedure
       })
     }
 
-    if (!canAccessChannel(userMembership.role, channel.visibility)) {
+    if (!(await hasChannelAccess(userId, userMembership.role, channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -81,8 +82,9 @@ export const getMentionableUsers = publicProcedure
     }
 
     // Filter members who can access this channel
+    const participantIds = channel.kind === 'DIRECT' ? await getActiveParticipantIds(channelId) : null
     const accessibleMembers = channel.band.members.filter(m =>
-      canAccessChannel(m.role, channel.visibility)
+      participantIds ? participantIds.includes(m.user.id) : canAccessChannel(m.role, channel.visibility)
     )
 
     // Apply search filter (name only, not email for privacy)
@@ -95,8 +97,11 @@ export const getMentionableUsers = publicProcedure
     }
 
     // Get available role mentions for this user
+    // Role mentions would reach people outside a conversation, so only @channel applies there
     const availableRoleMentions = ROLE_MENTIONS.filter(mention =>
       ROLE_MENTION_PERMISSIONS[mention].includes(userMembership.role)
+    ).filter(mention =>
+      !participantIds || mention === 'channel'
     ).filter(mention => {
       if (!search) return true
       return mention.toLowerCase().includes(search.toLowerCase())
@@ -149,6 +154,8 @@ export function parseMentions(content: string): {
 /**
  * Process mentions after a message is created
  * Creates MessageMention records and notifications
+ * In a direct conversation (participantIds set) only participants can be
+ * mentioned, and they're already notified of the message itself.
  */
 export async function processMentions(
   messageId: string,
@@ -160,10 +167,14 @@ export async function processMentions(
   authorRole: MemberRole,
   channelVisibility: ChannelVisibility,
   channelName: string,
-  bandSlug: string
+  bandSlug: string,
+  participantIds: string[] | null = null
 ): Promise<void> {
   const { userMentions, roleMentions } = parseMentions(content)
 
+  const canSeeChannel = (member: { role: MemberRole; user: { id: string } }) =>
+    participantIds ? participantIds.includes(member.user.id) : canAccessChannel(member.role, channelVisibility)
+
   // Get all band members for resolving mentions
   const members = await prisma.member.findMany({
     where: { bandId, status: 'ACTIVE' },
@@ -186,7 +197,7 @@ export async function processMentions(
       return fullName === username.toLowerCase() || firstName === username.toLowerCase()
     })
 
-    if (member && canAccessChannel(member.role, channelVisibility)) {
+    if (member && canSeeChannel(member)) {
       // Don't notify the author if they mention themselves
       if (member.user.id !== authorId) {
         mentionRecords.push({ messageId, userId: member.user.id })
@@ -202,13 +213,17 @@ export async function processMentions(
       continue // Skip if author doesn't have permission
     }
 
+    if (participantIds && roleMention !== 'channel') {
+      continue // Band-wide role mentions don't apply in a conversation
+    }
+
     mentionRecords.push({ messageId, roleMention })
 
     // Get users to notify for this role mention
     if (roleMention === 'channel') {
       // Notify all users who can access the channel
       for (const member of members) {
-        if (canAccessChannel(member.role, channelVisibility) && member.user.id !== authorId) {
+        if (canSeeChannel(member) && member.user.id !== authorId) {
           usersToNotify.add(member.user.id)
         }
       }
@@ -255,7 +270,7 @@ export async function processMentions(
   }
 
   // Create notifications for mentioned users
-  if (usersToNotify.size > 0) {
+  if (usersToNotify.size > 0 && !participantIds) {
     const notifications = Array.from(usersToNotify).map(userId => ({
       userId,
       type: 'BAND_MEMBER_JOINED' as const, // Using existing type, could add MENTION type later
@@ -269,5 +284,9 @@ export async function processMentions(
     await prisma.notification.createMany({
       data: notifications,
     })
+
+    for (const userId of usersToNotify) {
+      publishUserEvent(userId, { type: 'notification.created' })
+    }
   }
 }
@@ -1,23 +1,23 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { canAccessChannel } from '../channel'
+import { hasChannelAccess } from '../channel'
 
 /**
  * List messages in a channel with pagination
  * Returns messages in reverse chronological order (newest first)
  */
-export const listMessages = publicProcedure
+export const listMessages = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
     cursor: z.string().optional(), // Message ID for cursor-based pagination
     limit: z.number().min(1).max(100).default(50),
     threadId: z.string().optional(), // If provided, get messages in a thread
   }))
-  .query(async ({ input }) => {
-    const { channelId, userId, cursor, limit, threadId } = input
+  .query(async ({ ctx, input }) => {
+    const { channelId, cursor, limit, threadId } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -50,7 +50,7 @@ export const listMessages = publicProcedure
     }
 
     // Check channel access
-    if (!canAccessChannel(membership.role, channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -154,15 +154,15 @@ export const listMessages = publicProcedure
 /**
  * Get a single message with its thread (replies)
  */
-export const getThread = publicProcedure
+export const getThread = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
     limit: z.number().min(1).max(100).default(50),
     cursor: z.string().optional(),
   }))
-  .query(async ({ input }) => {
-    const { messageId, userId, limit, cursor } = input
+  .query(async ({ ctx, input }) => {
+    const { messageId, limit, cursor } = input
+    const { userId } = ctx
 
     // Get the parent message with channel info
     const message = await prisma.message.findUnique({
@@ -218,7 +218,7 @@ export const getThread = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -328,15 +328,15 @@ export const getThread = publicProcedure
 /**
  * Search messages in a channel
  */
-export const searchMessages = publicProcedure
+export const searchMessages = protectedProcedure
   .input(z.object({
     channelId: z.string(),
-    userId: z.string(),
     query: z.string().min(1).max(200),
     limit: z.number().min(1).max(50).default(20),
   }))
-  .query(async ({ input }) => {
-    const { channelId, userId, query, limit } = input
+  .query(async ({ ctx, input }) => {
+    const { channelId, query, limit } = input
+    const { userId } = ctx
 
     // Get channel with band info
     const channel = await prisma.channel.findUnique({
@@ -368,7 +368,7 @@ export const searchMessages = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
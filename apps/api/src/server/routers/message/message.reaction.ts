@@ -1,22 +1,41 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { canAccessChannel } from '../channel'
+import { ChannelKind, ChannelVisibility } from '@prisma/client'
+import { hasChannelAccess } from '../channel'
+import { publishBandEvent } from '../../../lib/realtime'
 
 const MAX_UNIQUE_EMOJI_PER_MESSAGE = 20
 
+// Let other viewers of the channel refresh the message's reactions
+function publishReactionChange(message: {
+  id: string
+  channelId: string
+  threadId: string | null
+  channel: { bandId: string; kind: ChannelKind; visibility: ChannelVisibility }
+}) {
+  publishBandEvent(message.channel.bandId, {
+    type: 'reaction.changed',
+    channelId: message.channelId,
+    visibility: message.channel.visibility,
+    kind: message.channel.kind,
+    messageId: message.id,
+    threadId: message.threadId,
+  })
+}
+
 /**
  * Toggle a reaction on a message (add if not exists, remove if exists)
  */
-export const toggleReaction = publicProcedure
+export const toggleReaction = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
     emoji: z.string().min(1).max(32),
   }))
-  .mutation(async ({ input }) => {
-    const { messageId, userId, emoji } = input
+  .mutation(async ({ ctx, input }) => {
+    const { messageId, emoji } = input
+    const { userId } = ctx
 
     // Get message with channel and band info
     const message = await prisma.message.findUnique({
@@ -59,7 +78,7 @@ export const toggleReaction = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -77,6 +96,7 @@ export const toggleReaction = publicProcedure
         await prisma.messageReaction.delete({
           where: { id: existingReaction.id },
         })
+        publishReactionChange(message)
         return { action: 'removed' as const, emoji }
       } else {
         // Different emoji - replace the reaction
@@ -84,6 +104,7 @@ export const toggleReaction = publicProcedure
           where: { id: existingReaction.id },
           data: { emoji },
         })
+        publishReactionChange(message)
         return { action: 'changed' as const, emoji, previousEmoji: existingReaction.emoji }
       }
     }
@@ -113,6 +134,7 @@ export const toggleReaction = publicProcedure
         emoji,
       },
     })
+    publishReactionChange(message)
 
     return { action: 'added' as const, emoji }
   })
@@ -120,13 +142,13 @@ export const toggleReaction = publicProcedure
 /**
  * Get reactions for a message with counts and whether current user has reacted
  */
-export const getReactions = publicProcedure
+export const getReactions = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { messageId, userId } = input
+  .query(async ({ ctx, input }) => {
+    const { messageId } = input
+    const { userId } = ctx
 
     // Get message to verify access
     const message = await prisma.message.findUnique({
@@ -162,7 +184,7 @@ export const getReactions = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -213,13 +235,13 @@ export const getReactions = publicProcedure
 /**
  * Get reactions for multiple messages (batch query for efficiency)
  */
-export const getReactionsBatch = publicProcedure
+export const getReactionsBatch = protectedProcedure
   .input(z.object({
     messageIds: z.array(z.string()),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { messageIds, userId } = input
+  .query(async ({ ctx, input }) => {
+    const { messageIds } = input
+    const { userId } = ctx
 
     if (messageIds.length === 0) {
       return { reactions: {} }
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { canAccessChannel } from '../channel'
@@ -8,10 +8,9 @@ import { canAccessChannel } from '../channel'
  * Advanced full-text search across messages in a band
  * Uses PostgreSQL tsvector for efficient searching
  */
-export const advancedSearch = publicProcedure
+export const advancedSearch = protectedProcedure
   .input(z.object({
     bandId: z.string(),
-    userId: z.string(),
     query: z.string().min(1).max(200),
     // Filters
     channelId: z.string().optional(),
@@ -22,8 +21,9 @@ export const advancedSearch = publicProcedure
     limit: z.number().min(1).max(50).default(20),
     offset: z.number().min(0).default(0),
   }))
-  .query(async ({ input }) => {
-    const { bandId, userId, query, channelId, authorId, dateFrom, dateTo, limit, offset } = input
+  .query(async ({ ctx, input }) => {
+    const { bandId, query, channelId, authorId, dateFrom, dateTo, limit, offset } = input
+    const { userId } = ctx
 
     // Verify user is a member of the band and get their role
     const membership = await prisma.member.findFirst({
@@ -38,14 +38,21 @@ export const advancedSearch = publicProcedure
       })
     }
 
-    // Get all channels user can access
+    // Get all channels user can access, plus conversations they're in
     const allChannels = await prisma.channel.findMany({
-      where: { bandId, isArchived: false },
-      select: { id: true, visibility: true },
+      where: {
+        bandId,
+        isArchived: false,
+        OR: [
+          { kind: 'BAND' },
+          { kind: 'DIRECT', participants: { some: { userId, leftAt: null } } },
+        ],
+      },
+      select: { id: true, kind: true, visibility: true },
     })
 
     const accessibleChannelIds = allChannels
-      .filter(c => canAccessChannel(membership.role, c.visibility))
+      .filter(c => c.kind === 'DIRECT' || canAccessChannel(membership.role, c.visibility))
       .map(c => c.id)
 
     if (accessibleChannelIds.length === 0) {
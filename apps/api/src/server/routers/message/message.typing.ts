@@ -0,0 +1,72 @@
+import { z } from 'zod'
+import { protectedProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { hasChannelAccess } from '../channel'
+import { publishBandEvent } from '../../../lib/realtime'
+
+/**
+ * Broadcast that the caller is typing in a channel (or a thread in it).
+ * Nothing is stored - clients send this every few seconds while composing
+ * and drop the indicator when it stops arriving.
+ */
+export const sendTyping = protectedProcedure
+  .input(z.object({
+    channelId: z.string(),
+    threadId: z.string().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const { channelId, threadId } = input
+    const { userId } = ctx
+
+    const channel = await prisma.channel.findUnique({
+      where: { id: channelId },
+      include: {
+        band: {
+          select: {
+            members: {
+              where: { userId, status: 'ACTIVE' },
+              select: { role: true, user: { select: { id: true, name: true } } },
+            },
+          },
+        },
+      },
+    })
+
+    if (!channel) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Channel not found',
+      })
+    }
+
+    const membership = channel.band.members[0]
+    if (!membership) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'You must be an active band member',
+      })
+    }
+
+    if (!(await hasChannelAccess(userId, membership.role, channel))) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'You do not have access to this channel',
+      })
+    }
+
+    if (channel.isArchived) {
+      return { success: true }
+    }
+
+    publishBandEvent(channel.bandId, {
+      type: 'typing',
+      channelId,
+      visibility: channel.visibility,
+      kind: channel.kind,
+      threadId: threadId || null,
+      user: membership.user,
+    })
+
+    return { success: true }
+  })
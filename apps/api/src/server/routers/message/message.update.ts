@@ -1,9 +1,10 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole } from '@prisma/client'
-import { canAccessChannel } from '../channel'
+import { hasChannelAccess } from '../channel'
+import { publishBandEvent } from '../../../lib/realtime'
 
 // Roles that can delete any message (moderation)
 const CAN_MODERATE_MESSAGES: MemberRole[] = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
@@ -15,14 +16,14 @@ const CAN_PIN_MESSAGES: MemberRole[] = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
  * Edit a message
  * Only the author can edit their own message
  */
-export const editMessage = publicProcedure
+export const editMessage = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
     content: z.string().min(1).max(10000),
   }))
-  .mutation(async ({ input }) => {
-    const { messageId, userId, content } = input
+  .mutation(async ({ ctx, input }) => {
+    const { messageId, content } = input
+    const { userId } = ctx
 
     // Get message with channel info
     const message = await prisma.message.findUnique({
@@ -65,7 +66,7 @@ export const editMessage = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -107,20 +108,28 @@ export const editMessage = publicProcedure
       },
     })
 
-    return {
-      message: {
-        id: updated.id,
-        channelId: updated.channelId,
-        content: updated.content,
-        author: updated.author,
-        threadId: updated.threadId,
-        isPinned: updated.isPinned,
-        isEdited: updated.isEdited,
-        editedAt: updated.editedAt,
-        replyCount: updated._count.replies,
-        createdAt: updated.createdAt,
-      },
+    const result = {
+      id: updated.id,
+      channelId: updated.channelId,
+      content: updated.content,
+      author: updated.author,
+      threadId: updated.threadId,
+      isPinned: updated.isPinned,
+      isEdited: updated.isEdited,
+      editedAt: updated.editedAt,
+      replyCount: updated._count.replies,
+      createdAt: updated.createdAt,
     }
+
+    publishBandEvent(message.channel.bandId, {
+      type: 'message.updated',
+      channelId: updated.channelId,
+      visibility: message.channel.visibility,
+      kind: message.channel.kind,
+      message: result,
+    })
+
+    return { message: result }
   })
 
 /**
@@ -128,13 +137,13 @@ export const editMessage = publicProcedure
  * Author can delete their own message
  * Moderators+ can delete any message
  */
-export const deleteMessage = publicProcedure
+export const deleteMessage = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { messageId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { messageId } = input
+    const { userId } = ctx
 
     // Get message with channel info
     const message = await prisma.message.findUnique({
@@ -177,7 +186,7 @@ export const deleteMessage = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -206,6 +215,15 @@ export const deleteMessage = publicProcedure
       data: { messageCount: { decrement: 1 } },
     })
 
+    publishBandEvent(message.channel.bandId, {
+      type: 'message.deleted',
+      channelId: message.channelId,
+      visibility: message.channel.visibility,
+      kind: message.channel.kind,
+      messageId,
+      threadId: message.threadId,
+    })
+
     return { success: true }
   })
 
@@ -213,13 +231,13 @@ export const deleteMessage = publicProcedure
  * Pin a message
  * Moderators+ can pin messages
  */
-export const pinMessage = publicProcedure
+export const pinMessage = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { messageId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { messageId } = input
+    const { userId } = ctx
 
     // Get message with channel info
     const message = await prisma.message.findUnique({
@@ -262,7 +280,7 @@ export const pinMessage = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -297,33 +315,41 @@ export const pinMessage = publicProcedure
       },
     })
 
-    return {
-      message: {
-        id: updated.id,
-        channelId: updated.channelId,
-        content: updated.content,
-        author: updated.author,
-        threadId: updated.threadId,
-        isPinned: updated.isPinned,
-        isEdited: updated.isEdited,
-        editedAt: updated.editedAt,
-        replyCount: updated._count.replies,
-        createdAt: updated.createdAt,
-      },
+    const result = {
+      id: updated.id,
+      channelId: updated.channelId,
+      content: updated.content,
+      author: updated.author,
+      threadId: updated.threadId,
+      isPinned: updated.isPinned,
+      isEdited: updated.isEdited,
+      editedAt: updated.editedAt,
+      replyCount: updated._count.replies,
+      createdAt: updated.createdAt,
     }
+
+    publishBandEvent(message.channel.bandId, {
+      type: 'message.updated',
+      channelId: updated.channelId,
+      visibility: message.channel.visibility,
+      kind: message.channel.kind,
+      message: result,
+    })
+
+    return { message: result }
   })
 
 /**
  * Unpin a message
  * Moderators+ can unpin messages
  */
-export const unpinMessage = publicProcedure
+export const unpinMessage = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { messageId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { messageId } = input
+    const { userId } = ctx
 
     // Get message with channel info
     const message = await prisma.message.findUnique({
@@ -359,7 +385,7 @@ export const unpinMessage = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -394,32 +420,40 @@ export const unpinMessage = publicProcedure
       },
     })
 
-    return {
-      message: {
-        id: updated.id,
-        channelId: updated.channelId,
-        content: updated.content,
-        author: updated.author,
-        threadId: updated.threadId,
-        isPinned: updated.isPinned,
-        isEdited: updated.isEdited,
-        editedAt: updated.editedAt,
-        replyCount: updated._count.replies,
-        createdAt: updated.createdAt,
-      },
+    const result = {
+      id: updated.id,
+      channelId: updated.channelId,
+      content: updated.content,
+      author: updated.author,
+      threadId: updated.threadId,
+      isPinned: updated.isPinned,
+      isEdited: updated.isEdited,
+      editedAt: updated.editedAt,
+      replyCount: updated._count.replies,
+      createdAt: updated.createdAt,
     }
+
+    publishBandEvent(message.channel.bandId, {
+      type: 'message.updated',
+      channelId: updated.channelId,
+      visibility: message.channel.visibility,
+      kind: message.channel.kind,
+      message: result,
+    })
+
+    return { message: result }
   })
 
 /**
  * Get edit history for a message
  */
-export const getEditHistory = publicProcedure
+export const getEditHistory = protectedProcedure
   .input(z.object({
     messageId: z.string(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { messageId, userId } = input
+  .query(async ({ ctx, input }) => {
+    const { messageId } = input
+    const { userId } = ctx
 
     // Get message with channel info
     const message = await prisma.message.findUnique({
@@ -455,7 +489,7 @@ export const getEditHistory = publicProcedure
       })
     }
 
-    if (!canAccessChannel(membership.role, message.channel.visibility)) {
+    if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
       throw new TRPCError({
         code: 'FORBIDDEN',
         message: 'You do not have access to this channel',
@@ -1,6 +1,5 @@
-import { z } from 'zod'
 import { formatDistanceToNow } from 'date-fns'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole } from '@prisma/client'
@@ -25,11 +24,10 @@ function editionName(fullName: string | null, email: string | null): string {
   return `${first.toUpperCase()}'S EDITION`
 }
 
-export const getHomeFeed = publicProcedure
-  .input(z.object({ userId: z.string() }))
-  .query(async ({ input }) => {
+export const getHomeFeed = protectedProcedure
+  .query(async ({ ctx }) => {
     const user = await prisma.user.findUnique({
-      where: { id: input.userId },
+      where: { id: ctx.userId },
       select: { id: true, name: true, email: true },
     })
 
@@ -39,7 +37,7 @@ export const getHomeFeed = publicProcedure
 
     const memberships = await prisma.member.findMany({
       where: {
-        userId: input.userId,
+        userId: ctx.userId,
         status: 'ACTIVE',
         role: { in: VERIFY_ROLES },
       },
@@ -70,8 +68,8 @@ export const getHomeFeed = publicProcedure
         where: {
           deletedAt: null,
           parentId: { not: null },
-          authorId: { not: input.userId },
-          parent: { authorId: input.userId, deletedAt: null },
+          authorId: { not: ctx.userId },
+          parent: { authorId: ctx.userId, deletedAt: null },
         },
         orderBy: { createdAt: 'desc' },
         include: {
@@ -86,8 +84,8 @@ export const getHomeFeed = publicProcedure
       prisma.comment.findFirst({
         where: {
           deletedAt: null,
-          mentions: { some: { userId: input.userId } },
-          authorId: { not: input.userId },
+          mentions: { some: { userId: ctx.userId } },
+          authorId: { not: ctx.userId },
         },
         orderBy: { createdAt: 'desc' },
         include: {
@@ -1,21 +1,31 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { NotificationType, BandNotificationLevel } from '@prisma/client'
+import { router, protectedProcedure, bandMemberProcedure } from '../trpc'
+import { prisma } from '../../lib/prisma'
 import { notificationService } from '../../services/notification.service'
+import { notificationChannels } from '../../services/notification-channels'
+import { subscribeToUser } from '../../lib/realtime'
+import { CHANNEL_LABELS, NOTIFICATION_CHANNELS } from '../../lib/notification-catalog'
+import { isValidTimezone } from '../../lib/quiet-hours'
+import { getVapidPublicKey } from '../../lib/web-push'
+import { TEMPLATE_LOCALES, TemplateLocale } from '@band-it/shared'
+
+const minutesOfDay = z.number().int().min(0).max(24 * 60 - 1)
 
 export const notificationRouter = router({
   /**
    * Get notifications for user
    */
-  getMyNotifications: publicProcedure
+  getMyNotifications: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         unreadOnly: z.boolean().optional(),
         limit: z.number().optional(),
       })
     )
-    .query(async ({ input }) => {
-      const notifications = await notificationService.getForUser(input.userId, {
+    .query(async ({ ctx, input }) => {
+      const notifications = await notificationService.getForUser(ctx.userId, {
         unreadOnly: input.unreadOnly,
         limit: input.limit,
       })
@@ -29,14 +39,9 @@ export const notificationRouter = router({
   /**
    * Get unread count
    */
-  getUnreadCount: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
-      const count = await notificationService.getUnreadCount(input.userId)
+  getUnreadCount: protectedProcedure
+    .query(async ({ ctx }) => {
+      const count = await notificationService.getUnreadCount(ctx.userId)
 
       return {
         success: true,
@@ -44,18 +49,30 @@ export const notificationRouter = router({
       }
     }),
 
+  /**
+   * Stream new notifications and the resulting unread count
+   */
+  onEvents: protectedProcedure
+    .subscription(async function* ({ ctx, signal }) {
+      for await (const event of subscribeToUser(ctx.userId, signal)) {
+        yield {
+          type: event.type,
+          unreadCount: await notificationService.getUnreadCount(ctx.userId),
+        }
+      }
+    }),
+
   /**
    * Mark notification as read
    */
-  markAsRead: publicProcedure
+  markAsRead: protectedProcedure
     .input(
       z.object({
         notificationId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      await notificationService.markAsRead(input.notificationId, input.userId)
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.markAsRead(input.notificationId, ctx.userId)
 
       return {
         success: true,
@@ -66,14 +83,9 @@ export const notificationRouter = router({
   /**
    * Mark all as read
    */
-  markAllAsRead: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await notificationService.markAllAsRead(input.userId)
+  markAllAsRead: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      await notificationService.markAllAsRead(ctx.userId)
 
       return {
         success: true,
@@ -84,19 +96,243 @@ export const notificationRouter = router({
   /**
    * Archive notification
    */
-  archive: publicProcedure
+  archive: protectedProcedure
     .input(
       z.object({
         notificationId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      await notificationService.archive(input.notificationId, input.userId)
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.archive(input.notificationId, ctx.userId)
 
       return {
         success: true,
         message: 'Notification archived',
       }
     }),
+
+  /**
+   * Channel settings for every notification type, grouped for the settings
+   * screen, plus quiet hours and the SMS number
+   */
+  getPreferences: protectedProcedure
+    .query(async ({ ctx }) => {
+      const [groups, user, pushSubscriptionCount] = await Promise.all([
+        notificationService.getPreferences(ctx.userId),
+        prisma.user.findUnique({
+          where: { id: ctx.userId },
+          select: {
+            timezone: true,
+            quietHoursStart: true,
+            quietHoursEnd: true,
+            smsPhoneNumber: true,
+            locale: true,
+          },
+        }),
+        prisma.pushSubscription.count({ where: { userId: ctx.userId } }),
+      ])
+
+      if (!user) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
+      }
+
+      return {
+        channels: NOTIFICATION_CHANNELS.map(id => ({
+          id,
+          label: CHANNEL_LABELS[id],
+          available: notificationChannels[id].isAvailable(),
+        })),
+        groups,
+        delivery: user,
+        pushSubscriptionCount,
+      }
+    }),
+
+  /**
+   * Turn channels on or off per type; enabled: null restores the default
+   */
+  updatePreferences: protectedProcedure
+    .input(
+      z.object({
+        updates: z.array(z.object({
+          type: z.nativeEnum(NotificationType),
+          channel: z.enum(NOTIFICATION_CHANNELS),
+          enabled: z.boolean().nullable(),
+        })).min(1).max(200),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await notificationService.setPreferences(ctx.userId, input.updates)
+
+      return { success: true }
+    }),
+
+  /**
+   * Go back to the default channels for every type
+   */
+  resetPreferences: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      await prisma.notificationPreference.deleteMany({
+        where: { userId: ctx.userId },
+      })
+
+      return { success: true }
+    }),
+
+  /**
+   * Quiet hours, timezone, the number SMS notifications go to, and the
+   * language notifications are written in
+   */
+  updateDeliverySettings: protectedProcedure
+    .input(
+      z.object({
+        timezone: z.string().max(64).nullable(),
+        quietHoursStart: minutesOfDay.nullable(),
+        quietHoursEnd: minutesOfDay.nullable(),
+        smsPhoneNumber: z.string()
+          .regex(/^\+[1-9]\d{6,14}$/, 'Enter the number in international format, e.g. +15551234567')
+          .nullable(),
+        locale: z.enum(Object.keys(TEMPLATE_LOCALES) as [TemplateLocale, ...TemplateLocale[]]).nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.timezone && !isValidTimezone(input.timezone)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Unknown timezone' })
+      }
+
+      if ((input.quietHoursStart === null) !== (input.quietHoursEnd === null)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Set both a start and an end for quiet hours',
+        })
+      }
+
+      const user = await prisma.user.update({
+        where: { id: ctx.userId },
+        data: input,
+        select: {
+          timezone: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+          smsPhoneNumber: true,
+          locale: true,
+        },
+      })
+
+      return { success: true, delivery: user }
+    }),
+
+  /**
+   * How much the user hears from each of their bands
+   */
+  getBandSettings: protectedProcedure
+    .query(async ({ ctx }) => {
+      const [memberships, settings] = await Promise.all([
+        prisma.member.findMany({
+          where: { userId: ctx.userId, status: 'ACTIVE', band: { dissolvedAt: null } },
+          select: { band: { select: { id: true, name: true, slug: true } } },
+          orderBy: { band: { name: 'asc' } },
+        }),
+        prisma.bandNotificationSetting.findMany({
+          where: { userId: ctx.userId },
+          select: { bandId: true, level: true },
+        }),
+      ])
+      const levels = new Map(settings.map(setting => [setting.bandId, setting.level]))
+
+      return {
+        bands: memberships.map(({ band }) => ({
+          ...band,
+          level: levels.get(band.id) ?? BandNotificationLevel.ALL,
+        })),
+      }
+    }),
+
+  /**
+   * Mute a band, limit it to in-app, or hear everything. Urgent
+   * notifications still get through a mute.
+   */
+  setBandLevel: bandMemberProcedure
+    .input(
+      z.object({
+        level: z.nativeEnum(BandNotificationLevel),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.level === BandNotificationLevel.ALL) {
+        await prisma.bandNotificationSetting.deleteMany({
+          where: { userId: ctx.userId, bandId: input.bandId },
+        })
+      } else {
+        await prisma.bandNotificationSetting.upsert({
+          where: { userId_bandId: { userId: ctx.userId, bandId: input.bandId } },
+          create: { userId: ctx.userId, bandId: input.bandId, level: input.level },
+          update: { level: input.level },
+        })
+      }
+
+      return { success: true, level: input.level }
+    }),
+
+  /**
+   * The VAPID key browsers subscribe with, or null when push isn't set up
+   */
+  getPushConfig: protectedProcedure
+    .query(() => {
+      return { publicKey: getVapidPublicKey() }
+    }),
+
+  /**
+   * Save this browser's push subscription. A browser that was signed in as
+   * someone else moves over to the current user.
+   */
+  registerPushSubscription: protectedProcedure
+    .input(
+      z.object({
+        endpoint: z.string().url().max(2000),
+        keys: z.object({
+          p256dh: z.string().min(1).max(200),
+          auth: z.string().min(1).max(100),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userAgent = ctx.userAgent?.slice(0, 500) ?? null
+
+      await prisma.pushSubscription.upsert({
+        where: { endpoint: input.endpoint },
+        create: {
+          userId: ctx.userId,
+          endpoint: input.endpoint,
+          p256dh: input.keys.p256dh,
+          auth: input.keys.auth,
+          userAgent,
+        },
+        update: {
+          userId: ctx.userId,
+          p256dh: input.keys.p256dh,
+          auth: input.keys.auth,
+          userAgent,
+        },
+      })
+
+      return { success: true }
+    }),
+
+  /**
+   * Stop pushing to this browser
+   */
+  unregisterPushSubscription: protectedProcedure
+    .input(
+      z.object({
+        endpoint: z.string().max(2000),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await prisma.pushSubscription.deleteMany({
+        where: { userId: ctx.userId, endpoint: input.endpoint },
+      })
+
+      return { success: true }
+    }),
 })
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { z } from 'zod'
+import { NotificationType } from '@prisma/client'
+import {
+  TEMPLATE_LOCALES,
+  DEFAULT_TEMPLATE_LOCALE,
+  TemplateLocale,
+  getTemplateVariables,
+} from '@band-it/shared'
+import { router, adminProcedure } from '../trpc'
+import { prisma } from '../../lib/prisma'
+import { getNotificationGroups, NOTIFICATION_TYPES } from '../../lib/notification-catalog'
+import { notificationTemplateService } from '../../services/notification-template.service'
+
+const localeSchema = z.enum(Object.keys(TEMPLATE_LOCALES) as [TemplateLocale, ...TemplateLocale[]])
+
+export const notificationTemplateRouter = router({
+  /**
+   * Every notification type with the languages it has templates in
+   */
+  list: adminProcedure
+    .query(async () => {
+      const templates = await prisma.notificationTemplate.findMany({
+        select: {
+          type: true,
+          locale: true,
+          version: true,
+          customizedAt: true,
+          updatedAt: true,
+        },
+      })
+
+      return {
+        locales: Object.entries(TEMPLATE_LOCALES).map(([code, name]) => ({ code, name })),
+        groups: getNotificationGroups().map(group => ({
+          id: group.id,
+          label: group.label,
+          types: group.types.map(type => ({
+            type,
+            label: NOTIFICATION_TYPES[type].label,
+            templates: templates
+              .filter(template => template.type === type)
+              .map(({ type: _type, ...template }) => template),
+          })),
+        })),
+      }
+    }),
+
+  /**
+   * One template with its variables and history. Translations also get the
+   * English text to work from.
+   */
+  get: adminProcedure
+    .input(z.object({
+      type: z.nativeEnum(NotificationType),
+      locale: localeSchema,
+    }))
+    .query(async ({ input }) => {
+      const [template, english] = await Promise.all([
+        notificationTemplateService.getWithVersions(input.type, input.locale),
+        input.locale === DEFAULT_TEMPLATE_LOCALE
+          ? null
+          : prisma.notificationTemplate.findUnique({
+              where: { type_locale: { type: input.type, locale: DEFAULT_TEMPLATE_LOCALE } },
+            }),
+      ])
+
+      return {
+        template,
+        english,
+        variables: getTemplateVariables(input.type),
+      }
+    }),
+
+  /**
+   * Save a template as a new version. Fails if placeholders don't match the
+   * type's variables.
+   */
+  save: adminProcedure
+    .input(z.object({
+      type: z.nativeEnum(NotificationType),
+      locale: localeSchema,
+      title: z.string().min(1).max(200),
+      message: z.string().min(1).max(1000),
+      emailSubject: z.string().min(1).max(200),
+      emailBody: z.string().min(1).max(10000),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { type, locale, ...content } = input
+
+      const template = await notificationTemplateService.save({
+        type,
+        locale,
+        content,
+        editorId: ctx.userId,
+      })
+
+      return { template }
+    }),
+
+  /**
+   * Bring back an earlier version (saved as the newest one)
+   */
+  restoreVersion: adminProcedure
+    .input(z.object({
+      templateId: z.string(),
+      version: z.number().int().min(1),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const template = await notificationTemplateService.restoreVersion(
+        input.templateId,
+        input.version,
+        ctx.userId
+      )
+
+      return { template }
+    }),
+
+  /**
+   * Delete a translation
+   */
+  deleteLocale: adminProcedure
+    .input(z.object({
+      type: z.nativeEnum(NotificationType),
+      locale: localeSchema,
+    }))
+    .mutation(async ({ input }) => {
+      await notificationTemplateService.deleteLocale(input.type, input.locale)
+
+      return { success: true }
+    }),
+})
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure, bandMemberProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { isWelcomeInterestId } from '@band-it/shared'
@@ -16,11 +16,10 @@ export const onboardingRouter = router({
   /**
    * Get user welcome state - for redirect logic
    */
-  getUserWelcomeState: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .query(async ({ input }) => {
+  getUserWelcomeState: protectedProcedure
+    .query(async ({ ctx }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           hasCompletedWelcome: true,
           welcomeInterestIds: true,
@@ -43,7 +42,7 @@ export const onboardingRouter = router({
       const pendingInvitations = await prisma.pendingInvite.count({
         where: {
           email: (await prisma.user.findUnique({
-            where: { id: input.userId },
+            where: { id: ctx.userId },
             select: { email: true },
           }))?.email,
           expiresAt: { gt: new Date() },
@@ -63,14 +62,13 @@ export const onboardingRouter = router({
   /**
    * Persist interest selections from Daily onboarding (multi-select).
    */
-  saveWelcomeInterests: publicProcedure
+  saveWelcomeInterests: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         interestIds: z.array(z.string()),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const uniqueIds = [...new Set(input.interestIds)]
       const invalid = uniqueIds.filter((id) => !isWelcomeInterestId(id))
       if (invalid.length > 0) {
@@ -81,7 +79,7 @@ export const onboardingRouter = router({
       }
 
       await prisma.user.update({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         data: { welcomeInterestIds: uniqueIds },
       })
 
@@ -91,11 +89,10 @@ export const onboardingRouter = router({
   /**
    * Explicit dismiss of Daily onboarding guidance (not triggered by navigation).
    */
-  dismissDailyOnboarding: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
+  dismissDailyOnboarding: protectedProcedure
+    .mutation(async ({ ctx }) => {
       await prisma.user.update({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         data: { dailyOnboardingDismissedAt: new Date() },
       })
 
@@ -105,11 +102,10 @@ export const onboardingRouter = router({
   /**
    * Mark welcome as complete
    */
-  completeWelcome: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .mutation(async ({ input }) => {
+  completeWelcome: protectedProcedure
+    .mutation(async ({ ctx }) => {
       await prisma.user.update({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         data: { hasCompletedWelcome: true },
       })
 
@@ -141,17 +137,16 @@ export const onboardingRouter = router({
   /**
    * Get band onboarding state
    */
-  getBandOnboarding: publicProcedure
+  getBandOnboarding: protectedProcedure
     .input(z.object({
       bandId: z.string(),
-      userId: z.string(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Verify user is a member
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -231,18 +226,17 @@ export const onboardingRouter = router({
   /**
    * Initialize onboarding for a band
    */
-  initializeOnboarding: publicProcedure
+  initializeOnboarding: protectedProcedure
     .input(z.object({
       bandId: z.string(),
       templateId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Verify user is founder
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -264,17 +258,16 @@ export const onboardingRouter = router({
   /**
    * Dismiss onboarding
    */
-  dismissOnboarding: publicProcedure
+  dismissOnboarding: protectedProcedure
     .input(z.object({
       bandId: z.string(),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Verify user is founder
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -296,8 +289,7 @@ export const onboardingRouter = router({
   /**
    * Check and advance onboarding (called after relevant actions)
    */
-  checkProgress: publicProcedure
-    .input(z.object({ bandId: z.string() }))
+  checkProgress: bandMemberProcedure
     .mutation(async ({ input }) => {
       const onboarding = await prisma.bandOnboarding.findUnique({
         where: { bandId: input.bandId },
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, publicProcedure, protectedProcedure } from '../trpc'
 import { stripeService } from '../services/stripe.service'
 import { prisma } from '../../lib/prisma'
 
@@ -7,16 +7,11 @@ export const paymentRouter = router({
   /**
    * Create checkout session
    */
-  createCheckoutSession: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
+  createCheckoutSession: protectedProcedure
+    .mutation(async ({ ctx }) => {
       // Get user details
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           email: true,
           name: true,
@@ -28,7 +23,7 @@ export const paymentRouter = router({
       }
 
       const result = await stripeService.createSubscription(
-        input.userId,
+        ctx.userId,
         user.email,
         user.name
       )
@@ -61,15 +56,10 @@ export const paymentRouter = router({
   /**
    * Get subscription status
    */
-  getSubscriptionStatus: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getSubscriptionStatus: protectedProcedure
+    .query(async ({ ctx }) => {
       const user = await prisma.user.findUnique({
-        where: { id: input.userId },
+        where: { id: ctx.userId },
         select: {
           subscriptionStatus: true,
           subscriptionStartedAt: true,
@@ -85,14 +75,9 @@ export const paymentRouter = router({
   /**
    * Cancel subscription
    */
-  cancelSubscription: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      const result = await stripeService.cancelSubscription(input.userId)
+  cancelSubscription: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const result = await stripeService.cancelSubscription(ctx.userId)
 
       return {
         success: result.success,
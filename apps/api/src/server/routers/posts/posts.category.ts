@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole, PostCategoryVisibility } from '@prisma/client'
@@ -71,29 +71,14 @@ export async function createDefaultCategories(bandId: string, createdById: strin
 /**
  * List all categories for a band
  */
-export const listCategories = publicProcedure
+export const listCategories = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
-    userId: z.string(),
     includeArchived: z.boolean().optional().default(false),
   }))
-  .query(async ({ input }) => {
-    const { bandId, userId, includeArchived } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view posts',
-      })
-    }
+  .query(async ({ ctx, input }) => {
+    const { bandId, includeArchived } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     const userRole = membership.role
 
@@ -147,29 +132,14 @@ export const listCategories = publicProcedure
 /**
  * Get a single category by slug
  */
-export const getCategory = publicProcedure
+export const getCategory = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     categorySlug: z.string(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { bandId, categorySlug, userId } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view posts',
-      })
-    }
+  .query(async ({ ctx, input }) => {
+    const { bandId, categorySlug } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     const userRole = membership.role
 
@@ -222,31 +192,16 @@ export const getCategory = publicProcedure
 /**
  * Create a new category
  */
-export const createCategory = publicProcedure
+export const createCategory = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
-    userId: z.string(),
     name: z.string().min(1).max(80),
     description: z.string().max(500).optional(),
     visibility: z.enum(['PUBLIC', 'MODERATOR', 'GOVERNANCE']).default('PUBLIC'),
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, userId, name, description, visibility } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, name, description, visibility } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     if (!canCreateCategory(membership.role)) {
       throw new TRPCError({
@@ -297,17 +252,17 @@ export const createCategory = publicProcedure
 /**
  * Update a category
  */
-export const updateCategory = publicProcedure
+export const updateCategory = protectedProcedure
   .input(z.object({
     categoryId: z.string(),
-    userId: z.string(),
     name: z.string().min(1).max(80).optional(),
     description: z.string().max(500).optional().nullable(),
     visibility: z.enum(['PUBLIC', 'MODERATOR', 'GOVERNANCE']).optional(),
     sortOrder: z.number().optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { categoryId, userId, ...updates } = input
+  .mutation(async ({ ctx, input }) => {
+    const { categoryId, ...updates } = input
+    const { userId } = ctx
 
     const category = await prisma.postCategory.findUnique({
       where: { id: categoryId },
@@ -378,13 +333,13 @@ export const updateCategory = publicProcedure
 /**
  * Archive a category
  */
-export const archiveCategory = publicProcedure
+export const archiveCategory = protectedProcedure
   .input(z.object({
     categoryId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { categoryId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { categoryId } = input
+    const { userId } = ctx
 
     const category = await prisma.postCategory.findUnique({
       where: { id: categoryId },
@@ -431,13 +386,13 @@ export const archiveCategory = publicProcedure
 /**
  * Unarchive a category
  */
-export const unarchiveCategory = publicProcedure
+export const unarchiveCategory = protectedProcedure
   .input(z.object({
     categoryId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { categoryId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { categoryId } = input
+    const { userId } = ctx
 
     const category = await prisma.postCategory.findUnique({
       where: { id: categoryId },
@@ -484,13 +439,13 @@ export const unarchiveCategory = publicProcedure
 /**
  * Delete a category (only if empty)
  */
-export const deleteCategory = publicProcedure
+export const deleteCategory = protectedProcedure
   .input(z.object({
     categoryId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { categoryId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { categoryId } = input
+    const { userId } = ctx
 
     const category = await prisma.postCategory.findUnique({
       where: { id: categoryId },
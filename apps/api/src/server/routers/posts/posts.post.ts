@@ -1,9 +1,10 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure, bandMemberProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole } from '@prisma/client'
 import { canAccessPostCategory, canCreatePost } from './posts.category'
+import { webhookService } from '../../../services/webhook.service'
 
 // Roles that can pin/lock posts
 const CAN_MODERATE: MemberRole[] = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
@@ -20,31 +21,16 @@ function generateSlug(title: string): string {
 /**
  * List posts in a category
  */
-export const listPosts = publicProcedure
+export const listPosts = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     categoryId: z.string(),
-    userId: z.string(),
     cursor: z.string().optional(), // For pagination
     limit: z.number().min(1).max(50).default(20),
   }))
-  .query(async ({ input }) => {
-    const { bandId, categoryId, userId, cursor, limit } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view posts',
-      })
-    }
+  .query(async ({ ctx, input }) => {
+    const { bandId, categoryId, cursor, limit } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     const userRole = membership.role
 
@@ -122,29 +108,14 @@ export const listPosts = publicProcedure
 /**
  * Get a single post by slug with responses
  */
-export const getPost = publicProcedure
+export const getPost = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     postSlug: z.string(),
-    userId: z.string(),
   }))
-  .query(async ({ input }) => {
-    const { bandId, postSlug, userId } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member to view posts',
-      })
-    }
+  .query(async ({ ctx, input }) => {
+    const { bandId, postSlug } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     const userRole = membership.role
 
@@ -246,31 +217,16 @@ export const getPost = publicProcedure
 /**
  * Create a new post
  */
-export const createPost = publicProcedure
+export const createPost = bandMemberProcedure
   .input(z.object({
-    bandId: z.string(),
     categoryId: z.string(),
-    userId: z.string(),
     title: z.string().min(5).max(200),
     content: z.string().min(20).max(50000), // Markdown content
   }))
-  .mutation(async ({ input }) => {
-    const { bandId, categoryId, userId, title, content } = input
-
-    // Get user's membership
-    const membership = await prisma.member.findUnique({
-      where: {
-        userId_bandId: { userId, bandId },
-      },
-      select: { role: true, status: true },
-    })
-
-    if (!membership || membership.status !== 'ACTIVE') {
-      throw new TRPCError({
-        code: 'FORBIDDEN',
-        message: 'You must be an active band member',
-      })
-    }
+  .mutation(async ({ ctx, input }) => {
+    const { bandId, categoryId, title, content } = input
+    const { userId } = ctx
+    const membership = ctx.member
 
     if (!canCreatePost(membership.role)) {
       throw new TRPCError({
@@ -358,21 +314,33 @@ export const createPost = publicProcedure
       return newPost
     })
 
+    // Restricted categories stay internal
+    if (category.visibility === 'PUBLIC') {
+      webhookService.postPublished(bandId, {
+        id: post.id,
+        title: post.title,
+        slug: post.slug,
+        category: post.category,
+        author: post.author.name,
+        publishedAt: post.createdAt,
+      }).catch(err => console.error('Webhook error:', err))
+    }
+
     return { post }
   })
 
 /**
  * Update a post
  */
-export const updatePost = publicProcedure
+export const updatePost = protectedProcedure
   .input(z.object({
     postId: z.string(),
-    userId: z.string(),
     title: z.string().min(5).max(200).optional(),
     content: z.string().min(20).max(50000).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { postId, userId, title, content } = input
+  .mutation(async ({ ctx, input }) => {
+    const { postId, title, content } = input
+    const { userId } = ctx
 
     const post = await prisma.post.findUnique({
       where: { id: postId },
@@ -451,13 +419,13 @@ export const updatePost = publicProcedure
 /**
  * Delete a post (soft delete)
  */
-export const deletePost = publicProcedure
+export const deletePost = protectedProcedure
   .input(z.object({
     postId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { postId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { postId } = input
+    const { userId } = ctx
 
     const post = await prisma.post.findUnique({
       where: { id: postId },
@@ -517,13 +485,13 @@ export const deletePost = publicProcedure
 /**
  * Pin/unpin a post (moderators only)
  */
-export const togglePinPost = publicProcedure
+export const togglePinPost = protectedProcedure
   .input(z.object({
     postId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { postId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { postId } = input
+    const { userId } = ctx
 
     const post = await prisma.post.findUnique({
       where: { id: postId },
@@ -570,13 +538,13 @@ export const togglePinPost = publicProcedure
 /**
  * Lock/unlock a post (moderators only)
  */
-export const toggleLockPost = publicProcedure
+export const toggleLockPost = protectedProcedure
   .input(z.object({
     postId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { postId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { postId } = input
+    const { userId } = ctx
 
     const post = await prisma.post.findUnique({
       where: { id: postId },
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole } from '@prisma/client'
@@ -15,15 +15,15 @@ const MAX_DEPTH = 3
 /**
  * Create a response to a post or another response
  */
-export const createResponse = publicProcedure
+export const createResponse = protectedProcedure
   .input(z.object({
     postId: z.string(),
-    userId: z.string(),
     content: z.string().min(1).max(50000), // Markdown content
     parentId: z.string().optional(), // If replying to another response
   }))
-  .mutation(async ({ input }) => {
-    const { postId, userId, content, parentId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { postId, content, parentId } = input
+    const { userId } = ctx
 
     // Get post with category info
     const post = await prisma.post.findUnique({
@@ -232,14 +232,14 @@ export const createResponse = publicProcedure
 /**
  * Update a response
  */
-export const updateResponse = publicProcedure
+export const updateResponse = protectedProcedure
   .input(z.object({
     responseId: z.string(),
-    userId: z.string(),
     content: z.string().min(1).max(50000),
   }))
-  .mutation(async ({ input }) => {
-    const { responseId, userId, content } = input
+  .mutation(async ({ ctx, input }) => {
+    const { responseId, content } = input
+    const { userId } = ctx
 
     const response = await prisma.postResponse.findUnique({
       where: { id: responseId },
@@ -309,13 +309,13 @@ export const updateResponse = publicProcedure
 /**
  * Delete a response (soft delete)
  */
-export const deleteResponse = publicProcedure
+export const deleteResponse = protectedProcedure
   .input(z.object({
     responseId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { responseId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { responseId } = input
+    const { userId } = ctx
 
     const response = await prisma.postResponse.findUnique({
       where: { id: responseId },
@@ -36,16 +36,6 @@ const taxonomySelectionSchema = z.object({
   itemIds: z.array(z.string()),
 })
 
-/**
- * Guards user-scoped procedures against IDOR: the authenticated caller
- * (`ctx.userId`) must match the `userId` the client claims to act on.
- */
-function assertSelf(authedUserId: string, requestedUserId: string): void {
-  if (authedUserId !== requestedUserId) {
-    throw new TRPCError({ code: 'FORBIDDEN', message: 'Not allowed.' })
-  }
-}
-
 function profileIsComplete(data: {
   locationId: string | null
   resumeText: string | null
@@ -189,9 +179,7 @@ export const profileRouter = router({
     }),
 
   get: protectedProcedure
-    .input(z.object({ userId: z.string() }))
-    .query(async ({ ctx, input }) => {
-      assertSelf(ctx.userId, input.userId)
+    .query(async ({ ctx }) => {
       const profile = await getProfilePayload(ctx.userId)
       return { success: true, profile }
     }),
@@ -199,7 +187,6 @@ export const profileRouter = router({
   parseResume: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         resumeText: z.string().optional(),
         fileName: z.string().optional(),
         mimeType: z.string().optional(),
@@ -207,7 +194,6 @@ export const profileRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      assertSelf(ctx.userId, input.userId)
       let text = input.resumeText?.trim() ?? ''
 
       if (input.base64Data && input.mimeType) {
@@ -257,7 +243,6 @@ export const profileRouter = router({
   update: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         locationId: z.string().min(1, 'Place is required'),
         locationCity: z.string().optional(),
         locationState: z.string().optional(),
@@ -280,7 +265,6 @@ export const profileRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      assertSelf(ctx.userId, input.userId)
       const existingUser = await prisma.user.findUnique({
         where: { id: ctx.userId },
         select: { resumeText: true },
@@ -1,8 +1,8 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { callAI, parseAIJson } from '../../../lib/ai-client'
+import { callAI, parseAIJson } from '../../../lib/ai'
 
 // Roles that can use AI suggestions
 const CAN_USE_AI = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
@@ -14,13 +14,13 @@ interface ProjectSuggestion {
   order: number
 }
 
-export const suggestProjects = publicProcedure
+export const suggestProjects = protectedProcedure
   .input(z.object({
     proposalId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { proposalId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { proposalId } = input
+    const { userId } = ctx
 
     // Get proposal with full details
     const proposal = await prisma.proposal.findUnique({
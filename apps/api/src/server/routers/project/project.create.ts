@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -11,7 +11,7 @@ import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
 // Roles that can create projects from approved proposals
 const CAN_CREATE_PROJECT = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const createProject = publicProcedure
+export const createProject = protectedProcedure
   .input(z.object({
     proposalId: z.string(),
     name: z.string().min(1, 'Project name is required').max(200),
@@ -27,24 +27,24 @@ export const createProject = publicProcedure
     dependsOn: z.array(z.string()).optional(),
     leadId: z.string().optional(),
     orderIndex: z.number().int().optional(),
-    userId: z.string(),
     aiGenerated: z.boolean().optional().default(false),
     // Integrity Guard flags
     proceedWithFlags: z.boolean().optional(),
     flagReasons: z.array(z.string()).optional(),
     flagDetails: z.any().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     // Check dues standing
     const bandId = await getBandIdFromProposal(input.proposalId)
-    await requireGoodStanding(bandId, input.userId)
+    await requireGoodStanding(bandId, ctx.userId)
 
     const {
       proposalId, name, description, priority, startDate, targetDate,
       estimatedBudget, estimatedHours, deliverables, successCriteria,
-      tags, dependsOn, leadId, orderIndex, userId, aiGenerated,
+      tags, dependsOn, leadId, orderIndex, aiGenerated,
       proceedWithFlags, flagReasons, flagDetails
     } = input
+    const { userId } = ctx
 
     // Set integrity flags in audit context if user proceeded with warnings
     if (proceedWithFlags && flagReasons && flagReasons.length > 0) {
@@ -1,19 +1,18 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
 
 const CAN_DELETE_PROJECT = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const deleteProject = publicProcedure
+export const deleteProject = protectedProcedure
   .input(
     z.object({
       projectId: z.string(),
-      userId: z.string(),
     })
   )
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     const project = await prisma.project.findUnique({
       where: { id: input.projectId },
       include: {
@@ -35,9 +34,9 @@ export const deleteProject = publicProcedure
       })
     }
 
-    await requireGoodStanding(project.bandId, input.userId)
+    await requireGoodStanding(project.bandId, ctx.userId)
 
-    const member = project.band.members.find(m => m.userId === input.userId)
+    const member = project.band.members.find(m => m.userId === ctx.userId)
     if (!member) {
       throw new TRPCError({
         code: 'FORBIDDEN',
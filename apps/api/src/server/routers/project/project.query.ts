@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 
@@ -123,12 +123,9 @@ export const getProjectsByBand = publicProcedure
     return { projects }
   })
 
-export const getMyProjects = publicProcedure
-  .input(z.object({
-    userId: z.string(),
-  }))
-  .query(async ({ input }) => {
-    const { userId } = input
+export const getMyProjects = protectedProcedure
+  .query(async ({ ctx }) => {
+    const { userId } = ctx
 
     // Get bands where user is still an active member
     const activeMemberships = await prisma.member.findMany({
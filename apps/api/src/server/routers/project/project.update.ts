@@ -1,17 +1,17 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { setAuditFlags, clearAuditFlags } from '../../../lib/auditContext'
 import { requireGoodStanding, getBandIdFromProject } from '../../../lib/dues-enforcement'
+import { webhookService } from '../../../services/webhook.service'
 
 // Roles that can update projects
 const CAN_UPDATE_PROJECT = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const updateProject = publicProcedure
+export const updateProject = protectedProcedure
   .input(z.object({
     projectId: z.string(),
-    userId: z.string(),
     // Optional fields to update
     name: z.string().min(1).max(200).optional(),
     description: z.string().optional(),
@@ -32,17 +32,18 @@ export const updateProject = publicProcedure
     flagReasons: z.array(z.string()).optional(),
     flagDetails: z.any().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     // Check dues standing
     const bandId = await getBandIdFromProject(input.projectId)
-    await requireGoodStanding(bandId, input.userId)
+    await requireGoodStanding(bandId, ctx.userId)
 
     const {
-      projectId, userId, name, description, status, priority,
+      projectId, name, description, status, priority,
       startDate, targetDate, estimatedBudget, estimatedHours,
       deliverables, successCriteria, tags, dependsOn, leadId, orderIndex,
       proceedWithFlags, flagReasons, flagDetails
     } = input
+    const { userId } = ctx
 
     // Set integrity flags in audit context if user proceeded with warnings
     if (proceedWithFlags && flagReasons && flagReasons.length > 0) {
@@ -184,5 +185,15 @@ export const updateProject = publicProcedure
     // Clear flags to prevent leaking to other operations
     clearAuditFlags()
 
+    if (status !== undefined && status !== project.status) {
+      webhookService.projectStatusChanged(updatedProject.bandId, {
+        id: updatedProject.id,
+        name: updatedProject.name,
+        previousStatus: project.status,
+        status: updatedProject.status,
+        changedAt: updatedProject.updatedAt,
+      }).catch(err => console.error('Webhook error:', err))
+    }
+
     return { project: updatedProject }
   })
\ No newline at end of file
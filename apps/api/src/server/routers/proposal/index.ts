@@ -6,14 +6,17 @@ import { proposalVoteRouter } from './proposal.vote'
 import { proposalAiRouter } from './proposal.ai'
 import { proposalReviewRouter } from './proposal.review'
 import { proposalHierarchyRouter } from './proposal.hierarchy'
+import { proposalAmendmentRouter } from './proposal.amendment'
 
 export const proposalRouter = router({
   // Create
   create: proposalCreateRouter.create,
+  previewEffects: proposalCreateRouter.previewEffects,
 
   // Query
   getByBand: proposalQueryRouter.getByBand,
   getById: proposalQueryRouter.getById,
+  getEffectsSimulation: proposalQueryRouter.getEffectsSimulation,
   getMyPendingVotes: proposalQueryRouter.getMyPendingVotes,
   getMyProposals: proposalQueryRouter.getMyProposals,
 
@@ -31,6 +34,13 @@ export const proposalRouter = router({
   vote: proposalVoteRouter.vote,
   closeProposal: proposalVoteRouter.closeProposal,
 
+  // Amendments
+  getAmendments: proposalAmendmentRouter.getAmendments,
+  createAmendment: proposalAmendmentRouter.createAmendment,
+  voteOnAmendment: proposalAmendmentRouter.voteOnAmendment,
+  resolveAmendment: proposalAmendmentRouter.resolveAmendment,
+  withdrawAmendment: proposalAmendmentRouter.withdrawAmendment,
+
   // AI
   generateDraft: proposalAiRouter.generateDraft,
 
@@ -1,12 +1,12 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { aiService } from '../../../services/ai.service'
 
 export const proposalAiRouter = router({
   /**
    * AI: Generate proposal draft
    */
-  generateDraft: publicProcedure
+  generateDraft: protectedProcedure
     .input(
       z.object({
         title: z.string().min(3, 'Title must be at least 3 characters'),
@@ -14,17 +14,16 @@ export const proposalAiRouter = router({
         context: z.string().optional(),
         bandName: z.string().optional(),
         bandId: z.string().optional(),
-        userId: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const draft = await aiService.generateProposalDraft({
         title: input.title,
         type: input.type,
         context: input.context,
         bandName: input.bandName,
         bandId: input.bandId,
-        userId: input.userId,
+        userId: ctx.userId,
       })
 
       return {
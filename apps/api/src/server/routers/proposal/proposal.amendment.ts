@@ -0,0 +1,522 @@
+import { z } from 'zod'
+import { router, protectedProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import type { Proposal } from '@prisma/client'
+import { notificationService } from '../../../services/notification.service'
+import { budgetService } from '../../../services/budget.service'
+import { checkMultipleFields } from '../../../services/content-moderation.service'
+import { requireGoodStanding } from '../../../lib/dues-enforcement'
+import { logAuditEvent } from '../../../lib/auditContext'
+import { proposalFieldValueChanged } from '../../../lib/proposal-field-changes'
+import { evaluateYesNoVotes } from '../../../lib/proposal-outcome'
+import { NON_AMENDABLE_PROPOSAL_TYPES } from '../../../lib/counter-proposals'
+
+// Roles that can vote, and so propose and vote on amendments
+const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
+
+// Amendment voting closes after this long, or with the proposal if sooner
+const AMENDMENT_VOTING_HOURS = 48
+
+// Accepted amendments that change these reset every vote on the proposal;
+// otherwise only members who voted NO on the amendment have their vote reset
+const MATERIAL_FIELDS = ['budgetRequested']
+
+// Members whose votes are reset get at least this long to vote again
+const REVOTE_WINDOW_HOURS = 24
+
+const MAX_OPEN_AMENDMENTS = 10
+
+const amendmentChangesInput = z.object({
+  title: z.string().min(5).optional(),
+  description: z.string().min(20).optional(),
+  problemStatement: z.string().nullable().optional(),
+  expectedOutcome: z.string().nullable().optional(),
+  risksAndConcerns: z.string().nullable().optional(),
+  budgetRequested: z.number().min(0).max(10000000).nullable().optional(),
+  budgetBreakdown: z.string().nullable().optional(),
+  proposedStartDate: z.string().nullable().optional(),
+  proposedEndDate: z.string().nullable().optional(),
+  milestones: z.string().nullable().optional(),
+})
+
+type AmendmentChanges = z.infer<typeof amendmentChangesInput>
+
+/** Proposal columns an amendment can change (Pick fails to compile if one isn't) */
+type AmendableField = keyof Pick<Proposal, keyof AmendmentChanges>
+const AMENDABLE_FIELDS: readonly AmendableField[] = amendmentChangesInput.keyof().options
+
+/** Values as stored on the proposal (dates parsed) */
+function toProposalValue(field: AmendableField, value: unknown) {
+  if ((field === 'proposedStartDate' || field === 'proposedEndDate') && value) {
+    return new Date(value as string)
+  }
+  return value
+}
+
+function copyChange<K extends AmendableField>(target: AmendmentChanges, source: AmendmentChanges, field: K) {
+  target[field] = source[field]
+}
+
+async function getVotingMember(userId: string, bandId: string) {
+  const membership = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+  })
+  if (!membership || membership.status !== 'ACTIVE') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You must be an active member of this band' })
+  }
+  if (!CAN_VOTE.includes(membership.role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Your role does not have permission to vote' })
+  }
+  return membership
+}
+
+async function getOpenAmendment(amendmentId: string) {
+  const amendment = await prisma.proposalAmendment.findUnique({
+    where: { id: amendmentId },
+    include: {
+      proposal: { include: { band: true } },
+      votes: { select: { userId: true, vote: true } },
+    },
+  })
+  if (!amendment) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Amendment not found' })
+  }
+  if (amendment.status !== 'OPEN') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'This amendment has already been resolved' })
+  }
+  return amendment
+}
+
+function outcomeContext(proposal: { bandId: string; type: Proposal['type']; band: { votingMethod: string; quorumPercentage: number } }) {
+  return {
+    bandId: proposal.bandId,
+    type: proposal.type,
+    votingMethod: proposal.band.votingMethod,
+    quorumPercentage: proposal.band.quorumPercentage,
+  }
+}
+
+export const proposalAmendmentRouter = router({
+  /**
+   * Amendments on a proposal, with live results for open ones
+   */
+  getAmendments: protectedProcedure
+    .input(z.object({ proposalId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const proposal = await prisma.proposal.findUnique({
+        where: { id: input.proposalId },
+        include: { band: true },
+      })
+      if (!proposal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' })
+      }
+
+      const membership = await prisma.member.findUnique({
+        where: { userId_bandId: { userId: ctx.userId, bandId: proposal.bandId } },
+      })
+      if (!membership || membership.status !== 'ACTIVE') {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only band members can view this' })
+      }
+
+      const amendments = await prisma.proposalAmendment.findMany({
+        where: { proposalId: input.proposalId },
+        include: {
+          author: { select: { id: true, name: true } },
+          votes: { select: { userId: true, vote: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return {
+        amendments: await Promise.all(amendments.map(async (amendment) => {
+          const changes = amendment.changes as AmendmentChanges
+          return {
+            ...amendment,
+            votes: undefined,
+            // Current values alongside proposed ones, for a before/after view
+            fields: AMENDABLE_FIELDS.filter(field => field in changes).map(field => ({
+              field,
+              current: proposal[field] ?? null,
+              proposed: changes[field] ?? null,
+            })),
+            myVote: amendment.votes.find(v => v.userId === ctx.userId)?.vote ?? null,
+            outcome: amendment.status === 'OPEN'
+              ? await evaluateYesNoVotes(outcomeContext(proposal), amendment.votes)
+              : null,
+          }
+        })),
+      }
+    }),
+
+  /**
+   * Propose a change to an open proposal
+   */
+  createAmendment: protectedProcedure
+    .input(z.object({
+      proposalId: z.string(),
+      title: z.string().min(5).max(200),
+      rationale: z.string().max(5000).optional(),
+      changes: amendmentChangesInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const proposal = await prisma.proposal.findUnique({
+        where: { id: input.proposalId },
+        include: { band: { select: { name: true, slug: true } } },
+      })
+      if (!proposal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' })
+      }
+
+      await getVotingMember(ctx.userId, proposal.bandId)
+      await requireGoodStanding(proposal.bandId, ctx.userId)
+
+      if (proposal.status !== 'OPEN' || !proposal.votingEndsAt) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only proposals open for voting can be amended' })
+      }
+      if (NON_AMENDABLE_PROPOSAL_TYPES.includes(proposal.type)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'This kind of proposal cannot be amended' })
+      }
+
+      const now = new Date()
+      if (proposal.votingEndsAt.getTime() - now.getTime() < 60 * 60 * 1000) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Voting ends too soon to consider an amendment' })
+      }
+
+      // Keep only fields that actually differ from the proposal
+      const changes: AmendmentChanges = {}
+      for (const field of AMENDABLE_FIELDS) {
+        const value = input.changes[field]
+        if (value === undefined) continue
+        if (proposalFieldValueChanged(field, proposal[field], toProposalValue(field, value))) {
+          copyChange(changes, input.changes, field)
+        }
+      }
+      if (Object.keys(changes).length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'The amendment does not change anything' })
+      }
+
+      const openCount = await prisma.proposalAmendment.count({
+        where: { proposalId: proposal.id, status: 'OPEN' },
+      })
+      if (openCount >= MAX_OPEN_AMENDMENTS) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `This proposal already has ${MAX_OPEN_AMENDMENTS} amendments being voted on`,
+        })
+      }
+
+      const moderationResult = await checkMultipleFields({
+        title: input.title,
+        rationale: input.rationale,
+        ...Object.fromEntries(
+          Object.entries(changes).filter(([, v]) => typeof v === 'string') as [string, string][]
+        ),
+      })
+      if (!moderationResult.allowed) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Your content contains prohibited terms and cannot be posted. Please review and revise.',
+        })
+      }
+
+      const votingEndsAt = new Date(Math.min(
+        proposal.votingEndsAt.getTime(),
+        now.getTime() + AMENDMENT_VOTING_HOURS * 60 * 60 * 1000
+      ))
+
+      const amendment = await prisma.proposalAmendment.create({
+        data: {
+          proposalId: proposal.id,
+          authorId: ctx.userId,
+          title: input.title,
+          rationale: input.rationale || null,
+          changes: changes as object,
+          votingEndsAt,
+        },
+      })
+
+      if (proposal.createdById !== ctx.userId) {
+        notificationService.create({
+          userId: proposal.createdById,
+          type: 'PROPOSAL_EDITED',
+          title: 'Amendment Proposed',
+          message: `An amendment "${amendment.title}" was proposed to "${proposal.title}"`,
+          actionUrl: `/bands/${proposal.band.slug}/proposals/${proposal.id}`,
+          priority: 'MEDIUM',
+          relatedId: proposal.id,
+          relatedType: 'PROPOSAL',
+          bandId: proposal.bandId,
+        }).catch(err => console.error('Error notifying proposal author of amendment:', err))
+      }
+
+      return { success: true, amendment }
+    }),
+
+  /**
+   * Vote on an open amendment (separate from the vote on the proposal)
+   */
+  voteOnAmendment: protectedProcedure
+    .input(z.object({
+      amendmentId: z.string(),
+      vote: z.enum(['YES', 'NO', 'ABSTAIN']),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const amendment = await getOpenAmendment(input.amendmentId)
+
+      await getVotingMember(ctx.userId, amendment.proposal.bandId)
+      await requireGoodStanding(amendment.proposal.bandId, ctx.userId)
+
+      if (new Date() > amendment.votingEndsAt) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Voting on this amendment has ended' })
+      }
+
+      const vote = await prisma.proposalAmendmentVote.upsert({
+        where: { amendmentId_userId: { amendmentId: amendment.id, userId: ctx.userId } },
+        create: { amendmentId: amendment.id, userId: ctx.userId, vote: input.vote },
+        update: { vote: input.vote },
+      })
+
+      return { success: true, vote }
+    }),
+
+  /**
+   * Withdraw your own open amendment
+   */
+  withdrawAmendment: protectedProcedure
+    .input(z.object({ amendmentId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const amendment = await getOpenAmendment(input.amendmentId)
+
+      if (amendment.authorId !== ctx.userId) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the amendment author can withdraw it' })
+      }
+
+      await prisma.proposalAmendment.update({
+        where: { id: amendment.id },
+        data: { status: 'WITHDRAWN', resolvedAt: new Date() },
+      })
+
+      return { success: true }
+    }),
+
+  /**
+   * Decide an amendment once its voting ends (or everyone has voted).
+   * Accepted amendments are merged into the proposal as a new revision.
+   */
+  resolveAmendment: protectedProcedure
+    .input(z.object({ amendmentId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const amendment = await getOpenAmendment(input.amendmentId)
+      const proposal = amendment.proposal
+
+      const membership = await prisma.member.findUnique({
+        where: { userId_bandId: { userId: ctx.userId, bandId: proposal.bandId } },
+      })
+      if (!membership || membership.status !== 'ACTIVE') {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You must be an active member of this band' })
+      }
+
+      // Same people who can close the proposal
+      const canResolve = proposal.createdById === ctx.userId ||
+                         membership.role === 'FOUNDER' ||
+                         membership.role === 'GOVERNOR'
+      if (!canResolve) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have permission to resolve this amendment' })
+      }
+
+      if (proposal.status !== 'OPEN') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'The proposal is no longer open for voting' })
+      }
+
+      const outcome = await evaluateYesNoVotes(outcomeContext(proposal), amendment.votes)
+      const votingEnded = new Date() > amendment.votingEndsAt
+      const allVoted = outcome.eligibleVoters > 0 && outcome.total >= outcome.eligibleVoters
+
+      if (!votingEnded && !allVoted) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Amendment voting is still open until ${amendment.votingEndsAt.toLocaleString()} (${outcome.total} of ${outcome.eligibleVoters} have voted)`,
+        })
+      }
+
+      if (!outcome.passes) {
+        const resolution = !outcome.quorumMet
+          ? `Quorum not met: ${outcome.total} of ${outcome.eligibleVoters} eligible voters participated`
+          : `Did not reach the ${proposal.band.votingMethod.replace(/_/g, ' ').toLowerCase()} threshold`
+
+        await prisma.proposalAmendment.update({
+          where: { id: amendment.id },
+          data: { status: 'REJECTED', resolvedAt: new Date(), resolution },
+        })
+
+        await logAuditEvent({
+          bandId: proposal.bandId,
+          action: 'amendment_rejected',
+          entityType: 'Proposal',
+          entityId: proposal.id,
+          entityName: proposal.title,
+          changes: { amendment: { from: null, to: amendment.title }, resolution: { from: null, to: resolution } },
+        })
+
+        return { success: true, accepted: false, message: `Amendment rejected: ${resolution}`, votesReset: 0 }
+      }
+
+      // Merge: only fields that still differ from the proposal
+      const proposedChanges = amendment.changes as AmendmentChanges
+      const updateData: Record<string, unknown> = {}
+      const changedFields: Record<string, { old: any; new: any }> = {}
+      for (const field of AMENDABLE_FIELDS) {
+        if (!(field in proposedChanges)) continue
+        const newValue = toProposalValue(field, proposedChanges[field])
+        if (proposalFieldValueChanged(field, proposal[field], newValue)) {
+          updateData[field] = newValue
+          changedFields[field] = { old: proposal[field], new: newValue }
+        }
+      }
+
+      if (Object.keys(updateData).length === 0) {
+        await prisma.proposalAmendment.update({
+          where: { id: amendment.id },
+          data: {
+            status: 'SUPERSEDED',
+            resolvedAt: new Date(),
+            resolution: 'The proposal already contains these changes',
+          },
+        })
+        return { success: true, accepted: false, message: 'The proposal already contains these changes', votesReset: 0 }
+      }
+
+      // Budget-backed proposals must still fit their bucket
+      if ('budgetRequested' in updateData && proposal.budgetBucketId) {
+        try {
+          await budgetService.assertBudgetAvailable({
+            bandId: proposal.bandId,
+            bucketId: proposal.budgetBucketId,
+            amount: Math.round(Number(updateData.budgetRequested ?? 0) * 100),
+            amendsProposalId: proposal.budgetAmendsProposalId,
+          })
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Budget is not available',
+          })
+        }
+      }
+
+      // Vote carry-over: material changes reset everyone; otherwise only
+      // members who voted against the amendment must vote again
+      const proposalVotes = await prisma.vote.findMany({
+        where: { proposalId: proposal.id },
+        select: { userId: true },
+      })
+      const isMaterial = Object.keys(updateData).some(field => MATERIAL_FIELDS.includes(field))
+      const opposedIds = new Set(amendment.votes.filter(v => v.vote === 'NO').map(v => v.userId))
+      const resetUserIds = proposalVotes
+        .map(v => v.userId)
+        .filter(userId => isMaterial || opposedIds.has(userId))
+
+      if (resetUserIds.length > 0) {
+        const revoteBy = new Date(Date.now() + REVOTE_WINDOW_HOURS * 60 * 60 * 1000)
+        if (!proposal.votingEndsAt || proposal.votingEndsAt < revoteBy) {
+          updateData.votingEndsAt = revoteBy
+        }
+      }
+
+      const reason = `Amendment accepted: ${amendment.title}`
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (resetUserIds.length > 0) {
+          await tx.vote.deleteMany({
+            where: { proposalId: proposal.id, userId: { in: resetUserIds } },
+          })
+        }
+
+        const result = await tx.proposal.update({
+          where: { id: proposal.id },
+          data: {
+            ...updateData,
+            editCount: { increment: 1 },
+            lastEditedAt: new Date(),
+            lastEditedById: amendment.authorId,
+          },
+        })
+
+        const revision = await tx.proposalEditHistory.create({
+          data: {
+            proposalId: proposal.id,
+            editorId: amendment.authorId,
+            statusAtEdit: 'OPEN',
+            reason,
+            changes: changedFields,
+            votesReset: resetUserIds.length,
+          },
+        })
+
+        await tx.proposalAmendment.update({
+          where: { id: amendment.id },
+          data: { status: 'ACCEPTED', resolvedAt: new Date(), editHistoryId: revision.id },
+        })
+
+        // Other open amendments to the same fields were written against the old text
+        const others = await tx.proposalAmendment.findMany({
+          where: { proposalId: proposal.id, status: 'OPEN', id: { not: amendment.id } },
+          select: { id: true, changes: true },
+        })
+        const supersededIds = others
+          .filter(o => Object.keys(o.changes as object).some(field => field in changedFields))
+          .map(o => o.id)
+        if (supersededIds.length > 0) {
+          await tx.proposalAmendment.updateMany({
+            where: { id: { in: supersededIds } },
+            data: {
+              status: 'SUPERSEDED',
+              resolvedAt: new Date(),
+              resolution: `Amendment "${amendment.title}" changed the same fields first`,
+            },
+          })
+        }
+
+        return result
+      })
+
+      for (const userId of resetUserIds) {
+        notificationService.create({
+          userId,
+          type: 'PROPOSAL_VOTES_RESET',
+          actionUrl: `/bands/${proposal.band.slug}/proposals/${proposal.id}`,
+          priority: 'HIGH',
+          metadata: {
+            proposalId: proposal.id,
+            proposalTitle: updated.title,
+            bandName: proposal.band.name,
+            editReason: reason,
+          },
+          relatedId: proposal.id,
+          relatedType: 'PROPOSAL',
+        }).catch(err => console.error('Error notifying reset voter:', err))
+      }
+
+      await logAuditEvent({
+        bandId: proposal.bandId,
+        action: 'amendment_accepted',
+        entityType: 'Proposal',
+        entityId: proposal.id,
+        entityName: updated.title,
+        changes: {
+          amendment: { from: null, to: amendment.title },
+          changedFields: { from: null, to: Object.keys(changedFields) },
+          votesReset: { from: null, to: resetUserIds.length },
+        },
+      })
+
+      return {
+        success: true,
+        accepted: true,
+        message: resetUserIds.length > 0
+          ? `Amendment accepted. ${resetUserIds.length} vote(s) have been reset.`
+          : 'Amendment accepted. Existing votes carry over.',
+        votesReset: resetUserIds.length,
+      }
+    }),
+})
@@ -1,33 +1,64 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { notificationService } from '../../../services/notification.service'
 import { setAuditFlags, clearAuditFlags } from '../../../lib/auditContext'
 import { checkMultipleFields, saveFlaggedContent } from '../../../services/content-moderation.service'
 import { proposalEffectsService } from '../../../services/proposal-effects.service'
+import { budgetService } from '../../../services/budget.service'
 import { canCreateFinanceBucketGovernanceProposal } from '../../../services/effects/finance-bucket-governance.effects'
 import { TRPCError } from '@trpc/server'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
 import { getEligibleReviewers } from '../../../lib/proposal-review'
-import { MIN_MEMBERS_TO_ACTIVATE } from '@band-it/shared'
+import { getCounterTargetId, getCounterProposalDeadline } from '../../../lib/counter-proposals'
+import { MIN_MEMBERS_TO_ACTIVATE, MULTI_OPTION_MIN_OPTIONS, MULTI_OPTION_MAX_OPTIONS } from '@band-it/shared'
+import { MULTI_OPTION_METHODS } from '../../../lib/multi-option-tally'
 import { analyticsService } from '../../services/analytics.service'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
+import { webhookService } from '../../../services/webhook.service'
 
 // Roles that can create proposals
 const CAN_CREATE_PROPOSAL = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
+// Roles that can create GOVERNANCE and ACTION proposals
+const CAN_CREATE_GOVERNANCE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
+
 // Roles that can vote (needed for notifications)
 const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
 
 export const proposalCreateRouter = router({
+  /**
+   * Describe and check effects while a proposal is being written
+   */
+  previewEffects: protectedProcedure
+    .input(z.object({
+      bandId: z.string(),
+      effects: z.array(z.object({
+        type: z.string(),
+        payload: z.record(z.unknown()),
+        order: z.number().optional(),
+      })),
+    }))
+    .query(async ({ ctx, input }) => {
+      const membership = await prisma.member.findUnique({
+        where: { userId_bandId: { userId: ctx.userId, bandId: input.bandId } },
+      })
+      if (!membership || membership.status !== 'ACTIVE') {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not an active member of this band' })
+      }
+
+      return {
+        effects: await proposalEffectsService.previewEffects(input.effects, { bandId: input.bandId }),
+      }
+    }),
+
   /**
    * Create a new proposal
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
         title: z.string().min(5, 'Title must be at least 5 characters'),
         description: z.string().min(20, 'Description must be at least 20 characters'),
 
@@ -54,6 +85,10 @@ export const proposalCreateRouter = router({
         budgetBreakdown: z.string().optional(),
         fundingSource: z.string().optional(),
 
+        // Enforced budget - reserve budgetRequested from this bucket on approval
+        budgetBucketId: z.string().optional(),
+        budgetAmendsProposalId: z.string().optional(),
+
         // Timeline
         proposedStartDate: z.string().optional(),
         proposedEndDate: z.string().optional(),
@@ -74,20 +109,59 @@ export const proposalCreateRouter = router({
 
         // Custom voting period (overrides band default)
         customVotingPeriodHours: z.number().int().min(1).max(720).nullable().optional(),
+
+        // Multi-option voting (ranked choice, approval, score)
+        votingMethod: z.enum(MULTI_OPTION_METHODS).optional(),
+        options: z.array(z.object({
+          label: z.string().trim().min(1, 'Option label is required').max(200),
+          description: z.string().max(1000).optional(),
+        })).min(MULTI_OPTION_MIN_OPTIONS).max(MULTI_OPTION_MAX_OPTIONS).optional(),
+
+        // Counter-proposal: an alternative to an open proposal, decided with it
+        counterToProposalId: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Check dues standing
-      await requireGoodStanding(input.bandId, input.userId)
+      await requireGoodStanding(input.bandId, ctx.userId)
 
-      // ACTION proposals are temporarily disabled - not fully implemented yet
-      if (input.executionType === 'ACTION') {
+      // Multi-option proposals pick between options; there is no single set of effects to run
+      if (!!input.votingMethod !== !!input.options) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: 'Action proposals are not currently available',
+          message: 'Multi-option proposals need both a voting method and a list of options',
         })
       }
 
+      if (input.options) {
+        if (input.effects?.length || input.executionType === 'GOVERNANCE' || input.executionType === 'ACTION') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Multi-option proposals cannot carry governance or action effects',
+          })
+        }
+
+        const labels = input.options.map(o => o.label.toLowerCase())
+        if (new Set(labels).size !== labels.length) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Each option must have a different label',
+          })
+        }
+      }
+
+      // Counters link to the original of their group and can't be multi-option
+      let counterToProposalId: string | null = null
+      if (input.counterToProposalId) {
+        if (input.options) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Counter-proposals cannot be multi-option proposals',
+          })
+        }
+        counterToProposalId = await getCounterTargetId(input.counterToProposalId, input.bandId)
+      }
+
       // Set integrity flags in audit context if user proceeded with warnings
       if (input.proceedWithFlags && input.flagReasons && input.flagReasons.length > 0) {
         setAuditFlags({
@@ -104,6 +178,7 @@ export const proposalCreateRouter = router({
         problemStatement: input.problemStatement,
         expectedOutcome: input.expectedOutcome,
         risksAndConcerns: input.risksAndConcerns,
+        options: input.options?.map(o => [o.label, o.description].filter(Boolean).join(': ')).join('\n'),
       })
 
       // If blocked, throw error
@@ -118,7 +193,7 @@ export const proposalCreateRouter = router({
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: input.bandId,
           },
         },
@@ -145,6 +220,14 @@ export const proposalCreateRouter = router({
       // Determine execution type (default to PROJECT for backwards compatibility)
       const executionType = input.executionType || 'PROJECT'
 
+      // Proposals that change the band when approved need an officer role
+      if ((executionType === 'GOVERNANCE' || executionType === 'ACTION') && !CAN_CREATE_GOVERNANCE.includes(membership.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Your role does not have permission to create governance or action proposals. Required: Conductor, Moderator, Governor, or Founder.',
+        })
+      }
+
       // Check subtype-specific authorization
       if (input.executionSubtype === 'FINANCE_BUCKET_GOVERNANCE_V1') {
         if (!canCreateFinanceBucketGovernanceProposal(membership.role)) {
@@ -155,9 +238,9 @@ export const proposalCreateRouter = router({
         }
       }
 
-      // Validate effects if provided (ACTION is disabled, so only check GOVERNANCE)
+      // Validate effects (required for GOVERNANCE and ACTION, rejected for the rest)
       let effectsValidatedAt: Date | null = null
-      if (input.effects || executionType === 'GOVERNANCE') {
+      if (input.effects || executionType === 'GOVERNANCE' || executionType === 'ACTION') {
         const validationResult = await proposalEffectsService.validateEffects(
           input.effects,
           executionType,
@@ -180,6 +263,37 @@ export const proposalCreateRouter = router({
         effectsValidatedAt = new Date()
       }
 
+      // Budget-backed proposals: the bucket must have enough uncommitted funds now
+      if (input.budgetAmendsProposalId && !input.budgetBucketId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A budget amendment must name the bucket it draws from',
+        })
+      }
+
+      if (input.budgetBucketId) {
+        if (executionType === 'GOVERNANCE') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Governance proposals cannot reserve a budget',
+          })
+        }
+
+        try {
+          await budgetService.assertBudgetAvailable({
+            bandId: input.bandId,
+            bucketId: input.budgetBucketId,
+            amount: Math.round((input.budgetRequested ?? 0) * 100),
+            amendsProposalId: input.budgetAmendsProposalId,
+          })
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Budget is not available',
+          })
+        }
+      }
+
       // Determine status and voting dates based on draft mode and review requirement
       let status: 'DRAFT' | 'PENDING_REVIEW' | 'OPEN' = 'OPEN'
       let votingEndsAt: Date | null = null
@@ -211,13 +325,18 @@ export const proposalCreateRouter = router({
           votingEndsAt.setDate(votingEndsAt.getDate() + membership.band.votingPeriodDays)
         }
         submittedAt = new Date()
+
+        // Counter-proposals close together with the original
+        if (counterToProposalId) {
+          votingEndsAt = await getCounterProposalDeadline(counterToProposalId)
+        }
       }
 
       // Create proposal
       const proposal = await prisma.proposal.create({
         data: {
           bandId: input.bandId,
-          createdById: input.userId,
+          createdById: ctx.userId,
           title: input.title,
           description: input.description,
           type: input.type || 'GENERAL',
@@ -234,6 +353,8 @@ export const proposalCreateRouter = router({
           budgetRequested: input.budgetRequested,
           budgetBreakdown: input.budgetBreakdown,
           fundingSource: input.fundingSource,
+          budgetBucketId: input.budgetBucketId,
+          budgetAmendsProposalId: input.budgetAmendsProposalId,
           proposedStartDate: input.proposedStartDate ? new Date(input.proposedStartDate) : null,
           proposedEndDate: input.proposedEndDate ? new Date(input.proposedEndDate) : null,
           milestones: input.milestones,
@@ -248,6 +369,14 @@ export const proposalCreateRouter = router({
           allowEarlyClose: input.allowEarlyClose || false,
           // Custom voting period
           customVotingPeriodHours: input.customVotingPeriodHours,
+          // Multi-option voting
+          votingMethod: input.votingMethod,
+          options: input.options?.map((option, index) => ({
+            id: `opt_${index + 1}`,
+            label: option.label,
+            description: option.description || null,
+          })),
+          counterToProposalId,
         },
         include: {
           createdBy: {
@@ -259,6 +388,13 @@ export const proposalCreateRouter = router({
         },
       })
 
+      // Dry-run the effects now so voters can later see if the outcome has drifted
+      if (effectsValidatedAt) {
+        await proposalEffectsService.simulateAndStoreEffects(proposal).catch(err =>
+          console.error('Error simulating proposal effects:', err)
+        )
+      }
+
       // If content was flagged (WARN), save for admin review
       if (moderationResult.flagged) {
         // Combine all matched terms from all fields
@@ -285,7 +421,7 @@ export const proposalCreateRouter = router({
             {
               contentType: 'PROPOSAL',
               contentId: proposal.id,
-              authorId: input.userId,
+              authorId: ctx.userId,
               contentText,
             }
           )
@@ -305,7 +441,7 @@ export const proposalCreateRouter = router({
         // Notify eligible reviewers
         const eligibleReviewers = await getEligibleReviewers(
           input.bandId,
-          input.userId,
+          ctx.userId,
           membership.role
         )
 
@@ -329,7 +465,7 @@ export const proposalCreateRouter = router({
             bandId: input.bandId,
             status: 'ACTIVE',
             role: { in: CAN_VOTE as any },
-            userId: { not: input.userId },
+            userId: { not: ctx.userId },
           },
           select: { userId: true },
         })
@@ -349,13 +485,34 @@ export const proposalCreateRouter = router({
         }
       }
 
+      // Let the original's author know an alternative is on the table
+      if (counterToProposalId && status !== 'DRAFT') {
+        const original = await prisma.proposal.findUnique({
+          where: { id: counterToProposalId },
+          select: { title: true, createdById: true },
+        })
+        if (original && original.createdById !== ctx.userId) {
+          notificationService.create({
+            userId: original.createdById,
+            type: 'PROPOSAL_CREATED',
+            title: 'Counter-Proposal Submitted',
+            message: `${proposalWithRelations.createdBy.name} proposed "${proposal.title}" as an alternative to "${original.title}"`,
+            actionUrl: `/bands/${proposalWithRelations.band.slug}/proposals/${proposal.id}`,
+            priority: 'MEDIUM',
+            relatedId: proposal.id,
+            relatedType: 'PROPOSAL',
+            bandId: input.bandId,
+          }).catch(err => console.error('Error notifying author of counter-proposal:', err))
+        }
+      }
+
       // Clear flags to prevent leaking to other operations
       clearAuditFlags()
 
       // Track proposal creation event (only for non-draft proposals)
       if (status !== 'DRAFT') {
         await analyticsService.trackEvent('proposal_created', {
-          userId: input.userId,
+          userId: ctx.userId,
           metadata: { proposalId: proposal.id, bandId: input.bandId },
         })
 
@@ -363,6 +520,16 @@ export const proposalCreateRouter = router({
         checkAndAdvanceOnboarding(input.bandId).catch(err =>
           console.error('Error checking onboarding:', err)
         )
+
+        webhookService.proposalCreated(input.bandId, {
+          id: proposal.id,
+          title: proposal.title,
+          type: proposal.type,
+          status: proposal.status,
+          createdBy: proposalWithRelations.createdBy.name,
+          votingEndsAt: proposal.votingEndsAt,
+          createdAt: proposal.createdAt,
+        }).catch(err => console.error('Webhook error:', err))
       }
 
       return {
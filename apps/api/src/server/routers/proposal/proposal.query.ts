@@ -1,7 +1,19 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { TRPCError } from '@trpc/server'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
+import { budgetService } from '../../../services/budget.service'
+import { proposalEffectsService, type EffectsSimulation } from '../../../services/proposal-effects.service'
 import { getEligibleVoterCountForProposal } from '../../../lib/proposal-eligible-voters'
+import { getDelegatedVotesForProposal, withDelegatedVotes } from '../../../lib/vote-delegation'
+import { getCompetingProposals } from '../../../lib/counter-proposals'
+import {
+  isMultiOptionMethod,
+  parseProposalOptions,
+  tallyMultiOption,
+  MultiOptionBallot,
+  MultiOptionTally,
+} from '../../../lib/multi-option-tally'
 
 // Roles that can vote
 const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
@@ -66,6 +78,15 @@ export const proposalQueryRouter = router({
           lastEditedBy: {
             select: { id: true, name: true },
           },
+          budgetBucket: {
+            select: { id: true, name: true, type: true },
+          },
+          budgetAmendsProposal: {
+            select: { id: true, title: true },
+          },
+          counterToProposal: {
+            select: { id: true, title: true, status: true },
+          },
           band: {
             select: {
               id: true,
@@ -95,11 +116,15 @@ export const proposalQueryRouter = router({
         throw new Error('Proposal not found')
       }
 
+      // Delegated votes: snapshot once closed, live while open
+      const delegated = await getDelegatedVotesForProposal(proposal)
+      const countedVotes = withDelegatedVotes(proposal.votes, delegated)
+
       // Calculate vote counts
-      const yesVotes = proposal.votes.filter(v => v.vote === 'YES').length
-      const noVotes = proposal.votes.filter(v => v.vote === 'NO').length
-      const abstainVotes = proposal.votes.filter(v => v.vote === 'ABSTAIN').length
-      const totalVotes = proposal.votes.length
+      const yesVotes = countedVotes.filter(v => v.vote === 'YES').length
+      const noVotes = countedVotes.filter(v => v.vote === 'NO').length
+      const abstainVotes = countedVotes.filter(v => v.vote === 'ABSTAIN').length
+      const totalVotes = countedVotes.length
 
       const eligibleVoters = await getEligibleVoterCountForProposal(
         proposal.bandId,
@@ -111,14 +136,58 @@ export const proposalQueryRouter = router({
       const participationPercentage = eligibleVoters > 0 ? (totalVotes / eligibleVoters) * 100 : 0
       const quorumMet = participationPercentage >= quorumPercentage
 
+      // Multi-option results: final tally once closed, running tally while open
+      const tally = isMultiOptionMethod(proposal.votingMethod)
+        ? (proposal.tallyResult as MultiOptionTally | null) ?? tallyMultiOption(
+            proposal.votingMethod,
+            parseProposalOptions(proposal.options),
+            countedVotes.map(v => (v.ballot ?? {}) as MultiOptionBallot)
+          )
+        : null
+
+      // Who carried whose vote, for the results breakdown
+      const delegationUserIds = [...new Set(delegated.flatMap(d => [d.delegatorId, d.voterId, ...d.via]))]
+      const delegationUsers = delegationUserIds.length > 0
+        ? await prisma.user.findMany({
+            where: { id: { in: delegationUserIds } },
+            select: { id: true, name: true },
+          })
+        : []
+      const userName = (id: string) => delegationUsers.find(u => u.id === id)?.name ?? 'Former member'
+      const delegations = delegated.map(d => ({
+        delegator: { id: d.delegatorId, name: userName(d.delegatorId) },
+        voter: { id: d.voterId, name: userName(d.voterId) },
+        via: d.via.map(id => ({ id, name: userName(id) })),
+        vote: proposal.votes.find(v => v.userId === d.voterId)?.vote ?? null,
+      }))
+
+      // Reserved budget and spend (approved budget-backed proposals only)
+      const budget = await budgetService.getBudgetStatus(proposal.id)
+
+      // The original and counter-proposals decided alongside this one
+      const competingProposals = await getCompetingProposals(proposal)
+
+      // What the effects will do, checked against the band as it is now (until they run)
+      const effectsPreview = proposal.effects && !proposal.effectsExecutedAt
+        ? await proposalEffectsService.previewEffects(proposal.effects, { bandId: proposal.bandId, proposalId: proposal.id })
+        : null
+
       return {
         success: true,
         proposal,
+        options: parseProposalOptions(proposal.options),
+        tally,
+        budget,
+        delegations,
+        competingProposals,
+        effectsPreview,
         voteSummary: {
           yes: yesVotes,
           no: noVotes,
           abstain: abstainVotes,
           total: totalVotes,
+          direct: proposal.votes.length,
+          delegated: delegated.length,
           eligibleVoters,
           percentageYes: totalVotes > 0 ? Math.round((yesVotes / totalVotes) * 100) : 0,
           percentageNo: totalVotes > 0 ? Math.round((noVotes / totalVotes) * 100) : 0,
@@ -132,19 +201,69 @@ export const proposalQueryRouter = router({
     }),
 
   /**
-   * Get proposals that need user's vote
+   * Dry-run a proposal's effects against the band as it is now, alongside
+   * the run stored when the proposal was created or last edited
    */
-  getMyPendingVotes: publicProcedure
+  getEffectsSimulation: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
+        proposalId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      const proposal = await prisma.proposal.findUnique({
+        where: { id: input.proposalId },
+        select: {
+          id: true,
+          bandId: true,
+          createdById: true,
+          effects: true,
+          effectsExecutedAt: true,
+          effectsSimulation: true,
+          effectsSimulatedAt: true,
+        },
+      })
+
+      if (!proposal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' })
+      }
+
+      const membership = await prisma.member.findUnique({
+        where: { userId_bandId: { userId: ctx.userId, bandId: proposal.bandId } },
+      })
+      if (!membership || membership.status !== 'ACTIVE') {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only band members can view this' })
+      }
+
+      // Nothing to simulate once the effects have run
+      if (!proposal.effects || proposal.effectsExecutedAt) {
+        return { current: null, stored: null, storedAt: null, drifted: false }
+      }
+
+      const current = await proposalEffectsService.simulateEffects(proposal.effects, {
+        bandId: proposal.bandId,
+        proposalId: proposal.id,
+        executedById: proposal.createdById,
+      })
+      const stored = proposal.effectsSimulation as unknown as EffectsSimulation | null
+
+      return {
+        current,
+        stored,
+        storedAt: proposal.effectsSimulatedAt,
+        drifted: !!stored && proposalEffectsService.simulationDrifted(stored, current),
+      }
+    }),
+
+  /**
+   * Get proposals that need user's vote
+   */
+  getMyPendingVotes: protectedProcedure
+    .query(async ({ ctx }) => {
       // Get all bands where user can vote
       const memberships = await prisma.member.findMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           status: 'ACTIVE',
           role: { in: CAN_VOTE as any },
         },
@@ -168,7 +287,7 @@ export const proposalQueryRouter = router({
             select: { name: true },
           },
           votes: {
-            where: { userId: input.userId },
+            where: { userId: ctx.userId },
             select: { id: true },
           },
         },
@@ -189,17 +308,12 @@ export const proposalQueryRouter = router({
   /**
    * Get all proposals created by user across all bands they're still active in
    */
-  getMyProposals: publicProcedure
-    .input(
-      z.object({
-        userId: z.string(),
-      })
-    )
-    .query(async ({ input }) => {
+  getMyProposals: protectedProcedure
+    .query(async ({ ctx }) => {
       // Get bands where user is still an active member
       const activeMemberships = await prisma.member.findMany({
         where: {
-          userId: input.userId,
+          userId: ctx.userId,
           status: 'ACTIVE',
         },
         select: { bandId: true },
@@ -209,7 +323,7 @@ export const proposalQueryRouter = router({
 
       const proposals = await prisma.proposal.findMany({
         where: {
-          createdById: input.userId,
+          createdById: ctx.userId,
           bandId: { in: activeBandIds },
         },
         include: {
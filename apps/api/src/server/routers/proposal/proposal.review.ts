@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -11,19 +11,20 @@ import {
   MAX_RESUBMISSIONS,
 } from '../../../lib/proposal-review'
 import { checkMultipleFields } from '../../../services/content-moderation.service'
+import { getCounterProposalDeadline } from '../../../lib/counter-proposals'
+import { webhookService } from '../../../services/webhook.service'
 
 export const proposalReviewRouter = router({
   /**
    * Submit a draft proposal for review.
    */
-  submitForReview: publicProcedure
+  submitForReview: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
         include: {
@@ -46,7 +47,7 @@ export const proposalReviewRouter = router({
       }
 
       // Verify author
-      if (proposal.createdById !== input.userId) {
+      if (proposal.createdById !== ctx.userId) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Only the author can submit for review',
@@ -62,7 +63,7 @@ export const proposalReviewRouter = router({
       }
 
       // Check good standing
-      await requireGoodStanding(proposal.bandId, input.userId)
+      await requireGoodStanding(proposal.bandId, ctx.userId)
 
       // Check resubmission limit
       if (proposal.submissionCount >= MAX_RESUBMISSIONS) {
@@ -75,7 +76,7 @@ export const proposalReviewRouter = router({
       // Get author's membership to determine reviewer eligibility
       const authorMembership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: proposal.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: proposal.bandId },
         },
       })
 
@@ -85,7 +86,7 @@ export const proposalReviewRouter = router({
 
       // If band doesn't require review, go straight to OPEN
       if (!proposal.band.requireProposalReview) {
-        const votingEndsAt = new Date()
+        let votingEndsAt = new Date()
         const band = await prisma.band.findUnique({
           where: { id: proposal.bandId },
           select: { votingPeriodDays: true, votingPeriodHours: true },
@@ -96,6 +97,10 @@ export const proposalReviewRouter = router({
         } else {
           votingEndsAt.setDate(votingEndsAt.getDate() + (band?.votingPeriodDays || 7))
         }
+        // Counter-proposals close together with the original
+        if (proposal.counterToProposalId) {
+          votingEndsAt = await getCounterProposalDeadline(proposal.counterToProposalId)
+        }
 
         const updated = await prisma.proposal.update({
           where: { id: input.proposalId },
@@ -135,7 +140,7 @@ export const proposalReviewRouter = router({
       // Notify eligible reviewers
       const eligibleReviewers = await getEligibleReviewers(
         proposal.bandId,
-        input.userId,
+        ctx.userId,
         authorMembership.role
       )
 
@@ -159,14 +164,13 @@ export const proposalReviewRouter = router({
   /**
    * Approve a proposal (send to voting).
    */
-  approveProposal: publicProcedure
+  approveProposal: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
         include: {
@@ -200,7 +204,7 @@ export const proposalReviewRouter = router({
       // Get reviewer's membership
       const reviewerMembership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: proposal.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: proposal.bandId },
         },
       })
 
@@ -230,7 +234,7 @@ export const proposalReviewRouter = router({
         !canReviewProposal(
           reviewerMembership.role,
           authorMembership.role,
-          input.userId,
+          ctx.userId,
           proposal.createdById
         )
       ) {
@@ -241,10 +245,10 @@ export const proposalReviewRouter = router({
       }
 
       // Check good standing
-      await requireGoodStanding(proposal.bandId, input.userId)
+      await requireGoodStanding(proposal.bandId, ctx.userId)
 
       // Calculate voting period end
-      const votingEndsAt = new Date()
+      let votingEndsAt = new Date()
       // Use proposal's custom voting period if set, otherwise use band's settings
       if (proposal.customVotingPeriodHours) {
         votingEndsAt.setTime(votingEndsAt.getTime() + proposal.customVotingPeriodHours * 60 * 60 * 1000)
@@ -253,12 +257,16 @@ export const proposalReviewRouter = router({
       } else {
         votingEndsAt.setDate(votingEndsAt.getDate() + proposal.band.votingPeriodDays)
       }
+      // Counter-proposals close together with the original
+      if (proposal.counterToProposalId) {
+        votingEndsAt = await getCounterProposalDeadline(proposal.counterToProposalId)
+      }
 
       // Record in history
       await prisma.proposalReviewHistory.create({
         data: {
           proposalId: input.proposalId,
-          reviewerId: input.userId,
+          reviewerId: ctx.userId,
           action: 'APPROVED',
         },
       })
@@ -268,7 +276,7 @@ export const proposalReviewRouter = router({
         where: { id: input.proposalId },
         data: {
           status: 'OPEN',
-          reviewedById: input.userId,
+          reviewedById: ctx.userId,
           reviewedAt: new Date(),
           votingStartedAt: new Date(),
           votingEndsAt,
@@ -299,7 +307,7 @@ export const proposalReviewRouter = router({
           entityType: 'Proposal',
           entityId: proposal.id,
           entityName: proposal.title,
-          actorId: input.userId,
+          actorId: ctx.userId,
           actorType: 'user',
         },
       })
@@ -310,15 +318,14 @@ export const proposalReviewRouter = router({
   /**
    * Reject a proposal.
    */
-  rejectProposal: publicProcedure
+  rejectProposal: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
         reason: z.string().min(10, 'Reason must be at least 10 characters').max(1000),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
         include: {
@@ -350,7 +357,7 @@ export const proposalReviewRouter = router({
       // Get reviewer's membership
       const reviewerMembership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: proposal.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: proposal.bandId },
         },
       })
 
@@ -380,7 +387,7 @@ export const proposalReviewRouter = router({
         !canReviewProposal(
           reviewerMembership.role,
           authorMembership.role,
-          input.userId,
+          ctx.userId,
           proposal.createdById
         )
       ) {
@@ -391,13 +398,13 @@ export const proposalReviewRouter = router({
       }
 
       // Check good standing
-      await requireGoodStanding(proposal.bandId, input.userId)
+      await requireGoodStanding(proposal.bandId, ctx.userId)
 
       // Record in history
       await prisma.proposalReviewHistory.create({
         data: {
           proposalId: input.proposalId,
-          reviewerId: input.userId,
+          reviewerId: ctx.userId,
           action: 'REJECTED',
           reason: input.reason,
         },
@@ -408,7 +415,7 @@ export const proposalReviewRouter = router({
         where: { id: input.proposalId },
         data: {
           status: 'REJECTED',
-          reviewedById: input.userId,
+          reviewedById: ctx.userId,
           reviewedAt: new Date(),
           rejectionReason: input.reason,
         },
@@ -435,7 +442,7 @@ export const proposalReviewRouter = router({
           entityType: 'Proposal',
           entityId: proposal.id,
           entityName: proposal.title,
-          actorId: input.userId,
+          actorId: ctx.userId,
           actorType: 'user',
           changes: { reason: input.reason },
         },
@@ -447,14 +454,13 @@ export const proposalReviewRouter = router({
   /**
    * Withdraw a proposal from review.
    */
-  withdraw: publicProcedure
+  withdraw: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
         include: {
@@ -469,7 +475,7 @@ export const proposalReviewRouter = router({
       }
 
       // Verify author
-      if (proposal.createdById !== input.userId) {
+      if (proposal.createdById !== ctx.userId) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Only the author can withdraw a proposal',
@@ -479,7 +485,7 @@ export const proposalReviewRouter = router({
       // Verify user is still an active member
       const membership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: proposal.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: proposal.bandId },
         },
       })
 
@@ -513,14 +519,13 @@ export const proposalReviewRouter = router({
    * Delete a proposal.
    * Rule: author can delete their own proposal unless it has been approved.
    */
-  deleteProposal: publicProcedure
+  deleteProposal: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
       })
@@ -529,7 +534,7 @@ export const proposalReviewRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' })
       }
 
-      if (proposal.createdById !== input.userId) {
+      if (proposal.createdById !== ctx.userId) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Only the author can delete this proposal',
@@ -545,7 +550,7 @@ export const proposalReviewRouter = router({
 
       const membership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: proposal.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: proposal.bandId },
         },
       })
 
@@ -566,11 +571,10 @@ export const proposalReviewRouter = router({
   /**
    * Resubmit a rejected/withdrawn proposal.
    */
-  resubmit: publicProcedure
+  resubmit: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
         title: z.string().min(5, 'Title must be at least 5 characters'),
         description: z.string().min(20, 'Description must be at least 20 characters'),
         problemStatement: z.string().optional(),
@@ -580,7 +584,7 @@ export const proposalReviewRouter = router({
         budgetBreakdown: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
         include: {
@@ -605,7 +609,7 @@ export const proposalReviewRouter = router({
       }
 
       // Verify author
-      if (proposal.createdById !== input.userId) {
+      if (proposal.createdById !== ctx.userId) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'Only the author can resubmit a proposal',
@@ -629,7 +633,7 @@ export const proposalReviewRouter = router({
       }
 
       // Check good standing
-      await requireGoodStanding(proposal.bandId, input.userId)
+      await requireGoodStanding(proposal.bandId, ctx.userId)
 
       // Check content moderation
       const moderationResult = await checkMultipleFields({
@@ -650,7 +654,7 @@ export const proposalReviewRouter = router({
       // Get author's membership
       const authorMembership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: proposal.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: proposal.bandId },
         },
       })
 
@@ -675,6 +679,10 @@ export const proposalReviewRouter = router({
         } else {
           votingEndsAt.setDate(votingEndsAt.getDate() + proposal.band.votingPeriodDays)
         }
+        // Counter-proposals close together with the original
+        if (proposal.counterToProposalId) {
+          votingEndsAt = await getCounterProposalDeadline(proposal.counterToProposalId)
+        }
       }
 
       // Update proposal
@@ -704,7 +712,7 @@ export const proposalReviewRouter = router({
       if (newStatus === 'PENDING_REVIEW') {
         const eligibleReviewers = await getEligibleReviewers(
           proposal.bandId,
-          input.userId,
+          ctx.userId,
           authorMembership.role
         )
 
@@ -728,24 +736,36 @@ export const proposalReviewRouter = router({
         await notifyVotingOpen({ ...proposal, title: input.title })
       }
 
+      // A draft's first submission is when the band first sees it
+      if (proposal.status === 'DRAFT' && proposal.submissionCount === 0) {
+        webhookService.proposalCreated(proposal.bandId, {
+          id: updated.id,
+          title: updated.title,
+          type: updated.type,
+          status: updated.status,
+          createdBy: proposal.createdBy.name,
+          votingEndsAt: updated.votingEndsAt,
+          createdAt: updated.createdAt,
+        }).catch(err => console.error('Webhook error:', err))
+      }
+
       return { proposal: updated, reviewRequired: newStatus === 'PENDING_REVIEW' }
     }),
 
   /**
    * Get proposals pending review (for reviewers).
    */
-  getPendingReview: publicProcedure
+  getPendingReview: protectedProcedure
     .input(
       z.object({
         bandId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Get user's membership
       const membership = await prisma.member.findUnique({
         where: {
-          userId_bandId: { userId: input.userId, bandId: input.bandId },
+          userId_bandId: { userId: ctx.userId, bandId: input.bandId },
         },
       })
 
@@ -790,7 +810,7 @@ export const proposalReviewRouter = router({
           canReviewProposal(
             membership.role,
             authorMembership.role,
-            input.userId,
+            ctx.userId,
             proposal.createdById
           )
         ) {
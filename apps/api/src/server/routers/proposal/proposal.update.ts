@@ -1,58 +1,12 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
-
-/** Detect real content changes (avoids false "unchanged" from \\r\\n vs \\n, Decimal, Date, etc.) */
-function proposalFieldValueChanged(field: string, oldValue: unknown, newValue: unknown): boolean {
-  const textFields = new Set([
-    'title',
-    'description',
-    'problemStatement',
-    'expectedOutcome',
-    'risksAndConcerns',
-    'budgetBreakdown',
-    'fundingSource',
-    'milestones',
-    'executionSubtype',
-  ])
-  if (textFields.has(field)) {
-    const norm = (v: unknown): string | null => {
-      if (v == null) return null
-      if (typeof v !== 'string') return String(v)
-      const t = v.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
-      return t.length === 0 ? null : t
-    }
-    return norm(oldValue) !== norm(newValue)
-  }
-
-  if (field === 'budgetRequested') {
-    const num = (v: unknown): number | null => {
-      if (v == null || v === '') return null
-      const n = Number(v)
-      return Number.isFinite(n) ? n : null
-    }
-    return num(oldValue) !== num(newValue)
-  }
-
-  if (field === 'proposedStartDate' || field === 'proposedEndDate') {
-    const toMs = (v: unknown): number | null => {
-      if (v == null || v === '') return null
-      if (v instanceof Date) return v.getTime()
-      const d = new Date(v as string)
-      return Number.isNaN(d.getTime()) ? null : d.getTime()
-    }
-    return toMs(oldValue) !== toMs(newValue)
-  }
-
-  try {
-    return JSON.stringify(oldValue) !== JSON.stringify(newValue)
-  } catch {
-    return String(oldValue) !== String(newValue)
-  }
-}
+import { budgetService } from '../../../services/budget.service'
+import { proposalEffectsService } from '../../../services/proposal-effects.service'
+import { proposalFieldValueChanged } from '../../../lib/proposal-field-changes'
 
 export const proposalUpdateRouter = router({
   /**
@@ -63,11 +17,10 @@ export const proposalUpdateRouter = router({
    * - REJECTED/WITHDRAWN: update, log edit
    * - APPROVED/CLOSED: blocked
    */
-  edit: publicProcedure
+  edit: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
         // All editable fields (all optional - only update what's provided)
         title: z.string().min(5).optional(),
         description: z.string().min(20).optional(),
@@ -82,6 +35,7 @@ export const proposalUpdateRouter = router({
         budgetRequested: z.number().min(0).max(10000000).optional().nullable(),
         budgetBreakdown: z.string().optional().nullable(),
         fundingSource: z.string().optional().nullable(),
+        budgetBucketId: z.string().optional().nullable(),
         proposedStartDate: z.string().optional().nullable(),
         proposedEndDate: z.string().optional().nullable(),
         milestones: z.string().optional().nullable(),
@@ -90,8 +44,9 @@ export const proposalUpdateRouter = router({
         editReason: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const { proposalId, userId, editReason, ...updateFields } = input
+    .mutation(async ({ ctx, input }) => {
+      const { proposalId, editReason, ...updateFields } = input
+      const { userId } = ctx
 
       // Get proposal with band info and votes
       const proposal = await prisma.proposal.findUnique({
@@ -168,7 +123,7 @@ export const proposalUpdateRouter = router({
       const fieldsToCheck = [
         'title', 'description', 'type', 'priority', 'executionType', 'executionSubtype',
         'effects', 'problemStatement', 'expectedOutcome', 'risksAndConcerns',
-        'budgetRequested', 'budgetBreakdown', 'fundingSource',
+        'budgetRequested', 'budgetBreakdown', 'fundingSource', 'budgetBucketId',
         'proposedStartDate', 'proposedEndDate', 'milestones', 'externalLinks'
       ]
 
@@ -182,6 +137,11 @@ export const proposalUpdateRouter = router({
             newValue = new Date(newValue as string)
           }
 
+          // Empty bucket selection means no enforced budget
+          if (field === 'budgetBucketId' && !newValue) {
+            newValue = null
+          }
+
           if (proposalFieldValueChanged(field, oldValue, newValue)) {
             updateData[field] = newValue
             changedFields[field] = { old: oldValue, new: newValue }
@@ -189,6 +149,54 @@ export const proposalUpdateRouter = router({
         }
       }
 
+      // Re-validate effects if they, or what they run as, changed
+      if ('effects' in updateData || 'executionType' in updateData || 'executionSubtype' in updateData) {
+        const executionType = updateData.executionType ?? proposal.executionType
+        const effects = 'effects' in updateData ? updateData.effects : proposal.effects
+        if (effects || executionType === 'GOVERNANCE' || executionType === 'ACTION') {
+          const validationResult = await proposalEffectsService.validateEffects(
+            effects,
+            executionType,
+            ('executionSubtype' in updateData ? updateData.executionSubtype : proposal.executionSubtype) || null,
+            { bandId: proposal.bandId }
+          )
+          if (!validationResult.valid) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Invalid effects: ${validationResult.errors.join('; ')}`,
+            })
+          }
+          updateData.effectsValidatedAt = new Date()
+        }
+      }
+
+      // Re-check the budget if the bucket or amount changed
+      if ('budgetBucketId' in updateData || 'budgetRequested' in updateData) {
+        const bucketId = 'budgetBucketId' in updateData ? updateData.budgetBucketId : proposal.budgetBucketId
+        const budgetRequested = 'budgetRequested' in updateData ? updateData.budgetRequested : proposal.budgetRequested
+
+        if (bucketId) {
+          try {
+            await budgetService.assertBudgetAvailable({
+              bandId: proposal.bandId,
+              bucketId,
+              amount: Math.round(Number(budgetRequested ?? 0) * 100),
+              amendsProposalId: proposal.budgetAmendsProposalId,
+            })
+          } catch (error) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: error instanceof Error ? error.message : 'Budget is not available',
+            })
+          }
+        } else if (proposal.budgetAmendsProposalId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A budget amendment must name the bucket it draws from',
+          })
+        }
+      }
+
       // If nothing changed, return early
       if (Object.keys(updateData).length === 0) {
         return {
@@ -244,6 +252,18 @@ export const proposalUpdateRouter = router({
           })
         }
 
+        // Pending amendments were written against the previous text
+        if (statusAtEdit === 'OPEN') {
+          await tx.proposalAmendment.updateMany({
+            where: { proposalId, status: 'OPEN' },
+            data: {
+              status: 'SUPERSEDED',
+              resolvedAt: new Date(),
+              resolution: 'The proposal was edited by its author',
+            },
+          })
+        }
+
         // Update proposal
         const updated = await tx.proposal.update({
           where: { id: proposalId },
@@ -271,6 +291,13 @@ export const proposalUpdateRouter = router({
         return updated
       })
 
+      // The stored dry-run belongs to the previous effects
+      if ('effectsValidatedAt' in updateData) {
+        await proposalEffectsService.simulateAndStoreEffects(result).catch(err =>
+          console.error('Error simulating proposal effects:', err)
+        )
+      }
+
       // Send notifications
       if (statusAtEdit !== 'DRAFT') {
         // Notify voters if votes were reset
@@ -379,14 +406,13 @@ export const proposalUpdateRouter = router({
   /**
    * Get edit history for a proposal
    */
-  getEditHistory: publicProcedure
+  getEditHistory: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       // Check that user is a member of the band
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
@@ -395,7 +421,7 @@ export const proposalUpdateRouter = router({
           band: {
             select: {
               members: {
-                where: { userId: input.userId, status: 'ACTIVE' },
+                where: { userId: ctx.userId, status: 'ACTIVE' },
               },
             },
           },
@@ -1,12 +1,26 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { notificationService } from '../../../services/notification.service'
 import { proposalEffectsService } from '../../../services/proposal-effects.service'
+import { budgetService } from '../../../services/budget.service'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
 import { executeDissolution, checkDissolutionVotePassed } from '../../../lib/band-dissolution'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
+import { webhookService } from '../../../services/webhook.service'
 import { getEligibleVoterCountForProposal } from '../../../lib/proposal-eligible-voters'
+import { resolveDelegatedVotes, withDelegatedVotes } from '../../../lib/vote-delegation'
+import { meetsVotingThreshold } from '../../../lib/proposal-outcome'
+import { getCompetingProposals, findStrongerCompetitor } from '../../../lib/counter-proposals'
+import {
+  isMultiOptionMethod,
+  isEmptyBallot,
+  parseProposalOptions,
+  tallyMultiOption,
+  validateBallot,
+  MultiOptionBallot,
+  MultiOptionTally,
+} from '../../../lib/multi-option-tally'
 
 // Roles that can vote
 const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
@@ -15,16 +29,21 @@ export const proposalVoteRouter = router({
   /**
    * Vote on a proposal
    */
-  vote: publicProcedure
+  vote: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
-        vote: z.enum(['YES', 'NO', 'ABSTAIN']),
+        vote: z.enum(['YES', 'NO', 'ABSTAIN']).optional(),
+        // Multi-option proposals: only the field matching the proposal's method is read
+        ballot: z.object({
+          rankings: z.array(z.string()).optional(),
+          approvals: z.array(z.string()).optional(),
+          scores: z.record(z.number()).optional(),
+        }).optional(),
         comment: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Get proposal
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
@@ -47,7 +66,7 @@ export const proposalVoteRouter = router({
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: proposal.bandId,
           },
         },
@@ -69,7 +88,7 @@ export const proposalVoteRouter = router({
       }
 
       // Check dues standing
-      await requireGoodStanding(proposal.bandId, input.userId)
+      await requireGoodStanding(proposal.bandId, ctx.userId)
 
       // Dissolution proposals don't allow abstain
       if (proposal.type === 'DISSOLUTION' && input.vote === 'ABSTAIN') {
@@ -81,12 +100,35 @@ export const proposalVoteRouter = router({
         throw new Error('Abstaining is not allowed on founder nomination proposals. You must vote YES or NO.')
       }
 
+      // Multi-option proposals take a ballot; a blank ballot counts as an abstention
+      let voteValue: 'YES' | 'NO' | 'ABSTAIN'
+      let ballot: MultiOptionBallot | undefined
+      if (isMultiOptionMethod(proposal.votingMethod)) {
+        if (!input.ballot) {
+          throw new Error('This proposal has multiple options. Submit a ballot instead of YES/NO.')
+        }
+
+        ballot = proposal.votingMethod === 'RANKED_CHOICE'
+          ? { rankings: input.ballot.rankings ?? [] }
+          : proposal.votingMethod === 'APPROVAL'
+            ? { approvals: input.ballot.approvals ?? [] }
+            : { scores: input.ballot.scores ?? {} }
+
+        validateBallot(proposal.votingMethod, parseProposalOptions(proposal.options), ballot)
+        voteValue = isEmptyBallot(proposal.votingMethod, ballot) ? 'ABSTAIN' : 'YES'
+      } else {
+        if (!input.vote) {
+          throw new Error('Please choose YES, NO or ABSTAIN')
+        }
+        voteValue = input.vote
+      }
+
       // Check if already voted
       const existingVote = await prisma.vote.findUnique({
         where: {
           proposalId_userId: {
             proposalId: input.proposalId,
-            userId: input.userId,
+            userId: ctx.userId,
           },
         },
       })
@@ -97,7 +139,8 @@ export const proposalVoteRouter = router({
         vote = await prisma.vote.update({
           where: { id: existingVote.id },
           data: {
-            vote: input.vote,
+            vote: voteValue,
+            ballot: ballot as object | undefined,
             comment: input.comment,
           },
         })
@@ -106,8 +149,9 @@ export const proposalVoteRouter = router({
         vote = await prisma.vote.create({
           data: {
             proposalId: input.proposalId,
-            userId: input.userId,
-            vote: input.vote,
+            userId: ctx.userId,
+            vote: voteValue,
+            ballot: ballot as object | undefined,
             comment: input.comment,
           },
         })
@@ -116,22 +160,21 @@ export const proposalVoteRouter = router({
       return {
         success: true,
         message: existingVote ? 'Vote updated' : 'Vote recorded',
-        vote,
+        vote: { ...vote, ballot: vote.ballot as MultiOptionBallot | null },
       }
     }),
 
   /**
    * Close a proposal and determine result
    */
-  closeProposal: publicProcedure
+  closeProposal: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
         forceClose: z.boolean().optional(), // Only founders can force close before deadline
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const proposal = await prisma.proposal.findUnique({
         where: { id: input.proposalId },
         include: {
@@ -153,7 +196,7 @@ export const proposalVoteRouter = router({
       const membership = await prisma.member.findUnique({
         where: {
           userId_bandId: {
-            userId: input.userId,
+            userId: ctx.userId,
             bandId: proposal.bandId,
           },
         },
@@ -164,7 +207,7 @@ export const proposalVoteRouter = router({
       }
 
       const isFounder = membership.role === 'FOUNDER'
-      const canClose = proposal.createdById === input.userId ||
+      const canClose = proposal.createdById === ctx.userId ||
                        isFounder ||
                        membership.role === 'GOVERNOR'
 
@@ -178,13 +221,21 @@ export const proposalVoteRouter = router({
         proposal.type
       )
 
+      // Non-voters' delegated votes follow their proxies' direct votes
+      const delegated = await resolveDelegatedVotes(proposal, proposal.votes.map(v => v.userId))
+      const countedVotes = withDelegatedVotes(proposal.votes, delegated)
+
       // Check if all eligible voters have voted (for early close)
-      const allVoted = eligibleVoters > 0 && proposal.votes.length >= eligibleVoters
+      const allVoted = eligibleVoters > 0 && countedVotes.length >= eligibleVoters
 
       // Check if voting deadline has passed
       const now = new Date()
       const deadlinePassed = proposal.votingEndsAt ? now > proposal.votingEndsAt : false
 
+      // Counter-proposals and the proposal they counter are decided together
+      const competing = await getCompetingProposals(proposal)
+      const openCompetitorIds = competing.filter(c => c.status === 'OPEN').map(c => c.id)
+
       if (!deadlinePassed) {
         // ADD_FOUNDER: early close only when every founder has voted YES (never while any founder voted NO)
         if (proposal.type === 'ADD_FOUNDER') {
@@ -215,6 +266,10 @@ export const proposalVoteRouter = router({
             )
           }
           // allowed — early close for unanimous founder YES
+        } else if (openCompetitorIds.length > 0 && !(input.forceClose && isFounder)) {
+          throw new Error(
+            `This proposal has competing counter-proposals and can only be closed once their shared voting period ends (${proposal.votingEndsAt?.toLocaleDateString() || 'unknown'})`
+          )
         } else if (proposal.allowEarlyClose && allVoted) {
           // Allow early close - all eligible members have voted
         } else if (input.forceClose && isFounder) {
@@ -222,17 +277,17 @@ export const proposalVoteRouter = router({
         } else if (input.forceClose) {
           throw new Error('Only founders can force close a proposal before the deadline')
         } else if (proposal.allowEarlyClose) {
-          throw new Error(`Voting period has not ended yet. Early close is enabled but only ${proposal.votes.length} of ${eligibleVoters} eligible members have voted. The deadline is ${proposal.votingEndsAt?.toLocaleDateString() || 'unknown'}`)
+          throw new Error(`Voting period has not ended yet. Early close is enabled but only ${countedVotes.length} of ${eligibleVoters} eligible members have voted. The deadline is ${proposal.votingEndsAt?.toLocaleDateString() || 'unknown'}`)
         } else {
           throw new Error('Voting period has not ended yet. The deadline is ' + (proposal.votingEndsAt?.toLocaleDateString() || 'unknown'))
         }
       }
 
       // Calculate results
-      const yesVotes = proposal.votes.filter(v => v.vote === 'YES').length
-      const noVotes = proposal.votes.filter(v => v.vote === 'NO').length
-      const abstainVotes = proposal.votes.filter(v => v.vote === 'ABSTAIN').length
-      const totalVoters = yesVotes + noVotes + abstainVotes // All who participated
+      const yesVotes = countedVotes.filter(v => v.vote === 'YES').length
+      const noVotes = countedVotes.filter(v => v.vote === 'NO').length
+      const abstainVotes = countedVotes.filter(v => v.vote === 'ABSTAIN').length
+      const totalVoters = yesVotes + noVotes + abstainVotes // All who participated, directly or by delegation
       const totalVotes = yesVotes + noVotes // Abstain doesn't count toward decision
 
       // Check quorum (minimum participation)
@@ -243,6 +298,17 @@ export const proposalVoteRouter = router({
       let approved = false
       let rejectionReason: string | null = null
 
+      // Multi-option proposals: tally ballots (kept even when quorum fails, for the results view)
+      const options = parseProposalOptions(proposal.options)
+      const tally: MultiOptionTally | null = isMultiOptionMethod(proposal.votingMethod)
+        ? tallyMultiOption(
+            proposal.votingMethod,
+            options,
+            countedVotes.map(v => (v.ballot ?? {}) as MultiOptionBallot)
+          )
+        : null
+      const optionLabel = (id: string) => options.find(o => o.id === id)?.label ?? id
+
       // DISSOLUTION proposals have special voting rules
       if (proposal.type === 'DISSOLUTION') {
         // Unanimous among those who voted (non-voters are excluded)
@@ -283,22 +349,32 @@ export const proposalVoteRouter = router({
         // Quorum not met - proposal fails
         approved = false
         rejectionReason = `Quorum not met: ${totalVoters} of ${eligibleVoters} eligible voters participated (${participationPercentage.toFixed(0)}%), needed ${quorumPercentage}%`
+      } else if (tally) {
+        // A single option must come out on top; ties reject the proposal
+        approved = tally.winnerOptionId !== null
+        if (!approved) {
+          rejectionReason = tally.tiedOptionIds.length > 0
+            ? `Tie between ${tally.tiedOptionIds.map(optionLabel).join(', ')}`
+            : 'No ballots ranked, approved or scored any option'
+        }
       } else if (totalVotes > 0) {
-        const yesPercentage = (yesVotes / totalVotes) * 100
-
-        switch (proposal.band.votingMethod) {
-          case 'SIMPLE_MAJORITY':
-            approved = yesPercentage > 50
-            break
-          case 'SUPERMAJORITY_66':
-            approved = yesPercentage >= 66
-            break
-          case 'SUPERMAJORITY_75':
-            approved = yesPercentage >= 75
-            break
-          case 'UNANIMOUS':
-            approved = noVotes === 0 && yesVotes > 0
-            break
+        approved = meetsVotingThreshold(proposal.band.votingMethod, yesVotes, noVotes)
+      }
+
+      // Competing proposals: only the best-supported one that passes is approved
+      if (approved && competing.length > 0) {
+        const alreadyApproved = competing.find(c => c.status === 'APPROVED')
+        const stronger = alreadyApproved ?? await findStrongerCompetitor(
+          proposal,
+          { yesShare: totalVotes > 0 ? yesVotes / totalVotes : 0, yes: yesVotes },
+          proposal.band,
+          openCompetitorIds
+        )
+        if (stronger) {
+          approved = false
+          rejectionReason = alreadyApproved
+            ? `Competing proposal "${stronger.title}" was already approved`
+            : `Competing proposal "${stronger.title}" has stronger support`
         }
       }
 
@@ -308,9 +384,49 @@ export const proposalVoteRouter = router({
         data: {
           status: approved ? 'APPROVED' : 'REJECTED',
           closedAt: new Date(),
+          tallyResult: tally ? (tally as object) : undefined,
+          delegationResult: delegated.length > 0 ? (delegated as object[]) : undefined,
         },
       })
 
+      // Amendments still being voted on lapse with the proposal
+      await prisma.proposalAmendment.updateMany({
+        where: { proposalId: proposal.id, status: 'OPEN' },
+        data: {
+          status: 'EXPIRED',
+          resolvedAt: new Date(),
+          resolution: 'The proposal closed before this amendment was resolved',
+        },
+      })
+
+      // The winner of a competing group closes the remaining alternatives
+      if (approved && openCompetitorIds.length > 0) {
+        await prisma.proposal.updateMany({
+          where: { id: { in: openCompetitorIds } },
+          data: { status: 'REJECTED', closedAt: new Date() },
+        })
+        await prisma.proposalAmendment.updateMany({
+          where: { proposalId: { in: openCompetitorIds }, status: 'OPEN' },
+          data: {
+            status: 'EXPIRED',
+            resolvedAt: new Date(),
+            resolution: 'A competing proposal was approved',
+          },
+        })
+        for (const competitor of competing.filter(c => openCompetitorIds.includes(c.id))) {
+          notificationService.create({
+            userId: competitor.createdById,
+            type: 'PROPOSAL_REJECTED',
+            title: 'Proposal Rejected',
+            message: `"${competitor.title}" was rejected because competing proposal "${proposal.title}" was approved`,
+            actionUrl: `/bands/${proposal.band.slug}/proposals/${competitor.id}`,
+            priority: 'MEDIUM',
+            relatedId: competitor.id,
+            relatedType: 'PROPOSAL',
+          }).catch(err => console.error('Error notifying competing proposal author:', err))
+        }
+      }
+
       // Check onboarding progress (proposal passed = milestone 7)
       if (approved) {
         checkAndAdvanceOnboarding(proposal.bandId).catch(err =>
@@ -318,9 +434,38 @@ export const proposalVoteRouter = router({
         )
       }
 
+      webhookService.proposalClosed(proposal.bandId, {
+        id: proposal.id,
+        title: proposal.title,
+        outcome: approved ? 'APPROVED' : 'REJECTED',
+        rejectionReason,
+        tally: { yes: yesVotes, no: noVotes, abstain: abstainVotes, eligibleVoters, quorumMet },
+        multiOption: tally ? { tally, options } : null,
+        closedAt: updatedProposal.closedAt ?? new Date(),
+      }).catch(err => console.error('Webhook error:', err))
+
       // If approved, execute based on proposal type and execution type
       let executionResult: { success: boolean; error?: string; stripeErrors?: string[] } | null = null
-      if (approved) {
+
+      // Budget-backed proposals reserve their funds (amendments top up the original reservation)
+      let budgetReserved = true
+      if (approved && proposal.budgetBucketId) {
+        try {
+          await budgetService.reserveForProposal(proposal.id)
+        } catch (error) {
+          console.error('Budget reservation error:', error)
+          const message = `Budget could not be reserved: ${error instanceof Error ? error.message : 'unknown error'}`
+          await prisma.proposal.update({
+            where: { id: proposal.id },
+            data: { executionError: message },
+          })
+          executionResult = { success: false, error: message }
+          budgetReserved = false
+        }
+      }
+
+      // Nothing is executed without the budget behind it
+      if (approved && budgetReserved) {
         // Handle DISSOLUTION proposals specially
         if (proposal.type === 'DISSOLUTION') {
           try {
@@ -393,7 +538,7 @@ export const proposalVoteRouter = router({
                       executionSubtype: proposal.executionSubtype,
                       effects: proposal.effects,
                     },
-                    input.userId
+                    ctx.userId
                   )
                 } catch (error) {
                   console.error('Effects execution error:', error)
@@ -420,7 +565,9 @@ export const proposalVoteRouter = router({
 
       // Notify all band members (non-blocking - don't fail the close if notifications fail)
       const resultMessage = approved
-        ? 'approved'
+        ? tally?.winnerOptionId
+          ? `approved ("${optionLabel(tally.winnerOptionId)}" won)`
+          : 'approved'
         : rejectionReason
           ? `rejected (${rejectionReason})`
           : 'rejected'
@@ -461,8 +608,10 @@ export const proposalVoteRouter = router({
           met: quorumMet,
           eligibleVoters,
           totalVoters,
+          delegatedVotes: delegated.length,
         },
         executionResult: executionResult || undefined,
+        tally: tally || undefined,
       }
     }),
 })
\ No newline at end of file
@@ -1,11 +1,21 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../../trpc'
+import { router, publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { checkGoodStanding } from '../../../lib/dues-enforcement'
 import { CAN_VOTE, getQuickActionsForUser } from '../../../lib/quickActions'
 import { calculateMatchScore } from '../band/band.matching'
 import { getEligibleVoterCountForProposal } from '../../../lib/proposal-eligible-voters'
+import { getDelegatedVotesForProposal, withDelegatedVotes } from '../../../lib/vote-delegation'
+import { ledgerService } from '../../../services/ledger.service'
+import {
+  isMultiOptionMethod,
+  parseProposalOptions,
+  tallyMultiOption,
+  MultiOptionBallot,
+  MultiOptionTally,
+} from '../../../lib/multi-option-tally'
+import { hasChannelAccess } from '../channel'
 
 /**
  * Quick router - provides context for mobile-first micro landing pages
@@ -17,15 +27,15 @@ export const quickRouter = router({
    * Returns: proposal info, band name, voting deadline, user's current vote,
    * voting status, membership status, dues status
    */
-  getVoteContext: publicProcedure
+  getVoteContext: protectedProcedure
     .input(
       z.object({
         proposalId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { proposalId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { proposalId } = input
+      const { userId } = ctx
 
       // Get proposal with band info
       const proposal = await prisma.proposal.findUnique({
@@ -45,7 +55,7 @@ export const quickRouter = router({
           },
           votes: {
             where: { userId },
-            select: { id: true, vote: true, comment: true, createdAt: true },
+            select: { id: true, vote: true, ballot: true, comment: true, createdAt: true },
           },
         },
       })
@@ -88,11 +98,15 @@ export const quickRouter = router({
       const duesStatus = await checkGoodStanding(proposal.bandId, userId)
 
       // Get vote counts for summary
-      const allVotes = await prisma.vote.findMany({
+      const directVotes = await prisma.vote.findMany({
         where: { proposalId },
-        select: { vote: true },
+        select: { userId: true, vote: true, ballot: true },
       })
 
+      // Count delegated votes alongside direct ones
+      const delegated = await getDelegatedVotesForProposal({ ...proposal, votes: directVotes })
+      const allVotes = withDelegatedVotes(directVotes, delegated)
+
       const yesVotes = allVotes.filter((v) => v.vote === 'YES').length
       const noVotes = allVotes.filter((v) => v.vote === 'NO').length
       const abstainVotes = allVotes.filter((v) => v.vote === 'ABSTAIN').length
@@ -115,6 +129,16 @@ export const quickRouter = router({
       // User's existing vote (if any)
       const userVote = proposal.votes[0] || null
 
+      // Multi-option results: final tally once closed, running tally while open
+      const options = parseProposalOptions(proposal.options)
+      const tally = isMultiOptionMethod(proposal.votingMethod)
+        ? (proposal.tallyResult as MultiOptionTally | null) ?? tallyMultiOption(
+            proposal.votingMethod,
+            options,
+            allVotes.map((v) => (v.ballot ?? {}) as MultiOptionBallot)
+          )
+        : null
+
       return {
         proposal: {
           id: proposal.id,
@@ -125,7 +149,10 @@ export const quickRouter = router({
           createdBy: proposal.createdBy,
           votingEndsAt: proposal.votingEndsAt,
           createdAt: proposal.createdAt,
+          votingMethod: proposal.votingMethod,
+          options,
         },
+        tally,
         band: {
           id: proposal.band.id,
           name: proposal.band.name,
@@ -135,6 +162,7 @@ export const quickRouter = router({
         userVote: userVote
           ? {
               vote: userVote.vote,
+              ballot: userVote.ballot as MultiOptionBallot | null,
               comment: userVote.comment,
               createdAt: userVote.createdAt,
             }
@@ -144,6 +172,7 @@ export const quickRouter = router({
           no: noVotes,
           abstain: abstainVotes,
           total: totalVotes,
+          delegated: delegated.length,
           eligibleVoters,
           quorumMet,
           quorumRequired: proposal.band.quorumPercentage,
@@ -164,15 +193,15 @@ export const quickRouter = router({
    * Get context for reading a post
    * Returns: post info, author, band name, response count
    */
-  getReadContext: publicProcedure
+  getReadContext: protectedProcedure
     .input(
       z.object({
         postId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { postId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { postId } = input
+      const { userId } = ctx
 
       // Get post with author and band info
       const post = await prisma.post.findUnique({
@@ -274,16 +303,16 @@ export const quickRouter = router({
    * Get context for replying to content (message or post response)
    * Returns: original content, author, channel/band context
    */
-  getReplyContext: publicProcedure
+  getReplyContext: protectedProcedure
     .input(
       z.object({
         contentId: z.string(),
         contentType: z.enum(['message', 'post_response']),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { contentId, contentType, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { contentId, contentType } = input
+      const { userId } = ctx
 
       if (contentType === 'message') {
         // Get message with channel and band info
@@ -297,6 +326,8 @@ export const quickRouter = router({
               select: {
                 id: true,
                 name: true,
+                kind: true,
+                visibility: true,
                 band: {
                   select: { id: true, name: true, slug: true },
                 },
@@ -336,6 +367,13 @@ export const quickRouter = router({
           })
         }
 
+        if (!(await hasChannelAccess(userId, membership.role, message.channel))) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have access to this channel',
+          })
+        }
+
         // Check dues standing
         const duesStatus = await checkGoodStanding(bandId, userId)
 
@@ -642,6 +680,10 @@ export const quickRouter = router({
         },
       })
 
+      await ledgerService.postManualPayment(paymentId).catch(err =>
+        console.error('Error posting manual payment to ledger:', err)
+      )
+
       // Update BandMemberBilling
       await prisma.bandMemberBilling.upsert({
         where: {
@@ -677,15 +719,15 @@ export const quickRouter = router({
    * Returns: pending votes, pending payment confirmations
    * Sorted by urgency (high first)
    */
-  getMyActions: publicProcedure
+  getMyActions: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         limit: z.number().min(1).max(20).default(5),
       })
     )
-    .query(async ({ input }) => {
-      const { userId, limit } = input
+    .query(async ({ ctx, input }) => {
+      const { limit } = input
+      const { userId } = ctx
       const result = await getQuickActionsForUser(userId, limit)
       return {
         ...result,
@@ -697,15 +739,15 @@ export const quickRouter = router({
    * Get context for claiming/viewing a task
    * Returns: task info, project, band, permissions
    */
-  getTaskContext: publicProcedure
+  getTaskContext: protectedProcedure
     .input(
       z.object({
         taskId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { taskId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { taskId } = input
+      const { userId } = ctx
 
       // Get task with related info
       const task = await prisma.task.findUnique({
@@ -862,15 +904,15 @@ export const quickRouter = router({
    * Get context for claiming/viewing a checklist item
    * Returns: item info, task, project, band, permissions
    */
-  getChecklistItemContext: publicProcedure
+  getChecklistItemContext: protectedProcedure
     .input(
       z.object({
         itemId: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { itemId, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { itemId } = input
+      const { userId } = ctx
 
       // Get checklist item with related info
       const item = await prisma.checklistItem.findUnique({
@@ -1064,15 +1106,15 @@ export const quickRouter = router({
    * Returns: band info, match score/reasons, user's membership status
    * No membership required (public band preview)
    */
-  getBandPreviewContext: publicProcedure
+  getBandPreviewContext: protectedProcedure
     .input(
       z.object({
         bandSlug: z.string(),
-        userId: z.string(),
       })
     )
-    .query(async ({ input }) => {
-      const { bandSlug, userId } = input
+    .query(async ({ ctx, input }) => {
+      const { bandSlug } = input
+      const { userId } = ctx
 
       // Get band details
       const band = await prisma.band.findUnique({
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, protectedProcedure } from '../trpc'
 import { prisma } from '../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 
@@ -8,14 +8,14 @@ const CAN_REORDER = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
 export const reorderRouter = router({
   // Reorder a project within a band
-  reorderProject: publicProcedure
+  reorderProject: protectedProcedure
     .input(z.object({
       projectId: z.string(),
       direction: z.enum(['up', 'down']),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { projectId, direction, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { projectId, direction } = input
+      const { userId } = ctx
 
       // Get the project with band info
       const project = await prisma.project.findUnique({
@@ -75,14 +75,14 @@ export const reorderRouter = router({
     }),
 
   // Reorder a task within a project
-  reorderTask: publicProcedure
+  reorderTask: protectedProcedure
     .input(z.object({
       taskId: z.string(),
       direction: z.enum(['up', 'down']),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { taskId, direction, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { taskId, direction } = input
+      const { userId } = ctx
 
       // Get the task with project and band info
       const task = await prisma.task.findUnique({
@@ -146,14 +146,14 @@ export const reorderRouter = router({
     }),
 
   // Reorder a checklist item within a task
-  reorderChecklistItem: publicProcedure
+  reorderChecklistItem: protectedProcedure
     .input(z.object({
       itemId: z.string(),
       direction: z.enum(['up', 'down']),
-      userId: z.string(),
     }))
-    .mutation(async ({ input }) => {
-      const { itemId, direction, userId } = input
+    .mutation(async ({ ctx, input }) => {
+      const { itemId, direction } = input
+      const { userId } = ctx
 
       // Get the checklist item with task and band info
       const item = await prisma.checklistItem.findUnique({
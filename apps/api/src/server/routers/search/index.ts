@@ -0,0 +1,14 @@
+import { router } from '../../trpc'
+import { searchBand } from './search.query'
+
+/**
+ * Band-wide full-text search. Message search within the discussion UI
+ * stays on message.advancedSearch.
+ */
+export const searchRouter = router({
+  // Read
+  band: searchBand,
+})
+
+export { SEARCH_TYPES } from './search.query'
+export type { SearchType, SnippetSegment } from './search.query'
@@ -0,0 +1,347 @@
+import { z } from 'zod'
+import { Prisma, MemberRole } from '@prisma/client'
+import { bandMemberProcedure } from '../../trpc'
+import { prisma } from '../../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { canAccessChannel } from '../channel'
+import { canAccessPostCategory } from '../posts'
+import { loadBandFolders, permissionsForRole } from '../../../lib/document-folder-access'
+
+export const SEARCH_TYPES = ['PROPOSAL', 'POST', 'DOCUMENT', 'PROJECT', 'TASK', 'COMMENT', 'MESSAGE'] as const
+export type SearchType = typeof SEARCH_TYPES[number]
+
+// ts_headline wraps matches in these; they are split into segments below so
+// the client never has to render markup from user content
+const MATCH_START = '\u0002'
+const MATCH_END = '\u0003'
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`
+
+// Fallback titles for entities that don't have their own
+const UNTITLED: Record<SearchType, string> = {
+  PROPOSAL: 'Untitled proposal',
+  POST: 'Untitled post',
+  DOCUMENT: 'Untitled document',
+  PROJECT: 'Untitled project',
+  TASK: 'Untitled task',
+  COMMENT: 'Comment',
+  MESSAGE: 'Message',
+}
+
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+interface SearchScope {
+  bandId: string
+  userId: string
+  channelIds: string[]
+  categoryIds: string[]
+  folderIds: string[]
+}
+
+interface HitRow {
+  type: SearchType
+  id: string
+  title: string | null
+  context: string | null
+  path: string
+  status: string | null
+  authorId: string | null
+  authorName: string | null
+  createdAt: Date
+  rank: number
+  headline: string | null
+}
+
+/**
+ * Work out which channels, post categories and document folders the member
+ * can see. Everything else in a band is visible to all of its members,
+ * except proposal drafts, which only their author sees.
+ */
+async function getSearchScope(bandId: string, userId: string, role: MemberRole): Promise<SearchScope> {
+  const [channels, categories, folderTree] = await Promise.all([
+    prisma.channel.findMany({
+      where: {
+        bandId,
+        isArchived: false,
+        OR: [
+          { kind: 'BAND' },
+          { kind: 'DIRECT', participants: { some: { userId, leftAt: null } } },
+        ],
+      },
+      select: { id: true, kind: true, visibility: true },
+    }),
+    prisma.postCategory.findMany({
+      where: { bandId },
+      select: { id: true, visibility: true },
+    }),
+    loadBandFolders(bandId),
+  ])
+
+  return {
+    bandId,
+    userId,
+    channelIds: channels
+      .filter(c => c.kind === 'DIRECT' || canAccessChannel(role, c.visibility))
+      .map(c => c.id),
+    categoryIds: categories.filter(c => canAccessPostCategory(role, c.visibility)).map(c => c.id),
+    folderIds: folderTree.folders
+      .filter(f => permissionsForRole(folderTree.roles.get(f.id), role).canView)
+      .map(f => f.id),
+  }
+}
+
+/**
+ * One SELECT per entity type, all returning the same columns so they can be
+ * UNIONed: type, id, title, body, context, path (relative to the band page),
+ * status, authorId, createdAt and rank.
+ */
+function entityQuery(type: SearchType, scope: SearchScope): Prisma.Sql | null {
+  const { bandId, userId } = scope
+
+  switch (type) {
+    case 'PROPOSAL':
+      return Prisma.sql`
+        SELECT 'PROPOSAL' AS type, p.id, p.title, p.description AS body, NULL::text AS context,
+          '/proposals/' || p.id AS path, p.status::text AS status, p."createdById" AS "authorId",
+          p."createdAt", ts_rank_cd(p."searchVector", q.query) AS rank
+        FROM "Proposal" p, q
+        WHERE p."bandId" = ${bandId}
+          AND p."searchVector" @@ q.query
+          AND (p.status <> 'DRAFT' OR p."createdById" = ${userId})`
+
+    case 'POST':
+      if (scope.categoryIds.length === 0) return null
+      return Prisma.sql`
+        SELECT 'POST' AS type, po.id, po.title, po.content AS body, pc.name AS context,
+          '/posts/' || pc.slug || '/' || po.slug AS path, NULL::text AS status, po."authorId",
+          po."createdAt", ts_rank_cd(po."searchVector", q.query) AS rank
+        FROM "Post" po
+        JOIN "PostCategory" pc ON pc.id = po."categoryId", q
+        WHERE po."bandId" = ${bandId}
+          AND po."categoryId" IN (${Prisma.join(scope.categoryIds)})
+          AND po."deletedAt" IS NULL
+          AND po."searchVector" @@ q.query`
+
+    case 'DOCUMENT':
+      if (scope.folderIds.length === 0) return null
+      return Prisma.sql`
+        SELECT 'DOCUMENT' AS type, d.id, d.title, concat_ws(E'\n', d.description, d."extractedText") AS body, df.name AS context,
+          '/documents/' || df.slug AS path, NULL::text AS status, d."uploadedById" AS "authorId",
+          d."createdAt", ts_rank_cd(d."searchVector", q.query) AS rank
+        FROM "Document" d
+        JOIN "DocumentFolder" df ON df.id = d."folderId", q
+        WHERE d."bandId" = ${bandId}
+          AND d."folderId" IN (${Prisma.join(scope.folderIds)})
+          AND d."deletedAt" IS NULL
+          AND d."searchVector" @@ q.query`
+
+    case 'PROJECT':
+      return Prisma.sql`
+        SELECT 'PROJECT' AS type, pj.id, pj.name AS title, pj.description AS body, NULL::text AS context,
+          '/projects/' || pj.id AS path, pj.status::text AS status, pj."createdById" AS "authorId",
+          pj."createdAt", ts_rank_cd(pj."searchVector", q.query) AS rank
+        FROM "Project" pj, q
+        WHERE pj."bandId" = ${bandId}
+          AND pj."searchVector" @@ q.query`
+
+    case 'TASK':
+      return Prisma.sql`
+        SELECT 'TASK' AS type, t.id, t.name AS title, t.description AS body, pj.name AS context,
+          '/tasks/' || t.id AS path, t.status::text AS status, t."createdById" AS "authorId",
+          t."createdAt", ts_rank_cd(t."searchVector", q.query) AS rank
+        FROM "Task" t
+        JOIN "Project" pj ON pj.id = t."projectId", q
+        WHERE t."bandId" = ${bandId}
+          AND t."searchVector" @@ q.query`
+
+    case 'COMMENT': {
+      // Comments on proposals, projects and tasks, plus responses to posts
+      const postResponses = scope.categoryIds.length === 0 ? Prisma.empty : Prisma.sql`
+        UNION ALL
+        SELECT 'COMMENT' AS type, r.id, NULL::text AS title, r.content AS body, po.title AS context,
+          '/posts/' || pc.slug || '/' || po.slug AS path, NULL::text AS status, r."authorId",
+          r."createdAt", ts_rank_cd(r."searchVector", q.query) AS rank
+        FROM "PostResponse" r
+        JOIN "Post" po ON po.id = r."postId"
+        JOIN "PostCategory" pc ON pc.id = po."categoryId", q
+        WHERE po."bandId" = ${bandId}
+          AND po."categoryId" IN (${Prisma.join(scope.categoryIds)})
+          AND po."deletedAt" IS NULL
+          AND r."deletedAt" IS NULL
+          AND r."searchVector" @@ q.query`
+
+      return Prisma.sql`
+        SELECT 'COMMENT' AS type, c.id, NULL::text AS title, c.content AS body,
+          COALESCE(p.title, pj.name, t.name) AS context,
+          CASE
+            WHEN p.id IS NOT NULL THEN '/proposals/' || p.id
+            WHEN pj.id IS NOT NULL THEN '/projects/' || pj.id
+            WHEN t.id IS NOT NULL THEN '/tasks/' || t.id
+            ELSE ''
+          END AS path,
+          NULL::text AS status, c."authorId", c."createdAt", ts_rank_cd(c."searchVector", q.query) AS rank
+        FROM "Comment" c
+        LEFT JOIN "Proposal" p ON p.id = c."proposalId"
+        LEFT JOIN "Project" pj ON pj.id = c."projectId"
+        LEFT JOIN "Task" t ON t.id = c."taskId", q
+        WHERE COALESCE(c."bandId", p."bandId", pj."bandId", t."bandId") = ${bandId}
+          AND c."deletedAt" IS NULL
+          AND (p.id IS NULL OR p.status <> 'DRAFT' OR p."createdById" = ${userId})
+          AND c."searchVector" @@ q.query
+        ${postResponses}`
+    }
+
+    case 'MESSAGE':
+      if (scope.channelIds.length === 0) return null
+      return Prisma.sql`
+        SELECT 'MESSAGE' AS type, m.id, NULL::text AS title, m.content AS body,
+          CASE WHEN ch.kind = 'DIRECT' THEN 'Direct message' ELSE '#' || ch.name END AS context,
+          CASE
+            WHEN ch.kind = 'DIRECT' THEN '/messages?conversation=' || ch.id
+            ELSE '?channel=' || ch.id || '&message=' || m.id
+          END AS path,
+          NULL::text AS status, m."authorId", m."createdAt", ts_rank_cd(m."searchVector", q.query) AS rank
+        FROM "Message" m
+        JOIN "Channel" ch ON ch.id = m."channelId", q
+        WHERE m."channelId" IN (${Prisma.join(scope.channelIds)})
+          AND m."deletedAt" IS NULL
+          AND m."moderationStatus" = 'APPROVED'
+          AND m."searchVector" @@ q.query`
+  }
+}
+
+/**
+ * Split a ts_headline result into plain and matched segments
+ */
+function toSegments(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  for (const part of headline.split(MATCH_START)) {
+    const end = part.indexOf(MATCH_END)
+    if (end === -1) {
+      if (part) segments.push({ text: part, match: false })
+      continue
+    }
+    segments.push({ text: part.slice(0, end), match: true })
+    if (end + 1 < part.length) segments.push({ text: part.slice(end + 1), match: false })
+  }
+  return segments
+}
+
+/**
+ * Search everything in a band the caller can see: proposals, posts,
+ * documents, projects, tasks, comments and messages. Results are ranked by
+ * Postgres full-text relevance (title matches first), with highlighted
+ * snippets and a per-type count for the unfiltered types.
+ */
+export const searchBand = bandMemberProcedure
+  .input(z.object({
+    query: z.string().trim().min(1).max(200),
+    types: z.array(z.enum(SEARCH_TYPES)).optional(),
+    authorId: z.string().optional(),
+    status: z.string().optional(),
+    dateFrom: z.string().optional(), // ISO date string
+    dateTo: z.string().optional(), // ISO date string
+    limit: z.number().min(1).max(50).default(20),
+    offset: z.number().min(0).default(0),
+  }))
+  .query(async ({ ctx, input }) => {
+    const { bandId, query, authorId, status, limit, offset } = input
+    const dateFrom = input.dateFrom ? new Date(input.dateFrom) : null
+    const dateTo = input.dateTo ? new Date(input.dateTo) : null
+
+    if ((dateFrom && isNaN(dateFrom.getTime())) || (dateTo && isNaN(dateTo.getTime()))) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Invalid date filter',
+      })
+    }
+
+    const band = await prisma.band.findUnique({
+      where: { id: bandId },
+      select: { slug: true },
+    })
+    if (!band) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'Band not found',
+      })
+    }
+
+    const scope = await getSearchScope(bandId, ctx.userId, ctx.member.role)
+
+    const filters: Prisma.Sql[] = []
+    if (authorId) filters.push(Prisma.sql`h."authorId" = ${authorId}`)
+    if (status) filters.push(Prisma.sql`h.status = ${status}`)
+    if (dateFrom) filters.push(Prisma.sql`h."createdAt" >= ${dateFrom}`)
+    if (dateTo) filters.push(Prisma.sql`h."createdAt" <= ${dateTo}`)
+    const where = filters.length > 0 ? Prisma.sql`WHERE ${Prisma.join(filters, ' AND ')}` : Prisma.empty
+
+    const hitsFor = (types: readonly SearchType[]) => {
+      const parts = types
+        .map(type => entityQuery(type, scope))
+        .filter((part): part is Prisma.Sql => part !== null)
+      if (parts.length === 0) return null
+      return Prisma.sql`
+        WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS query)
+        SELECT * FROM (${Prisma.join(parts, ' UNION ALL ')}) h
+        ${where}`
+    }
+
+    const countHits = hitsFor(SEARCH_TYPES)
+    const selectedTypes: readonly SearchType[] = input.types?.length ? input.types : SEARCH_TYPES
+    const pageHits = hitsFor(selectedTypes)
+
+    const counts = Object.fromEntries(SEARCH_TYPES.map(type => [type, 0])) as Record<SearchType, number>
+
+    try {
+      if (countHits) {
+        const countRows = await prisma.$queryRaw<{ type: SearchType; total: bigint }[]>`
+          SELECT hits.type, COUNT(*) AS total FROM (${countHits}) hits GROUP BY hits.type`
+        for (const row of countRows) {
+          counts[row.type] = Number(row.total)
+        }
+      }
+
+      const rows = pageHits
+        ? await prisma.$queryRaw<HitRow[]>`
+            WITH page AS (
+              SELECT hits.*, u.name AS "authorName"
+              FROM (${pageHits}) hits
+              LEFT JOIN "User" u ON u.id = hits."authorId"
+              ORDER BY hits.rank DESC, hits."createdAt" DESC
+              LIMIT ${limit} OFFSET ${offset}
+            )
+            SELECT page.type, page.id, page.title, page.context, page.path, page.status,
+              page."authorId", page."authorName", page."createdAt", page.rank,
+              ts_headline('english', COALESCE(NULLIF(page.body, ''), page.title, ''),
+                websearch_to_tsquery('english', ${query}), ${HEADLINE_OPTIONS}) AS headline
+            FROM page
+            ORDER BY page.rank DESC, page."createdAt" DESC`
+        : []
+
+      return {
+        results: rows.map(row => ({
+          type: row.type,
+          id: row.id,
+          title: row.title || UNTITLED[row.type],
+          context: row.context,
+          snippet: toSegments(row.headline || ''),
+          status: row.status,
+          author: row.authorId ? { id: row.authorId, name: row.authorName } : null,
+          createdAt: row.createdAt,
+          url: `/bands/${band.slug}${row.path}`,
+          rank: Number(row.rank),
+        })),
+        total: selectedTypes.reduce((sum, type) => sum + counts[type], 0),
+        counts,
+      }
+    } catch (error) {
+      console.error('Band search failed:', error)
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Search failed',
+      })
+    }
+  })
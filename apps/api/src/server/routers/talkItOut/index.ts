@@ -1,63 +1,67 @@
 import { z } from 'zod'
 import { TalkItOutGoal } from '@prisma/client'
-import { router, publicProcedure } from '../../trpc'
+import { router, protectedProcedure } from '../../trpc'
 import * as talkItOutService from '../../../services/talk-it-out.service'
+import { subscribeToTalkItOut } from '../../../lib/realtime'
 
 const goalSchema = z.nativeEnum(TalkItOutGoal)
 
 export const talkItOutRouter = router({
-  listMySessions: publicProcedure
-    .input(z.object({ userId: z.string() }))
-    .query(async ({ input }) => talkItOutService.listSessionsForUser(input.userId)),
+  listMySessions: protectedProcedure
+    .query(async ({ ctx }) => talkItOutService.listSessionsForUser(ctx.userId)),
 
-  getSession: publicProcedure
-    .input(z.object({ sessionId: z.string(), userId: z.string() }))
-    .query(async ({ input }) => talkItOutService.getSessionForUser(input.sessionId, input.userId)),
+  getSession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .query(async ({ ctx, input }) => talkItOutService.getSessionForUser(input.sessionId, ctx.userId)),
 
-  searchInviteUsers: publicProcedure
+  onSessionEvents: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      await talkItOutService.assertSessionAccess(input.sessionId, ctx.userId)
+      yield* subscribeToTalkItOut(input.sessionId, signal)
+    }),
+
+  searchInviteUsers: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         query: z.string(),
         bandId: z.string().nullable().optional(),
       })
     )
-    .query(async ({ input }) =>
+    .query(async ({ ctx, input }) =>
       talkItOutService.searchUsersToInvite(
-        input.userId,
+        ctx.userId,
         input.query,
         input.bandId ?? null
       )
     ),
 
-  previewTopicBrief: publicProcedure
+  previewTopicBrief: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         topic: z.string().min(8).max(500),
         goal: goalSchema,
         bandId: z.string().nullable().optional(),
       })
     )
-    .mutation(async ({ input }) =>
+    .mutation(async ({ ctx, input }) =>
       talkItOutService.previewTopicBrief({
-        userId: input.userId,
+        userId: ctx.userId,
         topic: input.topic,
         goal: input.goal,
         bandId: input.bandId ?? null,
       })
     ),
 
-  refreshTopicBrief: publicProcedure
-    .input(z.object({ sessionId: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) =>
-      talkItOutService.refreshSessionTopicBrief(input.sessionId, input.userId)
+  refreshTopicBrief: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      talkItOutService.refreshSessionTopicBrief(input.sessionId, ctx.userId)
     ),
 
-  createSession: publicProcedure
+  createSession: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         topic: z.string().min(3).max(500),
         goal: goalSchema,
         maxParticipants: z.number().min(2).max(15).optional(),
@@ -65,9 +69,9 @@ export const talkItOutRouter = router({
         inviteeUserIds: z.array(z.string()).min(1),
       })
     )
-    .mutation(async ({ input }) =>
+    .mutation(async ({ ctx, input }) =>
       talkItOutService.createSession({
-        userId: input.userId,
+        userId: ctx.userId,
         topic: input.topic,
         goal: input.goal,
         maxParticipants: input.maxParticipants,
@@ -76,55 +80,53 @@ export const talkItOutRouter = router({
       })
     ),
 
-  joinSession: publicProcedure
-    .input(z.object({ sessionId: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) =>
-      talkItOutService.joinSession(input.sessionId, input.userId)
+  joinSession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      talkItOutService.joinSession(input.sessionId, ctx.userId)
     ),
 
-  startSession: publicProcedure
-    .input(z.object({ sessionId: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) =>
-      talkItOutService.startSession(input.sessionId, input.userId)
+  startSession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      talkItOutService.startSession(input.sessionId, ctx.userId)
     ),
 
-  sendMessage: publicProcedure
+  sendMessage: protectedProcedure
     .input(
       z.object({
         sessionId: z.string(),
-        userId: z.string(),
         content: z.string().min(1).max(8000),
       })
     )
-    .mutation(async ({ input }) =>
-      talkItOutService.sendUserMessage(input.sessionId, input.userId, input.content)
+    .mutation(async ({ ctx, input }) =>
+      talkItOutService.sendUserMessage(input.sessionId, ctx.userId, input.content)
     ),
 
-  closeSession: publicProcedure
-    .input(z.object({ sessionId: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) =>
-      talkItOutService.closeSession(input.sessionId, input.userId)
+  closeSession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      talkItOutService.closeSession(input.sessionId, ctx.userId)
     ),
 
-  updateSummaryDraft: publicProcedure
+  updateSummaryDraft: protectedProcedure
     .input(
       z.object({
         sessionId: z.string(),
-        userId: z.string(),
         summaryDraft: z.string().min(1).max(50000),
       })
     )
-    .mutation(async ({ input }) =>
+    .mutation(async ({ ctx, input }) =>
       talkItOutService.updateSummaryDraft(
         input.sessionId,
-        input.userId,
+        ctx.userId,
         input.summaryDraft
       )
     ),
 
-  finalizeSummary: publicProcedure
-    .input(z.object({ sessionId: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) =>
-      talkItOutService.finalizeSummary(input.sessionId, input.userId)
+  finalizeSummary: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      talkItOutService.finalizeSummary(input.sessionId, ctx.userId)
     ),
 })
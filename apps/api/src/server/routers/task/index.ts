@@ -1,4 +1,4 @@
-import { router, publicProcedure } from '../../trpc'
+import { router, adminProcedure } from '../../trpc'
 import { createTask } from './task.create'
 import { deleteTask } from './task.delete'
 import { getTasksByProject, getTaskById, getTasksByBand, getMyTasks, getMyProjectTasks, getClaimableTasks } from './task.query'
@@ -47,7 +47,7 @@ export const taskRouter = router({
   suggestTasks: suggestTasks,
 
   // Admin/Testing
-  triggerEscalation: publicProcedure.mutation(async () => {
+  triggerEscalation: adminProcedure.mutation(async () => {
     const result = await runTaskEscalationJob()
     return result
   }),
@@ -1,8 +1,8 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
-import { callAI, parseAIJson } from '../../../lib/ai-client'
+import { callAI, parseAIJson } from '../../../lib/ai'
 
 // Roles that can use AI suggestions
 const CAN_USE_AI = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
@@ -16,13 +16,13 @@ interface TaskSuggestion {
   requiresVerification: boolean
 }
 
-export const suggestTasks = publicProcedure
+export const suggestTasks = protectedProcedure
   .input(z.object({
     projectId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { projectId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { projectId } = input
+    const { userId } = ctx
 
     // Get project with full details
     const project = await prisma.project.findUnique({
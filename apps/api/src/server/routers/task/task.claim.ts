@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { requireGoodStanding } from '../../../lib/dues-enforcement'
@@ -24,13 +24,13 @@ function canClaimWithRole(userRole: MemberRole, minClaimRole: MemberRole | null)
 /**
  * Claim an unassigned task
  */
-export const claimTask = publicProcedure
+export const claimTask = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId } = input
+    const { userId } = ctx
 
     // Get task with band membership info
     const task = await prisma.task.findUnique({
@@ -154,14 +154,14 @@ export const claimTask = publicProcedure
 /**
  * Unclaim a task you've claimed
  */
-export const unclaimTask = publicProcedure
+export const unclaimTask = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     reason: z.string().max(500).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId, reason } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId, reason } = input
+    const { userId } = ctx
 
     const task = await prisma.task.findUnique({
       where: { id: taskId },
@@ -247,14 +247,14 @@ export const unclaimTask = publicProcedure
 /**
  * Retry a rejected task (resubmit for verification)
  */
-export const retryTask = publicProcedure
+export const retryTask = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     note: z.string().max(1000).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId, note } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId, note } = input
+    const { userId } = ctx
 
     const task = await prisma.task.findUnique({
       where: { id: taskId },
@@ -360,17 +360,17 @@ export const retryTask = publicProcedure
 /**
  * Update task context (Conductor+)
  */
-export const updateTaskContext = publicProcedure
+export const updateTaskContext = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     contextPhone: z.boolean().optional(),
     contextComputer: z.boolean().optional(),
     contextTravel: z.boolean().optional(),
     contextTimeMinutes: z.number().min(1).max(480).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId, ...contextUpdates } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId, ...contextUpdates } = input
+    const { userId } = ctx
 
     const task = await prisma.task.findUnique({
       where: { id: taskId },
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
@@ -11,7 +11,7 @@ import { MIN_MEMBERS_TO_ACTIVATE } from '@band-it/shared'
 // Roles that can create tasks
 const CAN_CREATE_TASK = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const createTask = publicProcedure
+export const createTask = protectedProcedure
   .input(z.object({
     projectId: z.string(),
     name: z.string().min(1, 'Task name is required').max(200),
@@ -26,24 +26,24 @@ export const createTask = publicProcedure
     requiresDeliverable: z.boolean().optional().default(true),
     tags: z.array(z.string()).optional(),
     orderIndex: z.number().int().optional(),
-    userId: z.string(),
     aiGenerated: z.boolean().optional().default(false),
     // Integrity Guard flags - set when user proceeds despite warnings
     proceedWithFlags: z.boolean().optional(),
     flagReasons: z.array(z.string()).optional(),
     flagDetails: z.any().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     // Check dues standing
     const bandId = await getBandIdFromProject(input.projectId)
-    await requireGoodStanding(bandId, input.userId)
+    await requireGoodStanding(bandId, ctx.userId)
 
     const {
       projectId, name, description, priority, assigneeId, assigneeType,
       dueDate, estimatedHours, estimatedCost, requiresVerification, requiresDeliverable,
-      tags, orderIndex, userId, aiGenerated,
+      tags, orderIndex, aiGenerated,
       proceedWithFlags, flagReasons, flagDetails
     } = input
+    const { userId } = ctx
 
     // Set integrity flags in audit context if user proceeded with warnings
     if (proceedWithFlags && flagReasons && flagReasons.length > 0) {
@@ -1,18 +1,18 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 
 // Roles that can delete tasks
 const CAN_DELETE_TASK = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const deleteTask = publicProcedure
+export const deleteTask = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId } = input
+    const { userId } = ctx
 
     // Get the task with project and band info
     const task = await prisma.task.findUnique({
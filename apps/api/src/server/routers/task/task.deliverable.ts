@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { requireGoodStanding, getBandIdFromTask } from '../../../lib/dues-enforcement'
@@ -10,16 +10,16 @@ const linkSchema = z.object({
   title: z.string().min(1).max(100),
 })
 
-export const updateDeliverable = publicProcedure
+export const updateDeliverable = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     summary: z.string().min(30, 'Summary must be at least 30 characters').max(5000),
     links: z.array(linkSchema).optional(),
     nextSteps: z.string().max(2000).optional().nullable(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId, summary, links, nextSteps } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId, summary, links, nextSteps } = input
+    const { userId } = ctx
 
     // Check dues standing
     const enforcementBandId = await getBandIdFromTask(taskId)
@@ -146,14 +146,14 @@ export const getDeliverable = publicProcedure
     }
   })
 
-export const attachFileToDeliverable = publicProcedure
+export const attachFileToDeliverable = protectedProcedure
   .input(z.object({
     deliverableId: z.string(),
     fileId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { deliverableId, fileId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { deliverableId, fileId } = input
+    const { userId } = ctx
 
     // Get deliverable with task
     const deliverable = await prisma.taskDeliverable.findUnique({
@@ -217,13 +217,13 @@ export const attachFileToDeliverable = publicProcedure
     return { file: updatedFile }
   })
 
-export const removeFileFromDeliverable = publicProcedure
+export const removeFileFromDeliverable = protectedProcedure
   .input(z.object({
     fileId: z.string(),
-    userId: z.string(),
   }))
-  .mutation(async ({ input }) => {
-    const { fileId, userId } = input
+  .mutation(async ({ ctx, input }) => {
+    const { fileId } = input
+    const { userId } = ctx
 
     // Get file with deliverable and task
     const file = await prisma.file.findUnique({
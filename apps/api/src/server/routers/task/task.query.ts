@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { publicProcedure, protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { MemberRole } from '@prisma/client'
@@ -146,13 +146,13 @@ export const getTasksByBand = publicProcedure
     return { tasks }
   })
 
-export const getMyTasks = publicProcedure
+export const getMyTasks = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     status: z.enum(['TODO', 'IN_PROGRESS', 'IN_REVIEW', 'COMPLETED', 'BLOCKED']).optional(),
   }))
-  .query(async ({ input }) => {
-    const { userId, status } = input
+  .query(async ({ ctx, input }) => {
+    const { status } = input
+    const { userId } = ctx
 
     // Get bands where user is still an active member
     const activeMemberships = await prisma.member.findMany({
@@ -192,13 +192,13 @@ export const getMyTasks = publicProcedure
 /**
  * Get tasks in projects where user is creator or lead (only from active bands)
  */
-export const getMyProjectTasks = publicProcedure
+export const getMyProjectTasks = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     status: z.enum(['TODO', 'IN_PROGRESS', 'IN_REVIEW', 'COMPLETED', 'BLOCKED']).optional(),
   }))
-  .query(async ({ input }) => {
-    const { userId, status } = input
+  .query(async ({ ctx, input }) => {
+    const { status } = input
+    const { userId } = ctx
 
     // Get bands where user is still an active member
     const activeMemberships = await prisma.member.findMany({
@@ -249,9 +249,8 @@ export const getMyProjectTasks = publicProcedure
  * - Respects minClaimRole visibility
  * - Not completed/confirmed
  */
-export const getClaimableTasks = publicProcedure
+export const getClaimableTasks = protectedProcedure
   .input(z.object({
-    userId: z.string(),
     bandId: z.string().optional(), // Filter to specific band
     contextPhone: z.boolean().optional(),
     contextComputer: z.boolean().optional(),
@@ -259,8 +258,9 @@ export const getClaimableTasks = publicProcedure
     maxTimeMinutes: z.number().optional(),
     limit: z.number().min(1).max(50).optional(),
   }))
-  .query(async ({ input }) => {
-    const { userId, bandId, contextPhone, contextComputer, contextTravel, maxTimeMinutes, limit = 20 } = input
+  .query(async ({ ctx, input }) => {
+    const { bandId, contextPhone, contextComputer, contextTravel, maxTimeMinutes, limit = 20 } = input
+    const { userId } = ctx
 
     // Get user's active memberships with roles
     const memberships = await prisma.member.findMany({
@@ -1,19 +1,19 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
 import { setAuditFlags, clearAuditFlags } from '../../../lib/auditContext'
 import { requireGoodStanding, getBandIdFromTask } from '../../../lib/dues-enforcement'
 import { checkAndAdvanceOnboarding } from '../../../lib/onboarding/milestones'
+import { webhookService } from '../../../services/webhook.service'
 
 // Roles that can update any task
 const CAN_UPDATE_ANY_TASK = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 
-export const updateTask = publicProcedure
+export const updateTask = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     // Optional fields to update
     name: z.string().min(1).max(200).optional(),
     description: z.string().optional().nullable(),
@@ -34,17 +34,18 @@ export const updateTask = publicProcedure
     flagReasons: z.array(z.string()).optional(),
     flagDetails: z.any().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     // Check dues standing
     const enforcementBandId = await getBandIdFromTask(input.taskId)
-    await requireGoodStanding(enforcementBandId, input.userId)
+    await requireGoodStanding(enforcementBandId, ctx.userId)
 
     const {
-      taskId, userId, name, description, status, priority,
+      taskId, name, description, status, priority,
       assigneeId, assigneeType, dueDate, estimatedHours, actualHours,
       estimatedCost, actualCost, requiresVerification, tags, orderIndex,
       proceedWithFlags, flagReasons, flagDetails
     } = input
+    const { userId } = ctx
 
     // Set integrity flags in audit context if user proceeded with warnings
     if (proceedWithFlags && flagReasons && flagReasons.length > 0) {
@@ -251,6 +252,13 @@ export const updateTask = publicProcedure
       checkAndAdvanceOnboarding(task.bandId).catch(err =>
         console.error('Error checking onboarding:', err)
       )
+
+      webhookService.taskCompleted(task.bandId, {
+        id: updatedTask.id,
+        name: updatedTask.name,
+        project: updatedTask.project,
+        completedAt: updatedTask.completedAt ?? new Date(),
+      }).catch(err => console.error('Webhook error:', err))
     }
 
     // Clear flags to prevent leaking to other operations
@@ -1,24 +1,25 @@
 import { z } from 'zod'
-import { publicProcedure } from '../../trpc'
+import { protectedProcedure } from '../../trpc'
 import { prisma } from '../../../lib/prisma'
 import { TRPCError } from '@trpc/server'
 import { notificationService } from '../../../services/notification.service'
 import { requireGoodStanding, getBandIdFromTask } from '../../../lib/dues-enforcement'
 import { analyticsService } from '../../services/analytics.service'
+import { webhookService } from '../../../services/webhook.service'
 
 // Roles that can verify tasks
 const CAN_VERIFY_TASK = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
 
-export const submitForVerification = publicProcedure
+export const submitForVerification = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     proofDescription: z.string().optional(),
     attachments: z.array(z.string()).optional(),
     receiptUrls: z.array(z.string()).optional(),
   }))
-  .mutation(async ({ input }) => {
-    const { taskId, userId, proofDescription, attachments, receiptUrls } = input
+  .mutation(async ({ ctx, input }) => {
+    const { taskId, proofDescription, attachments, receiptUrls } = input
+    const { userId } = ctx
 
     // Get task with deliverable
     const task = await prisma.task.findUnique({
@@ -165,19 +166,19 @@ export const submitForVerification = publicProcedure
     return { task: updatedTask }
   })
 
-export const verifyTask = publicProcedure
+export const verifyTask = protectedProcedure
   .input(z.object({
     taskId: z.string(),
-    userId: z.string(),
     approved: z.boolean(),
     verificationNotes: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     // Check dues standing
     const enforcementBandId = await getBandIdFromTask(input.taskId)
-    await requireGoodStanding(enforcementBandId, input.userId)
+    await requireGoodStanding(enforcementBandId, ctx.userId)
 
-    const { taskId, userId, approved, verificationNotes } = input
+    const { taskId, approved, verificationNotes } = input
+    const { userId } = ctx
 
     // Get task
     const task = await prisma.task.findUnique({
@@ -265,6 +266,13 @@ export const verifyTask = publicProcedure
         userId: task.assigneeId || undefined,
         metadata: { taskId: task.id, projectId: task.projectId, bandId: task.bandId },
       })
+
+      webhookService.taskCompleted(task.bandId, {
+        id: updatedTask.id,
+        name: updatedTask.name,
+        project: updatedTask.project,
+        completedAt: updatedTask.completedAt ?? new Date(),
+      }).catch(err => console.error('Webhook error:', err))
     }
 
     // Notify assignee
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { router, publicProcedure } from '../trpc'
+import { router, bandMemberProcedure } from '../trpc'
 import { validateContent, EntityType } from '../../services/validation.service'
 
 const entityTypeEnum = z.enum(['Proposal', 'Project', 'Task', 'ChecklistItem'])
@@ -19,12 +19,10 @@ export const validationRouter = router({
    * 3. If canProceed is true but issues exist, show warning modal - user can choose to proceed
    * 4. If proceeding with warnings, pass proceedWithFlags=true to the create/update mutation
    */
-  check: publicProcedure
+  check: bandMemberProcedure
     .input(z.object({
       entityType: entityTypeEnum,
       action: actionEnum,
-      bandId: z.string(),
-      userId: z.string().optional(),
       entityId: z.string().optional(),
       data: z.object({
         title: z.string().optional(),
@@ -33,12 +31,12 @@ export const validationRouter = router({
       }).passthrough(), // Allow additional fields
       parentId: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const result = await validateContent({
         entityType: input.entityType as EntityType,
         action: input.action,
         bandId: input.bandId,
-        userId: input.userId,
+        userId: ctx.userId,
         entityId: input.entityId,
         data: input.data,
         parentId: input.parentId,
@@ -1,8 +1,8 @@
 import { prisma } from '../../lib/prisma'
-import type { AIOperationType } from '../../lib/ai-client'
+import type { AIInstructableOperation, AIOperationType } from '../../lib/ai/types'
 
 // Map operation types to categories
-const OPERATION_CATEGORIES: Record<AIOperationType, 'generation' | 'validation' | 'help'> = {
+const OPERATION_CATEGORIES: Record<AIInstructableOperation, 'generation' | 'validation' | 'help'> = {
   proposal_draft: 'generation',
   proposal_validation: 'validation',
   project_validation: 'validation',
@@ -17,10 +17,17 @@ const OPERATION_CATEGORIES: Record<AIOperationType, 'generation' | 'validation'
   resume_parse: 'generation',
 }
 
+/**
+ * Whether bands can write instructions for an operation
+ */
+export function isInstructableOperation(operation: AIOperationType): operation is AIInstructableOperation {
+  return operation in OPERATION_CATEGORIES
+}
+
 /**
  * Get category for an operation type
  */
-export function getOperationCategory(operation: AIOperationType): 'generation' | 'validation' | 'help' {
+export function getOperationCategory(operation: AIInstructableOperation): 'generation' | 'validation' | 'help' {
   return OPERATION_CATEGORIES[operation]
 }
 
@@ -33,7 +40,7 @@ export function getOperationCategory(operation: AIOperationType): 'generation' |
  */
 export async function getInstructionsForOperation(
   bandId: string,
-  operation: AIOperationType
+  operation: AIInstructableOperation
 ): Promise<string[]> {
   const category = getOperationCategory(operation)
 
@@ -77,7 +84,7 @@ export async function createInstruction(data: {
   bandId: string
   createdById: string
   instruction: string
-  operation?: AIOperationType
+  operation?: AIInstructableOperation
   category?: 'generation' | 'validation' | 'help'
 }) {
   return prisma.aIInstruction.create({
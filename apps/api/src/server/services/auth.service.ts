@@ -1,14 +1,23 @@
 import { prisma } from '../../lib/prisma'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
 import { TRPCError } from '@trpc/server'
+import { SessionRevokedReason } from '@prisma/client'
 import { emailService } from './email.service'
 import { analyticsService } from './analytics.service'
-
-// JWT secret (in production, use environment variable)
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-const JWT_EXPIRES_IN = '7d' // Access token expires in 7 days (for development - implement refresh in production)
-const REFRESH_TOKEN_EXPIRES_IN = 30 * 24 * 60 * 60 * 1000 // 30 days in milliseconds
+import { twoFactorService } from './two-factor.service'
+import {
+  REFRESH_TOKEN_TTL_MS,
+  signAccessToken,
+  signRefreshToken,
+  signTwoFactorChallenge,
+  verifyAccessToken,
+  verifyRefreshToken,
+  verifyTwoFactorChallenge,
+} from '../../lib/auth-tokens'
+
+// Revoked and expired sessions are kept this long for the devices list, then pruned
+const REVOKED_SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+const CONCURRENT_REFRESH_GRACE_MS = 10 * 1000
 
 // Feature flags for testing/development
 const SKIP_EMAIL_VERIFICATION = process.env.SKIP_EMAIL_VERIFICATION === 'true'
@@ -21,6 +30,39 @@ function pendingInviteExpiresAfterCutoff(): Date {
   return new Date(Date.now() - PENDING_INVITE_GRACE_DAYS * 24 * 60 * 60 * 1000)
 }
 
+/** Where a sign-in or refresh came from */
+export interface SessionDevice {
+  ipAddress?: string
+  userAgent?: string
+}
+
+/**
+ * A short readable name for a user agent, e.g. "Chrome on macOS"
+ */
+function describeDevice(userAgent?: string): string | null {
+  if (!userAgent) return null
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /CrOS/.test(userAgent) ? 'ChromeOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null
+
+  if (browser && os) return `${browser} on ${os}`
+  return browser || os || 'Unknown device'
+}
+
 function isPendingInviteAttachable(
   invite: { expiresAt: Date; invalidatedAt: Date | null },
 ): boolean {
@@ -37,7 +79,7 @@ export const authService = {
    * @param guidelinesVersion - Version of community guidelines accepted
    * @param tosVersion - Version of Terms of Service/Privacy Policy accepted
    */
-  async register(email: string, password: string, name: string, inviteToken?: string, guidelinesVersion?: number, tosVersion?: number) {
+  async register(email: string, password: string, name: string, inviteToken?: string, guidelinesVersion?: number, tosVersion?: number, device: SessionDevice = {}) {
     const normalizedEmail = email.toLowerCase().trim()
 
     // Check if user already exists
@@ -88,7 +130,7 @@ export const authService = {
     })
 
     // Generate tokens (no default band membership)
-    const { accessToken, refreshToken } = await this.generateTokens(user.id)
+    const { accessToken, refreshToken } = await this.generateTokens(user.id, device)
 
     // Send verification email (skip if auto-verified)
     if (!SKIP_EMAIL_VERIFICATION) {
@@ -214,7 +256,7 @@ export const authService = {
   /**
    * Login user
    */
-  async login(email: string, password: string) {
+  async login(email: string, password: string, device: SessionDevice = {}) {
     const normalizedEmail = email.toLowerCase().trim()
 
     // Find user
@@ -247,6 +289,53 @@ export const authService = {
       })
     }
 
+    this.assertCanSignIn(user)
+
+    // With 2FA on, the password only earns a challenge; tokens come with the code
+    if (user.twoFactorEnabledAt) {
+      return {
+        twoFactorRequired: true as const,
+        challengeToken: signTwoFactorChallenge(user.id),
+      }
+    }
+
+    return this.completeLogin(user, device)
+  },
+
+  /**
+   * Second sign-in step for users with 2FA: the challenge from `login` plus an
+   * authenticator or recovery code
+   */
+  async loginWithTwoFactor(challengeToken: string, code: string, device: SessionDevice = {}) {
+    const challenge = verifyTwoFactorChallenge(challengeToken)
+    if (!challenge) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Your sign-in attempt has expired. Please sign in again.',
+      })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+    })
+
+    if (!user || user.deletedAt) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Your sign-in attempt has expired. Please sign in again.',
+      })
+    }
+
+    this.assertCanSignIn(user)
+    await twoFactorService.verifyCode(user.id, code)
+
+    return this.completeLogin(user, device, { twoFactorVerified: true })
+  },
+
+  /**
+   * Banned and currently suspended users can't sign in
+   */
+  assertCanSignIn(user: { bannedAt: Date | null; banReason: string | null; suspendedUntil: Date | null }) {
     // Check if user is banned
     if (user.bannedAt) {
       throw new TRPCError({
@@ -263,9 +352,18 @@ export const authService = {
         message: `Your account is suspended until ${suspendedUntilStr}. Please try again later.`,
       })
     }
+  },
 
+  /**
+   * Issue tokens once the user has fully proven who they are
+   */
+  async completeLogin(
+    user: { id: string; email: string; name: string; createdAt: Date; emailVerified: boolean; accessApproved: boolean; isAdmin: boolean },
+    device: SessionDevice,
+    options: { twoFactorVerified?: boolean } = {}
+  ) {
     // Generate tokens
-    const { accessToken, refreshToken } = await this.generateTokens(user.id)
+    const { accessToken, refreshToken } = await this.generateTokens(user.id, device, options)
 
     // Attach any pending invites (same email + grace window) — fixes users who registered without token
     const bandsInvited = await this.processPendingInvites(user.id, user.email)
@@ -276,6 +374,7 @@ export const authService = {
     })
 
     return {
+      twoFactorRequired: false as const,
       user: {
         id: user.id,
         email: user.email,
@@ -292,50 +391,171 @@ export const authService = {
   },
 
   /**
-   * Generate access and refresh tokens
+   * Start a new session for a device and issue its first tokens
    */
-  async generateTokens(userId: string) {
-    // Generate access token (short-lived)
-    const accessToken = jwt.sign({ userId }, JWT_SECRET, {
-      expiresIn: JWT_EXPIRES_IN,
+  async generateTokens(userId: string, device: SessionDevice = {}, options: { twoFactorVerified?: boolean } = {}) {
+    const now = new Date()
+
+    // Prune this user's long-dead sessions
+    const cutoff = new Date(now.getTime() - REVOKED_SESSION_RETENTION_MS)
+    await prisma.session.deleteMany({
+      where: {
+        userId,
+        OR: [
+          { expiresAt: { lt: cutoff } },
+          { revokedAt: { lt: cutoff } },
+        ],
+      },
     })
 
-    // Generate refresh token (long-lived) with timestamp to ensure uniqueness
-    const refreshToken = jwt.sign({ userId, timestamp: Date.now() }, JWT_SECRET, {
-      expiresIn: '30d',
+    const expiresAt = new Date(now.getTime() + REFRESH_TOKEN_TTL_MS)
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        userAgent: device.userAgent?.slice(0, 500),
+        deviceName: describeDevice(device.userAgent),
+        ipAddress: device.ipAddress?.slice(0, 64),
+        lastSeenAt: now,
+        expiresAt,
+        twoFactorVerifiedAt: options.twoFactorVerified ? now : null,
+      },
     })
 
-    // Delete old sessions for this user
-    await prisma.session.deleteMany({
-      where: { userId },
+    return {
+      accessToken: signAccessToken(userId, session.id),
+      refreshToken: signRefreshToken(userId, session.id, session.generation, expiresAt),
+    }
+  },
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token.
+   * The old refresh token stops working; presenting it again revokes the
+   * session, since only a copy of it could still be around.
+   */
+  async refreshTokens(refreshToken: string, device: SessionDevice = {}) {
+    const invalid = () => new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Your session has expired. Please sign in again.',
+    })
+
+    const decoded = verifyRefreshToken(refreshToken)
+    if (!decoded) throw invalid()
+
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sessionId },
+      include: {
+        user: {
+          select: { deletedAt: true, bannedAt: true, suspendedUntil: true },
+        },
+      },
     })
 
-    // Save new refresh token to database
-    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_IN)
-    await prisma.session.create({
+    if (!session || session.userId !== decoded.userId || session.revokedAt || session.expiresAt < new Date()) {
+      throw invalid()
+    }
+
+    if (decoded.generation !== session.generation) {
+      // Two tabs refreshing at the same moment isn't theft
+      const justRotated = decoded.generation === session.generation - 1 &&
+        Date.now() - session.lastSeenAt.getTime() < CONCURRENT_REFRESH_GRACE_MS
+      if (!justRotated) {
+        await this.revokeSession(session.id, 'TOKEN_REUSE')
+        console.warn(`Refresh token reuse detected for session ${session.id}; session revoked`)
+      }
+      throw invalid()
+    }
+
+    const { user } = session
+    if (user.deletedAt || user.bannedAt || (user.suspendedUntil && user.suspendedUntil > new Date())) {
+      await this.revokeSession(session.id, user.bannedAt ? 'BANNED' : 'SUSPENDED')
+      throw invalid()
+    }
+
+    // Only one concurrent refresh can win the rotation
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, generation: session.generation, revokedAt: null },
       data: {
+        generation: { increment: 1 },
+        lastSeenAt: new Date(),
+        ...(device.ipAddress ? { ipAddress: device.ipAddress.slice(0, 64) } : {}),
+        ...(device.userAgent
+          ? { userAgent: device.userAgent.slice(0, 500), deviceName: describeDevice(device.userAgent) }
+          : {}),
+      },
+    })
+
+    if (rotated.count === 0) throw invalid()
+
+    return {
+      accessToken: signAccessToken(session.userId, session.id),
+      refreshToken: signRefreshToken(session.userId, session.id, session.generation + 1, session.expiresAt),
+    }
+  },
+
+  /**
+   * Revoke one session. Requests with its access token are refused from then on.
+   */
+  async revokeSession(sessionId: string, reason: SessionRevokedReason) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    })
+  },
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   */
+  async revokeAllSessions(userId: string, reason: SessionRevokedReason, exceptSessionId?: string) {
+    const result = await prisma.session.updateMany({
+      where: {
         userId,
-        refreshToken,
-        expiresAt,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
       },
+      data: { revokedAt: new Date(), revokedReason: reason },
     })
+    return result.count
+  },
 
-    return { accessToken, refreshToken }
+  /**
+   * The user's signed-in devices, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+      select: {
+        id: true,
+        deviceName: true,
+        userAgent: true,
+        ipAddress: true,
+        lastSeenAt: true,
+        createdAt: true,
+      },
+    })
+
+    return sessions.map(session => ({
+      ...session,
+      isCurrent: session.id === currentSessionId,
+    }))
   },
 
   /**
    * Verify access token
    */
-  verifyAccessToken(token: string): { userId: string } {
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-      return decoded
-    } catch (error) {
+  verifyAccessToken(token: string): { userId: string; sessionId: string } {
+    const decoded = verifyAccessToken(token)
+    if (!decoded) {
       throw new TRPCError({
         code: 'UNAUTHORIZED',
         message: 'Invalid or expired token',
       })
     }
+    return decoded
   },
 
   /**
@@ -1,6 +1,8 @@
 import nodemailer from 'nodemailer'
 import { Resend } from 'resend'
+import { NotificationType } from '@prisma/client'
 import { prisma } from '../../lib/prisma'
+import { notificationTemplateService, renderTemplatePair } from '../../services/notification-template.service'
 
 // For development: Log emails to console
 // For production: Use Resend
@@ -1181,4 +1183,70 @@ export const emailService = {
       html,
     })
   },
-}
\ No newline at end of file
+
+  /**
+   * Send a notification by email, for types the user has email turned on for.
+   * Uses the type's email template in the user's language when every
+   * placeholder can be filled, otherwise the notification's title and message.
+   */
+  async sendNotificationEmail(options: {
+    email: string
+    userName: string
+    type: NotificationType
+    locale: string | null
+    values: Record<string, unknown>
+    title: string
+    message?: string | null
+    actionUrl?: string | null
+  }) {
+    const { email, userName, type, locale, values, title, message, actionUrl } = options
+    const settingsUrl = `${FRONTEND_URL}/user-dashboard/settings`
+    const linkUrl = actionUrl ? `${FRONTEND_URL}${actionUrl}` : `${FRONTEND_URL}/notifications`
+
+    const template = await notificationTemplateService.resolve(type, locale)
+    const rendered = template && renderTemplatePair(template.emailSubject, template.emailBody, values)
+
+    const content = rendered
+      ? rendered[1]
+          .split(/\n{2,}/)
+          .map(paragraph => `<p style="font-size: 14px; color: #374151;">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+          .join('\n')
+      : `<p style="font-size: 16px; color: #374151;">
+          Hi ${escapeHtml(userName)},
+        </p>
+        ${message ? `<p style="font-size: 14px; color: #374151;">${escapeHtml(message)}</p>` : ''}`
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #3B82F6;">${escapeHtml(rendered ? rendered[0] : title)}</h1>
+        ${content}
+        <div style="margin: 30px 0;">
+          <a href="${linkUrl}"
+             style="background-color: #3B82F6; color: white; padding: 12px 30px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: bold;">
+            View on Band IT
+          </a>
+        </div>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #E5E7EB;">
+        <p style="font-size: 12px; color: #9CA3AF;">
+          You're receiving this because email is on for this notification.
+          <a href="${settingsUrl}" style="color: #9CA3AF;">Change your notification settings</a>.
+        </p>
+      </div>
+    `
+
+    return this.sendEmail({
+      to: email,
+      subject: rendered ? rendered[0] : title,
+      html,
+    })
+  },
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
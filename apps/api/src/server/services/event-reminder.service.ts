@@ -1,11 +1,18 @@
 import { prisma } from '../../lib/prisma'
 import { notificationService } from '../../services/notification.service'
+import { getUpcomingOccurrences, effectiveRSVPs } from '../../lib/event-occurrences'
+
+// Reminders are at most a few days ahead, so only the next week is scanned
+const REMINDER_LOOKAHEAD_DAYS = 7
 
 /**
  * Event Reminder Service
  *
  * Sends reminder notifications to event attendees before events start.
  * Should be called by a cron job (e.g., every 15 minutes)
+ *
+ * Recurring events are reminded per occurrence, to members whose answer for
+ * that occurrence (override or series default) is GOING or MAYBE.
  */
 export const eventReminderService = {
   /**
@@ -21,28 +28,40 @@ export const eventReminderService = {
     let processed = 0
     let notificationCount = 0
 
-    // Get all non-cancelled events that haven't passed yet
+    // Get all non-cancelled events (or series) that haven't passed yet
     const events = await prisma.event.findMany({
       where: {
         isCancelled: false,
         parentEventId: null, // Only main events, not exceptions
-        startTime: { gt: now },
+        OR: [
+          { startTime: { gt: now } },
+          {
+            recurrenceRule: { not: null },
+            OR: [{ recurrenceEndDate: null }, { recurrenceEndDate: { gt: now } }],
+          },
+        ],
       },
       include: {
         band: {
           select: { id: true, name: true, slug: true }
         },
         rsvps: {
-          where: { status: { in: ['GOING', 'MAYBE'] } },
-          select: { userId: true }
+          select: { userId: true, status: true, occurrenceDate: true }
+        },
+        exceptions: {
+          where: { exceptionDate: { not: null } },
+          select: { exceptionDate: true, startTime: true, isCancelled: true }
         }
       }
     })
 
     for (const event of events) {
+      const occurrence = nextOccurrence(event, now)
+      if (!occurrence) continue
+
       // Check each reminder hour
       for (const reminderHour of event.reminderHours) {
-        const reminderTime = new Date(event.startTime.getTime() - (reminderHour * 60 * 60 * 1000))
+        const reminderTime = new Date(occurrence.startTime.getTime() - (reminderHour * 60 * 60 * 1000))
 
         // If we're within 15 minutes of the reminder time (cron window)
         const timeDiff = reminderTime.getTime() - now.getTime()
@@ -53,10 +72,15 @@ export const eventReminderService = {
           event.lastReminderSentAt >= new Date(reminderTime.getTime() - 5 * 60 * 1000)
 
         if (isWithinWindow && !alreadySent) {
-          // Send reminders to all RSVP'd users
-          const timeUntil = formatTimeUntil(event.startTime)
-
-          const notificationPromises = event.rsvps.map(rsvp =>
+          // Send reminders to everyone going (or maybe) to this occurrence
+          const timeUntil = formatTimeUntil(occurrence.startTime)
+          const recipients = effectiveRSVPs(event.rsvps, occurrence.occurrenceDate)
+            .filter(r => r.status === 'GOING' || r.status === 'MAYBE')
+          const actionUrl = occurrence.occurrenceDate
+            ? `/bands/${event.band.slug}/calendar/${event.id}?occurrence=${occurrence.occurrenceDate.toISOString()}`
+            : `/bands/${event.band.slug}/calendar/${event.id}`
+
+          const notificationPromises = recipients.map(rsvp =>
             notificationService.create({
               userId: rsvp.userId,
               type: 'EVENT_REMINDER',
@@ -64,7 +88,7 @@ export const eventReminderService = {
               message: `"${event.title}" is starting in ${timeUntil}`,
               relatedId: event.id,
               relatedType: 'event',
-              actionUrl: `/bands/${event.band.slug}/calendar/${event.id}`,
+              actionUrl,
             })
           )
 
@@ -97,32 +121,52 @@ export const eventReminderService = {
       where: {
         isCancelled: false,
         parentEventId: null,
-        startTime: { gt: now },
+        OR: [
+          { startTime: { gt: now } },
+          {
+            recurrenceRule: { not: null },
+            OR: [{ recurrenceEndDate: null }, { recurrenceEndDate: { gt: now } }],
+          },
+        ],
       },
       select: {
         id: true,
         title: true,
         startTime: true,
+        recurrenceRule: true,
+        recurrenceEndDate: true,
         reminderHours: true,
         lastReminderSentAt: true,
-        _count: { select: { rsvps: true } }
+        rsvps: {
+          select: { userId: true, status: true, occurrenceDate: true }
+        },
+        exceptions: {
+          where: { exceptionDate: { not: null } },
+          select: { exceptionDate: true, startTime: true, isCancelled: true }
+        }
       }
     })
 
     const pending = []
 
     for (const event of events) {
+      const occurrence = nextOccurrence(event, now)
+      if (!occurrence) continue
+
       for (const reminderHour of event.reminderHours) {
-        const reminderTime = new Date(event.startTime.getTime() - (reminderHour * 60 * 60 * 1000))
+        const reminderTime = new Date(occurrence.startTime.getTime() - (reminderHour * 60 * 60 * 1000))
 
         if (reminderTime >= now && reminderTime <= windowEnd) {
           pending.push({
             eventId: event.id,
             title: event.title,
-            startTime: event.startTime,
+            startTime: occurrence.startTime,
+            occurrenceDate: occurrence.occurrenceDate,
             reminderHour,
             reminderTime,
-            rsvpCount: event._count.rsvps,
+            rsvpCount: effectiveRSVPs(event.rsvps, occurrence.occurrenceDate)
+              .filter(r => r.status === 'GOING' || r.status === 'MAYBE')
+              .length,
           })
         }
       }
@@ -153,3 +197,37 @@ function formatTimeUntil(eventTime: Date): string {
 
   return `${minutes} minute${minutes > 1 ? 's' : ''}`
 }
+
+/**
+ * The next time an event starts: its start time for a one-off event, or the
+ * next occurrence of a series (moved occurrences use their new start time)
+ */
+function nextOccurrence(
+  event: {
+    startTime: Date
+    recurrenceRule: string | null
+    recurrenceEndDate: Date | null
+    exceptions: { exceptionDate: Date | null; startTime: Date; isCancelled: boolean }[]
+  },
+  now: Date
+): { startTime: Date; occurrenceDate: Date | null } | null {
+  if (!event.recurrenceRule) {
+    return event.startTime > now ? { startTime: event.startTime, occurrenceDate: null } : null
+  }
+
+  const dates = getUpcomingOccurrences(event, now, {
+    count: 3,
+    withinDays: REMINDER_LOOKAHEAD_DAYS,
+    cancelledDates: event.exceptions.filter(e => e.isCancelled).map(e => e.exceptionDate!),
+  })
+
+  const occurrences = dates
+    .map(date => {
+      const moved = event.exceptions.find(e => e.exceptionDate?.getTime() === date.getTime())
+      return { startTime: moved?.startTime ?? date, occurrenceDate: date }
+    })
+    .filter(o => o.startTime > now)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+
+  return occurrences[0] ?? null
+}
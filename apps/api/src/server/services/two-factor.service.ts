@@ -0,0 +1,364 @@
+import { prisma } from '../../lib/prisma'
+import { TRPCError } from '@trpc/server'
+import { MemberRole } from '@prisma/client'
+import {
+  TwoFactorRequiredError,
+  TwoFactorRequirement,
+  buildOtpauthUrl,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '../../lib/two-factor'
+
+// A code entered this recently on the current device covers sensitive actions
+export const STEP_UP_WINDOW_MS = 10 * 60 * 1000
+
+// Wrong codes allowed before verification is locked for a while
+const MAX_FAILED_ATTEMPTS = 5
+const LOCKOUT_MS = 15 * 60 * 1000
+
+// Roles a band can require 2FA for; treasurers are covered via isTreasurer
+const OFFICER_ROLES: MemberRole[] = ['FOUNDER', 'GOVERNOR']
+
+function invalidCode() {
+  // Not UNAUTHORIZED: the web client treats that as an expired access token
+  return new TRPCError({
+    code: 'BAD_REQUEST',
+    message: 'Invalid verification code',
+  })
+}
+
+export const twoFactorService = {
+  /**
+   * Whether the user has 2FA on, how many recovery codes are left, and which
+   * of their bands require it
+   */
+  async getStatus(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorEnabledAt: true,
+        _count: {
+          select: { twoFactorRecoveryCodes: { where: { usedAt: null } } },
+        },
+      },
+    })
+
+    if (!user) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
+    }
+
+    return {
+      enabled: !!user.twoFactorEnabledAt,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user._count.twoFactorRecoveryCodes,
+      requiredBy: await this.getBandsRequiringTwoFactor(userId),
+    }
+  },
+
+  /**
+   * Bands where the user is an officer and the band requires officers to use 2FA
+   */
+  async getBandsRequiringTwoFactor(userId: string) {
+    const memberships = await prisma.member.findMany({
+      where: {
+        userId,
+        status: 'ACTIVE',
+        band: { requireOfficerTwoFactor: true, dissolvedAt: null },
+        OR: [
+          { role: { in: OFFICER_ROLES } },
+          { isTreasurer: true },
+        ],
+      },
+      select: {
+        band: { select: { id: true, name: true, slug: true } },
+      },
+    })
+
+    return memberships.map(membership => membership.band)
+  },
+
+  /**
+   * Start setting up 2FA: store a new secret (not yet in force) and return it
+   * for the authenticator app. Calling again replaces the pending secret.
+   */
+  async beginSetup(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactorEnabledAt: true },
+    })
+
+    if (!user) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Two-factor authentication is already enabled',
+      })
+    }
+
+    const secret = generateTotpSecret()
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: encryptSecret(secret),
+        twoFactorLastUsedStep: null,
+        twoFactorFailedAttempts: 0,
+        twoFactorLockedUntil: null,
+      },
+    })
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, user.email),
+    }
+  },
+
+  /**
+   * Finish setup by confirming a code from the app. Returns the recovery
+   * codes, which are only ever shown this once.
+   */
+  async enable(userId: string, code: string, sessionId?: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+    })
+
+    if (!user?.twoFactorSecret) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Start two-factor setup first',
+      })
+    }
+
+    if (user.twoFactorEnabledAt) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Two-factor authentication is already enabled',
+      })
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code.replace(/\s/g, ''))
+    if (step === null) {
+      throw invalidCode()
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: hashRecoveryCode(recoveryCode) })),
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabledAt: new Date(),
+          twoFactorLastUsedStep: step,
+          twoFactorFailedAttempts: 0,
+          twoFactorLockedUntil: null,
+        },
+      }),
+    ])
+
+    if (sessionId) {
+      await this.markSessionVerified(sessionId)
+    }
+
+    return { recoveryCodes }
+  },
+
+  /**
+   * Turn 2FA off. Refused while one of the user's bands requires it.
+   */
+  async disable(userId: string, code: string) {
+    const requiredBy = await this.getBandsRequiringTwoFactor(userId)
+    if (requiredBy.length > 0) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `Two-factor authentication is required by ${requiredBy.map(band => band.name).join(', ')}`,
+      })
+    }
+
+    await this.verifyCode(userId, code)
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+          twoFactorFailedAttempts: 0,
+          twoFactorLockedUntil: null,
+        },
+      }),
+    ])
+  },
+
+  /**
+   * Replace all recovery codes, e.g. after using several or losing the list
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.verifyCode(userId, code)
+
+    const recoveryCodes = generateRecoveryCodes()
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: hashRecoveryCode(recoveryCode) })),
+      }),
+    ])
+
+    return { recoveryCodes }
+  },
+
+  /**
+   * Check an authenticator code or a recovery code for a user with 2FA on.
+   * Each TOTP step and each recovery code is accepted once. Repeated failures
+   * lock verification for a while, since 6-digit codes are guessable.
+   */
+  async verifyCode(userId: string, code: string): Promise<'totp' | 'recovery'> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLockedUntil: true,
+      },
+    })
+
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Two-factor authentication is not enabled',
+      })
+    }
+
+    if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: 'Too many incorrect codes. Please wait a few minutes and try again.',
+      })
+    }
+
+    const trimmed = code.replace(/\s/g, '')
+
+    if (/^\d+$/.test(trimmed)) {
+      const step = verifyTotp(decryptSecret(user.twoFactorSecret), trimmed)
+      if (step !== null) {
+        // Conditional updates, so concurrent requests can't spend a code twice
+        const accepted = await prisma.user.updateMany({
+          where: {
+            id: userId,
+            OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+          },
+          data: { twoFactorLastUsedStep: step, twoFactorFailedAttempts: 0 },
+        })
+        if (accepted.count > 0) return 'totp'
+      }
+    } else {
+      const used = await prisma.twoFactorRecoveryCode.updateMany({
+        where: { userId, codeHash: hashRecoveryCode(trimmed), usedAt: null },
+        data: { usedAt: new Date() },
+      })
+      if (used.count > 0) {
+        await prisma.user.update({
+          where: { id: userId },
+          data: { twoFactorFailedAttempts: 0 },
+        })
+        return 'recovery'
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorFailedAttempts: { increment: 1 } },
+      select: { twoFactorFailedAttempts: true },
+    })
+    if (updated.twoFactorFailedAttempts >= MAX_FAILED_ATTEMPTS) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorFailedAttempts: 0,
+          twoFactorLockedUntil: new Date(Date.now() + LOCKOUT_MS),
+        },
+      })
+    }
+
+    throw invalidCode()
+  },
+
+  /**
+   * Record that the user just entered a code on this device
+   */
+  async markSessionVerified(sessionId: string) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { twoFactorVerifiedAt: new Date() },
+    })
+  },
+
+  /**
+   * What stands between the user and a sensitive action, if anything. Users
+   * with 2FA on need a recent code on this device. Users without it pass,
+   * unless the band requires 2FA of its officers and they are one.
+   */
+  async getStepUpRequirement(userId: string, sessionId: string | undefined, bandId?: string): Promise<TwoFactorRequirement | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorEnabledAt: true },
+    })
+
+    if (!user?.twoFactorEnabledAt) {
+      if (!bandId) return null
+
+      const member = await prisma.member.findUnique({
+        where: { userId_bandId: { userId, bandId } },
+        select: {
+          role: true,
+          isTreasurer: true,
+          band: { select: { requireOfficerTwoFactor: true } },
+        },
+      })
+
+      const isOfficer = !!member && (OFFICER_ROLES.includes(member.role) || member.isTreasurer)
+      return isOfficer && member.band.requireOfficerTwoFactor ? 'SETUP' : null
+    }
+
+    if (!sessionId) return 'STEP_UP'
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, twoFactorVerifiedAt: true },
+    })
+
+    const verifiedRecently = !!session?.twoFactorVerifiedAt &&
+      session.userId === userId &&
+      Date.now() - session.twoFactorVerifiedAt.getTime() < STEP_UP_WINDOW_MS
+
+    return verifiedRecently ? null : 'STEP_UP'
+  },
+
+  /**
+   * Guard for sensitive mutations (dissolving a band, moving money,
+   * confirming payments). Throws with a TwoFactorRequiredError cause, which
+   * clients read from `data.twoFactor` to prompt for a code and retry.
+   */
+  async requireStepUp(userId: string, sessionId: string | undefined, bandId?: string) {
+    const requirement = await this.getStepUpRequirement(userId, sessionId, bandId)
+    if (!requirement) return
+
+    const cause = new TwoFactorRequiredError(requirement)
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: cause.message,
+      cause,
+    })
+  },
+}
@@ -1,30 +1,36 @@
 import { initTRPC, TRPCError } from '@trpc/server'
 import { CreateExpressContextOptions } from '@trpc/server/adapters/express'
-import jwt from 'jsonwebtoken'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+import { z } from 'zod'
+import { Member } from '@prisma/client'
+import { prisma } from '../lib/prisma'
+import { verifySessionAccessToken } from '../lib/auth-tokens'
+import { TwoFactorRequiredError } from '../lib/two-factor'
 
 // Context type
 export interface Context {
   userId?: string
+  // The signed-in device the access token belongs to
+  sessionId?: string
   ipAddress?: string
   userAgent?: string
 }
 
 // Create context from Express request
-export function createContext({ req }: CreateExpressContextOptions): Context {
+export async function createContext({ req, info }: CreateExpressContextOptions): Promise<Context> {
   let userId: string | undefined
+  let sessionId: string | undefined
 
-  // Extract userId from Authorization header
+  // Extract userId from Authorization header. Subscriptions run over SSE, where
+  // EventSource can't set headers, so they send the token as a connection param.
   const authHeader = req.headers.authorization
-  if (authHeader?.startsWith('Bearer ')) {
-    const token = authHeader.slice(7)
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { userId: string }
-      userId = decoded.userId
-    } catch {
-      // Invalid token - continue without userId
-    }
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice(7)
+    : info?.connectionParams?.token
+  if (token) {
+    // Invalid token or revoked session - continue without userId
+    const decoded = await verifySessionAccessToken(token)
+    userId = decoded?.userId
+    sessionId = decoded?.sessionId
   }
 
   // Extract IP address (handle proxies)
@@ -38,21 +44,40 @@ export function createContext({ req }: CreateExpressContextOptions): Context {
 
   return {
     userId,
+    sessionId,
     ipAddress,
     userAgent,
   }
 }
 
-// Initialize tRPC with context
-const t = initTRPC.context<Context>().create()
+// Initialize tRPC with context. Subscriptions are served over SSE; pings keep
+// idle streams from being cut by proxies, and clients reconnect if they stop.
+// Errors carry `data.twoFactor` when an action needs 2FA setup or a fresh
+// code, so clients can prompt for it and retry.
+const t = initTRPC.context<Context>().create({
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        twoFactor: error.cause instanceof TwoFactorRequiredError ? error.cause.requirement : null,
+      },
+    }
+  },
+  sse: {
+    ping: { enabled: true, intervalMs: 15_000 },
+    client: { reconnectAfterInactivityMs: 30_000 },
+  },
+})
 
 // Export reusable router and procedure helpers
 export const router = t.router
 export const publicProcedure = t.procedure
 
 /**
- * Requires a valid authenticated user. The JWT is verified in `createContext`,
- * so a populated `ctx.userId` means the caller is who they claim to be. Use this
+ * Requires a valid authenticated user. The JWT and its session are verified in
+ * `createContext`, so a populated `ctx.userId` means the caller is who they
+ * claim to be and hasn't been signed out or banned since. Use this
  * for any user-scoped read/write so callers can't act on behalf of others.
  */
 const isAuthed = t.middleware(({ ctx, next }) => {
@@ -62,4 +87,55 @@ const isAuthed = t.middleware(({ ctx, next }) => {
   return next({ ctx: { ...ctx, userId: ctx.userId } })
 })
 
-export const protectedProcedure = t.procedure.use(isAuthed)
\ No newline at end of file
+export const protectedProcedure = t.procedure.use(isAuthed)
+
+/**
+ * Requires a platform admin. Replaces per-router `requireAdmin(input.userId)`
+ * checks, which trusted whichever id the client sent.
+ */
+const isAdmin = t.middleware(async ({ ctx, next }) => {
+  if (!ctx.userId) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be signed in.' })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: ctx.userId },
+    select: { isAdmin: true },
+  })
+
+  if (!user?.isAdmin) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' })
+  }
+
+  return next({ ctx: { ...ctx, userId: ctx.userId } })
+})
+
+export const adminProcedure = t.procedure.use(isAdmin)
+
+/**
+ * Loads the caller's ACTIVE membership in a band or throws FORBIDDEN.
+ * Procedures keyed by an entity (proposal, event, channel...) resolve the
+ * entity's `bandId` first and call this directly.
+ */
+export async function requireBandMember(userId: string, bandId: string): Promise<Member> {
+  const member = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+  })
+
+  if (!member || member.status !== 'ACTIVE') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You are not an active member of this band' })
+  }
+
+  return member
+}
+
+/**
+ * Requires the caller to be an ACTIVE member of `input.bandId`. The resolved
+ * `Member` row (and therefore `ctx.member.role`) is available to the handler.
+ */
+export const bandMemberProcedure = protectedProcedure
+  .input(z.object({ bandId: z.string() }))
+  .use(async ({ ctx, input, next }) => {
+    const member = await requireBandMember(ctx.userId, input.bandId)
+    return next({ ctx: { ...ctx, member } })
+  })
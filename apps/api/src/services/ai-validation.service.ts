@@ -1,4 +1,4 @@
-import { callAI, parseAIJson, AIOperationType, AIEntityType } from '../lib/ai-client'
+import { callAI, parseAIJson, AIOperationType, AIEntityType } from '../lib/ai'
 
 export interface ValidationIssue {
   type: 'DATE' | 'BUDGET' | 'ALIGNMENT' | 'COMPLETENESS' | 'LEGAL'
@@ -1,4 +1,4 @@
-import { callAI, parseAIJson } from '../lib/ai-client'
+import { callAI, parseAIJson } from '../lib/ai'
 import { prisma } from '../lib/prisma'
 
 interface GenerateProposalDraftInput {
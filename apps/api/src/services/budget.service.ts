@@ -0,0 +1,251 @@
+/**
+ * Budget Service
+ *
+ * Budget-backed proposals name a source bucket; budgetRequested is reserved
+ * from it when the proposal passes. Spend on the proposal's projects is what
+ * the ledger posts against the reservation (reimbursed checklist expenses)
+ * plus Task.actualCost, and reimbursements that would overspend it are
+ * blocked until a budget amendment proposal adds to the reservation. A task's
+ * actual cost usually includes its reimbursed checklist expenses, so only the
+ * part of it they don't already cover is added.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma'
+import { ledgerService } from './ledger.service'
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`
+
+/** Decimal dollars (Proposal.budgetRequested, Task.actualCost) to integer cents */
+export function dollarsToCents(value: Prisma.Decimal | number | null | undefined): number {
+  return value == null ? 0 : Math.round(Number(value) * 100)
+}
+
+/**
+ * Check a budget request before a proposal is created or edited.
+ * Throws with a user-facing message if the bucket can't cover it.
+ */
+export async function assertBudgetAvailable(input: {
+  bandId: string
+  bucketId: string
+  amount: number // Cents
+  amendsProposalId?: string | null
+}): Promise<void> {
+  const { bandId, bucketId, amount, amendsProposalId } = input
+
+  if (amount <= 0) {
+    throw new Error('A budget-backed proposal needs a budget amount')
+  }
+
+  const bucket = await prisma.bucket.findUnique({ where: { id: bucketId } })
+  if (!bucket || bucket.bandId !== bandId) {
+    throw new Error('Budget bucket not found')
+  }
+  if (!bucket.isActive) {
+    throw new Error(`Bucket "${bucket.name}" is inactive`)
+  }
+
+  if (amendsProposalId) {
+    const reservation = await prisma.budgetReservation.findUnique({
+      where: { proposalId: amendsProposalId },
+    })
+    if (!reservation || reservation.bandId !== bandId) {
+      throw new Error('The proposal being amended has no reserved budget')
+    }
+    if (reservation.releasedAt) {
+      throw new Error('The budget being amended has already been released')
+    }
+    if (reservation.bucketId !== bucketId) {
+      throw new Error('A budget amendment must draw from the same bucket as the original budget')
+    }
+  }
+
+  const available = await ledgerService.getAvailableBalance(bandId, bucketId)
+  if (available < amount) {
+    throw new Error(
+      `Bucket "${bucket.name}" only has ${formatCents(Math.max(0, available))} uncommitted, ${formatCents(amount)} requested`
+    )
+  }
+}
+
+/**
+ * Reserve a passed proposal's budget. Amendments add to the original
+ * proposal's reservation instead of creating their own.
+ * Throws if the bucket no longer has enough uncommitted funds.
+ */
+export async function reserveForProposal(proposalId: string) {
+  const proposal = await prisma.proposal.findUnique({ where: { id: proposalId } })
+  if (!proposal?.budgetBucketId) return null
+
+  const amount = dollarsToCents(proposal.budgetRequested)
+
+  await assertBudgetAvailable({
+    bandId: proposal.bandId,
+    bucketId: proposal.budgetBucketId,
+    amount,
+    amendsProposalId: proposal.budgetAmendsProposalId,
+  })
+
+  if (proposal.budgetAmendsProposalId) {
+    return prisma.budgetReservation.update({
+      where: { proposalId: proposal.budgetAmendsProposalId },
+      data: { amount: { increment: amount } },
+    })
+  }
+
+  return prisma.budgetReservation.upsert({
+    where: { proposalId },
+    create: {
+      bandId: proposal.bandId,
+      proposalId,
+      bucketId: proposal.budgetBucketId,
+      amount,
+    },
+    update: {},
+  })
+}
+
+export interface BudgetStatus {
+  reservationId: string
+  bucket: { id: string; name: string; type: string }
+  reserved: number // Cents, including amendments
+  originalAmount: number
+  amendments: { id: string; title: string; amount: number; approvedAt: Date | null }[]
+  reimbursed: number
+  taskCosts: number // Task.actualCost not already covered by reimbursements
+  spent: number
+  remaining: number
+  overspent: boolean
+  releasedAt: Date | null
+}
+
+/**
+ * Reserved amount and spend for a budget-backed proposal
+ * (or null if nothing is reserved)
+ */
+export async function getBudgetStatus(proposalId: string): Promise<BudgetStatus | null> {
+  const reservation = await prisma.budgetReservation.findUnique({
+    where: { proposalId },
+    include: {
+      bucket: { select: { id: true, name: true, type: true } },
+      transactions: {
+        select: { entries: { select: { bucketId: true, amount: true } } },
+      },
+      proposal: {
+        select: {
+          budgetRequested: true,
+          budgetAmendments: {
+            where: { status: 'APPROVED' },
+            select: { id: true, title: true, budgetRequested: true, closedAt: true },
+            orderBy: { closedAt: 'asc' },
+          },
+        },
+      },
+    },
+  })
+  if (!reservation) return null
+
+  const reimbursed = -reservation.transactions
+    .flatMap(t => t.entries)
+    .filter(e => e.bucketId === reservation.bucketId)
+    .reduce((sum, e) => sum + e.amount, 0)
+
+  const uncovered = await uncoveredTaskCosts(proposalId)
+  const taskCosts = [...uncovered.values()].reduce((sum, cost) => sum + cost, 0)
+
+  const spent = reimbursed + taskCosts
+
+  return {
+    reservationId: reservation.id,
+    bucket: reservation.bucket,
+    reserved: reservation.amount,
+    originalAmount: dollarsToCents(reservation.proposal.budgetRequested),
+    amendments: reservation.proposal.budgetAmendments.map(a => ({
+      id: a.id,
+      title: a.title,
+      amount: dollarsToCents(a.budgetRequested),
+      approvedAt: a.closedAt,
+    })),
+    reimbursed,
+    taskCosts,
+    spent,
+    remaining: reservation.amount - spent,
+    overspent: spent > reservation.amount,
+    releasedAt: reservation.releasedAt,
+  }
+}
+
+/**
+ * Each task's actual cost beyond the checklist expenses already reimbursed on
+ * it, by task id (tasks with nothing left over are omitted)
+ */
+async function uncoveredTaskCosts(proposalId: string): Promise<Map<string, number>> {
+  const tasks = await prisma.task.findMany({
+    where: { project: { proposalId }, actualCost: { not: null } },
+    select: {
+      id: true,
+      actualCost: true,
+      checklistItems: {
+        where: { reimbursementStatus: { in: ['REIMBURSED', 'CONFIRMED'] }, expenseAmount: { gt: 0 } },
+        select: { expenseAmount: true },
+      },
+    },
+  })
+
+  const uncovered = new Map<string, number>()
+  for (const task of tasks) {
+    const reimbursed = task.checklistItems.reduce((sum, item) => sum + (item.expenseAmount ?? 0), 0)
+    const cost = dollarsToCents(task.actualCost) - reimbursed
+    if (cost > 0) uncovered.set(task.id, cost)
+  }
+  return uncovered
+}
+
+/**
+ * Block a reimbursement that would take a budget-backed project over its
+ * reserved budget. Items outside budget-backed projects always pass.
+ */
+export async function assertReimbursementWithinBudget(itemId: string): Promise<void> {
+  const item = await prisma.checklistItem.findUnique({
+    where: { id: itemId },
+    select: {
+      taskId: true,
+      expenseAmount: true,
+      task: { select: { project: { select: { proposalId: true } } } },
+    },
+  })
+  if (!item?.expenseAmount || !item.task.project) return
+
+  const status = await getBudgetStatus(item.task.project.proposalId)
+  if (!status || status.releasedAt) return
+
+  // Expense already counted through its task's actual cost adds nothing new
+  const alreadyCounted = (await uncoveredTaskCosts(item.task.project.proposalId)).get(item.taskId) ?? 0
+  const added = item.expenseAmount - Math.min(item.expenseAmount, alreadyCounted)
+
+  if (status.spent + added > status.reserved) {
+    throw new Error(
+      status.overspent
+        ? `This project is over budget by ${formatCents(status.spent - status.reserved)}. A budget amendment proposal must pass before more reimbursements.`
+        : `Reimbursing ${formatCents(item.expenseAmount)} would exceed the project budget (${formatCents(status.remaining)} remaining). A budget amendment proposal must pass first.`
+    )
+  }
+}
+
+/**
+ * Return a reservation's unspent remainder to its bucket
+ */
+export async function releaseReservation(proposalId: string) {
+  return prisma.budgetReservation.update({
+    where: { proposalId },
+    data: { releasedAt: new Date() },
+  })
+}
+
+export const budgetService = {
+  assertBudgetAvailable,
+  reserveForProposal,
+  getBudgetStatus,
+  assertReimbursementWithinBudget,
+  releaseReservation,
+}
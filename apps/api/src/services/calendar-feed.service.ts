@@ -0,0 +1,297 @@
+/**
+ * Calendar Feed Service
+ *
+ * Renders the subscribable .ics feeds behind CalendarFeedToken URLs:
+ * - USER: events and deadlines from every band the owner is active in
+ * - BAND_MEMBERS: the same for one band
+ * - BAND_PUBLIC: one band's events only, without meeting links or deadlines
+ *
+ * Recurring events are written once with their RRULE. Cancelled occurrences
+ * become EXDATEs and edited occurrences are overrides with a RECURRENCE-ID.
+ */
+
+import crypto from 'crypto'
+import { prisma } from '../lib/prisma'
+import { getDeadlineItems } from '../lib/calendar-items'
+import { buildCalendar, normalizeRRule, type ICalEvent, type ICalTodo } from '../lib/ical'
+
+const API_URL = process.env.API_URL || 'http://localhost:3001'
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+// How far back feeds reach; calendar apps drop entries missing from a refresh
+const PAST_DAYS = 90
+
+// How far ahead deadlines are included (events and recurrences are unbounded)
+const FUTURE_DAYS = 365
+
+// Feeds are polled often, so lastAccessedAt is only written this often
+const ACCESS_TOUCH_MS = 60 * 60 * 1000
+
+const UID_DOMAIN = 'band-it'
+
+/**
+ * Random URL-safe token for a new feed
+ */
+export function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString('base64url')
+}
+
+/**
+ * Public URL of a feed, for calendar apps to subscribe to
+ */
+export function getFeedUrl(token: string): string {
+  return `${API_URL}/api/calendar/${token}.ics`
+}
+
+type FeedEventRow = {
+  id: string
+  title: string
+  description: string | null
+  eventType: string
+  startTime: Date
+  endTime: Date
+  location: string | null
+  address: string | null
+  meetingUrl: string | null
+  recurrenceRule: string | null
+  recurrenceEndDate: Date | null
+  isCancelled: boolean
+  updatedAt: Date
+  band: { name: string; slug: string }
+}
+
+function eventDescription(event: FeedEventRow, isPublic: boolean): string | null {
+  if (isPublic) return event.description
+
+  const parts = [
+    event.description,
+    event.meetingUrl ? `Join: ${event.meetingUrl}` : null,
+    `${FRONTEND_URL}/bands/${event.band.slug}/calendar`,
+  ]
+  return parts.filter(Boolean).join('\n\n')
+}
+
+function eventLocation(event: FeedEventRow, isPublic: boolean): string | null {
+  if (isPublic) return event.location
+  return [event.location, event.address].filter(Boolean).join(', ') || event.meetingUrl
+}
+
+function toICalEvent(
+  event: FeedEventRow,
+  isPublic: boolean,
+  options: { showBand: boolean }
+): ICalEvent {
+  return {
+    uid: `event-${event.id}@${UID_DOMAIN}`,
+    start: event.startTime,
+    end: event.endTime,
+    summary: options.showBand ? `${event.title} (${event.band.name})` : event.title,
+    description: eventDescription(event, isPublic),
+    location: eventLocation(event, isPublic),
+    url: isPublic ? undefined : `${FRONTEND_URL}/bands/${event.band.slug}/calendar`,
+    status: event.isCancelled ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: event.updatedAt,
+    categories: [event.eventType.replace(/_/g, ' ').toLowerCase()],
+  }
+}
+
+const EVENT_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  eventType: true,
+  startTime: true,
+  endTime: true,
+  location: true,
+  address: true,
+  meetingUrl: true,
+  recurrenceRule: true,
+  recurrenceEndDate: true,
+  isCancelled: true,
+  updatedAt: true,
+  band: { select: { name: true, slug: true } },
+} as const
+
+/**
+ * Events for the given bands as VEVENTs, with recurring series and their
+ * exceptions
+ */
+async function getFeedEvents(
+  bandIds: string[],
+  since: Date,
+  isPublic: boolean,
+  showBand: boolean
+): Promise<ICalEvent[]> {
+  const events = await prisma.event.findMany({
+    where: {
+      bandId: { in: bandIds },
+      parentEventId: null,
+      OR: [
+        { recurrenceRule: null, endTime: { gte: since } },
+        {
+          recurrenceRule: { not: null },
+          OR: [
+            { recurrenceEndDate: null },
+            { recurrenceEndDate: { gte: since } },
+          ],
+        },
+      ],
+    },
+    select: {
+      ...EVENT_SELECT,
+      exceptions: {
+        where: { exceptionDate: { not: null } },
+        select: { ...EVENT_SELECT, exceptionDate: true },
+      },
+    },
+    orderBy: { startTime: 'asc' },
+  })
+
+  const entries: ICalEvent[] = []
+
+  for (const event of events) {
+    const entry = toICalEvent(event, isPublic, { showBand })
+
+    if (!event.recurrenceRule) {
+      entries.push(entry)
+      continue
+    }
+
+    entry.rrule = normalizeRRule(event.recurrenceRule, event.recurrenceEndDate)
+    entry.exdates = event.exceptions
+      .filter(exception => exception.isCancelled)
+      .map(exception => exception.exceptionDate!)
+    entries.push(entry)
+
+    // A cancelled series is already marked as such; its overrides add nothing
+    if (event.isCancelled) continue
+
+    for (const exception of event.exceptions) {
+      if (exception.isCancelled) continue
+      entries.push({
+        ...toICalEvent(exception, isPublic, { showBand }),
+        uid: entry.uid,
+        recurrenceId: exception.exceptionDate!,
+      })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Proposal deadlines and project targets as all-day VEVENTs; task and
+ * checklist due dates as VTODOs
+ */
+async function getFeedDeadlines(
+  userId: string,
+  bandIds: string[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  showBand: boolean
+): Promise<{ events: ICalEvent[]; todos: ICalTodo[] }> {
+  const items = await getDeadlineItems({
+    userId,
+    bandIds,
+    rangeStart,
+    rangeEnd,
+    includeProposals: true,
+    includeProjects: true,
+    includeTasks: true,
+    includeChecklists: true,
+  })
+
+  const events: ICalEvent[] = []
+  const todos: ICalTodo[] = []
+
+  for (const item of items) {
+    const uid = `${item.type.toLowerCase().replace(/_/g, '-')}-${item.id}@${UID_DOMAIN}`
+    const summary = showBand ? `${item.title} (${item.bandName})` : item.title
+    const url = `${FRONTEND_URL}${item.sourceUrl}`
+
+    if (item.type === 'TASK_DUE' || item.type === 'CHECKLIST_DUE') {
+      todos.push({
+        uid,
+        due: item.date,
+        summary,
+        description: item.subtitle,
+        url,
+        priority: item.metadata.priority,
+        categories: [item.type === 'TASK_DUE' ? 'task' : 'checklist'],
+      })
+    } else {
+      events.push({
+        uid,
+        start: item.date,
+        allDay: item.allDay,
+        summary,
+        description: item.subtitle,
+        url,
+        categories: [item.type === 'PROPOSAL_DEADLINE' ? 'proposal deadline' : 'project target'],
+      })
+    }
+  }
+
+  return { events, todos }
+}
+
+export const calendarFeedService = {
+  /**
+   * Render the feed for a token, or null when the token is unknown, revoked
+   * or its owner no longer belongs to the band
+   */
+  async render(token: string): Promise<string | null> {
+    const feed = await prisma.calendarFeedToken.findUnique({
+      where: { token },
+      include: { band: { select: { id: true, name: true } } },
+    })
+
+    if (!feed || feed.revokedAt) return null
+
+    const memberships = await prisma.member.findMany({
+      where: {
+        userId: feed.userId,
+        status: 'ACTIVE',
+        ...(feed.bandId && { bandId: feed.bandId }),
+      },
+      select: { bandId: true },
+    })
+
+    if (feed.bandId && memberships.length === 0) return null
+
+    if (!feed.lastAccessedAt || Date.now() - feed.lastAccessedAt.getTime() > ACCESS_TOUCH_MS) {
+      prisma.calendarFeedToken.update({
+        where: { id: feed.id },
+        data: { lastAccessedAt: new Date() },
+      }).catch(err => console.error('Error recording calendar feed access:', err))
+    }
+
+    const bandIds = memberships.map(m => m.bandId)
+    const isPublic = feed.scope === 'BAND_PUBLIC'
+    const showBand = feed.scope === 'USER'
+    const rangeStart = new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000)
+    const rangeEnd = new Date(Date.now() + FUTURE_DAYS * 24 * 60 * 60 * 1000)
+
+    const events = bandIds.length > 0
+      ? await getFeedEvents(bandIds, rangeStart, isPublic, showBand)
+      : []
+    const deadlines = !isPublic && bandIds.length > 0
+      ? await getFeedDeadlines(feed.userId, bandIds, rangeStart, rangeEnd, showBand)
+      : { events: [], todos: [] }
+
+    const name = feed.scope === 'USER'
+      ? 'Band IT'
+      : isPublic
+        ? `${feed.band!.name} (public)`
+        : feed.band!.name
+
+    return buildCalendar({
+      name,
+      description: isPublic
+        ? `Public events of ${feed.band!.name}`
+        : 'Events and deadlines from Band IT',
+      events: [...events, ...deadlines.events],
+      todos: deadlines.todos,
+    })
+  },
+}
@@ -0,0 +1,415 @@
+/**
+ * Calendar Import Service
+ *
+ * Turns an uploaded .ics file into band events:
+ * - eventType is inferred from the location and any meeting link
+ * - RRULEs are kept as the event's recurrenceRule (UNTIL becomes recurrenceEndDate)
+ * - EXDATEs become cancelled exceptions; RECURRENCE-ID overrides become
+ *   exceptions with parentEventId/exceptionDate
+ *
+ * The preview flags events that were imported before (same UID) or that
+ * match an existing event by title and start time, and upcoming conflicts.
+ */
+
+import { RRule } from 'rrule'
+import { prisma } from '../lib/prisma'
+import { parseICalendar, type ParsedICalEvent } from '../lib/ical-parser'
+import { getOccurrences } from '../lib/event-occurrences'
+
+export const MAX_IMPORT_EVENTS = 500
+
+// Only upcoming overlaps are worth flagging; history can't be rearranged
+const CONFLICT_WINDOW_DAYS = 90
+
+// Hosts whose links are treated as the meeting URL
+const MEETING_HOSTS = [
+  'zoom.us',
+  'meet.google.com',
+  'teams.microsoft.com',
+  'teams.live.com',
+  'webex.com',
+  'whereby.com',
+  'meet.jit.si',
+  'gotomeeting.com',
+]
+
+type ImportEventType = 'ONLINE_MEETING' | 'IN_PERSON_MEETING' | 'HYBRID'
+
+export interface ImportException {
+  exceptionDate: Date
+  title: string
+  description: string | null
+  startTime: Date
+  endTime: Date
+  location: string | null
+  meetingUrl: string | null
+  isCancelled: boolean
+}
+
+export interface ImportDraft {
+  uid: string
+  title: string
+  description: string | null
+  eventType: ImportEventType
+  startTime: Date
+  endTime: Date
+  timezone: string | null
+  location: string | null
+  meetingUrl: string | null
+  recurrenceRule: string | null
+  recurrenceEndDate: Date | null
+  isCancelled: boolean
+  exceptions: ImportException[]
+  warnings: string[]
+}
+
+export interface ImportPreviewItem {
+  uid: string
+  title: string
+  eventType: ImportEventType
+  startTime: Date
+  endTime: Date
+  location: string | null
+  meetingUrl: string | null
+  recurrenceDescription: string | null
+  exceptionCount: number
+  isCancelled: boolean
+  duplicateOf: { id: string; title: string; startTime: Date } | null
+  conflicts: { id: string; title: string; startTime: Date }[]
+  warnings: string[]
+}
+
+function isMeetingUrl(value: string): boolean {
+  try {
+    const host = new URL(value).hostname.toLowerCase()
+    return MEETING_HOSTS.some(h => host === h || host.endsWith(`.${h}`))
+  } catch {
+    return false
+  }
+}
+
+function findMeetingUrl(text: string | undefined): string | null {
+  if (!text) return null
+  const urls = text.match(/https?:\/\/[^\s<>"')]+/g) ?? []
+  return urls.find(isMeetingUrl) ?? null
+}
+
+/**
+ * Split a VEVENT's location into a physical place and a meeting link
+ */
+function resolveVenue(event: ParsedICalEvent): { location: string | null; meetingUrl: string | null } {
+  let location = event.location ?? null
+  let meetingUrl: string | null = null
+
+  // Calendar apps often put the meeting link itself in LOCATION
+  if (location && /^https?:\/\/\S+$/.test(location)) {
+    meetingUrl = location
+    location = null
+  }
+
+  meetingUrl = meetingUrl
+    ?? findMeetingUrl(event.location)
+    ?? (event.url && isMeetingUrl(event.url) ? event.url : null)
+    ?? findMeetingUrl(event.description)
+
+  return { location, meetingUrl }
+}
+
+function inferEventType(location: string | null, meetingUrl: string | null): ImportEventType {
+  if (location && meetingUrl) return 'HYBRID'
+  if (meetingUrl) return 'ONLINE_MEETING'
+  return 'IN_PERSON_MEETING'
+}
+
+/**
+ * Validate an RRULE and pull out its UNTIL as the series end date
+ */
+function parseRecurrence(rule: string): { recurrenceRule: string; recurrenceEndDate: Date | null } | null {
+  const value = rule.replace(/^RRULE:/i, '')
+  try {
+    const parsed = RRule.fromString(value)
+    return { recurrenceRule: value, recurrenceEndDate: parsed.options.until ?? null }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Map parsed VEVENTs to importable events, attaching overrides and EXDATEs
+ * to their series
+ */
+export function buildImportDrafts(events: ParsedICalEvent[]): ImportDraft[] {
+  const masters = events.filter(e => !e.recurrenceId)
+  const overrides = events.filter(e => e.recurrenceId)
+  const drafts = new Map<string, ImportDraft>()
+
+  // An override whose series isn't in the file is imported on its own
+  const toDraft = (event: ParsedICalEvent): ImportDraft => {
+    const { location, meetingUrl } = resolveVenue(event)
+    const warnings: string[] = []
+
+    let recurrence: ReturnType<typeof parseRecurrence> = null
+    if (event.rrule && !event.recurrenceId) {
+      recurrence = parseRecurrence(event.rrule)
+      if (!recurrence) warnings.push('Unsupported repeat rule; imported as a single event')
+    }
+    if (event.allDay) warnings.push('All-day event; imported as a full-day block')
+    if (!location && !meetingUrl) warnings.push('No location or meeting link')
+
+    return {
+      uid: event.recurrenceId ? `${event.uid}#${event.recurrenceId.toISOString()}` : event.uid,
+      title: event.summary.slice(0, 200),
+      description: event.description ?? null,
+      eventType: inferEventType(location, meetingUrl),
+      startTime: event.start,
+      endTime: event.end,
+      timezone: event.timezone ?? null,
+      location,
+      meetingUrl,
+      recurrenceRule: recurrence?.recurrenceRule ?? null,
+      recurrenceEndDate: recurrence?.recurrenceEndDate ?? null,
+      isCancelled: event.cancelled,
+      exceptions: [],
+      warnings,
+    }
+  }
+
+  for (const master of masters) {
+    // Some exporters repeat a VEVENT; keep the first
+    if (drafts.has(master.uid)) continue
+    const draft = toDraft(master)
+    drafts.set(master.uid, draft)
+
+    if (!draft.recurrenceRule) continue
+    const duration = draft.endTime.getTime() - draft.startTime.getTime()
+    for (const exdate of master.exdates) {
+      draft.exceptions.push({
+        exceptionDate: exdate,
+        title: draft.title,
+        description: draft.description,
+        startTime: exdate,
+        endTime: new Date(exdate.getTime() + duration),
+        location: draft.location,
+        meetingUrl: draft.meetingUrl,
+        isCancelled: true,
+      })
+    }
+  }
+
+  for (const event of overrides) {
+    const draft = drafts.get(event.uid)
+    if (!draft?.recurrenceRule) {
+      const standalone = toDraft(event)
+      drafts.set(standalone.uid, standalone)
+      continue
+    }
+    const { location, meetingUrl } = resolveVenue(event)
+    // An override replaces any EXDATE for the same occurrence
+    draft.exceptions = draft.exceptions.filter(
+      e => e.exceptionDate.getTime() !== event.recurrenceId!.getTime()
+    )
+    draft.exceptions.push({
+      exceptionDate: event.recurrenceId!,
+      title: event.summary.slice(0, 200),
+      description: event.description ?? null,
+      startTime: event.start,
+      endTime: event.end,
+      location,
+      meetingUrl,
+      isCancelled: event.cancelled,
+    })
+  }
+
+  return [...drafts.values()].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase()
+}
+
+export const calendarImportService = {
+  /**
+   * Parse an .ics file into import drafts
+   */
+  parse(content: string): { calendarName: string | null; drafts: ImportDraft[]; warnings: string[] } {
+    const parsed = parseICalendar(content)
+    return {
+      calendarName: parsed.name ?? null,
+      drafts: buildImportDrafts(parsed.events),
+      warnings: parsed.warnings,
+    }
+  },
+
+  /**
+   * Flag duplicates of existing band events and upcoming time conflicts
+   */
+  async preview(bandId: string, drafts: ImportDraft[]): Promise<ImportPreviewItem[]> {
+    const now = new Date()
+    const windowEnd = new Date(now.getTime() + CONFLICT_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+    const [possibleDuplicates, existing] = await Promise.all([
+      prisma.event.findMany({
+        where: {
+          bandId,
+          parentEventId: null,
+          OR: [
+            { importedUid: { in: drafts.map(d => d.uid) } },
+            { startTime: { in: drafts.map(d => d.startTime) } },
+          ],
+        },
+        select: { id: true, title: true, startTime: true, importedUid: true },
+      }),
+      prisma.event.findMany({
+        where: {
+          bandId,
+          parentEventId: null,
+          isCancelled: false,
+          OR: [
+            { recurrenceRule: null, endTime: { gte: now }, startTime: { lte: windowEnd } },
+            {
+              recurrenceRule: { not: null },
+              startTime: { lte: windowEnd },
+              OR: [{ recurrenceEndDate: null }, { recurrenceEndDate: { gte: now } }],
+            },
+          ],
+        },
+        select: {
+          id: true,
+          title: true,
+          startTime: true,
+          endTime: true,
+          recurrenceRule: true,
+          recurrenceEndDate: true,
+          exceptions: {
+            where: { isCancelled: true, exceptionDate: { not: null } },
+            select: { exceptionDate: true },
+          },
+        },
+      }),
+    ])
+
+    // Upcoming occurrences of existing events, minus cancelled ones
+    const busy = existing.flatMap(event => {
+      const duration = event.endTime.getTime() - event.startTime.getTime()
+      const cancelled = new Set(event.exceptions.map(e => e.exceptionDate!.getTime()))
+      return getOccurrences(event, now, windowEnd)
+        .filter(start => !cancelled.has(start.getTime()))
+        .map(start => ({
+          id: event.id,
+          title: event.title,
+          start,
+          end: new Date(start.getTime() + duration),
+        }))
+    })
+
+    return drafts.map(draft => {
+      const duplicate = possibleDuplicates.find(e => e.importedUid === draft.uid)
+        ?? possibleDuplicates.find(e =>
+          e.startTime.getTime() === draft.startTime.getTime()
+          && normalizeTitle(e.title) === normalizeTitle(draft.title))
+
+      const conflicts = new Map<string, { id: string; title: string; startTime: Date }>()
+      if (!duplicate && !draft.isCancelled) {
+        const duration = draft.endTime.getTime() - draft.startTime.getTime()
+        for (const start of getOccurrences(draft, now, windowEnd)) {
+          const end = new Date(start.getTime() + duration)
+          for (const slot of busy) {
+            if (slot.start < end && slot.end > start && !conflicts.has(slot.id)) {
+              conflicts.set(slot.id, { id: slot.id, title: slot.title, startTime: slot.start })
+            }
+          }
+        }
+      }
+
+      let recurrenceDescription: string | null = null
+      if (draft.recurrenceRule) {
+        try {
+          recurrenceDescription = RRule.fromString(draft.recurrenceRule).toText()
+        } catch {
+          // Validated when drafted; leave undescribed
+        }
+      }
+
+      return {
+        uid: draft.uid,
+        title: draft.title,
+        eventType: draft.eventType,
+        startTime: draft.startTime,
+        endTime: draft.endTime,
+        location: draft.location,
+        meetingUrl: draft.meetingUrl,
+        recurrenceDescription,
+        exceptionCount: draft.exceptions.length,
+        isCancelled: draft.isCancelled,
+        duplicateOf: duplicate
+          ? { id: duplicate.id, title: duplicate.title, startTime: duplicate.startTime }
+          : null,
+        conflicts: [...conflicts.values()],
+        warnings: draft.warnings,
+      }
+    })
+  },
+
+  /**
+   * Create the drafts and their exceptions in one transaction
+   */
+  async create(
+    bandId: string,
+    userId: string,
+    drafts: ImportDraft[]
+  ): Promise<{ eventIds: string[]; exceptionCount: number }> {
+    return prisma.$transaction(async (tx) => {
+      const eventIds: string[] = []
+      let exceptionCount = 0
+
+      for (const draft of drafts) {
+        const event = await tx.event.create({
+          data: {
+            bandId,
+            createdById: userId,
+            title: draft.title,
+            description: draft.description,
+            eventType: draft.eventType,
+            startTime: draft.startTime,
+            endTime: draft.endTime,
+            // Without a known zone the schema default applies
+            timezone: draft.timezone ?? undefined,
+            location: draft.location,
+            meetingUrl: draft.meetingUrl,
+            recurrenceRule: draft.recurrenceRule,
+            recurrenceEndDate: draft.recurrenceEndDate,
+            importedUid: draft.uid,
+            isCancelled: draft.isCancelled,
+            cancelledAt: draft.isCancelled ? new Date() : null,
+          },
+          select: { id: true, timezone: true },
+        })
+        eventIds.push(event.id)
+
+        for (const exception of draft.exceptions) {
+          await tx.event.create({
+            data: {
+              bandId,
+              createdById: userId,
+              parentEventId: event.id,
+              exceptionDate: exception.exceptionDate,
+              title: exception.title,
+              description: exception.description,
+              eventType: inferEventType(exception.location, exception.meetingUrl),
+              startTime: exception.startTime,
+              endTime: exception.endTime,
+              timezone: event.timezone,
+              location: exception.location,
+              meetingUrl: exception.meetingUrl,
+              isCancelled: exception.isCancelled,
+              cancelledAt: exception.isCancelled ? new Date() : null,
+            },
+          })
+          exceptionCount++
+        }
+      }
+
+      return { eventIds, exceptionCount }
+    }, { timeout: 60_000 })
+  },
+}
@@ -0,0 +1,143 @@
+import { prisma } from '../lib/prisma'
+
+/**
+ * Postgres features `prisma db push` can't express. Deploys run db push, not
+ * the SQL in prisma/migrations, so these are applied on startup instead.
+ * Every step is idempotent and safe to re-run on each deploy.
+ */
+
+/**
+ * Weighted full-text vectors for unified search. Titles rank above bodies
+ * (A > B > C). db push creates each column as a plain nullable tsvector from
+ * the schema; this turns it into a generated one. Bump `version` when an
+ * expression changes so existing databases rebuild the column.
+ */
+const SEARCH_VECTORS: Array<{ table: string; version: number; expression: string }> = [
+  {
+    table: 'Message',
+    version: 1,
+    expression: `to_tsvector('english', coalesce(content, ''))`,
+  },
+  {
+    table: 'Proposal',
+    version: 1,
+    expression: `setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce("problemStatement", '') || ' ' || coalesce("expectedOutcome", '')), 'C')`,
+  },
+  {
+    table: 'Post',
+    version: 1,
+    expression: `setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(content, '')), 'B')`,
+  },
+  {
+    table: 'PostResponse',
+    version: 1,
+    expression: `to_tsvector('english', coalesce(content, ''))`,
+  },
+  {
+    table: 'Project',
+    version: 1,
+    expression: `setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(deliverables, '') || ' ' || coalesce("successCriteria", '')), 'C')`,
+  },
+  {
+    table: 'Task',
+    version: 1,
+    expression: `setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B')`,
+  },
+  {
+    table: 'Comment',
+    version: 1,
+    expression: `to_tsvector('english', coalesce(content, ''))`,
+  },
+  {
+    // Version 2 adds the current version's extracted text
+    table: 'Document',
+    version: 2,
+    expression: `setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce("extractedText", '')), 'C')`,
+  },
+]
+
+async function ensureSearchVector(spec: typeof SEARCH_VECTORS[number]) {
+  // The column comment records which version of the expression is in place
+  const marker = `generated search vector v${spec.version}`
+  const [current] = await prisma.$queryRawUnsafe<Array<{ comment: string | null }>>(
+    `SELECT col_description(c.attrelid, c.attnum) AS comment
+       FROM pg_attribute c
+      WHERE c.attrelid = '"${spec.table}"'::regclass
+        AND c.attname = 'searchVector'
+        AND NOT c.attisdropped`
+  )
+  if (current?.comment === marker) return
+
+  // Generated columns can't be altered in place
+  await prisma.$transaction([
+    prisma.$executeRawUnsafe(`DROP INDEX IF EXISTS "${spec.table}_searchVector_idx"`),
+    prisma.$executeRawUnsafe(`ALTER TABLE "${spec.table}" DROP COLUMN IF EXISTS "searchVector"`),
+    prisma.$executeRawUnsafe(
+      `ALTER TABLE "${spec.table}" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (${spec.expression}) STORED`
+    ),
+    prisma.$executeRawUnsafe(
+      `CREATE INDEX "${spec.table}_searchVector_idx" ON "${spec.table}" USING GIN ("searchVector")`
+    ),
+    prisma.$executeRawUnsafe(`COMMENT ON COLUMN "${spec.table}"."searchVector" IS '${marker}'`),
+  ])
+  console.log(`✅ Built ${spec.table} search vector (v${spec.version})`)
+}
+
+/**
+ * Unique indexes with a WHERE clause, which the schema can't declare. `dedupe`
+ * first removes rows that would stop the index being created, keeping the
+ * most recently updated one.
+ */
+const PARTIAL_UNIQUE_INDEXES: Array<{ name: string; definition: string; dedupe: string }> = [
+  {
+    // One series-level answer per member. The @@unique on occurrenceDate
+    // doesn't cover it, since Postgres treats NULLs as distinct.
+    name: 'EventRSVP_series_key',
+    definition: `ON "EventRSVP"("eventId", "userId") WHERE "occurrenceDate" IS NULL`,
+    dedupe: `DELETE FROM "EventRSVP" a
+      USING "EventRSVP" b
+      WHERE a."occurrenceDate" IS NULL AND b."occurrenceDate" IS NULL
+        AND a."eventId" = b."eventId" AND a."userId" = b."userId"
+        AND (a."updatedAt", a.id) < (b."updatedAt", b.id)`,
+  },
+]
+
+async function ensurePartialUniqueIndex(spec: typeof PARTIAL_UNIQUE_INDEXES[number]) {
+  const existing = await prisma.$queryRawUnsafe<Array<{ indexname: string }>>(
+    `SELECT indexname FROM pg_indexes WHERE indexname = '${spec.name}'`
+  )
+  if (existing.length > 0) return
+
+  const [removed] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(spec.dedupe),
+    prisma.$executeRawUnsafe(`CREATE UNIQUE INDEX "${spec.name}" ${spec.definition}`),
+  ])
+  console.log(`✅ Created ${spec.name}${removed > 0 ? ` (removed ${removed} duplicate row(s))` : ''}`)
+}
+
+export async function ensureDatabaseSetup(): Promise<void> {
+  for (const spec of SEARCH_VECTORS) {
+    try {
+      await ensureSearchVector(spec)
+    } catch (err) {
+      // Never let setup block server startup; search on this table stays down
+      console.error(`[ensureDatabaseSetup] ${spec.table} search vector failed:`, err)
+    }
+  }
+
+  for (const spec of PARTIAL_UNIQUE_INDEXES) {
+    try {
+      await ensurePartialUniqueIndex(spec)
+    } catch (err) {
+      console.error(`[ensureDatabaseSetup] ${spec.name} failed:`, err)
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Document Text Service
+ *
+ * Extracts plain text from uploaded document versions (PDF, DOCX and plain
+ * text) so documents can be found by what they say, not just their title,
+ * and so AI features can quote them. The current version's text is copied
+ * onto the Document, whose search vector includes it.
+ *
+ * Extraction runs in the background after an upload; the cron retries
+ * failures and picks up versions that were never processed.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma'
+import { storageService } from './storage.service'
+import { loadBandFolders, isVisibleToAllMembers } from '../lib/document-folder-access'
+
+const MAX_ATTEMPTS = 3
+
+// Keeps the search vector well under Postgres's 1MB tsvector limit
+const MAX_TEXT_LENGTH = 100_000
+
+const PDF = 'application/pdf'
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const PLAIN_TEXT_TYPES = ['text/plain', 'text/csv', 'text/markdown']
+
+function normalizeMimeType(mimeType: string): string {
+  return mimeType.split(';', 1)[0].trim().toLowerCase()
+}
+
+export function canExtractText(mimeType: string): boolean {
+  const normalized = normalizeMimeType(mimeType)
+  return normalized === PDF || normalized === DOCX || PLAIN_TEXT_TYPES.includes(normalized)
+}
+
+async function extractText(mimeType: string, buffer: Buffer): Promise<string> {
+  const normalized = normalizeMimeType(mimeType)
+
+  if (PLAIN_TEXT_TYPES.includes(normalized)) {
+    return buffer.toString('utf-8')
+  }
+
+  if (normalized === PDF) {
+    const pdfParse = (await import('pdf-parse')).default
+    const data = await pdfParse(buffer)
+    return data.text || ''
+  }
+
+  const mammoth = await import('mammoth')
+  const result = await mammoth.extractRawText({ buffer })
+  return result.value || ''
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH)
+}
+
+export const documentTextService = {
+  /**
+   * Extract and store the text of one version. Never throws; failures are
+   * recorded on the version for the cron to retry.
+   */
+  async extractVersion(versionId: string): Promise<void> {
+    const version = await prisma.documentVersion.findUnique({
+      where: { id: versionId },
+      include: {
+        file: { select: { mimeType: true, storageKey: true } },
+        document: { select: { id: true, fileId: true } },
+      },
+    })
+    if (!version) return
+
+    if (!canExtractText(version.file.mimeType)) {
+      await prisma.documentVersion.update({
+        where: { id: versionId },
+        data: { textStatus: 'UNSUPPORTED' },
+      })
+      return
+    }
+
+    try {
+      const buffer = await storageService.read(version.file.storageKey)
+      const text = cleanText(await extractText(version.file.mimeType, buffer))
+
+      await prisma.$transaction(async (tx) => {
+        await tx.documentVersion.update({
+          where: { id: versionId },
+          data: {
+            extractedText: text || null,
+            textStatus: 'EXTRACTED',
+            textAttempts: { increment: 1 },
+          },
+        })
+
+        // Only the current version feeds search
+        if (version.document.fileId === version.fileId) {
+          await tx.document.update({
+            where: { id: version.document.id },
+            data: { extractedText: text || null },
+          })
+        }
+      })
+    } catch (error) {
+      console.error(`Text extraction failed for document version ${versionId}:`, error)
+      await prisma.documentVersion.update({
+        where: { id: versionId },
+        data: { textStatus: 'FAILED', textAttempts: { increment: 1 } },
+      })
+    }
+  },
+
+  /**
+   * Extract text for versions that are still pending or failed fewer than
+   * MAX_ATTEMPTS times
+   */
+  async extractPending(limit = 20): Promise<{ attempted: number }> {
+    const versions = await prisma.documentVersion.findMany({
+      where: {
+        OR: [
+          { textStatus: 'PENDING' },
+          { textStatus: 'FAILED', textAttempts: { lt: MAX_ATTEMPTS } },
+        ],
+        document: { deletedAt: null },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    })
+
+    // One at a time - PDF parsing is memory hungry
+    for (const version of versions) {
+      await this.extractVersion(version.id)
+    }
+
+    return { attempted: versions.length }
+  },
+
+  /**
+   * Excerpts from documents in folders every member can see that match a
+   * topic, for AI prompts. Restricted folders are never included.
+   */
+  async findRelevantExcerpts(
+    bandId: string,
+    topic: string,
+    limit = 3
+  ): Promise<{ title: string; excerpt: string }[]> {
+    const words = topic
+      .split(/\s+/)
+      .map((w) => w.replace(/[^\w]/g, ''))
+      .filter((w) => w.length > 3)
+      .slice(0, 8)
+    if (words.length === 0) return []
+
+    const { folders, roles } = await loadBandFolders(bandId)
+    const folderIds = folders
+      .filter((folder) => isVisibleToAllMembers(roles.get(folder.id)))
+      .map((folder) => folder.id)
+    if (folderIds.length === 0) return []
+
+    // Any of the words, most relevant first
+    const query = words.join(' or ')
+
+    const rows = await prisma.$queryRaw<{ title: string; excerpt: string }[]>(Prisma.sql`
+      SELECT d.title,
+        ts_headline('english', d."extractedText", websearch_to_tsquery('english', ${query}),
+          'MaxWords=60, MinWords=30, MaxFragments=2, FragmentDelimiter=" … "') AS excerpt
+      FROM "Document" d
+      WHERE d."bandId" = ${bandId}
+        AND d."deletedAt" IS NULL
+        AND d."extractedText" IS NOT NULL
+        AND d."folderId" IN (${Prisma.join(folderIds)})
+        AND d."searchVector" @@ websearch_to_tsquery('english', ${query})
+      ORDER BY ts_rank_cd(d."searchVector", websearch_to_tsquery('english', ${query})) DESC
+      LIMIT ${limit}
+    `)
+
+    // Drop ts_headline's <b> markers; prompts want plain text
+    return rows.map((row) => ({ title: row.title, excerpt: row.excerpt.replace(/<\/?b>/g, '') }))
+  },
+}
@@ -0,0 +1,454 @@
+/**
+ * Band Action Effects (BAND_ACTIONS_V1)
+ *
+ * This module implements effect handlers for routine actions that an
+ * ACTION proposal triggers when approved: role changes, new channels,
+ * new events and dues plan changes.
+ */
+
+import Stripe from 'stripe'
+import { prisma } from '../../lib/prisma'
+import { generateChannelSlug, getUniqueChannelSlug } from '../../lib/channel-slug'
+import {
+  registerEffectHandler,
+  registerSubtypeEffects,
+  effectDb,
+  type EffectHandler,
+} from '../proposal-effects.service'
+import { notificationService } from '../notification.service'
+import { webhookService } from '../webhook.service'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!)
+
+// ============================================
+// EFFECT TYPE CONSTANTS
+// ============================================
+
+export const BAND_ACTION_EFFECTS = {
+  CHANGE_MEMBER_ROLE: 'CHANGE_MEMBER_ROLE',
+  CREATE_CHANNEL: 'CREATE_CHANNEL',
+  CREATE_EVENT: 'CREATE_EVENT',
+  ADJUST_DUES_PLAN: 'ADJUST_DUES_PLAN',
+} as const
+
+// Founders are added through ADD_FOUNDER proposals, never by role change
+const ASSIGNABLE_ROLES = ['GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']
+const CHANNEL_VISIBILITIES = ['PUBLIC', 'MODERATOR', 'GOVERNANCE']
+const EVENT_TYPES = ['ONLINE_MEETING', 'IN_PERSON_MEETING', 'SOCIAL', 'HYBRID']
+const DUES_INTERVALS = ['month', 'year']
+
+type AssignableRole = 'GOVERNOR' | 'MODERATOR' | 'CONDUCTOR' | 'VOTING_MEMBER' | 'OBSERVER'
+
+interface EventPayload {
+  title?: string
+  description?: string
+  eventType?: string
+  startTime?: string
+  endTime?: string
+  timezone?: string
+  location?: string
+  meetingUrl?: string
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+async function getActiveMember(bandId: string, userId: string) {
+  return prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+    include: { user: { select: { name: true } } },
+  })
+}
+
+function formatRole(role: string): string {
+  return role.replace(/_/g, ' ').toLowerCase()
+}
+
+function formatDues(amountCents: number, interval: string): string {
+  return `$${(amountCents / 100).toFixed(2)}/${interval}`
+}
+
+// ============================================
+// EFFECT HANDLERS
+// ============================================
+
+/**
+ * CHANGE_MEMBER_ROLE
+ * Changes a member's role (not to or from FOUNDER)
+ */
+const changeMemberRoleHandler: EffectHandler = {
+  type: BAND_ACTION_EFFECTS.CHANGE_MEMBER_ROLE,
+
+  async validate(payload, context) {
+    const errors: string[] = []
+    const { userId, role } = payload as { userId?: string; role?: string }
+
+    if (!userId || !role) {
+      errors.push('CHANGE_MEMBER_ROLE: userId and role are required')
+      return errors
+    }
+
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      errors.push(`CHANGE_MEMBER_ROLE: role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`)
+      return errors
+    }
+
+    const member = await getActiveMember(context.bandId, userId)
+    if (!member || member.status !== 'ACTIVE') {
+      errors.push(`CHANGE_MEMBER_ROLE: User ${userId} is not an active member of this band`)
+      return errors
+    }
+
+    if (member.role === 'FOUNDER') {
+      errors.push('CHANGE_MEMBER_ROLE: Founders cannot be given another role')
+    } else if (member.role === role) {
+      errors.push(`CHANGE_MEMBER_ROLE: ${member.user.name} is already a ${formatRole(role)}`)
+    }
+
+    return errors
+  },
+
+  async describe(payload, context) {
+    const { userId, role } = payload as { userId: string; role: string }
+    const member = await getActiveMember(context.bandId, userId)
+    return `Change ${member?.user.name ?? 'an unknown member'}'s role from ${formatRole(member?.role ?? 'unknown')} to ${formatRole(role)}`
+  },
+
+  async execute(payload, context) {
+    const { userId, role } = payload as { userId: string; role: AssignableRole }
+
+    await effectDb(context).member.update({
+      where: { userId_bandId: { userId, bandId: context.bandId } },
+      data: { role },
+    })
+  },
+
+  async afterCommit(payload, context) {
+    const { userId, role } = payload as { userId: string; role: string }
+    const band = await prisma.band.findUnique({
+      where: { id: context.bandId },
+      select: { name: true, slug: true },
+    })
+    if (!band) return
+
+    await notificationService.create({
+      userId,
+      type: 'BAND_STATUS_CHANGED',
+      title: 'Your Role Changed',
+      message: `Your role in ${band.name} has been changed to ${formatRole(role)} by proposal`,
+      relatedId: context.bandId,
+      relatedType: 'band',
+      actionUrl: `/bands/${band.slug}/members`,
+    })
+
+    webhookService.syncMembersWithParent(context.bandId)
+  },
+}
+
+/**
+ * CREATE_CHANNEL
+ * Creates a discussion channel
+ */
+const createChannelHandler: EffectHandler = {
+  type: BAND_ACTION_EFFECTS.CREATE_CHANNEL,
+
+  async validate(payload) {
+    const errors: string[] = []
+    const { name, description, visibility } = payload as {
+      name?: string
+      description?: string
+      visibility?: string
+    }
+
+    if (!name || name.length > 80) {
+      errors.push('CREATE_CHANNEL: name is required and must be 80 characters or less')
+    } else if (!generateChannelSlug(name)) {
+      errors.push('CREATE_CHANNEL: name must contain at least one letter or number')
+    }
+
+    if (description && description.length > 500) {
+      errors.push('CREATE_CHANNEL: description must be 500 characters or less')
+    }
+
+    if (visibility && !CHANNEL_VISIBILITIES.includes(visibility)) {
+      errors.push(`CREATE_CHANNEL: visibility must be one of: ${CHANNEL_VISIBILITIES.join(', ')}`)
+    }
+
+    return errors
+  },
+
+  async describe(payload) {
+    const { name, visibility } = payload as { name: string; visibility?: string }
+    return `Create ${visibility && visibility !== 'PUBLIC' ? `${visibility.toLowerCase()}-only ` : ''}channel "${name}"`
+  },
+
+  async execute(payload, context) {
+    const { name, description, visibility } = payload as {
+      name: string
+      description?: string
+      visibility?: 'PUBLIC' | 'MODERATOR' | 'GOVERNANCE'
+    }
+    const db = effectDb(context)
+
+    const channel = await db.channel.create({
+      data: {
+        bandId: context.bandId,
+        name,
+        slug: await getUniqueChannelSlug(context.bandId, generateChannelSlug(name), db),
+        description,
+        visibility: visibility ?? 'PUBLIC',
+        isDefault: false,
+        createdById: context.executedById,
+      },
+    })
+
+    return { channelId: channel.id }
+  },
+}
+
+/**
+ * CREATE_EVENT
+ * Schedules a one-time band event
+ */
+const createEventHandler: EffectHandler = {
+  type: BAND_ACTION_EFFECTS.CREATE_EVENT,
+
+  async validate(payload) {
+    const errors: string[] = []
+    const { title, eventType, startTime, endTime, location, meetingUrl } = payload as EventPayload
+
+    if (!title || title.length > 200) {
+      errors.push('CREATE_EVENT: title is required and must be 200 characters or less')
+    }
+
+    if (!eventType || !EVENT_TYPES.includes(eventType)) {
+      errors.push(`CREATE_EVENT: eventType must be one of: ${EVENT_TYPES.join(', ')}`)
+    }
+
+    const start = startTime ? new Date(startTime) : null
+    const end = endTime ? new Date(endTime) : null
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) {
+      errors.push('CREATE_EVENT: startTime and endTime must be valid dates')
+    } else if (end <= start) {
+      errors.push('CREATE_EVENT: endTime must be after startTime')
+    }
+
+    if ((eventType === 'IN_PERSON_MEETING' || eventType === 'SOCIAL' || eventType === 'HYBRID') && !location) {
+      errors.push('CREATE_EVENT: location is required for in-person events')
+    }
+    if ((eventType === 'ONLINE_MEETING' || eventType === 'HYBRID') && !meetingUrl) {
+      errors.push('CREATE_EVENT: meetingUrl is required for online events')
+    }
+
+    return errors
+  },
+
+  async describe(payload) {
+    const { title, eventType, startTime } = payload as EventPayload
+    return `Schedule ${formatRole(eventType ?? 'event')} "${title}" on ${new Date(startTime ?? '').toLocaleString()}`
+  },
+
+  async execute(payload, context) {
+    const { title, description, eventType, startTime, endTime, timezone, location, meetingUrl } = payload as {
+      title: string
+      description?: string
+      eventType: 'ONLINE_MEETING' | 'IN_PERSON_MEETING' | 'SOCIAL' | 'HYBRID'
+      startTime: string
+      endTime: string
+      timezone?: string
+      location?: string
+      meetingUrl?: string
+    }
+
+    const event = await effectDb(context).event.create({
+      data: {
+        bandId: context.bandId,
+        createdById: context.executedById,
+        title,
+        description,
+        eventType,
+        startTime: new Date(startTime),
+        endTime: new Date(endTime),
+        timezone: timezone || undefined,
+        location,
+        meetingUrl: meetingUrl || null,
+      },
+    })
+
+    return { eventId: event.id }
+  },
+
+  async afterCommit(payload, context, result) {
+    const eventId = (result as { eventId?: string } | undefined)?.eventId
+    if (!eventId) return
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: {
+        band: {
+          select: {
+            slug: true,
+            members: { where: { status: 'ACTIVE' }, select: { userId: true } },
+          },
+        },
+      },
+    })
+    if (!event) return
+
+    await Promise.all(event.band.members.map(m => notificationService.create({
+      userId: m.userId,
+      type: 'EVENT_CREATED',
+      title: 'New Event Created',
+      message: `"${event.title}" has been scheduled for ${event.startTime.toLocaleDateString()}`,
+      relatedId: event.id,
+      relatedType: 'event',
+      actionUrl: `/bands/${event.band.slug}/calendar/${event.id}`,
+    })))
+
+    webhookService.eventCreated(context.bandId, {
+      id: event.id,
+      title: event.title,
+      description: event.description,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      location: event.location ?? undefined,
+    }).catch(err => console.error('Webhook error:', err))
+  },
+}
+
+/**
+ * ADJUST_DUES_PLAN
+ * Replaces the active dues plan with a new amount and/or interval.
+ * The new plan is recorded inactive with the proposal; its Stripe price is
+ * created after commit and only then does it replace the current plan, so
+ * a rolled-back proposal never leaves anything in Stripe.
+ */
+const adjustDuesPlanHandler: EffectHandler = {
+  type: BAND_ACTION_EFFECTS.ADJUST_DUES_PLAN,
+
+  async validate(payload, context) {
+    const errors: string[] = []
+    const { amountCents, interval } = payload as { amountCents?: number; interval?: string }
+
+    if (typeof amountCents !== 'number' || !Number.isInteger(amountCents) || amountCents < 50 || amountCents > 99999999) {
+      errors.push('ADJUST_DUES_PLAN: amountCents must be a whole number from 50 to 99999999')
+    }
+
+    if (!interval || !DUES_INTERVALS.includes(interval)) {
+      errors.push(`ADJUST_DUES_PLAN: interval must be one of: ${DUES_INTERVALS.join(', ')}`)
+    }
+
+    const stripeAccount = await prisma.bandStripeAccount.findFirst({
+      where: { bandId: context.bandId, disconnectedAt: null },
+    })
+    if (!stripeAccount) {
+      errors.push('ADJUST_DUES_PLAN: The band must have a connected Stripe account')
+    }
+
+    return errors
+  },
+
+  async describe(payload, context) {
+    const { amountCents, interval } = payload as { amountCents: number; interval: string }
+    const current = await prisma.bandDuesPlan.findFirst({
+      where: { bandId: context.bandId, isActive: true },
+    })
+    return current
+      ? `Change dues from ${formatDues(current.amountCents, current.interval)} to ${formatDues(amountCents, interval)}`
+      : `Start charging dues of ${formatDues(amountCents, interval)}`
+  },
+
+  async execute(payload, context) {
+    const { amountCents, interval } = payload as { amountCents: number; interval: 'month' | 'year' }
+    const db = effectDb(context)
+
+    const stripeAccount = await db.bandStripeAccount.findFirst({
+      where: { bandId: context.bandId, disconnectedAt: null },
+    })
+    if (!stripeAccount) {
+      throw new Error('ADJUST_DUES_PLAN: The band must have a connected Stripe account')
+    }
+
+    const plan = await db.bandDuesPlan.create({
+      data: {
+        bandId: context.bandId,
+        isActive: false,
+        currency: 'usd',
+        amountCents,
+        interval,
+      },
+    })
+
+    return { duesPlanId: plan.id }
+  },
+
+  async afterCommit(payload, context, result) {
+    const duesPlanId = (result as { duesPlanId?: string } | undefined)?.duesPlanId
+    if (!duesPlanId) return
+
+    const plan = await prisma.bandDuesPlan.findUnique({ where: { id: duesPlanId } })
+    const band = await prisma.band.findUnique({
+      where: { id: context.bandId },
+      select: { name: true },
+    })
+    const stripeAccount = await prisma.bandStripeAccount.findFirst({
+      where: { bandId: context.bandId, disconnectedAt: null },
+    })
+    if (!plan || !band || !stripeAccount) {
+      throw new Error('ADJUST_DUES_PLAN: The band no longer has a connected Stripe account; the current dues plan stays in place')
+    }
+
+    const existingProduct = await prisma.bandDuesPlan.findFirst({
+      where: { bandId: context.bandId, stripeProductId: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { stripeProductId: true },
+    })
+
+    const stripeProductId = existingProduct?.stripeProductId ?? (await stripe.products.create({
+      name: `Band Dues — ${band.name}`,
+      metadata: { bandId: context.bandId },
+    }, {
+      stripeAccount: stripeAccount.stripeAccountId,
+    })).id
+
+    // Prices are immutable in Stripe, so every change gets a new one
+    const price = await stripe.prices.create({
+      product: stripeProductId,
+      unit_amount: plan.amountCents,
+      currency: plan.currency,
+      recurring: { interval: plan.interval as 'month' | 'year' },
+    }, {
+      stripeAccount: stripeAccount.stripeAccountId,
+    })
+
+    await prisma.$transaction([
+      prisma.bandDuesPlan.updateMany({
+        where: { bandId: context.bandId, isActive: true },
+        data: { isActive: false },
+      }),
+      prisma.bandDuesPlan.update({
+        where: { id: plan.id },
+        data: { isActive: true, stripeProductId, stripePriceId: price.id },
+      }),
+    ])
+  },
+}
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+/**
+ * Register all band action effect handlers
+ */
+export function registerBandActionEffects(): void {
+  registerEffectHandler(changeMemberRoleHandler)
+  registerEffectHandler(createChannelHandler)
+  registerEffectHandler(createEventHandler)
+  registerEffectHandler(adjustDuesPlanHandler)
+
+  registerSubtypeEffects('BAND_ACTIONS_V1', Object.values(BAND_ACTION_EFFECTS), 'ACTION')
+
+  console.log('Registered BAND_ACTIONS_V1 effect handlers')
+}
@@ -0,0 +1,450 @@
+/**
+ * Band Settings Governance Effects (BAND_SETTINGS_GOVERNANCE_V1)
+ *
+ * This module implements effect handlers for changing a band's voting,
+ * proposal and membership rules through governance proposals.
+ */
+
+import { prisma } from '../../lib/prisma'
+import {
+  DEMOTION_GRACE_DAYS,
+  PARTICIPATION_WINDOW_MIN_DAYS,
+  PARTICIPATION_WINDOW_MAX_DAYS,
+} from '../participation.service'
+import {
+  registerEffectHandler,
+  registerSubtypeEffects,
+  effectDb,
+  type EffectHandler,
+} from '../proposal-effects.service'
+
+// ============================================
+// EFFECT TYPE CONSTANTS
+// ============================================
+
+export const BAND_SETTINGS_EFFECTS = {
+  SET_VOTING_METHOD: 'SET_VOTING_METHOD',
+  SET_VOTING_PERIOD: 'SET_VOTING_PERIOD',
+  SET_QUORUM: 'SET_QUORUM',
+  SET_PROPOSAL_CREATORS: 'SET_PROPOSAL_CREATORS',
+  SET_ROLE_CHANGERS: 'SET_ROLE_CHANGERS',
+  SET_PROPOSAL_REVIEW: 'SET_PROPOSAL_REVIEW',
+  SET_MEMBER_APPROVAL_RULES: 'SET_MEMBER_APPROVAL_RULES',
+  SET_PARTICIPATION_RULE: 'SET_PARTICIPATION_RULE',
+} as const
+
+const VOTING_METHODS = ['SIMPLE_MAJORITY', 'SUPERMAJORITY_66', 'SUPERMAJORITY_75', 'UNANIMOUS']
+const MEMBER_ROLES = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']
+
+const VOTING_METHOD_LABELS: Record<string, string> = {
+  SIMPLE_MAJORITY: 'simple majority',
+  SUPERMAJORITY_66: 'two-thirds supermajority',
+  SUPERMAJORITY_75: 'three-quarters supermajority',
+  UNANIMOUS: 'unanimous',
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+async function getBandSettings(bandId: string) {
+  return prisma.band.findUnique({
+    where: { id: bandId },
+    select: {
+      votingMethod: true,
+      votingPeriodDays: true,
+      votingPeriodHours: true,
+      quorumPercentage: true,
+      whoCanCreateProposals: true,
+      whoCanChangeRoles: true,
+      requireProposalReview: true,
+      memberApprovalThreshold: true,
+      memberApprovalQuorum: true,
+      participationRuleEnabled: true,
+      participationWindowDays: true,
+      participationMinScore: true,
+      participationRuleAction: true,
+    },
+  })
+}
+
+function isPercentage(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= 100
+}
+
+function formatRoles(roles: string[]): string {
+  return roles.map(role => role.replace(/_/g, ' ').toLowerCase()).join(', ')
+}
+
+/**
+ * Validate a role list setting. Founders must stay on the list so the band
+ * can always propose changing it back.
+ */
+function validateRoleList(effectType: string, value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return [`${effectType}: value must be a non-empty list of roles`]
+  }
+
+  const errors: string[] = []
+  for (const role of value) {
+    if (!MEMBER_ROLES.includes(role)) {
+      errors.push(`${effectType}: "${role}" is not a valid role. Valid roles: ${MEMBER_ROLES.join(', ')}`)
+    }
+  }
+  if (!value.includes('FOUNDER')) {
+    errors.push(`${effectType}: FOUNDER must remain in the list`)
+  }
+  return errors
+}
+
+// ============================================
+// EFFECT HANDLERS
+// ============================================
+
+/**
+ * SET_VOTING_METHOD
+ * Changes the threshold proposals need to pass
+ */
+const setVotingMethodHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_VOTING_METHOD,
+
+  async validate(payload) {
+    const { value } = payload as { value?: string }
+
+    if (!value) {
+      return ['SET_VOTING_METHOD: value is required']
+    }
+    if (!VOTING_METHODS.includes(value)) {
+      return [`SET_VOTING_METHOD: value must be one of: ${VOTING_METHODS.join(', ')}`]
+    }
+    return []
+  },
+
+  async describe(payload, context) {
+    const { value } = payload as { value: string }
+    const band = await getBandSettings(context.bandId)
+    return `Change the voting method from ${VOTING_METHOD_LABELS[band?.votingMethod ?? ''] ?? band?.votingMethod} to ${VOTING_METHOD_LABELS[value] ?? value}`
+  },
+
+  async execute(payload, context) {
+    const { value } = payload as { value: 'SIMPLE_MAJORITY' | 'SUPERMAJORITY_66' | 'SUPERMAJORITY_75' | 'UNANIMOUS' }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: { votingMethod: value },
+    })
+  },
+}
+
+/**
+ * SET_VOTING_PERIOD
+ * Sets the default voting period in days. Clears any hour-based period,
+ * which would otherwise take precedence.
+ */
+const setVotingPeriodHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_VOTING_PERIOD,
+
+  async validate(payload) {
+    const { days } = payload as { days?: number }
+
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > 30) {
+      return ['SET_VOTING_PERIOD: days must be a whole number from 1 to 30']
+    }
+    return []
+  },
+
+  async describe(payload, context) {
+    const { days } = payload as { days: number }
+    const band = await getBandSettings(context.bandId)
+    const current = band?.votingPeriodHours
+      ? `${band.votingPeriodHours} hours`
+      : `${band?.votingPeriodDays} days`
+    return `Change the default voting period from ${current} to ${days} days`
+  },
+
+  async execute(payload, context) {
+    const { days } = payload as { days: number }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: { votingPeriodDays: days, votingPeriodHours: null },
+    })
+  },
+}
+
+/**
+ * SET_QUORUM
+ * Sets the share of eligible voters that must take part
+ */
+const setQuorumHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_QUORUM,
+
+  async validate(payload) {
+    const { value } = payload as { value?: number }
+
+    if (!isPercentage(value, 0)) {
+      return ['SET_QUORUM: value must be a whole percentage from 0 to 100']
+    }
+    return []
+  },
+
+  async describe(payload, context) {
+    const { value } = payload as { value: number }
+    const band = await getBandSettings(context.bandId)
+    return `Change the quorum from ${band?.quorumPercentage}% to ${value}% of eligible voters`
+  },
+
+  async execute(payload, context) {
+    const { value } = payload as { value: number }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: { quorumPercentage: value },
+    })
+  },
+}
+
+/**
+ * SET_PROPOSAL_CREATORS
+ * Sets which roles can create proposals
+ */
+const setProposalCreatorsHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_PROPOSAL_CREATORS,
+
+  async validate(payload) {
+    const { value } = payload as { value?: unknown }
+    return validateRoleList('SET_PROPOSAL_CREATORS', value)
+  },
+
+  async describe(payload, context) {
+    const { value } = payload as { value: string[] }
+    const band = await getBandSettings(context.bandId)
+    return `Change who can create proposals from ${formatRoles(band?.whoCanCreateProposals ?? [])} to ${formatRoles(value)}`
+  },
+
+  async execute(payload, context) {
+    const { value } = payload as { value: ('FOUNDER' | 'GOVERNOR' | 'MODERATOR' | 'CONDUCTOR' | 'VOTING_MEMBER' | 'OBSERVER')[] }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: { whoCanCreateProposals: value },
+    })
+  },
+}
+
+/**
+ * SET_ROLE_CHANGERS
+ * Sets which roles can change other members' roles
+ */
+const setRoleChangersHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_ROLE_CHANGERS,
+
+  async validate(payload) {
+    const { value } = payload as { value?: unknown }
+    return validateRoleList('SET_ROLE_CHANGERS', value)
+  },
+
+  async describe(payload, context) {
+    const { value } = payload as { value: string[] }
+    const band = await getBandSettings(context.bandId)
+    return `Change who can change member roles from ${formatRoles(band?.whoCanChangeRoles ?? [])} to ${formatRoles(value)}`
+  },
+
+  async execute(payload, context) {
+    const { value } = payload as { value: ('FOUNDER' | 'GOVERNOR' | 'MODERATOR' | 'CONDUCTOR' | 'VOTING_MEMBER' | 'OBSERVER')[] }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: { whoCanChangeRoles: value },
+    })
+  },
+}
+
+/**
+ * SET_PROPOSAL_REVIEW
+ * Turns the pre-vote review step on or off
+ */
+const setProposalReviewHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_PROPOSAL_REVIEW,
+
+  async validate(payload) {
+    const { value } = payload as { value?: unknown }
+
+    if (typeof value !== 'boolean') {
+      return ['SET_PROPOSAL_REVIEW: value must be true or false']
+    }
+    return []
+  },
+
+  async describe(payload) {
+    const { value } = payload as { value: boolean }
+    return value
+      ? 'Require proposals to be reviewed before voting opens'
+      : 'Stop requiring review - proposals go straight to a vote'
+  },
+
+  async execute(payload, context) {
+    const { value } = payload as { value: boolean }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: { requireProposalReview: value },
+    })
+  },
+}
+
+/**
+ * SET_MEMBER_APPROVAL_RULES
+ * Sets the approval threshold and/or quorum for membership applications
+ */
+const setMemberApprovalRulesHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_MEMBER_APPROVAL_RULES,
+
+  async validate(payload) {
+    const errors: string[] = []
+    const { threshold, quorum } = payload as { threshold?: number; quorum?: number }
+
+    if (threshold === undefined && quorum === undefined) {
+      errors.push('SET_MEMBER_APPROVAL_RULES: threshold or quorum is required')
+      return errors
+    }
+    if (threshold !== undefined && !isPercentage(threshold, 1)) {
+      errors.push('SET_MEMBER_APPROVAL_RULES: threshold must be a whole percentage from 1 to 100')
+    }
+    if (quorum !== undefined && !isPercentage(quorum, 0)) {
+      errors.push('SET_MEMBER_APPROVAL_RULES: quorum must be a whole percentage from 0 to 100')
+    }
+
+    return errors
+  },
+
+  async describe(payload, context) {
+    const { threshold, quorum } = payload as { threshold?: number; quorum?: number }
+    const band = await getBandSettings(context.bandId)
+    const parts: string[] = []
+    if (threshold !== undefined) {
+      parts.push(`approval threshold from ${band?.memberApprovalThreshold}% to ${threshold}%`)
+    }
+    if (quorum !== undefined) {
+      parts.push(`approval quorum from ${band?.memberApprovalQuorum}% to ${quorum}%`)
+    }
+    return `Change the membership ${parts.join(' and ')}`
+  },
+
+  async execute(payload, context) {
+    const { threshold, quorum } = payload as { threshold?: number; quorum?: number }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: {
+        memberApprovalThreshold: threshold,
+        memberApprovalQuorum: quorum,
+      },
+    })
+  },
+}
+
+/**
+ * SET_PARTICIPATION_RULE
+ * Turns the inactivity rule on or off, and sets its window, minimum score
+ * and whether members below it are only flagged or also demoted
+ */
+const setParticipationRuleHandler: EffectHandler = {
+  type: BAND_SETTINGS_EFFECTS.SET_PARTICIPATION_RULE,
+
+  async validate(payload) {
+    const errors: string[] = []
+    const { enabled, windowDays, minScore, action } = payload as {
+      enabled?: unknown
+      windowDays?: unknown
+      minScore?: unknown
+      action?: unknown
+    }
+
+    if (typeof enabled !== 'boolean') {
+      errors.push('SET_PARTICIPATION_RULE: enabled must be true or false')
+    }
+    if (
+      windowDays !== undefined
+      && (typeof windowDays !== 'number' || !Number.isInteger(windowDays)
+        || windowDays < PARTICIPATION_WINDOW_MIN_DAYS || windowDays > PARTICIPATION_WINDOW_MAX_DAYS)
+    ) {
+      errors.push(`SET_PARTICIPATION_RULE: windowDays must be a whole number from ${PARTICIPATION_WINDOW_MIN_DAYS} to ${PARTICIPATION_WINDOW_MAX_DAYS}`)
+    }
+    if (minScore !== undefined && !isPercentage(minScore, 1)) {
+      errors.push('SET_PARTICIPATION_RULE: minScore must be a whole percentage from 1 to 100')
+    }
+    if (action !== undefined && action !== 'FLAG' && action !== 'DEMOTE') {
+      errors.push('SET_PARTICIPATION_RULE: action must be FLAG or DEMOTE')
+    }
+
+    return errors
+  },
+
+  async describe(payload, context) {
+    const { enabled, windowDays, minScore, action } = payload as {
+      enabled: boolean
+      windowDays?: number
+      minScore?: number
+      action?: 'FLAG' | 'DEMOTE'
+    }
+    if (!enabled) {
+      return 'Turn off the participation rule'
+    }
+
+    const band = await getBandSettings(context.bandId)
+    const days = windowDays ?? band?.participationWindowDays
+    const score = minScore ?? band?.participationMinScore
+    const outcome = (action ?? band?.participationRuleAction) === 'DEMOTE'
+      ? `flag them, then move them to observer if still below after ${DEMOTION_GRACE_DAYS} days (founders and governors are only flagged)`
+      : 'flag them'
+    return `${band?.participationRuleEnabled ? 'Change' : 'Turn on'} the participation rule: members scoring below ${score}% over ${days} days - ${outcome}`
+  },
+
+  async execute(payload, context) {
+    const { enabled, windowDays, minScore, action } = payload as {
+      enabled: boolean
+      windowDays?: number
+      minScore?: number
+      action?: 'FLAG' | 'DEMOTE'
+    }
+
+    await effectDb(context).band.update({
+      where: { id: context.bandId },
+      data: {
+        participationRuleEnabled: enabled,
+        participationWindowDays: windowDays,
+        participationMinScore: minScore,
+        participationRuleAction: action,
+      },
+    })
+
+    // Flags raised under the old rule shouldn't count towards the grace period
+    await effectDb(context).member.updateMany({
+      where: { bandId: context.bandId, participationFlaggedAt: { not: null } },
+      data: { participationFlaggedAt: null },
+    })
+  },
+}
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+/**
+ * Register all band settings governance effect handlers
+ */
+export function registerBandSettingsGovernanceEffects(): void {
+  registerEffectHandler(setVotingMethodHandler)
+  registerEffectHandler(setVotingPeriodHandler)
+  registerEffectHandler(setQuorumHandler)
+  registerEffectHandler(setProposalCreatorsHandler)
+  registerEffectHandler(setRoleChangersHandler)
+  registerEffectHandler(setProposalReviewHandler)
+  registerEffectHandler(setMemberApprovalRulesHandler)
+  registerEffectHandler(setParticipationRuleHandler)
+
+  registerSubtypeEffects('BAND_SETTINGS_GOVERNANCE_V1', Object.values(BAND_SETTINGS_EFFECTS))
+
+  console.log('Registered BAND_SETTINGS_GOVERNANCE_V1 effect handlers')
+}
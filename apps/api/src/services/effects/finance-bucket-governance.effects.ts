@@ -9,9 +9,11 @@ import { prisma } from '../../lib/prisma'
 import {
   registerEffectHandler,
   registerSubtypeEffects,
+  effectDb,
   type EffectHandler,
   type EffectContext,
 } from '../proposal-effects.service'
+import { ledgerService } from '../ledger.service'
 
 // ============================================
 // EFFECT TYPE CONSTANTS
@@ -24,6 +26,7 @@ export const FINANCE_BUCKET_EFFECTS = {
   CREATE_BUCKET: 'CREATE_BUCKET',
   UPDATE_BUCKET: 'UPDATE_BUCKET',
   DEACTIVATE_BUCKET: 'DEACTIVATE_BUCKET',
+  TRANSFER_BUCKET_FUNDS: 'TRANSFER_BUCKET_FUNDS',
 } as const
 
 // Execution order (lower = earlier)
@@ -34,6 +37,7 @@ export const EFFECT_EXECUTION_ORDER: Record<string, number> = {
   [FINANCE_BUCKET_EFFECTS.CREATE_BUCKET]: 4,
   [FINANCE_BUCKET_EFFECTS.UPDATE_BUCKET]: 5,
   [FINANCE_BUCKET_EFFECTS.DEACTIVATE_BUCKET]: 6,
+  [FINANCE_BUCKET_EFFECTS.TRANSFER_BUCKET_FUNDS]: 7,
 }
 
 // ============================================
@@ -74,6 +78,21 @@ async function countOperatingBuckets(bandId: string): Promise<number> {
   })
 }
 
+async function memberName(bandId: string, userId: string | undefined): Promise<string> {
+  if (!userId) return 'an unknown member'
+  const member = await prisma.member.findUnique({
+    where: { userId_bandId: { userId, bandId } },
+    include: { user: { select: { name: true } } },
+  })
+  return member?.user.name ?? 'an unknown member'
+}
+
+async function bucketName(bucketId: string | null | undefined): Promise<string> {
+  if (!bucketId) return 'the general fund'
+  const bucket = await prisma.bucket.findUnique({ where: { id: bucketId } })
+  return bucket?.name ?? bucketId
+}
+
 // ============================================
 // EFFECT HANDLERS
 // ============================================
@@ -101,10 +120,15 @@ const setBucketManagementPolicyHandler: EffectHandler = {
     return errors
   },
 
+  async describe(payload) {
+    const { value } = payload as { value?: string }
+    return `Set bucket management to ${value === 'TREASURER_ONLY' ? 'treasurers only' : 'officers'}`
+  },
+
   async execute(payload, context) {
     const { value } = payload as { value: 'TREASURER_ONLY' | 'OFFICER_TIER' }
 
-    await prisma.bandFinanceSettings.upsert({
+    await effectDb(context).bandFinanceSettings.upsert({
       where: { bandId: context.bandId },
       create: {
         bandId: context.bandId,
@@ -160,10 +184,15 @@ const addTreasurerHandler: EffectHandler = {
     return errors
   },
 
+  async describe(payload, context) {
+    const { userId } = payload as { userId?: string }
+    return `Make ${await memberName(context.bandId, userId)} a treasurer`
+  },
+
   async execute(payload, context) {
     const { userId } = payload as { userId: string }
 
-    await prisma.member.update({
+    await effectDb(context).member.update({
       where: {
         userId_bandId: {
           userId,
@@ -225,10 +254,15 @@ const removeTreasurerHandler: EffectHandler = {
     return errors
   },
 
+  async describe(payload, context) {
+    const { userId } = payload as { userId?: string }
+    return `Remove ${await memberName(context.bandId, userId)} as treasurer`
+  },
+
   async execute(payload, context) {
     const { userId } = payload as { userId: string }
 
-    await prisma.member.update({
+    await effectDb(context).member.update({
       where: {
         userId_bandId: {
           userId,
@@ -311,6 +345,11 @@ const createBucketHandler: EffectHandler = {
     return errors
   },
 
+  async describe(payload) {
+    const { bucket } = payload as { bucket?: { name?: string; type?: string; visibility?: string } }
+    return `Create ${bucket?.type?.toLowerCase() ?? ''} bucket "${bucket?.name}" visible to ${bucket?.visibility === 'OFFICERS_ONLY' ? 'officers only' : 'members'}`
+  },
+
   async execute(payload, context) {
     const { bucket } = payload as {
       bucket: {
@@ -320,7 +359,7 @@ const createBucketHandler: EffectHandler = {
       }
     }
 
-    await prisma.bucket.create({
+    await effectDb(context).bucket.create({
       data: {
         bandId: context.bandId,
         name: bucket.name,
@@ -420,6 +459,12 @@ const updateBucketHandler: EffectHandler = {
     return errors
   },
 
+  async describe(payload) {
+    const { bucketId, fields } = payload as { bucketId?: string; fields?: Record<string, unknown> }
+    const changes = Object.entries(fields ?? {}).map(([key, value]) => `${key} to ${String(value)}`)
+    return `Update bucket "${await bucketName(bucketId)}": set ${changes.join(', ')}`
+  },
+
   async execute(payload, context) {
     const { bucketId, fields } = payload as {
       bucketId: string
@@ -430,7 +475,7 @@ const updateBucketHandler: EffectHandler = {
       }
     }
 
-    await prisma.bucket.update({
+    await effectDb(context).bucket.update({
       where: { id: bucketId },
       data: fields,
     })
@@ -484,16 +529,104 @@ const deactivateBucketHandler: EffectHandler = {
     return errors
   },
 
+  async describe(payload) {
+    const { bucketId } = payload as { bucketId?: string }
+    return `Deactivate bucket "${await bucketName(bucketId)}"`
+  },
+
   async execute(payload, context) {
     const { bucketId } = payload as { bucketId: string }
 
-    await prisma.bucket.update({
+    await effectDb(context).bucket.update({
       where: { id: bucketId },
       data: { isActive: false },
     })
   },
 }
 
+/**
+ * TRANSFER_BUCKET_FUNDS
+ * Moves money between buckets (null = general fund).
+ * Required for transfers out of RESTRICTED or COMMITMENT buckets.
+ */
+const transferBucketFundsHandler: EffectHandler = {
+  type: FINANCE_BUCKET_EFFECTS.TRANSFER_BUCKET_FUNDS,
+
+  async validate(payload, context) {
+    const errors: string[] = []
+    const { fromBucketId, toBucketId, amount } = payload as {
+      fromBucketId?: string | null
+      toBucketId?: string | null
+      amount?: number
+    }
+
+    if (fromBucketId === undefined || toBucketId === undefined) {
+      errors.push('TRANSFER_BUCKET_FUNDS: fromBucketId and toBucketId are required (null = general fund)')
+      return errors
+    }
+
+    if (fromBucketId === toBucketId) {
+      errors.push('TRANSFER_BUCKET_FUNDS: fromBucketId and toBucketId must differ')
+      return errors
+    }
+
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+      errors.push('TRANSFER_BUCKET_FUNDS: amount must be a positive number of cents')
+      return errors
+    }
+
+    // Check both buckets exist, belong to band and are active
+    for (const [field, bucketId] of [['fromBucketId', fromBucketId], ['toBucketId', toBucketId]] as const) {
+      if (!bucketId) continue
+      const bucket = await prisma.bucket.findUnique({
+        where: { id: bucketId },
+      })
+      if (!bucket || bucket.bandId !== context.bandId) {
+        errors.push(`TRANSFER_BUCKET_FUNDS: ${field} ${bucketId} not found in this band`)
+      } else if (!bucket.isActive) {
+        errors.push(`TRANSFER_BUCKET_FUNDS: Bucket "${bucket.name}" is inactive`)
+      }
+    }
+
+    if (errors.length > 0) return errors
+
+    const available = await ledgerService.getAvailableBalance(context.bandId, fromBucketId)
+    if (available < amount) {
+      errors.push(`TRANSFER_BUCKET_FUNDS: Insufficient uncommitted funds (${available} cents available, ${amount} requested)`)
+    }
+
+    return errors
+  },
+
+  async describe(payload) {
+    const { fromBucketId, toBucketId, amount } = payload as {
+      fromBucketId?: string | null
+      toBucketId?: string | null
+      amount?: number
+    }
+    return `Transfer $${((amount ?? 0) / 100).toFixed(2)} from ${await bucketName(fromBucketId)} to ${await bucketName(toBucketId)}`
+  },
+
+  async execute(payload, context) {
+    const { fromBucketId, toBucketId, amount, description } = payload as {
+      fromBucketId: string | null
+      toBucketId: string | null
+      amount: number
+      description?: string
+    }
+
+    await ledgerService.transfer({
+      bandId: context.bandId,
+      fromBucketId,
+      toBucketId,
+      amount,
+      description: description || 'Transfer approved by proposal',
+      createdById: context.executedById,
+      proposalId: context.proposalId,
+    }, context.tx)
+  },
+}
+
 // ============================================
 // REGISTRATION
 // ============================================
@@ -509,6 +642,7 @@ export function registerFinanceBucketGovernanceEffects(): void {
   registerEffectHandler(createBucketHandler)
   registerEffectHandler(updateBucketHandler)
   registerEffectHandler(deactivateBucketHandler)
+  registerEffectHandler(transferBucketFundsHandler)
 
   // Register subtype with allowed effects
   registerSubtypeEffects('FINANCE_BUCKET_GOVERNANCE_V1', [
@@ -518,6 +652,7 @@ export function registerFinanceBucketGovernanceEffects(): void {
     FINANCE_BUCKET_EFFECTS.CREATE_BUCKET,
     FINANCE_BUCKET_EFFECTS.UPDATE_BUCKET,
     FINANCE_BUCKET_EFFECTS.DEACTIVATE_BUCKET,
+    FINANCE_BUCKET_EFFECTS.TRANSFER_BUCKET_FUNDS,
   ])
 
   console.log('Registered FINANCE_BUCKET_GOVERNANCE_V1 effect handlers')
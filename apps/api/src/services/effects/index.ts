@@ -6,9 +6,13 @@
  */
 
 import { registerFinanceBucketGovernanceEffects } from './finance-bucket-governance.effects'
+import { registerBandSettingsGovernanceEffects } from './band-settings-governance.effects'
+import { registerBandActionEffects } from './band-actions.effects'
 
 // Re-export for direct access
 export * from './finance-bucket-governance.effects'
+export * from './band-settings-governance.effects'
+export * from './band-actions.effects'
 
 /**
  * Initialize all effect handlers
@@ -16,8 +20,8 @@ export * from './finance-bucket-governance.effects'
  */
 export function initializeEffectHandlers(): void {
   registerFinanceBucketGovernanceEffects()
+  registerBandSettingsGovernanceEffects()
+  registerBandActionEffects()
 
   // Add future effect handler registrations here
-  // e.g., registerMembershipGovernanceEffects()
-  // e.g., registerVotingGovernanceEffects()
 }
@@ -0,0 +1,694 @@
+/**
+ * Ledger Service
+ *
+ * Double-entry ledger for band finances. Confirmed donations, confirmed manual
+ * dues payments, Stripe dues invoices and reimbursed checklist expenses each
+ * post one transaction; treasurers (or governance proposals) post transfers
+ * between buckets. Every transaction's entries sum to zero. Postings are
+ * never edited: money that comes back out (a refund, a lost chargeback, a
+ * disputed payout) gets a REVERSAL transaction linked to the original.
+ *
+ * Sign convention: money accounts (BUCKET, GENERAL_FUND) are positive when
+ * money comes in, income accounts are credited (negative) and expense
+ * accounts are debited (positive).
+ */
+
+import { Prisma, LedgerAccount, LedgerSourceType, LedgerTransactionKind } from '@prisma/client'
+import { prisma } from '../lib/prisma'
+
+// Buckets that can only be drawn down through a governance proposal
+export const GOVERNED_BUCKET_TYPES = ['RESTRICTED', 'COMMITMENT'] as const
+
+interface EntryInput {
+  account: LedgerAccount
+  bucketId?: string | null
+  amount: number
+}
+
+interface PostTransactionInput {
+  bandId: string
+  kind: LedgerTransactionKind
+  description: string
+  occurredAt: Date
+  sourceType?: LedgerSourceType
+  sourceId?: string
+  createdById?: string | null
+  proposalId?: string | null
+  budgetReservationId?: string | null
+  reversesId?: string
+  entries: EntryInput[]
+}
+
+/** Where money sits: a specific bucket, or the general fund when bucketId is null */
+interface MoneyAccount {
+  account: LedgerAccount
+  bucketId: string | null
+}
+
+const GENERAL_FUND: MoneyAccount = { account: 'GENERAL_FUND', bucketId: null }
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`
+
+// ============================================
+// POSTING
+// ============================================
+
+/**
+ * Post a balanced transaction.
+ * Postings tied to a source record are idempotent - a second post for the
+ * same (sourceType, sourceId) returns the existing transaction.
+ */
+async function postTransaction(
+  input: PostTransactionInput,
+  db: Prisma.TransactionClient = prisma
+) {
+  const total = input.entries.reduce((sum, e) => sum + e.amount, 0)
+  if (total !== 0) {
+    throw new Error(`Ledger transaction does not balance (off by ${total} cents)`)
+  }
+
+  if (input.sourceType && input.sourceId) {
+    const existing = await db.ledgerTransaction.findUnique({
+      where: { sourceType_sourceId: { sourceType: input.sourceType, sourceId: input.sourceId } },
+    })
+    if (existing) return existing
+  }
+
+  try {
+    return await db.ledgerTransaction.create({
+      data: {
+        bandId: input.bandId,
+        kind: input.kind,
+        description: input.description.slice(0, 255),
+        occurredAt: input.occurredAt,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        createdById: input.createdById ?? null,
+        proposalId: input.proposalId ?? null,
+        budgetReservationId: input.budgetReservationId ?? null,
+        reversesId: input.reversesId,
+        entries: {
+          create: input.entries.map(e => ({
+            bandId: input.bandId,
+            account: e.account,
+            bucketId: e.bucketId ?? null,
+            amount: e.amount,
+          })),
+        },
+      },
+    })
+  } catch (error) {
+    // Lost a race with a concurrent post of the same source record or reversal
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      if (input.sourceType && input.sourceId) {
+        return db.ledgerTransaction.findUniqueOrThrow({
+          where: { sourceType_sourceId: { sourceType: input.sourceType, sourceId: input.sourceId } },
+        })
+      }
+      if (input.reversesId) {
+        return db.ledgerTransaction.findUniqueOrThrow({ where: { reversesId: input.reversesId } })
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Resolve the money account for a bucket id, falling back to the general fund
+ * when the bucket is missing, inactive or belongs to another band
+ */
+async function resolveMoneyAccount(bandId: string, bucketId: string | null | undefined): Promise<MoneyAccount> {
+  if (!bucketId) return GENERAL_FUND
+
+  const bucket = await prisma.bucket.findUnique({ where: { id: bucketId } })
+  if (!bucket || bucket.bandId !== bandId || !bucket.isActive) return GENERAL_FUND
+
+  return { account: 'BUCKET', bucketId: bucket.id }
+}
+
+/**
+ * Dues land in, and reimbursements are paid from, the band's OPERATING bucket
+ */
+async function operatingAccount(bandId: string): Promise<MoneyAccount> {
+  const bucket = await prisma.bucket.findFirst({
+    where: { bandId, type: 'OPERATING', isActive: true },
+  })
+  return bucket ? { account: 'BUCKET', bucketId: bucket.id } : GENERAL_FUND
+}
+
+/**
+ * Post a confirmed donation to the band's default donation bucket
+ */
+export async function postDonation(donationId: string) {
+  const donation = await prisma.donation.findUnique({
+    where: { id: donationId },
+    include: { band: { select: { financeSettings: { select: { donationDefaultBucketId: true } } } } },
+  })
+  if (!donation || donation.status !== 'CONFIRMED') return null
+
+  const target = await resolveMoneyAccount(
+    donation.bandId,
+    donation.band.financeSettings?.donationDefaultBucketId
+  )
+
+  return postTransaction({
+    bandId: donation.bandId,
+    kind: 'RECEIPT',
+    description: `Donation ${formatCents(donation.amount)} (${donation.paymentMethod.toLowerCase()})`,
+    occurredAt: donation.confirmedAt ?? new Date(),
+    sourceType: 'DONATION',
+    sourceId: donation.id,
+    createdById: donation.confirmedById,
+    entries: [
+      { ...target, amount: donation.amount },
+      { account: 'DONATION_INCOME', amount: -donation.amount },
+    ],
+  })
+}
+
+/**
+ * Post a confirmed (or auto-confirmed) manual dues payment
+ */
+export async function postManualPayment(paymentId: string) {
+  const payment = await prisma.manualPayment.findUnique({
+    where: { id: paymentId },
+    include: { memberUser: { select: { name: true } } },
+  })
+  if (!payment || (payment.status !== 'CONFIRMED' && payment.status !== 'AUTO_CONFIRMED')) return null
+
+  const target = await operatingAccount(payment.bandId)
+
+  return postTransaction({
+    bandId: payment.bandId,
+    kind: 'RECEIPT',
+    description: `Dues from ${payment.memberUser.name} ${formatCents(payment.amount)} (${payment.paymentMethod.toLowerCase()})`,
+    occurredAt: payment.paymentDate,
+    sourceType: 'MANUAL_PAYMENT',
+    sourceId: payment.id,
+    createdById: payment.confirmedById ?? payment.resolvedById,
+    entries: [
+      { ...target, amount: payment.amount },
+      { account: 'DUES_INCOME', amount: -payment.amount },
+    ],
+  })
+}
+
+/**
+ * Post a paid Stripe dues invoice (called from the Stripe Connect webhook)
+ */
+export async function postStripeDuesInvoice(input: {
+  bandId: string
+  invoiceId: string
+  amount: number
+  memberName?: string | null
+  paidAt: Date
+}) {
+  if (input.amount <= 0) return null
+
+  const target = await operatingAccount(input.bandId)
+
+  return postTransaction({
+    bandId: input.bandId,
+    kind: 'RECEIPT',
+    description: `Dues${input.memberName ? ` from ${input.memberName}` : ''} ${formatCents(input.amount)} (card)`,
+    occurredAt: input.paidAt,
+    sourceType: 'STRIPE_DUES',
+    sourceId: input.invoiceId,
+    entries: [
+      { ...target, amount: input.amount },
+      { account: 'DUES_INCOME', amount: -input.amount },
+    ],
+  })
+}
+
+/**
+ * Ledger source id for an item's current payout. An item can be paid more
+ * than once (paid, disputed, resubmitted, paid again), so each payout is
+ * keyed by when it was made rather than by the item alone.
+ */
+export function reimbursementSourceId(item: { id: string; reimbursedAt: Date | null }): string {
+  return item.reimbursedAt ? `${item.id}:${item.reimbursedAt.getTime()}` : item.id
+}
+
+/**
+ * Post a reimbursed checklist item expense. Items on a budget-backed project
+ * are paid from the proposal's reserved bucket, everything else from the
+ * OPERATING bucket.
+ */
+export async function postReimbursement(itemId: string) {
+  const item = await prisma.checklistItem.findUnique({
+    where: { id: itemId },
+    include: {
+      task: {
+        select: {
+          bandId: true,
+          name: true,
+          project: { select: { proposal: { select: { budgetReservation: true } } } },
+        },
+      },
+    },
+  })
+  if (!item || !item.expenseAmount || item.expenseAmount <= 0) return null
+  if (item.reimbursementStatus !== 'REIMBURSED' && item.reimbursementStatus !== 'CONFIRMED') return null
+
+  const reservation = item.task.project?.proposal.budgetReservation
+  const activeReservation = reservation && !reservation.releasedAt ? reservation : null
+  const source = activeReservation
+    ? await resolveMoneyAccount(item.task.bandId, activeReservation.bucketId)
+    : await operatingAccount(item.task.bandId)
+
+  return postTransaction({
+    bandId: item.task.bandId,
+    kind: 'EXPENSE',
+    description: `Reimbursement: ${item.description} (${item.task.name})`,
+    occurredAt: item.reimbursedAt ?? new Date(),
+    sourceType: 'REIMBURSEMENT',
+    sourceId: reimbursementSourceId(item),
+    createdById: item.reimbursedById,
+    budgetReservationId: activeReservation?.id,
+    entries: [
+      { ...source, amount: -item.expenseAmount },
+      { account: 'REIMBURSED_EXPENSES', amount: item.expenseAmount },
+    ],
+  })
+}
+
+/**
+ * Cancel a source record's posting with an equal and opposite REVERSAL,
+ * drawn against the same budget reservation. Returns null if the record
+ * never posted; reversing again returns the existing reversal.
+ */
+export async function reverseSourcePosting(input: {
+  sourceType: LedgerSourceType
+  sourceId: string
+  reason: string
+  createdById?: string | null
+}) {
+  const original = await prisma.ledgerTransaction.findUnique({
+    where: { sourceType_sourceId: { sourceType: input.sourceType, sourceId: input.sourceId } },
+    include: { entries: true, reversedBy: true },
+  })
+  if (!original) return null
+  if (original.reversedBy) return original.reversedBy
+
+  return postTransaction({
+    bandId: original.bandId,
+    kind: 'REVERSAL',
+    description: `Reversal (${input.reason}): ${original.description}`,
+    occurredAt: new Date(),
+    createdById: input.createdById,
+    budgetReservationId: original.budgetReservationId,
+    reversesId: original.id,
+    entries: original.entries.map(e => ({
+      account: e.account,
+      bucketId: e.bucketId,
+      amount: -e.amount,
+    })),
+  })
+}
+
+// ============================================
+// TRANSFERS
+// ============================================
+
+/**
+ * Move money between buckets (null = general fund).
+ * Callers are responsible for authorization - this only checks the buckets
+ * and that the source has enough money. Pass `tx` to post inside a
+ * caller's transaction instead of a new one.
+ */
+export async function transfer(input: {
+  bandId: string
+  fromBucketId: string | null
+  toBucketId: string | null
+  amount: number
+  description: string
+  createdById?: string | null
+  proposalId?: string | null
+}, tx?: Prisma.TransactionClient) {
+  const { bandId, fromBucketId, toBucketId, amount } = input
+
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error('Transfer amount must be a positive number of cents')
+  }
+  if (fromBucketId === toBucketId) {
+    throw new Error('Cannot transfer to the same bucket')
+  }
+
+  const from = await requireMoneyAccount(bandId, fromBucketId)
+  const to = await requireMoneyAccount(bandId, toBucketId)
+
+  const post = async (db: Prisma.TransactionClient) => {
+    const available = await availableIn(bandId, from, db)
+    if (available < amount) {
+      throw new Error(`Insufficient uncommitted funds: ${formatCents(available)} available`)
+    }
+
+    return postTransaction({
+      bandId,
+      kind: 'TRANSFER',
+      description: input.description,
+      occurredAt: new Date(),
+      createdById: input.createdById,
+      proposalId: input.proposalId,
+      entries: [
+        { ...from, amount: -amount },
+        { ...to, amount },
+      ],
+    }, db)
+  }
+
+  if (tx) return post(tx)
+  return prisma.$transaction(post, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+}
+
+async function requireMoneyAccount(bandId: string, bucketId: string | null): Promise<MoneyAccount> {
+  if (!bucketId) return GENERAL_FUND
+
+  const bucket = await prisma.bucket.findUnique({ where: { id: bucketId } })
+  if (!bucket || bucket.bandId !== bandId) {
+    throw new Error('Bucket not found')
+  }
+  if (!bucket.isActive) {
+    throw new Error(`Bucket "${bucket.name}" is inactive`)
+  }
+  return { account: 'BUCKET', bucketId: bucket.id }
+}
+
+// ============================================
+// BALANCES
+// ============================================
+
+async function balanceOf(
+  bandId: string,
+  money: MoneyAccount,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const result = await db.ledgerEntry.aggregate({
+    where: { bandId, account: money.account, bucketId: money.bucketId },
+    _sum: { amount: true },
+  })
+  return result._sum.amount ?? 0
+}
+
+/**
+ * Money in a bucket that is held back for approved budgets: each active
+ * reservation's amount less what has already been paid out against it
+ */
+async function committedIn(
+  bucketId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const reservations = await db.budgetReservation.findMany({
+    where: { bucketId, releasedAt: null },
+    select: {
+      amount: true,
+      transactions: { select: { entries: { where: { bucketId }, select: { amount: true } } } },
+    },
+  })
+
+  return reservations.reduce((sum, r) => {
+    const paidOut = -r.transactions.flatMap(t => t.entries).reduce((s, e) => s + e.amount, 0)
+    return sum + Math.max(0, r.amount - paidOut)
+  }, 0)
+}
+
+async function availableIn(
+  bandId: string,
+  money: MoneyAccount,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const balance = await balanceOf(bandId, money, db)
+  return money.bucketId ? balance - (await committedIn(money.bucketId, db)) : balance
+}
+
+/**
+ * Current balance of a bucket (null = general fund)
+ */
+export async function getBalance(bandId: string, bucketId: string | null): Promise<number> {
+  return balanceOf(bandId, bucketId ? { account: 'BUCKET', bucketId } : GENERAL_FUND)
+}
+
+/**
+ * Balance less funds committed to approved budgets (null = general fund)
+ */
+export async function getAvailableBalance(bandId: string, bucketId: string | null): Promise<number> {
+  return availableIn(bandId, bucketId ? { account: 'BUCKET', bucketId } : GENERAL_FUND)
+}
+
+/**
+ * Balances for every bucket plus the general fund, and how much of each
+ * bucket is committed to approved budgets
+ */
+export async function getBalances(bandId: string) {
+  const [bucketSums, generalFund, reservations] = await Promise.all([
+    prisma.ledgerEntry.groupBy({
+      by: ['bucketId'],
+      where: { bandId, account: 'BUCKET' },
+      _sum: { amount: true },
+    }),
+    balanceOf(bandId, GENERAL_FUND),
+    prisma.budgetReservation.findMany({
+      where: { bandId, releasedAt: null },
+      select: { bucketId: true },
+      distinct: ['bucketId'],
+    }),
+  ])
+
+  const buckets: Record<string, number> = {}
+  for (const row of bucketSums) {
+    if (row.bucketId) buckets[row.bucketId] = row._sum.amount ?? 0
+  }
+
+  const committed: Record<string, number> = {}
+  for (const { bucketId } of reservations) {
+    committed[bucketId] = await committedIn(bucketId)
+  }
+
+  const total = generalFund + Object.values(buckets).reduce((sum, b) => sum + b, 0)
+
+  return { buckets, committed, generalFund, total }
+}
+
+/**
+ * Entries for one bucket (null = general fund), newest first, with the
+ * running balance after each entry
+ */
+export async function getAccountLedger(bandId: string, bucketId: string | null, limit = 50) {
+  const money = bucketId ? { account: 'BUCKET' as const, bucketId } : GENERAL_FUND
+
+  const entries = await prisma.ledgerEntry.findMany({
+    where: { bandId, account: money.account, bucketId: money.bucketId },
+    include: {
+      transaction: {
+        select: {
+          id: true,
+          kind: true,
+          description: true,
+          occurredAt: true,
+          sourceType: true,
+          sourceId: true,
+          proposalId: true,
+          reconciledAt: true,
+          createdBy: { select: { id: true, name: true } },
+        },
+      },
+    },
+  })
+
+  entries.sort((a, b) =>
+    a.transaction.occurredAt.getTime() - b.transaction.occurredAt.getTime() ||
+    a.createdAt.getTime() - b.createdAt.getTime()
+  )
+
+  let running = 0
+  const withBalance = entries.map(entry => {
+    running += entry.amount
+    return {
+      id: entry.id,
+      amount: entry.amount,
+      balance: running,
+      transaction: entry.transaction,
+    }
+  })
+
+  return {
+    balance: running,
+    entries: withBalance.reverse().slice(0, limit),
+  }
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+async function findUnposted(bandId: string) {
+  const posted = await prisma.ledgerTransaction.findMany({
+    where: { bandId, sourceType: { not: null } },
+    select: { sourceType: true, sourceId: true },
+  })
+  const postedIds = (type: LedgerSourceType) =>
+    posted.filter(p => p.sourceType === type).map(p => p.sourceId!)
+
+  const postedPayouts = new Set(postedIds('REIMBURSEMENT'))
+
+  const [donations, manualPayments, paidItems] = await Promise.all([
+    prisma.donation.findMany({
+      where: { bandId, status: 'CONFIRMED', id: { notIn: postedIds('DONATION') } },
+      select: { id: true, amount: true, confirmedAt: true, paymentMethod: true },
+    }),
+    prisma.manualPayment.findMany({
+      where: {
+        bandId,
+        status: { in: ['CONFIRMED', 'AUTO_CONFIRMED'] },
+        id: { notIn: postedIds('MANUAL_PAYMENT') },
+      },
+      select: { id: true, amount: true, paymentDate: true, paymentMethod: true },
+    }),
+    prisma.checklistItem.findMany({
+      where: {
+        task: { bandId },
+        expenseAmount: { gt: 0 },
+        reimbursementStatus: { in: ['REIMBURSED', 'CONFIRMED'] },
+      },
+      select: { id: true, description: true, expenseAmount: true, reimbursedAt: true },
+    }),
+  ])
+
+  // Only the item's latest payout counts; earlier ones may have been reversed
+  const reimbursements = paidItems.filter(item => !postedPayouts.has(reimbursementSourceId(item)))
+
+  return { donations, manualPayments, reimbursements }
+}
+
+/**
+ * Compare source records against what the ledger has recorded:
+ * totals per source, records that never posted, and transactions not yet
+ * checked off against a bank or processor statement
+ */
+export async function getReconciliation(bandId: string) {
+  const [bySource, donationTotal, manualTotal, reimbursementTotal, unposted, unreconciled, balances] =
+    await Promise.all([
+      // Reversed postings no longer count; their source records have left
+      // the confirmed totals below too
+      prisma.ledgerTransaction.findMany({
+        where: { bandId, sourceType: { not: null }, reversedBy: { is: null } },
+        select: { sourceType: true, entries: { select: { account: true, amount: true } } },
+      }),
+      prisma.donation.aggregate({
+        where: { bandId, status: 'CONFIRMED' },
+        _sum: { amount: true },
+      }),
+      prisma.manualPayment.aggregate({
+        where: { bandId, status: { in: ['CONFIRMED', 'AUTO_CONFIRMED'] } },
+        _sum: { amount: true },
+      }),
+      prisma.checklistItem.aggregate({
+        where: {
+          task: { bandId },
+          expenseAmount: { gt: 0 },
+          reimbursementStatus: { in: ['REIMBURSED', 'CONFIRMED'] },
+        },
+        _sum: { expenseAmount: true },
+      }),
+      findUnposted(bandId),
+      prisma.ledgerTransaction.findMany({
+        where: { bandId, reconciledAt: null },
+        orderBy: { occurredAt: 'asc' },
+        take: 100,
+        select: {
+          id: true,
+          kind: true,
+          description: true,
+          occurredAt: true,
+          sourceType: true,
+          entries: { select: { account: true, bucketId: true, amount: true } },
+        },
+      }),
+      getBalances(bandId),
+    ])
+
+  // Money-side amount of each posting, by source
+  const ledgerTotals: Record<LedgerSourceType, number> = {
+    DONATION: 0,
+    MANUAL_PAYMENT: 0,
+    STRIPE_DUES: 0,
+    REIMBURSEMENT: 0,
+  }
+  for (const t of bySource) {
+    const moved = t.entries
+      .filter(e => e.account === 'BUCKET' || e.account === 'GENERAL_FUND')
+      .reduce((sum, e) => sum + e.amount, 0)
+    ledgerTotals[t.sourceType!] += Math.abs(moved)
+  }
+
+  const sources = [
+    { sourceType: 'DONATION' as const, recorded: donationTotal._sum.amount ?? 0 },
+    { sourceType: 'MANUAL_PAYMENT' as const, recorded: manualTotal._sum.amount ?? 0 },
+    // Stripe invoices have no local record - the Stripe dashboard is the source of truth
+    { sourceType: 'STRIPE_DUES' as const, recorded: null },
+    { sourceType: 'REIMBURSEMENT' as const, recorded: reimbursementTotal._sum.expenseAmount ?? 0 },
+  ].map(s => ({
+    ...s,
+    posted: ledgerTotals[s.sourceType],
+    difference: s.recorded === null ? 0 : s.recorded - ledgerTotals[s.sourceType],
+  }))
+
+  return {
+    balances,
+    sources,
+    unposted,
+    unpostedCount:
+      unposted.donations.length + unposted.manualPayments.length + unposted.reimbursements.length,
+    unreconciled,
+  }
+}
+
+/**
+ * Post every confirmed source record that is missing from the ledger
+ * (records confirmed before the ledger existed, or whose posting failed)
+ */
+export async function postMissing(bandId: string): Promise<number> {
+  const unposted = await findUnposted(bandId)
+  let posted = 0
+
+  for (const d of unposted.donations) {
+    if (await postDonation(d.id)) posted++
+  }
+  for (const p of unposted.manualPayments) {
+    if (await postManualPayment(p.id)) posted++
+  }
+  for (const r of unposted.reimbursements) {
+    if (await postReimbursement(r.id)) posted++
+  }
+
+  return posted
+}
+
+/**
+ * Mark transactions as matched against a statement
+ */
+export async function markReconciled(bandId: string, transactionIds: string[], userId: string): Promise<number> {
+  const result = await prisma.ledgerTransaction.updateMany({
+    where: { bandId, id: { in: transactionIds }, reconciledAt: null },
+    data: { reconciledAt: new Date(), reconciledById: userId },
+  })
+  return result.count
+}
+
+export const ledgerService = {
+  postDonation,
+  postManualPayment,
+  postStripeDuesInvoice,
+  postReimbursement,
+  reimbursementSourceId,
+  reverseSourcePosting,
+  transfer,
+  getBalance,
+  getAvailableBalance,
+  getBalances,
+  getAccountLedger,
+  getReconciliation,
+  postMissing,
+  markReconciled,
+}
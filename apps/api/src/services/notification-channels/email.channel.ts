@@ -0,0 +1,32 @@
+import { prisma } from '../../lib/prisma'
+import { emailService } from '../../server/services/email.service'
+import type { NotificationChannel } from './types'
+
+export const emailChannel: NotificationChannel = {
+  id: 'email',
+  interruptive: false,
+
+  isAvailable() {
+    return true
+  },
+
+  async deliver(notification, recipient) {
+    const result = await emailService.sendNotificationEmail({
+      email: recipient.email,
+      userName: recipient.name,
+      type: notification.type,
+      locale: recipient.locale,
+      values: notification.values,
+      title: notification.title,
+      message: notification.message,
+      actionUrl: notification.actionUrl,
+    })
+
+    if (result.success && notification.id) {
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { emailedAt: new Date() },
+      })
+    }
+  },
+}
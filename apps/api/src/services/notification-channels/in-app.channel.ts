@@ -0,0 +1,19 @@
+import { publishUserEvent } from '../../lib/realtime'
+import type { NotificationChannel } from './types'
+
+/**
+ * In-app notifications are the stored rows themselves; delivering one just
+ * tells the user's open tabs to refresh their bell.
+ */
+export const inAppChannel: NotificationChannel = {
+  id: 'inApp',
+  interruptive: false,
+
+  isAvailable() {
+    return true
+  },
+
+  async deliver(notification) {
+    publishUserEvent(notification.userId, { type: 'notification.created' })
+  },
+}
@@ -0,0 +1,24 @@
+/**
+ * Notification Channels
+ *
+ * Every way a notification can reach a user. notificationService decides
+ * which channels a notification goes to; each channel only knows how to
+ * deliver on its own medium.
+ */
+
+import type { NotificationChannelId } from '../../lib/notification-catalog'
+import type { NotificationChannel } from './types'
+import { inAppChannel } from './in-app.channel'
+import { emailChannel } from './email.channel'
+import { pushChannel } from './push.channel'
+import { smsChannel } from './sms.channel'
+
+export type { NotificationChannel, OutgoingNotification, NotificationRecipient } from './types'
+export type { SmsProvider } from './sms.channel'
+
+export const notificationChannels: Record<NotificationChannelId, NotificationChannel> = {
+  inApp: inAppChannel,
+  email: emailChannel,
+  push: pushChannel,
+  sms: smsChannel,
+}
@@ -0,0 +1,47 @@
+import { prisma } from '../../lib/prisma'
+import { isWebPushConfigured, sendWebPush } from '../../lib/web-push'
+import type { NotificationChannel } from './types'
+
+/**
+ * Web Push to every browser the user subscribed. Subscriptions the push
+ * service reports as gone are deleted.
+ */
+export const pushChannel: NotificationChannel = {
+  id: 'push',
+  interruptive: true,
+
+  isAvailable() {
+    return isWebPushConfigured()
+  },
+
+  async deliver(notification, recipient) {
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: recipient.id },
+    })
+
+    // Read by the service worker (apps/web/public/push-sw.js)
+    const payload = {
+      title: notification.title,
+      body: notification.message ?? undefined,
+      url: notification.actionUrl ?? '/notifications',
+      tag: notification.id ?? undefined,
+    }
+
+    await Promise.all(subscriptions.map(async (subscription) => {
+      const result = await sendWebPush(subscription, payload, {
+        urgent: notification.priority === 'URGENT' || notification.priority === 'HIGH',
+      })
+
+      if (result.ok) {
+        await prisma.pushSubscription.update({
+          where: { id: subscription.id },
+          data: { lastUsedAt: new Date() },
+        })
+      } else if (result.expired) {
+        await prisma.pushSubscription.deleteMany({ where: { id: subscription.id } })
+      } else {
+        console.error(`Push delivery failed with status ${result.status}`)
+      }
+    }))
+  },
+}
@@ -0,0 +1,59 @@
+import type { NotificationChannel } from './types'
+
+/**
+ * Sends text messages. Only a logging stand-in ships today; a real provider
+ * (Twilio, SNS, ...) implements this and is selected with SMS_PROVIDER.
+ */
+export interface SmsProvider {
+  name: string
+  send(to: string, body: string): Promise<void>
+}
+
+export const loggingSmsProvider: SmsProvider = {
+  name: 'log',
+
+  async send(to, body) {
+    console.log('\n=================================')
+    console.log(`📱 SMS TO: ${to}`)
+    console.log(`📱 ${body}`)
+    console.log('=================================\n')
+  },
+}
+
+const SMS_PROVIDERS: Record<string, SmsProvider> = {
+  log: loggingSmsProvider,
+}
+
+// Outside production the logging stand-in is on by default
+const SMS_PROVIDER = process.env.SMS_PROVIDER || (process.env.NODE_ENV !== 'production' ? 'log' : undefined)
+
+function getSmsProvider(): SmsProvider | null {
+  if (!SMS_PROVIDER) return null
+  return SMS_PROVIDERS[SMS_PROVIDER] ?? null
+}
+
+// Single-segment texts: title, then the link if there's room
+const SMS_MAX_LENGTH = 160
+
+export const smsChannel: NotificationChannel = {
+  id: 'sms',
+  interruptive: true,
+
+  isAvailable() {
+    return !!getSmsProvider()
+  },
+
+  async deliver(notification, recipient) {
+    const provider = getSmsProvider()
+    if (!provider || !recipient.smsPhoneNumber) return
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000'
+    const link = notification.actionUrl ? ` ${frontendUrl}${notification.actionUrl}` : ''
+    const text = `Band IT: ${notification.title}`
+    const body = text.length + link.length <= SMS_MAX_LENGTH
+      ? text + link
+      : text.slice(0, SMS_MAX_LENGTH)
+
+    await provider.send(recipient.smsPhoneNumber, body)
+  },
+}
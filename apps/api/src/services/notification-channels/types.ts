@@ -0,0 +1,35 @@
+import type { NotificationPriority, NotificationType } from '@prisma/client'
+import type { NotificationChannelId } from '../../lib/notification-catalog'
+
+/**
+ * A notification on its way out, after templates are filled in. `id` is
+ * null when the user turned in-app off for this type, so nothing was stored.
+ */
+export interface OutgoingNotification {
+  id: string | null
+  userId: string
+  type: NotificationType
+  title: string
+  message: string | null
+  actionUrl: string | null
+  priority: NotificationPriority
+  /** Template variables: the caller's metadata plus built-ins */
+  values: Record<string, unknown>
+}
+
+export interface NotificationRecipient {
+  id: string
+  name: string
+  email: string
+  smsPhoneNumber: string | null
+  locale: string | null
+}
+
+export interface NotificationChannel {
+  id: NotificationChannelId
+  /** Not sent at all during the recipient's quiet hours unless the notification is urgent */
+  interruptive: boolean
+  /** Whether this deployment can deliver on the channel at all */
+  isAvailable(): boolean
+  deliver(notification: OutgoingNotification, recipient: NotificationRecipient): Promise<void>
+}
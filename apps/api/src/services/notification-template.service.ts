@@ -0,0 +1,202 @@
+/**
+ * Notification Template Service
+ *
+ * Admin-editable text for notifications, per type and language. Every save
+ * is kept as a version; the first edit also snapshots the seeded original so
+ * it can be restored.
+ */
+
+import { NotificationTemplate, NotificationType } from '@prisma/client'
+import { TRPCError } from '@trpc/server'
+import {
+  DEFAULT_TEMPLATE_LOCALE,
+  TemplateContent,
+  getLocaleFallbacks,
+  renderTemplate,
+  validateTemplate,
+} from '@band-it/shared'
+import { prisma } from '../lib/prisma'
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+/**
+ * Values every template can use, merged under the caller's metadata
+ */
+export function buildTemplateValues(options: {
+  recipientName: string
+  actionUrl?: string | null
+  metadata?: Record<string, unknown> | null
+}): Record<string, unknown> {
+  return {
+    recipientName: options.recipientName,
+    actionUrl: options.actionUrl ? `${FRONTEND_URL}${options.actionUrl}` : undefined,
+    ...(options.metadata ?? {}),
+  }
+}
+
+/**
+ * Render two template fields together, or null if either has a placeholder
+ * with no value
+ */
+export function renderTemplatePair(
+  first: string,
+  second: string,
+  values: Record<string, unknown>
+): [string, string] | null {
+  const renderedFirst = renderTemplate(first, values)
+  const renderedSecond = renderTemplate(second, values)
+  if (renderedFirst.missing.length > 0 || renderedSecond.missing.length > 0) {
+    return null
+  }
+  return [renderedFirst.text, renderedSecond.text]
+}
+
+/**
+ * Whether a template should replace text the caller wrote. Callers' own
+ * English is kept unless an admin has edited the template or it's a
+ * translation.
+ */
+export function templateOverridesCaller(template: NotificationTemplate): boolean {
+  return !!template.customizedAt || template.locale !== DEFAULT_TEMPLATE_LOCALE
+}
+
+function toContent(template: TemplateContent): TemplateContent {
+  return {
+    title: template.title,
+    message: template.message,
+    emailSubject: template.emailSubject,
+    emailBody: template.emailBody,
+  }
+}
+
+export const notificationTemplateService = {
+  /**
+   * The template to use for a user's language, falling back to the base
+   * language and then English
+   */
+  async resolve(type: NotificationType, locale?: string | null) {
+    const fallbacks = getLocaleFallbacks(locale)
+    const templates = await prisma.notificationTemplate.findMany({
+      where: { type, locale: { in: fallbacks } },
+    })
+
+    for (const candidate of fallbacks) {
+      const template = templates.find(t => t.locale === candidate)
+      if (template) return template
+    }
+    return null
+  },
+
+  /**
+   * A template with its history, for the editor
+   */
+  async getWithVersions(type: NotificationType, locale: string) {
+    return prisma.notificationTemplate.findUnique({
+      where: { type_locale: { type, locale } },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          include: {
+            editedBy: { select: { id: true, name: true } },
+          },
+        },
+      },
+    })
+  },
+
+  /**
+   * Save a template (creating the locale variant if needed) as a new version
+   */
+  async save(options: {
+    type: NotificationType
+    locale: string
+    content: TemplateContent
+    editorId: string
+  }) {
+    const { type, locale, editorId } = options
+    const content = toContent(options.content)
+
+    const errors = validateTemplate(type, content)
+    if (errors.length > 0) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: errors.join('. '),
+      })
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.notificationTemplate.findUnique({
+        where: { type_locale: { type, locale } },
+        include: { _count: { select: { versions: true } } },
+      })
+
+      if (!existing) {
+        return tx.notificationTemplate.create({
+          data: {
+            type,
+            locale,
+            ...content,
+            customizedAt: new Date(),
+            versions: {
+              create: { version: 1, ...content, editedById: editorId },
+            },
+          },
+        })
+      }
+
+      // Keep the seeded text before it's overwritten for the first time
+      if (existing._count.versions === 0) {
+        await tx.notificationTemplateVersion.create({
+          data: { templateId: existing.id, version: existing.version, ...toContent(existing) },
+        })
+      }
+
+      const version = existing.version + 1
+      await tx.notificationTemplateVersion.create({
+        data: { templateId: existing.id, version, ...content, editedById: editorId },
+      })
+
+      return tx.notificationTemplate.update({
+        where: { id: existing.id },
+        data: { ...content, version, customizedAt: new Date() },
+      })
+    })
+  },
+
+  /**
+   * Save an earlier version's text as the newest version
+   */
+  async restoreVersion(templateId: string, version: number, editorId: string) {
+    const snapshot = await prisma.notificationTemplateVersion.findUnique({
+      where: { templateId_version: { templateId, version } },
+      include: { template: { select: { type: true, locale: true } } },
+    })
+
+    if (!snapshot) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Version not found' })
+    }
+
+    return this.save({
+      type: snapshot.template.type,
+      locale: snapshot.template.locale,
+      content: toContent(snapshot),
+      editorId,
+    })
+  },
+
+  /**
+   * Remove a translation; its users get English again
+   */
+  async deleteLocale(type: NotificationType, locale: string) {
+    if (locale === DEFAULT_TEMPLATE_LOCALE) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'The English template can be edited but not deleted',
+      })
+    }
+
+    await prisma.notificationTemplate.deleteMany({
+      where: { type, locale },
+    })
+  },
+}
@@ -230,15 +230,25 @@ const templates = [
 export async function seedNotificationTemplates() {
   console.log('Seeding notification templates...')
 
+  let skipped = 0
   for (const template of templates) {
+    const where = { type_locale: { type: template.type, locale: 'en' } }
+
+    // Leave templates an admin has edited alone
+    const existing = await prisma.notificationTemplate.findUnique({ where })
+    if (existing?.customizedAt) {
+      skipped++
+      continue
+    }
+
     await prisma.notificationTemplate.upsert({
-      where: { type: template.type },
+      where,
       update: template,
       create: template,
     })
   }
 
-  console.log(`Seeded ${templates.length} notification templates`)
+  console.log(`Seeded ${templates.length - skipped} notification templates (${skipped} customized, left as is)`)
 }
 
 // Run if executed directly
@@ -1,6 +1,23 @@
 import { prisma } from '../lib/prisma'
 import { NotificationType, NotificationPriority } from '@prisma/client'
 import { isInGoodStanding } from '../lib/dues-enforcement'
+import { publishUserEvent } from '../lib/realtime'
+import { isInQuietHours } from '../lib/quiet-hours'
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  NotificationChannelId,
+  getChannelDefaults,
+  getNotificationGroups,
+} from '../lib/notification-catalog'
+import { notificationChannels, OutgoingNotification } from './notification-channels'
+import {
+  notificationTemplateService,
+  buildTemplateValues,
+  renderTemplatePair,
+  templateOverridesCaller,
+} from './notification-template.service'
+import { renderTemplate } from '@band-it/shared'
 
 // Band activity notification types that should be suppressed for unpaid members
 const BAND_ACTIVITY_TYPES: NotificationType[] = [
@@ -52,26 +69,68 @@ interface CreateNotificationParams {
   bandId?: string // When provided, suppresses band activity notifications for unpaid members
 }
 
+type ChannelPreferences = Record<NotificationChannelId, boolean>
+
+/**
+ * The band a notification is about, for per-band levels. Callers that don't
+ * pass bandId usually link into the band, so fall back to the action URL.
+ */
+async function resolveBandId(params: CreateNotificationParams): Promise<string | null> {
+  if (params.bandId) return params.bandId
+
+  const slug = params.actionUrl?.match(/^\/bands\/([^/?#]+)/)?.[1]
+  if (!slug) return null
+
+  const band = await prisma.band.findUnique({
+    where: { slug: decodeURIComponent(slug) },
+    select: { id: true },
+  })
+  return band?.id ?? null
+}
+
 export const notificationService = {
   /**
-   * Create a notification for a user
+   * Create a notification for a user and deliver it on each channel their
+   * preferences allow. Returns the stored in-app notification, or null when
+   * in-app is off for this type or the notification was suppressed.
    */
   async create(params: CreateNotificationParams) {
-    // Check user preferences
-    const preference = await prisma.notificationPreference.findUnique({
-      where: {
-        userId_type: {
-          userId: params.userId,
-          type: params.type,
+    const [preference, recipient] = await Promise.all([
+      prisma.notificationPreference.findUnique({
+        where: {
+          userId_type: {
+            userId: params.userId,
+            type: params.type,
+          },
         },
-      },
-    })
+      }),
+      prisma.user.findUnique({
+        where: { id: params.userId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          smsPhoneNumber: true,
+          locale: true,
+          timezone: true,
+          quietHoursStart: true,
+          quietHoursEnd: true,
+        },
+      }),
+    ])
 
-    // If user has disabled this notification type in-app, don't create it
-    if (preference && !preference.inApp) {
+    if (!recipient) {
       return null
     }
 
+    const defaults = getChannelDefaults(params.type)
+    const wanted: ChannelPreferences = {
+      inApp: preference?.inApp ?? defaults.inApp,
+      email: preference?.email ?? defaults.email,
+      push: preference?.push ?? defaults.push,
+      sms: preference?.sms ?? defaults.sms,
+    }
+
     // Suppress band activity notifications for members not in good standing
     if (params.bandId && BAND_ACTIVITY_TYPES.includes(params.type)) {
       const goodStanding = await isInGoodStanding(params.bandId, params.userId)
@@ -80,51 +139,151 @@ export const notificationService = {
       }
     }
 
-    // Get template if title/message not provided
-    let title = params.title
-    let message = params.message
+    const priority = params.priority || NotificationPriority.MEDIUM
+    const isUrgent = priority === NotificationPriority.URGENT
 
-    if (!title || !message) {
-      const template = await prisma.notificationTemplate.findUnique({
-        where: { type: params.type },
-      })
+    // Urgent notifications get through band mutes and quiet hours
+    if (!isUrgent) {
+      const bandId = await resolveBandId(params)
+      if (bandId) {
+        const bandSetting = await prisma.bandNotificationSetting.findUnique({
+          where: { userId_bandId: { userId: params.userId, bandId } },
+          select: { level: true },
+        })
 
-      if (template) {
-        title = title || template.title
-        message = message || template.message
-
-        // Replace variables in template
-        if (params.metadata) {
-          Object.keys(params.metadata).forEach((key) => {
-            const value = params.metadata[key]
-            title = title?.replace(`{${key}}`, value)
-            message = message?.replace(`{${key}}`, value)
-          })
+        if (bandSetting?.level === 'MUTED') {
+          return null
+        }
+        if (bandSetting?.level === 'IN_APP_ONLY') {
+          wanted.email = false
+          wanted.push = false
+          wanted.sms = false
         }
       }
     }
 
-    // Create notification
-    const notification = await prisma.notification.create({
-      data: {
-        userId: params.userId,
-        type: params.type,
-        title: title || 'Notification',
-        message,
-        actionUrl: params.actionUrl,
-        priority: params.priority || NotificationPriority.MEDIUM,
-        metadata: params.metadata,
-        relatedId: params.relatedId,
-        relatedType: params.relatedType,
-      },
+    // Quiet hours drop push and SMS rather than delaying them; in-app and
+    // email still arrive, so nothing is lost
+    const suppressInterruptive = !isUrgent && isInQuietHours(recipient)
+    const channels = NOTIFICATION_CHANNELS
+      .map(id => notificationChannels[id])
+      .filter(channel => wanted[channel.id] && channel.isAvailable())
+      .filter(channel => !(suppressInterruptive && channel.interruptive))
+      .filter(channel => channel.id !== 'sms' || !!recipient.smsPhoneNumber)
+
+    if (channels.length === 0) {
+      return null
+    }
+
+    // Template text in the user's language. It replaces the caller's text
+    // when an admin edited it or it's a translation, as long as every
+    // placeholder can be filled; otherwise it only fills in what's missing.
+    let title = params.title
+    let message = params.message
+
+    const template = await notificationTemplateService.resolve(params.type, recipient.locale)
+    const values = buildTemplateValues({
+      recipientName: recipient.name,
+      actionUrl: params.actionUrl,
+      metadata: params.metadata,
     })
 
-    // TODO: Emit WebSocket event here
-    // io.to(`user-${params.userId}`).emit('notification', notification)
+    if (template) {
+      const rendered = renderTemplatePair(template.title, template.message, values)
+
+      if (rendered && (templateOverridesCaller(template) || !title || !message)) {
+        [title, message] = rendered
+      } else {
+        title = title || renderTemplate(template.title, values).text
+        message = message || renderTemplate(template.message, values).text
+      }
+    }
+
+    // The in-app channel is the stored notification
+    const notification = wanted.inApp
+      ? await prisma.notification.create({
+          data: {
+            userId: params.userId,
+            type: params.type,
+            title: title || 'Notification',
+            message,
+            actionUrl: params.actionUrl,
+            priority,
+            metadata: params.metadata,
+            relatedId: params.relatedId,
+            relatedType: params.relatedType,
+          },
+        })
+      : null
+
+    const outgoing: OutgoingNotification = {
+      id: notification?.id ?? null,
+      userId: params.userId,
+      type: params.type,
+      title: title || 'Notification',
+      message: message ?? null,
+      actionUrl: params.actionUrl ?? null,
+      priority,
+      values,
+    }
+
+    // A slow or failing channel shouldn't hold up or fail the caller
+    for (const channel of channels) {
+      channel.deliver(outgoing, recipient).catch((error) => {
+        console.error(`Failed to deliver ${params.type} notification by ${channel.id}:`, error)
+      })
+    }
 
     return notification
   },
 
+  /**
+   * Each channel's effective setting for every notification type: the user's
+   * choice where they made one, otherwise the catalog default
+   */
+  async getPreferences(userId: string) {
+    const preferences = await prisma.notificationPreference.findMany({
+      where: { userId },
+    })
+    const byType = new Map(preferences.map(preference => [preference.type, preference]))
+
+    return getNotificationGroups().map(group => ({
+      id: group.id,
+      label: group.label,
+      description: group.description,
+      types: group.types.map(type => {
+        const preference = byType.get(type)
+        const defaults = getChannelDefaults(type)
+        const channels = {} as Record<NotificationChannelId, { enabled: boolean; isDefault: boolean }>
+        for (const channel of NOTIFICATION_CHANNELS) {
+          const chosen = preference?.[channel]
+          channels[channel] = {
+            enabled: chosen ?? defaults[channel],
+            isDefault: chosen === null || chosen === undefined,
+          }
+        }
+        return { type, label: NOTIFICATION_TYPES[type].label, channels }
+      }),
+    }))
+  },
+
+  /**
+   * Set one channel for one or more types. null goes back to the default.
+   */
+  async setPreferences(userId: string, updates: Array<{
+    type: NotificationType
+    channel: NotificationChannelId
+    enabled: boolean | null
+  }>) {
+    await prisma.$transaction(updates.map(update =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type: update.type } },
+        create: { userId, type: update.type, [update.channel]: update.enabled },
+        update: { [update.channel]: update.enabled },
+      })
+    ))
+  },
+
   /**
    * Mark notification as read
    */
@@ -140,6 +299,8 @@ export const notificationService = {
       },
     })
 
+    publishUserEvent(userId, { type: 'notifications.read' })
+
     return notification
   },
 
@@ -158,6 +319,8 @@ export const notificationService = {
       },
     })
 
+    publishUserEvent(userId, { type: 'notifications.read' })
+
     return notifications
   },
 
@@ -176,6 +339,8 @@ export const notificationService = {
       },
     })
 
+    publishUserEvent(userId, { type: 'notifications.read' })
+
     return notification
   },
 
@@ -0,0 +1,432 @@
+/**
+ * Participation Service
+ *
+ * Measures how much each active member takes part in a band over a rolling
+ * window, from three sources:
+ * - Meeting attendance: meetings (or occurrences of a recurring meeting)
+ *   where attendance was taken, held after the member joined
+ * - Voting: proposals whose vote closed in the window that the member could
+ *   vote on, counting votes cast for them by a delegate
+ * - Work: tasks and checklist items assigned to the member that fell due or
+ *   were completed in the window
+ *
+ * The score is the average of the rates that have any data, so a band that
+ * never takes attendance isn't penalised for it.
+ *
+ * Bands can opt in, by governance proposal, to a rule that flags members who
+ * stay below a minimum score and optionally demotes them to OBSERVER. Flag
+ * and role changes are recorded by the audit middleware.
+ */
+
+import { addDays } from 'date-fns'
+import { prisma } from '../lib/prisma'
+import { notificationService } from './notification.service'
+import type { DelegatedVote } from '../lib/vote-delegation'
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000'
+
+/** Roles that may vote on ordinary proposals */
+const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
+
+const MEETING_TYPES = ['ONLINE_MEETING', 'IN_PERSON_MEETING', 'HYBRID'] as const
+
+// Leadership can be flagged but is never demoted automatically
+export const DEMOTION_EXEMPT_ROLES = ['FOUNDER', 'GOVERNOR']
+
+// How long a member stays flagged before the DEMOTE action applies
+export const DEMOTION_GRACE_DAYS = 14
+
+export const PARTICIPATION_WINDOW_MIN_DAYS = 30
+export const PARTICIPATION_WINDOW_MAX_DAYS = 365
+
+export interface ParticipationRate {
+  done: number
+  total: number
+  rate: number | null // Whole percentage; null when there was nothing to measure
+}
+
+export interface MemberParticipation {
+  userId: string
+  name: string
+  role: string
+  joinedAt: Date
+  attendance: ParticipationRate
+  voting: ParticipationRate
+  work: ParticipationRate
+  score: number | null
+  // Joined within the window, so not yet subject to the rule
+  isNew: boolean
+  flaggedAt: Date | null
+}
+
+export interface MeetingAttendanceReport {
+  eventId: string
+  title: string
+  date: Date
+  attended: number
+  activeMembers: number
+  rate: number
+}
+
+export interface ProposalQuorumReport {
+  proposalId: string
+  title: string
+  status: string
+  closedAt: Date
+  participants: number
+  eligibleVoters: number
+  turnout: number
+  quorumMet: boolean
+}
+
+export interface BandParticipation {
+  windowDays: number
+  since: Date
+  members: MemberParticipation[]
+  meetings: MeetingAttendanceReport[]
+  proposals: ProposalQuorumReport[]
+}
+
+type MemberRow = {
+  userId: string
+  role: string
+  createdAt: Date
+  participationFlaggedAt: Date | null
+  user: { name: string }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function toRate(done: number, total: number): ParticipationRate {
+  return { done, total, rate: total > 0 ? Math.round((done / total) * 100) : null }
+}
+
+function averageScore(rates: ParticipationRate[]): number | null {
+  const known = rates.map(r => r.rate).filter((rate): rate is number => rate !== null)
+  if (known.length === 0) return null
+  return Math.round(known.reduce((sum, rate) => sum + rate, 0) / known.length)
+}
+
+function canVoteOn(role: string, proposalType: string): boolean {
+  return proposalType === 'ADD_FOUNDER' ? role === 'FOUNDER' : CAN_VOTE.includes(role)
+}
+
+/**
+ * Meetings in the window where attendance was taken, one session per
+ * occurrence of a recurring meeting
+ */
+async function getMeetingSessions(bandId: string, since: Date, until: Date) {
+  const records = await prisma.eventAttendance.findMany({
+    where: {
+      event: { bandId, eventType: { in: [...MEETING_TYPES] } },
+      OR: [
+        { occurrenceDate: { gte: since, lte: until } },
+        { occurrenceDate: null, event: { startTime: { gte: since, lte: until } } },
+      ],
+    },
+    select: {
+      userId: true,
+      attended: true,
+      occurrenceDate: true,
+      event: { select: { id: true, title: true, startTime: true } },
+    },
+  })
+
+  const sessions = new Map<string, { eventId: string; title: string; date: Date; attendees: Set<string> }>()
+  for (const record of records) {
+    const date = record.occurrenceDate ?? record.event.startTime
+    const key = `${record.event.id}:${date.getTime()}`
+    let session = sessions.get(key)
+    if (!session) {
+      session = { eventId: record.event.id, title: record.event.title, date, attendees: new Set() }
+      sessions.set(key, session)
+    }
+    if (record.attended) session.attendees.add(record.userId)
+  }
+
+  return [...sessions.values()].sort((a, b) => b.date.getTime() - a.date.getTime())
+}
+
+/**
+ * Proposals whose vote closed in the window, with who took part
+ */
+async function getClosedVotes(bandId: string, since: Date, until: Date) {
+  const proposals = await prisma.proposal.findMany({
+    where: {
+      bandId,
+      status: { in: ['APPROVED', 'REJECTED', 'CLOSED'] },
+      votingStartedAt: { not: null },
+      closedAt: { gte: since, lte: until },
+    },
+    select: {
+      id: true,
+      title: true,
+      type: true,
+      status: true,
+      votingStartedAt: true,
+      closedAt: true,
+      delegationResult: true,
+      votes: { select: { userId: true } },
+    },
+    orderBy: { closedAt: 'desc' },
+  })
+
+  return proposals.map(proposal => {
+    const delegated = (proposal.delegationResult as DelegatedVote[] | null) ?? []
+    return {
+      ...proposal,
+      closedAt: proposal.closedAt!,
+      openedAt: proposal.votingStartedAt!,
+      participants: new Set([
+        ...proposal.votes.map(v => v.userId),
+        ...delegated.map(d => d.delegatorId),
+      ]),
+    }
+  })
+}
+
+/**
+ * Tasks and checklist items assigned to members that fell due or were
+ * completed in the window
+ */
+async function getAssignedWork(bandId: string, userIds: string[], since: Date, until: Date) {
+  const inWindow = { gte: since, lte: until }
+
+  const [tasks, checklistItems] = await Promise.all([
+    prisma.task.findMany({
+      where: {
+        bandId,
+        assigneeId: { in: userIds },
+        OR: [{ dueDate: inWindow }, { completedAt: inWindow }],
+      },
+      select: { assigneeId: true, status: true },
+    }),
+    prisma.checklistItem.findMany({
+      where: {
+        task: { bandId },
+        assigneeId: { in: userIds },
+        OR: [{ dueDate: inWindow }, { completedAt: inWindow }],
+      },
+      select: { assigneeId: true, isCompleted: true },
+    }),
+  ])
+
+  return [
+    ...tasks.map(t => ({ userId: t.assigneeId!, completed: t.status === 'COMPLETED' })),
+    ...checklistItems.map(c => ({ userId: c.assigneeId!, completed: c.isCompleted })),
+  ]
+}
+
+function scoreMember(
+  member: MemberRow,
+  sessions: Awaited<ReturnType<typeof getMeetingSessions>>,
+  votes: Awaited<ReturnType<typeof getClosedVotes>>,
+  work: { userId: string; completed: boolean }[],
+  since: Date
+): MemberParticipation {
+  const meetings = sessions.filter(s => s.date >= member.createdAt)
+  const ballots = votes.filter(p => p.openedAt >= member.createdAt && canVoteOn(member.role, p.type))
+  const assigned = work.filter(w => w.userId === member.userId)
+
+  const attendance = toRate(meetings.filter(s => s.attendees.has(member.userId)).length, meetings.length)
+  const voting = toRate(ballots.filter(p => p.participants.has(member.userId)).length, ballots.length)
+  const tasks = toRate(assigned.filter(w => w.completed).length, assigned.length)
+
+  return {
+    userId: member.userId,
+    name: member.user.name,
+    role: member.role,
+    joinedAt: member.createdAt,
+    attendance,
+    voting,
+    work: tasks,
+    score: averageScore([attendance, voting, tasks]),
+    isNew: member.createdAt > since,
+    flaggedAt: member.participationFlaggedAt,
+  }
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+export const participationService = {
+  /**
+   * Participation of every active member, plus per-meeting attendance and
+   * per-proposal turnout, over the band's window (or the one given)
+   */
+  async getBandParticipation(bandId: string, windowDays?: number): Promise<BandParticipation> {
+    const band = await prisma.band.findUnique({
+      where: { id: bandId },
+      select: { participationWindowDays: true, quorumPercentage: true },
+    })
+    if (!band) throw new Error('Band not found')
+
+    const days = windowDays ?? band.participationWindowDays
+    const now = new Date()
+    const since = addDays(now, -days)
+
+    const members = await prisma.member.findMany({
+      where: { bandId, status: 'ACTIVE' },
+      select: {
+        userId: true,
+        role: true,
+        createdAt: true,
+        participationFlaggedAt: true,
+        user: { select: { name: true } },
+      },
+    })
+
+    const [sessions, votes, work] = await Promise.all([
+      getMeetingSessions(bandId, since, now),
+      getClosedVotes(bandId, since, now),
+      getAssignedWork(bandId, members.map(m => m.userId), since, now),
+    ])
+
+    const meetings = sessions.map(session => {
+      const activeMembers = members.filter(m => m.createdAt <= session.date).length
+      return {
+        eventId: session.eventId,
+        title: session.title,
+        date: session.date,
+        attended: session.attendees.size,
+        activeMembers,
+        rate: activeMembers > 0 ? Math.round((session.attendees.size / activeMembers) * 100) : 0,
+      }
+    })
+
+    // Eligibility is judged from current membership; role changes since the
+    // vote closed can shift a proposal's turnout slightly
+    const proposals = votes.map(proposal => {
+      const eligibleVoters = members.filter(m =>
+        m.createdAt <= proposal.openedAt && canVoteOn(m.role, proposal.type)
+      ).length
+      const turnout = eligibleVoters > 0
+        ? Math.min(100, Math.round((proposal.participants.size / eligibleVoters) * 100))
+        : 0
+      return {
+        proposalId: proposal.id,
+        title: proposal.title,
+        status: proposal.status,
+        closedAt: proposal.closedAt,
+        participants: proposal.participants.size,
+        eligibleVoters,
+        turnout,
+        quorumMet: turnout >= band.quorumPercentage,
+      }
+    })
+
+    return {
+      windowDays: days,
+      since,
+      members: members
+        .map(member => scoreMember(member, sessions, votes, work, since))
+        .sort((a, b) => (a.score ?? 101) - (b.score ?? 101)),
+      meetings,
+      proposals,
+    }
+  },
+
+  /**
+   * Apply a band's participation rule: flag members below the minimum score,
+   * clear the flag of those who recovered, and with the DEMOTE action move
+   * members flagged for longer than the grace period to OBSERVER.
+   */
+  async enforceRule(bandId: string): Promise<{ flagged: number; cleared: number; demoted: number }> {
+    const result = { flagged: 0, cleared: 0, demoted: 0 }
+
+    const band = await prisma.band.findUnique({
+      where: { id: bandId },
+      select: {
+        name: true,
+        slug: true,
+        participationRuleEnabled: true,
+        participationMinScore: true,
+        participationRuleAction: true,
+      },
+    })
+    if (!band?.participationRuleEnabled) return result
+
+    const { members } = await this.getBandParticipation(bandId)
+    const now = new Date()
+    const graceCutoff = addDays(now, -DEMOTION_GRACE_DAYS)
+    const actionUrl = `${FRONTEND_URL}/bands/${band.slug}/participation`
+
+    for (const member of members) {
+      try {
+        if (member.isNew || member.score === null) continue
+
+        const below = member.score < band.participationMinScore
+
+        if (!below) {
+          if (member.flaggedAt) {
+            await prisma.member.update({
+              where: { userId_bandId: { userId: member.userId, bandId } },
+              data: { participationFlaggedAt: null },
+            })
+            result.cleared++
+          }
+          continue
+        }
+
+        if (!member.flaggedAt) {
+          await prisma.member.update({
+            where: { userId_bandId: { userId: member.userId, bandId } },
+            data: { participationFlaggedAt: now },
+          })
+
+          const willDemote = band.participationRuleAction === 'DEMOTE'
+            && !DEMOTION_EXEMPT_ROLES.includes(member.role)
+            && member.role !== 'OBSERVER'
+
+          await notificationService.create({
+            userId: member.userId,
+            type: 'PARTICIPATION_FLAGGED',
+            title: 'Your participation is below the band minimum',
+            message: willDemote
+              ? `Your participation score in ${band.name} is ${member.score}%, below the ${band.participationMinScore}% the band requires. If it stays below for ${DEMOTION_GRACE_DAYS} days you will become an observer.`
+              : `Your participation score in ${band.name} is ${member.score}%, below the ${band.participationMinScore}% the band requires.`,
+            actionUrl,
+            priority: willDemote ? 'HIGH' : 'MEDIUM',
+            relatedId: bandId,
+            relatedType: 'band',
+            bandId,
+          })
+          result.flagged++
+          continue
+        }
+
+        if (
+          band.participationRuleAction === 'DEMOTE'
+          && member.flaggedAt <= graceCutoff
+          && !DEMOTION_EXEMPT_ROLES.includes(member.role)
+          && member.role !== 'OBSERVER'
+        ) {
+          await prisma.member.update({
+            where: { userId_bandId: { userId: member.userId, bandId } },
+            data: { role: 'OBSERVER' },
+          })
+
+          await notificationService.create({
+            userId: member.userId,
+            type: 'PARTICIPATION_DEMOTED',
+            title: 'You are now an observer',
+            message: `Your participation in ${band.name} stayed below ${band.participationMinScore}% for ${DEMOTION_GRACE_DAYS} days, so your role changed from ${member.role.replace(/_/g, ' ').toLowerCase()} to observer under the band's participation rule.`,
+            actionUrl,
+            priority: 'HIGH',
+            relatedId: bandId,
+            relatedType: 'band',
+            bandId,
+          })
+          result.demoted++
+        }
+      } catch (error) {
+        console.error(`[PARTICIPATION] Error applying rule to member ${member.userId} in band ${bandId}:`, error)
+      }
+    }
+
+    return result
+  },
+}
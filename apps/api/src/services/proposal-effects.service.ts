@@ -1,6 +1,6 @@
 import { TRPCError } from '@trpc/server'
 import { prisma } from '../lib/prisma'
-import type { ProposalExecutionType } from '@prisma/client'
+import type { Prisma, ProposalExecutionType } from '@prisma/client'
 
 // ============================================
 // TYPES
@@ -40,7 +40,16 @@ export interface EffectsExecutionResult {
 export interface EffectHandler {
   type: string
   validate: (payload: Record<string, unknown>, context: EffectContext) => Promise<string[]>
-  execute: (payload: Record<string, unknown>, context: EffectContext) => Promise<void>
+  // May return details (e.g. created IDs) for afterCommit
+  execute: (payload: Record<string, unknown>, context: EffectContext) => Promise<Record<string, unknown> | void>
+  // Human-readable summary shown on the proposal before it is voted on
+  describe?: (payload: Record<string, unknown>, context: EffectContext) => Promise<string>
+  // Side effects outside the database (notifications, syncs), run once every effect has committed
+  afterCommit?: (
+    payload: Record<string, unknown>,
+    context: EffectContext,
+    result: Record<string, unknown> | void
+  ) => Promise<void>
 }
 
 /**
@@ -50,6 +59,40 @@ export interface EffectContext {
   bandId: string
   proposalId: string
   executedById: string
+  // Set during execution - handlers must write through it (see effectDb)
+  tx?: Prisma.TransactionClient
+  // Set when simulating - handlers must skip calls outside the database
+  dryRun?: boolean
+}
+
+/**
+ * A previewed effect: what it will do and whether it is currently valid
+ */
+export interface EffectPreview {
+  type: string
+  description: string
+  errors: string[]
+}
+
+/**
+ * One changed field in a simulated run, e.g. a bucket's balance or a
+ * member's role. Subjects are named rather than identified so that a
+ * simulation run later can be compared with this one.
+ */
+export interface EffectDiffEntry {
+  section: 'band' | 'bucket' | 'member'
+  subject: string
+  field: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Result of simulating a proposal's effects against the band as it is now
+ */
+export interface EffectsSimulation {
+  errors: string[]
+  diff: EffectDiffEntry[]
 }
 
 // ============================================
@@ -74,6 +117,14 @@ export function getEffectHandler(type: string): EffectHandler | undefined {
   return effectHandlers.get(type)
 }
 
+/**
+ * Database client for an effect: the execution transaction when running,
+ * so a failing effect rolls back the ones before it
+ */
+export function effectDb(context: EffectContext): Prisma.TransactionClient {
+  return context.tx ?? prisma
+}
+
 // ============================================
 // SUBTYPE VALIDATORS REGISTRY
 // ============================================
@@ -82,11 +133,19 @@ export function getEffectHandler(type: string): EffectHandler | undefined {
 // This defines what effects are valid for each proposal subtype
 const subtypeAllowedEffects = new Map<string, string[]>()
 
+// Map of subtype -> the execution type it belongs to (GOVERNANCE when unset)
+const subtypeExecutionTypes = new Map<string, ProposalExecutionType>()
+
 /**
  * Register allowed effects for a subtype
  */
-export function registerSubtypeEffects(subtype: string, allowedEffectTypes: string[]): void {
+export function registerSubtypeEffects(
+  subtype: string,
+  allowedEffectTypes: string[],
+  executionType: ProposalExecutionType = 'GOVERNANCE'
+): void {
   subtypeAllowedEffects.set(subtype, allowedEffectTypes)
+  subtypeExecutionTypes.set(subtype, executionType)
 }
 
 /**
@@ -148,16 +207,10 @@ export async function validateEffects(
     return { valid: errors.length === 0, errors, warnings }
   }
 
-  // For GOVERNANCE, effects are required
-  // For ACTION, effects are optional (can be just a decision record until ACTION effects are defined)
-  if (executionType === 'GOVERNANCE' && (effects === null || effects === undefined)) {
-    errors.push('Effects are required for GOVERNANCE proposals')
-    return { valid: false, errors, warnings }
-  }
-
-  // If no effects provided for ACTION, that's OK - skip further validation
+  // Both GOVERNANCE and ACTION proposals exist to run their effects
   if (effects === null || effects === undefined) {
-    return { valid: true, errors, warnings }
+    errors.push(`Effects are required for ${executionType} proposals`)
+    return { valid: false, errors, warnings }
   }
 
   // Validate structure
@@ -175,6 +228,10 @@ export async function validateEffects(
   // If subtype is specified, validate effects against allowed types
   if (executionSubtype) {
     const allowedTypes = getAllowedEffectsForSubtype(executionSubtype)
+    const subtypeExecutionType = subtypeExecutionTypes.get(executionSubtype)
+    if (subtypeExecutionType && subtypeExecutionType !== executionType) {
+      errors.push(`Subtype "${executionSubtype}" is for ${subtypeExecutionType} proposals, not ${executionType}`)
+    }
     if (allowedTypes) {
       for (const effect of effects) {
         if (!allowedTypes.includes(effect.type)) {
@@ -212,6 +269,236 @@ export async function validateEffects(
   }
 }
 
+/**
+ * Describe and re-validate each effect against the band as it is now.
+ * Used to show voters what a proposal will change.
+ */
+export async function previewEffects(
+  effects: unknown,
+  context: { bandId: string; proposalId?: string }
+): Promise<EffectPreview[]> {
+  if (!validateEffectsStructure(effects)) {
+    return []
+  }
+
+  const handlerContext: EffectContext = {
+    bandId: context.bandId,
+    proposalId: context.proposalId ?? '',
+    executedById: '',
+  }
+
+  const previews: EffectPreview[] = []
+  for (const effect of [...effects].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))) {
+    const handler = getEffectHandler(effect.type)
+    if (!handler) {
+      previews.push({
+        type: effect.type,
+        description: effect.type.replace(/_/g, ' ').toLowerCase(),
+        errors: [`Unknown effect type "${effect.type}". No handler registered.`],
+      })
+      continue
+    }
+
+    const errors = await handler.validate(effect.payload, handlerContext)
+    const description = handler.describe
+      ? await handler.describe(effect.payload, handlerContext).catch(() => effect.type.replace(/_/g, ' ').toLowerCase())
+      : effect.type.replace(/_/g, ' ').toLowerCase()
+
+    previews.push({ type: effect.type, description, errors })
+  }
+
+  return previews
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+// Band settings that effects can change, as shown in a simulated diff
+const SIMULATED_BAND_FIELDS = {
+  votingMethod: true,
+  votingPeriodDays: true,
+  votingPeriodHours: true,
+  quorumPercentage: true,
+  whoCanCreateProposals: true,
+  whoCanChangeRoles: true,
+  requireProposalReview: true,
+  memberApprovalThreshold: true,
+  memberApprovalQuorum: true,
+} satisfies Prisma.BandSelect
+
+type SnapshotSubject = Pick<EffectDiffEntry, 'section' | 'subject'> & { fields: Record<string, unknown> }
+
+/**
+ * Capture the band settings, buckets (with balances) and member roles that
+ * effects can change, keyed by a stable id
+ */
+async function snapshotBand(db: Prisma.TransactionClient, bandId: string): Promise<Map<string, SnapshotSubject>> {
+  const [band, financeSettings, buckets, balances, members] = await Promise.all([
+    db.band.findUnique({
+      where: { id: bandId },
+      select: SIMULATED_BAND_FIELDS,
+    }),
+    db.bandFinanceSettings.findUnique({
+      where: { bandId },
+      select: { bucketManagementPolicy: true },
+    }),
+    db.bucket.findMany({
+      where: { bandId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.ledgerEntry.groupBy({
+      by: ['bucketId'],
+      where: { bandId, account: { in: ['BUCKET', 'GENERAL_FUND'] } },
+      _sum: { amount: true },
+    }),
+    db.member.findMany({
+      where: { bandId, status: 'ACTIVE' },
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ])
+
+  const balanceOf = (bucketId: string | null) =>
+    balances.find(b => b.bucketId === bucketId)?._sum.amount ?? 0
+
+  const snapshot = new Map<string, SnapshotSubject>()
+  snapshot.set('band', { section: 'band', subject: 'Band settings', fields: { ...band, ...financeSettings } })
+  snapshot.set('bucket:general', {
+    section: 'bucket',
+    subject: 'General Fund',
+    fields: { balance: balanceOf(null) },
+  })
+  for (const bucket of buckets) {
+    snapshot.set(`bucket:${bucket.id}`, {
+      section: 'bucket',
+      subject: bucket.name,
+      fields: {
+        name: bucket.name,
+        type: bucket.type,
+        visibility: bucket.visibility,
+        isActive: bucket.isActive,
+        balance: balanceOf(bucket.id),
+      },
+    })
+  }
+  for (const member of members) {
+    snapshot.set(`member:${member.userId}`, {
+      section: 'member',
+      subject: member.user.name,
+      fields: { role: member.role, isTreasurer: member.isTreasurer },
+    })
+  }
+  return snapshot
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Field-by-field differences between two snapshots. Subjects that only
+ * exist afterwards (e.g. a new bucket) list every field with before = null.
+ */
+function diffSnapshots(before: Map<string, SnapshotSubject>, after: Map<string, SnapshotSubject>): EffectDiffEntry[] {
+  const diff: EffectDiffEntry[] = []
+  for (const [key, next] of after) {
+    const prev = before.get(key)
+    for (const [field, value] of Object.entries(next.fields)) {
+      const old = prev ? prev.fields[field] : null
+      if (!sameValue(old, value)) {
+        diff.push({ section: next.section, subject: prev?.subject ?? next.subject, field, before: old, after: value })
+      }
+    }
+  }
+  return diff
+}
+
+// Thrown to roll back a simulation once its result has been captured
+class SimulationRollback extends Error {}
+
+/**
+ * Dry-run a proposal's effects: validate each one, then execute them all in
+ * a transaction that is always rolled back, and report what changed.
+ * Handlers run with dryRun set so nothing outside the database is touched.
+ */
+export async function simulateEffects(
+  effects: unknown,
+  context: { bandId: string; proposalId: string; executedById: string }
+): Promise<EffectsSimulation> {
+  if (!validateEffectsStructure(effects)) {
+    return { errors: ['Invalid effects structure'], diff: [] }
+  }
+
+  const handlerContext: EffectContext = { ...context, dryRun: true }
+  const sortedEffects = [...effects].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+
+  const errors: string[] = []
+  for (const effect of sortedEffects) {
+    const handler = getEffectHandler(effect.type)
+    if (!handler) {
+      errors.push(`Unknown effect type "${effect.type}". No handler registered.`)
+      continue
+    }
+    errors.push(...await handler.validate(effect.payload, handlerContext))
+  }
+  if (errors.length > 0) {
+    return { errors, diff: [] }
+  }
+
+  let diff: EffectDiffEntry[] = []
+  try {
+    await prisma.$transaction(async (tx) => {
+      const before = await snapshotBand(tx, context.bandId)
+      for (const effect of sortedEffects) {
+        await getEffectHandler(effect.type)!.execute(effect.payload, { ...handlerContext, tx })
+      }
+      diff = diffSnapshots(before, await snapshotBand(tx, context.bandId))
+      throw new SimulationRollback()
+    }, { timeout: 30000 })
+  } catch (error) {
+    if (!(error instanceof SimulationRollback)) {
+      errors.push(`Simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return { errors, diff }
+}
+
+/**
+ * Whether a fresh simulation differs from the one stored on the proposal,
+ * i.e. the band has changed since the proposal was created
+ */
+export function simulationDrifted(stored: EffectsSimulation, current: EffectsSimulation): boolean {
+  return !sameValue(stored.diff, current.diff) || !sameValue(stored.errors, current.errors)
+}
+
+/**
+ * Simulate a proposal's effects and store the result on it
+ */
+export async function simulateAndStoreEffects(proposal: {
+  id: string
+  bandId: string
+  createdById: string
+  effects: unknown
+}): Promise<EffectsSimulation> {
+  const simulation = await simulateEffects(proposal.effects, {
+    bandId: proposal.bandId,
+    proposalId: proposal.id,
+    executedById: proposal.createdById,
+  })
+
+  await prisma.proposal.update({
+    where: { id: proposal.id },
+    data: {
+      effectsSimulation: simulation as unknown as Prisma.InputJsonValue,
+      effectsSimulatedAt: new Date(),
+    },
+  })
+
+  return simulation
+}
+
 // ============================================
 // EXECUTION
 // ============================================
@@ -231,6 +518,7 @@ export async function executeEffects(
   context: EffectContext
 ): Promise<EffectsExecutionResult> {
   const executedEffects: ProposalEffect[] = []
+  const results: (Record<string, unknown> | void)[] = []
 
   try {
     // Sort effects by order (if specified)
@@ -245,20 +533,31 @@ export async function executeEffects(
         }
 
         // Execute the effect
-        await handler.execute(effect.payload, context)
+        results.push(await handler.execute(effect.payload, { ...context, tx }))
         executedEffects.push(effect)
       }
     })
 
+    // Only reached once everything committed; failures here don't undo the effects
+    for (const [index, effect] of sortedEffects.entries()) {
+      const handler = getEffectHandler(effect.type)
+      if (handler?.afterCommit) {
+        await handler.afterCommit(effect.payload, context, results[index]).catch(err =>
+          console.error(`Error running post-commit step for effect ${effect.type}:`, err)
+        )
+      }
+    }
+
     return {
       success: true,
       effectsExecuted: executedEffects,
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error during effect execution'
+    // The transaction rolled back, so nothing was applied
     return {
       success: false,
-      effectsExecuted: executedEffects,
+      effectsExecuted: [],
       error: errorMessage,
     }
   }
@@ -342,6 +641,12 @@ export async function executeAndLogEffects(
 export const proposalEffectsService = {
   // Validation
   validateEffects,
+  previewEffects,
+
+  // Simulation
+  simulateEffects,
+  simulateAndStoreEffects,
+  simulationDrifted,
 
   // Execution
   executeEffects,
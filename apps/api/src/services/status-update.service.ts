@@ -268,17 +268,8 @@ export async function sendStatusUpdateWebhook(
   const end = endDate || new Date()
   const start = startDate || new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000)
 
-  // Check if band has webhook configured
-  const band = await prisma.band.findUnique({
-    where: { id: bandId },
-    select: {
-      slug: true,
-      webhookUrl: true,
-      webhookSecret: true,
-    },
-  })
-
-  if (!band || !band.webhookUrl || !band.webhookSecret) {
+  // Check if band has a webhook or endpoint configured
+  if (!(await webhookService.hasReceivers(bandId))) {
     return { sent: false, error: 'No webhook configured for this band' }
   }
 
@@ -301,11 +292,20 @@ export async function sendAllStatusUpdates(): Promise<{
   failed: number
   errors: Array<{ bandId: string; error: string }>
 }> {
-  // Find all bands with webhook URLs configured
+  // Find all bands with a webhook URL or an endpoint subscribed to status updates
   const bands = await prisma.band.findMany({
     where: {
-      webhookUrl: { not: null },
-      webhookSecret: { not: null },
+      OR: [
+        { webhookUrl: { not: null }, webhookSecret: { not: null } },
+        {
+          webhookEndpoints: {
+            some: {
+              isActive: true,
+              OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: 'status.update' } }],
+            },
+          },
+        },
+      ],
       status: 'ACTIVE',
       dissolvedAt: null,
     },
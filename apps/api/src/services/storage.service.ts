@@ -1,7 +1,7 @@
 import fs from 'fs'
 import path from 'path'
 import { randomUUID } from 'crypto'
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
+import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
 
 const STORAGE_TYPE = process.env.STORAGE_TYPE || 'local'
 const LOCAL_UPLOAD_DIR = process.env.LOCAL_UPLOAD_DIR || './uploads'
@@ -68,6 +68,7 @@ export interface UploadResult {
 
 export interface StorageService {
   upload(buffer: Buffer, originalName: string, mimeType: string): Promise<UploadResult>
+  read(storageKey: string): Promise<Buffer>
   delete(storageKey: string): Promise<void>
   getUrl(storageKey: string): string
 }
@@ -106,6 +107,10 @@ class LocalStorageService implements StorageService {
     }
   }
   
+  async read(storageKey: string): Promise<Buffer> {
+    return fs.promises.readFile(path.join(LOCAL_UPLOAD_DIR, storageKey))
+  }
+
   async delete(storageKey: string): Promise<void> {
     const filePath = path.join(LOCAL_UPLOAD_DIR, storageKey)
     try {
@@ -157,6 +162,17 @@ class R2StorageService implements StorageService {
     }
   }
 
+  async read(storageKey: string): Promise<Buffer> {
+    const result = await this.s3.send(new GetObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: storageKey,
+    }))
+    if (!result.Body) {
+      throw new Error(`Empty object in R2: ${storageKey}`)
+    }
+    return Buffer.from(await result.Body.transformToByteArray())
+  }
+
   async delete(storageKey: string): Promise<void> {
     try {
       await this.s3.send(new DeleteObjectCommand({
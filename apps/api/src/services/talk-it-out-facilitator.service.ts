@@ -6,7 +6,7 @@ import {
   TalkItOutSession,
   User,
 } from '@prisma/client'
-import { callGemini, getGeminiFacilitatorModel, getGeminiGateModel } from '../lib/gemini-client'
+import { callAI } from '../lib/ai'
 import { getSessionTopicBriefBlock } from './talk-it-out-topic-brief.service'
 
 const GOAL_DESCRIPTIONS: Record<TalkItOutGoal, string> = {
@@ -166,14 +166,14 @@ ${topicBriefSection(session)}Write the facilitator OPENING message for this Talk
 
 Write only the message text the facilitator says to the group. No JSON. No preamble.`
 
-  const res = await callGemini(prompt, {
+  const res = await callAI(prompt, {
     operation: 'talk_it_out_opening',
-    sessionId: context.sessionId,
+    entityType: 'talk_it_out',
+    entityId: context.sessionId,
     userId: context.userId,
     bandId: context.bandId,
   }, {
-    model: getGeminiFacilitatorModel(),
-    maxOutputTokens: 800,
+    maxTokens: 800,
     system: FACILITATOR_SYSTEM,
   })
 
@@ -223,14 +223,14 @@ Reply YES when ANY of these apply:
 
 Reply NO only when: the last facilitator message already fully addressed the latest exchange AND participants are productively building on each other toward the goal.`
 
-  const res = await callGemini(gatePrompt, {
+  const res = await callAI(gatePrompt, {
     operation: 'talk_it_out_gate',
-    sessionId: context.sessionId,
+    entityType: 'talk_it_out',
+    entityId: context.sessionId,
     userId: context.userId,
     bandId: context.bandId,
   }, {
-    model: getGeminiGateModel(),
-    maxOutputTokens: 16,
+    maxTokens: 16,
     temperature: 0.1,
   })
 
@@ -245,14 +245,14 @@ export async function generateFacilitatorIntervention(
   options: { forced?: boolean } = {}
 ): Promise<string | null> {
   const prompt = buildInterventionPrompt(session, messages, { forced: options.forced })
-  const res = await callGemini(prompt, {
+  const res = await callAI(prompt, {
     operation: 'talk_it_out_intervention',
-    sessionId: context.sessionId,
+    entityType: 'talk_it_out',
+    entityId: context.sessionId,
     userId: context.userId,
     bandId: context.bandId,
   }, {
-    model: getGeminiFacilitatorModel(),
-    maxOutputTokens: options.forced ? 1000 : 900,
+    maxTokens: options.forced ? 1000 : 900,
     temperature: 0.65,
     system: FACILITATOR_SYSTEM,
   })
@@ -291,14 +291,14 @@ Write a structured closing summary with these sections (use markdown headings):
 
 Be concise and factual. Do not invent decisions that were not discussed.`
 
-  const res = await callGemini(prompt, {
+  const res = await callAI(prompt, {
     operation: 'talk_it_out_closing',
-    sessionId: context.sessionId,
+    entityType: 'talk_it_out',
+    entityId: context.sessionId,
     userId: context.userId,
     bandId: context.bandId,
   }, {
-    model: getGeminiFacilitatorModel(),
-    maxOutputTokens: 1500,
+    maxTokens: 1500,
     system: FACILITATOR_SYSTEM,
   })
 
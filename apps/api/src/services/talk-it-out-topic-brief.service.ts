@@ -1,6 +1,8 @@
 import { TalkItOutGoal } from '@prisma/client'
-import { callGemini, callGeminiWithGoogleSearch, getGeminiBriefModel } from '../lib/gemini-client'
+import { callAI } from '../lib/ai'
 import { prisma } from '../lib/prisma'
+import { publishTalkItOutEvent } from '../lib/realtime'
+import { documentTextService } from './document-text.service'
 import {
   TalkItOutTopicBrief,
   TopicBriefResearchMode,
@@ -97,6 +99,7 @@ async function buildBandContextPack(
   })
 
   let priorSessions: { topic: string; summary: string | null }[] = []
+  let documents: { title: string; excerpt: string }[] = []
   if (depth === 'full') {
     priorSessions = await prisma.talkItOutSession.findMany({
       where: { bandId, status: 'CLOSED', summary: { not: null } },
@@ -104,6 +107,7 @@ async function buildBandContextPack(
       orderBy: { closedAt: 'desc' },
       select: { topic: true, summary: true },
     })
+    documents = await documentTextService.findRelevantExcerpts(bandId, topic)
   }
 
   const lines: string[] = [
@@ -118,6 +122,12 @@ async function buildBandContextPack(
       )
     }
   }
+  if (documents.length) {
+    lines.push('Relevant band documents (excerpts):')
+    for (const d of documents) {
+      lines.push(`- ${d.title}: ${d.excerpt.slice(0, 400)}`)
+    }
+  }
   if (priorSessions.length) {
     lines.push('Prior Talk It Out sessions on this band:')
     for (const s of priorSessions) {
@@ -158,15 +168,16 @@ Summarize:
 Do NOT invent facts about any specific band. Write for a facilitator preparing a neutral brief.
 Length: about 400–700 words.`
 
-  const res = await callGeminiWithGoogleSearch(prompt, {
+  const res = await callAI(prompt, {
     operation: 'talk_it_out_topic_brief_web',
-    sessionId: context.sessionId,
+    entityType: 'talk_it_out',
+    entityId: context.sessionId,
     userId: context.userId,
     bandId: context.bandId,
   }, {
-    model: getGeminiBriefModel(),
-    maxOutputTokens: 1800,
+    maxTokens: 1800,
     system: BRIEF_SYSTEM,
+    webSearch: true,
   })
 
   return { publicContext: res.content.trim(), webSources: res.webSources }
@@ -214,14 +225,14 @@ Rules:
 - If web notes conflict with band context, prefer band context for internal matters
 - factsToVerifyInRoom must include anything from web research the group should confirm`
 
-  const res = await callGemini(prompt, {
+  const res = await callAI(prompt, {
     operation: 'talk_it_out_topic_brief_synthesis',
-    sessionId: input.context.sessionId,
+    entityType: 'talk_it_out',
+    entityId: input.context.sessionId,
     userId: input.context.userId,
     bandId: input.context.bandId,
   }, {
-    model: getGeminiBriefModel(),
-    maxOutputTokens: input.depth === 'preview' ? 1200 : 2000,
+    maxTokens: input.depth === 'preview' ? 1200 : 2000,
     temperature: 0.35,
     system: BRIEF_SYSTEM,
   })
@@ -356,6 +367,7 @@ export async function generateAndStoreSessionTopicBrief(sessionId: string) {
     where: { id: sessionId },
     data: { topicBriefStatus: 'PENDING' },
   })
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
 
   try {
     const brief = await generateTopicBrief({
@@ -384,6 +396,8 @@ export async function generateAndStoreSessionTopicBrief(sessionId: string) {
       data: { topicBriefStatus: 'FAILED' },
     })
   }
+
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
 }
 
 export async function ensureSessionTopicBriefFresh(
@@ -5,6 +5,7 @@ import {
 } from '@prisma/client'
 import { prisma } from '../lib/prisma'
 import { notificationService } from './notification.service'
+import { publishTalkItOutEvent } from '../lib/realtime'
 import {
   generateClosingSummary,
   generateFacilitatorIntervention,
@@ -234,6 +235,7 @@ export async function joinSession(sessionId: string, userId: string) {
       leftAt: null,
     },
   })
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
 
   return getSessionForUser(sessionId, userId)
 }
@@ -284,6 +286,7 @@ export async function startSession(sessionId: string, userId: string) {
       },
     }),
   ])
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
 
   const actionUrl = `/talk-it-out/${sessionId}`
   for (const p of sessionForOpening.participants) {
@@ -339,6 +342,7 @@ export async function sendUserMessage(
     },
     include: { authorUser: { select: { id: true, name: true } } },
   })
+  publishTalkItOutEvent(sessionId, { type: 'message.created', messageId: userMessage.id })
 
   const allMessages = [...session.messages, userMessage]
   const shouldIntervene = await shouldFacilitatorIntervene(
@@ -350,6 +354,7 @@ export async function sendUserMessage(
 
   let facilitatorMessage = null
   if (shouldIntervene) {
+    publishTalkItOutEvent(sessionId, { type: 'facilitator.thinking' })
     const intervention = await generateFacilitatorIntervention(
       session,
       allMessages,
@@ -373,6 +378,7 @@ export async function sendUserMessage(
             : 'FACILITATOR_INTERVENTION',
         },
       })
+      publishTalkItOutEvent(sessionId, { type: 'message.created', messageId: facilitatorMessage.id })
 
       if (proposesClose) {
         for (const p of session.participants) {
@@ -391,6 +397,11 @@ export async function sendUserMessage(
     }
   }
 
+  if (shouldIntervene && !facilitatorMessage) {
+    // Clears the "facilitator thinking" indicator when it decided not to speak
+    publishTalkItOutEvent(sessionId, { type: 'session.updated' })
+  }
+
   return { userMessage, facilitatorMessage }
 }
 
@@ -432,6 +443,7 @@ export async function closeSession(sessionId: string, userId: string) {
       },
     }),
   ])
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
 
   for (const p of session.participants) {
     if (p.status === 'LEFT') continue
@@ -461,11 +473,14 @@ export async function updateSummaryDraft(
     throw new Error('Summary can only be edited after the session is closed')
   }
 
-  return prisma.talkItOutSession.update({
+  const updated = await prisma.talkItOutSession.update({
     where: { id: sessionId },
     data: { summaryDraft: summaryDraft.trim() },
     include: sessionInclude,
   })
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
+
+  return updated
 }
 
 export async function finalizeSummary(sessionId: string, userId: string) {
@@ -476,9 +491,12 @@ export async function finalizeSummary(sessionId: string, userId: string) {
     throw new Error('Session must be closed first')
   }
 
-  return prisma.talkItOutSession.update({
+  const updated = await prisma.talkItOutSession.update({
     where: { id: sessionId },
     data: { summary: session.summaryDraft || session.summary },
     include: sessionInclude,
   })
+  publishTalkItOutEvent(sessionId, { type: 'session.updated' })
+
+  return updated
 }
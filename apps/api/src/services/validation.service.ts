@@ -1,4 +1,4 @@
-import { callAI, parseAIJson, AIOperationType } from '../lib/ai-client'
+import { callAI, parseAIJson, AIOperationType } from '../lib/ai'
 import { prisma } from '../lib/prisma'
 
 // Types
@@ -3,21 +3,23 @@
  *
  * Handles outbound webhooks to external band websites.
  * Sends notifications when events occur within Band IT that external sites need to know about.
+ *
+ * Events go to the band's primary webhookUrl (every event) and to each
+ * active WebhookEndpoint subscribed to that event type. Event types and
+ * payload schemas are documented in @band-it/shared (webhooks.ts).
+ *
+ * Every event is stored as a WebhookDelivery per receiver before it is sent.
+ * Failed deliveries are retried with exponential backoff by the webhook cron
+ * job and dead-lettered after MAX_ATTEMPTS; any delivery can be replayed.
  */
 
 import crypto from 'crypto'
+import { Prisma, WebhookDeliveryStatus } from '@prisma/client'
+import type { WebhookEventType } from '@band-it/shared'
 import { prisma } from '../lib/prisma'
+import type { MultiOptionTally, ProposalOption } from '../lib/multi-option-tally'
 
-// Webhook event types
-export type WebhookEventType =
-  | 'member.joined'
-  | 'member.left'
-  | 'member.updated'
-  | 'members.sync'
-  | 'status.update'
-  | 'event.created'
-  | 'event.updated'
-  | 'event.cancelled'
+export type { WebhookEventType }
 
 interface WebhookPayload {
   type: WebhookEventType
@@ -31,6 +33,29 @@ interface WebhookConfig {
   webhookSecret: string
 }
 
+interface DeliveryResult {
+  success: boolean
+  statusCode?: number
+  error?: string
+}
+
+// Retry after 1, 2, 4 ... 64 minutes, then dead-letter (about two hours in total)
+const MAX_ATTEMPTS = 8
+const BASE_RETRY_DELAY_MS = 60 * 1000
+
+// Receivers that take longer than this count as failed
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+// How long a claimed delivery is hidden from the retry job while it is being sent
+const CLAIM_MS = 2 * 60 * 1000
+
+// Deliveries retried per cron run
+const RETRY_BATCH_SIZE = 50
+
+function nextRetryAt(attemptCount: number): Date {
+  return new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attemptCount - 1))
+}
+
 /**
  * Generate HMAC signature for webhook payload
  */
@@ -42,12 +67,14 @@ function generateSignature(payload: string, secret: string): string {
 }
 
 /**
- * Send webhook to a URL with signature
+ * Send webhook to a URL with signature.
+ * The delivery ID stays the same across retries so receivers can de-duplicate.
  */
 async function sendWebhook(
   config: WebhookConfig,
-  payload: WebhookPayload
-): Promise<{ success: boolean; statusCode?: number; error?: string }> {
+  payload: WebhookPayload,
+  delivery: { id: string; attempt: number }
+): Promise<DeliveryResult> {
   const payloadString = JSON.stringify(payload)
   const signature = generateSignature(payloadString, config.webhookSecret)
 
@@ -58,8 +85,11 @@ async function sendWebhook(
         'Content-Type': 'application/json',
         'X-BandIT-Signature': signature,
         'X-BandIT-Timestamp': payload.timestamp,
+        'X-BandIT-Delivery': delivery.id,
+        'X-BandIT-Attempt': String(delivery.attempt),
       },
       body: payloadString,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     })
 
     if (!response.ok) {
@@ -79,48 +109,306 @@ async function sendWebhook(
   }
 }
 
+/**
+ * Where a delivery goes: its endpoint, or the band's primary webhook when it
+ * has none. Null when that receiver is gone, disabled or unconfigured.
+ */
+function resolveConfig(delivery: {
+  band: { webhookUrl: string | null; webhookSecret: string | null }
+  endpoint: { url: string; secret: string; isActive: boolean } | null
+}): WebhookConfig | null {
+  if (delivery.endpoint) {
+    return delivery.endpoint.isActive
+      ? { webhookUrl: delivery.endpoint.url, webhookSecret: delivery.endpoint.secret }
+      : null
+  }
+  const { band } = delivery
+  return band.webhookUrl && band.webhookSecret
+    ? { webhookUrl: band.webhookUrl, webhookSecret: band.webhookSecret }
+    : null
+}
+
+/**
+ * Make one attempt at a delivery and record it. Uses the receiver's current
+ * URL and secret, so fixing a misconfigured URL lets pending retries succeed.
+ */
+async function attemptDelivery(deliveryId: string): Promise<DeliveryResult> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: {
+      band: { select: { slug: true, webhookUrl: true, webhookSecret: true } },
+      endpoint: { select: { url: true, secret: true, isActive: true } },
+    },
+  })
+
+  if (!delivery || delivery.status !== 'PENDING') {
+    return { success: delivery?.status === 'DELIVERED' }
+  }
+
+  const { band } = delivery
+  const config = resolveConfig(delivery)
+  if (!config) {
+    // Nowhere to send it; it can be replayed once the receiver is configured again
+    const error = delivery.endpoint ? 'Webhook endpoint is disabled' : 'No webhook configured'
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'DEAD', nextAttemptAt: null, lastError: error },
+    })
+    return { success: false, error }
+  }
+
+  const attemptNumber = delivery.attemptCount + 1
+  const startedAt = Date.now()
+  const result = await sendWebhook(
+    config,
+    delivery.payload as unknown as WebhookPayload,
+    { id: delivery.id, attempt: attemptNumber }
+  )
+
+  const dead = !result.success && attemptNumber >= MAX_ATTEMPTS
+  await prisma.$transaction([
+    prisma.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId,
+        attemptNumber,
+        url: config.webhookUrl,
+        statusCode: result.statusCode ?? null,
+        error: result.error ?? null,
+        durationMs: Date.now() - startedAt,
+      },
+    }),
+    prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attemptCount: attemptNumber,
+        status: result.success ? 'DELIVERED' : dead ? 'DEAD' : 'PENDING',
+        nextAttemptAt: result.success || dead ? null : nextRetryAt(attemptNumber),
+        lastStatusCode: result.statusCode ?? null,
+        lastError: result.error ?? null,
+        deliveredAt: result.success ? new Date() : undefined,
+      },
+    }),
+  ])
+
+  // Log webhook attempt
+  console.log(
+    `Webhook ${delivery.eventType} to ${band.slug}${delivery.endpointId ? ` endpoint ${delivery.endpointId}` : ''} (attempt ${attemptNumber}):`,
+    result.success ? 'success' : dead ? `${result.error} - giving up` : result.error
+  )
+
+  return result
+}
+
+/**
+ * Store a delivery and send it straight away. It is claimed for CLAIM_MS so
+ * the retry job doesn't send it a second time meanwhile.
+ */
+async function createAndSend(
+  data: {
+    bandId: string
+    endpointId: string | null
+    eventType: string
+    payload: Prisma.InputJsonValue
+    replayOfId?: string
+  }
+): Promise<{ deliveryId: string; result: DeliveryResult }> {
+  const delivery = await prisma.webhookDelivery.create({
+    data: { ...data, nextAttemptAt: new Date(Date.now() + CLAIM_MS) },
+  })
+  return { deliveryId: delivery.id, result: await attemptDelivery(delivery.id) }
+}
+
+/**
+ * Receivers for an event: null for the band's primary webhook, plus the IDs
+ * of active endpoints subscribed to the event (an empty list means all)
+ */
+async function findReceivers(bandId: string, type: WebhookEventType) {
+  const band = await prisma.band.findUnique({
+    where: { id: bandId },
+    select: {
+      slug: true,
+      webhookUrl: true,
+      webhookSecret: true,
+      webhookEndpoints: {
+        where: {
+          isActive: true,
+          OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: type } }],
+        },
+        select: { id: true },
+      },
+    },
+  })
+
+  if (!band) return null
+
+  const endpointIds: (string | null)[] = band.webhookEndpoints.map(endpoint => endpoint.id)
+  if (band.webhookUrl && band.webhookSecret) {
+    endpointIds.unshift(null)
+  }
+  return { slug: band.slug, endpointIds }
+}
+
 export const webhookService = {
   /**
-   * Emit a webhook event to a band's configured webhook URL
+   * Emit a webhook event to the band's webhook URL and subscribed endpoints.
+   * Each delivery is stored first, so a failed send is retried later.
    */
   async emit(
     bandId: string,
     type: WebhookEventType,
     data: Record<string, any>
-  ): Promise<{ sent: boolean; error?: string }> {
-    // Get band webhook configuration
+  ): Promise<{ sent: boolean; deliveryIds: string[]; error?: string }> {
+    const receivers = await findReceivers(bandId, type)
+
+    if (!receivers || receivers.endpointIds.length === 0) {
+      return { sent: false, deliveryIds: [], error: 'No webhook configured' }
+    }
+
+    // Every receiver gets the same body, so the timestamp matches across them
+    const payload: WebhookPayload = {
+      type,
+      timestamp: new Date().toISOString(),
+      bandSlug: receivers.slug,
+      data,
+    }
+
+    const sends = await Promise.all(receivers.endpointIds.map(endpointId =>
+      createAndSend({
+        bandId,
+        endpointId,
+        eventType: type,
+        payload: payload as unknown as Prisma.InputJsonValue,
+      })
+    ))
+
+    const failed = sends.find(({ result }) => !result.success)
+    return {
+      sent: !failed,
+      deliveryIds: sends.map(({ deliveryId }) => deliveryId),
+      error: failed?.result.error,
+    }
+  },
+
+  /**
+   * Whether the band has anywhere to send webhooks (primary URL or an active endpoint)
+   */
+  async hasReceivers(bandId: string): Promise<boolean> {
     const band = await prisma.band.findUnique({
       where: { id: bandId },
       select: {
-        slug: true,
         webhookUrl: true,
         webhookSecret: true,
+        _count: { select: { webhookEndpoints: { where: { isActive: true } } } },
       },
     })
 
-    if (!band || !band.webhookUrl || !band.webhookSecret) {
-      return { sent: false, error: 'No webhook configured' }
+    if (!band) return false
+    return !!(band.webhookUrl && band.webhookSecret) || band._count.webhookEndpoints > 0
+  },
+
+  /**
+   * Retry deliveries whose backoff has elapsed. Called by the webhook cron job.
+   */
+  async retryDue(): Promise<{ attempted: number; delivered: number }> {
+    const now = new Date()
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: RETRY_BATCH_SIZE,
+      select: { id: true },
+    })
+
+    let attempted = 0
+    let delivered = 0
+    for (const { id } of due) {
+      // Claim it, so an overlapping run or a replay can't send it twice
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+        data: { nextAttemptAt: new Date(Date.now() + CLAIM_MS) },
+      })
+      if (claimed.count === 0) continue
+
+      attempted++
+      const result = await attemptDelivery(id)
+      if (result.success) delivered++
     }
 
-    const payload: WebhookPayload = {
-      type,
-      timestamp: new Date().toISOString(),
-      bandSlug: band.slug,
-      data,
+    return { attempted, delivered }
+  },
+
+  /**
+   * Send a stored delivery again, to the same receiver, as a new delivery
+   * with the same payload
+   */
+  async replay(bandId: string, deliveryId: string): Promise<{ sent: boolean; deliveryId: string; error?: string }> {
+    const original = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, bandId },
+    })
+
+    if (!original) {
+      throw new Error('Webhook delivery not found')
     }
 
-    const result = await sendWebhook(
-      {
-        webhookUrl: band.webhookUrl,
-        webhookSecret: band.webhookSecret,
+    const { deliveryId: replayId, result } = await createAndSend({
+      bandId,
+      endpointId: original.endpointId,
+      eventType: original.eventType,
+      payload: original.payload as Prisma.InputJsonValue,
+      replayOfId: original.id,
+    })
+
+    return { sent: result.success, deliveryId: replayId, error: result.error }
+  },
+
+  /**
+   * Recent deliveries for a band, newest first
+   */
+  async listDeliveries(bandId: string, options: {
+    status?: WebhookDeliveryStatus
+    endpointId?: string
+    cursor?: string
+    limit?: number
+  } = {}) {
+    const limit = options.limit ?? 25
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { bandId, status: options.status, endpointId: options.endpointId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      cursor: options.cursor ? { id: options.cursor } : undefined,
+      skip: options.cursor ? 1 : 0,
+      select: {
+        id: true,
+        eventType: true,
+        status: true,
+        attemptCount: true,
+        nextAttemptAt: true,
+        lastStatusCode: true,
+        lastError: true,
+        deliveredAt: true,
+        replayOfId: true,
+        createdAt: true,
+        endpoint: { select: { id: true, url: true, description: true } },
       },
-      payload
-    )
+    })
 
-    // Log webhook attempt
-    console.log(`Webhook ${type} to ${band.slug}:`, result.success ? 'success' : result.error)
+    const hasMore = deliveries.length > limit
+    return {
+      deliveries: deliveries.slice(0, limit),
+      nextCursor: hasMore ? deliveries[limit - 1].id : null,
+    }
+  },
 
-    return { sent: result.success, error: result.error }
+  /**
+   * A delivery with its payload and every attempt
+   */
+  async getDelivery(bandId: string, deliveryId: string) {
+    return prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, bandId },
+      include: {
+        attempts: { orderBy: { attemptNumber: 'asc' } },
+        endpoint: { select: { id: true, url: true, description: true, isActive: true } },
+      },
+    })
   },
 
   /**
@@ -223,6 +511,162 @@ export const webhookService = {
     })
   },
 
+  /**
+   * Notify external website when a proposal is created
+   */
+  async proposalCreated(bandId: string, proposal: {
+    id: string
+    title: string
+    type: string
+    status: string
+    createdBy: string
+    votingEndsAt?: Date | null
+    createdAt: Date
+  }) {
+    return this.emit(bandId, 'proposal.created', {
+      id: proposal.id,
+      title: proposal.title,
+      type: proposal.type,
+      status: proposal.status,
+      createdBy: proposal.createdBy,
+      votingEndsAt: proposal.votingEndsAt?.toISOString() ?? null,
+      createdAt: proposal.createdAt.toISOString(),
+    })
+  },
+
+  /**
+   * Notify external website when voting on a proposal closes
+   */
+  async proposalClosed(bandId: string, proposal: {
+    id: string
+    title: string
+    outcome: 'APPROVED' | 'REJECTED'
+    rejectionReason?: string | null
+    tally: { yes: number; no: number; abstain: number; eligibleVoters: number; quorumMet: boolean }
+    multiOption?: { tally: MultiOptionTally; options: ProposalOption[] } | null
+    closedAt: Date
+  }) {
+    const { multiOption } = proposal
+    return this.emit(bandId, 'proposal.closed', {
+      id: proposal.id,
+      title: proposal.title,
+      outcome: proposal.outcome,
+      rejectionReason: proposal.rejectionReason ?? null,
+      tally: proposal.tally,
+      multiOption: multiOption
+        ? {
+            method: multiOption.tally.method,
+            options: multiOption.options.map(o => ({ id: o.id, label: o.label })),
+            winnerOptionId: multiOption.tally.winnerOptionId,
+            tiedOptionIds: multiOption.tally.tiedOptionIds,
+            ballotsCounted: multiOption.tally.ballotsCounted,
+            rounds: multiOption.tally.rounds,
+          }
+        : null,
+      closedAt: proposal.closedAt.toISOString(),
+    })
+  },
+
+  /**
+   * Notify external website when a project changes status
+   */
+  async projectStatusChanged(bandId: string, project: {
+    id: string
+    name: string
+    previousStatus: string
+    status: string
+    changedAt: Date
+  }) {
+    return this.emit(bandId, 'project.status_changed', {
+      id: project.id,
+      name: project.name,
+      previousStatus: project.previousStatus,
+      status: project.status,
+      changedAt: project.changedAt.toISOString(),
+    })
+  },
+
+  /**
+   * Notify external website when a task is completed
+   */
+  async taskCompleted(bandId: string, task: {
+    id: string
+    name: string
+    project: { id: string; name: string }
+    completedAt: Date
+  }) {
+    return this.emit(bandId, 'task.completed', {
+      id: task.id,
+      name: task.name,
+      project: { id: task.project.id, name: task.project.name },
+      completedAt: task.completedAt.toISOString(),
+    })
+  },
+
+  /**
+   * Notify external website when a donation is confirmed. The donor is left
+   * out; donations aren't public by default.
+   */
+  async donationConfirmed(bandId: string, donation: {
+    id: string
+    amount: number
+    currency: string
+    confirmedAt: Date
+  }) {
+    return this.emit(bandId, 'donation.confirmed', {
+      id: donation.id,
+      amount: donation.amount,
+      currency: donation.currency,
+      confirmedAt: donation.confirmedAt.toISOString(),
+    })
+  },
+
+  /**
+   * Notify external website when a post is published
+   */
+  async postPublished(bandId: string, post: {
+    id: string
+    title: string
+    slug: string
+    category: { name: string; slug: string }
+    author: string
+    publishedAt: Date
+  }) {
+    return this.emit(bandId, 'post.published', {
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      category: { name: post.category.name, slug: post.category.slug },
+      author: post.author,
+      publishedAt: post.publishedAt.toISOString(),
+    })
+  },
+
+  /**
+   * Notify external website when a document is uploaded
+   */
+  async documentUploaded(bandId: string, document: {
+    id: string
+    title: string
+    description?: string | null
+    folder: string
+    mimeType: string
+    size: number
+    uploadedBy: string
+    uploadedAt: Date
+  }) {
+    return this.emit(bandId, 'document.uploaded', {
+      id: document.id,
+      title: document.title,
+      description: document.description ?? null,
+      folder: document.folder,
+      mimeType: document.mimeType,
+      size: document.size,
+      uploadedBy: document.uploadedBy,
+      uploadedAt: document.uploadedAt.toISOString(),
+    })
+  },
+
   /**
    * Sync members for a band AND its parent (if it has one)
    * Call this when a member joins or leaves any band
@@ -234,14 +678,13 @@ export const webhookService = {
       select: {
         id: true,
         parentBandId: true,
-        webhookUrl: true,
       },
     })
 
     if (!band) return
 
     // Sync the current band if it has a webhook
-    if (band.webhookUrl) {
+    if (await this.hasReceivers(bandId)) {
       this.syncMembers(bandId).catch(err =>
         console.error('Error syncing members for band:', err)
       )
@@ -266,16 +709,13 @@ export const webhookService = {
       where: { id: bandId },
       select: {
         id: true,
-        slug: true,
-        webhookUrl: true,
-        webhookSecret: true,
         subBands: {
           select: { id: true },
         },
       },
     })
 
-    if (!band || !band.webhookUrl || !band.webhookSecret) {
+    if (!band || !(await this.hasReceivers(bandId))) {
       return { sent: false, memberCount: 0, error: 'No webhook configured' }
     }
 
@@ -2,13 +2,16 @@
  * Stripe Connect Webhooks
  *
  * Handles webhook events from connected Stripe accounts for band dues.
- * Events: checkout.session.completed, subscription updates, invoice failures
+ * Events: checkout.session.completed, subscription updates, paid and failed
+ * invoices, and refunds and lost chargebacks (charge.refunded,
+ * charge.dispute.closed), which reverse the dues or card donation posting
  */
 
 import { Request, Response } from 'express'
 import Stripe from 'stripe'
 import { prisma } from '../lib/prisma'
 import { logAuditEvent } from '../lib/auditContext'
+import { ledgerService } from '../services/ledger.service'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!)
 const STRIPE_CONNECT_WEBHOOK_SECRET = process.env.STRIPE_CONNECT_WEBHOOK_SECRET
@@ -80,10 +83,22 @@ export async function handleStripeConnectWebhook(req: Request, res: Response) {
         await handleSubscriptionDeleted(event)
         break
 
+      case 'invoice.paid':
+        await handleInvoicePaid(event, connectedAccountId)
+        break
+
       case 'invoice.payment_failed':
         await handleInvoicePaymentFailed(event)
         break
 
+      case 'charge.refunded':
+        await handleChargeRefunded(event, connectedAccountId)
+        break
+
+      case 'charge.dispute.closed':
+        await handleDisputeClosed(event, connectedAccountId)
+        break
+
       default:
         // Event type we don't handle - mark as ignored
         await prisma.stripeEventReceipt.update({
@@ -327,6 +342,62 @@ async function handleSubscriptionDeleted(event: Stripe.Event) {
   }
 }
 
+/**
+ * Handle invoice.paid
+ * Dues payment collected - post it to the band's ledger
+ */
+async function handleInvoicePaid(
+  event: Stripe.Event,
+  connectedAccountId: string
+) {
+  const invoice = event.data.object as Stripe.Invoice
+  const subscriptionId = invoice.subscription as string
+
+  if (!subscriptionId || invoice.amount_paid <= 0) {
+    // One-time or zero-amount invoice, not a dues payment
+    return
+  }
+
+  const bandStripeAccount = await prisma.bandStripeAccount.findFirst({
+    where: {
+      stripeAccountId: connectedAccountId,
+      disconnectedAt: null,
+    },
+  })
+
+  if (!bandStripeAccount) {
+    console.warn('Stripe Connect: No band for connected account', connectedAccountId)
+    return
+  }
+
+  // Billing record may not exist yet if this arrives before checkout.session.completed
+  const billing = await prisma.bandMemberBilling.findFirst({
+    where: { stripeSubscriptionId: subscriptionId },
+    include: { user: { select: { name: true } } },
+  })
+
+  await ledgerService.postStripeDuesInvoice({
+    bandId: bandStripeAccount.bandId,
+    invoiceId: invoice.id,
+    amount: invoice.amount_paid,
+    memberName: billing?.user.name,
+    paidAt: invoice.status_transitions?.paid_at
+      ? new Date(invoice.status_transitions.paid_at * 1000)
+      : new Date(),
+  })
+
+  await prisma.stripeEventReceipt.updateMany({
+    where: { stripeEventId: event.id },
+    data: { bandId: bandStripeAccount.bandId },
+  })
+
+  console.log('Stripe Connect: Dues invoice posted to ledger', {
+    bandId: bandStripeAccount.bandId,
+    invoiceId: invoice.id,
+    amount: invoice.amount_paid,
+  })
+}
+
 /**
  * Handle invoice.payment_failed
  * Payment attempt failed - mark as past due
@@ -365,3 +436,99 @@ async function handleInvoicePaymentFailed(event: Stripe.Event) {
     }
   }
 }
+
+/**
+ * Reverse the ledger posting for a charge's money: the dues invoice it paid,
+ * or the card donation it collected (which is also marked REFUNDED)
+ */
+async function reverseChargePosting(
+  event: Stripe.Event,
+  charge: Stripe.Charge,
+  connectedAccountId: string,
+  reason: string
+) {
+  const bandStripeAccount = await prisma.bandStripeAccount.findFirst({
+    where: { stripeAccountId: connectedAccountId },
+  })
+  if (!bandStripeAccount) {
+    console.warn('Stripe Connect: No band for connected account', connectedAccountId)
+    return
+  }
+
+  const invoiceId = typeof charge.invoice === 'string' ? charge.invoice : charge.invoice?.id
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id
+
+  let reversal = null
+  if (invoiceId) {
+    reversal = await ledgerService.reverseSourcePosting({
+      sourceType: 'STRIPE_DUES',
+      sourceId: invoiceId,
+      reason,
+    })
+  } else if (paymentIntentId) {
+    const donation = await prisma.donation.findFirst({
+      where: { bandId: bandStripeAccount.bandId, stripePaymentIntentId: paymentIntentId },
+    })
+    if (donation) {
+      await prisma.donation.update({
+        where: { id: donation.id },
+        data: { status: 'REFUNDED' },
+      })
+      reversal = await ledgerService.reverseSourcePosting({
+        sourceType: 'DONATION',
+        sourceId: donation.id,
+        reason,
+      })
+    }
+  }
+
+  await prisma.stripeEventReceipt.updateMany({
+    where: { stripeEventId: event.id },
+    data: { bandId: bandStripeAccount.bandId },
+  })
+
+  console.log('Stripe Connect: Charge reversed in ledger', {
+    bandId: bandStripeAccount.bandId,
+    chargeId: charge.id,
+    reason,
+    reversalId: reversal?.id ?? null,
+  })
+}
+
+/**
+ * Handle charge.refunded
+ * Full refunds reverse the posting. A partial refund leaves it in place
+ * and is logged for the treasurer to account for.
+ */
+async function handleChargeRefunded(event: Stripe.Event, connectedAccountId: string) {
+  const charge = event.data.object as Stripe.Charge
+
+  if (!charge.refunded) {
+    console.warn('Stripe Connect: Partial refund not reversed in ledger', {
+      chargeId: charge.id,
+      amountRefunded: charge.amount_refunded,
+      amount: charge.amount,
+    })
+    return
+  }
+
+  await reverseChargePosting(event, charge, connectedAccountId, 'refunded')
+}
+
+/**
+ * Handle charge.dispute.closed
+ * Only a lost chargeback takes the money; a won one leaves the posting as is
+ */
+async function handleDisputeClosed(event: Stripe.Event, connectedAccountId: string) {
+  const dispute = event.data.object as Stripe.Dispute
+
+  if (dispute.status !== 'lost') return
+
+  const charge = typeof dispute.charge === 'string'
+    ? await stripe.charges.retrieve(dispute.charge, {}, { stripeAccount: connectedAccountId })
+    : dispute.charge
+
+  await reverseChargePosting(event, charge, connectedAccountId, 'chargeback lost')
+}
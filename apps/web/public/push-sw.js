@@ -0,0 +1,33 @@
+// Service worker for Web Push notifications. Payloads are sent by the API's
+// push channel: { title, body, url, tag }.
+
+self.addEventListener('push', (event) => {
+  let data = {}
+  try {
+    data = event.data ? event.data.json() : {}
+  } catch {
+    data = { title: event.data ? event.data.text() : 'Band IT' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Band IT', {
+      body: data.body,
+      icon: '/logo.png',
+      tag: data.tag,
+      data: { url: data.url || '/notifications' },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/notifications', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url)
+      if (existing) return existing.focus()
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -47,22 +47,22 @@ export default function AdminAnalyticsPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: overview, isLoading: overviewLoading } = trpc.analytics.getOverview.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
   const { data: trends, isLoading: trendsLoading } = trpc.analytics.getDailyTrends.useQuery(
-    { userId: userId!, days: 30 },
+    { days: 30 },
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
   const { data: recentEvents, isLoading: eventsLoading } = trpc.analytics.getRecentEvents.useQuery(
-    { userId: userId!, limit: 50 },
+    { limit: 50 },
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
@@ -39,13 +39,13 @@ export default function AdminArchivedBandsPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: archivedData, isLoading: archivedLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
     trpc.band.getArchivedBands.useInfiniteQuery(
-      { userId: userId!, limit: 20 },
+      { limit: 20 },
       {
         enabled: !!userId && profileData?.user?.isAdmin,
         getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -53,7 +53,7 @@ export default function AdminArchivedBandsPage() {
     )
 
   const { data: detailsData, isLoading: detailsLoading } = trpc.band.getArchivedBandDetails.useQuery(
-    { userId: userId!, bandId: selectedBandId! },
+    { bandId: selectedBandId! },
     { enabled: !!userId && !!selectedBandId && profileData?.user?.isAdmin }
   )
 
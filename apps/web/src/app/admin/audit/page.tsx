@@ -33,7 +33,7 @@ export default function AdminAuditPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -101,12 +101,12 @@ export default function CreateBigBandPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId },
   )
 
   const { data: searchResults, isLoading: searchLoading } = trpc.admin.searchUsersForFounder.useQuery(
-    { adminUserId: userId!, search: founderSearch },
+    { search: founderSearch },
     {
       enabled: !!userId && profileData?.user?.isAdmin && founderSearch.length >= 2,
     },
@@ -145,7 +145,6 @@ export default function CreateBigBandPage() {
         fileName: file.name,
         mimeType: file.type,
         base64Data,
-        userId,
         category: 'IMAGE',
       })
       setForm((prev) => ({ ...prev, logoUrl: result.file.url }))
@@ -191,7 +190,6 @@ export default function CreateBigBandPage() {
     setFieldErrors({})
 
     createBigBandMutation.mutate({
-      adminUserId: userId,
       founderId: selectedFounder.id,
       name: form.name.trim(),
       mission: form.mission.trim(),
@@ -41,12 +41,12 @@ export default function AdminBandsPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: bandsData, isLoading: bandsLoading } = trpc.admin.getBands.useQuery(
-    { userId: userId!, search: search || undefined, page, limit: 20 },
+    { search: search || undefined, page, limit: 20 },
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
@@ -74,13 +74,12 @@ export default function AdminBlockedTermsPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: termsData, isLoading: termsLoading } = trpc.admin.getBlockedTerms.useQuery(
     {
-      adminUserId: userId!,
       search: search || undefined,
       category: filterCategory || undefined,
       severity: filterSeverity || undefined,
@@ -174,7 +173,6 @@ export default function AdminBlockedTermsPage() {
   const handleAdd = () => {
     if (!newTerm.trim()) return
     addMutation.mutate({
-      adminUserId: userId!,
       term: newTerm.trim(),
       isRegex: newIsRegex,
       severity: newSeverity,
@@ -188,7 +186,6 @@ export default function AdminBlockedTermsPage() {
   const handleUpdate = () => {
     if (!editModal.term || !editTerm.trim()) return
     updateMutation.mutate({
-      adminUserId: userId!,
       termId: editModal.term.id,
       term: editTerm.trim(),
       isRegex: editIsRegex,
@@ -204,7 +201,6 @@ export default function AdminBlockedTermsPage() {
   const handleDelete = (termId: string) => {
     if (confirm('Are you sure you want to delete this blocked term?')) {
       deleteMutation.mutate({
-        adminUserId: userId!,
         termId,
       })
     }
@@ -219,7 +215,6 @@ export default function AdminBlockedTermsPage() {
     if (terms.length === 0) return
 
     bulkAddMutation.mutate({
-      adminUserId: userId!,
       terms,
       severity: bulkSeverity,
       category: bulkCategory || undefined,
@@ -83,13 +83,12 @@ export default function AdminFaqPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: faqData, isLoading: faqLoading } = trpc.admin.getFaqEntries.useQuery(
     {
-      adminUserId: userId!,
       search: search || undefined,
       category: filterCategory || undefined,
     },
@@ -168,7 +167,6 @@ export default function AdminFaqPage() {
   const handleCreate = () => {
     if (!newQuestion.trim() || !newAnswer.trim()) return
     createMutation.mutate({
-      adminUserId: userId!,
       category: newCategory,
       question: newQuestion.trim(),
       answer: newAnswer.trim(),
@@ -182,7 +180,6 @@ export default function AdminFaqPage() {
   const handleUpdate = () => {
     if (!editModal.entry || !editQuestion.trim() || !editAnswer.trim()) return
     updateMutation.mutate({
-      adminUserId: userId!,
       entryId: editModal.entry.id,
       category: editCategory,
       question: editQuestion.trim(),
@@ -197,7 +194,6 @@ export default function AdminFaqPage() {
   const handleDelete = (entryId: string) => {
     if (confirm('Are you sure you want to delete this FAQ entry?')) {
       deleteMutation.mutate({
-        adminUserId: userId!,
         entryId,
       })
     }
@@ -205,7 +201,6 @@ export default function AdminFaqPage() {
 
   const handleTogglePublished = (entry: any) => {
     updateMutation.mutate({
-      adminUserId: userId!,
       entryId: entry.id,
       isPublished: !entry.isPublished,
     })
@@ -63,18 +63,17 @@ export default function AdminModerationPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: statsData } = trpc.admin.getFlaggedContentStats.useQuery(
-    { adminUserId: userId! },
+    undefined,
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
   const { data: flaggedData, isLoading: flaggedLoading } = trpc.admin.getFlaggedContent.useQuery(
     {
-      adminUserId: userId!,
       status: statusFilter || undefined,
       contentType: typeFilter || undefined,
       page,
@@ -85,7 +84,6 @@ export default function AdminModerationPage() {
 
   const { data: appealsData, isLoading: appealsLoading } = trpc.admin.getPendingAppeals.useQuery(
     {
-      adminUserId: userId!,
       page: appealsPage,
       limit: 20,
     },
@@ -139,7 +137,6 @@ export default function AdminModerationPage() {
   const handleReview = () => {
     if (!reviewModal.item) return
     reviewMutation.mutate({
-      adminUserId: userId!,
       flaggedContentId: reviewModal.item.id,
       action: reviewAction,
       reviewNotes: reviewNotes || undefined,
@@ -151,7 +148,6 @@ export default function AdminModerationPage() {
     if (selectedItems.length === 0) return
     if (!confirm(`Dismiss ${selectedItems.length} selected items?`)) return
     bulkDismissMutation.mutate({
-      adminUserId: userId!,
       flaggedContentIds: selectedItems,
     })
   }
@@ -180,7 +176,6 @@ export default function AdminModerationPage() {
   const handleAppealReview = () => {
     if (!appealModal.item) return
     reviewAppealMutation.mutate({
-      adminUserId: userId!,
       flaggedContentId: appealModal.item.id,
       decision: appealDecision === 'approve' ? 'APPROVED' : 'DENIED',
       reviewNotes: appealNotes || undefined,
@@ -0,0 +1,303 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { trpc, type RouterInputs } from '@/lib/trpc'
+import {
+  DEFAULT_TEMPLATE_LOCALE,
+  TemplateContent,
+  TemplateLocale,
+  getSampleVariables,
+  renderTemplate,
+  validateTemplate,
+} from '@band-it/shared'
+import {
+  Text,
+  Heading,
+  Stack,
+  Card,
+  Flex,
+  Badge,
+  Button,
+  Input,
+  Textarea,
+  Alert,
+  Loading,
+  useToast,
+} from '@/components/ui'
+
+type Field = keyof TemplateContent
+
+type NotificationType = RouterInputs['notificationTemplate']['get']['type']
+
+const EMPTY_CONTENT: TemplateContent = { title: '', message: '', emailSubject: '', emailBody: '' }
+
+interface NotificationTemplateEditorProps {
+  type: NotificationType
+  label: string
+  locales: Array<{ code: string; name: string }>
+}
+
+/**
+ * Edit one notification type's template in each language, with a live
+ * preview against sample values and the template's version history
+ */
+export function NotificationTemplateEditor({ type, label, locales }: NotificationTemplateEditorProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const [locale, setLocale] = useState<TemplateLocale>(DEFAULT_TEMPLATE_LOCALE)
+  const [content, setContent] = useState<TemplateContent>(EMPTY_CONTENT)
+  const [lastField, setLastField] = useState<Field>('message')
+
+  const { data, isLoading } = trpc.notificationTemplate.get.useQuery({ type, locale })
+
+  useEffect(() => {
+    if (!data) return
+    // New translations start from the English text
+    const source = data.template ?? data.english
+    setContent(source
+      ? { title: source.title, message: source.message, emailSubject: source.emailSubject, emailBody: source.emailBody }
+      : EMPTY_CONTENT)
+  }, [data])
+
+  const invalidate = () => {
+    utils.notificationTemplate.get.invalidate({ type, locale })
+    utils.notificationTemplate.list.invalidate()
+  }
+
+  const saveMutation = trpc.notificationTemplate.save.useMutation({
+    onSuccess: () => {
+      showToast('Template saved', 'success')
+      invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const restoreMutation = trpc.notificationTemplate.restoreVersion.useMutation({
+    onSuccess: () => {
+      showToast('Version restored', 'success')
+      invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const deleteMutation = trpc.notificationTemplate.deleteLocale.useMutation({
+    onSuccess: () => {
+      showToast('Translation deleted', 'success')
+      invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const setField = (field: Field, value: string) => {
+    setContent(prev => ({ ...prev, [field]: value }))
+  }
+
+  const insertVariable = (name: string) => {
+    setContent(prev => ({ ...prev, [lastField]: `${prev[lastField]}{${name}}` }))
+  }
+
+  const handleSave = () => {
+    saveMutation.mutate({ type, locale, ...content })
+  }
+
+  const handleDelete = () => {
+    if (confirm('Delete this translation? Users who read this language will get English instead.')) {
+      deleteMutation.mutate({ type, locale })
+    }
+  }
+
+  const samples = getSampleVariables(type)
+  const errors = validateTemplate(type, content)
+  const isEmpty = Object.values(content).some(value => !value.trim())
+  const preview = {
+    title: renderTemplate(content.title, samples).text,
+    message: renderTemplate(content.message, samples).text,
+    emailSubject: renderTemplate(content.emailSubject, samples).text,
+    emailBody: renderTemplate(content.emailBody, samples).text,
+  }
+
+  const template = data?.template
+
+  return (
+    <Stack spacing="lg">
+      <Card>
+        <Stack spacing="md">
+          <Flex justify="between" align="center" wrap="wrap" gap="sm">
+            <Stack spacing="xs">
+              <Heading level={3}>{label}</Heading>
+              <Text variant="small" color="muted">{type}</Text>
+            </Stack>
+            <Flex gap="xs" wrap="wrap">
+              {locales.map(option => (
+                <Button
+                  key={option.code}
+                  variant={locale === option.code ? 'primary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setLocale(option.code as TemplateLocale)}
+                >
+                  {option.name}
+                </Button>
+              ))}
+            </Flex>
+          </Flex>
+
+          {isLoading ? (
+            <Loading message="Loading template..." />
+          ) : (
+            <>
+              {!template && (
+                <Alert variant="info">
+                  <Text variant="small">
+                    {locale === DEFAULT_TEMPLATE_LOCALE
+                      ? 'This notification has no template yet; it uses the text written where it is sent. Saving one replaces that text whenever every variable is available.'
+                      : 'No translation yet. Users who read this language get English until you save one.'}
+                  </Text>
+                </Alert>
+              )}
+              {template && (
+                <Text variant="small" color="muted">
+                  Version {template.version}
+                  {template.customizedAt ? ` • edited ${new Date(template.customizedAt).toLocaleString()}` : ' • original text'}
+                </Text>
+              )}
+
+              <Input
+                label="Title"
+                value={content.title}
+                onChange={(e) => setField('title', e.target.value)}
+                onFocus={() => setLastField('title')}
+              />
+              <Textarea
+                label="Message"
+                value={content.message}
+                onChange={(e) => setField('message', e.target.value)}
+                onFocus={() => setLastField('message')}
+                rows={2}
+                disableRichPaste
+              />
+              <Input
+                label="Email subject"
+                value={content.emailSubject}
+                onChange={(e) => setField('emailSubject', e.target.value)}
+                onFocus={() => setLastField('emailSubject')}
+              />
+              <Textarea
+                label="Email body"
+                value={content.emailBody}
+                onChange={(e) => setField('emailBody', e.target.value)}
+                onFocus={() => setLastField('emailBody')}
+                rows={8}
+                disableRichPaste
+              />
+
+              <Stack spacing="xs">
+                <Text variant="small" weight="semibold">Variables</Text>
+                <Text variant="small" color="muted">
+                  Click one to add it to the field you were last editing. Required variables must appear in
+                  both the in-app text and the email.
+                </Text>
+                <Flex gap="xs" wrap="wrap">
+                  {data?.variables.map(variable => (
+                    <button
+                      key={variable.name}
+                      type="button"
+                      onClick={() => insertVariable(variable.name)}
+                      title={`${variable.description} (e.g. ${variable.sample})`}
+                      className="font-mono text-xs rounded border border-gray-300 px-2 py-1 hover:bg-gray-50"
+                    >
+                      {`{${variable.name}}`}{variable.required ? ' *' : ''}
+                    </button>
+                  ))}
+                </Flex>
+              </Stack>
+
+              {errors.length > 0 && (
+                <Alert variant="warning">
+                  <Stack spacing="xs">
+                    {errors.map(error => (
+                      <Text key={error} variant="small">{error}</Text>
+                    ))}
+                  </Stack>
+                </Alert>
+              )}
+
+              <Flex gap="sm">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={saveMutation.isPending || errors.length > 0 || isEmpty}
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save New Version'}
+                </Button>
+                {template && locale !== DEFAULT_TEMPLATE_LOCALE && (
+                  <Button variant="danger" size="sm" onClick={handleDelete} disabled={deleteMutation.isPending}>
+                    Delete Translation
+                  </Button>
+                )}
+              </Flex>
+            </>
+          )}
+        </Stack>
+      </Card>
+
+      <Card>
+        <Stack spacing="md">
+          <Heading level={3}>Preview</Heading>
+          <Text variant="small" color="muted">With sample values.</Text>
+          <div className="border border-gray-200 rounded p-3">
+            <Text weight="semibold">{preview.title}</Text>
+            <Text variant="small" color="muted">{preview.message}</Text>
+          </div>
+          <div className="border border-gray-200 rounded p-3">
+            <Text variant="small" color="muted">Subject: {preview.emailSubject}</Text>
+            <div className="mt-2 text-sm text-gray-800 whitespace-pre-line">{preview.emailBody}</div>
+          </div>
+        </Stack>
+      </Card>
+
+      {template && template.versions.length > 0 && (
+        <Card>
+          <Stack spacing="md">
+            <Heading level={3}>History</Heading>
+            <Stack spacing="sm">
+              {template.versions.map(version => (
+                <div key={version.id} className="border border-gray-200 rounded p-3">
+                  <Flex justify="between" align="start" gap="sm">
+                    <div className="min-w-0">
+                      <Flex gap="sm" align="center">
+                        <Text variant="small" weight="semibold">Version {version.version}</Text>
+                        {version.version === template.version && <Badge variant="success" size="sm">Current</Badge>}
+                      </Flex>
+                      <Text variant="small" color="muted">
+                        {version.editedBy ? version.editedBy.name : 'Original'} • {new Date(version.createdAt).toLocaleString()}
+                      </Text>
+                      <Text variant="small" className="truncate">{version.title} — {version.message}</Text>
+                    </div>
+                    {version.version !== template.version && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate({ templateId: template.id, version: version.version })}
+                        disabled={restoreMutation.isPending}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </Flex>
+                </div>
+              ))}
+            </Stack>
+          </Stack>
+        </Card>
+      )}
+    </Stack>
+  )
+}
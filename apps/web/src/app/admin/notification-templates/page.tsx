@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { trpc } from '@/lib/trpc'
+import { jwtDecode } from 'jwt-decode'
+import {
+  Text,
+  Stack,
+  Card,
+  Loading,
+  Alert,
+  AdminLayout,
+  Flex,
+  Badge,
+  Input,
+} from '@/components/ui'
+import { AppNav } from '@/components/AppNav'
+import { NotificationTemplateEditor } from './components/NotificationTemplateEditor'
+
+export default function AdminNotificationTemplatesPage() {
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [selectedType, setSelectedType] = useState<string | null>(null)
+
+  useEffect(() => {
+    const token = localStorage.getItem('accessToken')
+    if (token) {
+      try {
+        const decoded: any = jwtDecode(token)
+        setUserId(decoded.userId)
+      } catch (error) {
+        router.push('/login')
+      }
+    } else {
+      router.push('/login')
+    }
+  }, [router])
+
+  const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
+    undefined,
+    { enabled: !!userId }
+  )
+
+  const { data, isLoading } = trpc.notificationTemplate.list.useQuery(
+    undefined,
+    { enabled: !!userId && profileData?.user?.isAdmin }
+  )
+
+  if (profileLoading) {
+    return (
+      <>
+        <AppNav />
+        <AdminLayout pageTitle="Notification Templates" subtitle="Loading...">
+          <Loading message="Checking permissions..." />
+        </AdminLayout>
+      </>
+    )
+  }
+
+  if (!profileData?.user?.isAdmin) {
+    return (
+      <>
+        <AppNav />
+        <AdminLayout pageTitle="Access Denied">
+          <Alert variant="danger">
+            <Text>You do not have permission to access the admin area.</Text>
+          </Alert>
+        </AdminLayout>
+      </>
+    )
+  }
+
+  const query = search.trim().toLowerCase()
+  const groups = (data?.groups ?? [])
+    .map(group => ({
+      ...group,
+      types: group.types.filter(type =>
+        !query || type.label.toLowerCase().includes(query) || type.type.toLowerCase().includes(query)
+      ),
+    }))
+    .filter(group => group.types.length > 0)
+
+  const selected = data?.groups.flatMap(group => group.types).find(type => type.type === selectedType)
+
+  return (
+    <>
+      <AppNav />
+      <AdminLayout pageTitle="Notification Templates" subtitle="Edit notification and email text, per language">
+        {isLoading || !data ? (
+          <Loading message="Loading templates..." />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-1">
+              <Stack spacing="md">
+                <Input
+                  placeholder="Search notifications..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                <div className="max-h-[70vh] overflow-y-auto">
+                  <Stack spacing="md">
+                    {groups.map(group => (
+                      <Stack key={group.id} spacing="xs">
+                        <Text variant="small" weight="semibold" className="text-gray-500 uppercase text-xs">
+                          {group.label}
+                        </Text>
+                        {group.types.map(type => (
+                          <button
+                            key={type.type}
+                            type="button"
+                            onClick={() => setSelectedType(type.type)}
+                            className={`text-left rounded px-2 py-1.5 text-sm ${
+                              selectedType === type.type ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50 text-gray-800'
+                            }`}
+                          >
+                            <Flex justify="between" align="center" gap="sm">
+                              <span>{type.label}</span>
+                              <Flex gap="xs">
+                                {type.templates.map(template => (
+                                  <Badge
+                                    key={template.locale}
+                                    variant={template.customizedAt ? 'info' : 'neutral'}
+                                    size="sm"
+                                  >
+                                    {template.locale}
+                                  </Badge>
+                                ))}
+                              </Flex>
+                            </Flex>
+                          </button>
+                        ))}
+                      </Stack>
+                    ))}
+                  </Stack>
+                </div>
+              </Stack>
+            </Card>
+
+            <div className="lg:col-span-2">
+              {selected ? (
+                <NotificationTemplateEditor
+                  key={selected.type}
+                  type={selected.type}
+                  label={selected.label}
+                  locales={data.locales}
+                />
+              ) : (
+                <Card>
+                  <Text color="muted">
+                    Choose a notification to edit its text. Highlighted languages have been edited by an admin.
+                  </Text>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </AdminLayout>
+    </>
+  )
+}
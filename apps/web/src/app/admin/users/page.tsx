@@ -56,12 +56,12 @@ export default function AdminUsersPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: usersData, isLoading: usersLoading } = trpc.admin.getUsers.useQuery(
-    { userId: userId!, search: search || undefined, page, limit: 20 },
+    { search: search || undefined, page, limit: 20 },
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
@@ -145,7 +145,6 @@ export default function AdminUsersPage() {
       return
     }
     setAdminMutation.mutate({
-      adminUserId: userId!,
       targetUserId,
       isAdmin: !currentIsAdmin,
     })
@@ -154,7 +153,6 @@ export default function AdminUsersPage() {
   const handleWarn = () => {
     if (!warnModal.user || !warnReason.trim()) return
     warnMutation.mutate({
-      adminUserId: userId!,
       targetUserId: warnModal.user.id,
       reason: warnReason.trim(),
     })
@@ -163,7 +161,6 @@ export default function AdminUsersPage() {
   const handleSuspend = () => {
     if (!suspendModal.user || !suspendReason.trim()) return
     suspendMutation.mutate({
-      adminUserId: userId!,
       targetUserId: suspendModal.user.id,
       days: parseInt(suspendDays),
       reason: suspendReason.trim(),
@@ -173,7 +170,6 @@ export default function AdminUsersPage() {
   const handleUnsuspend = (targetUserId: string) => {
     if (confirm('Are you sure you want to remove this user\'s suspension?')) {
       unsuspendMutation.mutate({
-        adminUserId: userId!,
         targetUserId,
       })
     }
@@ -182,7 +178,6 @@ export default function AdminUsersPage() {
   const handleBan = () => {
     if (!banModal.user || !banReason.trim()) return
     banMutation.mutate({
-      adminUserId: userId!,
       targetUserId: banModal.user.id,
       reason: banReason.trim(),
     })
@@ -191,7 +186,6 @@ export default function AdminUsersPage() {
   const handleUnban = (targetUserId: string) => {
     if (confirm('Are you sure you want to unban this user?')) {
       unbanMutation.mutate({
-        adminUserId: userId!,
         targetUserId,
       })
     }
@@ -200,7 +194,6 @@ export default function AdminUsersPage() {
   const handleResetWarnings = (targetUserId: string) => {
     if (confirm('Are you sure you want to reset this user\'s warnings? This will delete all warning records.')) {
       resetWarningsMutation.mutate({
-        adminUserId: userId!,
         targetUserId,
       })
     }
@@ -43,12 +43,12 @@ export default function AdminWaitingRoomPage() {
   }, [router])
 
   const { data: profileData, isLoading: profileLoading } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: pendingData, isLoading: pendingLoading } = trpc.admin.getUsersPendingAccess.useQuery(
-    { userId: userId!, search: search || undefined, page, limit: 50 },
+    { search: search || undefined, page, limit: 50 },
     { enabled: !!userId && profileData?.user?.isAdmin }
   )
 
@@ -121,7 +121,6 @@ export default function AdminWaitingRoomPage() {
       return
     }
     approveMutation.mutate({
-      adminUserId: userId!,
       targetUserIds: Array.from(selectedIds),
     })
   }
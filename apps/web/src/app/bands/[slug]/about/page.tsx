@@ -112,7 +112,6 @@ export default function BandAboutPage() {
     if (!userId || !bandData?.band) return
     leaveBandMutation.mutate({
       bandId: bandData.band.id,
-      userId,
     })
   }
 
@@ -105,17 +105,17 @@ export default function BandApplicationsPage() {
 
   const handleVote = (membershipId: string, vote: 'APPROVE' | 'REJECT') => {
     if (!userId) return
-    voteMutation.mutate({ membershipId, voterId: userId, vote })
+    voteMutation.mutate({ membershipId, vote })
   }
 
   const handleApprove = (membershipId: string, role: string) => {
     if (!userId) return
-    approveMutation.mutate({ membershipId, approverId: userId, role: role as any })
+    approveMutation.mutate({ membershipId, role: role as any })
   }
 
   const handleReject = (membershipId: string) => {
     if (!userId) return
-    rejectMutation.mutate({ membershipId, approverId: userId })
+    rejectMutation.mutate({ membershipId })
   }
 
   // Get user's vote on an application
@@ -50,7 +50,7 @@ export default function ApplyToBandPage() {
   )
 
   const { data: myBandsData, isLoading: myBandsLoading } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -84,7 +84,6 @@ export default function ApplyToBandPage() {
     }
 
     applyMutation.mutate({
-      userId,
       bandId: bandData.band.id,
       notes,
       requestedRole: requestedRole as any,
@@ -69,7 +69,7 @@ export default function EditEventPage() {
   )
 
   const { data: eventData, isLoading: eventLoading } = trpc.event.getById.useQuery(
-    { eventId, userId: userId || undefined },
+    { eventId },
     { enabled: !!eventId }
   )
 
@@ -200,7 +200,6 @@ export default function EditEventPage() {
 
     updateEventMutation.mutate({
       eventId,
-      userId,
       title,
       description: description || null,
       eventType,
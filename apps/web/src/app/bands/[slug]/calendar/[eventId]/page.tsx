@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter, useParams } from 'next/navigation'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
 import { trpc } from '@/lib/trpc'
 import { jwtDecode } from 'jwt-decode'
 import {
@@ -17,9 +17,11 @@ import {
   BandLayout,
   Textarea,
   Input,
+  Select,
   useToast
 } from '@/components/ui'
 import { AppNav } from '@/components/AppNav'
+import { MeetingAgenda } from '@/components/calendar'
 import ReactMarkdown from 'react-markdown'
 
 interface RecordingLink {
@@ -32,10 +34,14 @@ export default function EventDetailPage() {
   const params = useParams()
   const slug = params.slug as string
   const eventId = params.eventId as string
+  const searchParams = useSearchParams()
   const { showToast } = useToast()
   const [userId, setUserId] = useState<string | null>(null)
   const [rsvpNote, setRsvpNote] = useState('')
   const [showRsvpForm, setShowRsvpForm] = useState(false)
+  // Recurring events: the occurrence being viewed, and whether an answer covers every date
+  const [occurrence, setOccurrence] = useState<string | undefined>(searchParams.get('occurrence') || undefined)
+  const [applyToSeries, setApplyToSeries] = useState(false)
 
   // Notes and recording links editing
   const [isEditingNotes, setIsEditingNotes] = useState(false)
@@ -66,7 +72,7 @@ export default function EventDetailPage() {
   )
 
   const { data: eventData, isLoading: eventLoading, refetch: refetchEvent } = trpc.event.getById.useQuery(
-    { eventId, userId: userId || undefined },
+    { eventId, occurrenceDate: occurrence },
     { enabled: !!eventId }
   )
 
@@ -169,6 +175,10 @@ export default function EventDetailPage() {
   const event = eventData.event
   const userRSVP = eventData.userRSVP
   const rsvpCounts = eventData.rsvpCounts
+  const rsvps = eventData.rsvps
+  const isRecurring = !!event.recurrenceRule
+  const occurrenceDate = eventData.occurrenceDate ? new Date(eventData.occurrenceDate).toISOString() : null
+  const upcomingOccurrences = eventData.upcomingOccurrences.map(d => new Date(d).toISOString())
   const meetingOutputProposal = (eventData as any).meetingOutputProposal
   const actionItemsCount = (eventData as any).actionItemsCount || 0
 
@@ -209,27 +219,33 @@ export default function EventDetailPage() {
     if (!userId) return
     setRsvpMutation.mutate({
       eventId,
-      userId,
       status,
       note: rsvpNote || undefined,
+      occurrenceDate: isRecurring && !applyToSeries && occurrenceDate ? occurrenceDate : undefined,
     })
   }
 
   const handleRemoveRsvp = () => {
     if (!userId) return
-    removeRsvpMutation.mutate({ eventId, userId })
+    // Removing a one-date answer falls back to the series answer
+    removeRsvpMutation.mutate({
+      eventId,
+      occurrenceDate: userRSVP?.occurrenceDate ? new Date(userRSVP.occurrenceDate).toISOString() : undefined,
+    })
   }
 
   const handleCancelEvent = () => {
     if (!userId || !confirm('Are you sure you want to cancel this event?')) return
     cancelEventMutation.mutate({
       eventId,
-      userId,
       cancellationNote: 'Event cancelled by organizer',
     })
   }
 
-  const isUpcoming = new Date(event.startTime) > new Date()
+  const isUpcoming = isRecurring ? !!occurrenceDate : new Date(event.startTime) > new Date()
+
+  const formatOccurrence = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
   const isPast = new Date(event.endTime) < new Date()
   const canCreateMeetingOutputProposal = canEdit && !meetingOutputProposal && actionItemsCount > 0
 
@@ -245,7 +261,6 @@ export default function EventDetailPage() {
     if (!userId) return
     updateNotesMutation.mutate({
       eventId,
-      userId,
       meetingNotes: editedNotes || null,
       recordingLinks: editedLinks.length > 0 ? editedLinks : null,
     })
@@ -394,6 +409,29 @@ export default function EventDetailPage() {
               <Stack spacing="lg">
                 <Heading level={3}>RSVP</Heading>
 
+                {isRecurring && occurrenceDate && (
+                  <Stack spacing="sm">
+                    <Select
+                      label="Date"
+                      value={occurrenceDate}
+                      onChange={(e) => setOccurrence(e.target.value)}
+                    >
+                      {upcomingOccurrences.map((date) => (
+                        <option key={date} value={date}>{formatOccurrence(date)}</option>
+                      ))}
+                    </Select>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={applyToSeries}
+                        onChange={(e) => setApplyToSeries(e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <Text variant="small">Apply my answer to every date in the series</Text>
+                    </label>
+                  </Stack>
+                )}
+
                 {userRSVP ? (
                   <Stack spacing="md">
                     <Flex gap="sm" align="center">
@@ -407,6 +445,11 @@ export default function EventDetailPage() {
                         {userRSVP.status === 'GOING' ? 'Going' :
                          userRSVP.status === 'NOT_GOING' ? 'Not Going' : 'Maybe'}
                       </Badge>
+                      {isRecurring && (
+                        <Text variant="small" color="muted">
+                          {userRSVP.occurrenceDate ? 'this date only' : 'every date'}
+                        </Text>
+                      )}
                     </Flex>
 
                     {userRSVP.note && (
@@ -427,7 +470,7 @@ export default function EventDetailPage() {
                         onClick={handleRemoveRsvp}
                         disabled={removeRsvpMutation.isPending}
                       >
-                        Remove RSVP
+                        {userRSVP.occurrenceDate ? 'Use Series Answer' : 'Remove RSVP'}
                       </Button>
                     </Flex>
                   </Stack>
@@ -512,7 +555,9 @@ export default function EventDetailPage() {
           {/* Attendees */}
           <Card>
             <Stack spacing="lg">
-              <Heading level={3}>Responses ({event.rsvps.length})</Heading>
+              <Heading level={3}>
+                Responses ({rsvps.length}){isRecurring && occurrenceDate ? ` for ${formatOccurrence(occurrenceDate)}` : ''}
+              </Heading>
 
               <Flex gap="lg" className="flex-wrap">
                 <Stack spacing="xs">
@@ -529,16 +574,16 @@ export default function EventDetailPage() {
                 </Stack>
               </Flex>
 
-              {event.rsvps.length > 0 ? (
+              {rsvps.length > 0 ? (
                 <Stack spacing="sm">
                   {/* Going */}
-                  {event.rsvps.filter((r: any) => r.status === 'GOING').length > 0 && (
+                  {rsvps.filter((r: any) => r.status === 'GOING').length > 0 && (
                     <div>
                       <Text variant="small" weight="semibold" color="muted" className="mb-2">
                         Going
                       </Text>
                       <Flex gap="sm" className="flex-wrap">
-                        {event.rsvps
+                        {rsvps
                           .filter((r: any) => r.status === 'GOING')
                           .map((rsvp: any) => (
                             <Badge key={rsvp.id} variant="success">
@@ -550,13 +595,13 @@ export default function EventDetailPage() {
                   )}
 
                   {/* Maybe */}
-                  {event.rsvps.filter((r: any) => r.status === 'MAYBE').length > 0 && (
+                  {rsvps.filter((r: any) => r.status === 'MAYBE').length > 0 && (
                     <div>
                       <Text variant="small" weight="semibold" color="muted" className="mb-2">
                         Maybe
                       </Text>
                       <Flex gap="sm" className="flex-wrap">
-                        {event.rsvps
+                        {rsvps
                           .filter((r: any) => r.status === 'MAYBE')
                           .map((rsvp: any) => (
                             <Badge key={rsvp.id} variant="warning">
@@ -568,13 +613,13 @@ export default function EventDetailPage() {
                   )}
 
                   {/* Not Going */}
-                  {event.rsvps.filter((r: any) => r.status === 'NOT_GOING').length > 0 && (
+                  {rsvps.filter((r: any) => r.status === 'NOT_GOING').length > 0 && (
                     <div>
                       <Text variant="small" weight="semibold" color="muted" className="mb-2">
                         Not Going
                       </Text>
                       <Flex gap="sm" className="flex-wrap">
-                        {event.rsvps
+                        {rsvps
                           .filter((r: any) => r.status === 'NOT_GOING')
                           .map((rsvp: any) => (
                             <Badge key={rsvp.id} variant="danger">
@@ -591,6 +636,17 @@ export default function EventDetailPage() {
             </Stack>
           </Card>
 
+          {/* Structured agenda (per occurrence for recurring meetings) */}
+          {isMember && (!isRecurring || occurrenceDate) && (
+            <MeetingAgenda
+              eventId={eventId}
+              bandSlug={slug}
+              startTime={new Date(event.startTime).toISOString()}
+              occurrenceDate={isRecurring ? occurrenceDate : null}
+              members={band.members.map((m: any) => ({ id: m.user.id, name: m.user.name }))}
+            />
+          )}
+
           {/* Meeting Notes & Recordings */}
           {isMember && (
             <Card>
@@ -781,7 +837,6 @@ export default function EventDetailPage() {
                         if (!userId) return
                         createMeetingProposalMutation.mutate({
                           eventId,
-                          userId,
                           allowEarlyClose: meetingProposalAllowEarlyClose,
                         })
                       }}
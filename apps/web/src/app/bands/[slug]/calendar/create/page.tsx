@@ -165,7 +165,6 @@ export default function CreateEventPage() {
 
     createEventMutation.mutate({
       bandId: band.id,
-      userId,
       title,
       description: description || undefined,
       eventType,
@@ -15,7 +15,12 @@ import {
   BandLayout
 } from '@/components/ui'
 import { AppNav } from '@/components/AppNav'
-import { CalendarView, CalendarItem } from '@/components/calendar'
+import {
+  CalendarView,
+  CalendarItem,
+  CalendarSubscribeButton,
+  CalendarImportButton,
+} from '@/components/calendar'
 
 export default function BandCalendarPage() {
   const router = useRouter()
@@ -66,7 +71,6 @@ export default function BandCalendarPage() {
 
   const { data: calendarData, isLoading: calendarLoading } = trpc.calendar.getCalendarItems.useQuery(
     {
-      userId: userId || '',
       startDate: dateRange.startDate,
       endDate: dateRange.endDate,
       bandId: bandData?.band?.id,
@@ -146,13 +150,22 @@ export default function BandCalendarPage() {
         bandId={band.id}
         userId={userId || undefined}
         actions={
-          canCreateEvent && (
-            <Button
-              variant="primary"
-              onClick={() => router.push(`/bands/${slug}/calendar/create`)}
-            >
-              + Create Event
-            </Button>
+          isMember && (
+            <div className="flex gap-2">
+              <CalendarSubscribeButton
+                bandId={band.id}
+                canPublishPublicFeed={['FOUNDER', 'GOVERNOR'].includes(currentMember.role)}
+              />
+              {canCreateEvent && <CalendarImportButton bandId={band.id} />}
+              {canCreateEvent && (
+                <Button
+                  variant="primary"
+                  onClick={() => router.push(`/bands/${slug}/calendar/create`)}
+                >
+                  + Create Event
+                </Button>
+              )}
+            </div>
           )
         }
       >
@@ -0,0 +1,248 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Badge,
+  Loading,
+  Modal,
+  Textarea,
+  FileUpload,
+  useToast
+} from '@/components/ui'
+import { formatFileSize, getFileTypeLabel } from './fileFormat'
+
+const TEXT_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Reading text...',
+  EXTRACTED: 'Searchable',
+  UNSUPPORTED: 'Not searchable',
+  FAILED: 'Text unavailable',
+}
+
+interface DocumentVersionsModalProps {
+  bandId: string
+  document: { id: string; title: string } | null
+  onClose: () => void
+  onChanged: () => void
+}
+
+export function DocumentVersionsModal({ bandId, document, onClose, onChanged }: DocumentVersionsModalProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [showUpload, setShowUpload] = useState(false)
+  const [uploadedFile, setUploadedFile] = useState<{ fileId: string; fileName: string } | null>(null)
+  const [isUploadingFile, setIsUploadingFile] = useState(false)
+  const [note, setNote] = useState('')
+  const [viewTextVersionId, setViewTextVersionId] = useState<string | null>(null)
+
+  const { data, isLoading } = trpc.documents.listVersions.useQuery(
+    { bandId, documentId: document?.id || '' },
+    { enabled: !!document }
+  )
+
+  const { data: textData, isLoading: textLoading } = trpc.documents.getVersionText.useQuery(
+    { bandId, documentId: document?.id || '', versionId: viewTextVersionId || undefined },
+    { enabled: !!document && !!viewTextVersionId }
+  )
+
+  const fileUploadMutation = trpc.file.upload.useMutation()
+  const incrementDownloadMutation = trpc.documents.incrementDownload.useMutation()
+
+  const refresh = () => {
+    if (document) utils.documents.listVersions.invalidate({ bandId, documentId: document.id })
+    onChanged()
+  }
+
+  const uploadVersionMutation = trpc.documents.uploadVersion.useMutation({
+    onSuccess: (result) => {
+      showToast(`Version ${result.version.versionNumber} uploaded`, 'success')
+      resetUpload()
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message || 'Failed to upload version', 'error')
+    },
+  })
+
+  const restoreMutation = trpc.documents.restoreVersion.useMutation({
+    onSuccess: (result) => {
+      showToast(`Version ${result.document.currentVersion} is current again`, 'success')
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message || 'Failed to restore version', 'error')
+    },
+  })
+
+  const resetUpload = () => {
+    setShowUpload(false)
+    setUploadedFile(null)
+    setNote('')
+  }
+
+  const handleClose = () => {
+    resetUpload()
+    setViewTextVersionId(null)
+    onClose()
+  }
+
+  const handleFileUpload = async (file: { fileName: string; mimeType: string; base64Data: string }) => {
+    setIsUploadingFile(true)
+    try {
+      const result = await fileUploadMutation.mutateAsync({
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        base64Data: file.base64Data,
+        bandId,
+        category: 'DOCUMENT',
+      })
+      setUploadedFile({ fileId: result.file.id, fileName: file.fileName })
+    } catch (error: any) {
+      showToast(error.message || 'Failed to upload file', 'error')
+    } finally {
+      setIsUploadingFile(false)
+    }
+  }
+
+  const handleDownload = (version: { id: string; file: { url: string } }) => {
+    if (!document) return
+    incrementDownloadMutation.mutate({ documentId: document.id, versionId: version.id })
+    window.open(version.file.url, '_blank')
+  }
+
+  const versions = data?.versions || []
+
+  return (
+    <Modal isOpen={!!document} onClose={handleClose} size="lg">
+      <Stack spacing="md">
+        <Flex justify="between" align="center">
+          <Text weight="semibold" className="text-lg">Versions of {document?.title}</Text>
+          {data?.canManageDocuments && !showUpload && (
+            <Button variant="primary" size="sm" onClick={() => setShowUpload(true)}>
+              Upload New Version
+            </Button>
+          )}
+        </Flex>
+
+        {showUpload && (
+          <div className="border border-gray-200 rounded-lg p-3">
+            <Stack spacing="sm">
+              {!uploadedFile ? (
+                <FileUpload
+                  label="Select File"
+                  description="PDF, Word, Excel, or text files up to 10MB"
+                  onUpload={handleFileUpload}
+                  isUploading={isUploadingFile}
+                  accept="application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/plain,text/csv"
+                />
+              ) : (
+                <Flex justify="between" align="center">
+                  <Text weight="semibold">{uploadedFile.fileName}</Text>
+                  <Button variant="ghost" size="sm" onClick={() => setUploadedFile(null)}>
+                    Change
+                  </Button>
+                </Flex>
+              )}
+              <Textarea
+                label="What changed?"
+                placeholder="e.g., Updated quorum rules after the March vote (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                maxLength={500}
+              />
+              <Flex justify="end" gap="sm">
+                <Button variant="ghost" size="sm" onClick={resetUpload}>Cancel</Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => document && uploadedFile && uploadVersionMutation.mutate({
+                    documentId: document.id,
+                    fileId: uploadedFile.fileId,
+                    note: note.trim() || undefined,
+                  })}
+                  disabled={!uploadedFile || uploadVersionMutation.isPending}
+                >
+                  {uploadVersionMutation.isPending ? 'Uploading...' : 'Upload Version'}
+                </Button>
+              </Flex>
+            </Stack>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loading message="Loading versions..." />
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden max-h-96 overflow-y-auto">
+            {versions.map((version) => (
+              <div key={version.id} className="border-b border-gray-100 last:border-b-0 py-3 px-3">
+                <Flex justify="between" align="start" gap="sm">
+                  <div className="min-w-0">
+                    <Flex gap="sm" align="center" wrap="wrap">
+                      <Text weight="semibold">Version {version.versionNumber}</Text>
+                      {version.isCurrent && <Badge variant="success">Current</Badge>}
+                      <Badge variant="neutral">{getFileTypeLabel(version.file.mimeType)}</Badge>
+                      <Badge variant={version.textStatus === 'EXTRACTED' ? 'info' : 'neutral'}>
+                        {TEXT_STATUS_LABELS[version.textStatus]}
+                      </Badge>
+                    </Flex>
+                    <Text variant="small" color="muted" className="mt-1">
+                      {version.uploadedBy.name} • {new Date(version.createdAt).toLocaleString()} • {formatFileSize(version.file.size)}
+                      {version.downloadCount > 0 && ` • ${version.downloadCount} download${version.downloadCount !== 1 ? 's' : ''}`}
+                    </Text>
+                    {version.note && (
+                      <Text variant="small" className="mt-1">{version.note}</Text>
+                    )}
+                  </div>
+                  <Flex gap="xs">
+                    <Button variant="secondary" size="sm" onClick={() => handleDownload(version)}>
+                      Download
+                    </Button>
+                    {version.textStatus === 'EXTRACTED' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setViewTextVersionId(viewTextVersionId === version.id ? null : version.id)}
+                      >
+                        {viewTextVersionId === version.id ? 'Hide Text' : 'View Text'}
+                      </Button>
+                    )}
+                    {data?.canManageDocuments && !version.isCurrent && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => document && restoreMutation.mutate({ documentId: document.id, versionId: version.id })}
+                        disabled={restoreMutation.isPending}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </Flex>
+                </Flex>
+                {viewTextVersionId === version.id && (
+                  <div className="mt-3 p-3 bg-gray-50 rounded-md max-h-64 overflow-y-auto">
+                    {textLoading ? (
+                      <Loading message="Loading text..." />
+                    ) : (
+                      <pre className="whitespace-pre-wrap text-sm text-gray-700 font-sans">
+                        {textData?.text || 'No text found in this file.'}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Flex justify="end">
+          <Button variant="ghost" size="sm" onClick={handleClose}>Close</Button>
+        </Flex>
+      </Stack>
+    </Modal>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Alert,
+  Modal,
+  useToast
+} from '@/components/ui'
+
+type MemberRole = 'FOUNDER' | 'GOVERNOR' | 'MODERATOR' | 'CONDUCTOR' | 'VOTING_MEMBER' | 'OBSERVER'
+type Permission = 'view' | 'upload' | 'manage'
+
+const ROLE_OPTIONS: { value: MemberRole; label: string }[] = [
+  { value: 'FOUNDER', label: 'Founder' },
+  { value: 'GOVERNOR', label: 'Governor' },
+  { value: 'MODERATOR', label: 'Moderator' },
+  { value: 'CONDUCTOR', label: 'Conductor' },
+  { value: 'VOTING_MEMBER', label: 'Voting Member' },
+  { value: 'OBSERVER', label: 'Observer' },
+]
+
+const PERMISSIONS: { value: Permission; label: string }[] = [
+  { value: 'view', label: 'View' },
+  { value: 'upload', label: 'Upload' },
+  { value: 'manage', label: 'Manage' },
+]
+
+interface FolderPermissionSettings {
+  inheritPermissions: boolean
+  viewRoles: MemberRole[]
+  uploadRoles: MemberRole[]
+  manageRoles: MemberRole[]
+  effective: Record<Permission, MemberRole[]>
+}
+
+interface FolderPermissionsModalProps {
+  folder: { id: string; name: string; parentFolderId: string | null }
+  settings: FolderPermissionSettings
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+}
+
+export function FolderPermissionsModal({ folder, settings, isOpen, onClose, onSaved }: FolderPermissionsModalProps) {
+  const { showToast } = useToast()
+  const [inherit, setInherit] = useState(settings.inheritPermissions)
+  const [roles, setRoles] = useState<Record<Permission, MemberRole[]>>(settings.effective)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setInherit(settings.inheritPermissions)
+    // Custom lists start from what currently applies
+    setRoles(settings.inheritPermissions
+      ? settings.effective
+      : { view: settings.viewRoles, upload: settings.uploadRoles, manage: settings.manageRoles })
+  }, [isOpen, settings])
+
+  const saveMutation = trpc.documents.updateFolderPermissions.useMutation({
+    onSuccess: () => {
+      showToast('Folder permissions saved', 'success')
+      onSaved()
+      onClose()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const toggle = (permission: Permission, role: MemberRole, checked: boolean) => {
+    const next = { ...roles }
+    next[permission] = checked
+      ? [...roles[permission], role]
+      : roles[permission].filter((r) => r !== role)
+
+    // Uploading and managing need view; dropping view drops them too
+    if (permission === 'view' && !checked) {
+      next.upload = next.upload.filter((r) => r !== role)
+      next.manage = next.manage.filter((r) => r !== role)
+    }
+    if (permission !== 'view' && checked && !next.view.includes(role)) {
+      next.view = [...next.view, role]
+    }
+    setRoles(next)
+  }
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      folderId: folder.id,
+      inheritPermissions: inherit,
+      viewRoles: inherit ? [] : roles.view,
+      uploadRoles: inherit ? [] : roles.upload,
+      manageRoles: inherit ? [] : roles.manage,
+    })
+  }
+
+  const shown = inherit ? settings.effective : roles
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <Stack spacing="md">
+        <Text weight="semibold" className="text-lg">Permissions for {folder.name}</Text>
+
+        <label className="flex items-center gap-2 cursor-pointer text-sm">
+          <input
+            type="checkbox"
+            checked={inherit}
+            onChange={(e) => setInherit(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-300 text-blue-600"
+          />
+          {folder.parentFolderId
+            ? 'Inherit permissions from the parent folder'
+            : 'Use the band\'s document settings'}
+        </label>
+
+        {!inherit && folder.parentFolderId && (
+          <Alert variant="info">
+            <Text variant="small">
+              Members who can't see the parent folder can't see this one either, whatever is ticked here.
+            </Text>
+          </Alert>
+        )}
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left font-medium text-gray-600 py-2 px-3">Role</th>
+                {PERMISSIONS.map((permission) => (
+                  <th key={permission.value} className="font-medium text-gray-600 py-2 px-3 text-center">
+                    {permission.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROLE_OPTIONS.map((role) => (
+                <tr key={role.value} className="border-t border-gray-100">
+                  <td className="py-2 px-3">{role.label}</td>
+                  {PERMISSIONS.map((permission) => (
+                    <td key={permission.value} className="py-2 px-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={role.value === 'FOUNDER' || shown[permission.value].includes(role.value)}
+                        disabled={inherit || role.value === 'FOUNDER'}
+                        onChange={(e) => toggle(permission.value, role.value, e.target.checked)}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <Text variant="small" color="muted">
+          Founders always have full access. Subfolders that inherit permissions follow these settings.
+        </Text>
+
+        <Flex justify="end" gap="sm">
+          <Button variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </Flex>
+      </Stack>
+    </Modal>
+  )
+}
@@ -17,32 +17,15 @@ import {
   Input,
   Textarea,
   FileUpload,
+  Breadcrumb,
   useToast
 } from '@/components/ui'
 import { AppNav } from '@/components/AppNav'
-
-function formatFileSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
-}
-
-function getFileTypeLabel(mimeType: string): string {
-  const types: Record<string, string> = {
-    'application/pdf': 'PDF',
-    'application/msword': 'DOC',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOCX',
-    'application/vnd.ms-excel': 'XLS',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'XLSX',
-    'text/plain': 'TXT',
-    'text/csv': 'CSV',
-    'image/jpeg': 'JPEG',
-    'image/png': 'PNG',
-    'image/gif': 'GIF',
-    'image/webp': 'WEBP',
-  }
-  return types[mimeType] || mimeType.split('/')[1]?.toUpperCase() || 'FILE'
-}
+import { FolderList } from '../components/FolderList'
+import { MoveToFolderModal } from '../components/MoveToFolderModal'
+import { DocumentVersionsModal } from './components/DocumentVersionsModal'
+import { FolderPermissionsModal } from './components/FolderPermissionsModal'
+import { formatFileSize, getFileTypeLabel } from './components/fileFormat'
 
 export default function FolderDetailPage() {
   const router = useRouter()
@@ -50,12 +33,17 @@ export default function FolderDetailPage() {
   const slug = params.slug as string
   const folderSlug = params.folderSlug as string
   const { showToast } = useToast()
+  const utils = trpc.useUtils()
   const [userId, setUserId] = useState<string | null>(null)
 
   // Modal states
   const [uploadModal, setUploadModal] = useState(false)
   const [editModal, setEditModal] = useState<{ document: any } | null>(null)
   const [deleteModal, setDeleteModal] = useState<{ document: any } | null>(null)
+  const [versionsDocument, setVersionsDocument] = useState<{ id: string; title: string } | null>(null)
+  const [moveModal, setMoveModal] = useState<{ document: any } | null>(null)
+  const [subfolderModal, setSubfolderModal] = useState(false)
+  const [permissionsModal, setPermissionsModal] = useState(false)
 
   // Form states for upload
   const [uploadTitle, setUploadTitle] = useState('')
@@ -88,12 +76,12 @@ export default function FolderDetailPage() {
   )
 
   const { data: folderData, isLoading: folderLoading } = trpc.documents.getFolder.useQuery(
-    { bandId: bandData?.band?.id || '', folderSlug, userId: userId || '' },
+    { bandId: bandData?.band?.id || '', folderSlug },
     { enabled: !!bandData?.band?.id && !!userId && !!folderSlug }
   )
 
   const { data: documentsData, isLoading: documentsLoading, refetch } = trpc.documents.listDocuments.useQuery(
-    { bandId: bandData?.band?.id || '', folderId: folderData?.folder?.id || '', userId: userId || '' },
+    { bandId: bandData?.band?.id || '', folderId: folderData?.folder?.id || '' },
     { enabled: !!bandData?.band?.id && !!folderData?.folder?.id && !!userId }
   )
 
@@ -145,6 +133,18 @@ export default function FolderDetailPage() {
     },
   })
 
+  const moveMutation = trpc.documents.moveDocument.useMutation({
+    onSuccess: () => {
+      showToast('Document moved.', 'success')
+      setMoveModal(null)
+      refetch()
+      utils.documents.listFolders.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
   const incrementDownloadMutation = trpc.documents.incrementDownload.useMutation()
 
   if (bandLoading || folderLoading) {
@@ -215,7 +215,9 @@ export default function FolderDetailPage() {
   const canApprove = currentMember && band.whoCanApprove.includes(currentMember.role)
   const isMember = !!currentMember
   const canAccessAdminTools = currentMember && ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR'].includes(currentMember.role)
-  const canManageDocuments = documentsData?.canManageDocuments || folderData?.canManageDocuments || false
+  const canManageDocuments = folderData.permissions.canManage
+  const canUpload = folderData.permissions.canUpload
+  const canCreateSubfolder = canManageDocuments && !folder.isArchived && folder.depth < folderData.maxDepth
 
   const documents = documentsData?.documents || []
 
@@ -238,7 +240,6 @@ export default function FolderDetailPage() {
         fileName: file.fileName,
         mimeType: file.mimeType,
         base64Data: file.base64Data,
-        userId: userId!,
         bandId: band.id,
         category: 'DOCUMENT',
       })
@@ -267,7 +268,6 @@ export default function FolderDetailPage() {
     uploadDocumentMutation.mutate({
       bandId: band.id,
       folderId: folder.id,
-      userId: userId!,
       fileId: uploadedFile.fileId,
       title: uploadTitle.trim(),
       description: uploadDescription.trim() || undefined,
@@ -278,7 +278,6 @@ export default function FolderDetailPage() {
     if (!editModal || !editTitle.trim()) return
     updateMutation.mutate({
       documentId: editModal.document.id,
-      userId: userId!,
       title: editTitle.trim(),
       description: editDescription.trim() || null,
     })
@@ -288,7 +287,6 @@ export default function FolderDetailPage() {
     if (!deleteModal) return
     deleteMutation.mutate({
       documentId: deleteModal.document.id,
-      userId: userId!,
     })
   }
 
@@ -296,7 +294,6 @@ export default function FolderDetailPage() {
     // Track download
     incrementDownloadMutation.mutate({
       documentId: doc.id,
-      userId: userId!,
     })
 
     // Open file in new tab (triggers download for non-viewable files)
@@ -307,7 +304,6 @@ export default function FolderDetailPage() {
     e.stopPropagation()
     togglePinMutation.mutate({
       documentId: doc.id,
-      userId: userId!,
     })
   }
 
@@ -345,21 +341,42 @@ export default function FolderDetailPage() {
         bandId={bandData?.band?.id}
         userId={userId || undefined}
         action={
-          canManageDocuments && !folder.isArchived ? (
-            <Button
-              variant="primary"
-              size="sm"
-              onClick={() => setUploadModal(true)}
-            >
-              Upload Document
-            </Button>
+          canUpload || canManageDocuments ? (
+            <Flex gap="sm">
+              {folderData.permissionSettings && (
+                <Button variant="ghost" size="sm" onClick={() => setPermissionsModal(true)}>
+                  Permissions
+                </Button>
+              )}
+              {canCreateSubfolder && (
+                <Button variant="secondary" size="sm" onClick={() => setSubfolderModal(true)}>
+                  New Subfolder
+                </Button>
+              )}
+              {canUpload && !folder.isArchived && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => setUploadModal(true)}
+                >
+                  Upload Document
+                </Button>
+              )}
+            </Flex>
           ) : undefined
         }
       >
         <Stack spacing="md">
-          <Button variant="ghost" size="sm" onClick={() => router.push(`/bands/${slug}/documents`)}>
-            ← Back to Documents
-          </Button>
+          <Breadcrumb
+            items={[
+              { label: 'Documents', href: `/bands/${slug}/documents` },
+              ...folderData.breadcrumbs.map((crumb) => ({
+                label: crumb.name,
+                href: crumb.hasAccess ? `/bands/${slug}/documents/${crumb.slug}` : undefined,
+              })),
+              { label: folder.name },
+            ]}
+          />
 
           {folder.description && (
             <Text color="muted">{folder.description}</Text>
@@ -371,12 +388,21 @@ export default function FolderDetailPage() {
             </Alert>
           )}
 
+          <FolderList
+            bandId={band.id}
+            slug={slug}
+            parentFolderId={folder.id}
+            isCreateOpen={subfolderModal}
+            onCloseCreate={() => setSubfolderModal(false)}
+            title="Folders"
+          />
+
           {documentsLoading ? (
             <Loading message="Loading documents..." />
           ) : documents.length === 0 ? (
             <div className="border border-gray-200 rounded-lg bg-white p-8 text-center">
-              <Text color="muted" className="mb-4">No documents yet.{canManageDocuments && !folder.isArchived ? ' Upload your first document!' : ''}</Text>
-              {canManageDocuments && !folder.isArchived && (
+              <Text color="muted" className="mb-4">No documents yet.{canUpload && !folder.isArchived ? ' Upload your first document!' : ''}</Text>
+              {canUpload && !folder.isArchived && (
                 <Button variant="primary" size="sm" onClick={() => setUploadModal(true)}>
                   Upload Document
                 </Button>
@@ -395,6 +421,7 @@ export default function FolderDetailPage() {
                         {doc.isPinned && <Badge variant="info">Pinned</Badge>}
                         <Text weight="semibold">{doc.title}</Text>
                         <Badge variant="neutral">{getFileTypeLabel(doc.file.mimeType)}</Badge>
+                        {doc.currentVersion > 1 && <Badge variant="neutral">v{doc.currentVersion}</Badge>}
                       </div>
                       <div className="flex items-center gap-2 text-sm text-gray-500 mt-1">
                         <span>Uploaded by {doc.uploadedBy.name}</span>
@@ -417,6 +444,9 @@ export default function FolderDetailPage() {
                       <Button variant="secondary" size="sm" onClick={() => handleDownload(doc)}>
                         Download
                       </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setVersionsDocument({ id: doc.id, title: doc.title })}>
+                        Versions
+                      </Button>
                       {canManageDocuments && (
                         <Flex gap="xs">
                           <Button variant="ghost" size="sm" onClick={(e) => handleTogglePin(doc, e)}>
@@ -425,6 +455,9 @@ export default function FolderDetailPage() {
                           <Button variant="ghost" size="sm" onClick={(e) => openEditModal(doc, e)}>
                             Edit
                           </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setMoveModal({ document: doc })}>
+                            Move
+                          </Button>
                           <Button variant="ghost" size="sm" onClick={(e) => openDeleteModal(doc, e)}>
                             Delete
                           </Button>
@@ -496,6 +529,43 @@ export default function FolderDetailPage() {
           </Stack>
         </Modal>
 
+        {/* Version History Modal */}
+        <DocumentVersionsModal
+          bandId={band.id}
+          document={versionsDocument}
+          onClose={() => setVersionsDocument(null)}
+          onChanged={() => refetch()}
+        />
+
+        {/* Move Document Modal */}
+        <MoveToFolderModal
+          bandId={band.id}
+          isOpen={!!moveModal}
+          title={`Move "${moveModal?.document.title || ''}"`}
+          currentFolderId={folder.id}
+          requires="upload"
+          isPending={moveMutation.isPending}
+          onClose={() => setMoveModal(null)}
+          onMove={(destination) => moveModal && destination && moveMutation.mutate({
+            documentId: moveModal.document.id,
+            folderId: destination,
+          })}
+        />
+
+        {/* Folder Permissions Modal */}
+        {folderData.permissionSettings && (
+          <FolderPermissionsModal
+            folder={folder}
+            settings={folderData.permissionSettings}
+            isOpen={permissionsModal}
+            onClose={() => setPermissionsModal(false)}
+            onSaved={() => {
+              utils.documents.getFolder.invalidate()
+              utils.documents.listFolders.invalidate()
+            }}
+          />
+        )}
+
         {/* Edit Document Modal */}
         <Modal isOpen={!!editModal} onClose={() => setEditModal(null)}>
           <Stack spacing="md">
@@ -0,0 +1,387 @@
+'use client'
+
+import { useState, ReactNode } from 'react'
+import { useRouter } from 'next/navigation'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Badge,
+  Loading,
+  Alert,
+  Modal,
+  Input,
+  Textarea,
+  Select,
+  useToast
+} from '@/components/ui'
+import { MoveToFolderModal } from './MoveToFolderModal'
+
+type Visibility = 'PUBLIC' | 'MODERATOR' | 'GOVERNANCE'
+
+interface FolderListProps {
+  bandId: string
+  slug: string
+  // null lists the top level
+  parentFolderId: string | null
+  isCreateOpen: boolean
+  onCloseCreate: () => void
+  title?: string
+  // Shown when there are no folders; otherwise an empty list only renders for managers
+  emptyState?: ReactNode
+}
+
+function getVisibilityBadge(visibility: string) {
+  switch (visibility) {
+    case 'GOVERNANCE':
+      return <Badge variant="warning">Governors Only</Badge>
+    case 'MODERATOR':
+      return <Badge variant="info">Moderators+</Badge>
+    default:
+      return null
+  }
+}
+
+export function FolderList({
+  bandId,
+  slug,
+  parentFolderId,
+  isCreateOpen,
+  onCloseCreate,
+  title,
+  emptyState,
+}: FolderListProps) {
+  const router = useRouter()
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [showArchived, setShowArchived] = useState(false)
+
+  // Modal states
+  const [editModal, setEditModal] = useState<{ folder: any } | null>(null)
+  const [deleteModal, setDeleteModal] = useState<{ folder: any } | null>(null)
+  const [moveModal, setMoveModal] = useState<{ folder: any } | null>(null)
+
+  // Form states for create
+  const [newName, setNewName] = useState('')
+  const [newDescription, setNewDescription] = useState('')
+  const [newVisibility, setNewVisibility] = useState<Visibility>('PUBLIC')
+
+  // Form states for edit
+  const [editName, setEditName] = useState('')
+  const [editDescription, setEditDescription] = useState('')
+  const [editVisibility, setEditVisibility] = useState<Visibility>('PUBLIC')
+
+  const { data: foldersData, isLoading } = trpc.documents.listFolders.useQuery(
+    { bandId, parentFolderId, includeArchived: showArchived },
+    { enabled: !!bandId }
+  )
+
+  const refresh = () => {
+    utils.documents.listFolders.invalidate({ bandId })
+    utils.documents.getFolderTree.invalidate({ bandId })
+  }
+
+  const closeCreate = () => {
+    setNewName('')
+    setNewDescription('')
+    setNewVisibility('PUBLIC')
+    onCloseCreate()
+  }
+
+  const createMutation = trpc.documents.createFolder.useMutation({
+    onSuccess: () => {
+      showToast('Folder created!', 'success')
+      closeCreate()
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const updateMutation = trpc.documents.updateFolder.useMutation({
+    onSuccess: () => {
+      showToast('Folder updated!', 'success')
+      setEditModal(null)
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const deleteMutation = trpc.documents.deleteFolder.useMutation({
+    onSuccess: () => {
+      showToast('Folder deleted.', 'success')
+      setDeleteModal(null)
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const moveMutation = trpc.documents.moveFolder.useMutation({
+    onSuccess: () => {
+      showToast('Folder moved.', 'success')
+      setMoveModal(null)
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const archiveMutation = trpc.documents.setFolderArchived.useMutation({
+    onSuccess: (_, variables) => {
+      showToast(variables.isArchived ? 'Folder archived.' : 'Folder restored.', 'success')
+      refresh()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const folders = foldersData?.folders || []
+  const canManage = foldersData?.canManageDocuments || false
+
+  const handleCreate = () => {
+    if (!newName.trim()) return
+    createMutation.mutate({
+      bandId,
+      parentFolderId: parentFolderId || undefined,
+      name: newName.trim(),
+      description: newDescription.trim() || undefined,
+      visibility: newVisibility,
+    })
+  }
+
+  const handleEdit = () => {
+    if (!editModal || !editName.trim()) return
+    updateMutation.mutate({
+      folderId: editModal.folder.id,
+      name: editName.trim(),
+      description: editDescription.trim() || null,
+      visibility: editVisibility,
+    })
+  }
+
+  const handleDelete = () => {
+    if (!deleteModal) return
+    deleteMutation.mutate({
+      folderId: deleteModal.folder.id,
+    })
+  }
+
+  const openEditModal = (folder: any, e: React.MouseEvent) => {
+    e.stopPropagation()
+    setEditName(folder.name)
+    setEditDescription(folder.description || '')
+    setEditVisibility(folder.visibility)
+    setEditModal({ folder })
+  }
+
+  const openDeleteModal = (folder: any, e: React.MouseEvent) => {
+    e.stopPropagation()
+    setDeleteModal({ folder })
+  }
+
+  const openMoveModal = (folder: any, e: React.MouseEvent) => {
+    e.stopPropagation()
+    setMoveModal({ folder })
+  }
+
+  const handleToggleArchived = (folder: any, e: React.MouseEvent) => {
+    e.stopPropagation()
+    archiveMutation.mutate({ folderId: folder.id, isArchived: !folder.isArchived })
+  }
+
+  const isDeletable = (folder: any) => folder.documentCount === 0 && folder.subfolderCount === 0
+
+  if (isLoading) {
+    return <Loading message="Loading folders..." />
+  }
+
+  const hasFolders = folders.length > 0
+
+  return (
+    <>
+      {(hasFolders || emptyState || canManage) && (
+        <Stack spacing="sm">
+          {(title || canManage) && (
+            <Flex justify="between" align="center">
+              {title ? <Text weight="semibold">{title}</Text> : <span />}
+              {canManage && (
+                <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={showArchived}
+                    onChange={(e) => setShowArchived(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600"
+                  />
+                  Show archived
+                </label>
+              )}
+            </Flex>
+          )}
+
+          {!hasFolders ? (
+            emptyState || (
+              <Text variant="small" color="muted">No folders here.</Text>
+            )
+          ) : (
+            <div className="border border-gray-200 rounded-lg bg-white overflow-hidden">
+              {folders.map((folder: any) => (
+                <div
+                  key={folder.id}
+                  className={`border-b border-gray-100 last:border-b-0 ${folder.hasAccess ? 'hover:bg-gray-50 cursor-pointer' : 'opacity-60'}`}
+                  onClick={() => {
+                    if (folder.hasAccess) {
+                      router.push(`/bands/${slug}/documents/${folder.slug}`)
+                    }
+                  }}
+                >
+                  <div className="flex items-center justify-between py-3 px-3 md:px-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-lg">📁</span>
+                        <Text weight="semibold">{folder.name}</Text>
+                        {getVisibilityBadge(folder.visibility)}
+                        {!folder.inheritPermissions && <Badge variant="secondary">Custom access</Badge>}
+                        {folder.isArchived && <Badge variant="neutral">Archived</Badge>}
+                        {!folder.hasAccess && <Badge variant="danger">Restricted</Badge>}
+                      </div>
+                      {folder.description && (
+                        <Text variant="small" color="muted" className="line-clamp-1 ml-7">{folder.description}</Text>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 ml-3">
+                      {folder.hasAccess && (
+                        <div className="text-right text-sm">
+                          {folder.subfolderCount > 0 && (
+                            <>
+                              <span className="font-medium">{folder.subfolderCount}</span>
+                              <span className="text-gray-500 ml-1 mr-2">{folder.subfolderCount === 1 ? 'folder' : 'folders'}</span>
+                            </>
+                          )}
+                          <span className="font-medium">{folder.documentCount}</span>
+                          <span className="text-gray-500 ml-1">{folder.documentCount === 1 ? 'doc' : 'docs'}</span>
+                        </div>
+                      )}
+                      {folder.canManage && (
+                        <Flex gap="xs">
+                          <Button variant="ghost" size="sm" onClick={(e) => openEditModal(folder, e)}>Edit</Button>
+                          <Button variant="ghost" size="sm" onClick={(e) => openMoveModal(folder, e)}>Move</Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => handleToggleArchived(folder, e)}
+                            disabled={archiveMutation.isPending}
+                          >
+                            {folder.isArchived ? 'Unarchive' : 'Archive'}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={(e) => openDeleteModal(folder, e)} disabled={!isDeletable(folder)}>Delete</Button>
+                        </Flex>
+                      )}
+                      {folder.hasAccess && <span className="text-gray-400">→</span>}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Stack>
+      )}
+
+      {/* Create Folder Modal */}
+      <Modal isOpen={isCreateOpen} onClose={closeCreate}>
+        <Stack spacing="md">
+          <Text weight="semibold" className="text-lg">{parentFolderId ? 'New Subfolder' : 'New Folder'}</Text>
+          <Input label="Name" placeholder="Folder name" value={newName} onChange={(e) => setNewName(e.target.value)} maxLength={100} />
+          <Textarea label="Description" placeholder="Brief description (optional)" value={newDescription} onChange={(e) => setNewDescription(e.target.value)} rows={2} />
+          <div>
+            <Text variant="small" weight="semibold" className="mb-1">Visibility</Text>
+            <Select value={newVisibility} onChange={(e) => setNewVisibility(e.target.value as Visibility)}>
+              <option value="PUBLIC">All members</option>
+              <option value="MODERATOR">Moderators+</option>
+              <option value="GOVERNANCE">Governors+</option>
+            </Select>
+            {parentFolderId && (
+              <Text variant="small" color="muted" className="mt-1">
+                A subfolder is never visible to more people than the folder it is in.
+              </Text>
+            )}
+          </div>
+          <Flex justify="end" gap="sm">
+            <Button variant="ghost" size="sm" onClick={closeCreate}>Cancel</Button>
+            <Button variant="primary" size="sm" onClick={handleCreate} disabled={!newName.trim() || createMutation.isPending}>
+              {createMutation.isPending ? 'Creating...' : 'Create'}
+            </Button>
+          </Flex>
+        </Stack>
+      </Modal>
+
+      {/* Edit Folder Modal */}
+      <Modal isOpen={!!editModal} onClose={() => setEditModal(null)}>
+        <Stack spacing="md">
+          <Text weight="semibold" className="text-lg">Edit Folder</Text>
+          <Input label="Name" placeholder="Folder name" value={editName} onChange={(e) => setEditName(e.target.value)} maxLength={100} />
+          <Textarea label="Description" placeholder="Brief description (optional)" value={editDescription} onChange={(e) => setEditDescription(e.target.value)} rows={2} />
+          <div>
+            <Text variant="small" weight="semibold" className="mb-1">Visibility</Text>
+            <Select value={editVisibility} onChange={(e) => setEditVisibility(e.target.value as Visibility)}>
+              <option value="PUBLIC">All members</option>
+              <option value="MODERATOR">Moderators+</option>
+              <option value="GOVERNANCE">Governors+</option>
+            </Select>
+          </div>
+          <Flex justify="end" gap="sm">
+            <Button variant="ghost" size="sm" onClick={() => setEditModal(null)}>Cancel</Button>
+            <Button variant="primary" size="sm" onClick={handleEdit} disabled={!editName.trim() || updateMutation.isPending}>
+              {updateMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </Flex>
+        </Stack>
+      </Modal>
+
+      {/* Delete Folder Modal */}
+      <Modal isOpen={!!deleteModal} onClose={() => setDeleteModal(null)}>
+        <Stack spacing="md">
+          <Text weight="semibold" className="text-lg">Delete Folder</Text>
+          {deleteModal && !isDeletable(deleteModal.folder) ? (
+            <Alert variant="warning">
+              <Text variant="small">Cannot delete - the folder still has documents or subfolders in it.</Text>
+            </Alert>
+          ) : (
+            <Text variant="small">Delete "{deleteModal?.folder.name}"? This cannot be undone.</Text>
+          )}
+          <Flex justify="end" gap="sm">
+            <Button variant="ghost" size="sm" onClick={() => setDeleteModal(null)}>Cancel</Button>
+            <Button variant="danger" size="sm" onClick={handleDelete} disabled={deleteMutation.isPending || (!!deleteModal && !isDeletable(deleteModal.folder))}>
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </Button>
+          </Flex>
+        </Stack>
+      </Modal>
+
+      {/* Move Folder Modal */}
+      <MoveToFolderModal
+        bandId={bandId}
+        isOpen={!!moveModal}
+        title={`Move "${moveModal?.folder.name || ''}"`}
+        currentFolderId={parentFolderId}
+        movingFolderId={moveModal?.folder.id}
+        allowRoot
+        requires="manage"
+        isPending={moveMutation.isPending}
+        onClose={() => setMoveModal(null)}
+        onMove={(destination) => moveModal && moveMutation.mutate({
+          folderId: moveModal.folder.id,
+          parentFolderId: destination,
+        })}
+      />
+    </>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Badge,
+  Loading,
+  Modal
+} from '@/components/ui'
+
+interface MoveToFolderModalProps {
+  bandId: string
+  isOpen: boolean
+  title: string
+  // Where the item is now; it can't be moved there again
+  currentFolderId: string | null
+  // When moving a folder, it and its subfolders can't be the destination
+  movingFolderId?: string
+  // Folders can move to the top level, documents can't
+  allowRoot?: boolean
+  // Documents need upload rights on the destination, folders need manage
+  requires: 'upload' | 'manage'
+  isPending: boolean
+  onClose: () => void
+  onMove: (folderId: string | null) => void
+}
+
+export function MoveToFolderModal({
+  bandId,
+  isOpen,
+  title,
+  currentFolderId,
+  movingFolderId,
+  allowRoot = false,
+  requires,
+  isPending,
+  onClose,
+  onMove,
+}: MoveToFolderModalProps) {
+  const [selected, setSelected] = useState<string | null | undefined>(undefined)
+
+  const { data, isLoading } = trpc.documents.getFolderTree.useQuery(
+    { bandId },
+    { enabled: isOpen && !!bandId }
+  )
+
+  useEffect(() => {
+    if (isOpen) setSelected(undefined)
+  }, [isOpen])
+
+  const folders = data?.folders || []
+
+  // Depth-first so subfolders sit under their parent
+  const ordered: typeof folders = []
+  const visit = (parentId: string | null) => {
+    for (const folder of folders.filter((f) => f.parentFolderId === parentId)) {
+      ordered.push(folder)
+      visit(folder.id)
+    }
+  }
+  visit(null)
+  // Folders whose parent the member can't see still need a place in the list
+  for (const folder of folders) {
+    if (!ordered.includes(folder)) {
+      ordered.push(folder)
+      visit(folder.id)
+    }
+  }
+
+  const excluded = new Set<string>()
+  if (movingFolderId) {
+    excluded.add(movingFolderId)
+    let added = true
+    while (added) {
+      added = false
+      for (const folder of folders) {
+        if (folder.parentFolderId && excluded.has(folder.parentFolderId) && !excluded.has(folder.id)) {
+          excluded.add(folder.id)
+          added = true
+        }
+      }
+    }
+  }
+
+  const isAllowed = (folder: typeof folders[number]) =>
+    folder.id !== currentFolderId &&
+    !excluded.has(folder.id) &&
+    !folder.isArchived &&
+    (requires === 'upload' ? folder.canUpload : folder.canManage)
+
+  const canMoveToRoot = allowRoot && !!data?.canManageRoot && currentFolderId !== null
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <Stack spacing="md">
+        <Text weight="semibold" className="text-lg">{title}</Text>
+        {isLoading ? (
+          <Loading message="Loading folders..." />
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden max-h-80 overflow-y-auto">
+            {allowRoot && (
+              <button
+                type="button"
+                className={`w-full text-left py-2 px-3 border-b border-gray-100 ${
+                  selected === null ? 'bg-blue-50' : canMoveToRoot ? 'hover:bg-gray-50' : 'opacity-50 cursor-not-allowed'
+                }`}
+                disabled={!canMoveToRoot}
+                onClick={() => setSelected(null)}
+              >
+                <Text variant="small" weight="semibold">Documents (top level)</Text>
+              </button>
+            )}
+            {ordered.map((folder) => {
+              const allowed = isAllowed(folder)
+              return (
+                <button
+                  key={folder.id}
+                  type="button"
+                  className={`w-full text-left py-2 px-3 border-b border-gray-100 last:border-b-0 ${
+                    selected === folder.id ? 'bg-blue-50' : allowed ? 'hover:bg-gray-50' : 'opacity-50 cursor-not-allowed'
+                  }`}
+                  style={{ paddingLeft: `${0.75 + (folder.depth - 1) * 1.25}rem` }}
+                  disabled={!allowed}
+                  onClick={() => setSelected(folder.id)}
+                >
+                  <Flex gap="sm" align="center">
+                    <span>📁</span>
+                    <Text variant="small">{folder.name}</Text>
+                    {folder.id === currentFolderId && <Badge variant="neutral">Current</Badge>}
+                    {folder.isArchived && <Badge variant="neutral">Archived</Badge>}
+                  </Flex>
+                </button>
+              )
+            })}
+          </div>
+        )}
+        <Flex justify="end" gap="sm">
+          <Button variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={() => selected !== undefined && onMove(selected)}
+            disabled={selected === undefined || isPending}
+          >
+            {isPending ? 'Moving...' : 'Move'}
+          </Button>
+        </Flex>
+      </Stack>
+    </Modal>
+  )
+}
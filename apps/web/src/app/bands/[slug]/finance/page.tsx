@@ -15,8 +15,11 @@ import {
   Alert,
   BandLayout,
   Modal,
+  StepUpModal,
+  useStepUp,
 } from '@/components/ui'
 import { AppNav } from '@/components/AppNav'
+import { TransferFundsModal, BucketLedger, LedgerReconciliation } from '@/components/finance'
 import { isP2PPaymentsEnabled } from '@/lib/features'
 
 // Roles that can manage Stripe
@@ -47,14 +50,20 @@ export default function FinancePage() {
   const [connectingStripe, setConnectingStripe] = useState(false)
   const [disconnectingStripe, setDisconnectingStripe] = useState(false)
   const [showDisconnectModal, setShowDisconnectModal] = useState(false)
+  const stepUp = useStepUp()
 
   // Donation settings state
   const [showDonationSettingsModal, setShowDonationSettingsModal] = useState(false)
   const [donationsEnabled, setDonationsEnabled] = useState(false)
   const [donationPaymentInfo, setDonationPaymentInfo] = useState<Record<string, string>>({})
   const [donationDueWindowDays, setDonationDueWindowDays] = useState(7)
+  const [donationDefaultBucketId, setDonationDefaultBucketId] = useState<string | null>(null)
   const [savingDonationSettings, setSavingDonationSettings] = useState(false)
 
+  // Ledger state
+  const [showTransferModal, setShowTransferModal] = useState(false)
+  const [openLedger, setOpenLedger] = useState<string | null>(null) // bucket ID or GENERAL_FUND
+
   useEffect(() => {
     const storedToken = localStorage.getItem('accessToken')
     if (storedToken) {
@@ -157,7 +166,13 @@ export default function FinancePage() {
 
   // Fetch donation settings
   const { data: donationSettingsData, refetch: refetchDonationSettings } = trpc.donation.getSettings.useQuery(
-    { bandId: bandData?.band?.id || '', userId: userId || '' },
+    { bandId: bandData?.band?.id || '' },
+    { enabled: !!bandData?.band?.id && !!userId }
+  )
+
+  // Fetch bucket balances
+  const { data: balancesData } = trpc.ledger.getBalances.useQuery(
+    { bandId: bandData?.band?.id || '' },
     { enabled: !!bandData?.band?.id && !!userId }
   )
 
@@ -182,6 +197,7 @@ export default function FinancePage() {
       setDonationsEnabled(settings.donationsEnabled || false)
       setDonationPaymentInfo((settings.donationPaymentInfo as Record<string, string>) || {})
       setDonationDueWindowDays(settings.donationDueWindowDays || 7)
+      setDonationDefaultBucketId(settings.donationDefaultBucketId || null)
     }
   }, [donationSettingsData])
 
@@ -191,10 +207,10 @@ export default function FinancePage() {
     setSavingDonationSettings(true)
     updateDonationSettingsMutation.mutate({
       bandId: bandData.band.id,
-      userId,
       donationsEnabled,
       donationPaymentInfo,
       donationDueWindowDays,
+      donationDefaultBucketId,
     })
   }
 
@@ -248,6 +264,7 @@ export default function FinancePage() {
         setShowDisconnectModal(false)
       } else {
         const error = await response.json()
+        if (stepUp.handleError(error, handleDisconnectStripe)) return
         showToast(error.message || 'Failed to disconnect Stripe', 'error')
       }
     } catch (error) {
@@ -361,6 +378,13 @@ export default function FinancePage() {
     return descriptions[type] || 'General fund category'
   }
 
+  const formatCents = (cents: number) =>
+    `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`
+
+  const canManageFunds = balancesData?.canManage ?? false
+  const canSeeOfficerBuckets = !!currentMember &&
+    (currentMember.isTreasurer || ['CONDUCTOR', 'MODERATOR', 'GOVERNOR', 'FOUNDER'].includes(currentMember.role))
+
   const getVisibilityBadge = (visibility: string) => {
     return visibility === 'OFFICERS_ONLY'
       ? <Badge variant="warning">Officers Only</Badge>
@@ -472,28 +496,80 @@ export default function FinancePage() {
           {/* Buckets Section */}
           <div className="border border-gray-200 rounded-lg bg-white p-3">
             <div className="flex items-center justify-between mb-2">
-              <Text weight="semibold">Buckets</Text>
-              {financeSettings && (
-                <Badge variant={financeSettings.bucketManagementPolicy === 'TREASURER_ONLY' ? 'warning' : 'info'}>
-                  {financeSettings.bucketManagementPolicy === 'TREASURER_ONLY' ? 'Treasurer Only' : 'Officer Tier'}
-                </Badge>
+              <Flex gap="sm" align="center">
+                <Text weight="semibold">Buckets</Text>
+                {financeSettings && (
+                  <Badge variant={financeSettings.bucketManagementPolicy === 'TREASURER_ONLY' ? 'warning' : 'info'}>
+                    {financeSettings.bucketManagementPolicy === 'TREASURER_ONLY' ? 'Treasurer Only' : 'Officer Tier'}
+                  </Badge>
+                )}
+              </Flex>
+              {canManageFunds && (
+                <Button variant="ghost" size="sm" onClick={() => setShowTransferModal(true)}>
+                  Transfer
+                </Button>
               )}
             </div>
             {buckets.length > 0 ? (
               <div className="space-y-1">
                 {buckets.filter((b: any) => b.isActive).map((bucket: any) => (
-                  <div key={bucket.id} className="flex items-center gap-2 py-1 flex-wrap">
-                    <Text variant="small">{bucket.name}</Text>
-                    {getBucketTypeBadge(bucket.type)}
-                    {getVisibilityBadge(bucket.visibility)}
+                  <div key={bucket.id}>
+                    <div
+                      className="flex items-center gap-2 py-1 flex-wrap cursor-pointer hover:bg-gray-50 rounded"
+                      onClick={() => setOpenLedger(openLedger === bucket.id ? null : bucket.id)}
+                    >
+                      <Text variant="small">{bucket.name}</Text>
+                      {getBucketTypeBadge(bucket.type)}
+                      {getVisibilityBadge(bucket.visibility)}
+                      {balancesData && (bucket.visibility === 'MEMBERS' || canSeeOfficerBuckets) && (
+                        <span className="ml-auto font-mono text-sm text-gray-900">
+                          {balancesData.committed[bucket.id] > 0 && (
+                            <span className="mr-2 text-xs text-gray-500">
+                              {formatCents(balancesData.committed[bucket.id])} committed
+                            </span>
+                          )}
+                          {formatCents(balancesData.buckets[bucket.id] ?? 0)}
+                        </span>
+                      )}
+                    </div>
+                    {openLedger === bucket.id && (bucket.visibility === 'MEMBERS' || canSeeOfficerBuckets) && (
+                      <BucketLedger bandId={band.id} bucketId={bucket.id} />
+                    )}
                   </div>
                 ))}
               </div>
             ) : (
               <Text variant="small" color="muted">None yet. Create via Governance proposal.</Text>
             )}
+            {balancesData && (
+              <>
+                <div
+                  className="flex items-center gap-2 py-1 mt-1 border-t border-gray-100 cursor-pointer hover:bg-gray-50 rounded"
+                  onClick={() => setOpenLedger(openLedger === 'GENERAL_FUND' ? null : 'GENERAL_FUND')}
+                >
+                  <Text variant="small">General Fund</Text>
+                  <Text variant="small" color="muted">Unassigned money</Text>
+                  <span className="ml-auto font-mono text-sm text-gray-900">{formatCents(balancesData.generalFund)}</span>
+                </div>
+                {openLedger === 'GENERAL_FUND' && (
+                  <BucketLedger bandId={band.id} bucketId={null} />
+                )}
+                <div className="flex items-center gap-2 py-1">
+                  <Text variant="small" weight="semibold">Total</Text>
+                  <span className="ml-auto font-mono text-sm font-semibold text-gray-900">{formatCents(balancesData.total)}</span>
+                </div>
+              </>
+            )}
           </div>
 
+          {/* Reconciliation Section */}
+          {canManageFunds && (
+            <div className="border border-gray-200 rounded-lg bg-white p-3">
+              <Text weight="semibold" className="mb-2">Reconciliation</Text>
+              <LedgerReconciliation bandId={band.id} />
+            </div>
+          )}
+
           {/* Donations Section - P2P payments only */}
           {isP2PPaymentsEnabled() && (
             <div className="border border-gray-200 rounded-lg bg-white p-3">
@@ -545,7 +621,7 @@ export default function FinancePage() {
             <div className="flex items-center justify-between">
               <div>
                 <Text weight="semibold">Manage via Proposals</Text>
-                <Text variant="small" color="muted">Add/Remove Treasurer • Create Bucket • Set Policy</Text>
+                <Text variant="small" color="muted">Add/Remove Treasurer • Create Bucket • Set Policy • Restricted Transfers</Text>
               </div>
               {isMember && (
                 <Button variant="primary" size="sm" onClick={() => router.push(`/bands/${slug}/proposals/create`)}>
@@ -574,6 +650,20 @@ export default function FinancePage() {
           </Stack>
         </Modal>
 
+        {/* Two-factor check before disconnecting */}
+        <StepUpModal {...stepUp.modalProps} />
+
+        {/* Transfer Funds Modal */}
+        {canManageFunds && balancesData && (
+          <TransferFundsModal
+            isOpen={showTransferModal}
+            onClose={() => setShowTransferModal(false)}
+            bandId={band.id}
+            buckets={buckets.filter((b: any) => b.isActive)}
+            balances={balancesData}
+          />
+        )}
+
         {/* Donation Settings Modal - P2P payments only */}
         {isP2PPaymentsEnabled() && (
           <Modal isOpen={showDonationSettingsModal} onClose={() => setShowDonationSettingsModal(false)}>
@@ -634,6 +724,20 @@ export default function FinancePage() {
                       Days after expected date before marking recurring donations as missed.
                     </Text>
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Deposit Donations Into</label>
+                    <select
+                      value={donationDefaultBucketId || ''}
+                      onChange={(e) => setDonationDefaultBucketId(e.target.value || null)}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">General Fund</option>
+                      {buckets.filter((b: any) => b.isActive).map((bucket: any) => (
+                        <option key={bucket.id} value={bucket.id}>{bucket.name}</option>
+                      ))}
+                    </select>
+                  </div>
                 </>
               )}
 
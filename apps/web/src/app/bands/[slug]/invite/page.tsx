@@ -116,7 +116,6 @@ export default function InviteMembersPage() {
     if (!userId || !bandData?.band) return
     inviteMutation.mutate({
       bandId: bandData.band.id,
-      inviterId: userId,
       userId: inviteeId,
     })
   }
@@ -126,7 +125,6 @@ export default function InviteMembersPage() {
     if (!userId || !bandData?.band || !emailInvite.trim()) return
     inviteByEmailMutation.mutate({
       bandId: bandData.band.id,
-      inviterId: userId,
       email: emailInvite.trim(),
       notes: emailNotes.trim() || undefined,
     })
@@ -136,7 +134,6 @@ export default function InviteMembersPage() {
     if (!userId) return
     cancelInviteMutation.mutate({
       inviteId,
-      userId,
     })
   }
 
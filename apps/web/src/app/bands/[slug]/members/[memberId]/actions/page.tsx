@@ -128,7 +128,6 @@ export default function MemberActionsPage() {
       bandId: bandData.band.id,
       memberId: profileData.member.id,
       newRole: newRole as any,
-      userId,
     })
   }
 
@@ -138,7 +137,6 @@ export default function MemberActionsPage() {
       bandId: bandData.band.id,
       memberId: profileData.member.id,
       reason: removalReason,
-      userId,
     })
   }
 
@@ -148,7 +146,6 @@ export default function MemberActionsPage() {
       bandId: bandData.band.id,
       targetMemberId: profileData.member.id,
       reason: nominationReason,
-      userId,
     })
   }
 
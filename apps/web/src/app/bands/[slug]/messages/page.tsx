@@ -0,0 +1,304 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
+import { trpc } from '@/lib/trpc'
+import { jwtDecode } from 'jwt-decode'
+import {
+  Text,
+  Stack,
+  Flex,
+  Button,
+  Card,
+  Loading,
+  Alert,
+  BandLayout,
+  useToast
+} from '@/components/ui'
+import { AppNav } from '@/components/AppNav'
+import { ConversationList, NewConversationModal, MessageList } from '@/components/discussions'
+
+export default function BandMessagesPage() {
+  const router = useRouter()
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const slug = params.slug as string
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(searchParams.get('conversation'))
+  const [showNew, setShowNew] = useState(false)
+  const [addUserId, setAddUserId] = useState('')
+
+  useEffect(() => {
+    const token = localStorage.getItem('accessToken')
+    if (token) {
+      try {
+        const decoded: any = jwtDecode(token)
+        setUserId(decoded.userId)
+      } catch (error) {
+        console.error('Invalid token:', error)
+        router.push('/login')
+      }
+    } else {
+      router.push('/login')
+    }
+  }, [router])
+
+  const { data: bandData, isLoading: bandLoading } = trpc.band.getBySlug.useQuery(
+    { slug },
+    { enabled: !!slug }
+  )
+
+  const band = bandData?.band
+  const currentMember = band?.members.find((m: any) => m.user.id === userId)
+
+  const { data: conversationData } = trpc.conversation.get.useQuery(
+    { conversationId: selectedId || '' },
+    { enabled: !!selectedId && !!currentMember }
+  )
+  const conversation = conversationData?.conversation
+
+  const { data: notificationSettings } = trpc.conversation.getNotificationSettings.useQuery(
+    undefined,
+    { enabled: !!userId }
+  )
+
+  const refreshConversation = () => {
+    if (!band) return
+    utils.conversation.list.invalidate({ bandId: band.id })
+    utils.conversation.get.invalidate({ conversationId: selectedId || '' })
+  }
+
+  const muteMutation = trpc.conversation.setMuted.useMutation({
+    onSuccess: (data) => {
+      showToast(data.isMuted ? 'Conversation muted' : 'Conversation unmuted', 'success')
+      refreshConversation()
+    },
+    onError: (error) => showToast(error.message, 'error'),
+  })
+
+  const addMutation = trpc.conversation.addParticipants.useMutation({
+    onSuccess: () => {
+      setAddUserId('')
+      refreshConversation()
+    },
+    onError: (error) => showToast(error.message, 'error'),
+  })
+
+  const leaveMutation = trpc.conversation.leave.useMutation({
+    onSuccess: () => {
+      showToast('You left the conversation', 'success')
+      setSelectedId(null)
+      if (band) utils.conversation.list.invalidate({ bandId: band.id })
+    },
+    onError: (error) => showToast(error.message, 'error'),
+  })
+
+  const settingsMutation = trpc.conversation.updateNotificationSettings.useMutation({
+    onSuccess: () => {
+      showToast('Notification settings saved', 'success')
+      utils.conversation.getNotificationSettings.invalidate()
+    },
+    onError: (error) => showToast(error.message, 'error'),
+  })
+
+  if (bandLoading) {
+    return (
+      <>
+        <AppNav />
+        <BandLayout
+          bandSlug={slug}
+          bandName="Loading..."
+          pageTitle="Messages"
+          isMember={false}
+          wide={true}
+        >
+          <Loading message="Loading..." />
+        </BandLayout>
+      </>
+    )
+  }
+
+  if (!band) {
+    return (
+      <>
+        <AppNav />
+        <BandLayout
+          bandSlug={slug}
+          bandName=""
+          pageTitle="Messages"
+          isMember={false}
+          wide={true}
+        >
+          <Alert variant="danger">
+            <Text>Band not found</Text>
+          </Alert>
+        </BandLayout>
+      </>
+    )
+  }
+
+  const canApprove = currentMember && band.whoCanApprove.includes(currentMember.role)
+  const isMember = !!currentMember
+  const canAccessAdminTools = currentMember && ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR'].includes(currentMember.role)
+  const members = band.members.map((m: any) => ({ id: m.user.id as string, name: m.user.name as string }))
+  const addableMembers = conversation
+    ? members.filter(m => !conversation.participants.some(p => p.id === m.id))
+    : []
+
+  return (
+    <>
+      <AppNav />
+      <BandLayout
+        bandSlug={slug}
+        bandName={band.name}
+        bandImageUrl={band.imageUrl}
+        pageTitle="Messages"
+        canApprove={canApprove}
+        isMember={isMember}
+        canAccessAdminTools={canAccessAdminTools}
+        wide={true}
+      >
+        {!isMember || !userId ? (
+          <Alert variant="info">
+            <Text>Only band members can send direct messages.</Text>
+          </Alert>
+        ) : (
+          <Stack spacing="lg">
+            <div className="flex flex-col md:flex-row border border-gray-200 rounded-lg overflow-hidden bg-white h-[70vh]">
+              <div className="md:w-72 flex-shrink-0 max-h-48 md:max-h-none">
+                <ConversationList
+                  bandId={band.id}
+                  userId={userId}
+                  selectedConversationId={selectedId}
+                  onSelectConversation={setSelectedId}
+                  onNewConversation={() => setShowNew(true)}
+                />
+              </div>
+
+              <div className="flex-1 flex flex-col min-w-0 min-h-0">
+                {selectedId && conversation ? (
+                  <>
+                    {/* Conversation header */}
+                    <div className="flex-shrink-0 p-3 border-b border-gray-200">
+                      <Flex justify="between" align="center" gap="sm" wrap="wrap">
+                        <div className="min-w-0">
+                          <Text weight="semibold" className="truncate">{conversation.title}</Text>
+                          <Text variant="small" color="muted" className="truncate">
+                            {conversation.participants.map(p => p.id === userId ? 'You' : p.name).join(', ')}
+                          </Text>
+                        </div>
+                        <Flex gap="sm" align="center" wrap="wrap">
+                          {conversation.isGroup && addableMembers.length > 0 && (
+                            <select
+                              value={addUserId}
+                              onChange={(e) => {
+                                setAddUserId(e.target.value)
+                                if (e.target.value) {
+                                  addMutation.mutate({ conversationId: conversation.id, userIds: [e.target.value] })
+                                }
+                              }}
+                              disabled={addMutation.isPending}
+                              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            >
+                              <option value="">+ Add person</option>
+                              {addableMembers.map(m => (
+                                <option key={m.id} value={m.id}>{m.name}</option>
+                              ))}
+                            </select>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => muteMutation.mutate({ conversationId: conversation.id, muted: !conversation.isMuted })}
+                            disabled={muteMutation.isPending}
+                          >
+                            {conversation.isMuted ? '🔔 Unmute' : '🔕 Mute'}
+                          </Button>
+                          {conversation.isGroup && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                if (confirm('Leave this conversation? You will lose access to its messages.')) {
+                                  leaveMutation.mutate({ conversationId: conversation.id })
+                                }
+                              }}
+                              disabled={leaveMutation.isPending}
+                            >
+                              Leave
+                            </Button>
+                          )}
+                        </Flex>
+                      </Flex>
+                    </div>
+                    <div className="flex-1 min-h-0 overflow-hidden flex flex-col">
+                      <MessageList
+                        bandId={band.id}
+                        channelId={conversation.id}
+                        userId={userId}
+                        userRole={currentMember.role}
+                      />
+                    </div>
+                  </>
+                ) : selectedId && !conversationData ? (
+                  <div className="flex-1 flex items-center justify-center">
+                    <Loading message="Loading conversation..." />
+                  </div>
+                ) : (
+                  <div className="flex-1 flex items-center justify-center p-4">
+                    <Text color="muted">Select a conversation or start a new one</Text>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Notification preferences for direct messages */}
+            {notificationSettings && (
+              <Card>
+                <Stack spacing="sm">
+                  <Text weight="semibold">Direct message notifications</Text>
+                  <Text variant="small" color="muted">
+                    Applies to all your conversations. Mute a single conversation from its header.
+                  </Text>
+                  <Flex gap="lg" wrap="wrap">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={notificationSettings.inApp}
+                        disabled={settingsMutation.isPending}
+                        onChange={(e) => settingsMutation.mutate({ ...notificationSettings, inApp: e.target.checked })}
+                      />
+                      In-app
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={notificationSettings.email}
+                        disabled={settingsMutation.isPending}
+                        onChange={(e) => settingsMutation.mutate({ ...notificationSettings, email: e.target.checked })}
+                      />
+                      Email
+                    </label>
+                  </Flex>
+                </Stack>
+              </Card>
+            )}
+          </Stack>
+        )}
+      </BandLayout>
+
+      {userId && band && (
+        <NewConversationModal
+          isOpen={showNew}
+          onClose={() => setShowNew(false)}
+          bandId={band.id}
+          userId={userId}
+          members={members}
+          onConversationStarted={setSelectedId}
+        />
+      )}
+    </>
+  )
+}
@@ -63,7 +63,7 @@ export default function BandDiscussionsPage() {
 
   // Check if user has a pending invitation to this band
   const { data: invitationsData, refetch: refetchInvitations } = trpc.band.getMyInvitations.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId && !!bandData?.band }
   )
 
@@ -100,7 +100,7 @@ export default function BandDiscussionsPage() {
   const isActiveMember = !!currentMemberCheck
 
   const { data: channelsData } = trpc.channel.list.useQuery(
-    { bandId: bandData?.band?.id || '', userId: userId || '', includeArchived: false },
+    { bandId: bandData?.band?.id || '', includeArchived: false },
     { enabled: !!bandData?.band?.id && !!userId && isActiveMember }
   )
 
@@ -191,14 +191,14 @@ export default function BandDiscussionsPage() {
                     <Flex gap="md" justify="center">
                       <Button
                         variant="primary"
-                        onClick={() => acceptMutation.mutate({ membershipId: pendingInvitation.id, userId: userId! })}
+                        onClick={() => acceptMutation.mutate({ membershipId: pendingInvitation.id })}
                         disabled={acceptMutation.isPending || declineMutation.isPending}
                       >
                         {acceptMutation.isPending ? 'Accepting...' : 'Accept Invitation'}
                       </Button>
                       <Button
                         variant="ghost"
-                        onClick={() => declineMutation.mutate({ membershipId: pendingInvitation.id, userId: userId! })}
+                        onClick={() => declineMutation.mutate({ membershipId: pendingInvitation.id })}
                         disabled={acceptMutation.isPending || declineMutation.isPending}
                       >
                         {declineMutation.isPending ? 'Declining...' : 'Decline'}
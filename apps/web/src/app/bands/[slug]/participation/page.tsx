@@ -0,0 +1,330 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { trpc } from '@/lib/trpc'
+import { jwtDecode } from 'jwt-decode'
+import {
+  Text,
+  Heading,
+  Stack,
+  Flex,
+  Badge,
+  Card,
+  Loading,
+  Alert,
+  BandLayout
+} from '@/components/ui'
+import { AppNav } from '@/components/AppNav'
+
+const WINDOWS = [
+  { label: 'Last 30 days', value: 30 },
+  { label: 'Last 90 days', value: 90 },
+  { label: 'Last 180 days', value: 180 },
+  { label: 'Last year', value: 365 },
+]
+
+interface Rate {
+  done: number
+  total: number
+  rate: number | null
+}
+
+function formatRate(rate: Rate) {
+  return rate.rate === null ? '—' : `${rate.rate}% (${rate.done}/${rate.total})`
+}
+
+function scoreVariant(score: number | null, minScore: number): 'neutral' | 'danger' | 'warning' | 'success' {
+  if (score === null) return 'neutral'
+  if (score < minScore) return 'danger'
+  if (score < 60) return 'warning'
+  return 'success'
+}
+
+export default function BandParticipationPage() {
+  const router = useRouter()
+  const params = useParams()
+  const slug = params.slug as string
+  const [userId, setUserId] = useState<string | null>(null)
+  const [windowDays, setWindowDays] = useState<number | undefined>(undefined)
+
+  useEffect(() => {
+    const token = localStorage.getItem('accessToken')
+    if (token) {
+      try {
+        const decoded: any = jwtDecode(token)
+        setUserId(decoded.userId)
+      } catch (error) {
+        console.error('Invalid token:', error)
+        router.push('/login')
+      }
+    } else {
+      router.push('/login')
+    }
+  }, [router])
+
+  const { data: bandData, isLoading: bandLoading } = trpc.band.getBySlug.useQuery(
+    { slug },
+    { enabled: !!slug }
+  )
+
+  const band = bandData?.band
+  const currentMember = band?.members.find((m: any) => m.user.id === userId)
+
+  const { data, isLoading } = trpc.band.getParticipation.useQuery(
+    { bandId: band?.id || '', windowDays },
+    { enabled: !!band?.id && !!currentMember }
+  )
+
+  if (bandLoading) {
+    return (
+      <>
+        <AppNav />
+        <BandLayout
+          bandSlug={slug}
+          bandName="Loading..."
+          pageTitle="Participation"
+          isMember={false}
+          wide={true}
+        >
+          <Loading message="Loading..." />
+        </BandLayout>
+      </>
+    )
+  }
+
+  if (!band) {
+    return (
+      <>
+        <AppNav />
+        <BandLayout
+          bandSlug={slug}
+          bandName=""
+          pageTitle="Participation"
+          isMember={false}
+          wide={true}
+        >
+          <Alert variant="danger">
+            <Text>Band not found</Text>
+          </Alert>
+        </BandLayout>
+      </>
+    )
+  }
+
+  const canApprove = currentMember && band.whoCanApprove.includes(currentMember.role)
+  const isMember = !!currentMember
+  const canAccessAdminTools = currentMember && ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR'].includes(currentMember.role)
+  const minScore = data?.rule.minScore ?? 0
+
+  return (
+    <>
+      <AppNav />
+      <BandLayout
+        bandSlug={slug}
+        bandName={band.name}
+        bandImageUrl={band.imageUrl}
+        pageTitle="Participation"
+        canApprove={canApprove}
+        isMember={isMember}
+        canAccessAdminTools={canAccessAdminTools}
+        wide={true}
+      >
+        {!isMember ? (
+          <Alert variant="info">
+            <Text>Only band members can see participation.</Text>
+          </Alert>
+        ) : isLoading || !data ? (
+          <Loading message="Loading participation..." />
+        ) : (
+          <Stack spacing="lg">
+            <Flex gap="md" align="center" justify="between" wrap="wrap">
+              <Text variant="small" color="muted">
+                Scores average meeting attendance, voting and completed tasks over the window.
+                Anything with nothing to measure is left out.
+              </Text>
+              <select
+                value={windowDays ?? data.windowDays}
+                onChange={(e) => setWindowDays(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!WINDOWS.some(w => w.value === data.windowDays) && (
+                  <option value={data.windowDays}>Last {data.windowDays} days</option>
+                )}
+                {WINDOWS.map(w => (
+                  <option key={w.value} value={w.value}>{w.label}</option>
+                ))}
+              </select>
+            </Flex>
+
+            {/* Participation rule */}
+            <Alert variant={data.rule.enabled ? 'warning' : 'info'}>
+              <Text variant="small">
+                {data.rule.enabled
+                  ? `Participation rule is on: members scoring below ${data.rule.minScore}% over ${data.rule.windowDays} days are flagged${
+                      data.rule.action === 'DEMOTE'
+                        ? `, and become observers if still below after ${data.rule.graceDays} days (founders and governors are only flagged)`
+                        : ''
+                    }. Members who joined within the window are exempt.`
+                  : 'No participation rule is in effect. One can be turned on through a band settings proposal.'}
+              </Text>
+            </Alert>
+
+            {/* Summary */}
+            <Flex gap="md" wrap="wrap">
+              <Card className="flex-1 min-w-[160px]">
+                <Text variant="small" color="muted">Your score</Text>
+                <Flex gap="sm" align="center">
+                  <Heading level={2}>{data.me?.score == null ? '—' : `${data.me.score}%`}</Heading>
+                  {data.me?.flaggedAt && <Badge variant="danger" size="sm">Flagged</Badge>}
+                </Flex>
+              </Card>
+              <Card className="flex-1 min-w-[160px]">
+                <Text variant="small" color="muted">Band average</Text>
+                <Heading level={2}>{data.summary.averageScore === null ? '—' : `${data.summary.averageScore}%`}</Heading>
+              </Card>
+              <Card className="flex-1 min-w-[160px]">
+                <Text variant="small" color="muted">Proposals meeting quorum</Text>
+                <Heading level={2}>{data.summary.proposalsMeetingQuorum}/{data.proposals.length}</Heading>
+              </Card>
+              <Card className="flex-1 min-w-[160px]">
+                <Text variant="small" color="muted">Flagged members</Text>
+                <Heading level={2}>{data.summary.flaggedMembers}</Heading>
+              </Card>
+            </Flex>
+
+            {data.me && (
+              <Card>
+                <Stack spacing="sm">
+                  <Heading level={3}>Your participation</Heading>
+                  <Text variant="small">Meetings attended: {formatRate(data.me.attendance)}</Text>
+                  <Text variant="small">Votes taken part in: {formatRate(data.me.voting)}</Text>
+                  <Text variant="small">Tasks and checklist items completed: {formatRate(data.me.work)}</Text>
+                </Stack>
+              </Card>
+            )}
+
+            {/* Members */}
+            {data.canViewMembers && (
+              <Card>
+                <Stack spacing="sm">
+                  <Heading level={3}>Members</Heading>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          <th className="py-2 pr-4">Member</th>
+                          <th className="py-2 pr-4">Score</th>
+                          <th className="py-2 pr-4">Meetings</th>
+                          <th className="py-2 pr-4">Votes</th>
+                          <th className="py-2 pr-4">Tasks</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {data.members.map(member => (
+                          <tr key={member.userId}>
+                            <td className="py-2 pr-4">
+                              <Flex gap="sm" align="center" wrap="wrap">
+                                <Text variant="small" weight="semibold">{member.name}</Text>
+                                <Badge variant="neutral" size="sm">{member.role.replace(/_/g, ' ')}</Badge>
+                                {member.isNew && <Badge variant="info" size="sm">New</Badge>}
+                                {member.flaggedAt && (
+                                  <Badge variant="danger" size="sm">
+                                    Flagged {new Date(member.flaggedAt).toLocaleDateString()}
+                                  </Badge>
+                                )}
+                              </Flex>
+                            </td>
+                            <td className="py-2 pr-4">
+                              <Badge variant={scoreVariant(member.score, minScore)} size="sm">
+                                {member.score === null ? 'No data' : `${member.score}%`}
+                              </Badge>
+                            </td>
+                            <td className="py-2 pr-4">{formatRate(member.attendance)}</td>
+                            <td className="py-2 pr-4">{formatRate(member.voting)}</td>
+                            <td className="py-2 pr-4">{formatRate(member.work)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Stack>
+              </Card>
+            )}
+
+            {/* Quorum report */}
+            <Card>
+              <Stack spacing="sm">
+                <Heading level={3}>Proposal turnout</Heading>
+                <Text variant="small" color="muted">
+                  Quorum is {data.quorumPercentage}% of eligible voters. Votes cast by a delegate count.
+                </Text>
+                {data.proposals.length === 0 ? (
+                  <Text variant="small" color="muted">No votes closed in this window.</Text>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {data.proposals.map(proposal => (
+                      <Flex
+                        key={proposal.proposalId}
+                        justify="between"
+                        align="center"
+                        gap="sm"
+                        className="py-2 cursor-pointer hover:bg-gray-50"
+                        onClick={() => router.push(`/bands/${slug}/proposals/${proposal.proposalId}`)}
+                      >
+                        <Stack spacing="xs">
+                          <Text variant="small" weight="semibold">{proposal.title}</Text>
+                          <Text variant="small" color="muted">
+                            Closed {new Date(proposal.closedAt).toLocaleDateString()} · {proposal.participants}/{proposal.eligibleVoters} voted
+                          </Text>
+                        </Stack>
+                        <Badge variant={proposal.quorumMet ? 'success' : 'danger'} size="sm">
+                          {proposal.turnout}% {proposal.quorumMet ? 'quorum met' : 'below quorum'}
+                        </Badge>
+                      </Flex>
+                    ))}
+                  </div>
+                )}
+              </Stack>
+            </Card>
+
+            {/* Meeting attendance */}
+            <Card>
+              <Stack spacing="sm">
+                <Heading level={3}>Meeting attendance</Heading>
+                {data.meetings.length === 0 ? (
+                  <Text variant="small" color="muted">
+                    No attendance was taken at meetings in this window.
+                  </Text>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {data.meetings.map(meeting => (
+                      <Flex
+                        key={`${meeting.eventId}-${meeting.date}`}
+                        justify="between"
+                        align="center"
+                        gap="sm"
+                        className="py-2 cursor-pointer hover:bg-gray-50"
+                        onClick={() => router.push(`/bands/${slug}/calendar/${meeting.eventId}`)}
+                      >
+                        <Stack spacing="xs">
+                          <Text variant="small" weight="semibold">{meeting.title}</Text>
+                          <Text variant="small" color="muted">
+                            {new Date(meeting.date).toLocaleDateString()} · {meeting.attended}/{meeting.activeMembers} members
+                          </Text>
+                        </Stack>
+                        <Badge variant={meeting.rate >= 50 ? 'success' : 'warning'} size="sm">
+                          {meeting.rate}%
+                        </Badge>
+                      </Flex>
+                    ))}
+                  </div>
+                )}
+              </Stack>
+            </Card>
+          </Stack>
+        )}
+      </BandLayout>
+    </>
+  )
+}
@@ -184,7 +184,7 @@ export default function PostDetailPage() {
   )
 
   const { data: postData, isLoading: postLoading, refetch: refetchPost } = trpc.posts.getPost.useQuery(
-    { bandId: bandData?.band?.id || '', postSlug, userId: userId || '' },
+    { bandId: bandData?.band?.id || '', postSlug },
     { enabled: !!bandData?.band?.id && !!userId && !!postSlug }
   )
 
@@ -346,7 +346,6 @@ export default function PostDetailPage() {
 
     createResponseMutation.mutate({
       postId: post.id,
-      userId: userId!,
       content: replyContent.trim(),
       parentId: replyTo || undefined,
     })
@@ -357,7 +356,6 @@ export default function PostDetailPage() {
 
     updateResponseMutation.mutate({
       responseId: editModal.responseId,
-      userId: userId!,
       content: editContent.trim(),
     })
   }
@@ -367,7 +365,6 @@ export default function PostDetailPage() {
 
     deleteResponseMutation.mutate({
       responseId: deleteModal,
-      userId: userId!,
     })
   }
 
@@ -382,7 +379,6 @@ export default function PostDetailPage() {
 
     updatePostMutation.mutate({
       postId: post.id,
-      userId: userId!,
       title: editPostTitle.trim(),
       content: editPostContent.trim(),
     })
@@ -391,7 +387,6 @@ export default function PostDetailPage() {
   const handleDeletePost = () => {
     deletePostMutation.mutate({
       postId: post.id,
-      userId: userId!,
     })
   }
 
@@ -424,14 +419,14 @@ export default function PostDetailPage() {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => togglePinMutation.mutate({ postId: post.id, userId: userId! })}
+                  onClick={() => togglePinMutation.mutate({ postId: post.id })}
                 >
                   {post.isPinned ? 'Unpin' : 'Pin'}
                 </Button>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => toggleLockMutation.mutate({ postId: post.id, userId: userId! })}
+                  onClick={() => toggleLockMutation.mutate({ postId: post.id })}
                 >
                   {post.isLocked ? 'Unlock' : 'Lock'}
                 </Button>
@@ -52,7 +52,7 @@ export default function NewPostPage() {
   )
 
   const { data: categoryData, isLoading: categoryLoading } = trpc.posts.getCategory.useQuery(
-    { bandId: bandData?.band?.id || '', categorySlug, userId: userId || '' },
+    { bandId: bandData?.band?.id || '', categorySlug },
     { enabled: !!bandData?.band?.id && !!userId && !!categorySlug }
   )
 
@@ -165,7 +165,6 @@ export default function NewPostPage() {
     createPostMutation.mutate({
       bandId: band.id,
       categoryId: category.id,
-      userId: userId!,
       title: title.trim(),
       content: content.trim(),
     })
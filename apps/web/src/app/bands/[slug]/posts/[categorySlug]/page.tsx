@@ -44,12 +44,12 @@ export default function PostCategoryPage() {
   )
 
   const { data: categoryData, isLoading: categoryLoading } = trpc.posts.getCategory.useQuery(
-    { bandId: bandData?.band?.id || '', categorySlug, userId: userId || '' },
+    { bandId: bandData?.band?.id || '', categorySlug },
     { enabled: !!bandData?.band?.id && !!userId && !!categorySlug }
   )
 
   const { data: postsData, isLoading: postsLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = trpc.posts.listPosts.useInfiniteQuery(
-    { bandId: bandData?.band?.id || '', categoryId: categoryData?.category?.id || '', userId: userId || '', limit: 20 },
+    { bandId: bandData?.band?.id || '', categoryId: categoryData?.category?.id || '', limit: 20 },
     {
       enabled: !!bandData?.band?.id && !!categoryData?.category?.id && !!userId,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
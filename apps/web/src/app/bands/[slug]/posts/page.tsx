@@ -64,7 +64,7 @@ export default function PostsPage() {
   )
 
   const { data: categoriesData, isLoading: categoriesLoading, refetch } = trpc.posts.listCategories.useQuery(
-    { bandId: bandData?.band?.id || '', userId: userId || '' },
+    { bandId: bandData?.band?.id || '' },
     { enabled: !!bandData?.band?.id && !!userId }
   )
 
@@ -174,7 +174,6 @@ export default function PostsPage() {
     if (!newName.trim()) return
     createMutation.mutate({
       bandId: band.id,
-      userId: userId!,
       name: newName.trim(),
       description: newDescription.trim() || undefined,
       visibility: newVisibility,
@@ -185,7 +184,6 @@ export default function PostsPage() {
     if (!editModal || !editName.trim()) return
     updateMutation.mutate({
       categoryId: editModal.category.id,
-      userId: userId!,
       name: editName.trim(),
       description: editDescription.trim() || null,
       visibility: editVisibility,
@@ -196,7 +194,6 @@ export default function PostsPage() {
     if (!deleteModal) return
     deleteMutation.mutate({
       categoryId: deleteModal.category.id,
-      userId: userId!,
     })
   }
 
@@ -157,7 +157,7 @@ export function ProjectTasksHierarchy({
   const handleReorderTask = async (taskId: string, direction: 'up' | 'down') => {
     if (!userId) return
     try {
-      await reorderTaskMutation.mutateAsync({ taskId, direction, userId })
+      await reorderTaskMutation.mutateAsync({ taskId, direction })
       utils.task.getByProject.invalidate({ projectId })
     } catch (error) {
       console.error('Failed to reorder task:', error)
@@ -167,7 +167,7 @@ export function ProjectTasksHierarchy({
   const handleReorderChecklist = async (itemId: string, taskId: string, direction: 'up' | 'down') => {
     if (!userId) return
     try {
-      await reorderChecklistMutation.mutateAsync({ itemId, direction, userId })
+      await reorderChecklistMutation.mutateAsync({ itemId, direction })
       // Invalidate the checklist cache for this task
       setChecklistCache(prev => {
         const { [taskId]: _, ...rest } = prev
@@ -121,7 +121,6 @@ export function TaskSubmitModal({
       fileName: file.fileName,
       mimeType: file.mimeType,
       base64Data: file.base64Data,
-      userId,
       taskId: task.id,
       category: 'DOCUMENT',
     })
@@ -129,7 +128,7 @@ export function TaskSubmitModal({
 
   const handleDelete = (fileId: string) => {
     if (!userId) return
-    deleteMutation.mutate({ fileId, userId })
+    deleteMutation.mutate({ fileId })
   }
 
   const handleAddLink = () => {
@@ -184,7 +183,6 @@ export function TaskSubmitModal({
       if (summary.trim()) {
         const deliverable = await updateDeliverableMutation.mutateAsync({
           taskId: task.id,
-          userId: userId!,
           summary: summary.trim(),
           links: links.length > 0 ? links : undefined,
           nextSteps: nextSteps.trim() || null,
@@ -195,7 +193,6 @@ export function TaskSubmitModal({
           await attachFileMutation.mutateAsync({
             deliverableId: deliverable.deliverable.id,
             fileId: file.id,
-            userId: userId!,
           })
         }
       }
@@ -211,7 +211,6 @@ export default function ProjectDetailPage() {
   const handleStatusChange = (newStatus: ProjectStatus) => {
     updateProjectMutation.mutate({
       projectId,
-      userId: userId!,
       status: newStatus,
     })
   }
@@ -219,7 +218,6 @@ export default function ProjectDetailPage() {
   const handleSaveProject = async (data: any) => {
     const projectEditData = {
       projectId,
-      userId: userId!,
       ...data,
     }
 
@@ -328,7 +326,6 @@ export default function ProjectDetailPage() {
       // All clear - create task normally
       createTaskMutation.mutate({
         projectId,
-        userId: userId!,
         ...data,
       })
     } catch (error) {
@@ -344,7 +341,6 @@ export default function ProjectDetailPage() {
 
     createTaskMutation.mutate({
       projectId,
-      userId: userId!,
       ...pendingTaskData,
       proceedWithFlags: true,
       flagReasons: validationIssues.map(i => `${i.type}_mismatch`),
@@ -374,14 +370,12 @@ export default function ProjectDetailPage() {
   const handleSuggestTasks = () => {
     suggestTasksMutation.mutate({
       projectId,
-      userId: userId!,
     })
   }
 
   const handleAcceptSuggestion = (suggestion: TaskSuggestion) => {
     createSuggestedTaskMutation.mutate({
       projectId,
-      userId: userId!,
       name: suggestion.name,
       description: suggestion.description,
       priority: suggestion.priority,
@@ -398,7 +392,6 @@ export default function ProjectDetailPage() {
     for (const suggestion of taskSuggestions) {
       await createSuggestedTaskMutation.mutateAsync({
         projectId,
-        userId: userId!,
         name: suggestion.name,
         description: suggestion.description,
         priority: suggestion.priority,
@@ -424,7 +417,6 @@ export default function ProjectDetailPage() {
   const handleTaskStatusChange = (taskId: string, newStatus: TaskStatus) => {
     updateTaskMutation.mutate({
       taskId,
-      userId: userId!,
       status: newStatus,
     })
   }
@@ -438,7 +430,6 @@ export default function ProjectDetailPage() {
     if (!selectedTask) return
     submitForVerificationMutation.mutate({
       taskId: selectedTask.id,
-      userId: userId!,
       proofDescription,
     })
   }
@@ -452,7 +443,6 @@ export default function ProjectDetailPage() {
     if (!selectedTask) return
     verifyTaskMutation.mutate({
       taskId: selectedTask.id,
-      userId: userId!,
       approved,
       verificationNotes: notes,
     })
@@ -513,7 +503,7 @@ export default function ProjectDetailPage() {
     )
     if (!ok) return
     deleteProjectMutation.mutate(
-      { projectId, userId },
+      { projectId },
       {
         onSuccess: async () => {
           showToast('Project deleted', 'success')
@@ -605,7 +595,7 @@ export default function ProjectDetailPage() {
                 bandSlug={slug}
                 canUpdateProject={canUpdateProject || false}
                 onEdit={() => setIsEditing(true)}
-                onValidate={() => validateProjectMutation.mutate({ projectId, userId: userId! })}
+                onValidate={() => validateProjectMutation.mutate({ projectId })}
                 isValidating={validateProjectMutation.isPending}
                 onStatusChange={handleStatusChange}
                 isUpdatingStatus={updateProjectMutation.isPending}
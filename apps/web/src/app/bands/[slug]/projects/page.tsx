@@ -139,7 +139,7 @@ export default function BandProjectsPage() {
       return
     }
     try {
-      await reorderProjectMutation.mutateAsync({ projectId, direction, userId })
+      await reorderProjectMutation.mutateAsync({ projectId, direction })
       await utils.project.getProjectsList.invalidate({ bandId: bandData.band.id })
     } catch (error: any) {
       console.error('Failed to reorder project:', error)
@@ -153,7 +153,7 @@ export default function BandProjectsPage() {
       return
     }
     try {
-      await reorderTaskMutation.mutateAsync({ taskId, direction, userId })
+      await reorderTaskMutation.mutateAsync({ taskId, direction })
       // Invalidate the tasks cache for this project
       setTasksCache(prev => {
         const { [projectId]: _, ...rest } = prev
@@ -176,7 +176,7 @@ export default function BandProjectsPage() {
       return
     }
     try {
-      await reorderChecklistMutation.mutateAsync({ itemId, direction, userId })
+      await reorderChecklistMutation.mutateAsync({ itemId, direction })
       // Invalidate the checklist cache for this task
       setChecklistCache(prev => {
         const { [taskId]: _, ...rest } = prev
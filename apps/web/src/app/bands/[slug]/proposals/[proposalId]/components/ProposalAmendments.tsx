@@ -0,0 +1,359 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Badge,
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Stack,
+  Modal,
+  useToast,
+} from '@/components/ui'
+
+type FieldKind = 'text' | 'textarea' | 'number' | 'date'
+
+const AMENDABLE_FIELDS: { field: string; label: string; kind: FieldKind }[] = [
+  { field: 'title', label: 'Title', kind: 'text' },
+  { field: 'description', label: 'Description', kind: 'textarea' },
+  { field: 'problemStatement', label: 'Problem Statement', kind: 'textarea' },
+  { field: 'expectedOutcome', label: 'Expected Outcome', kind: 'textarea' },
+  { field: 'risksAndConcerns', label: 'Risks & Concerns', kind: 'textarea' },
+  { field: 'budgetRequested', label: 'Budget Requested', kind: 'number' },
+  { field: 'budgetBreakdown', label: 'Budget Breakdown', kind: 'textarea' },
+  { field: 'proposedStartDate', label: 'Start Date', kind: 'date' },
+  { field: 'proposedEndDate', label: 'End Date', kind: 'date' },
+  { field: 'milestones', label: 'Milestones', kind: 'textarea' },
+]
+
+const STATUS_VARIANTS: Record<string, 'success' | 'warning' | 'danger' | 'info' | 'neutral'> = {
+  OPEN: 'info',
+  ACCEPTED: 'success',
+  REJECTED: 'danger',
+  WITHDRAWN: 'neutral',
+  SUPERSEDED: 'warning',
+  EXPIRED: 'neutral',
+}
+
+const fieldInfo = (field: string) => AMENDABLE_FIELDS.find(f => f.field === field)
+
+/** Value as shown in the before/after view */
+function displayValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)'
+  const kind = fieldInfo(field)?.kind
+  if (kind === 'date') return new Date(value as string).toLocaleDateString()
+  if (kind === 'number') return `$${Number(value).toLocaleString()}`
+  return String(value)
+}
+
+/** Value as edited in the form */
+function formValue(field: string, value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (fieldInfo(field)?.kind === 'date') return new Date(value as string).toISOString().slice(0, 10)
+  return String(value)
+}
+
+interface ProposalAmendmentsProps {
+  proposalId: string
+  proposal: Record<string, unknown>
+  userId: string | null
+  canVote: boolean
+  canResolve: boolean
+  isOpen: boolean
+  onChanged: () => void
+}
+
+/**
+ * Amendments to an open proposal: each is voted on separately and, if it
+ * passes, merged into the proposal as a new revision
+ */
+export function ProposalAmendments({
+  proposalId,
+  proposal,
+  userId,
+  canVote,
+  canResolve,
+  isOpen,
+  onChanged,
+}: ProposalAmendmentsProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const [showModal, setShowModal] = useState(false)
+  const [title, setTitle] = useState('')
+  const [rationale, setRationale] = useState('')
+  const [changes, setChanges] = useState<Record<string, string>>({})
+  const [fieldToAdd, setFieldToAdd] = useState('')
+
+  const { data } = trpc.proposal.getAmendments.useQuery({ proposalId })
+
+  const refresh = () => {
+    utils.proposal.getAmendments.invalidate({ proposalId })
+    onChanged()
+  }
+
+  const onError = (fallback: string) => (error: { message: string }) => {
+    showToast(error.message || fallback, 'error')
+  }
+
+  const createMutation = trpc.proposal.createAmendment.useMutation({
+    onSuccess: () => {
+      showToast('Amendment proposed', 'success')
+      setShowModal(false)
+      setTitle('')
+      setRationale('')
+      setChanges({})
+      refresh()
+    },
+    onError: onError('Failed to propose amendment'),
+  })
+
+  const voteMutation = trpc.proposal.voteOnAmendment.useMutation({
+    onSuccess: () => refresh(),
+    onError: onError('Failed to vote on amendment'),
+  })
+
+  const resolveMutation = trpc.proposal.resolveAmendment.useMutation({
+    onSuccess: (result) => {
+      showToast(result.message, result.accepted ? 'success' : 'info')
+      refresh()
+    },
+    onError: onError('Failed to resolve amendment'),
+  })
+
+  const withdrawMutation = trpc.proposal.withdrawAmendment.useMutation({
+    onSuccess: () => {
+      showToast('Amendment withdrawn', 'success')
+      refresh()
+    },
+    onError: onError('Failed to withdraw amendment'),
+  })
+
+  const amendments = data?.amendments ?? []
+  if (amendments.length === 0 && !(isOpen && canVote)) return null
+
+  const addField = () => {
+    if (!fieldToAdd) return
+    setChanges({ ...changes, [fieldToAdd]: formValue(fieldToAdd, proposal[fieldToAdd]) })
+    setFieldToAdd('')
+  }
+
+  const handleSubmit = () => {
+    const payload: Record<string, string | number | null> = {}
+    for (const [field, value] of Object.entries(changes)) {
+      const kind = fieldInfo(field)?.kind
+      if (kind === 'number') {
+        payload[field] = value === '' ? null : Number(value)
+      } else if (field === 'title' || field === 'description') {
+        payload[field] = value
+      } else {
+        payload[field] = value.trim() === '' ? null : value
+      }
+    }
+    createMutation.mutate({
+      proposalId,
+      title,
+      rationale: rationale.trim() || undefined,
+      changes: payload,
+    })
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white overflow-hidden">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Amendments ({amendments.length})</span>
+        {isOpen && canVote && (
+          <Button variant="ghost" size="sm" onClick={() => setShowModal(true)}>
+            Propose Amendment
+          </Button>
+        )}
+      </div>
+
+      {amendments.length === 0 && (
+        <div className="px-3 py-2">
+          <Text variant="small" color="muted">
+            Suggest a change while voting is open. If members accept it, it&apos;s merged into the proposal.
+          </Text>
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {amendments.map((amendment) => {
+          const votingEnded = new Date(amendment.votingEndsAt) < new Date()
+          const allVoted = !!amendment.outcome &&
+            amendment.outcome.eligibleVoters > 0 &&
+            amendment.outcome.total >= amendment.outcome.eligibleVoters
+
+          return (
+            <div key={amendment.id} className="px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Text variant="small" weight="semibold">
+                  {amendment.title}
+                  <Badge variant={STATUS_VARIANTS[amendment.status] ?? 'neutral'} size="sm" className="ml-2">
+                    {amendment.status.toLowerCase()}
+                  </Badge>
+                </Text>
+                <Text variant="small" color="muted">by {amendment.author.name}</Text>
+              </div>
+
+              {amendment.rationale && <Text variant="small">{amendment.rationale}</Text>}
+
+              <div className="space-y-1">
+                {amendment.fields.map(({ field, current, proposed }) => (
+                  <div key={field} className="text-xs">
+                    <span className="font-medium text-gray-700">{fieldInfo(field)?.label ?? field}:</span>{' '}
+                    {amendment.status === 'OPEN' && (
+                      <span className="line-through text-red-600 whitespace-pre-wrap">{displayValue(field, current)}</span>
+                    )}{' '}
+                    <span className="text-green-700 whitespace-pre-wrap">{displayValue(field, proposed)}</span>
+                  </div>
+                ))}
+              </div>
+
+              {amendment.resolution && (
+                <Text variant="small" color="muted">{amendment.resolution}</Text>
+              )}
+
+              {amendment.status === 'OPEN' && amendment.outcome && (
+                <div className="flex items-center justify-between flex-wrap gap-2">
+                  <span className="text-xs text-gray-600">
+                    Yes {amendment.outcome.yes} · No {amendment.outcome.no} · Abstain {amendment.outcome.abstain}
+                    {' '}({amendment.outcome.total} of {amendment.outcome.eligibleVoters} voted)
+                    {' · '}
+                    {votingEnded ? 'Voting ended' : `Voting ends ${new Date(amendment.votingEndsAt).toLocaleString()}`}
+                  </span>
+                  <div className="flex gap-1">
+                    {canVote && !votingEnded && (['YES', 'NO', 'ABSTAIN'] as const).map(vote => (
+                      <Button
+                        key={vote}
+                        variant={amendment.myVote === vote ? 'primary' : 'ghost'}
+                        size="sm"
+                        onClick={() => voteMutation.mutate({ amendmentId: amendment.id, vote })}
+                        disabled={voteMutation.isPending}
+                      >
+                        {vote === 'ABSTAIN' ? 'Abstain' : vote === 'YES' ? 'Yes' : 'No'}
+                      </Button>
+                    ))}
+                    {canResolve && (votingEnded || allVoted) && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ amendmentId: amendment.id })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        {resolveMutation.isPending ? 'Resolving...' : 'Resolve'}
+                      </Button>
+                    )}
+                    {amendment.authorId === userId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => withdrawMutation.mutate({ amendmentId: amendment.id })}
+                        disabled={withdrawMutation.isPending}
+                      >
+                        Withdraw
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <Modal isOpen={showModal} onClose={() => setShowModal(false)} title="Propose Amendment">
+        <Stack spacing="md">
+          <Text variant="small" color="muted">
+            Members vote on the amendment separately. If it passes, existing votes on the proposal carry over,
+            except from members who voted against the amendment. Changing the budget resets all votes.
+          </Text>
+
+          <Stack spacing="sm">
+            <Text variant="small" weight="semibold">Amendment Title</Text>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="What does this amendment change?"
+            />
+          </Stack>
+
+          <Stack spacing="sm">
+            <Text variant="small" weight="semibold">Rationale (optional)</Text>
+            <Textarea
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              placeholder="Why is this change needed?"
+              rows={3}
+            />
+          </Stack>
+
+          {Object.entries(changes).map(([field, value]) => {
+            const info = fieldInfo(field)
+            return (
+              <Stack key={field} spacing="sm">
+                <div className="flex items-center justify-between">
+                  <Text variant="small" weight="semibold">{info?.label ?? field}</Text>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      const { [field]: _removed, ...rest } = changes
+                      setChanges(rest)
+                    }}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                {info?.kind === 'textarea' ? (
+                  <Textarea
+                    value={value}
+                    onChange={(e) => setChanges({ ...changes, [field]: e.target.value })}
+                    rows={4}
+                  />
+                ) : (
+                  <Input
+                    type={info?.kind === 'number' ? 'number' : info?.kind === 'date' ? 'date' : 'text'}
+                    value={value}
+                    onChange={(e) => setChanges({ ...changes, [field]: e.target.value })}
+                  />
+                )}
+              </Stack>
+            )
+          })}
+
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Select label="Change a field" value={fieldToAdd} onChange={(e) => setFieldToAdd(e.target.value)}>
+                <option value="">Choose a field...</option>
+                {AMENDABLE_FIELDS.filter(f => !(f.field in changes)).map(f => (
+                  <option key={f.field} value={f.field}>{f.label}</option>
+                ))}
+              </Select>
+            </div>
+            <Button variant="secondary" size="md" onClick={addField} disabled={!fieldToAdd}>
+              Add
+            </Button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="md" onClick={() => setShowModal(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              size="md"
+              onClick={handleSubmit}
+              disabled={!title.trim() || Object.keys(changes).length === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending ? 'Submitting...' : 'Propose Amendment'}
+            </Button>
+          </div>
+        </Stack>
+      </Modal>
+    </div>
+  )
+}
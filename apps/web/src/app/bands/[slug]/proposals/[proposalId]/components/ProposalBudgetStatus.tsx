@@ -0,0 +1,137 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import { Text, Badge, Button, useToast } from '@/components/ui'
+
+interface ProposalBudgetStatusProps {
+  proposalId: string
+  bandId: string
+  bandSlug: string
+  budget: {
+    bucket: { id: string; name: string; type: string }
+    reserved: number
+    originalAmount: number
+    amendments: { id: string; title: string; amount: number }[]
+    reimbursed: number
+    taskCosts: number
+    spent: number
+    remaining: number
+    overspent: boolean
+    releasedAt: string | Date | null
+  }
+  canPropose: boolean
+  onReleased: () => void
+}
+
+const formatCents = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`
+
+/**
+ * Reserved budget vs project spend for a passed budget-backed proposal
+ */
+export function ProposalBudgetStatus({
+  proposalId,
+  bandId,
+  bandSlug,
+  budget,
+  canPropose,
+  onReleased,
+}: ProposalBudgetStatusProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const { data: balancesData } = trpc.ledger.getBalances.useQuery({ bandId })
+
+  const releaseMutation = trpc.ledger.releaseBudget.useMutation({
+    onSuccess: (result) => {
+      showToast(`Released ${formatCents(result.released)} back to ${budget.bucket.name}`, 'success')
+      utils.ledger.invalidate()
+      onReleased()
+    },
+    onError: (error) => {
+      showToast(error.message || 'Failed to release budget', 'error')
+    },
+  })
+
+  const usedPercent = budget.reserved > 0 ? Math.min(100, (budget.spent / budget.reserved) * 100) : 100
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <Text variant="small" weight="semibold">
+          Budget from {budget.bucket.name}
+          {budget.releasedAt && <Badge variant="neutral" size="sm" className="ml-2">Released</Badge>}
+          {!budget.releasedAt && budget.overspent && <Badge variant="danger" size="sm" className="ml-2">Over budget</Badge>}
+        </Text>
+        <Text variant="small" color="muted">
+          {formatCents(budget.spent)} of {formatCents(budget.reserved)} spent
+        </Text>
+      </div>
+
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${budget.overspent ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${usedPercent}%` }}
+        />
+      </div>
+
+      <div className="flex gap-4 flex-wrap text-xs text-gray-600">
+        <span>Reimbursed: {formatCents(budget.reimbursed)}</span>
+        {budget.taskCosts > 0 && (
+          <span title="Actual costs entered on tasks, beyond what has been reimbursed on them">
+            Other task costs: {formatCents(budget.taskCosts)}
+          </span>
+        )}
+        <span className={budget.remaining < 0 ? 'text-red-600 font-semibold' : ''}>
+          Remaining: {formatCents(budget.remaining)}
+        </span>
+      </div>
+
+      {budget.amendments.length > 0 && (
+        <div className="text-xs text-gray-600">
+          Original budget {formatCents(budget.originalAmount)}, plus:
+          <ul className="ml-4 list-disc">
+            {budget.amendments.map(amendment => (
+              <li key={amendment.id}>
+                <a href={`/bands/${bandSlug}/proposals/${amendment.id}`} className="text-blue-600 hover:underline">
+                  {amendment.title}
+                </a>{' '}
+                (+{formatCents(amendment.amount)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!budget.releasedAt && budget.overspent && (
+        <Text variant="small" color="danger">
+          Further reimbursements are blocked until a budget amendment proposal passes.
+        </Text>
+      )}
+
+      {!budget.releasedAt && (canPropose || balancesData?.canManage) && (
+        <div className="flex gap-2">
+          {canPropose && (
+            <a href={`/bands/${bandSlug}/proposals/create?amendBudget=${proposalId}`}>
+              <Button variant="secondary" size="sm">Propose Budget Amendment</Button>
+            </a>
+          )}
+          {balancesData?.canManage && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                if (confirm('Release the unspent budget back to the bucket? Further reimbursements will no longer be limited by this budget.')) {
+                  releaseMutation.mutate({ bandId, proposalId })
+                }
+              }}
+              disabled={releaseMutation.isPending}
+            >
+              {releaseMutation.isPending ? 'Releasing...' : 'Release Remaining'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
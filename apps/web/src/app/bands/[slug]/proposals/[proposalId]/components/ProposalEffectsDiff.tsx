@@ -0,0 +1,105 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import { Text, Alert } from '@/components/ui'
+
+const SECTION_LABELS: Record<string, string> = {
+  band: 'Settings',
+  bucket: 'Buckets',
+  member: 'Members',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  votingMethod: 'Voting method',
+  votingPeriodDays: 'Voting period (days)',
+  votingPeriodHours: 'Voting period (hours)',
+  quorumPercentage: 'Quorum (%)',
+  whoCanCreateProposals: 'Who can create proposals',
+  whoCanChangeRoles: 'Who can change roles',
+  requireProposalReview: 'Review before voting',
+  memberApprovalThreshold: 'Membership approval threshold (%)',
+  memberApprovalQuorum: 'Membership approval quorum (%)',
+  bucketManagementPolicy: 'Bucket management',
+  isActive: 'Active',
+  isTreasurer: 'Treasurer',
+}
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined) return '(none)'
+  if (field === 'balance') return `$${(Number(value) / 100).toFixed(2)}`
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.map(v => String(v).replace(/_/g, ' ').toLowerCase()).join(', ')
+  return String(value).replace(/_/g, ' ')
+}
+
+const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] ?? field.charAt(0).toUpperCase() + field.slice(1)
+
+interface ProposalEffectsDiffProps {
+  proposalId: string
+}
+
+/**
+ * Simulated before/after of band settings, buckets and roles if the
+ * proposal passes, with a warning when it no longer matches the run taken
+ * when the proposal was created
+ */
+export function ProposalEffectsDiff({ proposalId }: ProposalEffectsDiffProps) {
+  const { data, isLoading } = trpc.proposal.getEffectsSimulation.useQuery({ proposalId })
+
+  if (isLoading || !data?.current) return null
+
+  const { current, drifted, storedAt } = data
+  const sections = ['band', 'bucket', 'member']
+    .map(section => ({ section, entries: current.diff.filter(entry => entry.section === section) }))
+    .filter(({ entries }) => entries.length > 0)
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white overflow-hidden">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200">
+        <span className="text-sm font-medium text-gray-700">What Changes If This Passes</span>
+      </div>
+
+      <div className="px-3 py-2 space-y-2">
+        {drifted && (
+          <Alert variant="warning">
+            <Text variant="small">
+              The band has changed since this proposal was {storedAt ? `simulated on ${new Date(storedAt).toLocaleDateString()}` : 'created'}.
+              The result below may differ from what members saw when voting began.
+            </Text>
+          </Alert>
+        )}
+
+        {current.errors.length > 0 && (
+          <Alert variant="danger">
+            <Text variant="small" weight="semibold">These effects would fail if run now:</Text>
+            {current.errors.map((error) => (
+              <Text key={error} variant="small">{error}</Text>
+            ))}
+          </Alert>
+        )}
+
+        {current.errors.length === 0 && sections.length === 0 && (
+          <Text variant="small" color="muted">
+            No changes to settings, buckets or roles.
+          </Text>
+        )}
+
+        {sections.map(({ section, entries }) => (
+          <div key={section}>
+            <Text variant="small" weight="semibold">{SECTION_LABELS[section]}</Text>
+            {entries.map((entry, index) => (
+              <div key={index} className="text-xs">
+                <span className="font-medium text-gray-700">
+                  {section === 'band' ? fieldLabel(entry.field) : `${entry.subject} · ${fieldLabel(entry.field)}`}:
+                </span>{' '}
+                <span className="line-through text-red-600">{formatValue(entry.field, entry.before)}</span>{' '}
+                <span className="text-green-700">{formatValue(entry.field, entry.after)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -233,6 +233,23 @@ export function ProposalHeaderCompact({
                   <span className="text-gray-600">{proposal.fundingSource}</span>
                 </span>
               )}
+              {proposal.budgetBucket && (
+                <span>
+                  <span className="font-medium text-gray-700">Reserved from:</span>{' '}
+                  <span className="text-gray-600">{proposal.budgetBucket.name}</span>
+                </span>
+              )}
+              {proposal.budgetAmendsProposal && (
+                <span>
+                  <span className="font-medium text-gray-700">Amends budget of:</span>{' '}
+                  <a
+                    href={`/bands/${band.slug}/proposals/${proposal.budgetAmendsProposal.id}`}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {proposal.budgetAmendsProposal.title}
+                  </a>
+                </span>
+              )}
             </div>
           )}
 
@@ -22,12 +22,20 @@ import {
   ProposalProjectsHierarchy,
   IntegrityBlockModal,
   IntegrityWarningModal,
+  MultiOptionBallot,
+  MultiOptionResults,
+  MULTI_OPTION_METHOD_LABELS,
 } from '@/components/ui'
+import type { MultiOptionBallotValue } from '@/components/ui/MultiOptionBallot'
 import { AppNav } from '@/components/AppNav'
 import { ProposalHeaderCompact } from './components/ProposalHeaderCompact'
+import { ProposalBudgetStatus } from './components/ProposalBudgetStatus'
+import { ProposalEffectsDiff } from './components/ProposalEffectsDiff'
+import { ProposalAmendments } from './components/ProposalAmendments'
 
 const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
 const CAN_CREATE_PROJECT = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
+const CAN_CREATE_PROPOSAL = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 const CAN_UPDATE_ANY = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
 const CAN_REVIEW = ['FOUNDER', 'GOVERNOR', 'MODERATOR']
 
@@ -48,6 +56,9 @@ const PRIORITY_VARIANTS: Record<string, string> = {
   URGENT: 'danger',
 }
 
+// Founder nominations and dissolution can't be amended or countered
+const NON_AMENDABLE_TYPES = ['DISSOLUTION', 'ADD_FOUNDER']
+
 type ProposalType = 'GENERAL' | 'BUDGET' | 'PROJECT' | 'POLICY' | 'MEMBERSHIP' | 'DISSOLUTION' | 'ADD_FOUNDER'
 type ProposalPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
 
@@ -59,6 +70,7 @@ export default function ProposalDetailPage() {
   const proposalId = params.proposalId as string
   const [userId, setUserId] = useState<string | null>(null)
   const [selectedVote, setSelectedVote] = useState<string | null>(null)
+  const [ballot, setBallot] = useState<MultiOptionBallotValue>({})
   const [comment, setComment] = useState('')
   
   // Edit modal state
@@ -211,6 +223,7 @@ export default function ProposalDetailPage() {
       const existingVote = proposalData.proposal.votes.find((v: any) => v.user.id === userId)
       if (existingVote) {
         setSelectedVote(existingVote.vote)
+        setBallot((existingVote.ballot as MultiOptionBallotValue | null) ?? {})
         setComment(existingVote.comment || '')
       }
     }
@@ -233,7 +246,6 @@ export default function ProposalDetailPage() {
     const p = proposalData?.proposal
     return {
       proposalId,
-      userId: userId!,
       title: editTitle,
       description: editDescription,
       type: editType,
@@ -362,12 +374,17 @@ export default function ProposalDetailPage() {
   const proposal = proposalData.proposal
   const voteSummary = proposalData.voteSummary
   const band = proposal.band
+  const isMultiOption = !!proposalData.tally
+  const myDelegation = proposalData.delegations.find(d => d.delegator.id === userId)
+  const delegatedWeight = (voterId: string) =>
+    proposalData.delegations.filter(d => d.voter.id === voterId).length
 
   const currentMember = bandData?.band?.members.find((m: any) => m.user.id === userId)
   const canApprove = currentMember && bandData?.band?.whoCanApprove.includes(currentMember.role)
   const isMember = !!currentMember
   const canVote = currentMember && CAN_VOTE.includes(currentMember.role)
   const canCreateProject = currentMember && CAN_CREATE_PROJECT.includes(currentMember.role)
+  const canCreateProposal = currentMember && CAN_CREATE_PROPOSAL.includes(currentMember.role)
   const canClose = proposal.createdById === userId || 
                    currentMember?.role === 'FOUNDER' || 
                    currentMember?.role === 'GOVERNOR'
@@ -442,15 +459,23 @@ export default function ProposalDetailPage() {
     if (!userId) return
     voteMutation.mutate({
       proposalId,
-      userId,
       vote: vote as 'YES' | 'NO' | 'ABSTAIN',
       comment: comment || undefined,
     })
   }
 
+  const handleSubmitBallot = () => {
+    if (!userId) return
+    voteMutation.mutate({
+      proposalId,
+      ballot,
+      comment: comment || undefined,
+    })
+  }
+
   const handleClose = () => {
     if (!userId) return
-    closeMutation.mutate({ proposalId, userId })
+    closeMutation.mutate({ proposalId })
   }
 
   const formatCurrency = (amount: any) => {
@@ -506,9 +531,9 @@ export default function ProposalDetailPage() {
               canResubmit={canResubmit}
               canReview={!!canReview}
               onEdit={handleOpenEditModal}
-              onSubmit={() => submitForReviewMutation.mutate({ proposalId, userId: userId! })}
-              onWithdraw={() => withdrawMutation.mutate({ proposalId, userId: userId! })}
-              onApprove={() => approveMutation.mutate({ proposalId, userId: userId! })}
+              onSubmit={() => submitForReviewMutation.mutate({ proposalId })}
+              onWithdraw={() => withdrawMutation.mutate({ proposalId })}
+              onApprove={() => approveMutation.mutate({ proposalId })}
               onReject={() => setShowRejectModal(true)}
               isSubmitting={submitForReviewMutation.isPending}
               isWithdrawing={withdrawMutation.isPending}
@@ -531,7 +556,7 @@ export default function ProposalDetailPage() {
                       'Delete this proposal permanently? This cannot be undone.'
                     )
                     if (!ok) return
-                    deleteProposalMutation.mutate({ proposalId, userId })
+                    deleteProposalMutation.mutate({ proposalId })
                   }}
                   disabled={deleteProposalMutation.isPending}
                 >
@@ -550,20 +575,29 @@ export default function ProposalDetailPage() {
                   <span className="text-sm font-medium text-gray-700">
                     {proposal.status === 'OPEN' ? 'Current:' : 'Result:'}
                   </span>
-                  <span className="text-green-600 font-semibold">
-                    👍 {voteSummary.yes} ({voteSummary.percentageYes}%)
-                  </span>
-                  <span className="text-red-600 font-semibold">
-                    👎 {voteSummary.no} ({voteSummary.percentageNo}%)
-                  </span>
-                  <span className="text-gray-500">
-                    🤷 {voteSummary.abstain}
-                  </span>
+                  {isMultiOption ? (
+                    <span className="text-gray-500">
+                      🤷 {voteSummary.abstain} blank
+                    </span>
+                  ) : (
+                    <>
+                      <span className="text-green-600 font-semibold">
+                        👍 {voteSummary.yes} ({voteSummary.percentageYes}%)
+                      </span>
+                      <span className="text-red-600 font-semibold">
+                        👎 {voteSummary.no} ({voteSummary.percentageNo}%)
+                      </span>
+                      <span className="text-gray-500">
+                        🤷 {voteSummary.abstain}
+                      </span>
+                    </>
+                  )}
                   <span className="text-gray-400">|</span>
                   <span className="text-sm text-gray-600">
                     {proposal.type === 'ADD_FOUNDER'
                       ? `${voteSummary.total}/${voteSummary.eligibleVoters} founders voted`
                       : `${voteSummary.total}/${voteSummary.eligibleVoters} voted`}
+                    {voteSummary.delegated > 0 && ` (${voteSummary.delegated} by delegation)`}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -588,10 +622,28 @@ export default function ProposalDetailPage() {
                     ))}
                 </div>
               </div>
+              {/* Round-by-round results for multi-option proposals */}
+              {proposalData.tally && (
+                <MultiOptionResults
+                  options={proposalData.options}
+                  tally={proposalData.tally}
+                  isFinal={proposal.status !== 'OPEN'}
+                />
+              )}
+              {/* The current member's vote is being carried by a proxy */}
+              {myDelegation && (
+                <div className="text-xs text-blue-700 bg-blue-50 rounded px-2 py-1">
+                  Your vote follows {myDelegation.voter.name}
+                  {myDelegation.via.length > 0 && ` (via ${myDelegation.via.map(u => u.name).join(' → ')})`}
+                  {proposal.status === 'OPEN' && '. Vote yourself to override.'}
+                </div>
+              )}
               {/* Voting method */}
               <div className="text-xs text-gray-500">
                 {proposal.type === 'ADD_FOUNDER' ? (
                   <>Rule: unanimous YES among founders who voted (no founder may vote NO)</>
+                ) : proposal.votingMethod ? (
+                  <>Method: {MULTI_OPTION_METHOD_LABELS[proposal.votingMethod] ?? proposal.votingMethod.replace(/_/g, ' ')}</>
                 ) : (
                   <>Method: {band.votingMethod?.replace(/_/g, ' ')}</>
                 )}
@@ -599,8 +651,36 @@ export default function ProposalDetailPage() {
             </div>
           )}
 
+          {/* Ballot for multi-option proposals */}
+          {isOpen && isMultiOption && canVote && !votingEnded && proposal.votingMethod && (
+            <div className="border border-gray-200 rounded-lg bg-white p-3 space-y-2">
+              <span className="text-sm font-medium text-gray-700">
+                {hasVoted ? 'Change Ballot:' : 'Ballot:'}
+              </span>
+              <MultiOptionBallot
+                method={proposal.votingMethod}
+                options={proposalData.options}
+                value={ballot}
+                onChange={setBallot}
+                disabled={voteMutation.isPending}
+              />
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Add comment (optional)..."
+                className="w-full text-sm px-2 py-1 border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleSubmitBallot} disabled={voteMutation.isPending}>
+                  {voteMutation.isPending ? 'Submitting...' : hasVoted ? 'Update Ballot' : 'Submit Ballot'}
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Compact Voting Section */}
-          {isOpen && (proposal.type === 'ADD_FOUNDER' ? currentMember?.role === 'FOUNDER' && canVote : canVote) && !votingEnded && (
+          {isOpen && !isMultiOption && (proposal.type === 'ADD_FOUNDER' ? currentMember?.role === 'FOUNDER' && canVote : canVote) && !votingEnded && (
             <div className="border border-gray-200 rounded-lg bg-white p-3 space-y-2">
               <div className="flex items-center justify-between flex-wrap gap-2">
                 <span className="text-sm font-medium text-gray-700">
@@ -752,6 +832,14 @@ export default function ProposalDetailPage() {
                         if (!voteSummary.quorum.met) {
                           return <span className="text-sm text-red-600">Would reject (no quorum)</span>
                         }
+                        if (proposalData.tally) {
+                          const winner = proposalData.options.find(o => o.id === proposalData.tally?.winnerOptionId)
+                          return (
+                            <span className={`text-sm font-medium ${winner ? 'text-green-600' : 'text-red-600'}`}>
+                              {winner ? `Would pick ${winner.label}` : 'Would reject (no single winner)'}
+                            </span>
+                          )
+                        }
                         const threshold = band.votingMethod === 'SUPERMAJORITY_75' ? 75
                           : band.votingMethod === 'SUPERMAJORITY_66' ? 66
                           : band.votingMethod === 'UNANIMOUS' ? 100
@@ -789,6 +877,94 @@ export default function ProposalDetailPage() {
             </div>
           )}
 
+          {/* What runs automatically if this proposal passes */}
+          {proposalData.effectsPreview && proposalData.effectsPreview.length > 0 && (
+            <div className="border border-gray-200 rounded-lg bg-white overflow-hidden">
+              <div className="px-3 py-2 bg-gray-50 border-b border-gray-200">
+                <span className="text-sm font-medium text-gray-700">If Approved ({proposalData.effectsPreview.length})</span>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {proposalData.effectsPreview.map((effect, index) => (
+                  <div key={index} className="px-3 py-1.5">
+                    <Text variant="small">{effect.description}</Text>
+                    {effect.errors.map((error) => (
+                      <Text key={error} variant="small" color="danger">{error}</Text>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Simulated before/after, with a warning if the band has changed since creation */}
+          {proposalData.effectsPreview && isMember && (
+            <ProposalEffectsDiff proposalId={proposalId} />
+          )}
+
+          {/* Reserved budget vs project spend for budget-backed proposals */}
+          {proposalData.budget && isMember && (
+            <ProposalBudgetStatus
+              proposalId={proposalId}
+              bandId={proposal.bandId}
+              bandSlug={slug}
+              budget={proposalData.budget}
+              canPropose={!!canCreateProposal}
+              onReleased={() => refetch()}
+            />
+          )}
+
+          {/* Amendments - voted on separately, merged in if accepted */}
+          {isMember && !isMultiOption && !NON_AMENDABLE_TYPES.includes(proposal.type) &&
+            (isOpen || proposal.editCount > 0) && (
+            <ProposalAmendments
+              proposalId={proposalId}
+              proposal={proposal as unknown as Record<string, unknown>}
+              userId={userId}
+              canVote={!!canVote}
+              canResolve={canClose}
+              isOpen={isOpen}
+              onChanged={() => refetch()}
+            />
+          )}
+
+          {/* Competing proposals - the original and its counter-proposals, decided together */}
+          {(proposalData.competingProposals.length > 0 ||
+            (isOpen && canCreateProposal && !isMultiOption && !NON_AMENDABLE_TYPES.includes(proposal.type))) && (
+            <div className="border border-gray-200 rounded-lg bg-white overflow-hidden">
+              <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">
+                  {proposal.counterToProposalId ? 'Competing Proposals' : `Counter-Proposals (${proposalData.competingProposals.length})`}
+                </span>
+                {isOpen && canCreateProposal && !isMultiOption && !NON_AMENDABLE_TYPES.includes(proposal.type) && (
+                  <a href={`/bands/${slug}/proposals/create?counterTo=${proposalId}`}>
+                    <Button variant="ghost" size="sm">Counter-propose</Button>
+                  </a>
+                )}
+              </div>
+              {proposalData.competingProposals.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {proposalData.competingProposals.map((competitor) => (
+                    <div key={competitor.id} className="flex items-center justify-between px-3 py-1.5 hover:bg-gray-50">
+                      <a href={`/bands/${slug}/proposals/${competitor.id}`} className="text-sm text-blue-600 hover:underline truncate">
+                        {competitor.title}
+                        {competitor.id === proposal.counterToProposalId && (
+                          <span className="text-xs text-gray-500 ml-1">(original)</span>
+                        )}
+                      </a>
+                      <span className="text-xs text-gray-500">{competitor.status}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="px-3 py-2">
+                  <Text variant="small" color="muted">
+                    Alternatives close together with this proposal; the best-supported one that passes is adopted.
+                  </Text>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Projects Section - Only shows for approved proposals (not for DISSOLUTION or ADD_FOUNDER) */}
           {proposal.type !== 'DISSOLUTION' && proposal.type !== 'ADD_FOUNDER' && (
             <ProposalProjectsHierarchy
@@ -810,6 +986,9 @@ export default function ProposalDetailPage() {
                   <div key={vote.id} className="flex items-center justify-between px-3 py-1.5 hover:bg-gray-50">
                     <div className="flex items-center gap-2 min-w-0">
                       <span className="text-sm font-medium truncate">{vote.user.name}</span>
+                      {delegatedWeight(vote.user.id) > 0 && (
+                        <span className="text-xs text-blue-600 whitespace-nowrap">+{delegatedWeight(vote.user.id)} delegated</span>
+                      )}
                       {vote.comment && (
                         <span className="text-xs text-gray-500 truncate">"{vote.comment}"</span>
                       )}
@@ -826,6 +1005,37 @@ export default function ProposalDetailPage() {
               </div>
             </div>
           )}
+
+          {/* Delegated Votes - who carried whose vote */}
+          {proposalData.delegations.length > 0 && (
+            <div className="border border-gray-200 rounded-lg bg-white overflow-hidden">
+              <div className="px-3 py-2 bg-gray-50 border-b border-gray-200">
+                <span className="text-sm font-medium text-gray-700">Delegated Votes ({proposalData.delegations.length})</span>
+              </div>
+              <div className="divide-y divide-gray-100">
+                {proposalData.delegations.map((delegation) => (
+                  <div key={delegation.delegator.id} className="flex items-center justify-between px-3 py-1.5 hover:bg-gray-50">
+                    <span className="text-sm truncate">
+                      <span className="font-medium">{delegation.delegator.name}</span>
+                      <span className="text-gray-500">
+                        {' → '}
+                        {[...delegation.via, delegation.voter].map(u => u.name).join(' → ')}
+                      </span>
+                    </span>
+                    {delegation.vote && (
+                      <span className={`text-xs font-medium px-1.5 py-0.5 rounded ${
+                        delegation.vote === 'YES' ? 'bg-green-100 text-green-700' :
+                        delegation.vote === 'NO' ? 'bg-red-100 text-red-700' :
+                        'bg-gray-100 text-gray-700'
+                      }`}>
+                        {delegation.vote}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </Stack>
 
         {/* Edit Modal */}
@@ -1015,7 +1225,6 @@ export default function ProposalDetailPage() {
                   if (userId && rejectionReason.trim().length >= 10) {
                     rejectMutation.mutate({
                       proposalId,
-                      userId,
                       reason: rejectionReason,
                     })
                   }
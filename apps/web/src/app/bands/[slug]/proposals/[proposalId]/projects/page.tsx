@@ -151,7 +151,6 @@ export default function ProposalProjectsPage() {
       successCriteria: newProject.successCriteria.trim() || undefined,
       tags: newProject.tags ? newProject.tags.split(',').map(t => t.trim()).filter(Boolean) : undefined,
       leadId: newProject.leadId || undefined,
-      userId: userId!,
     }
 
     // Store data for potential later use
@@ -227,7 +226,6 @@ export default function ProposalProjectsPage() {
   const handleAISuggest = async () => {
     const result = await aiSuggestMutation.mutateAsync({
       proposalId,
-      userId: userId!,
     })
 
     // Refresh AI usage tracker
@@ -264,7 +262,6 @@ export default function ProposalProjectsPage() {
           name: suggestion.name,
           description: suggestion.description,
           orderIndex: suggestion.order,
-          userId: userId!,
           aiGenerated: true,
         })
         created++
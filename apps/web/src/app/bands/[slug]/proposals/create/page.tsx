@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter, useParams } from 'next/navigation'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
 import { trpc } from '@/lib/trpc'
 import { jwtDecode } from 'jwt-decode'
 import {
@@ -18,12 +18,20 @@ import {
   Loading,
   BandLayout,
   Badge,
+  Select,
   IntegrityBlockModal,
   IntegrityWarningModal,
+  MULTI_OPTION_METHOD_LABELS,
 } from '@/components/ui'
+import { MULTI_OPTION_MIN_OPTIONS, MULTI_OPTION_MAX_OPTIONS } from '@band-it/shared'
 import { OnboardingHint } from '@/components/onboarding'
 import { AppNav } from '@/components/AppNav'
 import { TrainAIButton } from '@/components/ai'
+import {
+  BandSettingsEffectsBuilder,
+  BandActionEffectsBuilder,
+  type ProposalEffectInput,
+} from '@/components/proposals'
 
 const CAN_CREATE_PROPOSAL = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
 const CAN_CREATE_GOVERNANCE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
@@ -36,14 +44,29 @@ const PROPOSAL_TYPES = [
   { value: 'MEMBERSHIP', label: 'Membership', description: 'Member roles and changes' },
 ]
 
+// Execution types whose effects run automatically on approval
+const EFFECT_EXECUTION_TYPES = ['GOVERNANCE', 'ACTION']
+
+const EXECUTION_SUBTYPES: Record<string, { value: string; label: string }[]> = {
+  GOVERNANCE: [
+    { value: 'FINANCE_BUCKET_GOVERNANCE_V1', label: 'Finance & Buckets' },
+    { value: 'BAND_SETTINGS_GOVERNANCE_V1', label: 'Voting & Membership Rules' },
+  ],
+  ACTION: [
+    { value: 'BAND_ACTIONS_V1', label: 'Band Actions' },
+  ],
+}
+
 const EXECUTION_TYPES = [
   { value: 'PROJECT', label: 'Project', description: 'Creates a project when approved (default behavior)' },
   { value: 'GOVERNANCE', label: 'Governance', description: 'Auto-executes changes to band settings when approved' },
-  // ACTION temporarily hidden - not fully implemented yet
-  // { value: 'ACTION', label: 'Action', description: 'Auto-triggers routine tasks when approved' },
+  { value: 'ACTION', label: 'Action', description: 'Auto-triggers routine tasks when approved' },
   { value: 'RESOLUTION', label: 'Resolution', description: 'Just records the decision, nothing executes' },
 ]
 
+const MULTI_OPTION_METHODS = ['RANKED_CHOICE', 'APPROVAL', 'SCORE'] as const
+type MultiOptionMethod = typeof MULTI_OPTION_METHODS[number]
+
 const PRIORITIES = [
   { value: 'LOW', label: 'Low', color: 'neutral' },
   { value: 'MEDIUM', label: 'Medium', color: 'info' },
@@ -55,18 +78,15 @@ const BUCKET_TYPES = ['OPERATING', 'PROJECT', 'RESTRICTED', 'UNRESTRICTED', 'COM
 const BUCKET_VISIBILITIES = ['MEMBERS', 'OFFICERS_ONLY']
 const BUCKET_POLICIES = ['TREASURER_ONLY', 'OFFICER_TIER']
 
-interface FinanceEffect {
-  type: string
-  payload: Record<string, any>
-  order?: number
-}
-
 export default function CreateProposalPage() {
   const router = useRouter()
   const params = useParams()
+  const searchParams = useSearchParams()
   const { showToast } = useToast()
   const utils = trpc.useUtils()
   const slug = params.slug as string
+  const amendBudgetId = searchParams.get('amendBudget')
+  const counterToId = searchParams.get('counterTo')
   const [userId, setUserId] = useState<string | null>(null)
 
   // Form state
@@ -80,6 +100,7 @@ export default function CreateProposalPage() {
   const [budgetRequested, setBudgetRequested] = useState('')
   const [budgetBreakdown, setBudgetBreakdown] = useState('')
   const [fundingSource, setFundingSource] = useState('')
+  const [budgetBucketId, setBudgetBucketId] = useState('')
   const [proposedStartDate, setProposedStartDate] = useState('')
   const [proposedEndDate, setProposedEndDate] = useState('')
   const [milestones, setMilestones] = useState('')
@@ -90,11 +111,16 @@ export default function CreateProposalPage() {
   const [useCustomVotingPeriod, setUseCustomVotingPeriod] = useState(false)
   const [customVotingPeriodValue, setCustomVotingPeriodValue] = useState('')
   const [customVotingPeriodUnit, setCustomVotingPeriodUnit] = useState<'hours' | 'days'>('days')
+  const [multiOptionMethod, setMultiOptionMethod] = useState<MultiOptionMethod | null>(null)
+  const [multiOptions, setMultiOptions] = useState<{ label: string; description: string }[]>([
+    { label: '', description: '' },
+    { label: '', description: '' },
+  ])
 
-  // Execution type & effects (for governance proposals)
+  // Execution type & effects (for governance and action proposals)
   const [executionType, setExecutionType] = useState<string>('PROJECT')
   const [executionSubtype, setExecutionSubtype] = useState<string>('')
-  const [financeEffects, setFinanceEffects] = useState<FinanceEffect[]>([])
+  const [proposalEffects, setProposalEffects] = useState<ProposalEffectInput[]>([])
   const [showEffectsBuilder, setShowEffectsBuilder] = useState(false)
   const [showMemberSelect, setShowMemberSelect] = useState<'ADD_TREASURER' | 'REMOVE_TREASURER' | null>(null)
 
@@ -124,6 +150,51 @@ export default function CreateProposalPage() {
     { enabled: !!slug }
   )
 
+  // Uncommitted bucket funds, for budget-backed proposals
+  const { data: balancesData } = trpc.ledger.getBalances.useQuery(
+    { bandId: bandData?.band?.id || '' },
+    { enabled: !!bandData?.band?.id && !!userId }
+  )
+
+  // Proposal whose reserved budget this one amends (?amendBudget=<proposalId>)
+  const { data: amendedData } = trpc.proposal.getById.useQuery(
+    { proposalId: amendBudgetId || '' },
+    { enabled: !!amendBudgetId }
+  )
+  const amendedProposal = amendBudgetId ? amendedData?.proposal : null
+
+  useEffect(() => {
+    if (!amendedProposal?.budgetBucketId) return
+    setTitle(`Budget amendment: ${amendedProposal.title}`.slice(0, 200))
+    setType('BUDGET')
+    setExecutionType('RESOLUTION')
+    setBudgetBucketId(amendedProposal.budgetBucketId)
+    setShowAdvanced(true)
+  }, [amendedProposal?.id])
+
+  // Proposal this one is an alternative to (?counterTo=<proposalId>)
+  const { data: counteredData } = trpc.proposal.getById.useQuery(
+    { proposalId: counterToId || '' },
+    { enabled: !!counterToId }
+  )
+  const counteredProposal = counterToId ? counteredData?.proposal : null
+
+  useEffect(() => {
+    if (!counteredProposal) return
+    setType(counteredProposal.type)
+    setMultiOptionMethod(null)
+  }, [counteredProposal?.id])
+
+  // Human-readable description of each effect, checked against the band's current state
+  const { data: effectsPreviewData } = trpc.proposal.previewEffects.useQuery(
+    { bandId: bandData?.band?.id || '', effects: proposalEffects },
+    { enabled: !!bandData?.band?.id && proposalEffects.length > 0 }
+  )
+
+  const addEffect = (effect: ProposalEffectInput) => {
+    setProposalEffects([...proposalEffects, { ...effect, order: proposalEffects.length + 1 }])
+  }
+
   const createMutation = trpc.proposal.create.useMutation({
     onSuccess: (data: any) => {
       showToast('Proposal created successfully!', 'success')
@@ -175,10 +246,24 @@ export default function CreateProposalPage() {
       context: aiContext || undefined,
       bandId: bandData?.band?.id,
       bandName: bandData?.band?.name,
-      userId: userId || undefined,
     })
   }
 
+  const updateMultiOption = (index: number, changes: Partial<{ label: string; description: string }>) => {
+    setMultiOptions(multiOptions.map((option, i) => (i === index ? { ...option, ...changes } : option)))
+  }
+
+  // Options are only sent for multi-option proposals; blank rows are dropped
+  const multiOptionFields = () => {
+    if (!multiOptionMethod || counteredProposal) return {}
+    return {
+      votingMethod: multiOptionMethod,
+      options: multiOptions
+        .filter(o => o.label.trim())
+        .map(o => ({ label: o.label.trim(), description: o.description.trim() || undefined })),
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -201,40 +286,48 @@ export default function CreateProposalPage() {
       }
     }
 
+    if (multiOptionMethod && multiOptionFields().options!.length < MULTI_OPTION_MIN_OPTIONS) {
+      showToast(`Add at least ${MULTI_OPTION_MIN_OPTIONS} options`, 'error')
+      return
+    }
+
     const proposalData = {
       bandId: bandData.band.id,
-      userId,
       title,
       description,
       type: type as any,
       priority: priority as any,
       executionType: executionType as any,
       executionSubtype: executionSubtype || undefined,
-      effects: financeEffects.length > 0 ? financeEffects : undefined,
+      effects: proposalEffects.length > 0 ? proposalEffects : undefined,
       problemStatement: problemStatement || undefined,
       expectedOutcome: expectedOutcome || undefined,
       risksAndConcerns: risksAndConcerns || undefined,
       budgetRequested: budgetRequested ? parseFloat(budgetRequested) : undefined,
       budgetBreakdown: budgetBreakdown || undefined,
       fundingSource: fundingSource || undefined,
+      budgetBucketId: budgetBucketId || undefined,
+      budgetAmendsProposalId: amendedProposal?.budgetBucketId ? amendedProposal.id : undefined,
+      counterToProposalId: counteredProposal?.id,
       proposedStartDate: proposedStartDate || undefined,
       proposedEndDate: proposedEndDate || undefined,
       milestones: milestones || undefined,
       externalLinks: linksArray.length > 0 ? linksArray : undefined,
       allowEarlyClose,
       customVotingPeriodHours,
+      ...multiOptionFields(),
     }
 
     // Store data for potential later use
     setPendingProposalData(proposalData)
 
-    // Skip integrity validation for GOVERNANCE proposals (administrative actions)
-    if (executionType === 'GOVERNANCE') {
+    // Skip integrity validation for GOVERNANCE and ACTION proposals (administrative actions)
+    if (EFFECT_EXECUTION_TYPES.includes(executionType)) {
       createMutation.mutate(proposalData)
       return
     }
 
-    // Run integrity validation for non-governance proposals
+    // Run integrity validation for other proposals
     try {
       const validation = await validationMutation.mutateAsync({
         entityType: 'Proposal',
@@ -387,6 +480,18 @@ export default function CreateProposalPage() {
             />
           )}
 
+          {counteredProposal && (
+            <Alert variant="info">
+              <Text>
+                You are writing a counter-proposal to{' '}
+                <a href={`/bands/${slug}/proposals/${counteredProposal.id}`} className="text-blue-600 hover:underline">
+                  {counteredProposal.title}
+                </a>
+                . It closes together with the original; the best-supported proposal that passes is adopted and the others are rejected.
+              </Text>
+            </Alert>
+          )}
+
           {/* Voting Settings Info */}
           <Card>
             <Stack spacing="md">
@@ -465,6 +570,87 @@ export default function CreateProposalPage() {
                   Allow early close when all members have voted
                 </Text>
               </label>
+
+              {/* Multi-option voting */}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!multiOptionMethod}
+                  disabled={!!counteredProposal}
+                  onChange={(e) => {
+                    setMultiOptionMethod(e.target.checked ? 'RANKED_CHOICE' : null)
+                    if (e.target.checked && EFFECT_EXECUTION_TYPES.includes(executionType)) {
+                      setExecutionType('RESOLUTION')
+                      setExecutionSubtype('')
+                      setProposalEffects([])
+                      setShowEffectsBuilder(false)
+                    }
+                  }}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <Text variant="small">
+                  Choose between several options instead of yes/no
+                </Text>
+              </label>
+
+              {multiOptionMethod && (
+                <Stack spacing="sm">
+                  <Flex gap="sm" className="flex-wrap">
+                    {MULTI_OPTION_METHODS.map((method) => (
+                      <Button
+                        key={method}
+                        type="button"
+                        variant={multiOptionMethod === method ? 'primary' : 'secondary'}
+                        size="sm"
+                        onClick={() => setMultiOptionMethod(method)}
+                      >
+                        {MULTI_OPTION_METHOD_LABELS[method]}
+                      </Button>
+                    ))}
+                  </Flex>
+                  {multiOptions.map((option, index) => (
+                    <Flex key={index} gap="sm" align="end">
+                      <div className="flex-1">
+                        <Input
+                          label={`Option ${index + 1}`}
+                          value={option.label}
+                          onChange={(e) => updateMultiOption(index, { label: e.target.value })}
+                          placeholder="e.g. The Blue Note"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Input
+                          label="Details (optional)"
+                          value={option.description}
+                          onChange={(e) => updateMultiOption(index, { description: e.target.value })}
+                        />
+                      </div>
+                      {multiOptions.length > MULTI_OPTION_MIN_OPTIONS && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setMultiOptions(multiOptions.filter((_, i) => i !== index))}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </Flex>
+                  ))}
+                  {multiOptions.length < MULTI_OPTION_MAX_OPTIONS && (
+                    <div>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setMultiOptions([...multiOptions, { label: '', description: '' }])}
+                      >
+                        + Add Option
+                      </Button>
+                    </div>
+                  )}
+                </Stack>
+              )}
             </Stack>
           </Card>
 
@@ -535,12 +721,11 @@ export default function CreateProposalPage() {
                             variant={executionType === et.value ? 'primary' : 'secondary'}
                             size="sm"
                             onClick={() => {
+                              if (et.value === executionType) return
                               setExecutionType(et.value)
-                              if (et.value !== 'GOVERNANCE') {
-                                setExecutionSubtype('')
-                                setFinanceEffects([])
-                                setShowEffectsBuilder(false)
-                              }
+                              setExecutionSubtype('')
+                              setProposalEffects([])
+                              setShowEffectsBuilder(false)
                             }}
                           >
                             {et.label}
@@ -555,81 +740,70 @@ export default function CreateProposalPage() {
                 </Stack>
               </Card>
 
-              {/* Governance Effects Builder */}
-              {executionType === 'GOVERNANCE' && canCreateGovernance && (
+              {/* Effects Builder (governance and action proposals) */}
+              {EFFECT_EXECUTION_TYPES.includes(executionType) && canCreateGovernance && (
                 <Card>
                   <Stack spacing="lg">
                     <Stack spacing="sm">
-                      <Heading level={3}>Governance Configuration</Heading>
+                      <Heading level={3}>{executionType === 'ACTION' ? 'Action Configuration' : 'Governance Configuration'}</Heading>
                       <Text variant="small" color="muted">
-                        Configure what changes will be automatically applied when this proposal is approved.
+                        Configure what will be automatically applied when this proposal is approved.
                       </Text>
                     </Stack>
 
                     {/* Subtype Selection */}
                     <Stack spacing="sm">
-                      <Text variant="small" weight="semibold">Governance Type</Text>
+                      <Text variant="small" weight="semibold">{executionType === 'ACTION' ? 'Action Type' : 'Governance Type'}</Text>
                       <Flex gap="sm" className="flex-wrap">
-                        <Button
-                          type="button"
-                          variant={executionSubtype === 'FINANCE_BUCKET_GOVERNANCE_V1' ? 'primary' : 'secondary'}
-                          size="sm"
-                          onClick={() => {
-                            setExecutionSubtype('FINANCE_BUCKET_GOVERNANCE_V1')
-                            setShowEffectsBuilder(true)
-                          }}
-                        >
-                          Finance & Buckets
-                        </Button>
+                        {EXECUTION_SUBTYPES[executionType].map((subtype) => (
+                          <Button
+                            key={subtype.value}
+                            type="button"
+                            variant={executionSubtype === subtype.value ? 'primary' : 'secondary'}
+                            size="sm"
+                            onClick={() => {
+                              // Effects belong to one subtype, so switching starts over
+                              if (subtype.value !== executionSubtype) {
+                                setProposalEffects([])
+                                setShowMemberSelect(null)
+                              }
+                              setExecutionSubtype(subtype.value)
+                              setShowEffectsBuilder(true)
+                            }}
+                          >
+                            {subtype.label}
+                          </Button>
+                        ))}
                       </Flex>
                     </Stack>
 
-                    {/* Finance Effects Builder */}
-                    {executionSubtype === 'FINANCE_BUCKET_GOVERNANCE_V1' && showEffectsBuilder && (
+                    {executionSubtype && showEffectsBuilder && (
                       <Stack spacing="md">
                         <Text variant="small" weight="semibold">Effects (actions that will execute on approval)</Text>
 
-                        {/* List existing effects */}
-                        {financeEffects.length > 0 && (
+                        {/* List existing effects, described by the server against current band state */}
+                        {proposalEffects.length > 0 && (
                           <Stack spacing="sm">
-                            {financeEffects.map((effect, index) => {
-                              // Get friendly description
-                              const getEffectDescription = () => {
-                                switch (effect.type) {
-                                  case 'ADD_TREASURER': {
-                                    const member = band.members.find((m: any) => m.user.id === effect.payload.userId)
-                                    return `Add ${member?.user.name || 'Unknown'} as Treasurer`
-                                  }
-                                  case 'REMOVE_TREASURER': {
-                                    const member = band.members.find((m: any) => m.user.id === effect.payload.userId)
-                                    return `Remove ${member?.user.name || 'Unknown'} as Treasurer`
-                                  }
-                                  case 'CREATE_BUCKET':
-                                    return `Create bucket "${effect.payload.bucket?.name}" (${effect.payload.bucket?.type})`
-                                  case 'UPDATE_BUCKET':
-                                    return `Update bucket "${effect.payload.name || effect.payload.bucketId}"`
-                                  case 'DEACTIVATE_BUCKET':
-                                    return `Deactivate bucket "${effect.payload.bucketId}"`
-                                  case 'SET_BUCKET_MANAGEMENT_POLICY':
-                                    return `Set management policy to ${effect.payload.policy === 'TREASURER_ONLY' ? 'Treasurer Only' : 'Officer Tier'}`
-                                  default:
-                                    return effect.type.replace(/_/g, ' ')
-                                }
-                              }
-
+                            {proposalEffects.map((effect, index) => {
+                              const preview = effectsPreviewData?.effects[index]
                               return (
                                 <Card key={index} className="bg-gray-50">
                                   <Flex justify="between" align="center">
-                                    <Flex gap="sm" align="center">
-                                      <Badge variant="info">{effect.type.replace(/_/g, ' ')}</Badge>
-                                      <Text variant="small">{getEffectDescription()}</Text>
-                                    </Flex>
+                                    <Stack spacing="xs">
+                                      <Flex gap="sm" align="center">
+                                        <Badge variant={preview?.errors.length ? 'danger' : 'info'}>{effect.type.replace(/_/g, ' ')}</Badge>
+                                        <Text variant="small">{preview?.description ?? 'Checking...'}</Text>
+                                      </Flex>
+                                      {preview?.errors.map((error) => (
+                                        <Text key={error} variant="small" color="danger">{error}</Text>
+                                      ))}
+                                    </Stack>
                                     <Button
                                       type="button"
                                       variant="danger"
                                       size="sm"
                                       onClick={() => {
-                                        setFinanceEffects(financeEffects.filter((_, i) => i !== index))
+                                        setProposalEffects(proposalEffects.filter((_, i) => i !== index))
                                       }}
                                     >
                                       Remove
@@ -641,115 +815,159 @@ export default function CreateProposalPage() {
                           </Stack>
                         )}
 
-                        {/* Add Effect Buttons */}
-                        <Stack spacing="sm">
-                          <Text variant="small" color="muted">Add an effect:</Text>
-                          <Flex gap="sm" className="flex-wrap">
-                            <Button
-                              type="button"
-                              variant="secondary"
-                              size="sm"
-                              onClick={() => setShowMemberSelect('ADD_TREASURER')}
-                            >
-                              + Add Treasurer
-                            </Button>
-                            <Button
-                              type="button"
-                              variant="secondary"
-                              size="sm"
-                              onClick={() => setShowMemberSelect('REMOVE_TREASURER')}
-                            >
-                              - Remove Treasurer
-                            </Button>
-                            <Button
-                              type="button"
-                              variant="secondary"
-                              size="sm"
-                              onClick={() => {
-                                const name = prompt('Bucket name:')
-                                if (!name) return
-                                const typeOptions = BUCKET_TYPES.join(', ')
-                                const bucketType = prompt(`Bucket type (${typeOptions}):`)?.toUpperCase()
-                                if (!bucketType || !BUCKET_TYPES.includes(bucketType)) {
-                                  showToast('Invalid bucket type', 'error')
-                                  return
-                                }
-                                const visibilityOptions = BUCKET_VISIBILITIES.join(', ')
-                                const visibility = prompt(`Visibility (${visibilityOptions}):`)?.toUpperCase() || 'MEMBERS'
-                                setFinanceEffects([...financeEffects, {
-                                  type: 'CREATE_BUCKET',
-                                  payload: { bucket: { name, type: bucketType, visibility } },
-                                  order: financeEffects.length + 1
-                                }])
-                              }}
-                            >
-                              + Create Bucket
-                            </Button>
-                            <Button
-                              type="button"
-                              variant="secondary"
-                              size="sm"
-                              onClick={() => {
-                                const policyOptions = BUCKET_POLICIES.join(', ')
-                                const policy = prompt(`Set management policy (${policyOptions}):`)?.toUpperCase()
-                                if (!policy || !BUCKET_POLICIES.includes(policy)) {
-                                  showToast('Invalid policy', 'error')
-                                  return
-                                }
-                                setFinanceEffects([...financeEffects, {
-                                  type: 'SET_BUCKET_MANAGEMENT_POLICY',
-                                  payload: { policy },
-                                  order: financeEffects.length + 1
-                                }])
-                              }}
-                            >
-                              Set Policy
-                            </Button>
-                          </Flex>
-
-                          {/* Member Selection for Treasurer */}
-                          {showMemberSelect && (
-                            <Card className="border-2 border-blue-200 bg-blue-50">
-                              <Stack spacing="sm">
-                                <Text weight="semibold">
-                                  {showMemberSelect === 'ADD_TREASURER' ? 'Select member to add as treasurer:' : 'Select member to remove as treasurer:'}
-                                </Text>
-                                <Flex gap="sm" className="flex-wrap">
-                                  {band.members.map((m: any) => (
-                                    <Button
-                                      key={m.user.id}
-                                      type="button"
-                                      variant="secondary"
-                                      size="sm"
-                                      onClick={() => {
-                                        setFinanceEffects([...financeEffects, {
-                                          type: showMemberSelect,
-                                          payload: { userId: m.user.id },
-                                          order: financeEffects.length + 1
-                                        }])
-                                        setShowMemberSelect(null)
-                                      }}
-                                    >
-                                      {m.user.name} ({m.role})
-                                    </Button>
-                                  ))}
-                                </Flex>
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => setShowMemberSelect(null)}
-                                >
-                                  Cancel
-                                </Button>
-                              </Stack>
-                            </Card>
-                          )}
-                        </Stack>
-
-                        {financeEffects.length === 0 && (
+                        {/* Finance effect buttons */}
+                        {executionSubtype === 'FINANCE_BUCKET_GOVERNANCE_V1' && (
+                          <Stack spacing="sm">
+                            <Text variant="small" color="muted">Add an effect:</Text>
+                            <Flex gap="sm" className="flex-wrap">
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => setShowMemberSelect('ADD_TREASURER')}
+                              >
+                                + Add Treasurer
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => setShowMemberSelect('REMOVE_TREASURER')}
+                              >
+                                - Remove Treasurer
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => {
+                                  const name = prompt('Bucket name:')
+                                  if (!name) return
+                                  const typeOptions = BUCKET_TYPES.join(', ')
+                                  const bucketType = prompt(`Bucket type (${typeOptions}):`)?.toUpperCase()
+                                  if (!bucketType || !BUCKET_TYPES.includes(bucketType)) {
+                                    showToast('Invalid bucket type', 'error')
+                                    return
+                                  }
+                                  const visibilityOptions = BUCKET_VISIBILITIES.join(', ')
+                                  const visibility = prompt(`Visibility (${visibilityOptions}):`)?.toUpperCase() || 'MEMBERS'
+                                  setProposalEffects([...proposalEffects, {
+                                    type: 'CREATE_BUCKET',
+                                    payload: { bucket: { name, type: bucketType, visibility } },
+                                    order: proposalEffects.length + 1
+                                  }])
+                                }}
+                              >
+                                + Create Bucket
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => {
+                                  const policyOptions = BUCKET_POLICIES.join(', ')
+                                  const value = prompt(`Set management policy (${policyOptions}):`)?.toUpperCase()
+                                  if (!value || !BUCKET_POLICIES.includes(value)) {
+                                    showToast('Invalid policy', 'error')
+                                    return
+                                  }
+                                  setProposalEffects([...proposalEffects, {
+                                    type: 'SET_BUCKET_MANAGEMENT_POLICY',
+                                    payload: { value },
+                                    order: proposalEffects.length + 1
+                                  }])
+                                }}
+                              >
+                                Set Policy
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => {
+                                  const buckets = band.buckets
+                                  const names = ['General Fund', ...buckets.map(b => b.name)].join(', ')
+                                  const findBucket = (name: string | null | undefined) => {
+                                    if (!name) return undefined
+                                    if (name.trim().toLowerCase() === 'general fund') return null
+                                    const bucket = buckets.find(b => b.name.toLowerCase() === name.trim().toLowerCase())
+                                    return bucket ? bucket.id : undefined
+                                  }
+                                  const fromBucketId = findBucket(prompt(`Transfer from (${names}):`))
+                                  const toBucketId = findBucket(prompt(`Transfer to (${names}):`))
+                                  if (fromBucketId === undefined || toBucketId === undefined || fromBucketId === toBucketId) {
+                                    showToast('Choose two different buckets', 'error')
+                                    return
+                                  }
+                                  const dollars = parseFloat(prompt('Amount ($):') || '')
+                                  if (!dollars || dollars <= 0) {
+                                    showToast('Invalid amount', 'error')
+                                    return
+                                  }
+                                  const description = prompt('Description (optional):') || undefined
+                                  setProposalEffects([...proposalEffects, {
+                                    type: 'TRANSFER_BUCKET_FUNDS',
+                                    payload: { fromBucketId, toBucketId, amount: Math.round(dollars * 100), description },
+                                    order: proposalEffects.length + 1
+                                  }])
+                                }}
+                              >
+                                Transfer Funds
+                              </Button>
+                            </Flex>
+
+                            {/* Member Selection for Treasurer */}
+                            {showMemberSelect && (
+                              <Card className="border-2 border-blue-200 bg-blue-50">
+                                <Stack spacing="sm">
+                                  <Text weight="semibold">
+                                    {showMemberSelect === 'ADD_TREASURER' ? 'Select member to add as treasurer:' : 'Select member to remove as treasurer:'}
+                                  </Text>
+                                  <Flex gap="sm" className="flex-wrap">
+                                    {band.members.map((m: any) => (
+                                      <Button
+                                        key={m.user.id}
+                                        type="button"
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => {
+                                          setProposalEffects([...proposalEffects, {
+                                            type: showMemberSelect,
+                                            payload: { userId: m.user.id },
+                                            order: proposalEffects.length + 1
+                                          }])
+                                          setShowMemberSelect(null)
+                                        }}
+                                      >
+                                        {m.user.name} ({m.role})
+                                      </Button>
+                                    ))}
+                                  </Flex>
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setShowMemberSelect(null)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                </Stack>
+                              </Card>
+                            )}
+                          </Stack>
+                        )}
+
+                        {executionSubtype === 'BAND_SETTINGS_GOVERNANCE_V1' && (
+                          <BandSettingsEffectsBuilder onAdd={addEffect} />
+                        )}
+
+                        {executionSubtype === 'BAND_ACTIONS_V1' && (
+                          <BandActionEffectsBuilder members={band.members} onAdd={addEffect} />
+                        )}
+
+                        {proposalEffects.length === 0 && (
                           <Alert variant="warning">
-                            <Text>Add at least one effect for this governance proposal.</Text>
+                            <Text>Add at least one effect for this proposal.</Text>
                           </Alert>
                         )}
                       </Stack>
@@ -889,6 +1107,28 @@ export default function CreateProposalPage() {
                         onChange={(e) => setFundingSource(e.target.value)}
                         placeholder="Where will the funds come from?"
                       />
+
+                      {executionType !== 'GOVERNANCE' && band.buckets.length > 0 && (
+                        <Select
+                          label="Reserve From Bucket"
+                          value={budgetBucketId}
+                          onChange={(e) => setBudgetBucketId(e.target.value)}
+                          disabled={!!amendedProposal?.budgetBucketId}
+                          helperText={amendedProposal?.budgetBucketId
+                            ? 'Amendments draw from the same bucket as the original budget'
+                            : 'If set, the requested budget is reserved from this bucket when the proposal passes'}
+                        >
+                          <option value="">No reservation</option>
+                          {band.buckets.map((b) => {
+                            const available = (balancesData?.buckets[b.id] ?? 0) - (balancesData?.committed[b.id] ?? 0)
+                            return (
+                              <option key={b.id} value={b.id}>
+                                {b.name} (${(Math.max(0, available) / 100).toFixed(2)} available)
+                              </option>
+                            )
+                          })}
+                        </Select>
+                      )}
                     </Stack>
                   </Card>
 
@@ -995,20 +1235,22 @@ export default function CreateProposalPage() {
                     }
                     createMutation.mutate({
                       bandId: bandData.band.id,
-                      userId,
                       title,
                       description,
                       type: type as 'GENERAL' | 'BUDGET' | 'PROJECT' | 'POLICY' | 'MEMBERSHIP',
                       priority: priority as 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT',
                       executionType: executionType as 'PROJECT' | 'GOVERNANCE' | 'ACTION' | 'RESOLUTION',
                       executionSubtype: executionSubtype || undefined,
-                      effects: financeEffects.length > 0 ? financeEffects : undefined,
+                      effects: proposalEffects.length > 0 ? proposalEffects : undefined,
                       problemStatement: problemStatement || undefined,
                       expectedOutcome: expectedOutcome || undefined,
                       risksAndConcerns: risksAndConcerns || undefined,
                       budgetRequested: budgetRequested ? parseFloat(budgetRequested) : undefined,
                       budgetBreakdown: budgetBreakdown || undefined,
                       fundingSource: fundingSource || undefined,
+                      budgetBucketId: budgetBucketId || undefined,
+                      budgetAmendsProposalId: amendedProposal?.budgetBucketId ? amendedProposal.id : undefined,
+                      counterToProposalId: counteredProposal?.id,
                       proposedStartDate: proposedStartDate || undefined,
                       proposedEndDate: proposedEndDate || undefined,
                       milestones: milestones || undefined,
@@ -1016,6 +1258,7 @@ export default function CreateProposalPage() {
                       saveAsDraft: true,
                       allowEarlyClose,
                       customVotingPeriodHours: draftCustomVotingPeriodHours,
+                      ...multiOptionFields(),
                     })
                   }}
                 >
@@ -19,6 +19,7 @@ import {
 } from '@/components/ui'
 import { AppNav } from '@/components/AppNav'
 import { OnboardingHint } from '@/components/onboarding'
+import { VoteDelegationPanel } from '@/components/proposals'
 
 // Roles that can create proposals
 const CAN_CREATE_PROPOSAL = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR']
@@ -222,7 +223,7 @@ export default function ProposalsPage() {
 
   // Query for pending review proposals (for reviewers)
   const { data: pendingReviewData } = trpc.proposal.getPendingReview.useQuery(
-    { bandId: bandData?.band?.id || '', userId: userId || '' },
+    { bandId: bandData?.band?.id || '' },
     { enabled: !!bandData?.band?.id && !!userId }
   )
 
@@ -792,6 +793,11 @@ export default function ProposalsPage() {
               <p className="text-sm">Create your first proposal to get started.</p>
             </div>
           )}
+
+          {/* Liquid delegation - proxies vote for members who don't */}
+          {isMember && userId && (
+            <VoteDelegationPanel bandId={band.id} userId={userId} members={band.members} />
+          )}
         </Stack>
       </BandLayout>
     </>
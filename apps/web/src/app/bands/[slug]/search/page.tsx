@@ -0,0 +1,322 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { keepPreviousData } from '@tanstack/react-query'
+import { trpc } from '@/lib/trpc'
+import { jwtDecode } from 'jwt-decode'
+import {
+  Heading,
+  Text,
+  Stack,
+  Flex,
+  Button,
+  Badge,
+  Loading,
+  Alert,
+  BandLayout
+} from '@/components/ui'
+import { AppNav } from '@/components/AppNav'
+
+const PAGE_SIZE = 20
+
+type SearchType = 'PROPOSAL' | 'POST' | 'DOCUMENT' | 'PROJECT' | 'TASK' | 'COMMENT' | 'MESSAGE'
+
+const TYPE_LABELS: Record<SearchType, { label: string; emoji: string }> = {
+  PROPOSAL: { label: 'Proposals', emoji: '📝' },
+  POST: { label: 'Posts', emoji: '📰' },
+  DOCUMENT: { label: 'Documents', emoji: '📄' },
+  PROJECT: { label: 'Projects', emoji: '📁' },
+  TASK: { label: 'Tasks', emoji: '✅' },
+  COMMENT: { label: 'Comments', emoji: '💭' },
+  MESSAGE: { label: 'Messages', emoji: '💬' },
+}
+
+// Status filters only apply to the types that have a status
+const STATUS_OPTIONS: Partial<Record<SearchType, string[]>> = {
+  PROPOSAL: ['DRAFT', 'PENDING_REVIEW', 'OPEN', 'CLOSED', 'APPROVED', 'REJECTED', 'WITHDRAWN'],
+  PROJECT: ['PLANNING', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED'],
+  TASK: ['TODO', 'IN_PROGRESS', 'IN_REVIEW', 'COMPLETED', 'BLOCKED'],
+}
+
+const formatStatus = (status: string) =>
+  status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, ' ')
+
+export default function BandSearchPage() {
+  const router = useRouter()
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const slug = params.slug as string
+  const query = (searchParams.get('q') || '').trim()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [type, setType] = useState<SearchType | ''>('')
+  const [status, setStatus] = useState('')
+  const [authorId, setAuthorId] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [offset, setOffset] = useState(0)
+
+  useEffect(() => {
+    const token = localStorage.getItem('accessToken')
+    if (token) {
+      try {
+        const decoded: any = jwtDecode(token)
+        setUserId(decoded.userId)
+      } catch (error) {
+        console.error('Invalid token:', error)
+        router.push('/login')
+      }
+    } else {
+      router.push('/login')
+    }
+  }, [router])
+
+  // A new search starts from the first page
+  useEffect(() => {
+    setOffset(0)
+  }, [query, type, status, authorId, dateFrom, dateTo])
+
+  const { data: bandData, isLoading: bandLoading } = trpc.band.getBySlug.useQuery(
+    { slug },
+    { enabled: !!slug }
+  )
+
+  const band = bandData?.band
+  const currentMember = band?.members.find((m: any) => m.user.id === userId)
+
+  const { data, isLoading, isFetching, error } = trpc.search.band.useQuery(
+    {
+      bandId: band?.id || '',
+      query,
+      types: type ? [type] : undefined,
+      status: status || undefined,
+      authorId: authorId || undefined,
+      dateFrom: dateFrom ? new Date(dateFrom).toISOString() : undefined,
+      dateTo: dateTo ? new Date(`${dateTo}T23:59:59`).toISOString() : undefined,
+      limit: PAGE_SIZE,
+      offset,
+    },
+    { enabled: !!band && !!currentMember && query.length > 0, placeholderData: keepPreviousData }
+  )
+
+  if (bandLoading) {
+    return (
+      <>
+        <AppNav />
+        <BandLayout
+          bandSlug={slug}
+          bandName="Loading..."
+          pageTitle="Search"
+          isMember={false}
+        >
+          <Loading message="Loading..." />
+        </BandLayout>
+      </>
+    )
+  }
+
+  if (!band) {
+    return (
+      <>
+        <AppNav />
+        <BandLayout
+          bandSlug={slug}
+          bandName=""
+          pageTitle="Search"
+          isMember={false}
+        >
+          <Alert variant="danger">
+            <Text>Band not found</Text>
+          </Alert>
+        </BandLayout>
+      </>
+    )
+  }
+
+  const canApprove = currentMember && band.whoCanApprove.includes(currentMember.role)
+  const isMember = !!currentMember
+  const canAccessAdminTools = currentMember && ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR'].includes(currentMember.role)
+  const statusOptions = type ? STATUS_OPTIONS[type] : undefined
+  const total = data?.total ?? 0
+
+  return (
+    <>
+      <AppNav />
+      <BandLayout
+        bandSlug={slug}
+        bandName={band.name}
+        bandImageUrl={band.imageUrl}
+        pageTitle="Search"
+        canApprove={canApprove}
+        isMember={isMember}
+        canAccessAdminTools={canAccessAdminTools}
+      >
+        {!isMember ? (
+          <Alert variant="info">
+            <Text>Only band members can search this band.</Text>
+          </Alert>
+        ) : !query ? (
+          <Text color="muted">
+            Type in the search box to look through proposals, posts, documents, projects, tasks, comments and messages.
+          </Text>
+        ) : (
+          <Stack spacing="lg">
+            <Heading level={3}>Results for &ldquo;{query}&rdquo;</Heading>
+
+            {/* Type tabs with counts */}
+            <Flex gap="sm" wrap="wrap">
+              <Button
+                variant={type === '' ? 'primary' : 'ghost'}
+                size="sm"
+                onClick={() => { setType(''); setStatus('') }}
+              >
+                All{data ? ` (${Object.values(data.counts).reduce((a, b) => a + b, 0)})` : ''}
+              </Button>
+              {(Object.keys(TYPE_LABELS) as SearchType[]).map((t) => (
+                <Button
+                  key={t}
+                  variant={type === t ? 'primary' : 'ghost'}
+                  size="sm"
+                  onClick={() => { setType(t); setStatus('') }}
+                >
+                  {TYPE_LABELS[t].emoji} {TYPE_LABELS[t].label}{data ? ` (${data.counts[t]})` : ''}
+                </Button>
+              ))}
+            </Flex>
+
+            {/* Filters */}
+            <Flex gap="md" wrap="wrap" align="end">
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">Author</span>
+                <select
+                  value={authorId}
+                  onChange={(e) => setAuthorId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Anyone</option>
+                  {band.members.map((m: any) => (
+                    <option key={m.user.id} value={m.user.id}>{m.user.name}</option>
+                  ))}
+                </select>
+              </label>
+              {statusOptions && (
+                <label className="text-sm text-gray-700">
+                  <span className="block mb-1">Status</span>
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Any status</option>
+                    {statusOptions.map((s) => (
+                      <option key={s} value={s}>{formatStatus(s)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">From</span>
+                <input
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                <span className="block mb-1">To</span>
+                <input
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </label>
+              {(authorId || status || dateFrom || dateTo) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => { setAuthorId(''); setStatus(''); setDateFrom(''); setDateTo('') }}
+                >
+                  Clear filters
+                </Button>
+              )}
+            </Flex>
+
+            {error ? (
+              <Alert variant="danger">
+                <Text>{error.message}</Text>
+              </Alert>
+            ) : isLoading ? (
+              <Loading message="Searching..." />
+            ) : !data || data.results.length === 0 ? (
+              <Text color="muted">No results. Try other words or fewer filters.</Text>
+            ) : (
+              <Stack spacing="md">
+                <Text variant="small" color="muted">
+                  {total} result{total === 1 ? '' : 's'}
+                </Text>
+                {data.results.map((result) => (
+                  <Link
+                    key={`${result.type}-${result.id}`}
+                    href={result.url}
+                    className="block border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
+                  >
+                    <Flex gap="sm" align="center" wrap="wrap">
+                      <Badge variant="neutral">
+                        {TYPE_LABELS[result.type].emoji} {TYPE_LABELS[result.type].label.replace(/s$/, '')}
+                      </Badge>
+                      <Text weight="semibold">{result.title}</Text>
+                      {result.status && <Badge variant="info">{formatStatus(result.status)}</Badge>}
+                    </Flex>
+                    {result.snippet.length > 0 && (
+                      <p className="mt-2 text-sm text-gray-700 break-words">
+                        {result.snippet.map((segment, i) =>
+                          segment.match
+                            ? <mark key={i} className="bg-yellow-100 text-gray-900 rounded px-0.5">{segment.text}</mark>
+                            : <span key={i}>{segment.text}</span>
+                        )}
+                      </p>
+                    )}
+                    <Text variant="small" color="muted" className="mt-2">
+                      {[
+                        result.context,
+                        result.author?.name,
+                        new Date(result.createdAt).toLocaleDateString(),
+                      ].filter(Boolean).join(' · ')}
+                    </Text>
+                  </Link>
+                ))}
+
+                {total > PAGE_SIZE && (
+                  <Flex justify="between" align="center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                      disabled={offset === 0 || isFetching}
+                    >
+                      ← Previous
+                    </Button>
+                    <Text variant="small" color="muted">
+                      {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                    </Text>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                      disabled={offset + PAGE_SIZE >= total || isFetching}
+                    >
+                      Next →
+                    </Button>
+                  </Flex>
+                )}
+              </Stack>
+            )}
+          </Stack>
+        )}
+      </BandLayout>
+    </>
+  )
+}
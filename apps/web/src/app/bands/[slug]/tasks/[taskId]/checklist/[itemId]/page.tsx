@@ -23,6 +23,8 @@ import {
   FileList,
   IntegrityBlockModal,
   IntegrityWarningModal,
+  StepUpModal,
+  useStepUp,
 } from '@/components/ui'
 import { AppNav } from '@/components/AppNav'
 import { ChecklistItemHeaderCompact } from './components/ChecklistItemHeaderCompact'
@@ -101,7 +103,7 @@ export default function ChecklistItemDetailPage() {
 
   // Fetch dismissal stats (for project leads/conductors)
   const { data: dismissalData } = trpc.checklist.getDismissals.useQuery(
-    { itemId, userId: userId! },
+    { itemId },
     { enabled: !!itemId && !!userId }
   )
 
@@ -215,12 +217,15 @@ export default function ChecklistItemDetailPage() {
   })
 
   // Reimbursement mutations
+  const stepUp = useStepUp()
+
   const reimburseMutation = trpc.checklist.reimburse.useMutation({
     onSuccess: () => {
       showToast('Marked as reimbursed!', 'success')
       refetch()
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (stepUp.handleError(error, () => reimburseMutation.mutate(variables))) return
       showToast(error.message, 'error')
     }
   })
@@ -247,7 +252,7 @@ export default function ChecklistItemDetailPage() {
 
   const handleClaim = () => {
     if (!userId) return
-    claimMutation.mutate({ itemId, userId })
+    claimMutation.mutate({ itemId })
   }
 
   const handleDismiss = () => {
@@ -256,7 +261,7 @@ export default function ChecklistItemDetailPage() {
 
   const handleConfirmDismiss = () => {
     if (!userId || !dismissReason.trim()) return
-    dismissMutation.mutate({ itemId, userId, reason: dismissReason.trim() })
+    dismissMutation.mutate({ itemId, reason: dismissReason.trim() })
   }
 
   // Populate deliverable form with existing data
@@ -287,7 +292,6 @@ export default function ChecklistItemDetailPage() {
 
     const editData = {
       itemId,
-      userId,
       description: editDescription,
       notes: editNotes || null,
       assigneeId: editAssigneeId,
@@ -374,7 +378,6 @@ export default function ChecklistItemDetailPage() {
     if (isMarkingComplete && summary.trim()) {
       toggleMutation.mutate({
         itemId,
-        userId,
         deliverable: {
           summary: summary.trim(),
           links: links.length > 0 ? links : undefined,
@@ -382,14 +385,14 @@ export default function ChecklistItemDetailPage() {
         },
       })
     } else {
-      toggleMutation.mutate({ itemId, userId })
+      toggleMutation.mutate({ itemId })
     }
   }
 
   const handleDelete = () => {
     if (!userId) return
     if (!window.confirm('Are you sure you want to delete this checklist item? This action cannot be undone.')) return
-    deleteItemMutation.mutate({ itemId, userId })
+    deleteItemMutation.mutate({ itemId })
   }
 
   const handleAddLink = () => {
@@ -415,7 +418,6 @@ export default function ChecklistItemDetailPage() {
     // Save to backend immediately
     updateDeliverableMutation.mutate({
       checklistItemId: itemId,
-      userId,
       summary: summary.trim() || undefined,
       links: updatedLinks,
       nextSteps: nextSteps.trim() || null,
@@ -432,7 +434,6 @@ export default function ChecklistItemDetailPage() {
     // Save to backend immediately
     updateDeliverableMutation.mutate({
       checklistItemId: itemId,
-      userId,
       summary: summary.trim() || undefined,
       links: updatedLinks,
       nextSteps: nextSteps.trim() || null,
@@ -449,7 +450,6 @@ export default function ChecklistItemDetailPage() {
 
     updateDeliverableMutation.mutate({
       checklistItemId: itemId,
-      userId,
       summary: summary.trim(),
       links: links.length > 0 ? links : undefined,
       nextSteps: nextSteps.trim() || null,
@@ -478,7 +478,6 @@ export default function ChecklistItemDetailPage() {
       if (summary.trim()) {
         await updateDeliverableMutation.mutateAsync({
           checklistItemId: itemId,
-          userId,
           summary: summary.trim(),
           links: links.length > 0 ? links : undefined,
           nextSteps: nextSteps.trim() || null,
@@ -489,7 +488,6 @@ export default function ChecklistItemDetailPage() {
       const expenseAmountCents = expenseAmount ? Math.round(parseFloat(expenseAmount) * 100) : undefined
       submitMutation.mutate({
         itemId,
-        userId,
         expenseAmount: expenseAmountCents,
         expenseNote: expenseNote.trim() || undefined,
       })
@@ -520,7 +518,6 @@ export default function ChecklistItemDetailPage() {
       if (summary.trim()) {
         await updateDeliverableMutation.mutateAsync({
           checklistItemId: itemId,
-          userId,
           summary: summary.trim(),
           links: links.length > 0 ? links : undefined,
           nextSteps: nextSteps.trim() || null,
@@ -528,7 +525,7 @@ export default function ChecklistItemDetailPage() {
       }
 
       // Now retry submission
-      retryMutation.mutate({ itemId, userId })
+      retryMutation.mutate({ itemId })
     } catch (error) {
       // Error already handled by mutation onError
     }
@@ -541,13 +538,12 @@ export default function ChecklistItemDetailPage() {
       mimeType: file.mimeType,
       base64Data: file.base64Data,
       checklistItemId: itemId,
-      userId,
     })
   }
 
   const handleDeleteFile = (fileId: string) => {
     if (!userId) return
-    deleteFileMutation.mutate({ fileId, userId })
+    deleteFileMutation.mutate({ fileId })
   }
 
   if (isLoading) {
@@ -850,7 +846,7 @@ export default function ChecklistItemDetailPage() {
                     onClick={() => {
                       const note = prompt('Add a note (e.g., "Paid via Venmo"):')
                       if (note !== null && userId) {
-                        reimburseMutation.mutate({ itemId, userId, note: note || undefined })
+                        reimburseMutation.mutate({ itemId, note: note || undefined })
                       }
                     }}
                     disabled={reimburseMutation.isPending}
@@ -867,7 +863,7 @@ export default function ChecklistItemDetailPage() {
                   <button
                     onClick={() => {
                       if (userId) {
-                        confirmReimbursementMutation.mutate({ itemId, userId })
+                        confirmReimbursementMutation.mutate({ itemId })
                       }
                     }}
                     disabled={confirmReimbursementMutation.isPending}
@@ -879,7 +875,7 @@ export default function ChecklistItemDetailPage() {
                     onClick={() => {
                       const reason = prompt('Why are you disputing this reimbursement? (min 10 characters)')
                       if (reason && reason.length >= 10 && userId) {
-                        disputeReimbursementMutation.mutate({ itemId, userId, reason })
+                        disputeReimbursementMutation.mutate({ itemId, reason })
                       } else if (reason && reason.length < 10) {
                         showToast('Reason must be at least 10 characters', 'error')
                       }
@@ -1099,6 +1095,8 @@ export default function ChecklistItemDetailPage() {
             </Flex>
           </Stack>
         </Modal>
+
+        <StepUpModal {...stepUp.modalProps} />
       </BandLayout>
     </>
   )
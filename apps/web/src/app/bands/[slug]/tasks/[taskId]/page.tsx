@@ -235,25 +235,24 @@ export default function TaskDetailPage() {
 
   const handleReorderChecklist = (itemId: string, direction: 'up' | 'down') => {
     if (!userId) return
-    reorderChecklistMutation.mutate({ itemId, direction, userId })
+    reorderChecklistMutation.mutate({ itemId, direction })
   }
 
   const handleClaimTask = () => {
     if (!userId) return
-    claimTaskMutation.mutate({ taskId, userId })
+    claimTaskMutation.mutate({ taskId })
   }
 
   const handleDeleteTask = () => {
     if (!userId) return
     if (!window.confirm('Are you sure you want to delete this task? This will also delete all checklist items. This action cannot be undone.')) return
-    deleteTaskMutation.mutate({ taskId, userId })
+    deleteTaskMutation.mutate({ taskId })
   }
 
   const handleStatusChange = (newStatus: TaskStatus) => {
     if (!userId) return
     updateTaskMutation.mutate({
       taskId,
-      userId,
       status: newStatus,
     })
   }
@@ -275,7 +274,6 @@ export default function TaskDetailPage() {
 
     const taskEditData = {
       taskId,
-      userId,
       name: editName,
       description: editDescription || null,
       priority: editPriority,
@@ -361,7 +359,6 @@ export default function TaskDetailPage() {
       taskId,
       description: newItemText,
       requiresDeliverable: newItemRequiresDeliverable,
-      userId,
     }
 
     // Store data for potential later use
@@ -435,17 +432,17 @@ export default function TaskDetailPage() {
 
   const handleToggleItem = (itemId: string) => {
     if (!userId) return
-    toggleItemMutation.mutate({ itemId, userId })
+    toggleItemMutation.mutate({ itemId })
   }
 
   const handleDeleteItem = (itemId: string) => {
     if (!userId) return
-    deleteItemMutation.mutate({ itemId, userId })
+    deleteItemMutation.mutate({ itemId })
   }
 
   const handleGenerateSuggestions = () => {
     if (!userId) return
-    suggestItemsMutation.mutate({ taskId, userId })
+    suggestItemsMutation.mutate({ taskId })
   }
 
   const handleToggleSuggestion = (index: number) => {
@@ -471,7 +468,6 @@ export default function TaskDetailPage() {
     createManyMutation.mutate({
       taskId,
       descriptions,
-      userId,
       requiresDeliverable: aiRequiresDeliverable,
     })
   }
@@ -98,7 +98,6 @@ export default function ToolsPage() {
   const { data: tasksData, isLoading: tasksLoading } = trpc.adminTask.list.useQuery(
     {
       bandId: bandData?.band?.id || '',
-      userId: userId || '',
     },
     { enabled: !!bandData?.band?.id && !!userId }
   )
@@ -106,7 +105,6 @@ export default function ToolsPage() {
   const { data: previewData, isLoading: previewLoading } = trpc.adminTask.preview.useQuery(
     {
       bandId: bandData?.band?.id || '',
-      userId: userId || '',
       taskType: selectedTask?.taskType || '',
       parameters,
     },
@@ -116,7 +114,6 @@ export default function ToolsPage() {
   const { data: historyData, isLoading: historyLoading } = trpc.adminTask.history.useQuery(
     {
       bandId: bandData?.band?.id || '',
-      userId: userId || '',
       page: 1,
       pageSize: 20,
     },
@@ -222,7 +219,6 @@ export default function ToolsPage() {
     setIsExecuting(true)
     executeMutation.mutate({
       bandId: bandData.band.id,
-      userId,
       taskType: selectedTask.taskType,
       parameters,
     })
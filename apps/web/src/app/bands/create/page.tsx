@@ -134,7 +134,6 @@ function CreateBusinessBandContent() {
         fileName: file.name,
         mimeType: file.type,
         base64Data,
-        userId,
         category: 'IMAGE',
       })
       setForm((prev) => ({ ...prev, logoUrl: result.file.url }))
@@ -179,7 +178,6 @@ function CreateBusinessBandContent() {
     setFieldErrors({})
 
     createBandMutation.mutate({
-      userId,
       name: form.name.trim(),
       businessType: form.businessType as 'MEDICAL_SPA',
       description: form.description.trim(),
@@ -38,23 +38,23 @@ export default function MyBandsPage() {
   }, [router])
 
   const { data: myBandsData, isLoading } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   // Fetch counts for sidebar
   const { data: myProposalsData } = trpc.proposal.getMyProposals.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProjectsData } = trpc.project.getMyProjects.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myTasksData } = trpc.task.getMyTasks.useQuery(
-    { userId: userId! },
+    {  },
     { enabled: !!userId }
   )
 
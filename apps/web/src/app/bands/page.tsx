@@ -49,28 +49,28 @@ export default function BrowseBandsPage() {
 
   // Fetch counts for sidebar
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProposalsData } = trpc.proposal.getMyProposals.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProjectsData } = trpc.project.getMyProjects.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myTasksData } = trpc.task.getMyTasks.useQuery(
-    { userId: userId! },
+    {  },
     { enabled: !!userId }
   )
 
   // Fetch recommended bands
   const { data: recommendationsData } = trpc.band.getRecommendedBands.useQuery(
-    { userId: userId!, limit: 6 },
+    { limit: 6 },
     { enabled: !!userId }
   )
 
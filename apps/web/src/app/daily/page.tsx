@@ -33,7 +33,7 @@ export default function DailyPage() {
     data: access,
     isLoading: accessLoading,
     isError: accessError,
-  } = trpc.auth.getAccessStatus.useQuery({ userId: userId! }, { enabled: !!userId })
+  } = trpc.auth.getAccessStatus.useQuery(undefined, { enabled: !!userId })
 
   useEffect(() => {
     if (access && !access.hasAccess) {
@@ -42,7 +42,7 @@ export default function DailyPage() {
   }, [access, router])
 
   const { data, isLoading, isError } = trpc.newspaper.getHomeFeed.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId && access?.hasAccess === true }
   )
 
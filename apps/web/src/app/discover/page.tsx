@@ -53,7 +53,7 @@ export default function DiscoverPage() {
     data: invitationsData,
     isLoading: invitationsLoading,
   } = trpc.band.getMyInvitations.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -62,7 +62,7 @@ export default function DiscoverPage() {
     data: recommendationsData,
     isLoading: recommendationsLoading,
   } = trpc.band.getRecommendedBands.useQuery(
-    { userId: userId!, limit: 10 },
+    { limit: 10 },
     { enabled: !!userId }
   )
 
@@ -80,16 +80,16 @@ export default function DiscoverPage() {
 
   const handleAccept = async (membershipId: string) => {
     if (!userId) return
-    await acceptMutation.mutateAsync({ membershipId, userId })
-    utils.band.getMyInvitations.invalidate({ userId })
-    utils.band.getMyBands.invalidate({ userId })
-    utils.band.getRecommendedBands.invalidate({ userId })
+    await acceptMutation.mutateAsync({ membershipId })
+    utils.band.getMyInvitations.invalidate()
+    utils.band.getMyBands.invalidate()
+    utils.band.getRecommendedBands.invalidate({  })
   }
 
   const handleDecline = async (membershipId: string) => {
     if (!userId) return
-    await declineMutation.mutateAsync({ membershipId, userId })
-    utils.band.getMyInvitations.invalidate({ userId })
+    await declineMutation.mutateAsync({ membershipId })
+    utils.band.getMyInvitations.invalidate()
   }
 
   const isLoading = invitationsLoading || recommendationsLoading || !userId
@@ -66,7 +66,6 @@ function FeedbackPageContent() {
       search: search || undefined,
       sortBy,
       mySubmissions: mySubmissionsOnly,
-      userId: userId!,
       limit: 20,
     },
     {
@@ -127,25 +126,25 @@ function FeedbackPageContent() {
   const handleVote = (feedbackId: string, e: React.MouseEvent) => {
     e.stopPropagation()
     if (!userId) return
-    voteMutation.mutate({ feedbackId, userId })
+    voteMutation.mutate({ feedbackId })
   }
 
   const handleDeleteOwn = (feedbackId: string) => {
     if (!userId) return
     if (confirm('Are you sure you want to delete this feedback?')) {
-      deleteOwnMutation.mutate({ feedbackId, userId })
+      deleteOwnMutation.mutate({ feedbackId })
     }
   }
 
   const handleStatusChange = (feedbackId: string, newStatus: FeedbackStatus) => {
     if (!userEmail) return
-    updateStatusMutation.mutate({ feedbackId, status: newStatus, userEmail })
+    updateStatusMutation.mutate({ feedbackId, status: newStatus })
   }
 
   const handleAdminDelete = (feedbackId: string) => {
     if (!userEmail) return
     if (confirm('Are you sure you want to delete this feedback?')) {
-      adminDeleteMutation.mutate({ feedbackId, userEmail })
+      adminDeleteMutation.mutate({ feedbackId })
     }
   }
 
@@ -41,7 +41,7 @@ export default function InvitationsPage() {
   }, [router])
 
   const { data: invitationsData, isLoading, refetch } = trpc.band.getMyInvitations.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -67,12 +67,12 @@ export default function InvitationsPage() {
 
   const handleAccept = (membershipId: string) => {
     if (!userId) return
-    acceptMutation.mutate({ membershipId, userId })
+    acceptMutation.mutate({ membershipId })
   }
 
   const handleDecline = (membershipId: string) => {
     if (!userId) return
-    declineMutation.mutate({ membershipId, userId })
+    declineMutation.mutate({ membershipId })
   }
 
   if (isLoading) {
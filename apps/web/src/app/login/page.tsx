@@ -2,6 +2,7 @@
 
 import { useState, useEffect, Suspense } from 'react'
 import { trpc } from '@/lib/trpc'
+import { storeTokens } from '@/lib/auth-session'
 import { useRouter, useSearchParams } from 'next/navigation'
 import {
   Button,
@@ -27,6 +28,9 @@ function LoginForm() {
     password: '',
   })
   const [showPassword, setShowPassword] = useState(false)
+  // Set when the password was right but the account also needs a 2FA code
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
 
   // Get returnTo URL from query params (for quick action pages)
   const returnTo = searchParams.get('returnTo')
@@ -39,40 +43,61 @@ function LoginForm() {
     }
   }, [router, returnTo])
 
-  const loginMutation = trpc.auth.login.useMutation({
-    onSuccess: (data) => {
-      localStorage.setItem('accessToken', data.accessToken)
-      localStorage.setItem('refreshToken', data.refreshToken)
+  const completeSignIn = (data: {
+    accessToken: string
+    refreshToken: string
+    user: { name: string; emailVerified: boolean; accessApproved: boolean; isAdmin: boolean }
+    bandsInvited?: { name: string }[]
+  }) => {
+    storeTokens(data)
 
-      if (!data.user.emailVerified) {
-        showToast('Please verify your email before continuing.', 'warning')
-        router.replace('/verify-email')
-        return
-      }
+    if (!data.user.emailVerified) {
+      showToast('Please verify your email before continuing.', 'warning')
+      router.replace('/verify-email')
+      return
+    }
 
-      // Waitlist gate: un-approved (non-admin) users go to the waiting room.
-      const hasAccess = data.user.accessApproved || data.user.isAdmin
-      if (!hasAccess) {
-        router.replace('/waiting-room')
-        return
-      }
+    // Waitlist gate: un-approved (non-admin) users go to the waiting room.
+    const hasAccess = data.user.accessApproved || data.user.isAdmin
+    if (!hasAccess) {
+      router.replace('/waiting-room')
+      return
+    }
 
-      const invitedBands = data.bandsInvited ?? []
-      if (invitedBands.length > 0) {
-        const bandNames = invitedBands.map((b) => b.name).join(', ')
-        showToast(
-          `You've been invited to: ${bandNames}. Review and accept on your Daily.`,
-          'info',
-        )
-      } else {
-        showToast(`Welcome back, ${data.user.name}!`, 'success')
-      }
+    const invitedBands = data.bandsInvited ?? []
+    if (invitedBands.length > 0) {
+      const bandNames = invitedBands.map((b) => b.name).join(', ')
+      showToast(
+        `You've been invited to: ${bandNames}. Review and accept on your Daily.`,
+        'info',
+      )
+    } else {
+      showToast(`Welcome back, ${data.user.name}!`, 'success')
+    }
 
-      if (returnTo && returnTo.startsWith('/')) {
-        router.replace(returnTo)
-      } else {
-        router.replace('/daily')
+    if (returnTo && returnTo.startsWith('/')) {
+      router.replace(returnTo)
+    } else {
+      router.replace('/daily')
+    }
+  }
+
+  const loginMutation = trpc.auth.login.useMutation({
+    onSuccess: (data) => {
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken)
+        return
       }
+      completeSignIn(data)
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const twoFactorMutation = trpc.auth.loginWithTwoFactor.useMutation({
+    onSuccess: (data) => {
+      completeSignIn(data)
     },
     onError: (error) => {
       showToast(error.message, 'error')
@@ -84,6 +109,62 @@ function LoginForm() {
     loginMutation.mutate(formData)
   }
 
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challengeToken) return
+    twoFactorMutation.mutate({ challengeToken, code: twoFactorCode.trim() })
+  }
+
+  const handleStartOver = () => {
+    setChallengeToken(null)
+    setTwoFactorCode('')
+    setFormData({ ...formData, password: '' })
+  }
+
+  if (challengeToken) {
+    return (
+      <Card>
+        <Stack spacing="lg">
+          <Center>
+            <Heading level={1}>Two-Factor Authentication</Heading>
+            <Text variant="muted">Enter the code from your authenticator app</Text>
+          </Center>
+
+          <form onSubmit={handleTwoFactorSubmit}>
+            <Stack spacing="lg">
+              <Input
+                label="Verification Code"
+                required
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+                autoFocus
+                helperText="Lost your phone? Enter one of your recovery codes instead."
+              />
+
+              <Button
+                type="submit"
+                variant="primary"
+                size="md"
+                disabled={twoFactorMutation.isPending || !twoFactorCode.trim()}
+                className="w-full"
+              >
+                {twoFactorMutation.isPending ? 'Verifying...' : 'Verify'}
+              </Button>
+            </Stack>
+          </form>
+
+          <Center>
+            <button type="button" onClick={handleStartOver} className="text-sm text-blue-600 hover:underline">
+              Back to sign in
+            </button>
+          </Center>
+        </Stack>
+      </Card>
+    )
+  }
+
   return (
     <Card>
       <Stack spacing="lg">
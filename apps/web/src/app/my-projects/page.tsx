@@ -36,22 +36,22 @@ export default function MyProjectsPage() {
   }, [router])
 
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProposalsData } = trpc.proposal.getMyProposals.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProjectsData, isLoading } = trpc.project.getMyProjects.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myTasksData } = trpc.task.getMyTasks.useQuery(
-    { userId: userId! },
+    {  },
     { enabled: !!userId }
   )
 
@@ -38,22 +38,22 @@ export default function MyTasksPage() {
   }, [router])
 
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProposalsData } = trpc.proposal.getMyProposals.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProjectsData } = trpc.project.getMyProjects.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myTasksData, isLoading } = trpc.task.getMyTasks.useQuery(
-    { userId: userId!, status: statusFilter as any },
+    { status: statusFilter as any },
     { enabled: !!userId }
   )
 
@@ -40,12 +40,12 @@ export default function NotificationsPage() {
   }, [router])
 
   const { data: notificationsData, isLoading } = trpc.notification.getMyNotifications.useQuery(
-    { userId: userId!, unreadOnly: showUnreadOnly, limit: 50 },
+    { unreadOnly: showUnreadOnly, limit: 50 },
     { enabled: !!userId }
   )
 
   const { data: countData } = trpc.notification.getUnreadCount.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -67,7 +67,6 @@ export default function NotificationsPage() {
     e.stopPropagation()
     markAsReadMutation.mutate({
       notificationId: notification.id,
-      userId: userId!,
     })
   }
 
@@ -76,7 +75,6 @@ export default function NotificationsPage() {
     if (!notification.isRead) {
       markAsReadMutation.mutate({
         notificationId: notification.id,
-        userId: userId!,
       })
     }
 
@@ -98,7 +96,7 @@ export default function NotificationsPage() {
 
   const handleMarkAllAsRead = () => {
     if (userId) {
-      markAllAsReadMutation.mutate({ userId })
+      markAllAsReadMutation.mutate()
     }
   }
 
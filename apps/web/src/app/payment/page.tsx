@@ -59,7 +59,7 @@ export default function PaymentPage() {
       return
     }
 
-    createCheckoutMutation.mutate({ userId })
+    createCheckoutMutation.mutate()
   }
 
   return (
@@ -58,7 +58,7 @@ export default function QuickBandPreviewPage() {
     isLoading,
     error,
   } = trpc.quick.getBandPreviewContext.useQuery(
-    { bandSlug: slug, userId: userId! },
+    { bandSlug: slug },
     { enabled: !!userId && !!slug }
   )
 
@@ -68,8 +68,8 @@ export default function QuickBandPreviewPage() {
   const acceptMutation = trpc.band.acceptInvitation.useMutation({
     onSuccess: () => {
       setActionCompleted('accepted')
-      utils.quick.getBandPreviewContext.invalidate({ bandSlug: slug, userId: userId! })
-      utils.band.getMyInvitations.invalidate({ userId: userId! })
+      utils.quick.getBandPreviewContext.invalidate({ bandSlug: slug })
+      utils.band.getMyInvitations.invalidate()
     },
   })
 
@@ -77,8 +77,8 @@ export default function QuickBandPreviewPage() {
   const declineMutation = trpc.band.declineInvitation.useMutation({
     onSuccess: () => {
       setActionCompleted('declined')
-      utils.quick.getBandPreviewContext.invalidate({ bandSlug: slug, userId: userId! })
-      utils.band.getMyInvitations.invalidate({ userId: userId! })
+      utils.quick.getBandPreviewContext.invalidate({ bandSlug: slug })
+      utils.band.getMyInvitations.invalidate()
     },
   })
 
@@ -86,24 +86,23 @@ export default function QuickBandPreviewPage() {
   const applyMutation = trpc.band.applyToJoin.useMutation({
     onSuccess: () => {
       setActionCompleted('applied')
-      utils.quick.getBandPreviewContext.invalidate({ bandSlug: slug, userId: userId! })
+      utils.quick.getBandPreviewContext.invalidate({ bandSlug: slug })
     },
   })
 
   const handleAccept = () => {
     if (!userId || !context?.membershipId) return
-    acceptMutation.mutate({ membershipId: context.membershipId, userId })
+    acceptMutation.mutate({ membershipId: context.membershipId })
   }
 
   const handleDecline = () => {
     if (!userId || !context?.membershipId) return
-    declineMutation.mutate({ membershipId: context.membershipId, userId })
+    declineMutation.mutate({ membershipId: context.membershipId })
   }
 
   const handleApply = () => {
     if (!userId || !context?.band.id) return
     applyMutation.mutate({
-      userId,
       bandId: context.band.id,
       notes: applicationNotes,
     })
@@ -73,7 +73,7 @@ export default function QuickChecklistPage() {
     error,
     refetch,
   } = trpc.quick.getChecklistItemContext.useQuery(
-    { itemId, userId: userId! },
+    { itemId },
     { enabled: !!userId && !!itemId }
   )
 
@@ -148,13 +148,13 @@ export default function QuickChecklistPage() {
   const handleClaim = () => {
     if (!userId) return
     setIsSubmitting(true)
-    claimMutation.mutate({ itemId, userId })
+    claimMutation.mutate({ itemId })
   }
 
   const handleUnclaim = () => {
     if (!userId) return
     setIsSubmitting(true)
-    unclaimMutation.mutate({ itemId, userId })
+    unclaimMutation.mutate({ itemId })
   }
 
   const handleAddLink = () => {
@@ -203,14 +203,13 @@ export default function QuickChecklistPage() {
       if (summary.trim()) {
         await updateDeliverableMutation.mutateAsync({
           checklistItemId: itemId,
-          userId,
           summary: summary.trim(),
           links: links.length > 0 ? links : undefined,
         })
       }
 
       // Now submit for verification
-      submitMutation.mutate({ itemId, userId })
+      submitMutation.mutate({ itemId })
     } catch (error) {
       // Error already handled by mutation onError
       setIsSubmitting(false)
@@ -242,14 +241,13 @@ export default function QuickChecklistPage() {
       if (summary.trim()) {
         await updateDeliverableMutation.mutateAsync({
           checklistItemId: itemId,
-          userId,
           summary: summary.trim(),
           links: links.length > 0 ? links : undefined,
         })
       }
 
       // Now retry submission
-      retryMutation.mutate({ itemId, userId })
+      retryMutation.mutate({ itemId })
     } catch (error) {
       // Error already handled by mutation onError
       setIsSubmitting(false)
@@ -44,7 +44,7 @@ export default function QuickReadPage() {
     isLoading,
     error,
   } = trpc.quick.getReadContext.useQuery(
-    { postId, userId: userId! },
+    { postId },
     { enabled: !!userId && !!postId }
   )
 
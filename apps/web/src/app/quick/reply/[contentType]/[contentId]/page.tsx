@@ -49,7 +49,6 @@ export default function QuickReplyPage() {
     {
       contentId,
       contentType: contentType as 'message' | 'post_response',
-      userId: userId!,
     },
     { enabled: !!userId && !!contentId && validContentType }
   )
@@ -84,7 +83,6 @@ export default function QuickReplyPage() {
       // Reply to message in channel
       messageReplyMutation.mutate({
         channelId: context.channel.id,
-        userId,
         content: replyText,
         threadId: contentId,
       })
@@ -92,7 +90,6 @@ export default function QuickReplyPage() {
       // Reply to post response
       postResponseMutation.mutate({
         postId: context.post.id,
-        userId,
         content: replyText,
         parentId: contentId,
       })
@@ -65,7 +65,7 @@ export default function QuickTaskPage() {
     error,
     refetch,
   } = trpc.quick.getTaskContext.useQuery(
-    { taskId, userId: userId! },
+    { taskId },
     { enabled: !!userId && !!taskId }
   )
 
@@ -129,13 +129,13 @@ export default function QuickTaskPage() {
   const handleClaim = () => {
     if (!userId) return
     setIsSubmitting(true)
-    claimMutation.mutate({ taskId, userId })
+    claimMutation.mutate({ taskId })
   }
 
   const handleUnclaim = () => {
     if (!userId) return
     setIsSubmitting(true)
-    unclaimMutation.mutate({ taskId, userId })
+    unclaimMutation.mutate({ taskId })
   }
 
   const handleSubmitForVerification = async () => {
@@ -164,14 +164,13 @@ export default function QuickTaskPage() {
       if (deliverableSummary.trim()) {
         await updateDeliverableMutation.mutateAsync({
           taskId,
-          userId,
           summary: deliverableSummary.trim(),
           links: deliverableLinks.length > 0 ? deliverableLinks : undefined,
         })
       }
 
       // Then submit for verification
-      submitVerificationMutation.mutate({ taskId, userId })
+      submitVerificationMutation.mutate({ taskId })
     } catch (error) {
       setIsSubmitting(false)
     }
@@ -196,7 +195,7 @@ export default function QuickTaskPage() {
   const handleRetry = () => {
     if (!userId) return
     setIsSubmitting(true)
-    retryMutation.mutate({ taskId, userId })
+    retryMutation.mutate({ taskId })
   }
 
   const formatDueDate = (date: string | Date | null) => {
@@ -12,6 +12,8 @@ import {
   QuickInfo,
   QuickBadge,
 } from '@/components/quick'
+import { MultiOptionBallot, MultiOptionResults } from '@/components/ui'
+import type { MultiOptionBallotValue } from '@/components/ui/MultiOptionBallot'
 
 // Desktop breakpoint (matches Tailwind's md:)
 const DESKTOP_BREAKPOINT = 768
@@ -25,6 +27,7 @@ export default function QuickVotePage() {
 
   const [userId, setUserId] = useState<string | null>(null)
   const [selectedVote, setSelectedVote] = useState<'YES' | 'NO' | 'ABSTAIN' | null>(null)
+  const [ballot, setBallot] = useState<MultiOptionBallotValue>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [voteSubmitted, setVoteSubmitted] = useState(false)
 
@@ -62,7 +65,7 @@ export default function QuickVotePage() {
     isLoading,
     error,
   } = trpc.quick.getVoteContext.useQuery(
-    { proposalId, userId: userId! },
+    { proposalId },
     { enabled: !!userId && !!proposalId }
   )
 
@@ -84,11 +87,19 @@ export default function QuickVotePage() {
     setIsSubmitting(true)
     voteMutation.mutate({
       proposalId,
-      userId,
       vote,
     })
   }
 
+  const handleSubmitBallot = () => {
+    if (!userId || !context?.permissions.canVote) return
+    setIsSubmitting(true)
+    voteMutation.mutate({
+      proposalId,
+      ballot,
+    })
+  }
+
   const formatTimeRemaining = (endDate: string | Date) => {
     const now = new Date()
     const end = new Date(endDate)
@@ -135,7 +146,7 @@ export default function QuickVotePage() {
     )
   }
 
-  const { proposal, band, userVote, voteSummary, permissions } = context
+  const { proposal, band, userVote, voteSummary, permissions, tally } = context
 
   // Show success state after voting
   if (voteSubmitted) {
@@ -147,12 +158,13 @@ export default function QuickVotePage() {
         <QuickCard>
           <div className="text-center py-8">
             <div className="text-5xl mb-4">
+              {tally && '🗳️'}
               {selectedVote === 'YES' && '👍'}
               {selectedVote === 'NO' && '👎'}
               {selectedVote === 'ABSTAIN' && '🤷'}
             </div>
             <h2 className="text-xl font-semibold text-gray-900 mb-2">
-              You voted {selectedVote}
+              {tally ? 'Ballot submitted' : `You voted ${selectedVote}`}
             </h2>
             <p className="text-gray-600 text-sm">
               Your vote on "{proposal.title}" has been recorded.
@@ -179,12 +191,16 @@ export default function QuickVotePage() {
         <QuickCard>
           <div className="text-center py-8">
             <div className="text-5xl mb-4">
-              {userVote.vote === 'YES' && '👍'}
-              {userVote.vote === 'NO' && '👎'}
-              {userVote.vote === 'ABSTAIN' && '🤷'}
+              {tally ? '🗳️' : (
+                <>
+                  {userVote.vote === 'YES' && '👍'}
+                  {userVote.vote === 'NO' && '👎'}
+                  {userVote.vote === 'ABSTAIN' && '🤷'}
+                </>
+              )}
             </div>
             <h2 className="text-xl font-semibold text-gray-900 mb-2">
-              You voted {userVote.vote}
+              {tally ? 'You submitted a ballot' : `You voted ${userVote.vote}`}
             </h2>
             <p className="text-gray-600 text-sm mb-2">
               on "{proposal.title}"
@@ -195,6 +211,13 @@ export default function QuickVotePage() {
           </div>
         </QuickCard>
 
+        {tally && (
+          <QuickCard className="mt-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Current Results</h3>
+            <MultiOptionResults options={proposal.options} tally={tally} isFinal={false} />
+          </QuickCard>
+        )}
+
         <div className="mt-8 text-center">
           <p className="text-gray-500 text-sm">
             You can close this page now.
@@ -228,6 +251,17 @@ export default function QuickVotePage() {
           </div>
         </QuickCard>
 
+        {tally && (
+          <QuickCard className="mt-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Results</h3>
+            <MultiOptionResults
+              options={proposal.options}
+              tally={tally}
+              isFinal={proposal.status !== 'OPEN'}
+            />
+          </QuickCard>
+        )}
+
         <div className="mt-8 text-center">
           <p className="text-gray-500 text-sm">
             You can close this page now.
@@ -309,20 +343,24 @@ export default function QuickVotePage() {
       {/* Current results */}
       <QuickCard className="mt-4">
         <h3 className="text-sm font-medium text-gray-700 mb-3">Current Results</h3>
-        <div className="flex justify-between items-center">
-          <div className="text-center flex-1">
-            <div className="text-2xl font-bold text-green-600">{voteSummary.yes}</div>
-            <div className="text-xs text-gray-500">Yes</div>
-          </div>
-          <div className="text-center flex-1">
-            <div className="text-2xl font-bold text-red-600">{voteSummary.no}</div>
-            <div className="text-xs text-gray-500">No</div>
-          </div>
-          <div className="text-center flex-1">
-            <div className="text-2xl font-bold text-gray-600">{voteSummary.abstain}</div>
-            <div className="text-xs text-gray-500">Abstain</div>
+        {tally ? (
+          <MultiOptionResults options={proposal.options} tally={tally} isFinal={false} />
+        ) : (
+          <div className="flex justify-between items-center">
+            <div className="text-center flex-1">
+              <div className="text-2xl font-bold text-green-600">{voteSummary.yes}</div>
+              <div className="text-xs text-gray-500">Yes</div>
+            </div>
+            <div className="text-center flex-1">
+              <div className="text-2xl font-bold text-red-600">{voteSummary.no}</div>
+              <div className="text-xs text-gray-500">No</div>
+            </div>
+            <div className="text-center flex-1">
+              <div className="text-2xl font-bold text-gray-600">{voteSummary.abstain}</div>
+              <div className="text-xs text-gray-500">Abstain</div>
+            </div>
           </div>
-        </div>
+        )}
         <div className="mt-3 pt-3 border-t border-gray-100">
           <div className="flex justify-between text-xs text-gray-500">
             <span>{voteSummary.total} of {voteSummary.eligibleVoters} voted</span>
@@ -333,35 +371,57 @@ export default function QuickVotePage() {
         </div>
       </QuickCard>
 
-      {/* Vote buttons */}
-      <div className="mt-6 space-y-3">
-        <QuickButton
-          variant="success"
-          fullWidth
-          onClick={() => handleVote('YES')}
-          disabled={isSubmitting || !permissions.canVote}
-        >
-          {isSubmitting && selectedVote === 'YES' ? 'Submitting...' : '👍 Vote Yes'}
-        </QuickButton>
-
-        <QuickButton
-          variant="danger"
-          fullWidth
-          onClick={() => handleVote('NO')}
-          disabled={isSubmitting || !permissions.canVote}
-        >
-          {isSubmitting && selectedVote === 'NO' ? 'Submitting...' : '👎 Vote No'}
-        </QuickButton>
-
-        <QuickButton
-          variant="secondary"
-          fullWidth
-          onClick={() => handleVote('ABSTAIN')}
-          disabled={isSubmitting || !permissions.canVote}
-        >
-          {isSubmitting && selectedVote === 'ABSTAIN' ? 'Submitting...' : '🤷 Abstain'}
-        </QuickButton>
-      </div>
+      {/* Ballot for multi-option proposals */}
+      {tally && proposal.votingMethod ? (
+        <div className="mt-6 space-y-3">
+          <MultiOptionBallot
+            method={proposal.votingMethod}
+            options={proposal.options}
+            value={ballot}
+            onChange={setBallot}
+            disabled={isSubmitting || !permissions.canVote}
+            large
+          />
+          <QuickButton
+            variant="primary"
+            fullWidth
+            onClick={handleSubmitBallot}
+            disabled={isSubmitting || !permissions.canVote}
+          >
+            {isSubmitting ? 'Submitting...' : '🗳️ Submit Ballot'}
+          </QuickButton>
+        </div>
+      ) : (
+        /* Vote buttons */
+        <div className="mt-6 space-y-3">
+          <QuickButton
+            variant="success"
+            fullWidth
+            onClick={() => handleVote('YES')}
+            disabled={isSubmitting || !permissions.canVote}
+          >
+            {isSubmitting && selectedVote === 'YES' ? 'Submitting...' : '👍 Vote Yes'}
+          </QuickButton>
+
+          <QuickButton
+            variant="danger"
+            fullWidth
+            onClick={() => handleVote('NO')}
+            disabled={isSubmitting || !permissions.canVote}
+          >
+            {isSubmitting && selectedVote === 'NO' ? 'Submitting...' : '👎 Vote No'}
+          </QuickButton>
+
+          <QuickButton
+            variant="secondary"
+            fullWidth
+            onClick={() => handleVote('ABSTAIN')}
+            disabled={isSubmitting || !permissions.canVote}
+          >
+            {isSubmitting && selectedVote === 'ABSTAIN' ? 'Submitting...' : '🤷 Abstain'}
+          </QuickButton>
+        </div>
+      )}
     </QuickLayout>
   )
 }
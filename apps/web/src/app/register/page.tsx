@@ -3,6 +3,7 @@
 import { useState, useEffect, Suspense } from 'react'
 import Link from 'next/link'
 import { trpc } from '@/lib/trpc'
+import { storeTokens } from '@/lib/auth-session'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useToast } from '@/components/ui'
 import { EditorialSurface } from '@/components/editorial/EditorialSurface'
@@ -73,8 +74,7 @@ function RegisterContent() {
 
   const registerMutation = trpc.auth.register.useMutation({
     onSuccess: (data) => {
-      localStorage.setItem('accessToken', data.accessToken)
-      localStorage.setItem('refreshToken', data.refreshToken)
+      storeTokens(data)
       localStorage.setItem('userEmail', formData.email)
       try {
         localStorage.removeItem(PENDING_INVITE_TOKEN_KEY)
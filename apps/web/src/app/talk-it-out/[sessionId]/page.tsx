@@ -32,12 +32,34 @@ export default function TalkItOutSessionPage() {
     }
   }, [router, sessionId])
 
+  const utils = trpc.useUtils()
+  const [facilitatorThinking, setFacilitatorThinking] = useState(false)
+
+  // Push updates for messages, status and the background brief. Polling
+  // only kicks in while the stream is disconnected.
+  const events = trpc.talkItOut.onSessionEvents.useSubscription(
+    { sessionId },
+    {
+      enabled: !!userId,
+      onStarted: () => {
+        utils.talkItOut.getSession.invalidate({ sessionId })
+      },
+      onData: (event) => {
+        setFacilitatorThinking(event.type === 'facilitator.thinking')
+        if (event.type !== 'facilitator.thinking') {
+          utils.talkItOut.getSession.invalidate({ sessionId })
+        }
+      },
+    }
+  )
+  const isLive = events.status === 'pending'
+
   const { data: session, isLoading, refetch } = trpc.talkItOut.getSession.useQuery(
-    { sessionId, userId: userId! },
+    { sessionId },
     {
       enabled: !!userId,
       refetchInterval: (q) =>
-        q.state.data?.topicBriefStatus === 'PENDING' ? 4000 : false,
+        !isLive && q.state.data?.topicBriefStatus === 'PENDING' ? 4000 : false,
     }
   )
 
@@ -149,7 +171,7 @@ export default function TalkItOutSessionPage() {
               <button
                 type="button"
                 className="np-profile-btn np-profile-btn-primary"
-                onClick={() => joinMutation.mutate({ sessionId, userId })}
+                onClick={() => joinMutation.mutate({ sessionId })}
                 disabled={joinMutation.isPending}
               >
                 Join session
@@ -160,7 +182,7 @@ export default function TalkItOutSessionPage() {
               <button
                 type="button"
                 className="np-profile-btn np-profile-btn-primary"
-                onClick={() => startMutation.mutate({ sessionId, userId })}
+                onClick={() => startMutation.mutate({ sessionId })}
                 disabled={startMutation.isPending || joinedCount < 2}
               >
                 Start session
@@ -171,7 +193,7 @@ export default function TalkItOutSessionPage() {
               <button
                 type="button"
                 className="np-profile-btn"
-                onClick={() => closeMutation.mutate({ sessionId, userId })}
+                onClick={() => closeMutation.mutate({ sessionId })}
                 disabled={closeMutation.isPending}
               >
                 Close session
@@ -186,7 +208,7 @@ export default function TalkItOutSessionPage() {
             summary={session.topicBriefSummary}
             topicBriefJson={session.topicBriefJson}
             showRetry={isCreator && session.status !== 'CLOSED'}
-            onRetry={() => refreshBriefMutation.mutate({ sessionId, userId })}
+            onRetry={() => refreshBriefMutation.mutate({ sessionId })}
             retryPending={refreshBriefMutation.isPending}
           />
 
@@ -205,6 +227,8 @@ export default function TalkItOutSessionPage() {
               userId={userId}
               status={session.status}
               myParticipantStatus={me?.status ?? 'INVITED'}
+              isLive={isLive}
+              facilitatorThinking={facilitatorThinking}
             />
           ) : null}
 
@@ -224,7 +248,6 @@ export default function TalkItOutSessionPage() {
                   onClick={() =>
                     updateSummaryMutation.mutate({
                       sessionId,
-                      userId,
                       summaryDraft: summaryEdit,
                     })
                   }
@@ -235,7 +258,7 @@ export default function TalkItOutSessionPage() {
                 <button
                   type="button"
                   className="np-profile-btn np-profile-btn-primary"
-                  onClick={() => finalizeSummaryMutation.mutate({ sessionId, userId })}
+                  onClick={() => finalizeSummaryMutation.mutate({ sessionId })}
                   disabled={finalizeSummaryMutation.isPending}
                 >
                   Finalize summary
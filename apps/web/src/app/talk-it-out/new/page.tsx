@@ -41,13 +41,12 @@ export default function TalkItOutNewPage() {
   }, [router])
 
   const { data: bandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: searchResults } = trpc.talkItOut.searchInviteUsers.useQuery(
     {
-      userId: userId!,
       query: searchQuery,
       bandId: bandId || null,
     },
@@ -69,7 +68,6 @@ export default function TalkItOutNewPage() {
     const timer = setTimeout(() => {
       previewMutation
         .mutateAsync({
-          userId,
           topic: topic.trim(),
           goal,
           bandId: bandId || null,
@@ -115,7 +113,6 @@ export default function TalkItOutNewPage() {
     e.preventDefault()
     if (!userId) return
     createMutation.mutate({
-      userId,
       topic,
       goal,
       maxParticipants,
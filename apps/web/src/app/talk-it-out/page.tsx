@@ -27,7 +27,7 @@ export default function TalkItOutHubPage() {
   }, [router])
 
   const { data: sessions, isLoading } = trpc.talkItOut.listMySessions.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
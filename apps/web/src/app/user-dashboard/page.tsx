@@ -39,28 +39,28 @@ export default function OverviewDashboard() {
 
   // Fetch all data
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   // Fetch user's proposals, projects, and tasks
   const { data: myProposalsData } = trpc.proposal.getMyProposals.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myProjectsData } = trpc.project.getMyProjects.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: myTasksData } = trpc.task.getMyTasks.useQuery(
-    { userId: userId! },
+    {  },
     { enabled: !!userId }
   )
 
   const { data: myProjectTasksData } = trpc.task.getMyProjectTasks.useQuery(
-    { userId: userId! },
+    {  },
     { enabled: !!userId }
   )
 
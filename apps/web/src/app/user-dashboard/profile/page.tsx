@@ -67,7 +67,7 @@ function ProfilePageContent() {
   }, [])
 
   const { data: profileData, isLoading } = trpc.profile.get.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -87,7 +87,7 @@ function ProfilePageContent() {
       showToast('Profile saved — your summary is updated.', 'success')
       setIsEditing(false)
       setPendingUpload(null)
-      if (userId) await utils.profile.get.invalidate({ userId })
+      if (userId) await utils.profile.get.invalidate()
     },
     onError: (error) => showToast(error.message, 'error'),
   })
@@ -221,7 +221,6 @@ function ProfilePageContent() {
     }
 
     updateMutation.mutate({
-      userId,
       locationId: formData.locationId,
       locationCity: formData.locationCity,
       locationState: formData.locationState,
@@ -256,7 +255,6 @@ function ProfilePageContent() {
   const handleParse = () => {
     if (!userId) return
     parseMutation.mutate({
-      userId,
       resumeText: formData.resumeText || undefined,
       ...(pendingUpload ?? {}),
     })
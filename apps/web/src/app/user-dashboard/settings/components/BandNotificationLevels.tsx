@@ -0,0 +1,81 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Flex,
+  Stack,
+  Card,
+  Select,
+  useToast,
+} from '@/components/ui'
+
+type BandNotificationLevel = 'ALL' | 'IN_APP_ONLY' | 'MUTED'
+
+const LEVEL_LABELS: Record<BandNotificationLevel, string> = {
+  ALL: 'Everything',
+  IN_APP_ONLY: 'In-app only',
+  MUTED: 'Muted',
+}
+
+/**
+ * Per-band volume: turn a noisy band down to in-app only, or mute it
+ */
+export function BandNotificationLevels() {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const { data, isLoading } = trpc.notification.getBandSettings.useQuery()
+
+  const setLevelMutation = trpc.notification.setBandLevel.useMutation({
+    onSuccess: () => {
+      utils.notification.getBandSettings.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const bands = data?.bands ?? []
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Text weight="semibold">Bands</Text>
+        <Text variant="small" color="muted">
+          Muted bands only reach you for urgent notifications. In-app only keeps them out of your email,
+          push and SMS.
+        </Text>
+
+        {isLoading ? (
+          <Text variant="small" color="muted">Loading bands...</Text>
+        ) : bands.length === 0 ? (
+          <Text variant="small" color="muted">You&apos;re not in any bands yet.</Text>
+        ) : (
+          <Stack spacing="sm">
+            {bands.map(band => (
+              <Flex key={band.id} justify="between" align="center" gap="sm">
+                <Text variant="small">{band.name}</Text>
+                <div className="w-40">
+                  <Select
+                    aria-label={`Notifications from ${band.name}`}
+                    value={band.level}
+                    onChange={(e) => setLevelMutation.mutate({
+                      bandId: band.id,
+                      level: e.target.value as BandNotificationLevel,
+                    })}
+                    disabled={setLevelMutation.isPending}
+                  >
+                    {(Object.keys(LEVEL_LABELS) as BandNotificationLevel[]).map(level => (
+                      <option key={level} value={level}>{LEVEL_LABELS[level]}</option>
+                    ))}
+                  </Select>
+                </div>
+              </Flex>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+    </Card>
+  )
+}
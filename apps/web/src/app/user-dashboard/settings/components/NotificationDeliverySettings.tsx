@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { trpc } from '@/lib/trpc'
+import { TEMPLATE_LOCALES, TemplateLocale } from '@band-it/shared'
+import {
+  isPushSupported,
+  getPushSubscription,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '@/lib/push-notifications'
+import {
+  Text,
+  Button,
+  Flex,
+  Stack,
+  Card,
+  Badge,
+  Input,
+  Select,
+  useToast,
+} from '@/components/ui'
+
+function minutesToTime(minutes: number | null) {
+  if (minutes === null) return ''
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0')
+  return `${hours}:${(minutes % 60).toString().padStart(2, '0')}`
+}
+
+function timeToMinutes(time: string) {
+  if (!time) return null
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Push on this browser, quiet hours, the SMS number and notification language
+ */
+export function NotificationDeliverySettings() {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const [timezone, setTimezone] = useState('')
+  const [quietStart, setQuietStart] = useState('')
+  const [quietEnd, setQuietEnd] = useState('')
+  const [phone, setPhone] = useState('')
+  const [locale, setLocale] = useState<TemplateLocale | ''>('')
+  const [pushEnabledHere, setPushEnabledHere] = useState(false)
+  const [pushBusy, setPushBusy] = useState(false)
+
+  const { data } = trpc.notification.getPreferences.useQuery()
+  const { data: pushConfig } = trpc.notification.getPushConfig.useQuery()
+
+  useEffect(() => {
+    if (data) {
+      setTimezone(data.delivery.timezone ?? '')
+      setQuietStart(minutesToTime(data.delivery.quietHoursStart))
+      setQuietEnd(minutesToTime(data.delivery.quietHoursEnd))
+      setPhone(data.delivery.smsPhoneNumber ?? '')
+      setLocale((data.delivery.locale as TemplateLocale | null) ?? '')
+    }
+  }, [data])
+
+  useEffect(() => {
+    getPushSubscription()
+      .then(subscription => setPushEnabledHere(!!subscription))
+      .catch(() => setPushEnabledHere(false))
+  }, [])
+
+  const updateMutation = trpc.notification.updateDeliverySettings.useMutation({
+    onSuccess: () => {
+      showToast('Delivery settings saved', 'success')
+      utils.notification.getPreferences.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const registerMutation = trpc.notification.registerPushSubscription.useMutation()
+  const unregisterMutation = trpc.notification.unregisterPushSubscription.useMutation()
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      timezone: timezone.trim() || null,
+      quietHoursStart: timeToMinutes(quietStart),
+      quietHoursEnd: timeToMinutes(quietEnd),
+      smsPhoneNumber: phone.replace(/[\s()-]/g, '') || null,
+      locale: locale || null,
+    })
+  }
+
+  const handleEnablePush = async () => {
+    if (!pushConfig?.publicKey) return
+    setPushBusy(true)
+    try {
+      const subscription = await subscribeToPush(pushConfig.publicKey)
+      if (!subscription) {
+        showToast('Notifications are blocked for this site in your browser settings', 'error')
+        return
+      }
+      await registerMutation.mutateAsync(subscription)
+      setPushEnabledHere(true)
+      utils.notification.getPreferences.invalidate()
+      showToast('Push notifications turned on for this browser', 'success')
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not turn on push notifications', 'error')
+    } finally {
+      setPushBusy(false)
+    }
+  }
+
+  const handleDisablePush = async () => {
+    setPushBusy(true)
+    try {
+      const endpoint = await unsubscribeFromPush()
+      if (endpoint) {
+        await unregisterMutation.mutateAsync({ endpoint })
+      }
+      setPushEnabledHere(false)
+      utils.notification.getPreferences.invalidate()
+      showToast('Push notifications turned off for this browser', 'success')
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not turn off push notifications', 'error')
+    } finally {
+      setPushBusy(false)
+    }
+  }
+
+  const deviceTimezone = typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : ''
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Text weight="semibold">Delivery</Text>
+
+        <Stack spacing="sm">
+          <Flex justify="between" align="center">
+            <Text variant="small" weight="semibold">Push on this browser</Text>
+            <Badge variant={pushEnabledHere ? 'success' : 'neutral'}>
+              {pushEnabledHere ? 'On' : 'Off'}
+            </Badge>
+          </Flex>
+          {!isPushSupported() ? (
+            <Text variant="small" color="muted">This browser doesn&apos;t support push notifications.</Text>
+          ) : !pushConfig?.publicKey ? (
+            <Text variant="small" color="muted">Push notifications aren&apos;t available on this server yet.</Text>
+          ) : (
+            <div>
+              {pushEnabledHere ? (
+                <Button variant="secondary" size="sm" onClick={handleDisablePush} disabled={pushBusy}>
+                  Turn Off Here
+                </Button>
+              ) : (
+                <Button variant="primary" size="sm" onClick={handleEnablePush} disabled={pushBusy}>
+                  Turn On Here
+                </Button>
+              )}
+            </div>
+          )}
+          {data && data.pushSubscriptionCount > 0 && (
+            <Text variant="small" color="muted">
+              Push is on for {data.pushSubscriptionCount} browser{data.pushSubscriptionCount !== 1 ? 's' : ''} in total.
+            </Text>
+          )}
+        </Stack>
+
+        <Stack spacing="sm">
+          <Text variant="small" weight="semibold">Quiet hours</Text>
+          <Text variant="small" color="muted">
+            Push and SMS notifications aren&apos;t sent during these hours. Leave both blank to turn quiet hours off.
+          </Text>
+          <Flex gap="sm" align="end">
+            <Input
+              type="time"
+              label="From"
+              value={quietStart}
+              onChange={(e) => setQuietStart(e.target.value)}
+            />
+            <Input
+              type="time"
+              label="Until"
+              value={quietEnd}
+              onChange={(e) => setQuietEnd(e.target.value)}
+            />
+          </Flex>
+          <Input
+            label="Timezone"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder="America/New_York"
+            helperText="Quiet hours follow this timezone. Defaults to US Eastern."
+          />
+          {deviceTimezone && deviceTimezone !== timezone && (
+            <div>
+              <Button variant="ghost" size="sm" onClick={() => setTimezone(deviceTimezone)}>
+                Use this device&apos;s timezone ({deviceTimezone})
+              </Button>
+            </div>
+          )}
+        </Stack>
+
+        <Select
+          label="Language"
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as TemplateLocale | '')}
+          helperText="Notifications and emails are written in this language where a translation exists"
+        >
+          <option value="">English (default)</option>
+          {(Object.keys(TEMPLATE_LOCALES) as TemplateLocale[])
+            .filter(code => code !== 'en')
+            .map(code => (
+              <option key={code} value={code}>{TEMPLATE_LOCALES[code]}</option>
+            ))}
+        </Select>
+
+        <Input
+          label="Phone number for SMS"
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="+15551234567"
+          helperText="International format, starting with +"
+        />
+
+        <div>
+          <Button variant="primary" size="md" onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? 'Saving...' : 'Save Delivery Settings'}
+          </Button>
+        </div>
+      </Stack>
+    </Card>
+  )
+}
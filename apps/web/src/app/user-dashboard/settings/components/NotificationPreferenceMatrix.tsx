@@ -0,0 +1,203 @@
+'use client'
+
+import { Fragment, useState, useEffect, useRef } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Button,
+  Flex,
+  Stack,
+  Card,
+  useToast,
+} from '@/components/ui'
+
+function ChannelCheckbox({ checked, indeterminate, disabled, label, onChange }: {
+  checked: boolean
+  indeterminate?: boolean
+  disabled?: boolean
+  label: string
+  onChange: (checked: boolean) => void
+}) {
+  const ref = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = !!indeterminate
+  }, [indeterminate])
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      aria-label={label}
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-4 h-4 rounded border-gray-300 text-blue-600 disabled:opacity-40"
+    />
+  )
+}
+
+/**
+ * Which channels each notification type goes to. Types are grouped; a
+ * group's checkbox sets every type in it, and groups expand for finer control.
+ */
+export function NotificationPreferenceMatrix() {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const { data, isLoading } = trpc.notification.getPreferences.useQuery()
+
+  const updateMutation = trpc.notification.updatePreferences.useMutation({
+    onSuccess: () => {
+      utils.notification.getPreferences.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const resetMutation = trpc.notification.resetPreferences.useMutation({
+    onSuccess: () => {
+      showToast('Notification settings restored to defaults', 'success')
+      utils.notification.getPreferences.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const toggleExpanded = (groupId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(groupId)) next.delete(groupId)
+      else next.add(groupId)
+      return next
+    })
+  }
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <Text variant="small" color="muted">Loading notification settings...</Text>
+      </Card>
+    )
+  }
+
+  const hasSmsNumber = !!data.delivery.smsPhoneNumber
+  const isChannelDisabled = (channel: typeof data.channels[number]) =>
+    !channel.available || (channel.id === 'sms' && !hasSmsNumber) || updateMutation.isPending
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Flex justify="between" align="center">
+          <Text weight="semibold">What You&apos;re Notified About</Text>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending}
+          >
+            Restore Defaults
+          </Button>
+        </Flex>
+        <Text variant="small" color="muted">
+          Choose where each kind of notification reaches you. Push and SMS wait until your quiet hours end,
+          except for urgent notifications.
+        </Text>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="text-left font-medium text-gray-700 py-2 pr-4">Notification</th>
+                {data.channels.map(channel => (
+                  <th key={channel.id} className="font-medium text-gray-700 py-2 px-2 w-16 text-center">
+                    <span title={!channel.available ? 'Not available yet' : undefined}>
+                      {channel.label}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {data.groups.map(group => {
+                const isExpanded = expanded.has(group.id)
+                return (
+                  <Fragment key={group.id}>
+                    <tr className="border-b border-gray-100">
+                      <td className="py-2 pr-4">
+                        <button
+                          type="button"
+                          onClick={() => toggleExpanded(group.id)}
+                          className="text-left"
+                          aria-expanded={isExpanded}
+                        >
+                          <span className="font-medium text-gray-900">
+                            {isExpanded ? '▾' : '▸'} {group.label}
+                          </span>
+                          <span className="block text-xs text-gray-500">{group.description}</span>
+                        </button>
+                      </td>
+                      {data.channels.map(channel => {
+                        const enabledCount = group.types.filter(type => type.channels[channel.id].enabled).length
+                        const allEnabled = enabledCount === group.types.length
+                        return (
+                          <td key={channel.id} className="py-2 px-2 text-center">
+                            <ChannelCheckbox
+                              label={`${group.label}: ${channel.label}`}
+                              checked={allEnabled}
+                              indeterminate={enabledCount > 0 && !allEnabled}
+                              disabled={isChannelDisabled(channel)}
+                              onChange={(checked) => updateMutation.mutate({
+                                updates: group.types.map(type => ({
+                                  type: type.type,
+                                  channel: channel.id,
+                                  enabled: checked,
+                                })),
+                              })}
+                            />
+                          </td>
+                        )
+                      })}
+                    </tr>
+                    {isExpanded && group.types.map(type => (
+                      <tr key={type.type} className="border-b border-gray-50 bg-gray-50">
+                        <td className="py-1.5 pr-4 pl-6 text-gray-700">{type.label}</td>
+                        {data.channels.map(channel => (
+                          <td key={channel.id} className="py-1.5 px-2 text-center">
+                            <ChannelCheckbox
+                              label={`${type.label}: ${channel.label}`}
+                              checked={type.channels[channel.id].enabled}
+                              disabled={isChannelDisabled(channel)}
+                              onChange={(checked) => updateMutation.mutate({
+                                updates: [{ type: type.type, channel: channel.id, enabled: checked }],
+                              })}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {data.channels.some(channel => !channel.available) && (
+          <Text variant="small" color="muted">
+            {data.channels.filter(channel => !channel.available).map(channel => channel.label).join(' and ')} notifications
+            aren&apos;t available on this server yet.
+          </Text>
+        )}
+        {!hasSmsNumber && data.channels.some(channel => channel.id === 'sms' && channel.available) && (
+          <Text variant="small" color="muted">
+            Add a phone number under Delivery to turn on SMS.
+          </Text>
+        )}
+      </Stack>
+    </Card>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Button,
+  Flex,
+  Stack,
+  Card,
+  Badge,
+  useToast,
+} from '@/components/ui'
+
+/**
+ * Devices the user is signed in on, with sign-out per device. A signed-out
+ * device loses access within a few minutes, when its access token expires.
+ */
+export function SignedInDevices() {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const { data, isLoading } = trpc.auth.listSessions.useQuery()
+
+  const revokeMutation = trpc.auth.revokeSession.useMutation({
+    onSuccess: () => {
+      showToast('Device signed out', 'success')
+      utils.auth.listSessions.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const revokeOthersMutation = trpc.auth.revokeOtherSessions.useMutation({
+    onSuccess: (result) => {
+      showToast(`Signed out ${result.count} other device${result.count !== 1 ? 's' : ''}`, 'success')
+      utils.auth.listSessions.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const sessions = data?.sessions ?? []
+  const hasOtherSessions = sessions.some(session => !session.isCurrent)
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Text weight="semibold">Signed-in Devices</Text>
+        <Text variant="small" color="muted">
+          If you don&apos;t recognise a device, sign it out and change your password.
+        </Text>
+
+        {isLoading ? (
+          <Text variant="small" color="muted">Loading devices...</Text>
+        ) : sessions.length === 0 ? (
+          <Text variant="small" color="muted">No active sessions.</Text>
+        ) : (
+          <Stack spacing="sm">
+            {sessions.map((session) => (
+              <div key={session.id} className="border border-gray-200 rounded p-3">
+                <Flex justify="between" align="center" gap="sm">
+                  <div className="min-w-0">
+                    <Flex gap="sm" align="center">
+                      <Text variant="small" weight="semibold">{session.deviceName || 'Unknown device'}</Text>
+                      {session.isCurrent && <Badge variant="success">This device</Badge>}
+                    </Flex>
+                    <Text variant="small" color="muted">
+                      {session.ipAddress ? `${session.ipAddress} • ` : ''}
+                      Last active {new Date(session.lastSeenAt).toLocaleString()}
+                    </Text>
+                    <Text variant="small" color="muted">
+                      Signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </Text>
+                  </div>
+                  {!session.isCurrent && (
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate({ sessionId: session.id })}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Sign Out
+                    </Button>
+                  )}
+                </Flex>
+              </div>
+            ))}
+          </Stack>
+        )}
+
+        {hasOtherSessions && (
+          <div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+            >
+              {revokeOthersMutation.isPending ? 'Signing out...' : 'Sign out all other devices'}
+            </Button>
+          </div>
+        )}
+      </Stack>
+    </Card>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Button,
+  Flex,
+  Stack,
+  Card,
+  Badge,
+  Input,
+  Alert,
+  useToast,
+} from '@/components/ui'
+
+type CodeAction = 'disable' | 'regenerate'
+
+/**
+ * Turn authenticator-app 2FA on or off and manage recovery codes. There's no
+ * QR code library, so setup shows the secret and the otpauth link instead.
+ */
+export function TwoFactorSettings() {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null)
+  const [code, setCode] = useState('')
+
+  const { data: status, isLoading } = trpc.auth.getTwoFactorStatus.useQuery()
+
+  const beginSetupMutation = trpc.auth.beginTwoFactorSetup.useMutation({
+    onSuccess: (data) => {
+      setSetup({ secret: data.secret, otpauthUrl: data.otpauthUrl })
+      setCode('')
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const enableMutation = trpc.auth.enableTwoFactor.useMutation({
+    onSuccess: (data) => {
+      showToast('Two-factor authentication enabled', 'success')
+      setSetup(null)
+      setCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      utils.auth.getTwoFactorStatus.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const disableMutation = trpc.auth.disableTwoFactor.useMutation({
+    onSuccess: () => {
+      showToast('Two-factor authentication disabled', 'success')
+      setCodeAction(null)
+      setCode('')
+      utils.auth.getTwoFactorStatus.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const regenerateMutation = trpc.auth.regenerateRecoveryCodes.useMutation({
+    onSuccess: (data) => {
+      showToast('New recovery codes generated', 'success')
+      setCodeAction(null)
+      setCode('')
+      setRecoveryCodes(data.recoveryCodes)
+      utils.auth.getTwoFactorStatus.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const handleCodeAction = () => {
+    if (!code.trim()) return
+    if (codeAction === 'disable') {
+      disableMutation.mutate({ code: code.trim() })
+    } else if (codeAction === 'regenerate') {
+      regenerateMutation.mutate({ code: code.trim() })
+    }
+  }
+
+  const cancelCodeAction = () => {
+    setCodeAction(null)
+    setCode('')
+  }
+
+  const requiredBy = status?.requiredBy ?? []
+  const isPending = disableMutation.isPending || regenerateMutation.isPending
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Flex justify="between" align="center">
+          <Text weight="semibold">Two-Factor Authentication</Text>
+          {status && (
+            <Badge variant={status.enabled ? 'success' : 'neutral'}>
+              {status.enabled ? 'On' : 'Off'}
+            </Badge>
+          )}
+        </Flex>
+        <Text variant="small" color="muted">
+          Ask for a code from an authenticator app when you sign in and before sensitive band
+          actions like dissolving a band or confirming payments.
+        </Text>
+
+        {requiredBy.length > 0 && !status?.enabled && (
+          <Alert variant="warning">
+            <Text variant="small">
+              {requiredBy.map(band => band.name).join(', ')} require{requiredBy.length === 1 ? 's' : ''} two-factor
+              authentication for your role. Turn it on to dissolve bands, confirm payments or manage billing.
+            </Text>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <Alert variant="info">
+            <Stack spacing="sm">
+              <Text variant="small" weight="semibold">Save your recovery codes</Text>
+              <Text variant="small">
+                Each code works once if you lose your authenticator app. They won&apos;t be shown again.
+              </Text>
+              <div className="grid grid-cols-2 gap-1 font-mono text-sm bg-white border border-gray-200 rounded p-3">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div>
+                <Button variant="secondary" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  I&apos;ve saved them
+                </Button>
+              </div>
+            </Stack>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Text variant="small" color="muted">Loading...</Text>
+        ) : !status?.enabled ? (
+          setup ? (
+            <Stack spacing="sm">
+              <Text variant="small">
+                1. In your authenticator app, add an account using this key, or open the link on your phone.
+              </Text>
+              <div className="font-mono text-sm bg-gray-50 border border-gray-200 rounded p-3 break-all">
+                {setup.secret}
+              </div>
+              <a href={setup.otpauthUrl} className="text-sm text-blue-600 hover:underline break-all">
+                Open in authenticator app
+              </a>
+              <Text variant="small">2. Enter the 6-digit code the app shows.</Text>
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                autoComplete="one-time-code"
+              />
+              <Flex gap="sm">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => enableMutation.mutate({ code: code.trim() })}
+                  disabled={enableMutation.isPending || !code.trim()}
+                >
+                  {enableMutation.isPending ? 'Verifying...' : 'Turn On'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => { setSetup(null); setCode('') }}>
+                  Cancel
+                </Button>
+              </Flex>
+            </Stack>
+          ) : (
+            <div>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() => beginSetupMutation.mutate()}
+                disabled={beginSetupMutation.isPending}
+              >
+                {beginSetupMutation.isPending ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+              </Button>
+            </div>
+          )
+        ) : (
+          <Stack spacing="sm">
+            <Text variant="small" color="muted">
+              {status.enabledAt && `Turned on ${new Date(status.enabledAt).toLocaleDateString()} • `}
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} left
+            </Text>
+
+            {codeAction ? (
+              <Stack spacing="sm">
+                <Input
+                  label={codeAction === 'disable'
+                    ? 'Enter a code to turn off two-factor authentication'
+                    : 'Enter a code to replace your recovery codes'}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                />
+                <Flex gap="sm">
+                  <Button
+                    variant={codeAction === 'disable' ? 'danger' : 'primary'}
+                    size="sm"
+                    onClick={handleCodeAction}
+                    disabled={isPending || !code.trim()}
+                  >
+                    {isPending ? 'Verifying...' : codeAction === 'disable' ? 'Turn Off' : 'Generate New Codes'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={cancelCodeAction}>Cancel</Button>
+                </Flex>
+              </Stack>
+            ) : (
+              <Flex gap="sm">
+                <Button variant="secondary" size="sm" onClick={() => setCodeAction('regenerate')}>
+                  New Recovery Codes
+                </Button>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => setCodeAction('disable')}
+                  disabled={requiredBy.length > 0}
+                >
+                  Turn Off
+                </Button>
+              </Flex>
+            )}
+
+            {requiredBy.length > 0 && (
+              <Text variant="small" color="muted">
+                Required by {requiredBy.map(band => band.name).join(', ')}, so it can&apos;t be turned off.
+              </Text>
+            )}
+          </Stack>
+        )}
+      </Stack>
+    </Card>
+  )
+}
@@ -4,6 +4,13 @@ import { useState, useEffect } from 'react'
 import { UserDashboardLayout } from '@/components/UserDashboardLayout'
 import { trpc } from '@/lib/trpc'
 import { jwtDecode } from 'jwt-decode'
+import { CalendarFeedsSettings } from '@/components/calendar'
+import { storeTokens, clearTokens } from '@/lib/auth-session'
+import { SignedInDevices } from './components/SignedInDevices'
+import { TwoFactorSettings } from './components/TwoFactorSettings'
+import { NotificationPreferenceMatrix } from './components/NotificationPreferenceMatrix'
+import { NotificationDeliverySettings } from './components/NotificationDeliverySettings'
+import { BandNotificationLevels } from './components/BandNotificationLevels'
 import { useRouter } from 'next/navigation'
 import {
   Heading,
@@ -52,7 +59,7 @@ export default function SettingsPage() {
 
   // Get user warnings
   const { data: warningsData } = trpc.auth.getMyWarnings.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -60,7 +67,7 @@ export default function SettingsPage() {
 
   // Get digest preferences
   const { data: digestData } = trpc.digest.getPreferences.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -75,8 +82,11 @@ export default function SettingsPage() {
   }, [digestData])
 
   const changePasswordMutation = trpc.auth.changePassword.useMutation({
-    onSuccess: () => {
-      showToast('Password changed successfully!', 'success')
+    onSuccess: (data) => {
+      // Every other session was revoked; this device gets a new one
+      storeTokens(data)
+      utils.auth.listSessions.invalidate()
+      showToast(data.message, 'success')
       setPasswordData({
         currentPassword: '',
         newPassword: '',
@@ -91,9 +101,7 @@ export default function SettingsPage() {
   const deleteAccountMutation = trpc.auth.deleteAccount.useMutation({
     onSuccess: () => {
       showToast('Account deleted successfully', 'success')
-      localStorage.removeItem('accessToken')
-      localStorage.removeItem('refreshToken')
-      localStorage.removeItem('userEmail')
+      clearTokens()
       setTimeout(() => {
         router.push('/')
       }, 1000)
@@ -134,7 +142,6 @@ export default function SettingsPage() {
     }
 
     changePasswordMutation.mutate({
-      userId,
       currentPassword: passwordData.currentPassword,
       newPassword: passwordData.newPassword,
     })
@@ -147,20 +154,18 @@ export default function SettingsPage() {
     }
 
     deleteAccountMutation.mutate({
-      userId,
       password: deletePassword,
     })
   }
 
   const handleAcknowledgeAll = () => {
     if (!userId) return
-    acknowledgeAllMutation.mutate({ userId })
+    acknowledgeAllMutation.mutate()
   }
 
   const handleSaveDigestPreferences = () => {
     if (!userId) return
     updateDigestMutation.mutate({
-      userId,
       frequency: digestFrequency as 'DAILY' | 'EVERY_OTHER_DAY' | 'WEEKLY' | 'NEVER',
       weeklyDay: digestFrequency === 'WEEKLY' ? digestWeeklyDay : undefined,
     })
@@ -248,9 +253,12 @@ export default function SettingsPage() {
           </Stack>
         )}
 
-        {/* Email Notifications Section */}
+        {/* Notifications Section */}
         <Stack spacing="lg">
-          <Heading level={2}>Email Notifications</Heading>
+          <Heading level={2}>Notifications</Heading>
+          <NotificationPreferenceMatrix />
+          <NotificationDeliverySettings />
+          <BandNotificationLevels />
           <Card>
             <Stack spacing="md">
               <Text weight="semibold">Quick Actions Digest</Text>
@@ -338,6 +346,19 @@ export default function SettingsPage() {
           </Card>
         </Stack>
 
+        {/* Calendar Feeds Section */}
+        <Stack spacing="lg">
+          <Heading level={2}>Calendar</Heading>
+          <CalendarFeedsSettings />
+        </Stack>
+
+        {/* Security Section */}
+        <Stack spacing="lg">
+          <Heading level={2}>Security</Heading>
+          <TwoFactorSettings />
+          <SignedInDevices />
+        </Stack>
+
         {/* Change Password Section */}
         <Stack spacing="lg">
           <Heading level={2}>Change Password</Heading>
@@ -35,12 +35,12 @@ export default function SubscriptionPage() {
   }, [])
 
   const { data: profileData, isLoading, refetch } = trpc.auth.getProfile.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
   const { data: subscriptionData } = trpc.payment.getSubscriptionStatus.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -57,7 +57,7 @@ export default function SubscriptionPage() {
 
   const handleCancelConfirm = () => {
     if (!userId) return
-    cancelSubscriptionMutation.mutate({ userId })
+    cancelSubscriptionMutation.mutate()
   }
 
   const getStatusBadge = (status: string) => {
@@ -106,7 +106,7 @@ function VerifyEmailContent() {
   }, [])
 
   const { data: profileData, refetch: refetchProfile } = trpc.auth.getProfile.useQuery(
-    { userId },
+    undefined,
     {
       enabled: !!userId && !token && !hasVerified.current,
       refetchInterval: 5000,
@@ -160,7 +160,7 @@ function VerifyEmailContent() {
 
   const handleResend = () => {
     if (userId) {
-      resendMutation.mutate({ userId })
+      resendMutation.mutate()
     }
   }
 
@@ -5,6 +5,7 @@ import Image from 'next/image'
 import { useRouter } from 'next/navigation'
 import { jwtDecode } from 'jwt-decode'
 import { trpc } from '@/lib/trpc'
+import { signOut } from '@/lib/auth-session'
 import { EditorialPageShell } from '@/components/editorial/EditorialPageShell'
 import { WAITING_ROOM_IMAGE } from '@/components/newspaper/newspaperPlaceholders'
 
@@ -40,7 +41,7 @@ export default function WaitingRoomPage() {
   }, [router])
 
   const { data: access, isError: accessError } = trpc.auth.getAccessStatus.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -59,9 +60,7 @@ export default function WaitingRoomPage() {
   }, [accessError, router])
 
   const handleLogout = () => {
-    localStorage.removeItem('accessToken')
-    localStorage.removeItem('refreshToken')
-    localStorage.removeItem('userEmail')
+    signOut()
     router.push('/')
   }
 
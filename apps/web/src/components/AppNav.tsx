@@ -8,6 +8,7 @@ import { Dropdown, DropdownItem, useToast, NotificationBell, NotificationsDropdo
 import { useHelp } from '@/components/help/HelpContext'
 import { FeedbackButton } from '@/components/feedback'
 import { trpc } from '@/lib/trpc'
+import { signOut } from '@/lib/auth-session'
 import { theme } from '@band-it/shared'
 import { SITE_LOGO, SITE_LOGO_ALT } from '@/components/landing/landingCatBotCopy'
 
@@ -34,7 +35,7 @@ export function AppNav() {
 
   // Check if user is a founder of any band
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -45,9 +46,7 @@ export function AppNav() {
   ) ?? false
 
   const handleLogout = () => {
-    localStorage.removeItem('accessToken')
-    localStorage.removeItem('refreshToken')
-    localStorage.removeItem('userEmail')
+    signOut()
     showToast('Logged out successfully', 'success')
     router.push('/')
   }
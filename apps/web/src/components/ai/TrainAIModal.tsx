@@ -96,7 +96,6 @@ export function TrainAIModal({
 
     createMutation.mutate({
       bandId,
-      userId,
       instruction: instruction.trim(),
       operation: scopeType === 'operation' && operation ? operation as any : undefined,
       category: scopeType === 'category' && category ? category as any : undefined,
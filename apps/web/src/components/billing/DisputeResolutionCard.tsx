@@ -94,7 +94,6 @@ export function DisputeResolutionCard({
     try {
       await resolveMutation.mutateAsync({
         paymentId: payment.id,
-        userId,
         outcome: selectedOutcome,
         note: resolutionNote.trim() || undefined,
       })
@@ -49,7 +49,6 @@ export function ManualPaymentsList({
 
   const { data, isLoading, error } = trpc.manualPayment.list.useQuery({
     bandId,
-    userId,
     status: statusFilter === 'ALL' ? undefined : statusFilter,
     limit: 50,
   })
@@ -80,9 +79,9 @@ export function ManualPaymentsList({
   }
 
   const handleRefresh = () => {
-    utils.manualPayment.list.invalidate({ bandId, userId })
-    utils.manualPayment.myPending.invalidate({ bandId, userId })
-    utils.manualPayment.getDisputedPayments.invalidate({ bandId, userId })
+    utils.manualPayment.list.invalidate({ bandId })
+    utils.manualPayment.myPending.invalidate({ bandId })
+    utils.manualPayment.getDisputedPayments.invalidate({ bandId })
   }
 
   if (isLoading) {
@@ -11,6 +11,8 @@ import {
   Button,
   Textarea,
   Modal,
+  StepUpModal,
+  useStepUp,
   useToast,
 } from '@/components/ui'
 
@@ -65,13 +67,15 @@ export function PaymentConfirmationCard({
   const [disputeReason, setDisputeReason] = useState('')
   const [isConfirming, setIsConfirming] = useState(false)
   const [isDisputing, setIsDisputing] = useState(false)
+  const stepUp = useStepUp()
 
   const confirmMutation = trpc.manualPayment.confirm.useMutation({
     onSuccess: () => {
       showToast('Payment confirmed!', 'success')
       onAction?.()
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (stepUp.handleError(error, () => confirmMutation.mutate(variables))) return
       showToast(error.message || 'Failed to confirm payment', 'error')
     },
   })
@@ -93,7 +97,6 @@ export function PaymentConfirmationCard({
     try {
       await confirmMutation.mutateAsync({
         paymentId: payment.id,
-        userId,
       })
     } finally {
       setIsConfirming(false)
@@ -110,7 +113,6 @@ export function PaymentConfirmationCard({
     try {
       await disputeMutation.mutateAsync({
         paymentId: payment.id,
-        userId,
         reason: disputeReason.trim(),
       })
     } finally {
@@ -277,6 +279,8 @@ export function PaymentConfirmationCard({
           </Flex>
         </Stack>
       </Modal>
+
+      <StepUpModal {...stepUp.modalProps} />
     </>
   )
 }
@@ -15,7 +15,7 @@ export function PendingConfirmationsBanner({
   onViewClick,
 }: PendingConfirmationsBannerProps) {
   const { data, isLoading } = trpc.manualPayment.myPending.useQuery(
-    { bandId, userId },
+    { bandId },
     { refetchInterval: 60000 } // Refresh every minute
   )
 
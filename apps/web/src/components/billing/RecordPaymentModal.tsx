@@ -53,7 +53,7 @@ export function RecordPaymentModal({
 
   // Fetch band members
   const { data: membersData, isLoading: membersLoading } = trpc.manualPayment.getBandMembers.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: isOpen }
   )
 
@@ -103,7 +103,6 @@ export function RecordPaymentModal({
     try {
       await createMutation.mutateAsync({
         bandId,
-        userId,
         memberId,
         amount: amountCents,
         paymentMethod: paymentMethod as 'ZELLE' | 'VENMO' | 'CASHAPP' | 'CASH' | 'CHECK' | 'OTHER',
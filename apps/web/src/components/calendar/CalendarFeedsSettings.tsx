@@ -0,0 +1,122 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Button,
+  Flex,
+  Stack,
+  Card,
+  useToast,
+} from '@/components/ui'
+
+const SCOPE_LABELS: Record<string, string> = {
+  USER: 'All my bands',
+  BAND_MEMBERS: 'Band calendar',
+  BAND_PUBLIC: 'Public band events',
+}
+
+/**
+ * The user's subscribable calendar feeds, with copy and revoke. Anyone with
+ * a feed URL can read it, so a leaked URL should be revoked.
+ */
+export function CalendarFeedsSettings() {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const { data, isLoading } = trpc.calendar.getMyFeeds.useQuery()
+
+  const createMutation = trpc.calendar.createFeed.useMutation({
+    onSuccess: () => {
+      utils.calendar.getMyFeeds.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const revokeMutation = trpc.calendar.revokeFeed.useMutation({
+    onSuccess: () => {
+      showToast('Calendar feed revoked', 'success')
+      utils.calendar.getMyFeeds.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const copyUrl = (url: string) => {
+    navigator.clipboard.writeText(url)
+    showToast('Feed URL copied to clipboard', 'success')
+  }
+
+  const feeds = data?.feeds ?? []
+  const hasPersonalFeed = feeds.some(feed => feed.scope === 'USER')
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Text weight="semibold">Calendar Subscriptions</Text>
+        <Text variant="small" color="muted">
+          Subscribe to these URLs from Google Calendar, Apple Calendar or Outlook to see events and
+          deadlines there. Anyone with a URL can read the feed, so revoke any you no longer use.
+        </Text>
+
+        {isLoading ? (
+          <Text variant="small" color="muted">Loading feeds...</Text>
+        ) : feeds.length === 0 ? (
+          <Text variant="small" color="muted">No calendar feeds yet.</Text>
+        ) : (
+          <Stack spacing="sm">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="border border-gray-200 rounded p-3">
+                <Flex justify="between" align="center" gap="sm">
+                  <div className="min-w-0">
+                    <Text variant="small" weight="semibold">
+                      {SCOPE_LABELS[feed.scope]}{feed.band ? `: ${feed.band.name}` : ''}
+                    </Text>
+                    <code className="block text-xs text-gray-600 truncate">{feed.url}</code>
+                    <Text variant="small" color="muted">
+                      {feed.lastAccessedAt
+                        ? `Last fetched ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                        : 'Not fetched yet'}
+                    </Text>
+                  </div>
+                  <Flex gap="sm">
+                    <Button variant="secondary" size="sm" onClick={() => copyUrl(feed.url)}>
+                      Copy
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate({ feedId: feed.id })}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </Flex>
+                </Flex>
+              </div>
+            ))}
+          </Stack>
+        )}
+
+        {!hasPersonalFeed && (
+          <div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => createMutation.mutate({ scope: 'USER' })}
+              disabled={createMutation.isPending}
+            >
+              {createMutation.isPending ? 'Creating...' : 'Create feed for all my bands'}
+            </Button>
+          </div>
+        )}
+        <Text variant="small" color="muted">
+          Band-only feeds can be created from each band&apos;s calendar page.
+        </Text>
+      </Stack>
+    </Card>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Badge,
+  Button,
+  Flex,
+  Stack,
+  Alert,
+  Modal,
+  useToast,
+} from '@/components/ui'
+
+interface CalendarImportButtonProps {
+  bandId: string
+}
+
+const EVENT_TYPE_LABELS: Record<string, string> = {
+  ONLINE_MEETING: 'Online',
+  IN_PERSON_MEETING: 'In person',
+  HYBRID: 'Hybrid',
+}
+
+/**
+ * Import events from an .ics export of another calendar. Shows a preview
+ * where duplicates start unselected and conflicts are flagged.
+ */
+export function CalendarImportButton({ bandId }: CalendarImportButtonProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const previewMutation = trpc.event.previewImport.useMutation({
+    onSuccess: (result) => {
+      setSelected(new Set(
+        result.items
+          .filter(item => !item.duplicateOf && !item.isCancelled)
+          .map(item => item.uid)
+      ))
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const importMutation = trpc.event.import.useMutation({
+    onSuccess: (result) => {
+      showToast(`Imported ${result.imported} event${result.imported === 1 ? '' : 's'}`, 'success')
+      utils.calendar.getCalendarItems.invalidate()
+      close()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const close = () => {
+    setIsOpen(false)
+    setFile(null)
+    setSelected(new Set())
+    previewMutation.reset()
+  }
+
+  const handleFile = async (picked: File) => {
+    const content = await picked.text()
+    setFile({ name: picked.name, content })
+    previewMutation.mutate({ bandId, content })
+  }
+
+  const toggle = (uid: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(uid)) next.delete(uid)
+      else next.add(uid)
+      return next
+    })
+  }
+
+  const preview = previewMutation.data
+  const duplicateCount = preview?.items.filter(item => item.duplicateOf).length ?? 0
+  const conflictCount = preview?.items.filter(item => item.conflicts.length > 0).length ?? 0
+
+  return (
+    <>
+      <Button variant="secondary" onClick={() => setIsOpen(true)}>
+        Import
+      </Button>
+
+      <Modal isOpen={isOpen} onClose={close} title="Import events from a calendar file" size="3xl">
+        <Stack spacing="md">
+          <Text variant="small" color="muted">
+            Export your old calendar as an .ics file (Google Calendar: Settings &gt; Import &amp; export;
+            Apple Calendar: File &gt; Export; Outlook: Save Calendar) and choose it below. Nothing
+            is saved until you confirm.
+          </Text>
+
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => {
+              const picked = e.target.files?.[0]
+              if (picked) handleFile(picked)
+              e.target.value = ''
+            }}
+          />
+          <Flex gap="sm" align="center">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => inputRef.current?.click()}
+              disabled={previewMutation.isPending}
+            >
+              {file ? 'Choose another file' : 'Choose .ics file'}
+            </Button>
+            {file && <Text variant="small" color="muted">{file.name}</Text>}
+          </Flex>
+
+          {previewMutation.isPending && (
+            <Text variant="small" color="muted">Reading calendar...</Text>
+          )}
+
+          {preview && (
+            <Stack spacing="sm">
+              <Text variant="small">
+                {preview.items.length} event{preview.items.length === 1 ? '' : 's'} found
+                {preview.calendarName ? ` in "${preview.calendarName}"` : ''}.
+                {duplicateCount > 0 && ` ${duplicateCount} already in this band (unselected).`}
+                {conflictCount > 0 && ` ${conflictCount} overlap upcoming events.`}
+              </Text>
+
+              {preview.warnings.length > 0 && (
+                <Alert variant="warning">
+                  {preview.warnings.map((warning, i) => (
+                    <Text key={i} variant="small">{warning}</Text>
+                  ))}
+                </Alert>
+              )}
+
+              <Flex gap="sm">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelected(new Set(preview.items.map(item => item.uid)))}
+                >
+                  Select all
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                  Select none
+                </Button>
+              </Flex>
+
+              <div className="border border-gray-200 rounded divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                {preview.items.map((item) => (
+                  <label key={item.uid} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.uid)}
+                      onChange={() => toggle(item.uid)}
+                      className="mt-1 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <Flex gap="sm" align="center" className="flex-wrap">
+                        <Text variant="small" weight="semibold">{item.title}</Text>
+                        <Badge variant="neutral" size="sm">{EVENT_TYPE_LABELS[item.eventType]}</Badge>
+                        {item.recurrenceDescription && (
+                          <Badge variant="info" size="sm">Repeats {item.recurrenceDescription}</Badge>
+                        )}
+                        {item.isCancelled && <Badge variant="secondary" size="sm">Cancelled</Badge>}
+                        {item.duplicateOf && <Badge variant="warning" size="sm">Already imported</Badge>}
+                        {item.conflicts.length > 0 && <Badge variant="danger" size="sm">Conflict</Badge>}
+                      </Flex>
+                      <Text variant="small" color="muted">
+                        {new Date(item.startTime).toLocaleString()}
+                        {item.location ? ` · ${item.location}` : ''}
+                        {item.exceptionCount > 0 ? ` · ${item.exceptionCount} changed or skipped dates` : ''}
+                      </Text>
+                      {item.conflicts.map((conflict) => (
+                        <Text key={conflict.id} variant="small" color="danger">
+                          Overlaps &quot;{conflict.title}&quot; on {new Date(conflict.startTime).toLocaleString()}
+                        </Text>
+                      ))}
+                      {item.warnings.map((warning, i) => (
+                        <Text key={i} variant="small" color="warning">{warning}</Text>
+                      ))}
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <Flex justify="end" gap="sm">
+                <Button variant="secondary" onClick={close}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => file && importMutation.mutate({
+                    bandId,
+                    content: file.content,
+                    uids: [...selected],
+                    fileName: file.name,
+                  })}
+                  disabled={selected.size === 0 || importMutation.isPending}
+                >
+                  {importMutation.isPending
+                    ? 'Importing...'
+                    : `Import ${selected.size} event${selected.size === 1 ? '' : 's'}`}
+                </Button>
+              </Flex>
+            </Stack>
+          )}
+        </Stack>
+      </Modal>
+    </>
+  )
+}
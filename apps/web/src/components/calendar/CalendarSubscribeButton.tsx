@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Button,
+  Flex,
+  Stack,
+  Modal,
+  useToast,
+} from '@/components/ui'
+
+interface CalendarSubscribeButtonProps {
+  bandId: string
+  canPublishPublicFeed: boolean
+}
+
+/**
+ * Creates (or reuses) the member's .ics feed for a band and shows the URL.
+ * Founders and governors can also publish a public events-only feed.
+ */
+export function CalendarSubscribeButton({ bandId, canPublishPublicFeed }: CalendarSubscribeButtonProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [isOpen, setIsOpen] = useState(false)
+  const [urls, setUrls] = useState<{ members?: string; public?: string }>({})
+
+  const createMutation = trpc.calendar.createFeed.useMutation({
+    onSuccess: (result, variables) => {
+      setUrls(current => ({
+        ...current,
+        [variables.scope === 'BAND_PUBLIC' ? 'public' : 'members']: result.url,
+      }))
+      utils.calendar.getMyFeeds.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const open = () => {
+    setIsOpen(true)
+    if (!urls.members) {
+      createMutation.mutate({ scope: 'BAND_MEMBERS', bandId })
+    }
+  }
+
+  const copyUrl = (url: string) => {
+    navigator.clipboard.writeText(url)
+    showToast('Feed URL copied to clipboard', 'success')
+  }
+
+  const urlRow = (url: string) => (
+    <Flex gap="sm" align="center">
+      <code className="flex-1 bg-gray-100 px-2 py-1 rounded text-xs break-all">{url}</code>
+      <Button variant="secondary" size="sm" onClick={() => copyUrl(url)}>
+        Copy
+      </Button>
+    </Flex>
+  )
+
+  return (
+    <>
+      <Button variant="secondary" onClick={open}>
+        Subscribe
+      </Button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Subscribe to this calendar" size="lg">
+        <Stack spacing="md">
+          <Text variant="small" color="muted">
+            Add this URL to Google Calendar (&quot;From URL&quot;), Apple Calendar or Outlook. It
+            includes events, proposal deadlines and your tasks. Keep it private; you can revoke it
+            from your settings.
+          </Text>
+          {urls.members
+            ? urlRow(urls.members)
+            : <Text variant="small" color="muted">Creating feed...</Text>}
+
+          {canPublishPublicFeed && (
+            <Stack spacing="sm">
+              <Text weight="semibold">Public feed</Text>
+              <Text variant="small" color="muted">
+                Events only, without meeting links, for sharing on your website.
+              </Text>
+              {urls.public ? urlRow(urls.public) : (
+                <div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => createMutation.mutate({ scope: 'BAND_PUBLIC', bandId })}
+                    disabled={createMutation.isPending}
+                  >
+                    Create public feed
+                  </Button>
+                </div>
+              )}
+            </Stack>
+          )}
+        </Stack>
+      </Modal>
+    </>
+  )
+}
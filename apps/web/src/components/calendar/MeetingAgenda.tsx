@@ -0,0 +1,534 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Heading,
+  Badge,
+  Button,
+  Input,
+  Select,
+  Textarea,
+  Flex,
+  Stack,
+  Card,
+  useToast,
+} from '@/components/ui'
+
+interface AgendaMember {
+  id: string
+  name: string
+}
+
+interface MeetingAgendaProps {
+  eventId: string
+  bandSlug: string
+  startTime: string
+  // Set for an occurrence of a recurring meeting
+  occurrenceDate: string | null
+  members: AgendaMember[]
+}
+
+const KIND_LABELS: Record<string, string> = {
+  TOPIC: 'Topic',
+  PROPOSAL: 'Proposal',
+  TASK: 'Task',
+}
+
+const STATUS_VARIANTS: Record<string, 'neutral' | 'success' | 'warning'> = {
+  PENDING: 'neutral',
+  DISCUSSED: 'success',
+  DEFERRED: 'warning',
+}
+
+function formatClock(date: Date) {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+}
+
+/**
+ * Structured agenda for a meeting: ordered, time-boxed items that can
+ * reference proposals and tasks, with minutes, decisions and action items
+ */
+export function MeetingAgenda({ eventId, bandSlug, startTime, occurrenceDate, members }: MeetingAgendaProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const agendaInput = { eventId, occurrenceDate: occurrenceDate ?? undefined }
+
+  const [isAdding, setIsAdding] = useState(false)
+  const [kind, setKind] = useState<'TOPIC' | 'PROPOSAL' | 'TASK'>('TOPIC')
+  const [title, setTitle] = useState('')
+  const [referenceId, setReferenceId] = useState('')
+  const [duration, setDuration] = useState('')
+  const [presenterId, setPresenterId] = useState('')
+
+  const { data, isLoading } = trpc.event.agenda.get.useQuery(agendaInput)
+
+  const invalidate = () => utils.event.agenda.get.invalidate(agendaInput)
+  const onError = (error: { message: string }) => showToast(error.message, 'error')
+
+  const addMutation = trpc.event.agenda.add.useMutation({
+    onSuccess: () => {
+      invalidate()
+      resetForm()
+    },
+    onError,
+  })
+
+  const reorderMutation = trpc.event.agenda.reorder.useMutation({
+    onSuccess: invalidate,
+    onError,
+  })
+
+  const resetForm = () => {
+    setIsAdding(false)
+    setKind('TOPIC')
+    setTitle('')
+    setReferenceId('')
+    setDuration('')
+    setPresenterId('')
+  }
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <Text variant="small" color="muted">Loading agenda...</Text>
+      </Card>
+    )
+  }
+
+  const { items, canOrganize, suggestions, totalMinutes } = data
+
+  const move = (index: number, offset: number) => {
+    const ids = items.map(item => item.id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, moved)
+    reorderMutation.mutate({ ...agendaInput, itemIds: ids })
+  }
+
+  // Time box start of each item, from the meeting start
+  const meetingStart = new Date(occurrenceDate ?? startTime)
+  let elapsedMinutes = 0
+  const startTimes = items.map(item => {
+    const start = new Date(meetingStart.getTime() + elapsedMinutes * 60 * 1000)
+    elapsedMinutes += item.durationMinutes ?? 0
+    return start
+  })
+
+  return (
+    <Card>
+      <Stack spacing="md">
+        <Flex justify="between" align="center">
+          <Heading level={3}>Agenda</Heading>
+          {totalMinutes > 0 && (
+            <Text variant="small" color="muted">
+              {totalMinutes} min · ends around {formatClock(new Date(meetingStart.getTime() + totalMinutes * 60 * 1000))}
+            </Text>
+          )}
+        </Flex>
+
+        {items.length === 0 ? (
+          <Text variant="small" color="muted">
+            {canOrganize
+              ? 'No agenda yet. Add topics, open proposals or overdue tasks to discuss.'
+              : 'No agenda has been set for this meeting yet.'}
+          </Text>
+        ) : (
+          <Stack spacing="sm">
+            {items.map((item, index) => (
+              <AgendaItemCard
+                key={item.id}
+                item={item}
+                index={index}
+                startsAt={item.durationMinutes ? startTimes[index] : null}
+                isFirst={index === 0}
+                isLast={index === items.length - 1}
+                canOrganize={canOrganize}
+                bandSlug={bandSlug}
+                members={members}
+                projects={suggestions?.projects ?? []}
+                onMove={(offset) => move(index, offset)}
+                onChanged={invalidate}
+              />
+            ))}
+          </Stack>
+        )}
+
+        {canOrganize && !isAdding && (
+          <Flex justify="start">
+            <Button variant="secondary" size="sm" onClick={() => setIsAdding(true)}>
+              + Add Agenda Item
+            </Button>
+          </Flex>
+        )}
+
+        {canOrganize && isAdding && suggestions && (
+          <Card className="bg-gray-50">
+            <Stack spacing="sm">
+              <Select
+                label="Item type"
+                value={kind}
+                onChange={(e) => {
+                  setKind(e.target.value as typeof kind)
+                  setReferenceId('')
+                }}
+              >
+                <option value="TOPIC">Discussion topic</option>
+                <option value="PROPOSAL">Open proposal</option>
+                <option value="TASK">Overdue task</option>
+              </Select>
+
+              {kind === 'PROPOSAL' && (
+                <Select label="Proposal" value={referenceId} onChange={(e) => setReferenceId(e.target.value)}>
+                  <option value="">Choose a proposal...</option>
+                  {suggestions.proposals.map(p => (
+                    <option key={p.id} value={p.id}>
+                      {p.title}{p.status === 'PENDING_REVIEW' ? ' (in review)' : ''}
+                    </option>
+                  ))}
+                </Select>
+              )}
+
+              {kind === 'TASK' && (
+                <Select label="Task" value={referenceId} onChange={(e) => setReferenceId(e.target.value)}>
+                  <option value="">Choose a task...</option>
+                  {suggestions.overdueTasks.map(t => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}{t.dueDate ? ` (due ${new Date(t.dueDate).toLocaleDateString()})` : ''}
+                    </option>
+                  ))}
+                </Select>
+              )}
+
+              <Input
+                label={kind === 'TOPIC' ? 'Topic' : 'Title (optional)'}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={200}
+              />
+
+              <Flex gap="sm">
+                <Input
+                  label="Minutes allotted"
+                  type="number"
+                  min={1}
+                  max={480}
+                  value={duration}
+                  onChange={(e) => setDuration(e.target.value)}
+                />
+                <Select label="Presenter" value={presenterId} onChange={(e) => setPresenterId(e.target.value)}>
+                  <option value="">No presenter</option>
+                  {members.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </Select>
+              </Flex>
+
+              <Flex justify="end" gap="sm">
+                <Button variant="ghost" size="sm" onClick={resetForm}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  disabled={
+                    addMutation.isPending
+                    || (kind === 'TOPIC' ? !title.trim() : !referenceId)
+                  }
+                  onClick={() => addMutation.mutate({
+                    ...agendaInput,
+                    kind,
+                    title: title.trim() || undefined,
+                    proposalId: kind === 'PROPOSAL' ? referenceId : undefined,
+                    taskId: kind === 'TASK' ? referenceId : undefined,
+                    durationMinutes: duration ? Number(duration) : undefined,
+                    presenterId: presenterId || undefined,
+                  })}
+                >
+                  {addMutation.isPending ? 'Adding...' : 'Add'}
+                </Button>
+              </Flex>
+            </Stack>
+          </Card>
+        )}
+      </Stack>
+    </Card>
+  )
+}
+
+interface AgendaItemCardProps {
+  item: any
+  index: number
+  startsAt: Date | null
+  isFirst: boolean
+  isLast: boolean
+  canOrganize: boolean
+  bandSlug: string
+  members: AgendaMember[]
+  projects: { id: string; name: string; tasks: { id: string; name: string }[] }[]
+  onMove: (offset: number) => void
+  onChanged: () => void
+}
+
+function AgendaItemCard({
+  item,
+  index,
+  startsAt,
+  isFirst,
+  isLast,
+  canOrganize,
+  bandSlug,
+  members,
+  projects,
+  onMove,
+  onChanged,
+}: AgendaItemCardProps) {
+  const { showToast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [minutes, setMinutes] = useState<string>(item.minutes ?? '')
+  const [decision, setDecision] = useState<string>(item.decision ?? '')
+  const [actionText, setActionText] = useState('')
+  const [actionAssignee, setActionAssignee] = useState('')
+  const [actionDue, setActionDue] = useState('')
+  const [actionTarget, setActionTarget] = useState('')
+
+  const onError = (error: { message: string }) => showToast(error.message, 'error')
+
+  const updateMutation = trpc.event.agenda.update.useMutation({
+    onSuccess: () => {
+      showToast('Agenda item saved', 'success')
+      onChanged()
+    },
+    onError,
+  })
+
+  const deleteMutation = trpc.event.agenda.delete.useMutation({
+    onSuccess: onChanged,
+    onError,
+  })
+
+  const actionMutation = trpc.event.agenda.createActionItem.useMutation({
+    onSuccess: (result) => {
+      showToast(result.kind === 'TASK' ? 'Task created' : 'Checklist item created', 'success')
+      setActionText('')
+      setActionAssignee('')
+      setActionDue('')
+      onChanged()
+    },
+    onError,
+  })
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      itemId: item.id,
+      minutes: minutes || null,
+      ...(canOrganize && { decision: decision || null }),
+    })
+  }
+
+  const handleCreateAction = () => {
+    const [targetType, targetId] = actionTarget.split(':')
+    actionMutation.mutate({
+      itemId: item.id,
+      description: actionText.trim(),
+      assigneeId: actionAssignee || undefined,
+      dueDate: actionDue ? new Date(actionDue) : undefined,
+      projectId: targetType === 'project' ? targetId : undefined,
+      taskId: targetType === 'task' ? targetId : undefined,
+    })
+  }
+
+  const actionCount = item.actionTasks.length + item.actionChecklistItems.length
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <Stack spacing="sm">
+        <Flex justify="between" align="start" gap="sm">
+          <Stack spacing="xs" className="min-w-0 flex-1">
+            <Flex gap="sm" align="center" wrap="wrap">
+              <Text variant="small" color="muted">{index + 1}.</Text>
+              <Text weight="semibold">{item.title}</Text>
+              <Badge variant="neutral" size="sm">{KIND_LABELS[item.kind]}</Badge>
+              <Badge variant={STATUS_VARIANTS[item.status]} size="sm">{item.status.toLowerCase()}</Badge>
+              {item.decision && <Badge variant="info" size="sm">Decision</Badge>}
+            </Flex>
+            <Text variant="small" color="muted">
+              {startsAt && `${formatClock(startsAt)} · `}
+              {item.durationMinutes ? `${item.durationMinutes} min` : 'No time set'}
+              {item.presenter && ` · ${item.presenter.name}`}
+              {actionCount > 0 && ` · ${actionCount} action item${actionCount === 1 ? '' : 's'}`}
+            </Text>
+            {item.proposal && (
+              <Link href={`/bands/${bandSlug}/proposals/${item.proposal.id}`} className="text-sm text-blue-600 hover:underline">
+                Proposal: {item.proposal.title} ({item.proposal.status.replace(/_/g, ' ').toLowerCase()})
+              </Link>
+            )}
+            {item.task && (
+              <Link href={`/bands/${bandSlug}/projects/${item.task.projectId}?task=${item.task.id}`} className="text-sm text-blue-600 hover:underline">
+                Task: {item.task.name}
+                {item.task.assignee ? ` · ${item.task.assignee.name}` : ' · unassigned'}
+                {item.task.dueDate ? ` · due ${new Date(item.task.dueDate).toLocaleDateString()}` : ''}
+              </Link>
+            )}
+          </Stack>
+          <Flex gap="xs" align="center">
+            {canOrganize && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => onMove(-1)} disabled={isFirst}>↑</Button>
+                <Button variant="ghost" size="sm" onClick={() => onMove(1)} disabled={isLast}>↓</Button>
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)}>
+              {isOpen ? 'Close' : 'Open'}
+            </Button>
+          </Flex>
+        </Flex>
+
+        {!isOpen && item.decision && (
+          <Text variant="small">Decision: {item.decision}</Text>
+        )}
+
+        {isOpen && (
+          <Stack spacing="sm">
+            {item.description && <Text variant="small">{item.description}</Text>}
+
+            {canOrganize && (
+              <Select
+                label="Status"
+                value={item.status}
+                onChange={(e) => updateMutation.mutate({
+                  itemId: item.id,
+                  status: e.target.value as 'PENDING' | 'DISCUSSED' | 'DEFERRED',
+                })}
+              >
+                <option value="PENDING">Pending</option>
+                <option value="DISCUSSED">Discussed</option>
+                <option value="DEFERRED">Deferred to a later meeting</option>
+              </Select>
+            )}
+
+            <Textarea
+              label="Minutes"
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              rows={4}
+              placeholder="What was discussed"
+            />
+
+            {canOrganize ? (
+              <Textarea
+                label="Decision"
+                value={decision}
+                onChange={(e) => setDecision(e.target.value)}
+                rows={2}
+                placeholder="What the meeting decided, if anything"
+              />
+            ) : item.decision && (
+              <Text variant="small">Decision: {item.decision}</Text>
+            )}
+
+            <Flex justify="between" gap="sm">
+              {canOrganize ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm('Remove this item from the agenda?')) {
+                      deleteMutation.mutate({ itemId: item.id })
+                    }
+                  }}
+                  disabled={deleteMutation.isPending}
+                >
+                  Remove
+                </Button>
+              ) : <span />}
+              <Button variant="primary" size="sm" onClick={handleSave} disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </Flex>
+
+            {/* Action items */}
+            <Stack spacing="xs">
+              <Text variant="small" weight="semibold">Action items</Text>
+              {actionCount === 0 && (
+                <Text variant="small" color="muted">None yet.</Text>
+              )}
+              {item.actionTasks.map((task: any) => (
+                <Link
+                  key={task.id}
+                  href={`/bands/${bandSlug}/projects/${task.projectId}?task=${task.id}`}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {task.status === 'COMPLETED' ? '✓' : '○'} {task.name}
+                  {task.assignee ? ` · ${task.assignee.name}` : ' · unassigned'}
+                  {task.dueDate ? ` · due ${new Date(task.dueDate).toLocaleDateString()}` : ''}
+                </Link>
+              ))}
+              {item.actionChecklistItems.map((checklistItem: any) => (
+                <Link
+                  key={checklistItem.id}
+                  href={`/bands/${bandSlug}/tasks/${checklistItem.taskId}/checklist/${checklistItem.id}`}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  {checklistItem.isCompleted ? '✓' : '○'} {checklistItem.description}
+                  {checklistItem.assignee ? ` · ${checklistItem.assignee.name}` : ' · unassigned'}
+                  {checklistItem.dueDate ? ` · due ${new Date(checklistItem.dueDate).toLocaleDateString()}` : ''}
+                </Link>
+              ))}
+            </Stack>
+
+            {canOrganize && (
+              <Card className="bg-gray-50">
+                <Stack spacing="sm">
+                  <Input
+                    label="New action item"
+                    value={actionText}
+                    onChange={(e) => setActionText(e.target.value)}
+                    maxLength={200}
+                    placeholder="e.g. Book the venue for the spring show"
+                  />
+                  <Select label="Create as" value={actionTarget} onChange={(e) => setActionTarget(e.target.value)}>
+                    <option value="">Choose where it goes...</option>
+                    {projects.map(project => (
+                      <optgroup key={project.id} label={project.name}>
+                        <option value={`project:${project.id}`}>New task in {project.name}</option>
+                        {project.tasks.map(task => (
+                          <option key={task.id} value={`task:${task.id}`}>Checklist item on &quot;{task.name}&quot;</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </Select>
+                  <Flex gap="sm">
+                    <Select label="Assignee" value={actionAssignee} onChange={(e) => setActionAssignee(e.target.value)}>
+                      <option value="">Unassigned</option>
+                      {members.map(m => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </Select>
+                    <Input
+                      label="Due date"
+                      type="date"
+                      value={actionDue}
+                      onChange={(e) => setActionDue(e.target.value)}
+                    />
+                  </Flex>
+                  <Flex justify="end">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={handleCreateAction}
+                      disabled={!actionText.trim() || !actionTarget || actionMutation.isPending}
+                    >
+                      {actionMutation.isPending ? 'Creating...' : 'Create Action Item'}
+                    </Button>
+                  </Flex>
+                </Stack>
+              </Card>
+            )}
+          </Stack>
+        )}
+      </Stack>
+    </div>
+  )
+}
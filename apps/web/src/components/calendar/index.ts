@@ -1,2 +1,6 @@
 export { CalendarView, CALENDAR_COLORS, CALENDAR_LABELS } from './CalendarView'
 export type { CalendarItem } from './CalendarView'
+export { CalendarFeedsSettings } from './CalendarFeedsSettings'
+export { CalendarSubscribeButton } from './CalendarSubscribeButton'
+export { CalendarImportButton } from './CalendarImportButton'
+export { MeetingAgenda } from './MeetingAgenda'
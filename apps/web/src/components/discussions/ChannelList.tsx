@@ -30,7 +30,7 @@ export function ChannelList({
   const [showArchived, setShowArchived] = useState(false)
 
   const { data, isLoading } = trpc.channel.list.useQuery(
-    { bandId, userId: userId || '', includeArchived: showArchived },
+    { bandId, includeArchived: showArchived },
     { enabled: !!bandId && !!userId }
   )
 
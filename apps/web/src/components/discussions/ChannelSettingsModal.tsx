@@ -102,7 +102,6 @@ export function ChannelSettingsModal({
     if (!name.trim()) return
     updateMutation.mutate({
       channelId: channel.id,
-      userId,
       name: name.trim(),
       description: description.trim() || undefined,
     })
@@ -110,14 +109,14 @@ export function ChannelSettingsModal({
 
   const handleArchiveToggle = () => {
     if (channel.isArchived) {
-      unarchiveMutation.mutate({ channelId: channel.id, userId })
+      unarchiveMutation.mutate({ channelId: channel.id })
     } else {
-      archiveMutation.mutate({ channelId: channel.id, userId })
+      archiveMutation.mutate({ channelId: channel.id })
     }
   }
 
   const handleDelete = () => {
-    deleteMutation.mutate({ channelId: channel.id, userId })
+    deleteMutation.mutate({ channelId: channel.id })
   }
 
   const hasChanges = name !== channel.name || description !== (channel.description || '')
@@ -0,0 +1,119 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import { Stack, Flex, Text, Button, Badge, Loading } from '@/components/ui'
+
+interface ConversationListProps {
+  bandId: string
+  userId: string | null
+  selectedConversationId: string | null
+  onSelectConversation: (conversationId: string) => void
+  onNewConversation: () => void
+}
+
+export function ConversationList({
+  bandId,
+  userId,
+  selectedConversationId,
+  onSelectConversation,
+  onNewConversation,
+}: ConversationListProps) {
+  const utils = trpc.useUtils()
+
+  // New messages in any conversation bump its unread count; poll when not live
+  const events = trpc.channel.onEvents.useSubscription(
+    { bandId },
+    {
+      enabled: !!bandId && !!userId,
+      onStarted: () => utils.conversation.list.invalidate({ bandId }),
+      onData: (event) => {
+        if (event.type === 'unread') {
+          utils.conversation.list.invalidate({ bandId })
+        }
+      },
+    }
+  )
+  const isLive = events.status === 'pending'
+
+  const { data, isLoading } = trpc.conversation.list.useQuery(
+    { bandId },
+    { enabled: !!bandId && !!userId, refetchInterval: isLive ? false : 30000 }
+  )
+
+  if (isLoading) {
+    return (
+      <div className="p-4">
+        <Loading message="Loading conversations..." />
+      </div>
+    )
+  }
+
+  const conversations = data?.conversations || []
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 border-r border-gray-200">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200">
+        <Flex justify="between" align="center">
+          <Text weight="semibold">Messages</Text>
+          <Button variant="ghost" size="sm" onClick={onNewConversation}>
+            +
+          </Button>
+        </Flex>
+      </div>
+
+      {/* Conversation List */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {conversations.length === 0 ? (
+          <div className="p-3">
+            <Text variant="small" color="muted">
+              No conversations yet. Start one with a bandmate - only the people in it can see it.
+            </Text>
+          </div>
+        ) : (
+          <Stack spacing="xs">
+            {conversations.map((conversation) => {
+              const isSelected = selectedConversationId === conversation.id
+              const hasUnread = conversation.unreadCount > 0
+
+              return (
+                <button
+                  key={conversation.id}
+                  onClick={() => onSelectConversation(conversation.id)}
+                  className={`
+                    w-full text-left px-3 py-2 rounded-md transition-colors cursor-pointer
+                    ${isSelected ? 'bg-blue-100 text-blue-800' : 'hover:bg-gray-100'}
+                  `}
+                >
+                  <Flex justify="between" align="center" gap="sm">
+                    <div className="min-w-0">
+                      <Flex gap="sm" align="center">
+                        <span className="text-gray-500">{conversation.isGroup ? '👥' : '👤'}</span>
+                        <span className={`truncate ${hasUnread ? 'font-semibold' : ''}`}>
+                          {conversation.title}
+                        </span>
+                        {conversation.isMuted && (
+                          <span className="text-gray-400" title="Muted">🔕</span>
+                        )}
+                      </Flex>
+                      {conversation.lastMessagePreview && (
+                        <Text variant="small" color="muted" className="truncate">
+                          {conversation.lastMessagePreview.authorName}: {conversation.lastMessagePreview.content}
+                        </Text>
+                      )}
+                    </div>
+                    {hasUnread && (
+                      <Badge variant={conversation.isMuted ? 'neutral' : 'danger'}>
+                        {conversation.unreadCount}
+                      </Badge>
+                    )}
+                  </Flex>
+                </button>
+              )
+            })}
+          </Stack>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -76,7 +76,6 @@ export function CreateChannelModal({
 
     createMutation.mutate({
       bandId,
-      userId,
       name: name.trim(),
       description: description.trim() || undefined,
       visibility,
@@ -49,7 +49,7 @@ export function MentionAutocomplete({
 
   // Fetch all mentionable users once (no search param - filter client-side)
   const { data, isLoading } = trpc.message.getMentionableUsers.useQuery(
-    { channelId, userId },
+    { channelId },
     { enabled: !!channelId && !!userId }
   )
 
@@ -5,6 +5,9 @@ import { trpc } from '@/lib/trpc'
 import { Flex, Button, useToast } from '@/components/ui'
 import { MentionAutocomplete, useMentionDetection } from './MentionAutocomplete'
 
+// How often to re-announce typing while the user keeps composing
+const TYPING_SIGNAL_INTERVAL_MS = 3000
+
 interface MessageComposerProps {
   channelId: string
   userId: string | null
@@ -32,9 +35,13 @@ export function MessageComposer({
     content
   )
 
+  const lastTypingSentAt = useRef(0)
+  const typingMutation = trpc.message.sendTyping.useMutation()
+
   const createMutation = trpc.message.create.useMutation({
     onSuccess: () => {
       setContent('')
+      lastTypingSentAt.current = 0
       // Reset textarea height
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto'
@@ -76,6 +83,11 @@ export function MessageComposer({
   // Check for mentions on content change or cursor move
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setContent(e.target.value)
+    // Let others in the channel see that we're typing
+    if (userId && e.target.value.trim() && Date.now() - lastTypingSentAt.current > TYPING_SIGNAL_INTERVAL_MS) {
+      lastTypingSentAt.current = Date.now()
+      typingMutation.mutate({ channelId, threadId })
+    }
     // Check for mentions after state update
     setTimeout(checkForMention, 0)
   }
@@ -89,7 +101,6 @@ export function MessageComposer({
 
     createMutation.mutate({
       channelId,
-      userId,
       content: content.trim(),
       threadId,
     })
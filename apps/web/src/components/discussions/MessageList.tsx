@@ -37,6 +37,15 @@ function highlightMentions(content: string): React.ReactNode[] {
   return parts.length > 0 ? parts : [content]
 }
 
+// Drop a typing indicator once its sender stops re-announcing it
+const TYPING_TIMEOUT_MS = 6000
+
+function formatTyping(names: string[]): string {
+  if (names.length === 1) return `${names[0]} is typing…`
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`
+  return 'Several people are typing…'
+}
+
 interface MessageListProps {
   bandId: string
   channelId: string
@@ -52,33 +61,90 @@ export function MessageList({ bandId, channelId, userId, userRole }: MessageList
   const touchStartY = useRef(0)
   const PULL_THRESHOLD = 80
 
+  const [typing, setTyping] = useState<Record<string, { name: string; at: number }>>({})
+
+  // Push updates for this band's channels; polling below only runs while the stream is down
+  const events = trpc.channel.onEvents.useSubscription(
+    { bandId },
+    {
+      enabled: !!bandId && !!userId,
+      onStarted: () => {
+        utils.message.list.invalidate({ channelId })
+        utils.channel.list.invalidate({ bandId })
+      },
+      onData: (event) => {
+        if (event.type === 'unread') {
+          utils.channel.list.invalidate({ bandId })
+          utils.conversation.list.invalidate({ bandId })
+          return
+        }
+        if (event.channelId !== channelId) return
+
+        if (event.type === 'typing') {
+          if (!event.threadId) {
+            setTyping(prev => ({ ...prev, [event.user.id]: { name: event.user.name, at: Date.now() } }))
+          }
+          return
+        }
+
+        if (event.type === 'message.created') {
+          setTyping(({ [event.message.author.id]: _, ...rest }) => rest)
+        }
+
+        utils.message.list.invalidate({ channelId })
+        const threadId = 'message' in event ? event.message.threadId : event.threadId
+        if (threadId) {
+          utils.message.getThread.invalidate({ messageId: threadId })
+        }
+      },
+    }
+  )
+  const isLive = events.status === 'pending'
+
   const { data, isLoading, refetch } = trpc.message.list.useQuery(
-    { channelId, userId: userId || '', limit: 100 },
+    { channelId, limit: 100 },
     { enabled: !!channelId && !!userId }
   )
 
   const markAsReadMutation = trpc.message.markAsRead.useMutation({
     onSuccess: () => {
-      // Invalidate channel list to update unread counts in sidebar
+      // Invalidate channel and conversation lists to update unread counts
       utils.channel.list.invalidate({ bandId })
+      utils.conversation.list.invalidate({ bandId })
     },
   })
 
   // Mark channel as read when viewing
   useEffect(() => {
     if (channelId && userId) {
-      markAsReadMutation.mutate({ channelId, userId })
+      markAsReadMutation.mutate({ channelId })
     }
   }, [channelId, userId])
 
-  // Set up polling for new messages
+  // Fall back to polling for new messages while the stream is down
   useEffect(() => {
+    if (isLive) return
     const interval = setInterval(() => {
       refetch()
     }, 5000) // Poll every 5 seconds
 
     return () => clearInterval(interval)
-  }, [refetch])
+  }, [refetch, isLive])
+
+  // Typing indicators belong to the channel being viewed
+  useEffect(() => {
+    setTyping({})
+  }, [channelId])
+
+  // Expire typing indicators that stopped being refreshed
+  useEffect(() => {
+    if (Object.keys(typing).length === 0) return
+    const timeout = setTimeout(() => {
+      const cutoff = Date.now() - TYPING_TIMEOUT_MS
+      setTyping(prev => Object.fromEntries(Object.entries(prev).filter(([, t]) => t.at > cutoff)))
+    }, 1000)
+    return () => clearTimeout(timeout)
+  }, [typing])
 
   // Pull-to-refresh handlers (mobile only)
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -141,6 +207,11 @@ export function MessageList({ bandId, channelId, userId, userRole }: MessageList
         {/* Main channel composer lives inside the scroll area so it scrolls away, not pinned */}
         <div className="mb-3">
           <MessageComposer channelId={channelId} userId={userId} />
+          {Object.keys(typing).length > 0 && (
+            <Text variant="small" color="muted" className="px-3 pt-1 italic">
+              {formatTyping(Object.values(typing).map(t => t.name))}
+            </Text>
+          )}
         </div>
         {messages.length === 0 ? (
           <div className="flex items-center justify-center py-8">
@@ -156,6 +227,7 @@ export function MessageList({ bandId, channelId, userId, userRole }: MessageList
                 message={message}
                 userId={userId}
                 userRole={userRole}
+                isLive={isLive}
               />
             ))}
           </Stack>
@@ -188,6 +260,7 @@ interface MessageItemProps {
   }
   userId: string | null
   userRole?: string
+  isLive: boolean
 }
 
 interface InlineReplyProps {
@@ -256,7 +329,7 @@ function InlineReply({ reply, userId, userRole, bandId }: InlineReplyProps) {
             size="sm"
             onClick={() => {
               if (confirm('Delete this reply?')) {
-                deleteMutation.mutate({ messageId: reply.id, userId: userId! })
+                deleteMutation.mutate({ messageId: reply.id })
               }
             }}
             className="min-h-[44px] md:min-h-0 px-3 py-2 md:px-2 md:py-0 text-red-600 text-sm md:text-xs"
@@ -269,7 +342,7 @@ function InlineReply({ reply, userId, userRole, bandId }: InlineReplyProps) {
   )
 }
 
-function MessageItem({ bandId, channelId, message, userId, userRole }: MessageItemProps) {
+function MessageItem({ bandId, channelId, message, userId, userRole, isLive }: MessageItemProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editContent, setEditContent] = useState(message.content)
   const [isExpanded, setIsExpanded] = useState(false)
@@ -278,16 +351,16 @@ function MessageItem({ bandId, channelId, message, userId, userRole }: MessageIt
 
   // Fetch thread data when expanded
   const { data: threadData, refetch: refetchThread } = trpc.message.getThread.useQuery(
-    { messageId: message.id, userId: userId || '', limit: 100 },
+    { messageId: message.id, limit: 100 },
     { enabled: isExpanded && !!userId }
   )
 
-  // Poll for new replies when expanded
+  // Poll for new replies when expanded and the stream is down
   useEffect(() => {
-    if (!isExpanded) return
+    if (!isExpanded || isLive) return
     const interval = setInterval(() => refetchThread(), 5000)
     return () => clearInterval(interval)
-  }, [isExpanded, refetchThread])
+  }, [isExpanded, isLive, refetchThread])
 
   const pinMutation = trpc.message.pin.useMutation({
     onSuccess: () => utils.message.list.invalidate(),
@@ -336,15 +409,15 @@ function MessageItem({ bandId, channelId, message, userId, userRole }: MessageIt
   const handlePin = () => {
     if (!userId) return
     if (message.isPinned) {
-      unpinMutation.mutate({ messageId: message.id, userId })
+      unpinMutation.mutate({ messageId: message.id })
     } else {
-      pinMutation.mutate({ messageId: message.id, userId })
+      pinMutation.mutate({ messageId: message.id })
     }
   }
 
   const handleDelete = () => {
     if (!userId || !confirm('Delete this message?')) return
-    deleteMutation.mutate({ messageId: message.id, userId })
+    deleteMutation.mutate({ messageId: message.id })
   }
 
   const handleStartEdit = () => {
@@ -361,7 +434,6 @@ function MessageItem({ bandId, channelId, message, userId, userRole }: MessageIt
     if (!userId || !editContent.trim()) return
     editMutation.mutate({
       messageId: message.id,
-      userId,
       content: editContent.trim(),
     })
   }
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import { Modal, Stack, Flex, Text, Button, Input, useToast } from '@/components/ui'
+
+// Including yourself; matches the API limit
+const MAX_PARTICIPANTS = 10
+
+interface NewConversationModalProps {
+  isOpen: boolean
+  onClose: () => void
+  bandId: string
+  userId: string
+  members: { id: string; name: string }[]
+  onConversationStarted: (conversationId: string) => void
+}
+
+export function NewConversationModal({
+  isOpen,
+  onClose,
+  bandId,
+  userId,
+  members,
+  onConversationStarted,
+}: NewConversationModalProps) {
+  const [selected, setSelected] = useState<string[]>([])
+  const [search, setSearch] = useState('')
+  const [name, setName] = useState('')
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const startMutation = trpc.conversation.start.useMutation({
+    onSuccess: (data) => {
+      utils.conversation.list.invalidate({ bandId })
+      onConversationStarted(data.conversation.id)
+      handleClose()
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const handleClose = () => {
+    setSelected([])
+    setSearch('')
+    setName('')
+    onClose()
+  }
+
+  const toggle = (memberId: string) => {
+    setSelected(prev =>
+      prev.includes(memberId)
+        ? prev.filter(id => id !== memberId)
+        : prev.length < MAX_PARTICIPANTS - 1 ? [...prev, memberId] : prev
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (selected.length === 0) return
+
+    startMutation.mutate({
+      bandId,
+      userIds: selected,
+      name: selected.length > 1 && name.trim() ? name.trim() : undefined,
+    })
+  }
+
+  const candidates = members
+    .filter(m => m.id !== userId)
+    .filter(m => !search || m.name.toLowerCase().includes(search.toLowerCase()))
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose}>
+      <form onSubmit={handleSubmit}>
+        <Stack spacing="lg">
+          <Text weight="semibold" className="text-xl">New Message</Text>
+          <Text variant="small" color="muted">
+            Pick one bandmate for a private conversation, or up to {MAX_PARTICIPANTS - 1} for a group.
+            Only the people in it can see it.
+          </Text>
+
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search members..."
+          />
+
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+            {candidates.length === 0 ? (
+              <div className="p-3">
+                <Text variant="small" color="muted">No members match.</Text>
+              </div>
+            ) : (
+              candidates.map((member) => (
+                <label
+                  key={member.id}
+                  className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(member.id)}
+                    onChange={() => toggle(member.id)}
+                  />
+                  <Text variant="small">{member.name}</Text>
+                </label>
+              ))
+            )}
+          </div>
+
+          {selected.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Group name (optional)
+              </label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Setlist crew"
+                maxLength={80}
+              />
+            </div>
+          )}
+
+          {/* Actions */}
+          <Flex gap="md" justify="end">
+            <Button type="button" variant="ghost" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={selected.length === 0 || startMutation.isPending}
+            >
+              {startMutation.isPending ? 'Starting...' : 'Start Conversation'}
+            </Button>
+          </Flex>
+        </Stack>
+      </form>
+    </Modal>
+  )
+}
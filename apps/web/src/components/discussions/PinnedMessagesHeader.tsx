@@ -23,7 +23,7 @@ export function PinnedMessagesHeader({ bandId, channelId, userId, onMessageClick
   const [isExpanded, setIsExpanded] = useState(false)
 
   const { data } = trpc.channel.get.useQuery(
-    { bandId, channelId, userId: userId || '' },
+    { bandId, channelId },
     { enabled: !!bandId && !!channelId && !!userId }
   )
 
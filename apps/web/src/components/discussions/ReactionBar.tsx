@@ -43,7 +43,6 @@ export function ReactionBar({
 
     toggleMutation.mutate({
       messageId,
-      userId,
       emoji,
     })
   }
@@ -63,7 +63,6 @@ export function SearchModal({
   const { data, isLoading, isFetching } = trpc.message.advancedSearch.useQuery(
     {
       bandId,
-      userId,
       query: query.trim(),
       channelId: channelFilter || undefined,
       dateFrom: dateFrom || undefined,
@@ -45,7 +45,7 @@ export function ThreadView({ messageId, channelId, bandId, userId, userRole, onC
   const repliesEndRef = useRef<HTMLDivElement>(null)
 
   const { data, isLoading, refetch } = trpc.message.getThread.useQuery(
-    { messageId, userId: userId || '', limit: 100 },
+    { messageId, limit: 100 },
     { enabled: !!messageId && !!userId }
   )
 
@@ -194,7 +194,7 @@ function ThreadMessage({ bandId, message, userId, userRole, isParent }: ThreadMe
 
   const handleDelete = () => {
     if (!userId || !confirm('Delete this message?')) return
-    deleteMutation.mutate({ messageId: message.id, userId })
+    deleteMutation.mutate({ messageId: message.id })
   }
 
   return (
@@ -8,3 +8,5 @@ export { ReactionBar } from './ReactionBar'
 export { ReactionPicker } from './ReactionPicker'
 export { SearchModal } from './SearchModal'
 export { MentionAutocomplete } from './MentionAutocomplete'
+export { ConversationList } from './ConversationList'
+export { NewConversationModal } from './NewConversationModal'
@@ -109,7 +109,6 @@ export function CreateDonationModal({
     if (frequency === 'ONE_TIME') {
       createOneTimeMutation.mutate({
         bandId,
-        userId,
         amount: amountCents,
         paymentMethod: paymentMethod as any,
         paymentMethodOther: paymentMethod === 'OTHER' ? paymentMethodOther : undefined,
@@ -124,7 +123,6 @@ export function CreateDonationModal({
 
       createRecurringMutation.mutate({
         bandId,
-        userId,
         amount: amountCents,
         frequency: frequency as 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY',
         paymentMethod: paymentMethod as any,
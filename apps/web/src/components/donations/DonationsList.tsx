@@ -18,6 +18,7 @@ const STATUS_BADGES: Record<string, { variant: 'success' | 'warning' | 'danger'
   MISSED: { variant: 'danger', label: 'Missed' },
   REJECTED: { variant: 'danger', label: 'Rejected' },
   CANCELLED: { variant: 'neutral', label: 'Cancelled' },
+  REFUNDED: { variant: 'neutral', label: 'Refunded' },
 }
 
 const PAYMENT_METHODS: Record<string, string> = {
@@ -31,7 +32,7 @@ const PAYMENT_METHODS: Record<string, string> = {
 
 export function DonationsList({ bandId, userId, isTreasurer, onConfirm, onReject }: DonationsListProps) {
   const { data, isLoading, refetch } = trpc.donation.list.useQuery(
-    { bandId, userId, limit: 50 },
+    { bandId, limit: 50 },
     { enabled: !!bandId && !!userId }
   )
 
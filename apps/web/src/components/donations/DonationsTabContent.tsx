@@ -52,13 +52,13 @@ export function DonationsTabContent({
 
   // Get donation settings
   const { data: settingsData, isLoading: settingsLoading } = trpc.donation.getSettings.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
   // Get summary for treasurers
   const { data: summaryData } = trpc.donation.getSummary.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId && isTreasurer }
   )
 
@@ -111,7 +111,6 @@ export function DonationsTabContent({
     if (!selectedDonationId) return
     confirmMutation.mutate({
       donationId: selectedDonationId,
-      userId,
       note: confirmNote || undefined,
     })
   }
@@ -123,7 +122,6 @@ export function DonationsTabContent({
     }
     rejectMutation.mutate({
       donationId: selectedDonationId,
-      userId,
       reason: rejectReason,
     })
   }
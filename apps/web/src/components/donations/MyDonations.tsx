@@ -17,6 +17,7 @@ const STATUS_BADGES: Record<string, { variant: 'success' | 'warning' | 'danger'
   MISSED: { variant: 'danger', label: 'Missed' },
   REJECTED: { variant: 'danger', label: 'Rejected' },
   CANCELLED: { variant: 'neutral', label: 'Cancelled' },
+  REFUNDED: { variant: 'neutral', label: 'Refunded' },
 }
 
 const RECURRING_STATUS_BADGES: Record<string, { variant: 'success' | 'warning' | 'danger' | 'neutral'; label: string }> = {
@@ -47,7 +48,7 @@ export function MyDonations({ bandId, userId, bandSlug }: MyDonationsProps) {
   const [submitNote, setSubmitNote] = useState('')
 
   const { data, isLoading } = trpc.donation.getMyDonations.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
@@ -113,7 +114,6 @@ export function MyDonations({ bandId, userId, bandSlug }: MyDonationsProps) {
     if (!submittingDonationId) return
     submitPaymentMutation.mutate({
       donationId: submittingDonationId,
-      userId,
       referenceNumber: referenceNumber || undefined,
       note: submitNote || undefined,
     })
@@ -204,7 +204,7 @@ export function MyDonations({ bandId, userId, bandSlug }: MyDonationsProps) {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => pauseRecurringMutation.mutate({ recurringDonationId: recurring.id, userId })}
+                          onClick={() => pauseRecurringMutation.mutate({ recurringDonationId: recurring.id })}
                           disabled={pauseRecurringMutation.isPending}
                         >
                           Pause
@@ -227,7 +227,7 @@ export function MyDonations({ bandId, userId, bandSlug }: MyDonationsProps) {
                         <Button
                           variant="primary"
                           size="sm"
-                          onClick={() => resumeRecurringMutation.mutate({ recurringDonationId: recurring.id, userId })}
+                          onClick={() => resumeRecurringMutation.mutate({ recurringDonationId: recurring.id })}
                           disabled={resumeRecurringMutation.isPending}
                         >
                           Resume
@@ -345,7 +345,7 @@ export function MyDonations({ bandId, userId, bandSlug }: MyDonationsProps) {
               size="sm"
               onClick={() => {
                 if (cancellingId) {
-                  cancelRecurringMutation.mutate({ recurringDonationId: cancellingId, userId })
+                  cancelRecurringMutation.mutate({ recurringDonationId: cancellingId })
                 }
               }}
               disabled={cancelRecurringMutation.isPending}
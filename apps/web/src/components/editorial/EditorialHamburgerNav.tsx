@@ -8,6 +8,7 @@ import { useHelp } from '@/components/help/HelpContext'
 import { FeedbackModal } from '@/components/feedback'
 import { useToast } from '@/components/ui'
 import { trpc } from '@/lib/trpc'
+import { signOut } from '@/lib/auth-session'
 import {
   EDITORIAL_PRIMARY_ITEMS,
   isEditorialAccountActive,
@@ -38,7 +39,7 @@ export function EditorialHamburgerNav() {
   }, [])
 
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: !!userId }
   )
 
@@ -78,9 +79,7 @@ export function EditorialHamburgerNav() {
   }
 
   const handleLogout = () => {
-    localStorage.removeItem('accessToken')
-    localStorage.removeItem('refreshToken')
-    localStorage.removeItem('userEmail')
+    signOut()
     showToast('Logged out successfully', 'success')
     setOpen(false)
     router.push('/')
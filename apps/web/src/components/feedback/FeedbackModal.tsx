@@ -53,7 +53,6 @@ export function FeedbackModal({ isOpen, onClose }: FeedbackModalProps) {
     try {
       const result = await uploadFileMutation.mutateAsync({
         ...fileData,
-        userId,
       })
 
       setUploadedFiles(prev => [...prev, {
@@ -97,7 +96,6 @@ export function FeedbackModal({ isOpen, onClose }: FeedbackModalProps) {
         category,
         title,
         description,
-        userId,
         attachmentIds: uploadedFiles.map(f => f.id),
       })
 
@@ -0,0 +1,54 @@
+'use client'
+
+import { trpc } from '@/lib/trpc'
+import { Text, Badge, Loading } from '@/components/ui'
+
+interface BucketLedgerProps {
+  bandId: string
+  bucketId: string | null // null = general fund
+}
+
+const formatCents = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`
+
+/**
+ * Recent ledger entries for one bucket, newest first, with the running balance after each entry
+ */
+export function BucketLedger({ bandId, bucketId }: BucketLedgerProps) {
+  const { data, isLoading } = trpc.ledger.getBucketLedger.useQuery({ bandId, bucketId, limit: 50 })
+
+  if (isLoading) {
+    return <Loading message="Loading ledger..." />
+  }
+
+  if (!data?.entries.length) {
+    return <Text variant="small" color="muted">No transactions yet.</Text>
+  }
+
+  return (
+    <div className="border border-gray-100 rounded">
+      <div className="grid grid-cols-[5.5rem_1fr_5.5rem_5.5rem] gap-2 px-2 py-1 text-xs font-medium text-gray-500 bg-gray-50">
+        <span>Date</span>
+        <span>Description</span>
+        <span className="text-right">Amount</span>
+        <span className="text-right">Balance</span>
+      </div>
+      {data.entries.map(entry => (
+        <div
+          key={entry.id}
+          className="grid grid-cols-[5.5rem_1fr_5.5rem_5.5rem] gap-2 px-2 py-1 text-xs border-t border-gray-100 items-center"
+        >
+          <span className="text-gray-500">{new Date(entry.transaction.occurredAt).toLocaleDateString()}</span>
+          <span className="truncate text-gray-700">
+            {entry.transaction.description}
+            {entry.transaction.proposalId && <Badge variant="info" size="sm" className="ml-1">Proposal</Badge>}
+          </span>
+          <span className={`text-right font-mono ${entry.amount < 0 ? 'text-red-600' : 'text-green-700'}`}>
+            {formatCents(entry.amount)}
+          </span>
+          <span className="text-right font-mono text-gray-900">{formatCents(entry.balance)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
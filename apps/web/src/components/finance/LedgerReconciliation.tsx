@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import { Text, Button, Badge, Flex, Loading, useToast } from '@/components/ui'
+
+interface LedgerReconciliationProps {
+  bandId: string
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  DONATION: 'Donations',
+  MANUAL_PAYMENT: 'Manual dues payments',
+  STRIPE_DUES: 'Stripe dues',
+  REIMBURSEMENT: 'Reimbursed expenses',
+}
+
+const formatCents = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`
+
+/**
+ * Treasurer view comparing confirmed records with ledger postings, and
+ * checking transactions off against bank / processor statements
+ */
+export function LedgerReconciliation({ bandId }: LedgerReconciliationProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [selected, setSelected] = useState<string[]>([])
+
+  const { data, isLoading } = trpc.ledger.getReconciliation.useQuery({ bandId })
+
+  const postMissingMutation = trpc.ledger.postMissing.useMutation({
+    onSuccess: (result) => {
+      showToast(`Posted ${result.posted} missing record${result.posted === 1 ? '' : 's'}`, 'success')
+      utils.ledger.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message || 'Failed to post missing records', 'error')
+    },
+  })
+
+  const markReconciledMutation = trpc.ledger.markReconciled.useMutation({
+    onSuccess: (result) => {
+      showToast(`Reconciled ${result.count} transaction${result.count === 1 ? '' : 's'}`, 'success')
+      setSelected([])
+      utils.ledger.invalidate()
+    },
+    onError: (error) => {
+      showToast(error.message || 'Failed to reconcile transactions', 'error')
+    },
+  })
+
+  if (isLoading) {
+    return <Loading message="Loading reconciliation..." />
+  }
+
+  if (!data) return null
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Source totals vs ledger */}
+      <div className="border border-gray-100 rounded">
+        <div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 px-2 py-1 text-xs font-medium text-gray-500 bg-gray-50">
+          <span>Source</span>
+          <span className="text-right">Recorded</span>
+          <span className="text-right">In ledger</span>
+          <span className="text-right">Difference</span>
+        </div>
+        {data.sources.map(source => (
+          <div key={source.sourceType} className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 px-2 py-1 text-xs border-t border-gray-100">
+            <span className="text-gray-700">{SOURCE_LABELS[source.sourceType]}</span>
+            <span className="text-right font-mono">
+              {source.recorded === null ? <span className="text-gray-400">Stripe</span> : formatCents(source.recorded)}
+            </span>
+            <span className="text-right font-mono">{formatCents(source.posted)}</span>
+            <span className={`text-right font-mono ${source.difference !== 0 ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+              {source.difference === 0 ? '—' : formatCents(source.difference)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Unposted records */}
+      {data.unpostedCount > 0 ? (
+        <Flex justify="between" align="center" className="bg-yellow-50 border border-yellow-200 rounded px-2 py-1.5">
+          <Text variant="small">
+            {data.unpostedCount} confirmed record{data.unpostedCount === 1 ? ' is' : 's are'} missing from the ledger
+          </Text>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => postMissingMutation.mutate({ bandId })}
+            disabled={postMissingMutation.isPending}
+          >
+            {postMissingMutation.isPending ? 'Posting...' : 'Post Missing'}
+          </Button>
+        </Flex>
+      ) : (
+        <Text variant="small" color="muted">Every confirmed record is in the ledger.</Text>
+      )}
+
+      {/* Unreconciled transactions */}
+      <div>
+        <Flex justify="between" align="center" className="mb-1">
+          <Text variant="small" weight="semibold">
+            Unreconciled transactions <Badge variant="neutral" size="sm">{data.unreconciled.length}</Badge>
+          </Text>
+          {data.unreconciled.length > 0 && (
+            <Flex gap="sm">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(
+                  selected.length === data.unreconciled.length ? [] : data.unreconciled.map(t => t.id)
+                )}
+              >
+                {selected.length === data.unreconciled.length ? 'Clear' : 'Select all'}
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() => markReconciledMutation.mutate({ bandId, transactionIds: selected })}
+                disabled={selected.length === 0 || markReconciledMutation.isPending}
+              >
+                Mark Reconciled
+              </Button>
+            </Flex>
+          )}
+        </Flex>
+
+        {data.unreconciled.length === 0 ? (
+          <Text variant="small" color="muted">All transactions have been reconciled.</Text>
+        ) : (
+          <div className="border border-gray-100 rounded max-h-72 overflow-y-auto">
+            {data.unreconciled.map(transaction => {
+              const moneyIn = transaction.entries
+                .filter(e => e.account === 'BUCKET' || e.account === 'GENERAL_FUND')
+                .reduce((sum, e) => sum + e.amount, 0)
+              return (
+                <label
+                  key={transaction.id}
+                  className="flex items-center gap-2 px-2 py-1 text-xs border-t border-gray-100 first:border-t-0 cursor-pointer hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(transaction.id)}
+                    onChange={() => toggle(transaction.id)}
+                    className="w-3.5 h-3.5 rounded border-gray-300"
+                  />
+                  <span className="w-20 text-gray-500">{new Date(transaction.occurredAt).toLocaleDateString()}</span>
+                  <Badge variant={transaction.kind === 'EXPENSE' ? 'warning' : transaction.kind === 'TRANSFER' ? 'info' : transaction.kind === 'REVERSAL' ? 'danger' : 'success'} size="sm">
+                    {transaction.kind}
+                  </Badge>
+                  <span className="flex-1 truncate text-gray-700">{transaction.description}</span>
+                  <span className={`font-mono ${moneyIn < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {transaction.kind === 'TRANSFER' ? '' : formatCents(moneyIn)}
+                  </span>
+                </label>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
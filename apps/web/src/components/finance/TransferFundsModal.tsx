@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Stack,
+  Flex,
+  Text,
+  Button,
+  Modal,
+  Input,
+  Select,
+  Alert,
+  useToast,
+  StepUpModal,
+  useStepUp,
+} from '@/components/ui'
+
+// Money leaving these buckets needs a governance proposal
+const GOVERNED_BUCKET_TYPES = ['RESTRICTED', 'COMMITMENT']
+
+// Select value for the general fund (bucketId = null)
+const GENERAL_FUND = 'GENERAL_FUND'
+
+interface Bucket {
+  id: string
+  name: string
+  type: string
+}
+
+interface TransferFundsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  bandId: string
+  buckets: Bucket[]
+  balances: { buckets: Record<string, number>; generalFund: number }
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`
+
+export function TransferFundsModal({
+  isOpen,
+  onClose,
+  bandId,
+  buckets,
+  balances,
+}: TransferFundsModalProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const [fromId, setFromId] = useState(GENERAL_FUND)
+  const [toId, setToId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [description, setDescription] = useState('')
+  const stepUp = useStepUp()
+
+  const transferMutation = trpc.ledger.transfer.useMutation({
+    onSuccess: () => {
+      showToast('Transfer recorded', 'success')
+      utils.ledger.invalidate()
+      resetForm()
+      onClose()
+    },
+    onError: (error, variables) => {
+      if (stepUp.handleError(error, () => transferMutation.mutate(variables))) return
+      showToast(error.message || 'Failed to transfer funds', 'error')
+    },
+  })
+
+  const resetForm = () => {
+    setFromId(GENERAL_FUND)
+    setToId('')
+    setAmount('')
+    setDescription('')
+  }
+
+  const balanceOf = (id: string) =>
+    id === GENERAL_FUND ? balances.generalFund : balances.buckets[id] ?? 0
+
+  const sourceOptions = buckets.filter(b => !GOVERNED_BUCKET_TYPES.includes(b.type))
+  const governedBuckets = buckets.filter(b => GOVERNED_BUCKET_TYPES.includes(b.type))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amountCents = Math.round(parseFloat(amount) * 100)
+    if (!toId || toId === fromId) {
+      showToast('Choose a different destination', 'error')
+      return
+    }
+    if (isNaN(amountCents) || amountCents <= 0) {
+      showToast('Please enter a valid amount', 'error')
+      return
+    }
+    if (amountCents > balanceOf(fromId)) {
+      showToast(`Only ${formatCents(balanceOf(fromId))} available`, 'error')
+      return
+    }
+
+    transferMutation.mutate({
+      bandId,
+      fromBucketId: fromId === GENERAL_FUND ? null : fromId,
+      toBucketId: toId === GENERAL_FUND ? null : toId,
+      amount: amountCents,
+      description: description.trim() || 'Transfer between buckets',
+    })
+  }
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose}>
+        <form onSubmit={handleSubmit}>
+          <Stack spacing="md">
+            <Text weight="semibold" className="text-lg">Transfer Funds</Text>
+
+            <Select label="From" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+              <option value={GENERAL_FUND}>General Fund ({formatCents(balances.generalFund)})</option>
+              {sourceOptions.map(bucket => (
+                <option key={bucket.id} value={bucket.id}>
+                  {bucket.name} ({formatCents(balanceOf(bucket.id))})
+                </option>
+              ))}
+            </Select>
+
+            <Select label="To" value={toId} onChange={(e) => setToId(e.target.value)} required>
+              <option value="">Select destination</option>
+              {fromId !== GENERAL_FUND && <option value={GENERAL_FUND}>General Fund</option>}
+              {buckets.filter(b => b.id !== fromId).map(bucket => (
+                <option key={bucket.id} value={bucket.id}>{bucket.name}</option>
+              ))}
+            </Select>
+
+            <Input
+              label="Amount (USD)"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="50.00"
+              required
+            />
+
+            <Input
+              label="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Fund gear purchase"
+              maxLength={255}
+            />
+
+            {governedBuckets.length > 0 && (
+              <Alert variant="info">
+                <Text variant="small">
+                  Moving money out of {governedBuckets.map(b => b.name).join(', ')} requires a
+                  Finance &amp; Buckets governance proposal.
+                </Text>
+              </Alert>
+            )}
+
+            <Flex gap="sm" justify="end">
+              <Button type="button" variant="ghost" size="sm" onClick={onClose} disabled={transferMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" size="sm" disabled={transferMutation.isPending}>
+                {transferMutation.isPending ? 'Transferring...' : 'Transfer'}
+              </Button>
+            </Flex>
+          </Stack>
+        </form>
+      </Modal>
+      <StepUpModal {...stepUp.modalProps} />
+    </>
+  )
+}
@@ -0,0 +1,3 @@
+export { TransferFundsModal } from './TransferFundsModal'
+export { BucketLedger } from './BucketLedger'
+export { LedgerReconciliation } from './LedgerReconciliation'
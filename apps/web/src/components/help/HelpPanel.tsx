@@ -84,7 +84,7 @@ export function HelpPanel() {
 
   // Rate limit query
   const { data: rateLimitData } = trpc.help.getRateLimit.useQuery(
-    { userId: userId! },
+    undefined,
     { enabled: isOpen && !!userId }
   )
 
@@ -119,7 +119,6 @@ export function HelpPanel() {
     if (!question.trim() || !userId || askMutation.isPending) return
 
     askMutation.mutate({
-      userId,
       question: question.trim(),
       currentPage: pathname,
     })
@@ -366,7 +365,6 @@ export function HelpPanel() {
                           setQuestion(q)
                           if (userId) {
                             askMutation.mutate({
-                              userId,
                               question: q,
                               currentPage: pathname,
                             })
@@ -26,12 +26,12 @@ export function DailyOnboarding({ userId }: Props) {
   const router = useRouter()
   const { showToast } = useToast()
 
-  const { data: invitationsData } = trpc.band.getMyInvitations.useQuery({ userId })
+  const { data: invitationsData } = trpc.band.getMyInvitations.useQuery()
   const {
     data: profileData,
     isLoading: profileLoading,
     isError: profileError,
-  } = trpc.profile.get.useQuery({ userId })
+  } = trpc.profile.get.useQuery()
 
   const acceptMutation = trpc.band.acceptInvitation.useMutation({
     onSuccess: () => {
@@ -89,7 +89,7 @@ export function DailyOnboarding({ userId }: Props) {
                 <button
                   type="button"
                   className="np-profile-btn np-profile-btn-primary"
-                  onClick={() => acceptMutation.mutate({ membershipId: invitation.id, userId })}
+                  onClick={() => acceptMutation.mutate({ membershipId: invitation.id })}
                   disabled={acceptMutation.isPending}
                 >
                   {acceptMutation.isPending ? 'Joining…' : 'Join'}
@@ -14,7 +14,7 @@ interface Props {
 
 export function NewspaperFirstQuickAction({ userId }: Props) {
   const { data, isLoading } = trpc.quick.getMyActions.useQuery(
-    { userId, limit: 1 },
+    { limit: 1 },
     {
       enabled: !!userId,
       refetchOnWindowFocus: true,
@@ -27,7 +27,7 @@ export function OnboardingBanner({ bandId, bandSlug, userId }: OnboardingBannerP
   } | null>(null)
 
   const { data: onboarding, isLoading, refetch } = trpc.onboarding.getBandOnboarding.useQuery(
-    { bandId, userId },
+    { bandId },
     {
       enabled: !!bandId && !!userId,
       // Refetch every 30 seconds to catch milestone completions
@@ -95,7 +95,7 @@ export function OnboardingBanner({ bandId, bandSlug, userId }: OnboardingBannerP
 
   const handleDismiss = () => {
     if (window.confirm('Are you sure you want to dismiss onboarding? You can always access setup guides in the band settings.')) {
-      dismissMutation.mutate({ bandId, userId })
+      dismissMutation.mutate({ bandId })
     }
   }
 
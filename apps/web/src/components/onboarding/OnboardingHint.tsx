@@ -15,7 +15,7 @@ export function OnboardingHint({ bandId, userId, relevantSteps }: OnboardingHint
   const [dismissed, setDismissed] = useState(false)
 
   const { data: onboarding, isLoading } = trpc.onboarding.getBandOnboarding.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
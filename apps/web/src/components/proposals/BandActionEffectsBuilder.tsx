@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Flex,
+  Stack,
+  Card,
+} from '@/components/ui'
+
+export interface ProposalEffectInput {
+  type: string
+  payload: Record<string, any>
+  order?: number
+}
+
+const ACTIONS = [
+  { value: 'CHANGE_MEMBER_ROLE', label: 'Change a member\'s role' },
+  { value: 'CREATE_CHANNEL', label: 'Create a channel' },
+  { value: 'CREATE_EVENT', label: 'Create an event' },
+  { value: 'ADJUST_DUES_PLAN', label: 'Adjust the dues plan' },
+]
+
+// Founders can't be assigned or changed by proposal
+const ASSIGNABLE_ROLES = ['GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']
+const CHANNEL_VISIBILITIES = [
+  { value: 'PUBLIC', label: 'All members' },
+  { value: 'MODERATOR', label: 'Moderators and above' },
+  { value: 'GOVERNANCE', label: 'Governors and founders' },
+]
+const EVENT_TYPES = [
+  { value: 'ONLINE_MEETING', label: 'Online meeting' },
+  { value: 'IN_PERSON_MEETING', label: 'In-person meeting' },
+  { value: 'SOCIAL', label: 'Social' },
+  { value: 'HYBRID', label: 'Hybrid' },
+]
+
+interface BandActionEffectsBuilderProps {
+  members: { role: string; user: { id: string; name: string } }[]
+  onAdd: (effect: ProposalEffectInput) => void
+}
+
+const EMPTY_FORM: Record<string, string> = {}
+
+/**
+ * Form for adding BAND_ACTIONS_V1 effects. Payloads are checked on the
+ * server, so this only shapes the input.
+ */
+export function BandActionEffectsBuilder({ members, onAdd }: BandActionEffectsBuilderProps) {
+  const [action, setAction] = useState('')
+  const [form, setForm] = useState<Record<string, string>>(EMPTY_FORM)
+
+  const field = (name: string) => ({
+    value: form[name] ?? '',
+    onChange: (e: { target: { value: string } }) => setForm({ ...form, [name]: e.target.value }),
+  })
+
+  const reset = (next: string) => {
+    setAction(next)
+    setForm(EMPTY_FORM)
+  }
+
+  const buildPayload = (): Record<string, unknown> | null => {
+    switch (action) {
+      case 'CHANGE_MEMBER_ROLE':
+        return form.userId && form.role ? { userId: form.userId, role: form.role } : null
+      case 'CREATE_CHANNEL':
+        return form.name?.trim()
+          ? {
+              name: form.name.trim(),
+              description: form.description?.trim() || undefined,
+              visibility: form.visibility || undefined,
+            }
+          : null
+      case 'CREATE_EVENT':
+        if (!form.title?.trim() || !form.eventType || !form.startTime || !form.endTime) return null
+        return {
+          title: form.title.trim(),
+          description: form.description?.trim() || undefined,
+          eventType: form.eventType,
+          startTime: new Date(form.startTime).toISOString(),
+          endTime: new Date(form.endTime).toISOString(),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          location: form.location?.trim() || undefined,
+          meetingUrl: form.meetingUrl?.trim() || undefined,
+        }
+      case 'ADJUST_DUES_PLAN': {
+        const dollars = parseFloat(form.amount || '')
+        return dollars > 0 && form.interval
+          ? { amountCents: Math.round(dollars * 100), interval: form.interval }
+          : null
+      }
+      default:
+        return null
+    }
+  }
+
+  const payload = buildPayload()
+
+  return (
+    <Card className="bg-gray-50">
+      <Stack spacing="sm">
+        <Select label="Action" value={action} onChange={(e) => reset(e.target.value)}>
+          <option value="">Choose an action...</option>
+          {ACTIONS.map(a => (
+            <option key={a.value} value={a.value}>{a.label}</option>
+          ))}
+        </Select>
+
+        {action === 'CHANGE_MEMBER_ROLE' && (
+          <Flex gap="sm">
+            <Select label="Member" {...field('userId')}>
+              <option value="">Choose a member...</option>
+              {members.filter(m => m.role !== 'FOUNDER').map(m => (
+                <option key={m.user.id} value={m.user.id}>{m.user.name} ({m.role.replace(/_/g, ' ')})</option>
+              ))}
+            </Select>
+            <Select label="New role" {...field('role')}>
+              <option value="">Choose a role...</option>
+              {ASSIGNABLE_ROLES.map(role => (
+                <option key={role} value={role}>{role.replace(/_/g, ' ')}</option>
+              ))}
+            </Select>
+          </Flex>
+        )}
+
+        {action === 'CREATE_CHANNEL' && (
+          <>
+            <Input label="Channel name" {...field('name')} />
+            <Input label="Description (optional)" {...field('description')} />
+            <Select label="Who can see it" {...field('visibility')}>
+              {CHANNEL_VISIBILITIES.map(v => (
+                <option key={v.value} value={v.value}>{v.label}</option>
+              ))}
+            </Select>
+          </>
+        )}
+
+        {action === 'CREATE_EVENT' && (
+          <>
+            <Input label="Event title" {...field('title')} />
+            <Textarea placeholder="Description (optional)" rows={2} {...field('description')} />
+            <Select label="Event type" {...field('eventType')}>
+              <option value="">Choose a type...</option>
+              {EVENT_TYPES.map(t => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </Select>
+            <Flex gap="sm">
+              <Input label="Starts" type="datetime-local" {...field('startTime')} />
+              <Input label="Ends" type="datetime-local" {...field('endTime')} />
+            </Flex>
+            <Input label="Location (optional)" {...field('location')} />
+            <Input label="Meeting URL (optional)" {...field('meetingUrl')} />
+          </>
+        )}
+
+        {action === 'ADJUST_DUES_PLAN' && (
+          <Flex gap="sm">
+            <Input label="Dues amount ($)" type="number" min={0.5} step="0.01" {...field('amount')} />
+            <Select label="Billed every" {...field('interval')}>
+              <option value="">Choose...</option>
+              <option value="month">Month</option>
+              <option value="year">Year</option>
+            </Select>
+          </Flex>
+        )}
+
+        {action && (
+          <Flex justify="end">
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={!payload}
+              onClick={() => {
+                if (!payload) return
+                onAdd({ type: action, payload })
+                reset('')
+              }}
+            >
+              + Add Effect
+            </Button>
+          </Flex>
+        )}
+      </Stack>
+    </Card>
+  )
+}
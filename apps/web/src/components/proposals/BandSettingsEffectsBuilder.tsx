@@ -0,0 +1,239 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Text,
+  Button,
+  Input,
+  Select,
+  Flex,
+  Stack,
+  Card,
+} from '@/components/ui'
+import type { ProposalEffectInput } from './BandActionEffectsBuilder'
+
+const SETTINGS = [
+  { value: 'SET_VOTING_METHOD', label: 'Voting method' },
+  { value: 'SET_VOTING_PERIOD', label: 'Default voting period' },
+  { value: 'SET_QUORUM', label: 'Quorum' },
+  { value: 'SET_PROPOSAL_CREATORS', label: 'Who can create proposals' },
+  { value: 'SET_ROLE_CHANGERS', label: 'Who can change member roles' },
+  { value: 'SET_PROPOSAL_REVIEW', label: 'Proposal review' },
+  { value: 'SET_MEMBER_APPROVAL_RULES', label: 'Membership approval rules' },
+  { value: 'SET_PARTICIPATION_RULE', label: 'Participation rule' },
+]
+
+const VOTING_METHODS = [
+  { value: 'SIMPLE_MAJORITY', label: 'Simple majority' },
+  { value: 'SUPERMAJORITY_66', label: 'Two-thirds supermajority' },
+  { value: 'SUPERMAJORITY_75', label: 'Three-quarters supermajority' },
+  { value: 'UNANIMOUS', label: 'Unanimous' },
+]
+
+const ROLES = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER', 'OBSERVER']
+
+interface BandSettingsEffectsBuilderProps {
+  onAdd: (effect: ProposalEffectInput) => void
+}
+
+/**
+ * Form for adding BAND_SETTINGS_GOVERNANCE_V1 effects. Payloads are checked
+ * on the server, so this only shapes the input.
+ */
+export function BandSettingsEffectsBuilder({ onAdd }: BandSettingsEffectsBuilderProps) {
+  const [setting, setSetting] = useState('')
+  const [value, setValue] = useState('')
+  const [secondValue, setSecondValue] = useState('')
+  const [thirdValue, setThirdValue] = useState('')
+  const [roles, setRoles] = useState<string[]>(['FOUNDER'])
+
+  const reset = (next: string) => {
+    setSetting(next)
+    setValue('')
+    setSecondValue('')
+    setThirdValue('')
+    setRoles(['FOUNDER'])
+  }
+
+  const buildPayload = (): Record<string, unknown> | null => {
+    switch (setting) {
+      case 'SET_VOTING_METHOD':
+        return value ? { value } : null
+      case 'SET_VOTING_PERIOD':
+        return value ? { days: Number(value) } : null
+      case 'SET_QUORUM':
+        return value ? { value: Number(value) } : null
+      case 'SET_PROPOSAL_CREATORS':
+      case 'SET_ROLE_CHANGERS':
+        return { value: roles }
+      case 'SET_PROPOSAL_REVIEW':
+        return value ? { value: value === 'true' } : null
+      case 'SET_MEMBER_APPROVAL_RULES': {
+        const payload: Record<string, number> = {}
+        if (value) payload.threshold = Number(value)
+        if (secondValue) payload.quorum = Number(secondValue)
+        return Object.keys(payload).length > 0 ? payload : null
+      }
+      case 'SET_PARTICIPATION_RULE': {
+        if (!value) return null
+        if (value === 'OFF') return { enabled: false }
+        const payload: Record<string, unknown> = { enabled: true, action: value }
+        if (secondValue) payload.minScore = Number(secondValue)
+        if (thirdValue) payload.windowDays = Number(thirdValue)
+        return payload
+      }
+      default:
+        return null
+    }
+  }
+
+  const payload = buildPayload()
+
+  return (
+    <Card className="bg-gray-50">
+      <Stack spacing="sm">
+        <Select label="Setting to change" value={setting} onChange={(e) => reset(e.target.value)}>
+          <option value="">Choose a setting...</option>
+          {SETTINGS.map(s => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </Select>
+
+        {setting === 'SET_VOTING_METHOD' && (
+          <Select label="New voting method" value={value} onChange={(e) => setValue(e.target.value)}>
+            <option value="">Choose a method...</option>
+            {VOTING_METHODS.map(m => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </Select>
+        )}
+
+        {setting === 'SET_VOTING_PERIOD' && (
+          <Input
+            label="Voting period (days)"
+            type="number"
+            min={1}
+            max={30}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        )}
+
+        {setting === 'SET_QUORUM' && (
+          <Input
+            label="Quorum (% of eligible voters)"
+            type="number"
+            min={0}
+            max={100}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        )}
+
+        {(setting === 'SET_PROPOSAL_CREATORS' || setting === 'SET_ROLE_CHANGERS') && (
+          <Stack spacing="sm">
+            <Text variant="small" color="muted">Founders always keep this permission.</Text>
+            <Flex gap="sm" className="flex-wrap">
+              {ROLES.map(role => (
+                <label key={role} className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={roles.includes(role)}
+                    disabled={role === 'FOUNDER'}
+                    onChange={(e) => setRoles(e.target.checked
+                      ? [...roles, role]
+                      : roles.filter(r => r !== role))}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <Text variant="small">{role.replace(/_/g, ' ')}</Text>
+                </label>
+              ))}
+            </Flex>
+          </Stack>
+        )}
+
+        {setting === 'SET_PROPOSAL_REVIEW' && (
+          <Select label="Review before voting" value={value} onChange={(e) => setValue(e.target.value)}>
+            <option value="">Choose...</option>
+            <option value="true">Required</option>
+            <option value="false">Not required</option>
+          </Select>
+        )}
+
+        {setting === 'SET_MEMBER_APPROVAL_RULES' && (
+          <Flex gap="sm">
+            <Input
+              label="Approval threshold (%)"
+              type="number"
+              min={1}
+              max={100}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+            <Input
+              label="Approval quorum (%)"
+              type="number"
+              min={0}
+              max={100}
+              value={secondValue}
+              onChange={(e) => setSecondValue(e.target.value)}
+            />
+          </Flex>
+        )}
+
+        {setting === 'SET_PARTICIPATION_RULE' && (
+          <Stack spacing="sm">
+            <Select label="Members below the minimum" value={value} onChange={(e) => setValue(e.target.value)}>
+              <option value="">Choose...</option>
+              <option value="FLAG">Are flagged</option>
+              <option value="DEMOTE">Are flagged, then become observers after 14 days</option>
+              <option value="OFF">Turn the rule off</option>
+            </Select>
+            {value && value !== 'OFF' && (
+              <Flex gap="sm">
+                <Input
+                  label="Minimum score (%)"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={secondValue}
+                  onChange={(e) => setSecondValue(e.target.value)}
+                />
+                <Input
+                  label="Window (days)"
+                  type="number"
+                  min={30}
+                  max={365}
+                  value={thirdValue}
+                  onChange={(e) => setThirdValue(e.target.value)}
+                />
+              </Flex>
+            )}
+            <Text variant="small" color="muted">
+              Scores combine meeting attendance, voting and task completion. Founders and governors
+              are only ever flagged, and members who joined within the window are exempt.
+            </Text>
+          </Stack>
+        )}
+
+        {setting && (
+          <Flex justify="end">
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={!payload}
+              onClick={() => {
+                if (!payload) return
+                onAdd({ type: setting, payload })
+                reset('')
+              }}
+            >
+              + Add Effect
+            </Button>
+          </Flex>
+        )}
+      </Stack>
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Heading,
+  Text,
+  Button,
+  Select,
+  Badge,
+  Flex,
+  Stack,
+  useToast,
+} from '@/components/ui'
+
+// Roles that can receive delegated votes
+const CAN_VOTE = ['FOUNDER', 'GOVERNOR', 'MODERATOR', 'CONDUCTOR', 'VOTING_MEMBER']
+
+// Dissolution and founder nominations always need direct votes
+const DELEGABLE_TYPES = [
+  { value: 'GENERAL', label: 'General' },
+  { value: 'BUDGET', label: 'Budget' },
+  { value: 'PROJECT', label: 'Project' },
+  { value: 'POLICY', label: 'Policy' },
+  { value: 'MEMBERSHIP', label: 'Membership' },
+] as const
+
+type DelegableType = typeof DELEGABLE_TYPES[number]['value']
+
+// Select value for the delegation covering every proposal type
+const ALL_TYPES = 'ALL'
+
+interface VoteDelegationPanelProps {
+  bandId: string
+  userId: string
+  members: { role: string; user: { id: string; name: string } }[]
+}
+
+const scopeLabel = (proposalType: string | null) =>
+  proposalType
+    ? `${DELEGABLE_TYPES.find(t => t.value === proposalType)?.label ?? proposalType} proposals`
+    : 'All proposals'
+
+/**
+ * Name proxies who vote for you on proposals you don't vote on yourself.
+ * A type-specific proxy takes precedence over the all-proposals one.
+ */
+export function VoteDelegationPanel({ bandId, userId, members }: VoteDelegationPanelProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+
+  const [scope, setScope] = useState<string>(ALL_TYPES)
+  const [delegateUserId, setDelegateUserId] = useState('')
+
+  const { data } = trpc.band.getMyDelegations.useQuery({ bandId })
+
+  const onSuccess = (message: string) => {
+    showToast(message, 'success')
+    utils.band.getMyDelegations.invalidate({ bandId })
+    utils.proposal.getById.invalidate()
+  }
+
+  const setMutation = trpc.band.setDelegation.useMutation({
+    onSuccess: () => {
+      onSuccess('Delegation saved')
+      setDelegateUserId('')
+    },
+    onError: (error) => {
+      showToast(error.message || 'Failed to save delegation', 'error')
+    },
+  })
+
+  const revokeMutation = trpc.band.revokeDelegation.useMutation({
+    onSuccess: () => onSuccess('Delegation removed'),
+    onError: (error) => {
+      showToast(error.message || 'Failed to remove delegation', 'error')
+    },
+  })
+
+  if (!data?.canDelegate) return null
+
+  const candidates = members.filter(m => m.user.id !== userId && CAN_VOTE.includes(m.role))
+  const proposalType = scope === ALL_TYPES ? null : (scope as DelegableType)
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-white p-4">
+      <Stack spacing="md">
+        <div>
+          <Heading level={3}>Vote Delegation</Heading>
+          <Text variant="small" color="muted">
+            When you don&apos;t vote on a proposal, your proxy&apos;s vote counts for you too. Voting yourself always overrides your proxy.
+          </Text>
+        </div>
+
+        {data.given.length > 0 && (
+          <div className="space-y-1">
+            {data.given.map(delegation => (
+              <Flex key={delegation.id} justify="between" align="center" className="text-sm">
+                <span>
+                  <Badge variant="info" size="sm">{scopeLabel(delegation.proposalType)}</Badge>{' '}
+                  → {delegation.delegate.name}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate({ bandId, proposalType: delegation.proposalType as DelegableType | null })}
+                  disabled={revokeMutation.isPending}
+                >
+                  Remove
+                </Button>
+              </Flex>
+            ))}
+          </div>
+        )}
+
+        <Flex gap="sm" align="end" className="flex-wrap">
+          <div className="flex-1 min-w-[10rem]">
+            <Select label="For" value={scope} onChange={(e) => setScope(e.target.value)}>
+              <option value={ALL_TYPES}>All proposals</option>
+              {DELEGABLE_TYPES.map(t => (
+                <option key={t.value} value={t.value}>{t.label} proposals</option>
+              ))}
+            </Select>
+          </div>
+          <div className="flex-1 min-w-[10rem]">
+            <Select label="Proxy" value={delegateUserId} onChange={(e) => setDelegateUserId(e.target.value)}>
+              <option value="">Choose a member...</option>
+              {candidates.map(m => (
+                <option key={m.user.id} value={m.user.id}>{m.user.name}</option>
+              ))}
+            </Select>
+          </div>
+          <Button
+            variant="primary"
+            size="md"
+            onClick={() => setMutation.mutate({ bandId, delegateUserId, proposalType })}
+            disabled={!delegateUserId || setMutation.isPending}
+          >
+            {setMutation.isPending ? 'Saving...' : 'Delegate'}
+          </Button>
+        </Flex>
+
+        {data.received.length > 0 && (
+          <Text variant="small" color="muted">
+            Delegating to you: {data.received.map(d => `${d.delegator.name} (${scopeLabel(d.proposalType).toLowerCase()})`).join(', ')}
+          </Text>
+        )}
+      </Stack>
+    </div>
+  )
+}
@@ -0,0 +1,4 @@
+export { VoteDelegationPanel } from './VoteDelegationPanel'
+export { BandSettingsEffectsBuilder } from './BandSettingsEffectsBuilder'
+export { BandActionEffectsBuilder } from './BandActionEffectsBuilder'
+export type { ProposalEffectInput } from './BandActionEffectsBuilder'
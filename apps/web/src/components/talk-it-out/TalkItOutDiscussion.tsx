@@ -17,17 +17,28 @@ type Props = {
   userId: string
   status: string
   myParticipantStatus: string
+  /** Session events are streaming; polling is only a fallback */
+  isLive: boolean
+  /** Another participant's message is waiting on the facilitator */
+  facilitatorThinking: boolean
 }
 
-export function TalkItOutDiscussion({ sessionId, userId, status, myParticipantStatus }: Props) {
+export function TalkItOutDiscussion({
+  sessionId,
+  userId,
+  status,
+  myParticipantStatus,
+  isLive,
+  facilitatorThinking,
+}: Props) {
   const [draft, setDraft] = useState('')
   const [pendingFacilitator, setPendingFacilitator] = useState(false)
   const bottomRef = useRef<HTMLDivElement>(null)
   const { data: session, refetch } = trpc.talkItOut.getSession.useQuery(
-    { sessionId, userId },
+    { sessionId },
     {
       enabled: !!userId,
-      refetchInterval: status === 'ACTIVE' ? 4000 : false,
+      refetchInterval: status === 'ACTIVE' && !isLive ? 4000 : false,
     }
   )
 
@@ -42,17 +53,18 @@ export function TalkItOutDiscussion({ sessionId, userId, status, myParticipantSt
   })
 
   const messages: Message[] = session?.messages ?? []
+  const showThinking = pendingFacilitator || facilitatorThinking
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages.length, pendingFacilitator])
+  }, [messages.length, showThinking])
 
   const canPost = status === 'ACTIVE' && myParticipantStatus === 'JOINED'
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (!canPost || !draft.trim() || sendMutation.isPending) return
-    sendMutation.mutate({ sessionId, userId, content: draft })
+    sendMutation.mutate({ sessionId, content: draft })
   }
 
   return (
@@ -72,7 +84,7 @@ export function TalkItOutDiscussion({ sessionId, userId, status, myParticipantSt
             </article>
           )
         })}
-        {pendingFacilitator ? (
+        {showThinking ? (
           <p className="np-tio-thinking">Facilitator thinking…</p>
         ) : null}
         <div ref={bottomRef} />
@@ -25,6 +25,7 @@ export function AdminSidebar() {
 
   const contentNav = [
     { label: '❓ FAQ Management', path: '/admin/faq' },
+    { label: '✉️ Notification Templates', path: '/admin/notification-templates' },
   ]
 
   const systemNav = [
@@ -117,7 +117,6 @@ export function BandDetailsSettings({
     try {
       const result = await uploadFileMutation.mutateAsync({
         ...fileData,
-        userId,
         category: 'IMAGE',
       })
       setFormData((prev) => ({ ...prev, logoUrl: result.file.url }))
@@ -146,7 +145,6 @@ export function BandDetailsSettings({
     if (isBigBand) {
       updateAgencyMutation.mutate({
         bandId,
-        userId,
         name: formData.name,
         mission: formData.mission,
         productsOffered: formData.productsOffered as (
@@ -180,7 +178,6 @@ export function BandDetailsSettings({
 
     updateDetailsMutation.mutate({
       bandId,
-      userId,
       name: formData.name,
       businessType: formData.businessType as 'MEDICAL_SPA',
       description: formData.description,
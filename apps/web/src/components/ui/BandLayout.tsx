@@ -5,6 +5,7 @@ import { useRouter, usePathname } from 'next/navigation'
 import Link from 'next/link'
 import { Text, Flex, Stack } from '.'
 import { BandSidebar } from './BandSidebar'
+import { BandSearchBar } from './BandSearchBar'
 import { DuesBanner } from './DuesBanner'
 import { OnboardingBanner } from '@/components/onboarding'
 
@@ -153,6 +154,20 @@ export function BandLayout({
                       <span>💳</span>
                       <span>Billing</span>
                     </button>
+                    <button
+                      onClick={() => { setShowMobileNav(false); router.push(`/bands/${bandSlug}/messages`) }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50"
+                    >
+                      <span>✉️</span>
+                      <span>Messages</span>
+                    </button>
+                    <button
+                      onClick={() => { setShowMobileNav(false); router.push(`/bands/${bandSlug}/participation`) }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50"
+                    >
+                      <span>📈</span>
+                      <span>Participation</span>
+                    </button>
                     <button
                       onClick={() => { setShowMobileNav(false); router.push(`/bands/${bandSlug}/audit`) }}
                       className="w-full flex items-center gap-3 px-4 py-3 text-left text-gray-700 hover:bg-gray-50"
@@ -192,6 +207,8 @@ export function BandLayout({
               </div>
             )}
           </div>
+
+          {isMember && <BandSearchBar bandSlug={bandSlug} className="mt-3" />}
         </div>
 
         {/* Desktop Page Header */}
@@ -216,9 +233,12 @@ export function BandLayout({
 
             {/* Right: Band Name and Page Title */}
             <div className="flex-1">
-              <Link href={`/bands/${bandSlug}`} className="inline-block">
-                <h1 className="text-4xl font-bold text-gray-900 mb-2 hover:text-blue-600 transition-colors cursor-pointer">{bandName}</h1>
-              </Link>
+              <Flex justify="between" align="start" gap="md">
+                <Link href={`/bands/${bandSlug}`} className="inline-block">
+                  <h1 className="text-4xl font-bold text-gray-900 mb-2 hover:text-blue-600 transition-colors cursor-pointer">{bandName}</h1>
+                </Link>
+                {isMember && <BandSearchBar bandSlug={bandSlug} className="w-72 flex-shrink-0" />}
+              </Flex>
               <Flex justify="between" align="center">
                 <h2 className="text-2xl font-semibold text-gray-700">{pageTitle}</h2>
                 {actionContent && <div>{actionContent}</div>}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
+
+export interface BandSearchBarProps {
+  bandSlug: string
+  className?: string
+}
+
+/**
+ * Search box for everything in a band; submits to the band search page
+ */
+export function BandSearchBar({ bandSlug, className = '' }: BandSearchBarProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const searchPath = `/bands/${bandSlug}/search`
+  const [query, setQuery] = useState('')
+
+  // Keep the box in sync with the query on the search page itself
+  useEffect(() => {
+    if (pathname === searchPath) {
+      setQuery(searchParams.get('q') || '')
+    }
+  }, [pathname, searchPath, searchParams])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = query.trim()
+    if (!trimmed) return
+    router.push(`${searchPath}?q=${encodeURIComponent(trimmed)}`)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className={className}>
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">🔍</span>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search this band..."
+          maxLength={200}
+          aria-label="Search this band"
+          className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-900 placeholder-gray-400 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+    </form>
+  )
+}
@@ -41,6 +41,8 @@ export function BandSidebar({ bandSlug, bandName = '', canApprove = false, isMem
   // Member actions
   const memberActions = [
     { label: '👥 Members', path: `/bands/${bandSlug}/members`, show: true, guide: 'band-members' },
+    { label: '✉️ Messages', path: `/bands/${bandSlug}/messages`, show: isMember, guide: 'band-messages' },
+    { label: '📈 Participation', path: `/bands/${bandSlug}/participation`, show: isMember, guide: 'band-participation' },
     { label: '📨 Invite', path: `/bands/${bandSlug}/invite`, show: isMember, guide: 'band-invite' },
     { label: '📋 Applications', path: `/bands/${bandSlug}/applications`, show: canApprove, guide: 'band-applications' },
     { label: '🛠️ Tools', path: `/bands/${bandSlug}/tools`, show: canAccessAdminTools, guide: 'band-tools' },
@@ -12,7 +12,7 @@ interface BillingBannerProps {
 
 export function BillingBanner({ bandId, bandSlug, userId }: BillingBannerProps) {
   const { data, isLoading } = trpc.band.getPaymentStatus.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
@@ -37,7 +37,7 @@ export function BillingBanner({ bandId, bandSlug, userId }: BillingBannerProps)
   // Handle checkout
   const handlePayment = async () => {
     try {
-      const result = await createCheckout.mutateAsync({ bandId, userId })
+      const result = await createCheckout.mutateAsync({ bandId })
       if (result.url) {
         window.location.href = result.url
       }
@@ -49,7 +49,7 @@ export function BillingBanner({ bandId, bandSlug, userId }: BillingBannerProps)
   // Handle portal (update payment method)
   const handleUpdatePayment = async () => {
     try {
-      const result = await createPortal.mutateAsync({ bandId, userId })
+      const result = await createPortal.mutateAsync({ bandId })
       if (result.url) {
         window.location.href = result.url
       }
@@ -61,7 +61,7 @@ export function BillingBanner({ bandId, bandSlug, userId }: BillingBannerProps)
   // Handle claim ownership
   const handleClaimOwnership = async () => {
     try {
-      await claimOwnership.mutateAsync({ bandId, userId })
+      await claimOwnership.mutateAsync({ bandId })
       window.location.reload()
     } catch (error) {
       console.error('Failed to claim ownership:', error)
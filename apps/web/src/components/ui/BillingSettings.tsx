@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Button, Text, Stack, Badge, Modal, Flex } from '@/components/ui'
+import { Button, Text, Stack, Badge, Modal, Flex, StepUpModal, useStepUp } from '@/components/ui'
 import { trpc } from '@/lib/trpc'
 import { MIN_MEMBERS_TO_ACTIVATE, REQUIRE_PAYMENT_TO_ACTIVATE } from '@band-it/shared'
 
@@ -16,12 +16,12 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
   const [selectedNewOwner, setSelectedNewOwner] = useState<string | null>(null)
 
   const { data: billingInfo, isLoading, refetch } = trpc.band.getBillingInfo.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
   const { data: candidates } = trpc.band.getBillingOwnerCandidates.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId && showTransferModal }
   )
 
@@ -29,6 +29,7 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
   const createPortal = trpc.band.createPortalSession.useMutation()
   const transferOwnership = trpc.band.transferBillingOwnership.useMutation()
   const claimOwnership = trpc.band.claimBillingOwnership.useMutation()
+  const stepUp = useStepUp()
 
   if (isLoading) {
     return (
@@ -80,7 +81,7 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
   // Handle checkout
   const handlePayment = async () => {
     try {
-      const result = await createCheckout.mutateAsync({ bandId, userId })
+      const result = await createCheckout.mutateAsync({ bandId })
       if (result.url) {
         window.location.href = result.url
       }
@@ -92,7 +93,7 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
   // Handle portal
   const handleManagePayment = async () => {
     try {
-      const result = await createPortal.mutateAsync({ bandId, userId })
+      const result = await createPortal.mutateAsync({ bandId })
       if (result.url) {
         window.location.href = result.url
       }
@@ -107,12 +108,12 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
     try {
       await transferOwnership.mutateAsync({
         bandId,
-        userId,
         newOwnerId: selectedNewOwner,
       })
       setShowTransferModal(false)
       refetch()
     } catch (error) {
+      if (stepUp.handleError(error, handleTransfer)) return
       console.error('Failed to transfer ownership:', error)
     }
   }
@@ -120,7 +121,7 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
   // Handle claim
   const handleClaim = async () => {
     try {
-      await claimOwnership.mutateAsync({ bandId, userId })
+      await claimOwnership.mutateAsync({ bandId })
       refetch()
     } catch (error) {
       console.error('Failed to claim ownership:', error)
@@ -238,6 +239,8 @@ export function BillingSettings({ bandId, bandSlug, userId }: BillingSettingsPro
           </Flex>
         </Stack>
       </Modal>
+
+      <StepUpModal {...stepUp.modalProps} />
     </>
   )
 }
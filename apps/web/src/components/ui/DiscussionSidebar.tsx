@@ -519,7 +519,6 @@ export function DiscussionSidebar({
     if (!newComment.trim() || !userId) return
     createMutation.mutate({
       content: newComment,
-      authorId: userId,
       bandId,
       proposalId,
       projectId,
@@ -532,7 +531,6 @@ export function DiscussionSidebar({
     if (!replyContent.trim() || !userId) return
     createMutation.mutate({
       content: replyContent,
-      authorId: userId,
       parentId,
       bandId,
       proposalId,
@@ -546,20 +544,18 @@ export function DiscussionSidebar({
     updateMutation.mutate({
       commentId,
       content: editContent,
-      userId,
     })
   }
 
   const handleDelete = (commentId: string) => {
     if (!userId) return
-    deleteMutation.mutate({ commentId, userId })
+    deleteMutation.mutate({ commentId })
   }
 
   const handleReaction = (commentId: string, type: string) => {
     if (!userId) return
     reactionMutation.mutate({
       commentId,
-      userId,
       type: type as any,
     })
   }
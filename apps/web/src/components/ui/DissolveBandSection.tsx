@@ -12,6 +12,8 @@ import {
   Alert,
   Input,
   Flex,
+  StepUpModal,
+  useStepUp,
   useToast,
 } from '@/components/ui'
 
@@ -29,10 +31,11 @@ export function DissolveBandSection({ bandId, bandSlug, bandName, userId }: Diss
   const [showProposalForm, setShowProposalForm] = useState(false)
   const [reason, setReason] = useState('')
   const [confirmText, setConfirmText] = useState('')
+  const stepUp = useStepUp()
 
   // Check if band can be dissolved
   const { data: canDissolveData, isLoading } = trpc.band.canDissolve.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
@@ -42,7 +45,8 @@ export function DissolveBandSection({ bandId, bandSlug, bandName, userId }: Diss
       showToast('Band has been dissolved', 'success')
       router.push('/bands/my-bands')
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      if (stepUp.handleError(error, () => dissolveMutation.mutate(variables))) return
       showToast(error.message, 'error')
       setShowConfirm(false)
     },
@@ -80,7 +84,6 @@ export function DissolveBandSection({ bandId, bandSlug, bandName, userId }: Diss
     }
     dissolveMutation.mutate({
       bandId,
-      userId,
       reason: reason.trim(),
     })
   }
@@ -92,7 +95,6 @@ export function DissolveBandSection({ bandId, bandSlug, bandName, userId }: Diss
     }
     createProposalMutation.mutate({
       bandId,
-      userId,
       reason: reason.trim(),
     })
   }
@@ -101,6 +103,7 @@ export function DissolveBandSection({ bandId, bandSlug, bandName, userId }: Diss
   if (canDissolveData.method === 'DIRECT') {
     return (
       <div className="border border-red-200 rounded-lg bg-red-50 p-3">
+        <StepUpModal {...stepUp.modalProps} />
         <div className="flex items-center justify-between mb-2">
           <Text weight="semibold" className="text-red-800">Dissolve Band</Text>
           {!showConfirm && (
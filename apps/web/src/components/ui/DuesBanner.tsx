@@ -18,7 +18,7 @@ export function DuesBanner({ bandId, bandSlug, userId }: DuesBannerProps) {
   const router = useRouter()
 
   const { data: standing, isLoading } = trpc.band.getMyStanding.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
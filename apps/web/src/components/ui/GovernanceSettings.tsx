@@ -12,6 +12,8 @@ import {
   Input,
   Flex,
   useToast,
+  StepUpModal,
+  useStepUp,
 } from '@/components/ui'
 
 interface GovernanceSettingsProps {
@@ -44,6 +46,7 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
   const [quorumPercentage, setQuorumPercentage] = useState(50)
   const [requireProposalReview, setRequireProposalReview] = useState(false)
   const [whoCanManageDocuments, setWhoCanManageDocuments] = useState<string[]>(['FOUNDER', 'GOVERNOR', 'MODERATOR'])
+  const [requireOfficerTwoFactor, setRequireOfficerTwoFactor] = useState(false)
   // Member approval voting settings
   const [memberApprovalThreshold, setMemberApprovalThreshold] = useState(50)
   const [memberApprovalQuorum, setMemberApprovalQuorum] = useState(25)
@@ -51,9 +54,10 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
   const [memberApprovalWindowHours, setMemberApprovalWindowHours] = useState(0)
 
   const utils = trpc.useUtils()
+  const stepUp = useStepUp()
 
   const { data, isLoading, error } = trpc.band.getGovernanceSettings.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
@@ -61,9 +65,11 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
     onSuccess: () => {
       showToast('Governance settings updated', 'success')
       setIsEditing(false)
-      utils.band.getGovernanceSettings.invalidate({ bandId, userId })
+      utils.band.getGovernanceSettings.invalidate({ bandId })
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      // Turning off required 2FA asks for a fresh code
+      if (stepUp.handleError(error, () => updateMutation.mutate(variables))) return
       showToast(error.message, 'error')
     },
   })
@@ -83,6 +89,7 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
       setQuorumPercentage(data.settings.quorumPercentage)
       setRequireProposalReview(data.settings.requireProposalReview)
       setWhoCanManageDocuments(data.settings.whoCanManageDocuments || ['FOUNDER', 'GOVERNOR', 'MODERATOR'])
+      setRequireOfficerTwoFactor(data.settings.requireOfficerTwoFactor)
       // Member approval settings
       setMemberApprovalThreshold(data.settings.memberApprovalThreshold ?? 50)
       setMemberApprovalQuorum(data.settings.memberApprovalQuorum ?? 25)
@@ -98,13 +105,13 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
 
     updateMutation.mutate({
       bandId,
-      userId,
       votingMethod: votingMethod as any,
       votingPeriodDays,
       votingPeriodHours,
       quorumPercentage,
       requireProposalReview,
       whoCanManageDocuments: whoCanManageDocuments as any,
+      requireOfficerTwoFactor,
       // Member approval settings
       memberApprovalThreshold,
       memberApprovalQuorum,
@@ -127,6 +134,7 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
       setQuorumPercentage(data.settings.quorumPercentage)
       setRequireProposalReview(data.settings.requireProposalReview)
       setWhoCanManageDocuments(data.settings.whoCanManageDocuments || ['FOUNDER', 'GOVERNOR', 'MODERATOR'])
+      setRequireOfficerTwoFactor(data.settings.requireOfficerTwoFactor)
       // Reset member approval settings
       setMemberApprovalThreshold(data.settings.memberApprovalThreshold ?? 50)
       setMemberApprovalQuorum(data.settings.memberApprovalQuorum ?? 25)
@@ -248,6 +256,21 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
             </div>
           </div>
 
+          <div>
+            <label className="flex items-center gap-2 cursor-pointer text-sm">
+              <input
+                type="checkbox"
+                checked={requireOfficerTwoFactor}
+                onChange={(e) => setRequireOfficerTwoFactor(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600"
+              />
+              Require two-factor authentication for founders, governors and treasurers
+            </label>
+            <Text variant="small" color="muted" className="mt-1">
+              They&apos;ll need an authenticator code to dissolve the band, confirm payments, disconnect Stripe or transfer billing.
+            </Text>
+          </div>
+
           {/* Member Application Voting Settings */}
           <div className="border-t pt-3 mt-2">
             <Text variant="small" weight="semibold" className="mb-2">Member Application Voting</Text>
@@ -313,6 +336,7 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
             <span><span className="text-gray-500">Quorum:</span> {settings.quorumPercentage}%</span>
             <span><span className="text-gray-500">Review:</span> {settings.requireProposalReview ? 'Yes' : 'No'}</span>
             <span><span className="text-gray-500">Docs:</span> {settings.whoCanManageDocuments?.map((r: string) => ROLE_OPTIONS.find(o => o.value === r)?.label.split(' ')[0]).join(', ') || 'Founder, Governor, Mod'}</span>
+            <span><span className="text-gray-500">Officer 2FA:</span> {settings.requireOfficerTwoFactor ? 'Required' : 'Optional'}</span>
           </div>
           <div className="border-t pt-2 mt-1">
             <Text variant="small" weight="semibold" className="text-gray-600 mb-1">Member Application Voting</Text>
@@ -329,6 +353,8 @@ export function GovernanceSettings({ bandId, userId }: GovernanceSettingsProps)
           </div>
         </Stack>
       )}
+
+      <StepUpModal {...stepUp.modalProps} />
     </div>
   )
 }
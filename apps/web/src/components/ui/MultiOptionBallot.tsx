@@ -0,0 +1,157 @@
+'use client'
+
+import { MULTI_OPTION_SCORE_MAX } from '@band-it/shared'
+
+export interface ProposalOption {
+  id: string
+  label: string
+  description?: string | null
+}
+
+export interface MultiOptionBallotValue {
+  rankings?: string[]
+  approvals?: string[]
+  scores?: Record<string, number>
+}
+
+interface MultiOptionBallotProps {
+  method: string
+  options: ProposalOption[]
+  value: MultiOptionBallotValue
+  onChange: (value: MultiOptionBallotValue) => void
+  disabled?: boolean
+  large?: boolean // Bigger tap targets for quick pages
+}
+
+export const MULTI_OPTION_METHOD_LABELS: Record<string, string> = {
+  RANKED_CHOICE: 'Ranked choice (instant runoff)',
+  APPROVAL: 'Approval',
+  SCORE: `Score (0-${MULTI_OPTION_SCORE_MAX})`,
+}
+
+/**
+ * Ballot input for multi-option proposals.
+ * RANKED_CHOICE: tap options in order of preference.
+ * APPROVAL: tick every acceptable option.
+ * SCORE: rate each option.
+ */
+export function MultiOptionBallot({
+  method,
+  options,
+  value,
+  onChange,
+  disabled = false,
+  large = false,
+}: MultiOptionBallotProps) {
+  const rowClass = `w-full flex items-center justify-between gap-3 rounded border text-left ${
+    large ? 'px-4 py-3 min-h-[48px]' : 'px-3 py-2'
+  } ${disabled ? 'opacity-60' : ''}`
+
+  if (method === 'RANKED_CHOICE') {
+    const rankings = value.rankings ?? []
+    const toggle = (id: string) => {
+      onChange({
+        rankings: rankings.includes(id) ? rankings.filter(r => r !== id) : [...rankings, id],
+      })
+    }
+
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-gray-500">Tap options in order of preference. Tap again to unrank.</p>
+        {options.map(option => {
+          const rank = rankings.indexOf(option.id)
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => toggle(option.id)}
+              disabled={disabled}
+              className={`${rowClass} ${rank >= 0 ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'}`}
+            >
+              <OptionText option={option} />
+              <span className={`shrink-0 w-7 h-7 rounded-full flex items-center justify-center text-sm font-semibold ${
+                rank >= 0 ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-400'
+              }`}>
+                {rank >= 0 ? rank + 1 : '–'}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    )
+  }
+
+  if (method === 'APPROVAL') {
+    const approvals = value.approvals ?? []
+    const toggle = (id: string) => {
+      onChange({
+        approvals: approvals.includes(id) ? approvals.filter(a => a !== id) : [...approvals, id],
+      })
+    }
+
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-gray-500">Approve every option you could live with.</p>
+        {options.map(option => {
+          const approved = approvals.includes(option.id)
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => toggle(option.id)}
+              disabled={disabled}
+              className={`${rowClass} ${approved ? 'border-green-500 bg-green-50' : 'border-gray-200 bg-white hover:bg-gray-50'}`}
+            >
+              <OptionText option={option} />
+              <span className={`shrink-0 text-sm font-medium ${approved ? 'text-green-700' : 'text-gray-400'}`}>
+                {approved ? '✓ Approved' : 'Approve'}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const scores = value.scores ?? {}
+  const scoreValues = Array.from({ length: MULTI_OPTION_SCORE_MAX + 1 }, (_, i) => i)
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">Score each option from 0 (worst) to {MULTI_OPTION_SCORE_MAX} (best).</p>
+      {options.map(option => (
+        <div key={option.id} className={`${rowClass} border-gray-200 bg-white flex-wrap`}>
+          <OptionText option={option} />
+          <div className="flex gap-1">
+            {scoreValues.map(score => (
+              <button
+                key={score}
+                type="button"
+                onClick={() => onChange({ scores: { ...scores, [option.id]: score } })}
+                disabled={disabled}
+                className={`rounded text-sm font-medium ${large ? 'w-10 h-10' : 'w-7 h-7'} ${
+                  (scores[option.id] ?? 0) === score
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {score}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function OptionText({ option }: { option: ProposalOption }) {
+  return (
+    <span className="min-w-0">
+      <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+      {option.description && (
+        <span className="block text-xs text-gray-500">{option.description}</span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import type { ProposalOption } from './MultiOptionBallot'
+
+interface TallyRound {
+  round: number
+  counts: Record<string, number>
+  eliminated: string[]
+  exhausted: number
+}
+
+interface MultiOptionTally {
+  method: string
+  rounds: TallyRound[]
+  winnerOptionId: string | null
+  tiedOptionIds: string[]
+  ballotsCounted: number
+}
+
+interface MultiOptionResultsProps {
+  options: ProposalOption[]
+  tally: MultiOptionTally
+  isFinal: boolean
+}
+
+/**
+ * Round-by-round results for multi-option proposals.
+ * Ranked choice shows every instant-runoff round; approval and score show a single round.
+ */
+export function MultiOptionResults({ options, tally, isFinal }: MultiOptionResultsProps) {
+  const label = (id: string) => options.find(o => o.id === id)?.label ?? id
+  const unit = tally.method === 'SCORE' ? 'pts' : tally.method === 'APPROVAL' ? 'approvals' : 'votes'
+  const showRoundHeadings = tally.method === 'RANKED_CHOICE'
+
+  return (
+    <div className="space-y-3">
+      {tally.rounds.map(round => {
+        const max = Math.max(1, ...Object.values(round.counts))
+        const sorted = Object.keys(round.counts).sort((a, b) => round.counts[b] - round.counts[a])
+
+        return (
+          <div key={round.round} className="space-y-1">
+            {showRoundHeadings && (
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span className="font-medium">Round {round.round}</span>
+                {round.exhausted > 0 && <span>{round.exhausted} exhausted</span>}
+              </div>
+            )}
+            {sorted.map(id => {
+              const eliminated = round.eliminated.includes(id)
+              const isWinner = id === tally.winnerOptionId && round.round === tally.rounds.length
+              return (
+                <div key={id} className="flex items-center gap-2 text-sm">
+                  <span className={`w-32 truncate ${eliminated ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+                    {label(id)}
+                  </span>
+                  <div className="flex-1 h-2 bg-gray-100 rounded">
+                    <div
+                      className={`h-2 rounded ${isWinner ? 'bg-green-500' : eliminated ? 'bg-gray-300' : 'bg-blue-400'}`}
+                      style={{ width: `${(round.counts[id] / max) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-24 text-right text-xs text-gray-600">
+                    {round.counts[id]} {unit}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )
+      })}
+
+      <div className="text-xs text-gray-600">
+        {tally.winnerOptionId
+          ? `${isFinal ? 'Winner' : 'Leading'}: ${label(tally.winnerOptionId)}`
+          : tally.tiedOptionIds.length > 0
+            ? `Tie between ${tally.tiedOptionIds.map(label).join(', ')}`
+            : 'No ballots counted yet'}
+        {' '}· {tally.ballotsCounted} ballot{tally.ballotsCounted === 1 ? '' : 's'} counted
+      </div>
+    </div>
+  )
+}
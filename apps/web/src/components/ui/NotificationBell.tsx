@@ -24,11 +24,28 @@ export function NotificationBell({ onClick }: NotificationBellProps) {
     }
   }, [])
 
+  const utils = trpc.useUtils()
+
+  // Live unread count; the query below only polls while the stream is down
+  const events = trpc.notification.onEvents.useSubscription(undefined, {
+    enabled: !!userId,
+    onStarted: () => {
+      utils.notification.getUnreadCount.invalidate()
+    },
+    onData: (event) => {
+      utils.notification.getUnreadCount.setData(undefined, { success: true, count: event.unreadCount })
+      if (event.type === 'notification.created') {
+        utils.notification.getMyNotifications.invalidate()
+      }
+    },
+  })
+  const isLive = events.status === 'pending'
+
   const { data: countData } = trpc.notification.getUnreadCount.useQuery(
-    { userId: userId! },
+    undefined,
     { 
       enabled: !!userId,
-      refetchInterval: 30000, // Refresh every 30 seconds
+      refetchInterval: isLive ? false : 30000, // Refresh every 30 seconds
     }
   )
 
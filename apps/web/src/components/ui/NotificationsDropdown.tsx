@@ -48,7 +48,7 @@ export function NotificationsDropdown({ isOpen, onClose }: NotificationsDropdown
   }, [isOpen, onClose])
 
   const { data: notificationsData, isLoading, refetch } = trpc.notification.getMyNotifications.useQuery(
-    { userId: userId!, unreadOnly: true, limit: 10 },
+    { unreadOnly: true, limit: 10 },
     { enabled: !!userId }
   )
 
@@ -79,7 +79,6 @@ export function NotificationsDropdown({ isOpen, onClose }: NotificationsDropdown
     e.stopPropagation()
     markAsReadMutation.mutate({
       notificationId: notification.id,
-      userId: userId!,
     })
   }
 
@@ -88,7 +87,6 @@ export function NotificationsDropdown({ isOpen, onClose }: NotificationsDropdown
     // Mark as read when viewing
     markAsReadMutation.mutate({
       notificationId: notification.id,
-      userId: userId!,
     })
 
     // Determine the correct URL to navigate to
@@ -110,7 +108,7 @@ export function NotificationsDropdown({ isOpen, onClose }: NotificationsDropdown
 
   const handleMarkAllAsRead = () => {
     if (userId) {
-      markAllAsReadMutation.mutate({ userId })
+      markAllAsReadMutation.mutate()
     }
   }
 
@@ -26,7 +26,7 @@ export function OnboardingSettings({ bandId, userId, userRole }: OnboardingSetti
 
   // Check if onboarding already exists
   const { data: onboarding, isLoading } = trpc.onboarding.getBandOnboarding.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId }
   )
 
@@ -34,7 +34,7 @@ export function OnboardingSettings({ bandId, userId, userRole }: OnboardingSetti
   const initializeMutation = trpc.onboarding.initializeOnboarding.useMutation({
     onSuccess: () => {
       showToast('Onboarding guide activated!', 'success')
-      utils.onboarding.getBandOnboarding.invalidate({ bandId, userId })
+      utils.onboarding.getBandOnboarding.invalidate({ bandId })
       setShowTemplateSelector(false)
       setSelectedTemplate(null)
     },
@@ -105,7 +105,7 @@ export function OnboardingSettings({ bandId, userId, userRole }: OnboardingSetti
                   disabled={!selectedTemplate || initializeMutation.isPending}
                   onClick={() => {
                     if (selectedTemplate) {
-                      initializeMutation.mutate({ bandId, userId, templateId: selectedTemplate })
+                      initializeMutation.mutate({ bandId, templateId: selectedTemplate })
                     }
                   }}
                 >
@@ -164,7 +164,7 @@ export function OnboardingSettings({ bandId, userId, userRole }: OnboardingSetti
               disabled={!selectedTemplate || initializeMutation.isPending}
               onClick={() => {
                 if (selectedTemplate) {
-                  initializeMutation.mutate({ bandId, userId, templateId: selectedTemplate })
+                  initializeMutation.mutate({ bandId, templateId: selectedTemplate })
                 }
               }}
             >
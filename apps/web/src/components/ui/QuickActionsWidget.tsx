@@ -19,7 +19,7 @@ export function QuickActionsWidget({ userId }: QuickActionsWidgetProps) {
   const router = useRouter()
 
   const { data, isLoading } = trpc.quick.getMyActions.useQuery(
-    { userId, limit: 5 },
+    { limit: 5 },
     {
       enabled: !!userId,
       refetchOnWindowFocus: true,
@@ -27,7 +27,7 @@ export function QuickActionsWidget({ userId }: QuickActionsWidgetProps) {
   )
 
   const { data: myBandsData } = trpc.band.getMyBands.useQuery(
-    { userId },
+    undefined,
     { enabled: !!userId }
   )
   const activeBandCount = myBandsData?.bands.filter((b: any) => b.status === 'ACTIVE').length ?? 0
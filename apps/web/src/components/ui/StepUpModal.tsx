@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { trpc } from '@/lib/trpc'
+import { Modal } from './Modal'
+import { Stack, Flex } from './layout'
+import { Heading, Text } from './Typography'
+import { Button } from './Button'
+import { Input } from './Input'
+
+export type TwoFactorRequirement = 'SETUP' | 'STEP_UP'
+
+/**
+ * Read the API's 2FA requirement from a failed call: `data.twoFactor` on tRPC
+ * errors, or `twoFactor` on the JSON body of the Express routes
+ */
+export function getTwoFactorRequirement(error: unknown): TwoFactorRequirement | null {
+  const source = error as { data?: { twoFactor?: unknown } | null; twoFactor?: unknown } | null
+  const requirement = source?.data?.twoFactor ?? source?.twoFactor
+  return requirement === 'SETUP' || requirement === 'STEP_UP' ? requirement : null
+}
+
+/**
+ * Prompt for a 2FA code when a sensitive action asks for one, then retry it.
+ * Call `handleError` from the action's error handler; it returns true when
+ * the modal has taken over.
+ */
+export function useStepUp() {
+  const [pending, setPending] = useState<{ requirement: TwoFactorRequirement; retry: () => void } | null>(null)
+
+  const handleError = (error: unknown, retry: () => void): boolean => {
+    const requirement = getTwoFactorRequirement(error)
+    if (!requirement) return false
+    setPending({ requirement, retry })
+    return true
+  }
+
+  return {
+    handleError,
+    modalProps: {
+      isOpen: !!pending,
+      requirement: pending?.requirement ?? 'STEP_UP',
+      onClose: () => setPending(null),
+      onVerified: () => {
+        setPending(null)
+        pending?.retry()
+      },
+    },
+  }
+}
+
+interface StepUpModalProps {
+  isOpen: boolean
+  requirement: TwoFactorRequirement
+  onClose: () => void
+  onVerified: () => void
+}
+
+export function StepUpModal({ isOpen, requirement, onClose, onVerified }: StepUpModalProps) {
+  const router = useRouter()
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setCode('')
+      setError(null)
+    }
+  }, [isOpen])
+
+  const verifyMutation = trpc.auth.verifyStepUp.useMutation({
+    onSuccess: () => {
+      onVerified()
+    },
+    onError: (err) => {
+      setError(err.message)
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) return
+    verifyMutation.mutate({ code: code.trim() })
+  }
+
+  if (requirement === 'SETUP') {
+    return (
+      <Modal isOpen={isOpen} onClose={onClose} size="md">
+        <Stack spacing="md">
+          <Heading level={2}>Two-Factor Authentication Required</Heading>
+          <Text color="muted">
+            This band requires founders, governors and treasurers to use two-factor authentication
+            for this action. Turn it on in your account settings, then try again.
+          </Text>
+          <Flex justify="end" gap="sm">
+            <Button variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+            <Button variant="primary" size="sm" onClick={() => router.push('/user-dashboard/settings')}>
+              Go to Settings
+            </Button>
+          </Flex>
+        </Stack>
+      </Modal>
+    )
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <form onSubmit={handleSubmit}>
+        <Stack spacing="md">
+          <Heading level={2}>Confirm It&apos;s You</Heading>
+          <Text color="muted">
+            Enter the code from your authenticator app, or one of your recovery codes.
+          </Text>
+          <Input
+            label="Verification code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            autoComplete="one-time-code"
+            autoFocus
+            error={error ?? undefined}
+          />
+          <Flex justify="end" gap="sm">
+            <Button type="button" variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+            <Button type="submit" variant="primary" size="sm" disabled={verifyMutation.isPending || !code.trim()}>
+              {verifyMutation.isPending ? 'Verifying...' : 'Verify'}
+            </Button>
+          </Flex>
+        </Stack>
+      </form>
+    </Modal>
+  )
+}
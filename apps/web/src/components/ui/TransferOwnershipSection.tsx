@@ -86,7 +86,6 @@ export function TransferOwnershipSection({ bandId, bandSlug, bandName, userId, u
     transferMutation.mutate({
       bandId,
       newFounderUserId: selectedMemberId,
-      userId,
     })
   }
 
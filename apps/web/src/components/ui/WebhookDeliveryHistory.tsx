@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  Text,
+  Badge,
+  Button,
+  Flex,
+  Select,
+  useToast,
+} from '@/components/ui'
+
+const STATUS_VARIANTS: Record<string, 'success' | 'warning' | 'danger'> = {
+  DELIVERED: 'success',
+  PENDING: 'warning',
+  DEAD: 'danger',
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  DELIVERED: 'Delivered',
+  PENDING: 'Retrying',
+  DEAD: 'Failed',
+}
+
+interface WebhookDeliveryHistoryProps {
+  bandId: string
+}
+
+/**
+ * Outbound webhook deliveries with their attempts. Failed deliveries are
+ * retried automatically; any delivery can be replayed by hand.
+ */
+export function WebhookDeliveryHistory({ bandId }: WebhookDeliveryHistoryProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [status, setStatus] = useState<'' | 'PENDING' | 'DELIVERED' | 'DEAD'>('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.band.getWebhookDeliveries.useInfiniteQuery(
+      { bandId, status: status || undefined, limit: 20 },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined }
+    )
+
+  const { data: detail } = trpc.band.getWebhookDelivery.useQuery(
+    { bandId, deliveryId: expandedId || '' },
+    { enabled: !!expandedId }
+  )
+
+  const replayMutation = trpc.band.replayWebhookDelivery.useMutation({
+    onSuccess: (result) => {
+      showToast(result.message, result.success ? 'success' : 'warning')
+      utils.band.getWebhookDeliveries.invalidate({ bandId })
+    },
+    onError: (error) => {
+      showToast(error.message, 'error')
+    },
+  })
+
+  const deliveries = data?.pages.flatMap(page => page.deliveries) ?? []
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <Flex justify="between" align="center">
+          <div>
+            <Text weight="semibold">Webhook Deliveries</Text>
+            <Text variant="small" className="text-gray-600">
+              Failed deliveries are retried with increasing delays for about two hours.
+            </Text>
+          </div>
+          <Select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as typeof status)}
+          >
+            <option value="">All</option>
+            <option value="DELIVERED">Delivered</option>
+            <option value="PENDING">Retrying</option>
+            <option value="DEAD">Failed</option>
+          </Select>
+        </Flex>
+      </div>
+
+      {isLoading ? (
+        <div className="px-4 py-3">
+          <Text variant="small" color="muted">Loading deliveries...</Text>
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="px-4 py-3">
+          <Text variant="small" color="muted">No webhook deliveries yet.</Text>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {deliveries.map((delivery) => {
+            const isExpanded = expandedId === delivery.id
+            return (
+              <div key={delivery.id} className="px-4 py-2">
+                <Flex justify="between" align="center">
+                  <button
+                    type="button"
+                    className="text-left flex-1"
+                    onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
+                  >
+                    <span className="font-mono text-sm">{delivery.eventType}</span>{' '}
+                    <Badge variant={STATUS_VARIANTS[delivery.status]} size="sm">
+                      {STATUS_LABELS[delivery.status]}
+                    </Badge>
+                    {delivery.replayOfId && (
+                      <span className="text-xs text-gray-500 ml-2">replay</span>
+                    )}
+                    <span className="block text-xs text-gray-500">
+                      {delivery.endpoint
+                        ? delivery.endpoint.description || delivery.endpoint.url
+                        : 'Primary webhook'}
+                      {' · '}
+                      {new Date(delivery.createdAt).toLocaleString()}
+                      {' · '}
+                      {delivery.attemptCount} {delivery.attemptCount === 1 ? 'attempt' : 'attempts'}
+                      {delivery.lastStatusCode ? ` · HTTP ${delivery.lastStatusCode}` : ''}
+                      {delivery.status === 'PENDING' && delivery.nextAttemptAt
+                        ? ` · next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`
+                        : ''}
+                    </span>
+                  </button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => replayMutation.mutate({ bandId, deliveryId: delivery.id })}
+                    disabled={replayMutation.isPending}
+                  >
+                    Replay
+                  </Button>
+                </Flex>
+
+                {isExpanded && detail?.delivery.id === delivery.id && (
+                  <div className="mt-2 space-y-2">
+                    {detail.delivery.attempts.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1">#</th>
+                            <th className="py-1">Time</th>
+                            <th className="py-1">Result</th>
+                            <th className="py-1">Duration</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {detail.delivery.attempts.map((attempt) => (
+                            <tr key={attempt.id} className="border-t border-gray-100">
+                              <td className="py-1">{attempt.attemptNumber}</td>
+                              <td className="py-1">{new Date(attempt.createdAt).toLocaleString()}</td>
+                              <td className={`py-1 ${attempt.error ? 'text-red-600' : 'text-green-700'}`}>
+                                {attempt.error ?? `HTTP ${attempt.statusCode}`}
+                              </td>
+                              <td className="py-1">{attempt.durationMs} ms</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    <pre className="bg-gray-50 border border-gray-200 rounded p-2 text-xs overflow-x-auto">
+                      {JSON.stringify(detail.delivery.payload, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="px-4 py-2 border-t border-gray-100">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
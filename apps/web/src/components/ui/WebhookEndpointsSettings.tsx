@@ -0,0 +1,284 @@
+'use client'
+
+import { useState } from 'react'
+import { trpc } from '@/lib/trpc'
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  type WebhookEventType,
+} from '@band-it/shared'
+import {
+  Text,
+  Badge,
+  Button,
+  Input,
+  Flex,
+  Stack,
+  Alert,
+  useToast,
+} from '@/components/ui'
+
+interface WebhookEndpointsSettingsProps {
+  bandId: string
+}
+
+interface EventPickerProps {
+  selected: WebhookEventType[]
+  onChange: (selected: WebhookEventType[]) => void
+}
+
+function EventPicker({ selected, onChange }: EventPickerProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+      {WEBHOOK_EVENT_TYPES.map(type => (
+        <label key={type} className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected.includes(type)}
+            onChange={(e) => onChange(e.target.checked
+              ? [...selected, type]
+              : selected.filter(t => t !== type))}
+            className="mt-1 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>
+            <span className="font-mono text-xs">{type}</span>
+            <span className="block text-xs text-gray-500">{WEBHOOK_EVENT_DESCRIPTIONS[type]}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Extra webhook endpoints, each subscribed to the events it picks. The
+ * primary webhook URL above keeps receiving every event.
+ */
+export function WebhookEndpointsSettings({ bandId }: WebhookEndpointsSettingsProps) {
+  const { showToast } = useToast()
+  const utils = trpc.useUtils()
+  const [isAdding, setIsAdding] = useState(false)
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingEvents, setEditingEvents] = useState<WebhookEventType[]>([])
+  // Secrets are only returned when created or rotated
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null)
+
+  const { data, isLoading } = trpc.band.getWebhookEndpoints.useQuery({ bandId })
+
+  const onError = (error: { message: string }) => showToast(error.message, 'error')
+  const refresh = () => utils.band.getWebhookEndpoints.invalidate({ bandId })
+
+  const createMutation = trpc.band.createWebhookEndpoint.useMutation({
+    onSuccess: (result) => {
+      showToast('Endpoint added. Copy its secret now - it won\'t be shown again!', 'success')
+      setRevealedSecret({ endpointId: result.endpoint.id, secret: result.secret })
+      setIsAdding(false)
+      setUrl('')
+      setDescription('')
+      setEventTypes([])
+      refresh()
+    },
+    onError,
+  })
+
+  const updateMutation = trpc.band.updateWebhookEndpoint.useMutation({
+    onSuccess: () => {
+      setEditingId(null)
+      refresh()
+    },
+    onError,
+  })
+
+  const deleteMutation = trpc.band.deleteWebhookEndpoint.useMutation({
+    onSuccess: () => {
+      showToast('Endpoint removed', 'success')
+      refresh()
+      utils.band.getWebhookDeliveries.invalidate({ bandId })
+    },
+    onError,
+  })
+
+  const rotateMutation = trpc.band.rotateWebhookEndpointSecret.useMutation({
+    onSuccess: (result, variables) => {
+      showToast('Secret regenerated. Copy it now - it won\'t be shown again!', 'success')
+      setRevealedSecret({ endpointId: variables.endpointId, secret: result.secret })
+    },
+    onError,
+  })
+
+  const endpoints = data?.endpoints ?? []
+
+  const eventSummary = (types: string[]) =>
+    types.length === 0 ? 'All events' : types.join(', ')
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <Flex justify="between" align="center">
+          <div>
+            <Text weight="semibold">Additional Webhook Endpoints</Text>
+            <Text variant="small" className="text-gray-600">
+              Send chosen events to other services. Each endpoint has its own signing secret.
+            </Text>
+          </div>
+          {!isAdding && (
+            <Button variant="secondary" size="sm" onClick={() => setIsAdding(true)}>
+              + Add Endpoint
+            </Button>
+          )}
+        </Flex>
+      </div>
+
+      <div className="px-4 py-3">
+        <Stack spacing="md">
+          {isAdding && (
+            <Stack spacing="sm">
+              <Input
+                label="Endpoint URL"
+                type="url"
+                placeholder="https://example.com/webhooks/bandit"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+              <Input
+                label="Description (optional)"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+              <Text variant="small" weight="semibold">Events (none selected = all events)</Text>
+              <EventPicker selected={eventTypes} onChange={setEventTypes} />
+              <Flex gap="sm">
+                <Button
+                  size="sm"
+                  onClick={() => createMutation.mutate({ bandId, url, description, eventTypes })}
+                  disabled={!url || createMutation.isPending}
+                >
+                  {createMutation.isPending ? 'Adding...' : 'Add Endpoint'}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => setIsAdding(false)}>
+                  Cancel
+                </Button>
+              </Flex>
+            </Stack>
+          )}
+
+          {isLoading ? (
+            <Text variant="small" color="muted">Loading endpoints...</Text>
+          ) : endpoints.length === 0 && !isAdding ? (
+            <Text variant="small" color="muted">No additional endpoints.</Text>
+          ) : (
+            endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="border border-gray-100 rounded p-3">
+                <Flex justify="between" align="center">
+                  <div className="min-w-0">
+                    <Text variant="small" weight="semibold">
+                      {endpoint.description || endpoint.url}{' '}
+                      <Badge variant={endpoint.isActive ? 'success' : 'secondary'} size="sm">
+                        {endpoint.isActive ? 'Active' : 'Disabled'}
+                      </Badge>
+                    </Text>
+                    {endpoint.description && (
+                      <Text variant="small" color="muted" className="font-mono truncate">{endpoint.url}</Text>
+                    )}
+                    <Text variant="small" color="muted">{eventSummary(endpoint.eventTypes)}</Text>
+                  </div>
+                  <Flex gap="sm">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(editingId === endpoint.id ? null : endpoint.id)
+                        setEditingEvents(endpoint.eventTypes as WebhookEventType[])
+                      }}
+                    >
+                      Events
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => updateMutation.mutate({
+                        bandId,
+                        endpointId: endpoint.id,
+                        isActive: !endpoint.isActive,
+                      })}
+                      disabled={updateMutation.isPending}
+                    >
+                      {endpoint.isActive ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => rotateMutation.mutate({ bandId, endpointId: endpoint.id })}
+                      disabled={rotateMutation.isPending}
+                    >
+                      New Secret
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm('Remove this endpoint and its delivery history?')) {
+                          deleteMutation.mutate({ bandId, endpointId: endpoint.id })
+                        }
+                      }}
+                      disabled={deleteMutation.isPending}
+                    >
+                      Remove
+                    </Button>
+                  </Flex>
+                </Flex>
+
+                {revealedSecret?.endpointId === endpoint.id && (
+                  <Alert variant="warning" className="mt-2">
+                    <Text variant="small">Signing secret (shown once):</Text>
+                    <code className="block font-mono text-sm break-all">{revealedSecret.secret}</code>
+                    <Flex gap="sm" className="mt-1">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => {
+                          navigator.clipboard.writeText(revealedSecret.secret)
+                          showToast('Endpoint secret copied to clipboard', 'success')
+                        }}
+                      >
+                        Copy
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+                        Done
+                      </Button>
+                    </Flex>
+                  </Alert>
+                )}
+
+                {editingId === endpoint.id && (
+                  <Stack spacing="sm" className="mt-2">
+                    <EventPicker selected={editingEvents} onChange={setEditingEvents} />
+                    <Flex gap="sm">
+                      <Button
+                        size="sm"
+                        onClick={() => updateMutation.mutate({
+                          bandId,
+                          endpointId: endpoint.id,
+                          eventTypes: editingEvents,
+                        })}
+                        disabled={updateMutation.isPending}
+                      >
+                        Save Events
+                      </Button>
+                      <Button variant="secondary" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </Flex>
+                  </Stack>
+                )}
+              </div>
+            ))
+          )}
+        </Stack>
+      </div>
+    </div>
+  )
+}
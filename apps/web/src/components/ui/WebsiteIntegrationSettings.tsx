@@ -11,6 +11,8 @@ import {
   Input,
   Flex,
   useToast,
+  WebhookDeliveryHistory,
+  WebhookEndpointsSettings,
 } from '@/components/ui'
 
 interface WebsiteIntegrationSettingsProps {
@@ -34,7 +36,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
 
   // Query only runs for managers (FOUNDER/GOVERNOR)
   const { data, isLoading, error } = trpc.band.getWebsiteSettings.useQuery(
-    { bandId, userId },
+    { bandId },
     { enabled: !!bandId && !!userId && canManage }
   )
 
@@ -42,7 +44,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
     onSuccess: () => {
       showToast('Website settings updated', 'success')
       setIsEditing(false)
-      utils.band.getWebsiteSettings.invalidate({ bandId, userId })
+      utils.band.getWebsiteSettings.invalidate({ bandId })
     },
     onError: (error) => {
       showToast(error.message, 'error')
@@ -53,7 +55,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
     onSuccess: () => {
       showToast('API key generated. Copy it now - it won\'t be shown again!', 'success')
       setShowApiKey(true)
-      utils.band.getWebsiteSettings.invalidate({ bandId, userId })
+      utils.band.getWebsiteSettings.invalidate({ bandId })
     },
     onError: (error) => {
       showToast(error.message, 'error')
@@ -64,7 +66,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
     onSuccess: () => {
       showToast('Webhook secret generated. Copy it now - it won\'t be shown again!', 'success')
       setShowWebhookSecret(true)
-      utils.band.getWebsiteSettings.invalidate({ bandId, userId })
+      utils.band.getWebsiteSettings.invalidate({ bandId })
     },
     onError: (error) => {
       showToast(error.message, 'error')
@@ -100,7 +102,6 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
   const handleSave = () => {
     updateMutation.mutate({
       bandId,
-      userId,
       publicWebsiteUrl: publicWebsiteUrl || '',
       webhookUrl: webhookUrl || '',
     })
@@ -142,7 +143,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
                 </Text>
               </div>
               <Button
-                onClick={() => sendStatusUpdateMutation.mutate({ bandId, userId })}
+                onClick={() => sendStatusUpdateMutation.mutate({ bandId })}
                 disabled={sendStatusUpdateMutation.isPending}
               >
                 {sendStatusUpdateMutation.isPending ? 'Sending...' : 'Send Now'}
@@ -285,7 +286,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
               <Button
                 variant="danger"
                 size="sm"
-                onClick={() => generateApiKeyMutation.mutate({ bandId, userId })}
+                onClick={() => generateApiKeyMutation.mutate({ bandId })}
                 disabled={generateApiKeyMutation.isPending}
               >
                 Regenerate
@@ -293,7 +294,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
             </div>
           ) : (
             <Button
-              onClick={() => generateApiKeyMutation.mutate({ bandId, userId })}
+              onClick={() => generateApiKeyMutation.mutate({ bandId })}
               disabled={generateApiKeyMutation.isPending}
             >
               {generateApiKeyMutation.isPending ? 'Generating...' : 'Generate API Key'}
@@ -326,7 +327,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
               <Button
                 variant="danger"
                 size="sm"
-                onClick={() => generateWebhookSecretMutation.mutate({ bandId, userId })}
+                onClick={() => generateWebhookSecretMutation.mutate({ bandId })}
                 disabled={generateWebhookSecretMutation.isPending}
               >
                 Regenerate
@@ -334,7 +335,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
             </div>
           ) : (
             <Button
-              onClick={() => generateWebhookSecretMutation.mutate({ bandId, userId })}
+              onClick={() => generateWebhookSecretMutation.mutate({ bandId })}
               disabled={generateWebhookSecretMutation.isPending}
             >
               {generateWebhookSecretMutation.isPending ? 'Generating...' : 'Generate Webhook Secret'}
@@ -359,7 +360,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
                     </Text>
                   </div>
                   <Button
-                    onClick={() => sendStatusUpdateMutation.mutate({ bandId, userId })}
+                    onClick={() => sendStatusUpdateMutation.mutate({ bandId })}
                     disabled={sendStatusUpdateMutation.isPending}
                   >
                     {sendStatusUpdateMutation.isPending ? 'Sending...' : 'Send Now'}
@@ -382,7 +383,7 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
                     </Text>
                   </div>
                   <Button
-                    onClick={() => syncMembersMutation.mutate({ bandId, userId })}
+                    onClick={() => syncMembersMutation.mutate({ bandId })}
                     disabled={syncMembersMutation.isPending}
                   >
                     {syncMembersMutation.isPending ? 'Syncing...' : 'Sync Now'}
@@ -396,6 +397,11 @@ export function WebsiteIntegrationSettings({ bandId, userId, userRole }: Website
           </>
         )}
 
+        <WebhookEndpointsSettings bandId={bandId} />
+
+        {/* Delivery history, so missed events can be spotted and replayed */}
+        <WebhookDeliveryHistory bandId={bandId} />
+
         {/* API Documentation */}
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mt-4">
           <Text weight="semibold" className="mb-2">API Endpoints</Text>
@@ -32,16 +32,20 @@ export { NotificationBell } from './NotificationBell'
 export { NotificationsDropdown } from './NotificationsDropdown'
 export { ProposalProjects } from './ProposalProjects'
 export { ProposalProjectsHierarchy } from './ProposalProjectsHierarchy'
+export { MultiOptionBallot, MULTI_OPTION_METHOD_LABELS } from './MultiOptionBallot'
+export { MultiOptionResults } from './MultiOptionResults'
 export { AIValidationBadge } from './AIValidationBadge'
 export { FileUpload } from './FileUpload'
 export { FileList } from './FileList'
 export { DiscussionSidebar } from './DiscussionSidebar'
 export { PageHeader } from './PageHeader'
 export { BandLayout } from './BandLayout'
+export { BandSearchBar } from './BandSearchBar'
 export { AdminSidebar } from './AdminSidebar'
 export { AdminLayout } from './AdminLayout'
 export { IntegrityBlockModal } from './IntegrityBlockModal'
 export { IntegrityWarningModal } from './IntegrityWarningModal'
+export { StepUpModal, useStepUp, getTwoFactorRequirement } from './StepUpModal'
 export { AIUsageTicker, BandUsageSummary } from './AIUsageTicker'
 export { BillingBanner } from './BillingBanner'
 export { DuesBanner } from './DuesBanner'
@@ -51,6 +55,8 @@ export { DissolveBandSection } from './DissolveBandSection'
 export { TransferOwnershipSection } from './TransferOwnershipSection'
 export { GovernanceSettings } from './GovernanceSettings'
 export { WebsiteIntegrationSettings } from './WebsiteIntegrationSettings'
+export { WebhookDeliveryHistory } from './WebhookDeliveryHistory'
+export { WebhookEndpointsSettings } from './WebhookEndpointsSettings'
 export { HelpTip, InlineHelp } from './HelpTip'
 export { QuickActionsWidget } from './QuickActionsWidget'
 export { Footer } from './Footer'
@@ -0,0 +1,101 @@
+import { jwtDecode } from 'jwt-decode'
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/trpc'
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000
+
+let refreshInFlight: Promise<string | null> | null = null
+
+export function storeTokens(tokens: { accessToken: string; refreshToken: string }) {
+  localStorage.setItem('accessToken', tokens.accessToken)
+  localStorage.setItem('refreshToken', tokens.refreshToken)
+}
+
+export function clearTokens() {
+  localStorage.removeItem('accessToken')
+  localStorage.removeItem('refreshToken')
+  localStorage.removeItem('userEmail')
+}
+
+function isExpiring(token: string): boolean {
+  try {
+    const { exp } = jwtDecode<{ exp?: number }>(token)
+    return !!exp && exp * 1000 - Date.now() < EXPIRY_MARGIN_MS
+  } catch {
+    return true
+  }
+}
+
+async function callAuth<T>(procedure: string, input: unknown): Promise<T | null> {
+  const response = await fetch(`${API_URL}/auth.${procedure}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+  if (!response.ok) return null
+  const body = await response.json()
+  return body?.result?.data ?? null
+}
+
+async function doRefresh(): Promise<string | null> {
+  const refreshToken = localStorage.getItem('refreshToken')
+  if (!refreshToken) return null
+
+  try {
+    const result = await callAuth<{ accessToken: string; refreshToken: string }>('refresh', { refreshToken })
+    if (result) {
+      storeTokens(result)
+      return result.accessToken
+    }
+  } catch {
+    // Network trouble - keep the tokens and let the request fail normally
+    return null
+  }
+
+  // Another tab may have rotated the token while we were waiting
+  if (localStorage.getItem('refreshToken') !== refreshToken) {
+    return localStorage.getItem('accessToken')
+  }
+
+  // The session is gone (expired, revoked or signed out elsewhere)
+  clearTokens()
+  window.location.href = `/login?returnTo=${encodeURIComponent(window.location.pathname)}`
+  return null
+}
+
+/**
+ * Get a new access token using the refresh token. Concurrent callers share
+ * one request, since each refresh token can only be used once.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = doRefresh().finally(() => {
+      refreshInFlight = null
+    })
+  }
+  return refreshInFlight
+}
+
+/**
+ * The current access token, refreshed first if it is about to expire
+ */
+export async function getAccessToken(): Promise<string | null> {
+  if (typeof window === 'undefined') return null
+  const token = localStorage.getItem('accessToken')
+  if (token && isExpiring(token) && localStorage.getItem('refreshToken')) {
+    return (await refreshAccessToken()) ?? token
+  }
+  return token
+}
+
+/**
+ * Sign out this device on the server, then forget the tokens
+ */
+export async function signOut() {
+  const refreshToken = localStorage.getItem('refreshToken')
+  clearTokens()
+  if (refreshToken) {
+    await callAuth('logout', { refreshToken }).catch(() => null)
+  }
+}
@@ -0,0 +1,64 @@
+const SERVICE_WORKER_PATH = '/push-sw.js'
+
+/**
+ * Whether this browser can receive Web Push at all
+ */
+export function isPushSupported() {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+}
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+  const raw = window.atob(padded)
+  return Uint8Array.from(raw, char => char.charCodeAt(0))
+}
+
+/**
+ * This browser's current push subscription, if it has one
+ */
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH)
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+/**
+ * Ask for permission and subscribe this browser. Returns the subscription in
+ * the shape the API stores, or null if the user said no.
+ */
+export async function subscribeToPush(vapidPublicKey: string) {
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') return null
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH)
+  await navigator.serviceWorker.ready
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+  })
+
+  const json = subscription.toJSON()
+  return {
+    endpoint: subscription.endpoint,
+    keys: {
+      p256dh: json.keys?.p256dh ?? '',
+      auth: json.keys?.auth ?? '',
+    },
+  }
+}
+
+/**
+ * Unsubscribe this browser. Returns the endpoint that was removed.
+ */
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription()
+  if (!subscription) return null
+  await subscription.unsubscribe()
+  return subscription.endpoint
+}
@@ -1,22 +1,50 @@
 'use client'
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { httpBatchLink } from '@trpc/client'
+import { httpBatchLink, httpSubscriptionLink, splitLink } from '@trpc/client'
 import { useState } from 'react'
 import { trpc } from './trpc'
+import { getAccessToken, refreshAccessToken } from './auth-session'
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/trpc'
 
 export function TRPCProvider({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient())
   const [trpcClient] = useState(() =>
     trpc.createClient({
       links: [
-        httpBatchLink({
-          url: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/trpc',
-          async headers() {
-            if (typeof window === 'undefined') return {}
-            const token = localStorage.getItem('accessToken')
-            return token ? { Authorization: `Bearer ${token}` } : {}
-          },
+        splitLink({
+          condition: (op) => op.type === 'subscription',
+          // Subscriptions stream over SSE. EventSource can't send headers,
+          // so the token travels as a connection param instead.
+          true: httpSubscriptionLink({
+            url: API_URL,
+            async connectionParams() {
+              const token = await getAccessToken()
+              return token ? { token } : {}
+            },
+          }),
+          false: httpBatchLink({
+            url: API_URL,
+            async headers() {
+              const token = await getAccessToken()
+              return token ? { Authorization: `Bearer ${token}` } : {}
+            },
+            // Access tokens are short-lived; if one was rejected anyway
+            // (clock skew, revoked elsewhere), refresh once and retry
+            async fetch(url, options) {
+              const response = await fetch(url, options)
+              if (response.status !== 401 || !localStorage.getItem('refreshToken')) {
+                return response
+              }
+              const token = await refreshAccessToken()
+              if (!token) return response
+              return fetch(url, {
+                ...options,
+                headers: { ...(options?.headers as Record<string, string>), Authorization: `Bearer ${token}` },
+              })
+            },
+          }),
         }),
       ],
     })
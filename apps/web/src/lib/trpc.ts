@@ -1,5 +1,9 @@
 import { createTRPCReact } from '@trpc/react-query'
+import type { inferRouterInputs } from '@trpc/server'
 import type { AppRouter } from '../../../api/src/server/routers/_app'
 
 // Create tRPC React hooks
-export const trpc = createTRPCReact<AppRouter>()
\ No newline at end of file
+export const trpc = createTRPCReact<AppRouter>()
+
+// Procedure input types, e.g. RouterInputs['band']['getBySlug']
+export type RouterInputs = inferRouterInputs<AppRouter>
@@ -19,3 +19,10 @@ export const PRICING_TIER_THRESHOLD = 21 // Members count where pricing changes
  * When false, bands auto-activate when reaching MIN_MEMBERS_TO_ACTIVATE.
  */
 export const REQUIRE_PAYMENT_TO_ACTIVATE = false
+
+/**
+ * Multi-option proposals (ranked-choice, approval, score voting)
+ */
+export const MULTI_OPTION_MIN_OPTIONS = 2
+export const MULTI_OPTION_MAX_OPTIONS = 10
+export const MULTI_OPTION_SCORE_MAX = 5 // Scores run 0..MAX per option
@@ -14,4 +14,10 @@ export * from './welcomeInterests'
 export * from './admin'
 
 // Band / agency profile options
-export * from './bandProfile'
\ No newline at end of file
+export * from './bandProfile'
+
+// Outbound webhook event types and payload schemas
+export * from './webhooks'
+
+// Notification template variables, rendering and validation
+export * from './notificationTemplates'
@@ -0,0 +1,196 @@
+/**
+ * Notification templates
+ *
+ * Templates use {variableName} placeholders. Each notification type has a set
+ * of variables its callers supply; required ones must appear in both the
+ * in-app text (title/message) and the email (subject/body). Shared so the
+ * admin editor previews with exactly the rendering the API uses.
+ */
+
+export const DEFAULT_TEMPLATE_LOCALE = 'en'
+
+/** Languages templates can be written in, with their names in that language */
+export const TEMPLATE_LOCALES = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  pt: 'Português',
+} as const
+
+export type TemplateLocale = keyof typeof TEMPLATE_LOCALES
+
+export function isTemplateLocale(value: string): value is TemplateLocale {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_LOCALES, value)
+}
+
+/**
+ * Locales to try for a user's language, most specific first:
+ * "pt-BR" -> ["pt-BR", "pt", "en"]
+ */
+export function getLocaleFallbacks(locale: string | null | undefined): string[] {
+  const chain: string[] = []
+  if (locale) {
+    chain.push(locale)
+    const language = locale.split('-')[0]
+    if (language !== locale) chain.push(language)
+  }
+  if (!chain.includes(DEFAULT_TEMPLATE_LOCALE)) chain.push(DEFAULT_TEMPLATE_LOCALE)
+  return chain
+}
+
+export const TEMPLATE_VARIABLES = {
+  recipientName: { description: 'Name of the person receiving the notification', sample: 'Jordan Lee' },
+  actionUrl: { description: 'Link to the page the notification is about', sample: 'https://band-it.com/bands/night-owls' },
+  bandName: { description: 'Band name', sample: 'The Night Owls' },
+  userName: { description: 'Member the notification is about', sample: 'Alex Rivera' },
+  inviterName: { description: 'Member who sent the invite', sample: 'Sam Patel' },
+  creatorName: { description: 'Member who created the proposal', sample: 'Sam Patel' },
+  newOwnerName: { description: 'Member who took over billing', sample: 'Sam Patel' },
+  markerName: { description: 'Member who recorded attendance', sample: 'Sam Patel' },
+  status: { description: 'New status', sample: 'ACTIVE' },
+  proposalTitle: { description: 'Proposal title', sample: 'Buy a new PA system' },
+  votingEndsAt: { description: 'When voting closes', sample: 'Nov 9, 5:00 PM' },
+  priceAmount: { description: 'Subscription price', sample: '$20' },
+  newPlan: { description: 'Subscription plan', sample: 'Large band' },
+  gracePeriodDays: { description: 'Days before the band is deactivated', sample: '7' },
+  daysLeft: { description: 'Days left in the grace period', sample: '3' },
+  eventTitle: { description: 'Event title', sample: 'Friday rehearsal' },
+  eventDate: { description: 'Event date', sample: 'Friday, November 6' },
+  eventTime: { description: 'Event start time', sample: '7:00 PM' },
+  timeUntil: { description: 'Time until the event starts', sample: '1 hour' },
+  cancellationNote: { description: 'Note from whoever cancelled the event', sample: 'Venue double-booked.' },
+} as const satisfies Record<string, { description: string; sample: string }>
+
+export type TemplateVariableName = keyof typeof TEMPLATE_VARIABLES
+
+// Every template can use these; the API fills them in itself
+const BUILT_IN_VARIABLES: TemplateVariableName[] = ['recipientName', 'actionUrl']
+
+/**
+ * Variables callers supply, per notification type. Types not listed only
+ * get the built-ins and an optional bandName.
+ */
+const TYPE_VARIABLES: Record<string, { required: TemplateVariableName[]; optional?: TemplateVariableName[] }> = {
+  BAND_INVITE_RECEIVED: { required: ['inviterName', 'bandName'], optional: ['userName'] },
+  BAND_INVITE_ACCEPTED: { required: ['userName', 'bandName'] },
+  BAND_INVITE_DECLINED: { required: ['userName', 'bandName'] },
+  BAND_APPLICATION_RECEIVED: { required: ['userName', 'bandName'] },
+  BAND_APPLICATION_APPROVED: { required: ['bandName'] },
+  BAND_APPLICATION_REJECTED: { required: ['bandName'] },
+  BAND_MEMBER_JOINED: { required: ['userName', 'bandName'] },
+  BAND_MEMBER_LEFT: { required: ['userName', 'bandName'] },
+  BAND_STATUS_CHANGED: { required: ['bandName', 'status'] },
+  BAND_DETAILS_UPDATED: { required: ['bandName'] },
+  PROPOSAL_CREATED: { required: ['proposalTitle', 'bandName'], optional: ['creatorName', 'votingEndsAt'] },
+  PROPOSAL_VOTE_NEEDED: { required: ['proposalTitle', 'bandName'], optional: ['votingEndsAt'] },
+  PROPOSAL_APPROVED: { required: ['proposalTitle', 'bandName'] },
+  PROPOSAL_REJECTED: { required: ['proposalTitle', 'bandName'] },
+  PROPOSAL_CLOSED: { required: ['proposalTitle'], optional: ['bandName'] },
+  BILLING_PAYMENT_REQUIRED: { required: ['bandName'], optional: ['priceAmount'] },
+  BILLING_PAYMENT_SUCCEEDED: { required: ['bandName'], optional: ['priceAmount'] },
+  BILLING_PAYMENT_FAILED: { required: ['bandName'], optional: ['gracePeriodDays'] },
+  BILLING_GRACE_PERIOD_WARNING: { required: ['bandName', 'daysLeft'] },
+  BILLING_BAND_DEACTIVATED: { required: ['bandName'] },
+  BILLING_OWNER_LEFT: { required: ['bandName'] },
+  BILLING_OWNER_CLAIMED: { required: ['newOwnerName', 'bandName'] },
+  BILLING_SUBSCRIPTION_UPGRADED: { required: ['bandName', 'newPlan'], optional: ['priceAmount'] },
+  BILLING_SUBSCRIPTION_DOWNGRADED: { required: ['bandName', 'newPlan'], optional: ['priceAmount'] },
+  EVENT_CREATED: { required: ['eventTitle'], optional: ['eventDate', 'eventTime', 'bandName'] },
+  EVENT_UPDATED: { required: ['eventTitle'], optional: ['bandName'] },
+  EVENT_CANCELLED: { required: ['eventTitle'], optional: ['bandName', 'cancellationNote'] },
+  EVENT_REMINDER: { required: ['eventTitle', 'timeUntil'], optional: ['bandName', 'eventDate', 'eventTime'] },
+  EVENT_RSVP_RECEIVED: { required: ['userName', 'eventTitle'], optional: ['bandName'] },
+  EVENT_ATTENDANCE_MARKED: { required: ['eventTitle', 'markerName'], optional: ['bandName'] },
+}
+
+export interface TemplateVariable {
+  name: TemplateVariableName
+  description: string
+  sample: string
+  required: boolean
+}
+
+/**
+ * The variables a template for this notification type may use
+ */
+export function getTemplateVariables(type: string): TemplateVariable[] {
+  const variables = TYPE_VARIABLES[type] ?? { required: [], optional: ['bandName'] }
+  const names: Array<[TemplateVariableName, boolean]> = [
+    ...variables.required.map(name => [name, true] as [TemplateVariableName, boolean]),
+    ...(variables.optional ?? []).map(name => [name, false] as [TemplateVariableName, boolean]),
+    ...BUILT_IN_VARIABLES.map(name => [name, false] as [TemplateVariableName, boolean]),
+  ]
+
+  return names.map(([name, required]) => ({ name, required, ...TEMPLATE_VARIABLES[name] }))
+}
+
+/**
+ * Sample values for previews
+ */
+export function getSampleVariables(type: string): Record<string, string> {
+  return Object.fromEntries(getTemplateVariables(type).map(variable => [variable.name, variable.sample]))
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g
+
+/**
+ * Placeholder names used in a piece of template text, without duplicates
+ */
+export function extractPlaceholders(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), match => match[1])))
+}
+
+/**
+ * Fill in placeholders. Ones without a value are left as written and
+ * reported in `missing`.
+ */
+export function renderTemplate(text: string, values: Record<string, unknown>): { text: string; missing: string[] } {
+  const missing = new Set<string>()
+  const rendered = text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = values[name]
+    if (value === undefined || value === null || value === '') {
+      missing.add(name)
+      return placeholder
+    }
+    return String(value)
+  })
+  return { text: rendered, missing: Array.from(missing) }
+}
+
+export interface TemplateContent {
+  title: string
+  message: string
+  emailSubject: string
+  emailBody: string
+}
+
+/**
+ * Problems that stop a template being saved: placeholders the type doesn't
+ * supply, and required variables left out of the in-app text or the email
+ */
+export function validateTemplate(type: string, content: TemplateContent): string[] {
+  const errors: string[] = []
+  const variables = getTemplateVariables(type)
+  const known = new Set<string>(variables.map(variable => variable.name))
+
+  const used = extractPlaceholders(Object.values(content).join('\n'))
+  for (const name of used) {
+    if (!known.has(name)) {
+      errors.push(`{${name}} isn't available for this notification`)
+    }
+  }
+
+  const inApp = new Set(extractPlaceholders(`${content.title}\n${content.message}`))
+  const email = new Set(extractPlaceholders(`${content.emailSubject}\n${content.emailBody}`))
+  for (const variable of variables.filter(variable => variable.required)) {
+    if (!inApp.has(variable.name)) {
+      errors.push(`The title or message must include {${variable.name}}`)
+    }
+    if (!email.has(variable.name)) {
+      errors.push(`The email subject or body must include {${variable.name}}`)
+    }
+  }
+
+  return errors
+}
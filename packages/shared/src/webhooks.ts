@@ -0,0 +1,253 @@
+/**
+ * Outbound webhook events
+ *
+ * Every delivery is a POST with a JSON envelope ({ type, timestamp, bandSlug,
+ * data }) signed with HMAC-SHA256 of the raw body in X-BandIT-Signature.
+ * The schemas below describe `data` for each event type (JSON Schema draft-07).
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'member.joined',
+  'member.left',
+  'member.updated',
+  'members.sync',
+  'status.update',
+  'event.created',
+  'event.updated',
+  'event.cancelled',
+  'proposal.created',
+  'proposal.closed',
+  'project.status_changed',
+  'task.completed',
+  'donation.confirmed',
+  'post.published',
+  'document.uploaded',
+] as const
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+/** Short descriptions for endpoint subscription pickers */
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  'member.joined': 'A member joined the band',
+  'member.left': 'A member left the band',
+  'member.updated': 'A member\'s role or details changed',
+  'members.sync': 'Full member list (sent on membership changes and on demand)',
+  'status.update': 'Weekly status digest',
+  'event.created': 'An event was scheduled',
+  'event.updated': 'An event was changed',
+  'event.cancelled': 'An event was cancelled',
+  'proposal.created': 'A proposal was created',
+  'proposal.closed': 'Voting on a proposal closed, with the tally (and multi-option results)',
+  'project.status_changed': 'A project moved to a new status',
+  'task.completed': 'A task was completed',
+  'donation.confirmed': 'A donation was confirmed as received',
+  'post.published': 'A post was published in an all-members category',
+  'document.uploaded': 'A document was uploaded to an all-members folder',
+}
+
+type JsonSchema = Record<string, unknown>
+
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' }
+const nullableString: JsonSchema = { type: ['string', 'null'] }
+
+const object = (properties: Record<string, JsonSchema>, required: string[]): JsonSchema => ({
+  type: 'object',
+  properties,
+  required,
+})
+
+const eventDetails = object(
+  {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    description: nullableString,
+    startTime: dateTime,
+    endTime: dateTime,
+    location: nullableString,
+  },
+  ['id', 'title', 'startTime', 'endTime']
+)
+
+const projectStatus: JsonSchema = {
+  type: 'string',
+  enum: ['PLANNING', 'ACTIVE', 'ON_HOLD', 'COMPLETED', 'CANCELLED'],
+}
+
+/** JSON Schema for the `data` of each webhook event */
+export const WEBHOOK_EVENT_SCHEMAS: Record<WebhookEventType, JsonSchema> = {
+  'member.joined': object(
+    { name: { type: 'string' }, role: { type: 'string' }, joinedAt: dateTime },
+    ['name', 'role', 'joinedAt']
+  ),
+  'member.left': object(
+    { name: { type: 'string' }, leftAt: dateTime },
+    ['name', 'leftAt']
+  ),
+  'member.updated': object(
+    { name: { type: 'string' }, role: { type: 'string' } },
+    ['name']
+  ),
+  'members.sync': object(
+    {
+      members: {
+        type: 'array',
+        items: object(
+          { name: { type: 'string' }, role: { type: 'string' }, joinedAt: dateTime },
+          ['name', 'role', 'joinedAt']
+        ),
+      },
+      count: { type: 'integer' },
+    },
+    ['members', 'count']
+  ),
+  'status.update': object(
+    {
+      title: { type: 'string' },
+      content: { type: ['string', 'object'] },
+      author: { type: 'string' },
+      createdAt: dateTime,
+    },
+    ['title', 'content', 'createdAt']
+  ),
+  'event.created': eventDetails,
+  'event.updated': eventDetails,
+  'event.cancelled': object(
+    { id: { type: 'string' }, title: { type: 'string' } },
+    ['id', 'title']
+  ),
+  'proposal.created': object(
+    {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      type: { type: 'string' },
+      status: { type: 'string' },
+      createdBy: { type: 'string' },
+      votingEndsAt: { type: ['string', 'null'], format: 'date-time' },
+      createdAt: dateTime,
+    },
+    ['id', 'title', 'type', 'status', 'createdBy', 'createdAt']
+  ),
+  'proposal.closed': object(
+    {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      outcome: { type: 'string', enum: ['APPROVED', 'REJECTED'] },
+      rejectionReason: nullableString,
+      tally: object(
+        {
+          yes: { type: 'integer' },
+          no: { type: 'integer' },
+          abstain: { type: 'integer' },
+          eligibleVoters: { type: 'integer' },
+          quorumMet: { type: 'boolean' },
+        },
+        ['yes', 'no', 'abstain', 'eligibleVoters', 'quorumMet']
+      ),
+      multiOption: {
+        description: 'Result of ranked-choice, approval or score voting; null for yes/no proposals',
+        oneOf: [
+          { type: 'null' },
+          object(
+            {
+              method: { type: 'string', enum: ['RANKED_CHOICE', 'APPROVAL', 'SCORE'] },
+              options: {
+                type: 'array',
+                items: object({ id: { type: 'string' }, label: { type: 'string' } }, ['id', 'label']),
+              },
+              winnerOptionId: { ...nullableString, description: 'Null when no single option came out on top' },
+              tiedOptionIds: { type: 'array', items: { type: 'string' } },
+              ballotsCounted: { type: 'integer' },
+              rounds: {
+                type: 'array',
+                description: 'Instant-runoff rounds; approval and score have a single round',
+                items: object(
+                  {
+                    round: { type: 'integer' },
+                    counts: {
+                      type: 'object',
+                      description: 'Option id to first-choice ballots, approvals or total score',
+                      additionalProperties: { type: 'integer' },
+                    },
+                    eliminated: { type: 'array', items: { type: 'string' } },
+                    exhausted: { type: 'integer', description: 'Ranked ballots with no continuing option left' },
+                  },
+                  ['round', 'counts', 'eliminated', 'exhausted']
+                ),
+              },
+            },
+            ['method', 'options', 'winnerOptionId', 'tiedOptionIds', 'ballotsCounted', 'rounds']
+          ),
+        ],
+      },
+      closedAt: dateTime,
+    },
+    ['id', 'title', 'outcome', 'tally', 'closedAt']
+  ),
+  'project.status_changed': object(
+    {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      previousStatus: projectStatus,
+      status: projectStatus,
+      changedAt: dateTime,
+    },
+    ['id', 'name', 'previousStatus', 'status', 'changedAt']
+  ),
+  'task.completed': object(
+    {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      project: object({ id: { type: 'string' }, name: { type: 'string' } }, ['id', 'name']),
+      completedAt: dateTime,
+    },
+    ['id', 'name', 'project', 'completedAt']
+  ),
+  'donation.confirmed': object(
+    {
+      id: { type: 'string' },
+      amount: { type: 'integer', description: 'Amount in cents' },
+      currency: { type: 'string' },
+      confirmedAt: dateTime,
+    },
+    ['id', 'amount', 'currency', 'confirmedAt']
+  ),
+  'post.published': object(
+    {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      slug: { type: 'string' },
+      category: object({ name: { type: 'string' }, slug: { type: 'string' } }, ['name', 'slug']),
+      author: { type: 'string' },
+      publishedAt: dateTime,
+    },
+    ['id', 'title', 'slug', 'category', 'author', 'publishedAt']
+  ),
+  'document.uploaded': object(
+    {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      description: nullableString,
+      folder: { type: 'string' },
+      mimeType: { type: 'string' },
+      size: { type: 'integer' },
+      uploadedBy: { type: 'string' },
+      uploadedAt: dateTime,
+    },
+    ['id', 'title', 'folder', 'mimeType', 'size', 'uploadedBy', 'uploadedAt']
+  ),
+}
+
+/** JSON Schema for the delivery envelope; `data` matches WEBHOOK_EVENT_SCHEMAS[type] */
+export const WEBHOOK_PAYLOAD_SCHEMA: JsonSchema = object(
+  {
+    type: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES] },
+    timestamp: dateTime,
+    bandSlug: { type: 'string' },
+    data: { type: 'object' },
+  },
+  ['type', 'timestamp', 'bandSlug', 'data']
+)